@@ -0,0 +1,134 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { generateDidIdentity } from 'narrative-ui';
+import type { DidIdentity, TrustAttestation } from 'narrative-ui';
+import type { ValidationResult, Voucher } from '../schema';
+import { getVoucherAcceptance, signCreditLimit, verifyCreditLimits } from '../utils/creditLimits';
+
+function createVoucher(id: string, amount: number, issuerId: string): Voucher {
+  return {
+    id,
+    issuerId,
+    amount,
+    unit: 'Minuten',
+    createdAt: 1000,
+    initialRecipientId: 'did:key:someone',
+    currentHolderId: 'did:key:someone',
+    status: 'active',
+    issuerSignature: 'issuer-signature',
+    transfers: [],
+  };
+}
+
+function validated(...ids: string[]): Map<string, ValidationResult> {
+  return new Map(
+    ids.map((id) => [
+      id,
+      {
+        voucherId: id,
+        issuerSignatureStatus: 'valid',
+        transferSignatureStatuses: [],
+        overallStatus: 'valid',
+        lastValidated: 1000,
+      },
+    ])
+  );
+}
+
+describe('Credit limits', () => {
+  let alice: DidIdentity;
+  let issuer: DidIdentity;
+  let mallory: DidIdentity;
+
+  beforeAll(async () => {
+    alice = await generateDidIdentity('Alice');
+    issuer = await generateDidIdentity('Issuer');
+    mallory = await generateDidIdentity('Mallory');
+  });
+
+  it('should keep limits signed by their user', async () => {
+    const signed = await signCreditLimit(alice.did, issuer.did, 'Minuten', 20, 1, alice.privateKey);
+
+    const { limits } = await verifyCreditLimits({ [alice.did]: { [issuer.did]: { Minuten: signed } } });
+
+    expect(limits).toEqual({ [alice.did]: { [issuer.did]: { Minuten: 20 } } });
+  });
+
+  it('should drop unsigned, tampered and foreign limits', async () => {
+    const own = await signCreditLimit(alice.did, issuer.did, 'Minuten', 20, 1, alice.privateKey);
+    const foreign = await signCreditLimit(alice.did, issuer.did, 'Minuten', 0, 1, mallory.privateKey);
+
+    const { limits } = await verifyCreditLimits({
+      [alice.did]: {
+        [issuer.did]: {
+          Minuten: { ...own, limit: 1000 },
+          Euro: { ...own, version: 5 },
+          Aepfel: { ...own },
+          Stunden: foreign,
+        },
+        [mallory.did]: { Minuten: { ...own } },
+      },
+      [mallory.did]: { [issuer.did]: { Minuten: 5 as never } },
+    });
+
+    expect(limits).toEqual({});
+  });
+
+  it('should keep a signed removal instead of the removed limit', async () => {
+    const removal = await signCreditLimit(alice.did, issuer.did, 'Minuten', null, 2, alice.privateKey);
+
+    const { limits, newest } = await verifyCreditLimits({ [alice.did]: { [issuer.did]: { Minuten: removal } } });
+
+    expect(limits).toEqual({});
+    expect(newest[alice.did][issuer.did].Minuten).toEqual(removal);
+  });
+
+  it('should keep the newest seen entry when an older one is written back or deleted', async () => {
+    const older = await signCreditLimit(alice.did, issuer.did, 'Minuten', 500, 1, alice.privateKey);
+    const newer = await signCreditLimit(alice.did, issuer.did, 'Minuten', 20, 2, alice.privateKey);
+    const seen = { [alice.did]: { [issuer.did]: { Minuten: newer } } };
+
+    const replayed = await verifyCreditLimits({ [alice.did]: { [issuer.did]: { Minuten: older } } }, seen);
+    const deleted = await verifyCreditLimits({}, seen);
+
+    expect(replayed.limits).toEqual({ [alice.did]: { [issuer.did]: { Minuten: 20 } } });
+    expect(replayed.newest).toEqual(seen);
+    expect(deleted.limits).toEqual({ [alice.did]: { [issuer.did]: { Minuten: 20 } } });
+  });
+
+  it('should refuse vouchers over the limit of the recipient', () => {
+    const vouchers = { a: createVoucher('a', 15, issuer.did) };
+    const results = validated('a');
+    const limits = { [alice.did]: { [issuer.did]: { Minuten: 20 } } };
+
+    expect(
+      getVoucherAcceptance(createVoucher('b', 5, issuer.did), true, alice.did, vouchers, results, limits)
+    ).toEqual({
+      status: 'accepted',
+      outstanding: 20,
+      limit: 20,
+    });
+    expect(
+      getVoucherAcceptance(createVoucher('b', 6, issuer.did), true, alice.did, vouchers, results, limits).status
+    ).toBe('over-limit');
+  });
+
+  it('should always accept vouchers returned to their issuer', () => {
+    const vouchers = { a: createVoucher('a', 50, issuer.did) };
+    const limits = { [issuer.did]: { [issuer.did]: { Minuten: 0 } } };
+
+    expect(
+      getVoucherAcceptance(vouchers.a, false, issuer.did, vouchers, validated('a'), limits).status
+    ).toBe('accepted');
+  });
+
+  it('should warn about issuers the recipient does not trust', () => {
+    const trust = {
+      [issuer.did]: { trusterDid: alice.did, trusteeDid: issuer.did } as TrustAttestation,
+    };
+    const voucher = createVoucher('a', 5, issuer.did);
+
+    expect(getVoucherAcceptance(voucher, true, alice.did, {}, new Map(), {}, trust).status).toBe('accepted');
+    expect(getVoucherAcceptance(voucher, true, alice.did, {}, new Map(), {}, {}).status).toBe('untrusted');
+    expect(getVoucherAcceptance(voucher, true, alice.did, {}, new Map(), {}).status).toBe('accepted');
+  });
+});
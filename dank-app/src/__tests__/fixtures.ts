@@ -0,0 +1,196 @@
+/**
+ * Test fixtures: signed vouchers, transfers and splits
+ * Signed the same way as useDankWallet does.
+ */
+
+import { signJws } from 'narrative-ui';
+import type { DidIdentity, IdentityProfile } from 'narrative-ui';
+import type {
+  IssuerSignaturePayload,
+  MoveSignaturePayload,
+  SplitSignaturePayload,
+  Transfer,
+  TransferSignaturePayload,
+  Voucher,
+} from '../schema';
+import { getChainTip, getIssuerSignaturePayload } from '../schema';
+
+/**
+ * Profiles with public keys of the given identities
+ */
+export function profilesOf(...identities: DidIdentity[]): Record<string, IdentityProfile> {
+  return Object.fromEntries(
+    identities.map((identity) => [
+      identity.did,
+      { displayName: identity.displayName ?? identity.did, publicKey: identity.publicKey },
+    ])
+  );
+}
+
+/**
+ * Issue a voucher signed by the issuer
+ * Group vouchers (issuerIds) are signed by the creating issuer only.
+ */
+export async function issueVoucher(
+  issuer: DidIdentity,
+  recipientId: string,
+  fields: Partial<Pick<
+    Voucher,
+    'id' | 'amount' | 'unit' | 'createdAt' | 'expiresAt' | 'expiryBehavior' | 'issuerIds' | 'issuerThreshold'
+  >> = {}
+): Promise<Voucher> {
+  const voucher: Voucher = {
+    id: fields.id ?? `voucher-${Math.random().toString(36).slice(2, 9)}`,
+    issuerId: issuer.did,
+    amount: fields.amount ?? 10,
+    unit: fields.unit ?? 'Minuten',
+    createdAt: fields.createdAt ?? 1000,
+    initialRecipientId: recipientId,
+    currentHolderId: recipientId,
+    status: 'active',
+    issuerSignature: '',
+    transfers: [],
+    ...(fields.expiresAt ? { expiresAt: fields.expiresAt } : {}),
+    ...(fields.expiryBehavior ? { expiryBehavior: fields.expiryBehavior } : {}),
+    ...(fields.issuerIds ? { issuerIds: fields.issuerIds } : {}),
+    ...(fields.issuerThreshold ? { issuerThreshold: fields.issuerThreshold } : {}),
+  };
+  const payload: IssuerSignaturePayload = getIssuerSignaturePayload(voucher);
+  voucher.issuerSignature = await signJws(payload, issuer.privateKey);
+  return voucher;
+}
+
+/**
+ * Co-sign a group voucher as another issuer
+ */
+export async function coSignVoucher(voucher: Voucher, coIssuer: DidIdentity): Promise<Voucher> {
+  const signature = await signJws(getIssuerSignaturePayload(voucher), coIssuer.privateKey);
+  return {
+    ...voucher,
+    coIssuerSignatures: { ...voucher.coIssuerSignatures, [coIssuer.did]: signature },
+  };
+}
+
+/**
+ * Sign a transfer of a voucher
+ *
+ * @param previousSignature - Link the transfer builds on (default: the chain tip)
+ * @param fromId - Claimed sender (default: the signer)
+ */
+export async function signTransfer(
+  voucher: Voucher,
+  signer: DidIdentity,
+  toId: string,
+  options: { previousSignature?: string; fromId?: string; timestamp?: number; reference?: string } = {}
+): Promise<Transfer> {
+  const payload: TransferSignaturePayload = {
+    voucherId: voucher.id,
+    fromId: options.fromId ?? signer.did,
+    toId,
+    timestamp: options.timestamp ?? 2000 + voucher.transfers.length,
+    previousSignature: options.previousSignature ?? getChainTip(voucher).signature,
+    ...(options.reference ? { reference: options.reference } : {}),
+  };
+  return {
+    id: `transfer-${Math.random().toString(36).slice(2, 9)}`,
+    voucherId: voucher.id,
+    fromId: payload.fromId,
+    toId,
+    timestamp: payload.timestamp,
+    ...(options.reference ? { reference: options.reference } : {}),
+    signature: await signJws(payload, signer.privateKey),
+  };
+}
+
+/**
+ * Append a transfer to a copy of the voucher (as the wallet stores it)
+ */
+export function withTransfer(voucher: Voucher, transfer: Transfer): Voucher {
+  return {
+    ...voucher,
+    transfers: [...voucher.transfers, transfer],
+    currentHolderId: transfer.toId,
+  };
+}
+
+/**
+ * Transfer a voucher from its holder to a recipient
+ */
+export async function transferVoucher(
+  voucher: Voucher,
+  holder: DidIdentity,
+  toId: string
+): Promise<Voucher> {
+  return withTransfer(voucher, await signTransfer(voucher, holder, toId));
+}
+
+/**
+ * Split a voucher held by the holder into a payment and a change voucher
+ *
+ * @returns The consumed parent and both children
+ */
+export async function splitVoucher(
+  voucher: Voucher,
+  holder: DidIdentity,
+  paymentAmount: number,
+  timestamp = 3000
+): Promise<{ parent: Voucher; payment: Voucher; change: Voucher }> {
+  const children = [
+    { id: `${voucher.id}-payment`, amount: paymentAmount },
+    { id: `${voucher.id}-change`, amount: voucher.amount - paymentAmount },
+  ];
+  const payload: SplitSignaturePayload = {
+    voucherId: voucher.id,
+    holderId: holder.did,
+    previousSignature: getChainTip(voucher).signature,
+    children,
+    timestamp,
+  };
+  const signature = await signJws(payload, holder.privateKey);
+
+  const [payment, change] = children.map(
+    (child): Voucher => ({
+      id: child.id,
+      issuerId: voucher.issuerId,
+      amount: child.amount,
+      unit: voucher.unit,
+      createdAt: timestamp,
+      initialRecipientId: holder.did,
+      currentHolderId: holder.did,
+      status: 'active',
+      issuerSignature: voucher.issuerSignature,
+      transfers: [],
+      parentId: voucher.id,
+      splitSignature: signature,
+      ...(voucher.expiresAt ? { expiresAt: voucher.expiresAt } : {}),
+    })
+  );
+
+  return {
+    parent: {
+      ...voucher,
+      status: 'split',
+      split: { id: `split-${voucher.id}`, holderId: holder.did, timestamp, children, signature },
+    },
+    payment,
+    change,
+  };
+}
+
+/**
+ * Move a voucher out of the workspace (as moveToPersonal leaves it there)
+ */
+export async function moveVoucher(voucher: Voucher, holder: DidIdentity, timestamp = 4000): Promise<Voucher> {
+  const payload: MoveSignaturePayload = {
+    type: 'move-out',
+    voucherId: voucher.id,
+    holderId: holder.did,
+    previousSignature: getChainTip(voucher).signature,
+    timestamp,
+  };
+  const signature = await signJws(payload, holder.privateKey);
+  return {
+    ...voucher,
+    movedOut: { id: `move-${voucher.id}`, holderId: holder.did, timestamp, signature },
+  };
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { generateDidIdentity, signJws } from 'narrative-ui';
+import type { DidIdentity } from 'narrative-ui';
+import {
+  buildLedger,
+  calculateLedgerTotals,
+  createLedgerStatement,
+  filterLedger,
+  ledgerToCsv,
+  verifyLedgerStatement,
+} from '../utils/ledger';
+import { mergeWalletVouchers } from '../utils/personalVouchers';
+import { issueVoucher, moveVoucher, signTransfer, transferVoucher, withTransfer } from './fixtures';
+
+describe('Ledger', () => {
+  let issuer: DidIdentity;
+  let alice: DidIdentity;
+  let bob: DidIdentity;
+
+  beforeAll(async () => {
+    issuer = await generateDidIdentity('Issuer');
+    alice = await generateDidIdentity('Alice');
+    bob = await generateDidIdentity('Bob');
+  });
+
+  describe('buildLedger', () => {
+    it('should list issuing, receiving, sending and redeeming, newest first', async () => {
+      const issued = await issueVoucher(issuer, alice.did, { id: 'v1' });
+      const sent = await transferVoucher(issued, alice, bob.did);
+      const redeemed = await transferVoucher(sent, bob, issuer.did);
+
+      const aliceLedger = buildLedger({ v1: redeemed }, alice.did);
+      expect(aliceLedger.map((e) => [e.type, e.direction, e.counterpartyId])).toEqual([
+        ['sent', 'out', bob.did],
+        ['received', 'in', issuer.did],
+      ]);
+
+      const issuerLedger = buildLedger({ v1: redeemed }, issuer.did);
+      expect(issuerLedger.map((e) => [e.type, e.direction])).toEqual([
+        ['redeemed', 'in'],
+        ['issued', 'out'],
+      ]);
+    });
+
+    it('should record the return of an expired voucher to its issuer', async () => {
+      const voucher = await issueVoucher(issuer, alice.did, {
+        id: 'v2',
+        expiresAt: 5000,
+        expiryBehavior: 'return',
+      });
+
+      const entries = buildLedger({ v2: voucher }, alice.did);
+
+      expect(entries[0]).toMatchObject({
+        id: 'return-v2',
+        type: 'redeemed',
+        direction: 'out',
+        timestamp: 5000,
+        counterpartyId: issuer.did,
+      });
+    });
+
+    it('should keep transfers made after moving a voucher into the UserDocument', async () => {
+      const voucher = await issueVoucher(issuer, alice.did, { id: 'v3' });
+      const moved = await moveVoucher(voucher, alice);
+      const personal = withTransfer(voucher, await signTransfer(voucher, alice, bob.did, { timestamp: 5000 }));
+
+      const entries = buildLedger(mergeWalletVouchers({ v3: moved }, { v3: personal }), alice.did);
+
+      expect(entries.map((e) => [e.type, e.direction, e.counterpartyId])).toEqual([
+        ['sent', 'out', bob.did],
+        ['received', 'in', issuer.did],
+      ]);
+      expect(calculateLedgerTotals(entries)).toEqual([{ unit: 'Minuten', in: 10, out: 10 }]);
+    });
+  });
+
+  describe('filterLedger and calculateLedgerTotals', () => {
+    it('should filter by counterparty, unit and period and sum by unit', async () => {
+      const a = await transferVoucher(await issueVoucher(issuer, alice.did, { id: 'a', amount: 3 }), alice, bob.did);
+      const b = await issueVoucher(issuer, alice.did, { id: 'b', amount: 4, createdAt: 9000 });
+      const c = await issueVoucher(issuer, alice.did, { id: 'c', amount: 2, unit: 'Aepfel' });
+      const entries = buildLedger({ a, b, c }, alice.did);
+
+      expect(filterLedger(entries, { counterpartyId: bob.did })).toHaveLength(1);
+      expect(filterLedger(entries, { unit: 'Aepfel' })).toHaveLength(1);
+      expect(filterLedger(entries, { from: 5000 }).map((e) => e.voucherId)).toEqual(['b']);
+
+      expect(calculateLedgerTotals(entries)).toEqual([
+        { unit: 'Minuten', in: 7, out: 3 },
+        { unit: 'Aepfel', in: 2, out: 0 },
+      ]);
+    });
+  });
+
+  describe('ledgerToCsv', () => {
+    it('should quote fields with separators', async () => {
+      const voucher = await issueVoucher(issuer, alice.did, { id: 'v3' });
+      const csv = ledgerToCsv(
+        buildLedger({ v3: { ...voucher, note: 'Garten, Hecke' } }, alice.did),
+        { [issuer.did]: { displayName: 'Der "Aussteller"' } }
+      );
+
+      const [header, row] = csv.split('\n');
+      expect(header.startsWith('Datum,Art,Richtung,Betrag')).toBe(true);
+      expect(row).toContain('"Der ""Aussteller"""');
+      expect(row).toContain('"Garten, Hecke"');
+    });
+  });
+
+  describe('verifyLedgerStatement', () => {
+    it('should accept a statement signed by its holder', async () => {
+      const statement = createLedgerStatement([], alice.did, {});
+      const jws = await signJws(statement, alice.privateKey);
+
+      const result = await verifyLedgerStatement({ statement, jws });
+
+      expect(result.valid).toBe(true);
+    });
+
+    it('should reject a statement signed by someone else', async () => {
+      const statement = createLedgerStatement([], alice.did, {});
+      const jws = await signJws(statement, bob.privateKey);
+
+      const result = await verifyLedgerStatement({ statement, jws });
+
+      expect(result).toMatchObject({ valid: false, error: 'Signatur ungueltig' });
+    });
+
+    it('should reject a statement that differs from the signed content', async () => {
+      const voucher = await issueVoucher(issuer, alice.did, { id: 'v4' });
+      const statement = createLedgerStatement(buildLedger({ v4: voucher }, alice.did), alice.did, {});
+      const jws = await signJws(statement, alice.privateKey);
+      const tampered = {
+        ...statement,
+        entries: statement.entries.map((entry) => ({ ...entry, amount: 1000 })),
+      };
+
+      const result = await verifyLedgerStatement({ statement: tampered, jws });
+
+      expect(result).toMatchObject({ valid: false, error: 'Inhalt weicht von der Signatur ab' });
+    });
+
+    it('should reject files that are no statement', async () => {
+      expect((await verifyLedgerStatement({ foo: 'bar' })).valid).toBe(false);
+      expect((await verifyLedgerStatement(null)).valid).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { generateDidIdentity } from 'narrative-ui';
+import type { DidIdentity, IdentityProfile } from 'narrative-ui';
+import type { Voucher } from '../schema';
+import { planVoucherPayment, verifyVoucherPayment } from '../utils/payment';
+import { issueVoucher, profilesOf, signTransfer, splitVoucher, transferVoucher, withTransfer } from './fixtures';
+
+function createVoucher(id: string, amount: number, createdAt = 1000): Voucher {
+  return {
+    id,
+    issuerId: 'did:key:issuer',
+    amount,
+    unit: 'Minuten',
+    createdAt,
+    initialRecipientId: 'did:key:alice',
+    currentHolderId: 'did:key:alice',
+    status: 'active',
+    issuerSignature: 'issuer-signature',
+    transfers: [],
+  };
+}
+
+describe('planVoucherPayment', () => {
+  it('should use a voucher with exactly the amount', () => {
+    const exact = createVoucher('exact', 5);
+    const plan = planVoucherPayment([createVoucher('big', 20), exact], 5);
+
+    expect(plan).toEqual({ vouchers: [exact] });
+  });
+
+  it('should combine the largest vouchers', () => {
+    const a = createVoucher('a', 6);
+    const b = createVoucher('b', 4);
+    const plan = planVoucherPayment([createVoucher('c', 1), b, a], 10);
+
+    expect(plan).toEqual({ vouchers: [a, b] });
+  });
+
+  it('should split the last voucher so that exactly the amount is paid', () => {
+    const a = createVoucher('a', 6);
+    const b = createVoucher('b', 5);
+    const plan = planVoucherPayment([a, b], 8);
+
+    expect(plan?.vouchers).toEqual([a]);
+    expect(plan?.split).toEqual({ voucher: b, paymentAmount: 2 });
+  });
+
+  it('should convert the split amount from current value to nominal amount', () => {
+    const decayed = createVoucher('decayed', 10);
+    const plan = planVoucherPayment([decayed], 2, () => 5);
+
+    expect(plan?.split).toEqual({ voucher: decayed, paymentAmount: 4 });
+  });
+
+  it('should return null if the vouchers do not cover the amount', () => {
+    expect(planVoucherPayment([createVoucher('a', 3), createVoucher('b', 4)], 8)).toBeNull();
+  });
+
+  it('should return null for amounts that are not positive', () => {
+    expect(planVoucherPayment([createVoucher('a', 3)], 0)).toBeNull();
+    expect(planVoucherPayment([createVoucher('a', 3)], -1)).toBeNull();
+  });
+
+  it('should skip vouchers without value', () => {
+    const worthless = createVoucher('worthless', 10);
+    const valuable = createVoucher('valuable', 3);
+    const plan = planVoucherPayment([worthless, valuable], 3, (v) => (v === worthless ? 0 : v.amount));
+
+    expect(plan).toEqual({ vouchers: [valuable] });
+  });
+
+  it('should avoid floating point residue', () => {
+    const plan = planVoucherPayment([createVoucher('a', 0.1), createVoucher('b', 0.2)], 0.3);
+
+    expect(plan?.vouchers).toHaveLength(2);
+    expect(plan?.split).toBeUndefined();
+  });
+});
+
+describe('verifyVoucherPayment', () => {
+  let issuer: DidIdentity;
+  let alice: DidIdentity;
+  let bob: DidIdentity;
+  let mallory: DidIdentity;
+  let identities: Record<string, IdentityProfile>;
+
+  beforeAll(async () => {
+    issuer = await generateDidIdentity('Issuer');
+    alice = await generateDidIdentity('Alice');
+    bob = await generateDidIdentity('Bob');
+    mallory = await generateDidIdentity('Mallory');
+    identities = profilesOf(issuer, alice, bob, mallory);
+  });
+
+  function claim(transferIds: string[], amount = 10) {
+    return { payerId: alice.did, payeeId: bob.did, amount, unit: 'Minuten', transferIds };
+  }
+
+  it('should accept a payment backed by signed transfers', async () => {
+    const paid = await transferVoucher(await issueVoucher(issuer, alice.did, { id: 'a', amount: 6 }), alice, bob.did);
+    const { parent, payment, change } = await splitVoucher(
+      await issueVoucher(issuer, alice.did, { id: 'b', amount: 10 }),
+      alice,
+      4
+    );
+    const paidPart = await transferVoucher(payment, alice, bob.did);
+    const vouchers = { a: paid, b: parent, [paidPart.id]: paidPart, [change.id]: change };
+
+    const ids = [paid.transfers[0].id, paidPart.transfers[0].id];
+    expect(await verifyVoucherPayment(claim(ids), vouchers, identities)).toBe(true);
+    expect(await verifyVoucherPayment(claim(ids, 11), vouchers, identities)).toBe(false);
+  });
+
+  it('should reject missing, duplicated and misdirected transfers', async () => {
+    const voucher = await issueVoucher(issuer, alice.did, { id: 'a', amount: 10 });
+    const toMallory = await transferVoucher(voucher, alice, mallory.did);
+    const toBob = await transferVoucher(voucher, alice, bob.did);
+
+    expect(await verifyVoucherPayment(claim(['missing']), { a: toBob }, identities)).toBe(false);
+    expect(
+      await verifyVoucherPayment(claim([toBob.transfers[0].id, toBob.transfers[0].id], 20), { a: toBob }, identities)
+    ).toBe(false);
+    expect(await verifyVoucherPayment(claim([toMallory.transfers[0].id]), { a: toMallory }, identities)).toBe(false);
+  });
+
+  it('should reject forged transfers', async () => {
+    const voucher = await issueVoucher(issuer, alice.did, { id: 'a', amount: 10 });
+    const forged = withTransfer(voucher, await signTransfer(voucher, mallory, bob.did, { fromId: alice.did }));
+
+    expect(await verifyVoucherPayment(claim([forged.transfers[0].id]), { a: forged }, identities)).toBe(false);
+  });
+
+  it('should only count transfers signed for the claimed reference after notBefore', async () => {
+    const voucher = await issueVoucher(issuer, alice.did, { id: 'a', amount: 10 });
+    const paid = withTransfer(
+      voucher,
+      await signTransfer(voucher, alice, bob.did, { timestamp: 5000, reference: 'listing-1' })
+    );
+    const unreferenced = await transferVoucher(voucher, alice, bob.did);
+    const ids = [paid.transfers[0].id];
+
+    const forListing = (reference: string, notBefore?: number) => ({
+      ...claim(ids),
+      reference,
+      ...(notBefore !== undefined ? { notBefore } : {}),
+    });
+    expect(await verifyVoucherPayment(forListing('listing-1', 4000), { a: paid }, identities)).toBe(true);
+    expect(await verifyVoucherPayment(forListing('listing-2'), { a: paid }, identities)).toBe(false);
+    expect(await verifyVoucherPayment(forListing('listing-1', 6000), { a: paid }, identities)).toBe(false);
+    expect(
+      await verifyVoucherPayment(
+        { ...claim([unreferenced.transfers[0].id]), reference: 'listing-1' },
+        { a: unreferenced },
+        identities
+      )
+    ).toBe(false);
+
+    // The reference is signed: rewriting it breaks the transfer signature
+    const rewritten: Voucher = {
+      ...paid,
+      transfers: [{ ...paid.transfers[0], reference: 'listing-2' }],
+    };
+    expect(await verifyVoucherPayment(forListing('listing-2'), { a: rewritten }, identities)).toBe(false);
+  });
+});
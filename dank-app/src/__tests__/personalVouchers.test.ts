@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import type { TrustAttestation } from 'narrative-ui';
+import { getPersonalVoucherRecipients, getTrustedUserDocUrl } from '../utils/personalVouchers';
+
+function attestation(fields: Partial<TrustAttestation> = {}): TrustAttestation {
+  return {
+    id: 'attestation',
+    trusterDid: 'did:key:alice',
+    trusteeDid: 'did:key:bob',
+    level: 'verified',
+    verificationMethod: 'in-person',
+    createdAt: 1000,
+    updatedAt: 1000,
+    ...fields,
+  };
+}
+
+describe('Personal vouchers', () => {
+  it('should find the UserDocument of a trusted user', () => {
+    const userDoc = {
+      trustGiven: { 'did:key:bob': attestation({ trusteeUserDocUrl: 'automerge:bob' }) },
+      trustReceived: {},
+    };
+
+    expect(getTrustedUserDocUrl(userDoc, 'did:key:bob')).toBe('automerge:bob');
+    expect(getPersonalVoucherRecipients(userDoc)).toEqual(['did:key:bob']);
+  });
+
+  it('should fall back to the URL from the received attestation', () => {
+    const userDoc = {
+      trustGiven: { 'did:key:bob': attestation() },
+      trustReceived: {
+        'did:key:bob': attestation({ trusterDid: 'did:key:bob', trusterUserDocUrl: 'automerge:bob' }),
+      },
+    };
+
+    expect(getTrustedUserDocUrl(userDoc, 'did:key:bob')).toBe('automerge:bob');
+  });
+
+  it('should not send to untrusted users or expired attestations', () => {
+    const userDoc = {
+      trustGiven: {
+        'did:key:carol': attestation({ trusteeDid: 'did:key:carol', trusteeUserDocUrl: 'automerge:carol', expiresAt: 1 }),
+      },
+      trustReceived: {
+        'did:key:bob': attestation({ trusterDid: 'did:key:bob', trusterUserDocUrl: 'automerge:bob' }),
+      },
+    };
+
+    expect(getTrustedUserDocUrl(userDoc, 'did:key:bob')).toBeUndefined();
+    expect(getTrustedUserDocUrl(userDoc, 'did:key:carol')).toBeUndefined();
+    expect(getPersonalVoucherRecipients(userDoc)).toEqual([]);
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect } from 'vitest';
+import type { ValidationResult, Voucher } from '../schema';
+import {
+  calculateBalances,
+  calculateOutstanding,
+  getActiveHeldVouchers,
+  getExpiryBehavior,
+  getVoucherStatus,
+  getVoucherValue,
+  isVoucherPending,
+} from '../schema';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function createVoucher(fields: Partial<Voucher> = {}): Voucher {
+  return {
+    id: 'voucher-1',
+    issuerId: 'did:key:issuer',
+    amount: 10,
+    unit: 'Minuten',
+    createdAt: 1000,
+    initialRecipientId: 'did:key:alice',
+    currentHolderId: 'did:key:alice',
+    status: 'active',
+    issuerSignature: 'issuer-signature',
+    transfers: [],
+    ...fields,
+  };
+}
+
+describe('getVoucherValue', () => {
+  it('should return the amount of non-decaying vouchers', () => {
+    expect(getVoucherValue(createVoucher({ expiresAt: 1000 + DAY }), 1000 + DAY / 2)).toBe(10);
+  });
+
+  it('should decay linearly from issue time to expiry', () => {
+    const voucher = createVoucher({ expiresAt: 1000 + 4 * DAY, expiryBehavior: 'decay' });
+
+    expect(getVoucherValue(voucher, 1000)).toBe(10);
+    expect(getVoucherValue(voucher, 1000 + DAY)).toBe(7.5);
+    expect(getVoucherValue(voucher, 1000 + 4 * DAY)).toBe(0);
+    expect(getVoucherValue(voucher, 1000 + 5 * DAY)).toBe(0);
+  });
+
+  it('should decay split vouchers from the issue time of the original voucher', () => {
+    const child = createVoucher({
+      amount: 4,
+      createdAt: 1000 + 2 * DAY,
+      issuedAt: 1000,
+      expiresAt: 1000 + 4 * DAY,
+      expiryBehavior: 'decay',
+    });
+
+    expect(getVoucherValue(child, 1000 + 2 * DAY)).toBe(2);
+  });
+});
+
+describe('getExpiryBehavior', () => {
+  it('should default to void', () => {
+    expect(getExpiryBehavior(createVoucher({ expiresAt: 2000 }))).toBe('void');
+  });
+
+  it('should ignore a behavior without expiry', () => {
+    expect(getExpiryBehavior(createVoucher({ expiryBehavior: 'return' }))).toBe('void');
+  });
+});
+
+describe('getVoucherStatus', () => {
+  it('should report expired vouchers', () => {
+    expect(getVoucherStatus(createVoucher({ expiresAt: 1 }))).toBe('expired');
+  });
+
+  it('should report returning vouchers as redeemed at expiry', () => {
+    expect(getVoucherStatus(createVoucher({ expiresAt: 1, expiryBehavior: 'return' }))).toBe('redeemed');
+  });
+
+  it('should report split vouchers', () => {
+    const split = { id: 'split-1', holderId: 'did:key:alice', timestamp: 2000, children: [], signature: 's' };
+    expect(getVoucherStatus(createVoucher({ split }))).toBe('split');
+  });
+
+  it('should report group vouchers below the threshold as pending', () => {
+    const voucher = createVoucher({
+      issuerIds: ['did:key:issuer', 'did:key:co-issuer'],
+      issuerThreshold: 2,
+    });
+
+    expect(isVoucherPending(voucher)).toBe(true);
+    expect(getVoucherStatus(voucher)).toBe('pending');
+    expect(
+      getVoucherStatus({ ...voucher, coIssuerSignatures: { 'did:key:co-issuer': 'co-signature' } })
+    ).toBe('active');
+  });
+});
+
+describe('calculateBalances', () => {
+  it('should sum active held vouchers by unit and issuer', () => {
+    const vouchers = {
+      a: createVoucher({ id: 'a', amount: 10 }),
+      b: createVoucher({ id: 'b', amount: 5, issuerId: 'did:key:other' }),
+      c: createVoucher({ id: 'c', amount: 3, unit: 'Aepfel' }),
+      d: createVoucher({ id: 'd', amount: 7, currentHolderId: 'did:key:bob' }),
+      e: createVoucher({ id: 'e', amount: 2, expiresAt: 1 }),
+    };
+
+    const balances = calculateBalances(vouchers, 'did:key:alice');
+
+    expect(balances).toHaveLength(2);
+    const minutes = balances.find((b) => b.unit === 'Minuten')!;
+    expect(minutes.totalAmount).toBe(15);
+    expect(minutes.voucherCount).toBe(2);
+    expect(minutes.byIssuer).toEqual({ 'did:key:issuer': 10, 'did:key:other': 5 });
+    expect(balances.find((b) => b.unit === 'Aepfel')!.totalAmount).toBe(3);
+  });
+});
+
+describe('Disputes', () => {
+  const dispute = {
+    offenderId: 'did:key:alice',
+    previousSignature: 'issuer-signature',
+    transferIds: ['t1', 't2'],
+  };
+
+  it('should report vouchers with a verified dispute as disputed', () => {
+    expect(getVoucherStatus(createVoucher(), dispute)).toBe('disputed');
+    expect(getVoucherStatus(createVoucher())).toBe('active');
+  });
+
+  it('should count disputed vouchers separately in the balance', () => {
+    const vouchers = {
+      a: createVoucher({ id: 'a', amount: 10 }),
+      b: createVoucher({ id: 'b', amount: 4 }),
+    };
+
+    const [balance] = calculateBalances(vouchers, 'did:key:alice', { b: dispute });
+
+    expect(balance.totalAmount).toBe(10);
+    expect(balance.disputedAmount).toBe(4);
+    expect(balance.disputedCount).toBe(1);
+  });
+
+  it('should leave disputed vouchers out of the active ones', () => {
+    const vouchers = {
+      a: createVoucher({ id: 'a' }),
+      b: createVoucher({ id: 'b' }),
+    };
+
+    expect(getActiveHeldVouchers(vouchers, 'did:key:alice', { b: dispute }).map((v) => v.id)).toEqual(['a']);
+  });
+});
+
+describe('calculateOutstanding', () => {
+  function validated(...ids: string[]): Map<string, ValidationResult> {
+    return new Map(
+      ids.map((id) => [
+        id,
+        {
+          voucherId: id,
+          issuerSignatureStatus: 'valid',
+          transferSignatureStatuses: [],
+          overallStatus: 'valid',
+          lastValidated: 1000,
+        },
+      ])
+    );
+  }
+
+  it('should count active vouchers of the issuer but not redeemed ones', () => {
+    const vouchers = {
+      a: createVoucher({ id: 'a', amount: 10 }),
+      b: createVoucher({ id: 'b', amount: 5, currentHolderId: 'did:key:bob' }),
+      c: createVoucher({ id: 'c', amount: 4, status: 'redeemed' }),
+      d: createVoucher({ id: 'd', amount: 8, issuerId: 'did:key:other' }),
+    };
+
+    expect(calculateOutstanding(vouchers, 'did:key:issuer', validated('a', 'b', 'c', 'd'))).toEqual({
+      Minuten: 15,
+    });
+  });
+
+  it('should leave out vouchers that are not validated', () => {
+    const vouchers = {
+      a: createVoucher({ id: 'a', amount: 10 }),
+      forged: createVoucher({ id: 'forged', amount: 100 }),
+    };
+
+    expect(calculateOutstanding(vouchers, 'did:key:issuer', validated('a'))).toEqual({ Minuten: 10 });
+  });
+
+  it('should count group vouchers for every co-issuer', () => {
+    const vouchers = {
+      group: createVoucher({ id: 'group', amount: 6, issuerIds: ['did:key:issuer', 'did:key:other'] }),
+    };
+
+    expect(calculateOutstanding(vouchers, 'did:key:other', validated('group'))).toEqual({ Minuten: 6 });
+  });
+});
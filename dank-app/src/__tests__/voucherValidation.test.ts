@@ -0,0 +1,489 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { generateDidIdentity } from 'narrative-ui';
+import type { DidIdentity, IdentityProfile } from 'narrative-ui';
+import { getValidationFingerprint, verifyVoucher } from '../utils/voucherValidation';
+import type { Transfer } from '../schema';
+import { calculateBalances, getChainTip, getVoucherStatus } from '../schema';
+import {
+  coSignVoucher,
+  issueVoucher,
+  moveVoucher,
+  profilesOf,
+  signTransfer,
+  splitVoucher,
+  transferVoucher,
+  withTransfer,
+} from './fixtures';
+
+describe('verifyVoucher', () => {
+  let issuer: DidIdentity;
+  let coIssuer: DidIdentity;
+  let alice: DidIdentity;
+  let bob: DidIdentity;
+  let carol: DidIdentity;
+  let mallory: DidIdentity;
+  let identities: Record<string, IdentityProfile>;
+
+  beforeAll(async () => {
+    issuer = await generateDidIdentity('Issuer');
+    coIssuer = await generateDidIdentity('Co-Issuer');
+    alice = await generateDidIdentity('Alice');
+    bob = await generateDidIdentity('Bob');
+    carol = await generateDidIdentity('Carol');
+    mallory = await generateDidIdentity('Mallory');
+    identities = profilesOf(issuer, coIssuer, alice, bob, carol, mallory);
+  });
+
+  describe('Issuer signature', () => {
+    it('should accept a voucher signed by its issuer', async () => {
+      const voucher = await issueVoucher(issuer, alice.did);
+
+      const result = await verifyVoucher(voucher, identities);
+
+      expect(result.issuerSignatureStatus).toBe('valid');
+      expect(result.overallStatus).toBe('valid');
+    });
+
+    it('should verify did:key issuers without stored profiles', async () => {
+      const voucher = await issueVoucher(issuer, alice.did);
+
+      expect((await verifyVoucher(voucher, {})).overallStatus).toBe('valid');
+    });
+
+    it('should reject a voucher whose amount was changed after signing', async () => {
+      const voucher = await issueVoucher(issuer, alice.did, { amount: 10 });
+
+      const result = await verifyVoucher({ ...voucher, amount: 100 }, identities);
+
+      expect(result.issuerSignatureStatus).toBe('invalid');
+      expect(result.overallStatus).toBe('invalid');
+    });
+
+    it('should reject a voucher signed by someone else than the issuer', async () => {
+      const forged = await issueVoucher(alice, alice.did);
+
+      const result = await verifyVoucher({ ...forged, issuerId: issuer.did }, identities);
+
+      expect(result.overallStatus).toBe('invalid');
+    });
+  });
+
+  describe('Group vouchers', () => {
+    it('should be invalid while co-signatures below the threshold are missing', async () => {
+      const voucher = await issueVoucher(issuer, alice.did, {
+        issuerIds: [issuer.did, coIssuer.did],
+        issuerThreshold: 2,
+      });
+
+      const result = await verifyVoucher(voucher, identities);
+
+      expect(result.validIssuerSignatures).toBe(1);
+      expect(result.overallStatus).toBe('invalid');
+    });
+
+    it('should be valid once the threshold of issuer signatures is met', async () => {
+      const voucher = await coSignVoucher(
+        await issueVoucher(issuer, alice.did, {
+          issuerIds: [issuer.did, coIssuer.did],
+          issuerThreshold: 2,
+        }),
+        coIssuer
+      );
+
+      const result = await verifyVoucher(voucher, identities);
+
+      expect(result.validIssuerSignatures).toBe(2);
+      expect(result.overallStatus).toBe('valid');
+    });
+
+    it('should reject co-signatures of non-members', async () => {
+      const voucher = await coSignVoucher(
+        await issueVoucher(issuer, alice.did, {
+          issuerIds: [issuer.did, coIssuer.did],
+          issuerThreshold: 1,
+        }),
+        bob
+      );
+
+      expect((await verifyVoucher(voucher, identities)).overallStatus).toBe('invalid');
+    });
+
+    it('should reject a threshold above the number of issuers', async () => {
+      const voucher = await issueVoucher(issuer, alice.did, {
+        issuerIds: [issuer.did, coIssuer.did],
+        issuerThreshold: 3,
+      });
+
+      expect((await verifyVoucher(voucher, identities)).issuerSignatureStatus).toBe('invalid');
+    });
+  });
+
+  describe('Transfer chain', () => {
+    it('should accept a chain of transfers by the holders', async () => {
+      const issued = await issueVoucher(issuer, alice.did);
+      const voucher = await transferVoucher(await transferVoucher(issued, alice, bob.did), bob, carol.did);
+
+      const result = await verifyVoucher(voucher, identities);
+
+      expect(result.transferSignatureStatuses).toEqual(['valid', 'valid']);
+      expect(result.overallStatus).toBe('valid');
+    });
+
+    it('should reject a transfer whose recipient was changed after signing', async () => {
+      const voucher = await transferVoucher(await issueVoucher(issuer, alice.did), alice, bob.did);
+      const tampered = {
+        ...voucher,
+        transfers: [{ ...voucher.transfers[0], toId: carol.did }],
+        currentHolderId: carol.did,
+      };
+
+      const result = await verifyVoucher(tampered, identities);
+
+      expect(result.transferSignatureStatuses).toEqual(['invalid']);
+      expect(result.overallStatus).toBe('invalid');
+    });
+  });
+
+  describe('Forged transfers', () => {
+    it('should reject a transfer signed by someone who never held the voucher', async () => {
+      const issued = await issueVoucher(issuer, alice.did);
+      // Mallory signs on top of the issuer signature with her own key
+      const forgery = await signTransfer(issued, mallory, carol.did, {
+        previousSignature: issued.issuerSignature,
+      });
+      const voucher = withTransfer(issued, forgery);
+
+      const result = await verifyVoucher(voucher, identities);
+
+      expect(result.transferSignatureStatuses).toEqual(['invalid']);
+      expect(result.overallStatus).toBe('invalid');
+      expect(result.chainTip).toEqual({ signature: issued.issuerSignature, holderId: alice.did });
+      expect(result.dispute).toBeUndefined();
+    });
+
+    it('should reject a forged transfer appended after a valid chain', async () => {
+      const sent = await transferVoucher(await issueVoucher(issuer, alice.did), alice, bob.did);
+      // Alice no longer holds the voucher but signs on top of her own transfer
+      const forgery = await signTransfer(sent, alice, carol.did);
+      const voucher = withTransfer(sent, forgery);
+
+      const result = await verifyVoucher(voucher, identities);
+
+      expect(result.transferSignatureStatuses).toEqual(['valid', 'invalid']);
+      expect(result.overallStatus).toBe('invalid');
+      expect(result.chainTip?.holderId).toBe(bob.did);
+    });
+
+    it('should reject a transfer building on a link of another chain position', async () => {
+      const sent = await transferVoucher(await issueVoucher(issuer, alice.did), alice, bob.did);
+      // Bob holds the voucher, but builds on the issuer signature instead of the tip
+      const skipping = await signTransfer(sent, bob, carol.did, {
+        previousSignature: sent.issuerSignature,
+      });
+
+      const result = await verifyVoucher(withTransfer(sent, skipping), identities);
+
+      expect(result.transferSignatureStatuses).toEqual(['valid', 'invalid']);
+      expect(result.overallStatus).toBe('invalid');
+    });
+
+    it('should reject a transfer claiming to come from the holder', async () => {
+      const issued = await issueVoucher(issuer, alice.did);
+      const impersonation = await signTransfer(issued, mallory, carol.did, { fromId: alice.did });
+
+      const result = await verifyVoucher(withTransfer(issued, impersonation), identities);
+
+      expect(result.transferSignatureStatuses).toEqual(['invalid']);
+      expect(result.overallStatus).toBe('invalid');
+    });
+
+    it('should not take public keys of did:key DIDs from the identities', async () => {
+      const issued = await issueVoucher(issuer, alice.did);
+      const impersonation = await signTransfer(issued, mallory, carol.did, { fromId: alice.did });
+      const poisoned = {
+        ...identities,
+        [alice.did]: { displayName: 'Alice', publicKey: mallory.publicKey },
+      };
+
+      const result = await verifyVoucher(withTransfer(issued, impersonation), poisoned);
+
+      expect(result.overallStatus).toBe('invalid');
+    });
+
+    it('should reject a stored holder that does not match the chain', async () => {
+      const sent = await transferVoucher(await issueVoucher(issuer, alice.did), alice, bob.did);
+
+      const result = await verifyVoucher({ ...sent, currentHolderId: mallory.did }, identities);
+
+      expect(result.transferSignatureStatuses).toEqual(['valid']);
+      expect(result.overallStatus).toBe('invalid');
+      expect(result.error).toBe('Current holder does not match the transfer chain');
+    });
+
+    it('should not follow forged transfers to find the chain tip', async () => {
+      const issued = await issueVoucher(issuer, alice.did);
+      const forgery = await signTransfer(issued, mallory, carol.did, {
+        previousSignature: issued.issuerSignature,
+      });
+
+      expect(getChainTip(withTransfer(issued, forgery))).toEqual({
+        signature: issued.issuerSignature,
+        holderId: alice.did,
+      });
+    });
+
+    it('should reject a split by someone who does not hold the voucher anymore', async () => {
+      const sent = await transferVoucher(await issueVoucher(issuer, alice.did), alice, bob.did);
+      // Alice splits on top of her transfer to Bob
+      const { parent } = await splitVoucher(sent, alice, 4);
+
+      const result = await verifyVoucher(parent, identities);
+
+      expect(result.splitSignatureStatus).toBe('invalid');
+      expect(result.overallStatus).toBe('invalid');
+    });
+  });
+
+  describe('Double spend', () => {
+    it('should report two transfers of the holder on the same link as dispute', async () => {
+      const issued = await issueVoucher(issuer, alice.did);
+      const toBob = await signTransfer(issued, alice, bob.did);
+      const toCarol = await signTransfer(issued, alice, carol.did, { timestamp: 2500 });
+      const voucher = withTransfer(withTransfer(issued, toBob), toCarol);
+
+      const result = await verifyVoucher(voucher, identities);
+
+      expect(result.dispute).toEqual({
+        offenderId: alice.did,
+        previousSignature: issued.issuerSignature,
+        transferIds: [toBob.id, toCarol.id],
+      });
+      expect(result.transferSignatureStatuses).toEqual(['valid', 'valid']);
+      expect(result.chainTip).toEqual({ signature: issued.issuerSignature, holderId: alice.did });
+    });
+
+    it('should keep later transfers on a branch of the fork in the chain', async () => {
+      const issued = await issueVoucher(issuer, alice.did);
+      const toBob = await signTransfer(issued, alice, bob.did);
+      const toCarol = await signTransfer(issued, alice, carol.did, { timestamp: 2500 });
+      const bobOn = await signTransfer(withTransfer(issued, toBob), bob, mallory.did);
+      const voucher = withTransfer(withTransfer(withTransfer(issued, toBob), toCarol), bobOn);
+
+      const result = await verifyVoucher(voucher, identities);
+
+      expect(result.dispute?.offenderId).toBe(alice.did);
+      expect(result.transferSignatureStatuses).toEqual(['valid', 'valid', 'valid']);
+    });
+  });
+
+  describe('Faked double spend', () => {
+    it('should not report a dispute for a fork with a junk signature', async () => {
+      const sent = await transferVoucher(await issueVoucher(issuer, alice.did), alice, bob.did);
+      const honest = sent.transfers[0];
+      // Anyone can append a "transfer" of Alice on the same link, without her key
+      const junk: Transfer = {
+        ...honest,
+        id: 'junk',
+        toId: mallory.did,
+        signature: honest.signature.slice(0, -4) + 'AAAA',
+      };
+      const voucher = { ...sent, transfers: [honest, junk] };
+
+      const result = await verifyVoucher(voucher, identities);
+
+      expect(result.dispute).toBeUndefined();
+      expect(result.transferSignatureStatuses).toEqual(['valid', 'invalid']);
+      expect(result.chainTip?.holderId).toBe(bob.did);
+      expect(getVoucherStatus(voucher, result.dispute)).toBe('active');
+      expect(calculateBalances({ [voucher.id]: voucher }, bob.did, {})[0].totalAmount).toBe(10);
+    });
+
+    it('should not report a dispute for a fork signed by someone else than the holder', async () => {
+      const sent = await transferVoucher(await issueVoucher(issuer, alice.did), alice, bob.did);
+      const forgery = await signTransfer(sent, mallory, carol.did, {
+        previousSignature: sent.issuerSignature,
+      });
+
+      const result = await verifyVoucher(withTransfer({ ...sent }, forgery), identities);
+
+      expect(result.dispute).toBeUndefined();
+    });
+  });
+
+  describe('Moved out of the workspace', () => {
+    it('should accept a move signed by the holder', async () => {
+      const sent = await transferVoucher(await issueVoucher(issuer, alice.did), alice, bob.did);
+      const moved = await moveVoucher(sent, bob);
+
+      const result = await verifyVoucher(moved, identities);
+
+      expect(result.moveSignatureStatus).toBe('valid');
+      expect(result.overallStatus).toBe('valid');
+      expect(result.dispute).toBeUndefined();
+      expect(getVoucherStatus(moved, result.dispute)).toBe('moved');
+      expect(calculateBalances({ [moved.id]: moved }, bob.did, {})).toEqual([]);
+    });
+
+    it('should report a transfer in the workspace after the move as dispute', async () => {
+      const issued = await issueVoucher(issuer, alice.did);
+      const moved = await moveVoucher(issued, alice);
+      const secondUse = await signTransfer(moved, alice, carol.did, {
+        previousSignature: issued.issuerSignature,
+      });
+
+      const result = await verifyVoucher(withTransfer(moved, secondUse), identities);
+
+      expect(result.dispute).toEqual({
+        offenderId: alice.did,
+        previousSignature: issued.issuerSignature,
+        transferIds: [secondUse.id, moved.movedOut!.id],
+      });
+    });
+
+    it('should reject a move by someone who does not hold the voucher', async () => {
+      const sent = await transferVoucher(await issueVoucher(issuer, alice.did), alice, bob.did);
+      const moved = await moveVoucher(sent, alice);
+
+      const result = await verifyVoucher(moved, identities);
+
+      expect(result.moveSignatureStatus).toBe('invalid');
+      expect(result.overallStatus).toBe('invalid');
+      expect(result.dispute).toBeUndefined();
+    });
+
+    it('should reject a tampered move', async () => {
+      const moved = await moveVoucher(await issueVoucher(issuer, alice.did), alice);
+      const tampered = { ...moved, movedOut: { ...moved.movedOut!, holderId: mallory.did } };
+
+      expect((await verifyVoucher(tampered, identities)).overallStatus).toBe('invalid');
+    });
+  });
+
+  describe('Splits', () => {
+    it('should accept children of a valid split', async () => {
+      const issued = await issueVoucher(issuer, alice.did, { amount: 10 });
+      const { parent, payment, change } = await splitVoucher(issued, alice, 4);
+      const vouchers = { [parent.id]: parent, [payment.id]: payment, [change.id]: change };
+
+      expect((await verifyVoucher(parent, identities, vouchers)).splitSignatureStatus).toBe('valid');
+      expect((await verifyVoucher(payment, identities, vouchers)).overallStatus).toBe('valid');
+
+      const paid = await transferVoucher(payment, alice, bob.did);
+      expect((await verifyVoucher(paid, identities, vouchers)).overallStatus).toBe('valid');
+    });
+
+    it('should reject a child with a changed amount', async () => {
+      const issued = await issueVoucher(issuer, alice.did, { amount: 10 });
+      const { parent, payment } = await splitVoucher(issued, alice, 4);
+      const inflated = { ...payment, amount: 9 };
+
+      const result = await verifyVoucher(inflated, identities, { [parent.id]: parent });
+
+      expect(result.issuerSignatureStatus).toBe('invalid');
+    });
+
+    it('should report children without known parent as unknown', async () => {
+      const issued = await issueVoucher(issuer, alice.did, { amount: 10 });
+      const { payment } = await splitVoucher(issued, alice, 4);
+
+      expect((await verifyVoucher(payment, identities, {})).overallStatus).toBe('unknown');
+    });
+
+    it('should report a voucher split twice as dispute, also for its children', async () => {
+      const issued = await issueVoucher(issuer, alice.did, { amount: 10 });
+      const first = await splitVoucher(issued, alice, 4, 3000);
+      const second = await splitVoucher(issued, alice, 7, 3500);
+      // Only one split survives in the parent, the children of both are kept
+      const second7 = { ...second.payment, id: 'second-payment' };
+      const vouchers = {
+        [first.parent.id]: first.parent,
+        [first.payment.id]: first.payment,
+        [first.change.id]: first.change,
+        [second7.id]: second7,
+      };
+
+      const parentResult = await verifyVoucher(first.parent, identities, vouchers);
+      const childResult = await verifyVoucher(first.payment, identities, vouchers);
+
+      expect(parentResult.dispute).toMatchObject({
+        offenderId: alice.did,
+        previousSignature: issued.issuerSignature,
+      });
+      expect(parentResult.dispute?.transferIds).toHaveLength(2);
+      expect(childResult.dispute).toEqual(parentResult.dispute);
+      expect(getVoucherStatus(first.payment, childResult.dispute)).toBe('disputed');
+    });
+
+    it('should ignore children of a split with a junk signature', async () => {
+      const issued = await issueVoucher(issuer, alice.did, { amount: 10 });
+      const { parent, payment } = await splitVoucher(issued, alice, 4);
+      const fake = {
+        ...payment,
+        id: 'fake-child',
+        splitSignature: payment.splitSignature!.slice(0, -4) + 'AAAA',
+      };
+
+      const result = await verifyVoucher(parent, identities, { [parent.id]: parent, [fake.id]: fake });
+
+      expect(result.dispute).toBeUndefined();
+    });
+
+    it('should reject a split by someone else than the holder', async () => {
+      const issued = await issueVoucher(issuer, alice.did, { amount: 10 });
+      const { parent } = await splitVoucher(issued, bob, 4);
+
+      expect((await verifyVoucher(parent, identities)).splitSignatureStatus).toBe('invalid');
+    });
+  });
+});
+
+describe('getValidationFingerprint', () => {
+  let issuer: DidIdentity;
+  let alice: DidIdentity;
+  let identities: Record<string, IdentityProfile>;
+
+  beforeAll(async () => {
+    issuer = await generateDidIdentity('Issuer');
+    alice = await generateDidIdentity('Alice');
+    identities = profilesOf(issuer, alice);
+  });
+
+  it('should change when validated fields change without a new transfer', async () => {
+    const voucher = await issueVoucher(issuer, alice.did, { id: 'a' });
+    const fingerprint = getValidationFingerprint(voucher, { a: voucher }, identities);
+
+    const redeemed = { ...voucher, status: 'redeemed' as const };
+    const moved = await moveVoucher(voucher, alice);
+    expect(getValidationFingerprint(redeemed, { a: redeemed }, identities)).not.toBe(fingerprint);
+    expect(getValidationFingerprint(moved, { a: moved }, identities)).not.toBe(fingerprint);
+  });
+
+  it('should cover ancestors and split children but not unrelated vouchers', async () => {
+    const voucher = await issueVoucher(issuer, alice.did, { id: 'a', amount: 10 });
+    const other = await issueVoucher(issuer, alice.did, { id: 'b' });
+    const { parent, payment } = await splitVoucher(voucher, alice, 4);
+
+    const vouchers = { a: parent, [payment.id]: payment };
+    const fingerprint = getValidationFingerprint(payment, vouchers, identities);
+    expect(getValidationFingerprint(payment, { ...vouchers, b: other }, identities)).toBe(fingerprint);
+    expect(
+      getValidationFingerprint(payment, { ...vouchers, a: { ...parent, status: 'redeemed' } }, identities)
+    ).not.toBe(fingerprint);
+
+    // A competing split of the parent, only known from its child
+    const competing = { ...payment, id: 'a-other', splitSignature: 'other-split' };
+    expect(
+      getValidationFingerprint(payment, { ...vouchers, [competing.id]: competing }, identities)
+    ).not.toBe(fingerprint);
+  });
+
+  it('should only depend on stored keys of identities without a did:key', async () => {
+    const voucher = await issueVoucher(issuer, alice.did, { id: 'a' });
+    const fingerprint = getValidationFingerprint(voucher, { a: voucher }, identities);
+
+    const plantedKey = { ...identities, [alice.did]: { publicKey: 'planted' } };
+    const legacyKey = { ...identities, 'legacy-user': { publicKey: 'legacy' } };
+    expect(getValidationFingerprint(voucher, { a: voucher }, plantedKey)).toBe(fingerprint);
+    expect(getValidationFingerprint(voucher, { a: voucher }, legacyKey)).not.toBe(fingerprint);
+  });
+});
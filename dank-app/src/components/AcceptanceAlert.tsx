@@ -0,0 +1,44 @@
+/**
+ * AcceptanceAlert - Credit limit refusal or trust warning for a recipient
+ */
+
+import type { VoucherAcceptance } from '../utils/creditLimits';
+
+interface AcceptanceAlertProps {
+  acceptance: VoucherAcceptance | null;
+  unit: string;
+  recipientName: string;
+  /** Dative ("dir", or the display name) */
+  issuerName: string;
+}
+
+export function AcceptanceAlert({
+  acceptance,
+  unit,
+  recipientName,
+  issuerName,
+}: AcceptanceAlertProps) {
+  if (!acceptance || acceptance.status === 'accepted') return null;
+
+  if (acceptance.status === 'over-limit') {
+    return (
+      <div className="alert alert-error text-sm mb-4">
+        <span>
+          {recipientName} akzeptiert von {issuerName} hoechstens{' '}
+          <strong>
+            {acceptance.limit} {unit}
+          </strong>{' '}
+          im Umlauf ({acceptance.outstanding} {unit} mit diesem Gutschein).
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="alert alert-warning text-sm mb-4">
+      <span>
+        {recipientName} vertraut {issuerName} nicht und hat kein Limit festgelegt.
+      </span>
+    </div>
+  );
+}
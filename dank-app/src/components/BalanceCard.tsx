@@ -30,6 +30,12 @@ export function BalanceCard({ balance, identities }: BalanceCardProps) {
       <div className="stat-desc">
         {balance.voucherCount} Gutschein{balance.voucherCount !== 1 ? 'e' : ''}
       </div>
+      {balance.disputedCount > 0 && (
+        <div className="stat-desc text-warning">
+          + {balance.disputedAmount} strittig ({balance.disputedCount} doppelt
+          weitergegeben, nicht im Guthaben)
+        </div>
+      )}
 
       {/* Breakdown by issuer */}
       {issuerEntries.length > 1 && (
@@ -1,9 +1,18 @@
 /**
  * CreateVoucherModal - Form to create a new voucher
+ *
+ * Vouchers beyond the recipient's credit limit for the current user are
+ * refused; a missing trust of the recipient shows a warning. With co-issuers
+ * the voucher is issued by a group and valid once enough of them signed.
  */
 
 import { useState } from 'react';
-import type { IdentityProfile } from 'narrative-ui';
+import type { IdentityProfile, TrustAttestation } from 'narrative-ui';
+import { useKnownProfilesContextOptional } from 'narrative-ui';
+import type { Voucher, VoucherExpiryBehavior } from '../schema';
+import { EXPIRY_BEHAVIORS } from '../schema';
+import type { VoucherAcceptance } from '../utils/creditLimits';
+import { AcceptanceAlert } from './AcceptanceAlert';
 
 interface CreateVoucherModalProps {
   isOpen: boolean;
@@ -14,9 +23,19 @@ interface CreateVoucherModalProps {
     unit: string;
     note?: string;
     expiresAt?: number;
+    expiryBehavior?: VoucherExpiryBehavior;
+    coIssuerIds?: string[];
+    issuerThreshold?: number;
   }) => Promise<void>;
   identities: Record<string, IdentityProfile>;
   currentUserDid: string;
+  /** Check the recipient's credit limit and trust */
+  getAcceptance?: (
+    voucher: Pick<Voucher, 'issuerId' | 'unit' | 'amount'>,
+    isNew: boolean,
+    recipientId: string,
+    recipientTrustGiven?: Record<string, TrustAttestation>
+  ) => VoucherAcceptance;
 }
 
 /**
@@ -31,12 +50,22 @@ const COMMON_UNITS = [
   'kg',
 ];
 
+/**
+ * Expiry behaviors from the issuer's view
+ */
+const EXPIRY_BEHAVIOR_OPTIONS: Record<VoucherExpiryBehavior, string> = {
+  void: 'Verfaellt bei Ablauf',
+  return: 'Kommt bei Ablauf zu mir zurueck',
+  decay: 'Verliert bis zum Ablauf stetig an Wert',
+};
+
 export function CreateVoucherModal({
   isOpen,
   onClose,
   onCreateVoucher,
   identities,
   currentUserDid,
+  getAcceptance,
 }: CreateVoucherModalProps) {
   const [recipientId, setRecipientId] = useState('');
   const [amount, setAmount] = useState<number>(1);
@@ -45,6 +74,10 @@ export function CreateVoucherModal({
   const [note, setNote] = useState('');
   const [hasExpiry, setHasExpiry] = useState(false);
   const [expiryDate, setExpiryDate] = useState('');
+  const [expiryBehavior, setExpiryBehavior] = useState<VoucherExpiryBehavior>('void');
+  const [isGroup, setIsGroup] = useState(false);
+  const [coIssuerIds, setCoIssuerIds] = useState<string[]>([]);
+  const [issuerThreshold, setIssuerThreshold] = useState<number>(2);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -58,6 +91,27 @@ export function CreateVoucherModal({
 
   const effectiveUnit = unit === 'custom' ? customUnit : unit;
 
+  // Co-issuers of a group voucher (the recipient can't be one of them)
+  const selectedCoIssuerIds = isGroup ? coIssuerIds.filter((did) => did !== recipientId) : [];
+  const issuerCount = selectedCoIssuerIds.length + 1;
+
+  const toggleCoIssuer = (did: string) => {
+    setCoIssuerIds((ids) => (ids.includes(did) ? ids.filter((id) => id !== did) : [...ids, did]));
+  };
+
+  // trustGiven of the recipient (known if their UserDocument is loaded)
+  const knownProfiles = useKnownProfilesContextOptional();
+  const acceptance =
+    getAcceptance && recipientId && amount > 0 && effectiveUnit
+      ? getAcceptance(
+          { issuerId: currentUserDid, unit: effectiveUnit, amount },
+          true,
+          recipientId,
+          knownProfiles?.trustNetwork[recipientId]
+        )
+      : null;
+  const isOverLimit = acceptance?.status === 'over-limit';
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
@@ -77,6 +131,16 @@ export function CreateVoucherModal({
       return;
     }
 
+    if (isGroup && selectedCoIssuerIds.length === 0) {
+      setError('Bitte Mit-Aussteller auswaehlen');
+      return;
+    }
+
+    if (isGroup && (issuerThreshold < 1 || issuerThreshold > issuerCount)) {
+      setError(`Es koennen 1 bis ${issuerCount} Unterschriften verlangt werden`);
+      return;
+    }
+
     setIsSubmitting(true);
 
     try {
@@ -96,6 +160,8 @@ export function CreateVoucherModal({
         unit: effectiveUnit,
         note: note || undefined,
         expiresAt,
+        expiryBehavior: expiresAt ? expiryBehavior : undefined,
+        ...(isGroup ? { coIssuerIds: selectedCoIssuerIds, issuerThreshold } : {}),
       });
 
       // Reset form
@@ -106,6 +172,10 @@ export function CreateVoucherModal({
       setNote('');
       setHasExpiry(false);
       setExpiryDate('');
+      setExpiryBehavior('void');
+      setIsGroup(false);
+      setCoIssuerIds([]);
+      setIssuerThreshold(2);
 
       onClose();
     } catch (err) {
@@ -239,8 +309,70 @@ export function CreateVoucherModal({
                 min={new Date().toISOString().split('T')[0]}
               />
             )}
+            {hasExpiry && (
+              <select
+                className="select select-bordered w-full mt-2"
+                value={expiryBehavior}
+                onChange={(e) => setExpiryBehavior(e.target.value as VoucherExpiryBehavior)}
+              >
+                {EXPIRY_BEHAVIORS.map((behavior) => (
+                  <option key={behavior} value={behavior}>
+                    {EXPIRY_BEHAVIOR_OPTIONS[behavior]}
+                  </option>
+                ))}
+              </select>
+            )}
           </div>
 
+          {/* Group of issuers */}
+          {knownUsers.length > 1 && (
+            <div className="form-control mb-4">
+              <label className="label cursor-pointer justify-start gap-2">
+                <input
+                  type="checkbox"
+                  className="checkbox"
+                  checked={isGroup}
+                  onChange={(e) => setIsGroup(e.target.checked)}
+                />
+                <span className="label-text">Gemeinsam mit anderen ausstellen</span>
+              </label>
+              {isGroup && (
+                <>
+                  <div className="flex flex-col gap-1 mt-2 max-h-40 overflow-y-auto">
+                    {knownUsers
+                      .filter((user) => user.did !== recipientId)
+                      .map((user) => (
+                        <label
+                          key={user.did}
+                          className="label cursor-pointer justify-start gap-2 py-1"
+                        >
+                          <input
+                            type="checkbox"
+                            className="checkbox checkbox-sm"
+                            checked={coIssuerIds.includes(user.did)}
+                            onChange={() => toggleCoIssuer(user.did)}
+                          />
+                          <span className="label-text">{user.displayName}</span>
+                        </label>
+                      ))}
+                  </div>
+                  <label className="label">
+                    <span className="label-text">Noetige Unterschriften (inklusive deiner)</span>
+                  </label>
+                  <input
+                    type="number"
+                    className="input input-bordered w-full"
+                    min="1"
+                    max={issuerCount}
+                    step="1"
+                    value={issuerThreshold}
+                    onChange={(e) => setIssuerThreshold(parseInt(e.target.value, 10) || 0)}
+                  />
+                </>
+              )}
+            </div>
+          )}
+
           {/* Preview */}
           {recipientId && amount > 0 && effectiveUnit && (
             <div className="alert mb-4">
@@ -262,10 +394,26 @@ export function CreateVoucherModal({
                     </strong>
                   </>
                 )}
+                {selectedCoIssuerIds.length > 0 && (
+                  <>
+                    , gemeinsam mit {selectedCoIssuerIds.length} weiteren. Er wird gueltig,
+                    sobald <strong>{issuerThreshold}</strong> von {issuerCount} unterschrieben
+                    haben
+                  </>
+                )}
               </div>
             </div>
           )}
 
+          <AcceptanceAlert
+            acceptance={acceptance}
+            unit={effectiveUnit}
+            recipientName={
+              identities[recipientId]?.displayName || recipientId.slice(0, 16) + '...'
+            }
+            issuerName="dir"
+          />
+
           {/* Error */}
           {error && (
             <div className="alert alert-error mb-4">
@@ -286,7 +434,7 @@ export function CreateVoucherModal({
             <button
               type="submit"
               className="btn btn-primary"
-              disabled={isSubmitting}
+              disabled={isSubmitting || isOverLimit}
             >
               {isSubmitting ? (
                 <span className="loading loading-spinner loading-sm"></span>
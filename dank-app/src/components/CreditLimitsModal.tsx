@@ -0,0 +1,210 @@
+/**
+ * CreditLimitsModal - Manage the own credit limits for issuers
+ *
+ * A limit caps the outstanding amount of an issuer in one unit that the
+ * current user accepts. Senders see the limits and can't transfer beyond.
+ */
+
+import { useState } from 'react';
+import type { IdentityProfile } from 'narrative-ui';
+import { UserAvatar } from 'narrative-ui';
+import type { CreditLimits } from '../schema';
+
+interface CreditLimitsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  creditLimits: CreditLimits;
+  /** Outstanding amount of an issuer by unit */
+  getOutstanding: (issuerId: string) => Record<string, number>;
+  onSetLimit: (issuerId: string, unit: string, limit: number | null) => Promise<void>;
+  identities: Record<string, IdentityProfile>;
+  currentUserDid: string;
+}
+
+export function CreditLimitsModal({
+  isOpen,
+  onClose,
+  creditLimits,
+  getOutstanding,
+  onSetLimit,
+  identities,
+  currentUserDid,
+}: CreditLimitsModalProps) {
+  const [issuerId, setIssuerId] = useState('');
+  const [unit, setUnit] = useState('');
+  const [limit, setLimit] = useState<number>(0);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const getDisplayName = (did: string): string =>
+    identities[did]?.displayName || did.slice(0, 16) + '...';
+
+  const knownIssuers = Object.keys(identities).filter((did) => did !== currentUserDid);
+
+  const entries = Object.entries(creditLimits).flatMap(([issuer, units]) =>
+    Object.entries(units).map(([limitUnit, amount]) => ({ issuer, unit: limitUnit, amount }))
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!issuerId) {
+      setError('Bitte Aussteller auswaehlen');
+      return;
+    }
+    if (!unit.trim()) {
+      setError('Bitte Einheit angeben');
+      return;
+    }
+    if (limit < 0) {
+      setError('Das Limit darf nicht negativ sein');
+      return;
+    }
+
+    try {
+      await onSetLimit(issuerId, unit.trim(), limit);
+      setIssuerId('');
+      setUnit('');
+      setLimit(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Speichern');
+    }
+  };
+
+  const handleRemove = async (limitIssuer: string, limitUnit: string) => {
+    setError(null);
+    try {
+      await onSetLimit(limitIssuer, limitUnit, null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Speichern');
+    }
+  };
+
+  return (
+    <dialog className="modal modal-open">
+      <div className="modal-box">
+        <h3 className="font-bold text-lg mb-2">Kreditlimits</h3>
+        <p className="text-sm text-base-content/70 mb-4">
+          Lege fest, wie viel ein Aussteller hoechstens im Umlauf haben darf, damit du
+          seine Gutscheine annimmst. Ohne Limit nimmst du Gutscheine an - von Personen,
+          denen du nicht vertraust, aber mit Warnung.
+        </p>
+
+        {/* Existing limits */}
+        {entries.length > 0 ? (
+          <ul className="mb-4 divide-y divide-base-300">
+            {entries.map((entry) => {
+              const outstanding = getOutstanding(entry.issuer)[entry.unit] || 0;
+              return (
+                <li key={`${entry.issuer}-${entry.unit}`} className="flex items-center gap-2 py-2">
+                  <UserAvatar
+                    did={entry.issuer}
+                    avatarUrl={identities[entry.issuer]?.avatarUrl}
+                    size={24}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium truncate">{getDisplayName(entry.issuer)}</div>
+                    <div
+                      className={`text-xs ${
+                        outstanding > entry.amount ? 'text-error' : 'text-base-content/60'
+                      }`}
+                    >
+                      {outstanding} von {entry.amount} {entry.unit} im Umlauf
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    className="btn btn-ghost btn-xs"
+                    onClick={() => handleRemove(entry.issuer, entry.unit)}
+                  >
+                    Entfernen
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        ) : (
+          <p className="text-sm text-base-content/50 mb-4">Noch keine Limits festgelegt.</p>
+        )}
+
+        {/* New limit */}
+        <form onSubmit={handleSubmit}>
+          <div className="form-control mb-2">
+            <label className="label">
+              <span className="label-text">Aussteller</span>
+            </label>
+            <select
+              className="select select-bordered w-full"
+              value={issuerId}
+              onChange={(e) => setIssuerId(e.target.value)}
+            >
+              <option value="">Waehle Aussteller...</option>
+              {knownIssuers.map((did) => (
+                <option key={did} value={did}>
+                  {getDisplayName(did)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex gap-2 mb-4">
+            <div className="form-control flex-1">
+              <label className="label">
+                <span className="label-text">Limit</span>
+              </label>
+              <input
+                type="number"
+                className="input input-bordered w-full"
+                min="0"
+                step="0.01"
+                value={limit}
+                onChange={(e) => setLimit(parseFloat(e.target.value) || 0)}
+              />
+            </div>
+            <div className="form-control flex-1">
+              <label className="label">
+                <span className="label-text">Einheit</span>
+              </label>
+              <input
+                type="text"
+                className="input input-bordered w-full"
+                placeholder="z.B. Minuten"
+                value={unit}
+                onChange={(e) => setUnit(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {issuerId && unit.trim() && (
+            <p className="text-xs text-base-content/60 mb-4">
+              {getDisplayName(issuerId)} hat derzeit{' '}
+              {getOutstanding(issuerId)[unit.trim()] || 0} {unit.trim()} im Umlauf.
+            </p>
+          )}
+
+          {/* Error */}
+          {error && (
+            <div className="alert alert-error mb-4">
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="modal-action">
+            <button type="button" className="btn" onClick={onClose}>
+              Schliessen
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={!issuerId || !unit.trim()}>
+              Limit speichern
+            </button>
+          </div>
+        </form>
+      </div>
+      <form method="dialog" className="modal-backdrop">
+        <button onClick={onClose}>close</button>
+      </form>
+    </dialog>
+  );
+}
@@ -0,0 +1,251 @@
+/**
+ * LedgerView - Consolidated history of the user's voucher movements
+ *
+ * Filters by counterparty, unit and period; exports the filtered entries
+ * as CSV or as signed JSON statement.
+ */
+
+import { useMemo, useState } from 'react';
+import { downloadFile, type IdentityProfile } from 'narrative-ui';
+import {
+  calculateLedgerTotals,
+  filterLedger,
+  ledgerToCsv,
+  LEDGER_ENTRY_LABELS,
+  type LedgerEntry,
+  type LedgerFilter,
+  type SignedLedgerStatement,
+} from '../utils/ledger';
+
+interface LedgerViewProps {
+  entries: LedgerEntry[];
+  identities: Record<string, IdentityProfile>;
+  /** Sign a statement of the filtered entries (no signed export without) */
+  onSignStatement?: (filter: LedgerFilter) => Promise<SignedLedgerStatement>;
+}
+
+/**
+ * Get display name for a DID
+ */
+function getDisplayName(did: string, identities: Record<string, IdentityProfile>): string {
+  return identities[did]?.displayName || did.slice(0, 12) + '...';
+}
+
+/**
+ * Format date for display
+ */
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString('de-DE', {
+    day: '2-digit',
+    month: '2-digit',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Timestamp of a date input value (start or end of the day, local time)
+ */
+function parseDateInput(value: string, endOfDay: boolean): number | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T${endOfDay ? '23:59:59.999' : '00:00:00'}`);
+  return isNaN(date.getTime()) ? undefined : date.getTime();
+}
+
+export function LedgerView({ entries, identities, onSignStatement }: LedgerViewProps) {
+  const [counterpartyId, setCounterpartyId] = useState('');
+  const [unit, setUnit] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [isSigning, setIsSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const counterparties = useMemo(
+    () =>
+      Array.from(new Set(entries.map((entry) => entry.counterpartyId)))
+        .map((did) => ({ did, displayName: getDisplayName(did, identities) }))
+        .sort((a, b) => a.displayName.localeCompare(b.displayName)),
+    [entries, identities]
+  );
+  const units = useMemo(
+    () => Array.from(new Set(entries.map((entry) => entry.unit))).sort(),
+    [entries]
+  );
+
+  const from = parseDateInput(fromDate, false);
+  const to = parseDateInput(toDate, true);
+  const filter: LedgerFilter = {
+    ...(counterpartyId ? { counterpartyId } : {}),
+    ...(unit ? { unit } : {}),
+    ...(from !== undefined ? { from } : {}),
+    ...(to !== undefined ? { to } : {}),
+  };
+
+  const filteredEntries = filterLedger(entries, filter);
+  const totals = calculateLedgerTotals(filteredEntries);
+  const fileDate = new Date().toISOString().slice(0, 10);
+
+  const handleExportCsv = () => {
+    downloadFile(
+      ledgerToCsv(filteredEntries, identities),
+      `dank-kontoauszug-${fileDate}.csv`,
+      'text/csv'
+    );
+  };
+
+  const handleExportStatement = async () => {
+    if (!onSignStatement) return;
+    setError(null);
+    setIsSigning(true);
+
+    try {
+      const signed = await onSignStatement(filter);
+      downloadFile(
+        JSON.stringify(signed, null, 2),
+        `dank-kontoauszug-${fileDate}.json`,
+        'application/json'
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Kontoauszug konnte nicht signiert werden');
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const resetFilter = () => {
+    setCounterpartyId('');
+    setUnit('');
+    setFromDate('');
+    setToDate('');
+  };
+
+  return (
+    <div>
+      {/* Filters */}
+      <div className="grid gap-2 sm:grid-cols-4 mb-4">
+        <select
+          className="select select-bordered select-sm w-full"
+          value={counterpartyId}
+          onChange={(e) => setCounterpartyId(e.target.value)}
+        >
+          <option value="">Alle Personen</option>
+          {counterparties.map(({ did, displayName }) => (
+            <option key={did} value={did}>
+              {displayName}
+            </option>
+          ))}
+        </select>
+        <select
+          className="select select-bordered select-sm w-full"
+          value={unit}
+          onChange={(e) => setUnit(e.target.value)}
+        >
+          <option value="">Alle Einheiten</option>
+          {units.map((u) => (
+            <option key={u} value={u}>
+              {u}
+            </option>
+          ))}
+        </select>
+        <input
+          type="date"
+          className="input input-bordered input-sm w-full"
+          value={fromDate}
+          max={toDate || undefined}
+          onChange={(e) => setFromDate(e.target.value)}
+          aria-label="Von"
+        />
+        <input
+          type="date"
+          className="input input-bordered input-sm w-full"
+          value={toDate}
+          min={fromDate || undefined}
+          onChange={(e) => setToDate(e.target.value)}
+          aria-label="Bis"
+        />
+      </div>
+
+      {/* Totals and export */}
+      <div className="flex flex-wrap items-center gap-2 mb-4">
+        {totals.map((total) => (
+          <span key={total.unit} className="badge badge-outline">
+            {total.unit}: <span className="text-success ml-1">+{total.in}</span>
+            <span className="text-error ml-1">-{total.out}</span>
+          </span>
+        ))}
+        <div className="flex-1" />
+        {Object.keys(filter).length > 0 && (
+          <button className="btn btn-ghost btn-sm" onClick={resetFilter}>
+            Filter zuruecksetzen
+          </button>
+        )}
+        <button
+          className="btn btn-outline btn-sm"
+          onClick={handleExportCsv}
+          disabled={filteredEntries.length === 0}
+        >
+          CSV
+        </button>
+        {onSignStatement && (
+          <button
+            className="btn btn-outline btn-sm"
+            onClick={handleExportStatement}
+            disabled={filteredEntries.length === 0 || isSigning}
+            title="Signierter Kontoauszug, pruefbar mit deinem oeffentlichen Schluessel"
+          >
+            {isSigning ? <span className="loading loading-spinner loading-xs" /> : 'Signiert (JSON)'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="alert alert-error mb-4">
+          <span>{error}</span>
+        </div>
+      )}
+
+      {/* Entries */}
+      {filteredEntries.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="table table-sm">
+            <thead>
+              <tr>
+                <th>Datum</th>
+                <th>Art</th>
+                <th>Gegenueber</th>
+                <th className="text-right">Betrag</th>
+              </tr>
+            </thead>
+            <tbody>
+              {filteredEntries.map((entry) => (
+                <tr key={entry.id}>
+                  <td className="whitespace-nowrap">{formatDate(entry.timestamp)}</td>
+                  <td>
+                    <div>{LEDGER_ENTRY_LABELS[entry.type]}</div>
+                    {entry.note && (
+                      <div className="text-xs text-base-content/50">{entry.note}</div>
+                    )}
+                  </td>
+                  <td>{getDisplayName(entry.counterpartyId, identities)}</td>
+                  <td
+                    className={`text-right whitespace-nowrap font-medium ${
+                      entry.direction === 'in' ? 'text-success' : 'text-error'
+                    }`}
+                  >
+                    {entry.direction === 'in' ? '+' : '-'}
+                    {entry.amount} {entry.unit}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div className="text-center py-8 text-base-content/50">
+          {entries.length === 0
+            ? 'Noch keine Bewegungen in deiner Wallet.'
+            : 'Keine Bewegungen fuer diesen Filter.'}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * PersonalTransferModal - Transfer a personal voucher to a trusted user
+ *
+ * Personal vouchers live in the own UserDocument. They can go to anyone the
+ * user trusts, in any workspace: the signed voucher is written into the
+ * recipient's UserDocument.
+ */
+
+import { useState } from 'react';
+import type { IdentityProfile } from 'narrative-ui';
+import { useKnownProfilesContextOptional } from 'narrative-ui';
+import type { Voucher } from '../schema';
+import { getVoucherValue } from '../schema';
+
+interface PersonalTransferModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  voucher: Voucher | null;
+  /** Trusted users with a known UserDocument */
+  recipientIds: string[];
+  identities: Record<string, IdentityProfile>;
+  onTransfer: (voucherId: string, toId: string, note?: string) => Promise<void>;
+}
+
+export function PersonalTransferModal({
+  isOpen,
+  onClose,
+  voucher,
+  recipientIds,
+  identities,
+  onTransfer,
+}: PersonalTransferModalProps) {
+  const [recipientId, setRecipientId] = useState('');
+  const [note, setNote] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Trusted users may not be members of this workspace
+  const knownProfiles = useKnownProfilesContextOptional();
+  const getDisplayName = (did: string) =>
+    identities[did]?.displayName ||
+    knownProfiles?.getProfile(did)?.displayName ||
+    did.slice(0, 16) + '...';
+
+  const handleClose = () => {
+    setRecipientId('');
+    setNote('');
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen || !voucher) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!recipientId) {
+      setError('Bitte Empfaenger auswaehlen');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onTransfer(voucher.id, recipientId, note || undefined);
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Weitergeben');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <dialog className="modal modal-open">
+      <div className="modal-box">
+        <h3 className="font-bold text-lg mb-4">Persoenlichen Gutschein weitergeben</h3>
+
+        <div className="alert alert-info text-sm mb-4">
+          <span>
+            {getVoucherValue(voucher)} {voucher.unit} gehen direkt in die persoenliche Wallet
+            des Empfaengers - auch wenn ihr keinen gemeinsamen Workspace habt.
+          </span>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          {/* Recipient */}
+          <div className="form-control mb-4">
+            <label className="label">
+              <span className="label-text">Empfaenger (Personen, denen du vertraust)</span>
+            </label>
+            {recipientIds.length > 0 ? (
+              <select
+                className="select select-bordered w-full"
+                value={recipientId}
+                onChange={(e) => setRecipientId(e.target.value)}
+              >
+                <option value="">Waehle Empfaenger...</option>
+                {recipientIds.map((did) => (
+                  <option key={did} value={did}>
+                    {getDisplayName(did)}
+                  </option>
+                ))}
+              </select>
+            ) : (
+              <p className="text-sm text-base-content/70">
+                Du vertraust noch niemandem, dessen persoenliches Dokument bekannt ist.
+                Verifiziere Personen per QR-Code, um ihnen Gutscheine zu senden.
+              </p>
+            )}
+          </div>
+
+          {/* Note */}
+          <div className="form-control mb-4">
+            <label className="label">
+              <span className="label-text">Notiz (optional)</span>
+            </label>
+            <input
+              type="text"
+              className="input input-bordered w-full"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+
+          {/* Error */}
+          {error && (
+            <div className="alert alert-error mb-4">
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="modal-action">
+            <button
+              type="button"
+              className="btn"
+              onClick={handleClose}
+              disabled={isSubmitting}
+            >
+              Abbrechen
+            </button>
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={isSubmitting || !recipientId}
+            >
+              {isSubmitting ? (
+                <span className="loading loading-spinner loading-sm"></span>
+              ) : (
+                'Weitergeben'
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+      <form method="dialog" className="modal-backdrop">
+        <button onClick={handleClose}>close</button>
+      </form>
+    </dialog>
+  );
+}
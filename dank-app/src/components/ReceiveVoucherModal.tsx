@@ -0,0 +1,190 @@
+/**
+ * ReceiveVoucherModal - Accept a voucher received via QR code
+ *
+ * Shows the scanned transfer package, verifies its signature chain and
+ * imports it into the own wallet. Vouchers beyond the own credit limit for
+ * the issuer are refused, untrusted issuers trigger a warning.
+ */
+
+import { useEffect, useState } from 'react';
+import type { IdentityProfile } from 'narrative-ui';
+import { UserAvatar } from 'narrative-ui';
+import type { ValidationResult } from '../schema';
+import type { VoucherTransferPackage } from '../utils/transferPackage';
+import type { VoucherAcceptance } from '../utils/creditLimits';
+
+interface ReceiveVoucherModalProps {
+  /** Scanned package (null while closed) */
+  transferPackage: VoucherTransferPackage | null;
+  /** Error while decoding the scanned code */
+  scanError?: string | null;
+  onClose: () => void;
+  onVerify: (pkg: VoucherTransferPackage) => Promise<ValidationResult>;
+  onImport: (pkg: VoucherTransferPackage) => Promise<unknown>;
+  identities: Record<string, IdentityProfile>;
+  /** Own credit limit and trust for the issuer of the scanned voucher */
+  acceptance?: VoucherAcceptance | null;
+}
+
+export function ReceiveVoucherModal({
+  transferPackage,
+  scanError,
+  onClose,
+  onVerify,
+  onImport,
+  identities,
+  acceptance,
+}: ReceiveVoucherModalProps) {
+  const [validation, setValidation] = useState<ValidationResult | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Verify the chain when a package was scanned
+  useEffect(() => {
+    setValidation(null);
+    setError(null);
+    if (!transferPackage) return;
+
+    let cancelled = false;
+    onVerify(transferPackage).then((result) => {
+      if (!cancelled) setValidation(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [transferPackage, onVerify]);
+
+  const handleImport = async () => {
+    if (!transferPackage) return;
+    setError(null);
+    setIsImporting(true);
+    try {
+      await onImport(transferPackage);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Uebernehmen');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  if (!transferPackage && !scanError) return null;
+
+  const getDisplayName = (did: string): string =>
+    identities[did]?.displayName ||
+    transferPackage?.profiles[did]?.displayName ||
+    did.slice(0, 16) + '...';
+
+  const voucher = transferPackage?.voucher;
+  const lastTransfer = voucher?.transfers[voucher.transfers.length - 1];
+  const senderId = lastTransfer ? lastTransfer.fromId : voucher?.issuerId;
+  const isValid = validation?.overallStatus === 'valid';
+  const isOverLimit = acceptance?.status === 'over-limit';
+
+  return (
+    <dialog className="modal modal-open">
+      <div className="modal-box">
+        <h3 className="font-bold text-lg mb-4">Gutschein empfangen</h3>
+
+        {voucher && senderId && (
+          <div className="bg-base-200 rounded-lg p-4 mb-4">
+            <span className="text-2xl font-bold">
+              {voucher.amount} {voucher.unit}
+            </span>
+            {voucher.note && (
+              <p className="text-sm text-base-content/70 mb-2">{voucher.note}</p>
+            )}
+            <div className="flex items-center gap-2 mt-2">
+              <UserAvatar
+                did={voucher.issuerId}
+                avatarUrl={identities[voucher.issuerId]?.avatarUrl}
+                size={20}
+              />
+              <span className="text-sm">
+                Ausgestellt von <strong>{getDisplayName(voucher.issuerId)}</strong>
+              </span>
+            </div>
+            {senderId !== voucher.issuerId && (
+              <div className="text-sm mt-1">
+                Weitergegeben von <strong>{getDisplayName(senderId)}</strong>{' '}
+                ({voucher.transfers.length} Weitergabe
+                {voucher.transfers.length !== 1 ? 'n' : ''})
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Verification */}
+        {voucher && !validation && (
+          <div className="flex items-center gap-2 mb-4 text-sm">
+            <span className="loading loading-spinner loading-xs"></span>
+            Signaturen werden geprueft...
+          </div>
+        )}
+        {validation && isValid && (
+          <div className="alert alert-success text-sm mb-4">
+            <span>Alle Signaturen sind gueltig.</span>
+          </div>
+        )}
+        {validation && !isValid && (
+          <div className="alert alert-error text-sm mb-4">
+            <span>
+              {validation.error ??
+                (validation.overallStatus === 'unknown'
+                  ? 'Die Signaturen konnten nicht geprueft werden.'
+                  : 'Die Signaturen des Gutscheins sind ungueltig.')}
+            </span>
+          </div>
+        )}
+
+        {/* Acceptance */}
+        {voucher && isOverLimit && (
+          <div className="alert alert-error text-sm mb-4">
+            <span>
+              Dein Limit fuer {getDisplayName(voucher.issuerId)} liegt bei{' '}
+              {acceptance?.limit} {voucher.unit} - mit diesem Gutschein waeren{' '}
+              {acceptance?.outstanding} {voucher.unit} im Umlauf.
+            </span>
+          </div>
+        )}
+        {voucher && acceptance?.status === 'untrusted' && (
+          <div className="alert alert-warning text-sm mb-4">
+            <span>
+              Du vertraust {getDisplayName(voucher.issuerId)} nicht und hast kein Limit
+              festgelegt. Nimm den Gutschein nur an, wenn du ihn einloesen kannst.
+            </span>
+          </div>
+        )}
+
+        {(scanError || error) && (
+          <div className="alert alert-error mb-4">
+            <span>{scanError || error}</span>
+          </div>
+        )}
+
+        <div className="modal-action">
+          <button type="button" className="btn" onClick={onClose} disabled={isImporting}>
+            {voucher ? 'Abbrechen' : 'Schliessen'}
+          </button>
+          {voucher && (
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={handleImport}
+              disabled={!isValid || isOverLimit || isImporting}
+            >
+              {isImporting ? (
+                <span className="loading loading-spinner loading-sm"></span>
+              ) : (
+                'In Wallet uebernehmen'
+              )}
+            </button>
+          )}
+        </div>
+      </div>
+      <form method="dialog" className="modal-backdrop">
+        <button onClick={onClose}>close</button>
+      </form>
+    </dialog>
+  );
+}
@@ -0,0 +1,154 @@
+/**
+ * SplitVoucherModal - Split a voucher into a payment and a change voucher
+ *
+ * The original voucher is consumed by the signed split. Optionally the
+ * payment part is handed on right away (opens the transfer dialog).
+ */
+
+import { useState } from 'react';
+import type { Voucher } from '../schema';
+import { getExpiryBehavior, getVoucherValue } from '../schema';
+
+interface SplitVoucherModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  voucher: Voucher | null;
+  /**
+   * Split the voucher
+   * @param transferPayment - Hand on the payment part afterwards
+   */
+  onSplit: (voucherId: string, paymentAmount: number, transferPayment: boolean) => Promise<void>;
+}
+
+export function SplitVoucherModal({
+  isOpen,
+  onClose,
+  voucher,
+  onSplit,
+}: SplitVoucherModalProps) {
+  const [paymentAmount, setPaymentAmount] = useState<number>(0);
+  const [transferPayment, setTransferPayment] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClose = () => {
+    setPaymentAmount(0);
+    setTransferPayment(true);
+    setError(null);
+    onClose();
+  };
+
+  if (!isOpen || !voucher) return null;
+
+  const changeAmount = Math.round((voucher.amount - paymentAmount) * 1e6) / 1e6;
+  const isValidAmount = paymentAmount > 0 && changeAmount > 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!isValidAmount) {
+      setError(`Der Betrag muss zwischen 0 und ${voucher.amount} liegen`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await onSplit(voucher.id, paymentAmount, transferPayment);
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Fehler beim Teilen');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <dialog className="modal modal-open">
+      <div className="modal-box">
+        <h3 className="font-bold text-lg mb-4">Gutschein teilen</h3>
+
+        {/* Voucher info */}
+        <div className="bg-base-200 rounded-lg p-4 mb-4">
+          <span className="text-2xl font-bold">
+            {voucher.amount} {voucher.unit}
+          </span>
+          {getExpiryBehavior(voucher) === 'decay' && (
+            <p className="text-xs text-base-content/60 mt-1">
+              Nennwert - beide Teile verlieren weiter an Wert (aktuell{' '}
+              {getVoucherValue(voucher)} {voucher.unit})
+            </p>
+          )}
+          {voucher.note && (
+            <p className="text-sm text-base-content/70 mt-1">{voucher.note}</p>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="form-control mb-4">
+            <label className="label">
+              <span className="label-text">Betrag zum Weitergeben</span>
+            </label>
+            <input
+              type="number"
+              className="input input-bordered w-full"
+              min="0.01"
+              step="0.01"
+              max={voucher.amount}
+              value={paymentAmount || ''}
+              onChange={(e) => setPaymentAmount(parseFloat(e.target.value) || 0)}
+            />
+          </div>
+
+          {isValidAmount && (
+            <p className="text-sm mb-4">
+              Der Gutschein wird in <strong>{paymentAmount} {voucher.unit}</strong> und{' '}
+              <strong>{changeAmount} {voucher.unit}</strong> (Wechselgeld) geteilt. Beide
+              Teile bleiben beim Aussteller einloesbar.
+            </p>
+          )}
+
+          <div className="form-control mb-4">
+            <label className="label cursor-pointer justify-start gap-3">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-sm"
+                checked={transferPayment}
+                onChange={(e) => setTransferPayment(e.target.checked)}
+              />
+              <span className="label-text">Danach {paymentAmount || ''} {voucher.unit} weitergeben</span>
+            </label>
+          </div>
+
+          {/* Error */}
+          {error && (
+            <div className="alert alert-error mb-4">
+              <span>{error}</span>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="modal-action">
+            <button type="button" className="btn" onClick={handleClose} disabled={isSubmitting}>
+              Abbrechen
+            </button>
+            <button
+              type="submit"
+              className="btn btn-primary"
+              disabled={!isValidAmount || isSubmitting}
+            >
+              {isSubmitting ? (
+                <span className="loading loading-spinner loading-sm"></span>
+              ) : (
+                'Teilen'
+              )}
+            </button>
+          </div>
+        </form>
+      </div>
+      <form method="dialog" className="modal-backdrop">
+        <button onClick={handleClose}>close</button>
+      </form>
+    </dialog>
+  );
+}
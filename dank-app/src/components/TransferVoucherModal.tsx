@@ -1,11 +1,29 @@
 /**
  * TransferVoucherModal - Transfer a voucher to another user
+ *
+ * Users blocked by the current user are not offered as recipients.
+ * Blocked recipients (manual DID) and recipients blocked by people from
+ * the own trust network trigger a warning before the transfer.
+ * Transfers beyond the recipient's credit limit for the issuer are refused;
+ * if the recipient does not trust the issuer, a warning is shown.
+ *
+ * With the QR code handoff, the signed voucher is shown afterwards as
+ * (animated) QR code, so recipients outside the workspace or without
+ * network can import it with their QR scanner.
  */
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { QRCodeSVG } from 'qrcode.react';
 import type { Voucher } from '../schema';
-import type { IdentityProfile } from 'narrative-ui';
-import { UserAvatar } from 'narrative-ui';
+import type { IdentityProfile, TrustAttestation } from 'narrative-ui';
+import { UserAvatar, useKnownProfilesContextOptional, useTrustLevel } from 'narrative-ui';
+import type { VoucherAcceptance } from '../utils/creditLimits';
+import { AcceptanceAlert } from './AcceptanceAlert';
+
+/**
+ * Display time of each part of a multi-part QR code
+ */
+const QR_PART_INTERVAL_MS = 800;
 
 interface TransferVoucherModalProps {
   isOpen: boolean;
@@ -14,6 +32,17 @@ interface TransferVoucherModalProps {
   onTransfer: (voucherId: string, toId: string, note?: string) => Promise<void>;
   identities: Record<string, IdentityProfile>;
   currentUserDid: string;
+  /** Hidden and blocked users (not offered as recipients) */
+  hiddenUserDids?: Set<string>;
+  /** Create the QR codes of a transfer package (enables the QR code handoff) */
+  onCreateQrCodes?: (voucherId: string) => string[];
+  /** Check the recipient's credit limit and trust */
+  getAcceptance?: (
+    voucher: Pick<Voucher, 'issuerId' | 'unit' | 'amount'>,
+    isNew: boolean,
+    recipientId: string,
+    recipientTrustGiven?: Record<string, TrustAttestation>
+  ) => VoucherAcceptance;
 }
 
 export function TransferVoucherModal({
@@ -23,16 +52,45 @@ export function TransferVoucherModal({
   onTransfer,
   identities,
   currentUserDid,
+  hiddenUserDids,
+  onCreateQrCodes,
+  getAcceptance,
 }: TransferVoucherModalProps) {
   const [recipientId, setRecipientId] = useState('');
   const [note, setNote] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showConfirmation, setShowConfirmation] = useState(false);
+  const [isManualRecipient, setIsManualRecipient] = useState(false);
+  const [useQrHandoff, setUseQrHandoff] = useState(false);
+  const [qrCodes, setQrCodes] = useState<string[] | null>(null);
+  const [qrIndex, setQrIndex] = useState(0);
+
+  // Cycle through the parts of a multi-part QR code
+  useEffect(() => {
+    if (!qrCodes || qrCodes.length < 2) return;
+    const interval = setInterval(
+      () => setQrIndex((index) => (index + 1) % qrCodes.length),
+      QR_PART_INTERVAL_MS
+    );
+    return () => clearInterval(interval);
+  }, [qrCodes]);
+
+  const recipientTrust = useTrustLevel(recipientId || undefined);
+  const isRecipientBlocked = recipientTrust.level === 'blocked';
+  const isRecipientDistrusted = recipientTrust.distrustedBy.length > 0;
 
-  // Get list of known users (excluding self)
+  // trustGiven of the recipient (known if their UserDocument is loaded)
+  const knownProfiles = useKnownProfilesContextOptional();
+  const acceptance =
+    getAcceptance && voucher && recipientId
+      ? getAcceptance(voucher, false, recipientId, knownProfiles?.trustNetwork[recipientId])
+      : null;
+  const isOverLimit = acceptance?.status === 'over-limit';
+
+  // Get list of known users (excluding self and blocked users)
   const knownUsers = Object.entries(identities)
-    .filter(([did]) => did !== currentUserDid)
+    .filter(([did]) => did !== currentUserDid && !hiddenUserDids?.has(did))
     .map(([did, profile]) => ({
       did,
       displayName: profile.displayName || did.slice(0, 16) + '...',
@@ -63,6 +121,14 @@ export function TransferVoucherModal({
     try {
       await onTransfer(voucher.id, recipientId, note || undefined);
 
+      // Show the signed voucher for the recipient's scanner
+      if (useQrHandoff && onCreateQrCodes) {
+        setQrCodes(onCreateQrCodes(voucher.id));
+        setQrIndex(0);
+        setShowConfirmation(false);
+        return;
+      }
+
       // Reset form
       setRecipientId('');
       setNote('');
@@ -82,6 +148,10 @@ export function TransferVoucherModal({
     setNote('');
     setError(null);
     setShowConfirmation(false);
+    setIsManualRecipient(false);
+    setUseQrHandoff(false);
+    setQrCodes(null);
+    setQrIndex(0);
     onClose();
   };
 
@@ -89,6 +159,45 @@ export function TransferVoucherModal({
 
   const recipientName =
     identities[recipientId]?.displayName || recipientId.slice(0, 16) + '...';
+
+  // QR code handoff after the transfer was signed
+  if (qrCodes) {
+    return (
+      <dialog className="modal modal-open">
+        <div className="modal-box">
+          <h3 className="font-bold text-lg mb-4">Gutschein per QR-Code uebergeben</h3>
+
+          <div className="flex flex-col items-center gap-2 mb-4">
+            <div className="bg-white p-3 rounded-xl shadow-sm">
+              <QRCodeSVG value={qrCodes[qrIndex]} size={240} level="L" />
+            </div>
+            {qrCodes.length > 1 && (
+              <span className="text-sm text-base-content/60">
+                Teil {qrIndex + 1} von {qrCodes.length}
+              </span>
+            )}
+          </div>
+
+          <div className="alert alert-info text-sm mb-4">
+            <span>
+              <strong>{recipientName}</strong> scannt den Code mit dem QR-Scanner
+              der Dank-App. Der Gutschein ist bereits an {recipientName}{' '}
+              weitergegeben - halte den Code hin, bis alle Teile gelesen wurden.
+            </span>
+          </div>
+
+          <div className="modal-action">
+            <button type="button" className="btn btn-primary" onClick={handleClose}>
+              Fertig
+            </button>
+          </div>
+        </div>
+        <form method="dialog" className="modal-backdrop">
+          <button onClick={handleClose}>close</button>
+        </form>
+      </dialog>
+    );
+  }
   const issuerName =
     identities[voucher.issuerId]?.displayName ||
     voucher.issuerId.slice(0, 16) + '...';
@@ -152,7 +261,28 @@ export function TransferVoucherModal({
                       Notiz: &quot;{note}&quot;
                     </>
                   )}
+                  {useQrHandoff && (
+                    <>
+                      <br />
+                      Danach zeigst du den Gutschein als QR-Code.
+                    </>
+                  )}
                 </p>
+                {isRecipientBlocked && (
+                  <p className="font-bold mt-2">Du hast diese Person blockiert.</p>
+                )}
+                {!isRecipientBlocked && isRecipientDistrusted && (
+                  <p className="font-bold mt-2">
+                    Diese Person wurde von {recipientTrust.distrustedBy.length}{' '}
+                    {recipientTrust.distrustedBy.length === 1 ? 'Person' : 'Personen'} aus
+                    deinem Netzwerk blockiert.
+                  </p>
+                )}
+                {acceptance?.status === 'untrusted' && (
+                  <p className="font-bold mt-2">
+                    {recipientName} vertraut dem Aussteller nicht.
+                  </p>
+                )}
               </div>
             </div>
           ) : (
@@ -162,19 +292,31 @@ export function TransferVoucherModal({
                 <label className="label">
                   <span className="label-text">Empfaenger</span>
                 </label>
-                {knownUsers.length > 0 ? (
-                  <select
-                    className="select select-bordered w-full"
-                    value={recipientId}
-                    onChange={(e) => setRecipientId(e.target.value)}
-                  >
-                    <option value="">Waehle Empfaenger...</option>
-                    {knownUsers.map((user) => (
-                      <option key={user.did} value={user.did}>
-                        {user.displayName}
-                      </option>
-                    ))}
-                  </select>
+                {knownUsers.length > 0 && !isManualRecipient ? (
+                  <>
+                    <select
+                      className="select select-bordered w-full"
+                      value={recipientId}
+                      onChange={(e) => setRecipientId(e.target.value)}
+                    >
+                      <option value="">Waehle Empfaenger...</option>
+                      {knownUsers.map((user) => (
+                        <option key={user.did} value={user.did}>
+                          {user.displayName}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      className="link link-hover text-xs text-base-content/50 mt-1 text-left"
+                      onClick={() => {
+                        setRecipientId('');
+                        setIsManualRecipient(true);
+                      }}
+                    >
+                      DID manuell eingeben
+                    </button>
+                  </>
                 ) : (
                   <div>
                     <input
@@ -184,14 +326,54 @@ export function TransferVoucherModal({
                       value={recipientId}
                       onChange={(e) => setRecipientId(e.target.value)}
                     />
-                    <p className="text-xs text-base-content/50 mt-1">
-                      Noch keine anderen Teilnehmer bekannt. DID manuell
-                      eingeben.
-                    </p>
+                    {knownUsers.length === 0 && (
+                      <p className="text-xs text-base-content/50 mt-1">
+                        Noch keine anderen Teilnehmer bekannt. DID manuell
+                        eingeben.
+                      </p>
+                    )}
                   </div>
                 )}
               </div>
 
+              {/* Handoff */}
+              {onCreateQrCodes && (
+                <div className="form-control mb-4">
+                  <label className="label cursor-pointer justify-start gap-3">
+                    <input
+                      type="checkbox"
+                      className="checkbox checkbox-sm"
+                      checked={useQrHandoff}
+                      onChange={(e) => setUseQrHandoff(e.target.checked)}
+                    />
+                    <span className="label-text">Offline per QR-Code uebergeben</span>
+                  </label>
+                  {useQrHandoff && (
+                    <p className="text-xs text-base-content/50">
+                      Fuer Empfaenger ohne gemeinsamen Workspace oder ohne Netz:
+                      Der signierte Gutschein wird als QR-Code angezeigt.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {(isRecipientBlocked || isRecipientDistrusted) && (
+                <div className="alert alert-warning text-sm mb-4">
+                  <span>
+                    {isRecipientBlocked
+                      ? 'Du hast diese Person blockiert.'
+                      : 'Diese Person wurde in deinem Netzwerk blockiert.'}
+                  </span>
+                </div>
+              )}
+
+              <AcceptanceAlert
+                acceptance={acceptance}
+                unit={voucher.unit}
+                recipientName={recipientName}
+                issuerName={voucher.issuerId === currentUserDid ? 'dir' : issuerName}
+              />
+
               {/* Note */}
               <div className="form-control mb-4">
                 <label className="label">
@@ -247,7 +429,7 @@ export function TransferVoucherModal({
                 <button
                   type="submit"
                   className="btn btn-primary"
-                  disabled={!recipientId}
+                  disabled={!recipientId || isOverLimit}
                 >
                   Weiter
                 </button>
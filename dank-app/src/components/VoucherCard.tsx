@@ -2,8 +2,18 @@
  * VoucherCard - Display a single voucher with signature status
  */
 
-import type { Voucher, ValidationResult, SignatureStatus } from '../schema';
-import { getVoucherStatus } from '../schema';
+import type { Voucher, ValidationResult, SignatureStatus, VoucherStatus } from '../schema';
+import {
+  EXPIRY_BEHAVIOR_LABELS,
+  VOUCHER_EXPIRY_REMINDER_MS,
+  getExpiryBehavior,
+  getIssuerSignatures,
+  getIssuerThreshold,
+  getVoucherStatus,
+  getVoucherValue,
+  isVoucherExpired,
+  isVoucherIssuer,
+} from '../schema';
 import { UserAvatar } from 'narrative-ui';
 import type { IdentityProfile } from 'narrative-ui';
 
@@ -13,7 +23,16 @@ interface VoucherCardProps {
   identities: Record<string, IdentityProfile>;
   currentUserDid: string;
   onTransfer?: (voucherId: string) => void;
+  onSplit?: (voucherId: string) => void;
   onViewDetails?: (voucherId: string) => void;
+  /** Co-sign a pending group voucher (shown to issuers who haven't signed yet) */
+  onCoSign?: (voucherId: string) => void;
+  /** Move the voucher into the personal wallet (UserDocument) */
+  onMoveToPersonal?: (voucherId: string) => void;
+  /** Move a personal voucher into the workspace */
+  onMoveToWorkspace?: (voucherId: string) => void;
+  /** All vouchers (parent of split vouchers) */
+  vouchers?: Record<string, Voucher>;
 }
 
 /**
@@ -100,16 +119,26 @@ function formatDate(timestamp: number): string {
 /**
  * Status badge
  */
-function StatusBadge({ voucher }: { voucher: Voucher }) {
-  const status = getVoucherStatus(voucher);
-
+function StatusBadge({ status, isReturned }: { status: VoucherStatus; isReturned?: boolean }) {
   switch (status) {
     case 'active':
       return <span className="badge badge-success badge-sm">Aktiv</span>;
     case 'redeemed':
-      return <span className="badge badge-neutral badge-sm">Eingeloest</span>;
+      return (
+        <span className="badge badge-neutral badge-sm">
+          {isReturned ? 'Zurueckgegangen' : 'Eingeloest'}
+        </span>
+      );
     case 'expired':
       return <span className="badge badge-error badge-sm">Abgelaufen</span>;
+    case 'split':
+      return <span className="badge badge-neutral badge-sm">Geteilt</span>;
+    case 'moved':
+      return <span className="badge badge-neutral badge-sm">Persoenlich</span>;
+    case 'disputed':
+      return <span className="badge badge-warning badge-sm">Strittig</span>;
+    case 'pending':
+      return <span className="badge badge-info badge-sm">Wartet auf Unterschriften</span>;
   }
 }
 
@@ -119,12 +148,28 @@ export function VoucherCard({
   identities,
   currentUserDid,
   onTransfer,
+  onSplit,
   onViewDetails,
+  onCoSign,
+  onMoveToPersonal,
+  onMoveToWorkspace,
+  vouchers,
 }: VoucherCardProps) {
-  const status = getVoucherStatus(voucher);
+  const status = getVoucherStatus(voucher, validationResult?.dispute);
   const isHolder = voucher.currentHolderId === currentUserDid;
-  const isIssuer = voucher.issuerId === currentUserDid;
+  const isIssuer = isVoucherIssuer(voucher, currentUserDid);
   const canTransfer = isHolder && status === 'active';
+  const signerIds = getIssuerSignatures(voucher).map((s) => s.issuerId);
+  const coIssuerCount = (voucher.issuerIds?.length ?? 1) - 1;
+  const canCoSign = status === 'pending' && isIssuer && !signerIds.includes(currentUserDid);
+  const value = getVoucherValue(voucher);
+  const expiryBehavior = getExpiryBehavior(voucher);
+  // Returned to the issuer at expiry (not by a transfer)
+  const isReturned = voucher.status !== 'redeemed' && isVoucherExpired(voucher);
+  const isExpiringSoon =
+    status === 'active' &&
+    !!voucher.expiresAt &&
+    voucher.expiresAt - Date.now() <= VOUCHER_EXPIRY_REMINDER_MS;
 
   return (
     <div className="card bg-base-100 shadow-md hover:shadow-lg transition-shadow">
@@ -132,11 +177,14 @@ export function VoucherCard({
         {/* Header: Amount + Unit + Signature Status */}
         <div className="flex items-center justify-between">
           <div className="flex items-center gap-2">
-            <span className="text-2xl font-bold">{voucher.amount}</span>
+            <span className="text-2xl font-bold">{value}</span>
             <span className="text-lg text-base-content/70">{voucher.unit}</span>
+            {value !== voucher.amount && (
+              <span className="text-xs text-base-content/50">von {voucher.amount}</span>
+            )}
           </div>
           <div className="flex items-center gap-2">
-            <StatusBadge voucher={voucher} />
+            <StatusBadge status={status} isReturned={isReturned} />
             {validationResult && (
               <SignatureIndicator status={validationResult.overallStatus} />
             )}
@@ -154,28 +202,46 @@ export function VoucherCard({
             did={voucher.issuerId}
             avatarUrl={identities[voucher.issuerId]?.avatarUrl}
             size={24}
+            showTrustLevel
           />
           <span className="text-sm">
-            {isIssuer ? (
-              <span className="font-medium">Von dir ausgestellt</span>
+            {voucher.issuerId === currentUserDid ? (
+              <span className="font-medium">
+                Von dir{coIssuerCount > 0 && ` und ${coIssuerCount} weiteren`} ausgestellt
+              </span>
             ) : (
               <>
                 Von{' '}
                 <span className="font-medium">
                   {getDisplayName(voucher.issuerId, identities)}
                 </span>
+                {coIssuerCount > 0 && ` und ${coIssuerCount} weiteren`}
               </>
             )}
           </span>
         </div>
 
+        {/* Group signatures */}
+        {status === 'pending' && (
+          <div className="text-xs text-info mt-1">
+            {signerIds.length} von {getIssuerThreshold(voucher)} noetigen Unterschriften
+          </div>
+        )}
+
         {/* Dates */}
         <div className="flex items-center gap-4 text-xs text-base-content/50 mt-2">
           <span>Erstellt: {formatDate(voucher.createdAt)}</span>
           {voucher.expiresAt && (
-            <span>Gueltig bis: {formatDate(voucher.expiresAt)}</span>
+            <span className={isExpiringSoon ? 'text-warning font-medium' : ''}>
+              Gueltig bis: {formatDate(voucher.expiresAt)}
+            </span>
           )}
         </div>
+        {voucher.expiresAt && (
+          <div className="text-xs text-base-content/50">
+            {EXPIRY_BEHAVIOR_LABELS[expiryBehavior]}
+          </div>
+        )}
 
         {/* Transfer chain info */}
         {voucher.transfers.length > 0 && (
@@ -185,6 +251,15 @@ export function VoucherCard({
           </div>
         )}
 
+        {/* Split lineage */}
+        {voucher.parentId && (
+          <div className="text-xs text-base-content/50 mt-1">
+            Teil eines geteilten Gutscheins
+            {vouchers?.[voucher.parentId] &&
+              ` ueber ${vouchers[voucher.parentId].amount} ${voucher.unit}`}
+          </div>
+        )}
+
         {/* Actions */}
         <div className="card-actions justify-end mt-3">
           {onViewDetails && (
@@ -195,6 +270,38 @@ export function VoucherCard({
               Details
             </button>
           )}
+          {canTransfer && onSplit && (
+            <button
+              className="btn btn-ghost btn-sm"
+              onClick={() => onSplit(voucher.id)}
+            >
+              Teilen
+            </button>
+          )}
+          {canTransfer && onMoveToPersonal && (
+            <button
+              className="btn btn-ghost btn-sm"
+              onClick={() => onMoveToPersonal(voucher.id)}
+            >
+              In persoenliche Wallet
+            </button>
+          )}
+          {canTransfer && onMoveToWorkspace && (
+            <button
+              className="btn btn-ghost btn-sm"
+              onClick={() => onMoveToWorkspace(voucher.id)}
+            >
+              In diesen Workspace
+            </button>
+          )}
+          {canCoSign && onCoSign && (
+            <button
+              className="btn btn-primary btn-sm"
+              onClick={() => onCoSign(voucher.id)}
+            >
+              Mitzeichnen
+            </button>
+          )}
           {canTransfer && onTransfer && (
             <button
               className="btn btn-primary btn-sm"
@@ -3,7 +3,14 @@
  */
 
 import type { Voucher, ValidationResult, SignatureStatus } from '../schema';
-import { getVoucherStatus } from '../schema';
+import {
+  EXPIRY_BEHAVIOR_LABELS,
+  getExpiryBehavior,
+  getIssuerSignatures,
+  getIssuerThreshold,
+  getVoucherStatus,
+  getVoucherValue,
+} from '../schema';
 import type { IdentityProfile } from 'narrative-ui';
 import { UserAvatar } from 'narrative-ui';
 
@@ -14,6 +21,8 @@ interface VoucherDetailModalProps {
   validationResult?: ValidationResult;
   identities: Record<string, IdentityProfile>;
   currentUserDid: string;
+  /** All vouchers (lineage of split vouchers) */
+  vouchers?: Record<string, Voucher>;
 }
 
 /**
@@ -138,12 +147,16 @@ export function VoucherDetailModal({
   validationResult,
   identities,
   currentUserDid,
+  vouchers = {},
 }: VoucherDetailModalProps) {
   if (!isOpen || !voucher) return null;
 
-  const status = getVoucherStatus(voucher);
+  const dispute = validationResult?.dispute;
+  const status = getVoucherStatus(voucher, dispute);
+  const parent = voucher.parentId ? vouchers[voucher.parentId] : undefined;
   const isIssuer = voucher.issuerId === currentUserDid;
   const isHolder = voucher.currentHolderId === currentUserDid;
+  const signerIds = getIssuerSignatures(voucher).map((s) => s.issuerId);
 
   return (
     <dialog className="modal modal-open">
@@ -160,8 +173,12 @@ export function VoucherDetailModal({
               className={`badge ${
                 status === 'active'
                   ? 'badge-success'
-                  : status === 'redeemed'
+                  : status === 'redeemed' || status === 'split' || status === 'moved'
                   ? 'badge-neutral'
+                  : status === 'disputed'
+                  ? 'badge-warning'
+                  : status === 'pending'
+                  ? 'badge-info'
                   : 'badge-error'
               }`}
             >
@@ -169,9 +186,22 @@ export function VoucherDetailModal({
                 ? 'Aktiv'
                 : status === 'redeemed'
                 ? 'Eingeloest'
+                : status === 'split'
+                ? 'Geteilt'
+                : status === 'moved'
+                ? 'Persoenlich'
+                : status === 'disputed'
+                ? 'Strittig'
+                : status === 'pending'
+                ? 'Wartet auf Unterschriften'
                 : 'Abgelaufen'}
             </span>
           </div>
+          {getVoucherValue(voucher) !== voucher.amount && (
+            <p className="text-sm text-base-content/70 mb-2">
+              Aktueller Wert: {getVoucherValue(voucher)} {voucher.unit}
+            </p>
+          )}
           {voucher.note && (
             <p className="text-base-content/70 mb-4">{voucher.note}</p>
           )}
@@ -181,8 +211,20 @@ export function VoucherDetailModal({
             <div className="flex flex-wrap gap-4 mt-2 pt-2 border-t border-base-300">
               <SignatureStatus
                 status={validationResult.issuerSignatureStatus}
-                label="Aussteller-Signatur"
+                label={
+                  voucher.parentId
+                    ? 'Herkunft'
+                    : validationResult.validIssuerSignatures !== undefined
+                    ? `Aussteller-Signaturen (${validationResult.validIssuerSignatures} gueltig)`
+                    : 'Aussteller-Signatur'
+                }
               />
+              {validationResult.splitSignatureStatus && (
+                <SignatureStatus
+                  status={validationResult.splitSignatureStatus}
+                  label="Teilung"
+                />
+              )}
               <SignatureStatus
                 status={validationResult.overallStatus}
                 label="Gesamt"
@@ -191,6 +233,66 @@ export function VoucherDetailModal({
           )}
         </div>
 
+        {/* Double spend */}
+        {dispute && (
+          <div className="alert alert-warning mb-4">
+            <div>
+              <p className="font-semibold">Doppelt weitergegeben</p>
+              <p className="text-sm">
+                {dispute.offenderId === currentUserDid
+                  ? 'Du hast'
+                  : `${getDisplayName(dispute.offenderId, identities)} hat`}{' '}
+                diesen Gutschein {dispute.transferIds.length}-mal weitergegeben. Die
+                markierten Weitergaben widersprechen sich, der Gutschein zaehlt
+                deshalb fuer niemanden zum Guthaben und kann nicht weitergegeben
+                werden.
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Split lineage */}
+        {(voucher.parentId || voucher.split) && (
+          <div className="bg-base-200 rounded-lg p-4 mb-4 text-sm">
+            {voucher.parentId && (
+              <p>
+                Teil eines Gutscheins
+                {parent ? ` ueber ${parent.amount} ${parent.unit}` : ''}, geteilt am{' '}
+                {formatDateTime(voucher.createdAt)} von{' '}
+                <strong>
+                  {voucher.initialRecipientId === currentUserDid
+                    ? 'dir'
+                    : getDisplayName(voucher.initialRecipientId, identities)}
+                </strong>
+                .
+              </p>
+            )}
+            {voucher.split && (
+              <p className={voucher.parentId ? 'mt-1' : ''}>
+                Geteilt am {formatDateTime(voucher.split.timestamp)} in{' '}
+                {voucher.split.children
+                  .map((child) => `${child.amount} ${voucher.unit}`)
+                  .join(' + ')}
+                . Der Gutschein selbst kann nicht mehr weitergegeben werden.
+              </p>
+            )}
+          </div>
+        )}
+
+        {/* Moved into the UserDocument of its holder */}
+        {voucher.movedOut && (
+          <div className="bg-base-200 rounded-lg p-4 mb-4 text-sm">
+            Am {formatDateTime(voucher.movedOut.timestamp)} von{' '}
+            <strong>
+              {voucher.movedOut.holderId === currentUserDid
+                ? 'dir'
+                : getDisplayName(voucher.movedOut.holderId, identities)}
+            </strong>{' '}
+            in die persoenliche Wallet verschoben. Weitergaben in diesem Workspace gelten als
+            doppelte Ausgabe.
+          </div>
+        )}
+
         {/* Metadata */}
         <div className="grid grid-cols-2 gap-4 mb-4">
           <div>
@@ -233,6 +335,14 @@ export function VoucherDetailModal({
               <p className="font-medium">{formatDateTime(voucher.expiresAt)}</p>
             </div>
           )}
+          {voucher.expiresAt && (
+            <div>
+              <span className="text-xs text-base-content/50">
+                Bei Ablauf
+              </span>
+              <p className="font-medium">{EXPIRY_BEHAVIOR_LABELS[getExpiryBehavior(voucher)]}</p>
+            </div>
+          )}
           {voucher.redeemedAt && (
             <div>
               <span className="text-xs text-base-content/50">
@@ -243,6 +353,40 @@ export function VoucherDetailModal({
           )}
         </div>
 
+        {/* Issuer group */}
+        {voucher.issuerIds && (
+          <div className="bg-base-200 rounded-lg p-4 mb-4 text-sm">
+            <p className="font-medium mb-2">
+              Gemeinsam ausgestellt - gueltig mit {getIssuerThreshold(voucher)} von{' '}
+              {voucher.issuerIds.length} Unterschriften
+            </p>
+            <ul className="space-y-1">
+              {voucher.issuerIds.map((issuerId) => (
+                <li key={issuerId} className="flex items-center gap-2">
+                  <UserAvatar
+                    did={issuerId}
+                    avatarUrl={identities[issuerId]?.avatarUrl}
+                    size={20}
+                  />
+                  <span className="flex-1">
+                    {issuerId === currentUserDid ? 'Du' : getDisplayName(issuerId, identities)}
+                  </span>
+                  {/* Child vouchers carry only the creating issuer's signature */}
+                  {!voucher.parentId && (
+                    <span
+                      className={`badge badge-sm ${
+                        signerIds.includes(issuerId) ? 'badge-success' : 'badge-ghost'
+                      }`}
+                    >
+                      {signerIds.includes(issuerId) ? 'Unterschrieben' : 'Offen'}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Transfer chain */}
         <div className="mb-4">
           <h4 className="font-semibold mb-2">
@@ -317,7 +461,13 @@ export function VoucherDetailModal({
                     />
                   </svg>
                 </div>
-                <div className="timeline-end timeline-box">
+                <div
+                  className={`timeline-end timeline-box ${
+                    dispute?.transferIds.includes(transfer.id)
+                      ? 'border-warning'
+                      : ''
+                  }`}
+                >
                   <div className="flex items-center gap-2">
                     <UserAvatar
                       did={transfer.fromId}
@@ -336,6 +486,11 @@ export function VoucherDetailModal({
                     <span className="font-medium">
                       {getDisplayName(transfer.toId, identities)}
                     </span>
+                    {dispute?.transferIds.includes(transfer.id) && (
+                      <span className="badge badge-warning badge-sm">
+                        Konflikt
+                      </span>
+                    )}
                   </div>
                   {transfer.note && (
                     <p className="text-sm text-base-content/70">
@@ -6,89 +6,481 @@
  * - Voucher transfer with chain signature
  * - Balance calculation
  * - Signature validation with caching
+ * - Offline transfer packages (QR code handoff)
+ * - Credit limits for issuers (voucher acceptance)
+ * - Payments of an amount with several vouchers (e.g. Marktplatz checkout)
+ * - Expiry behavior of vouchers (void, return to issuer, decay)
+ * - Ledger of all voucher movements with signed statements
+ * - Group vouchers co-signed by several issuers (threshold)
+ * - Personal vouchers in the UserDocument, transferable across workspaces
+ *
+ * useDankWallet loads a standalone wallet document; useDankWalletData works
+ * on any document view (e.g. the Dank module of the unified app).
  */
 
-import { useCallback, useMemo, useState, useEffect } from 'react';
-import type { DocumentId } from '@automerge/automerge-repo';
-import { useDocHandle, useDocument } from '@automerge/automerge-repo-react-hooks';
-import { signJws, verifyJws, extractPublicKeyFromDid } from 'narrative-ui';
+import { useCallback, useMemo, useRef, useState, useEffect } from 'react';
+import type { AutomergeUrl, DocumentId } from '@automerge/automerge-repo';
+import { useDocHandle, useDocument, useRepo } from '@automerge/automerge-repo-react-hooks';
+import {
+  signJws,
+  type IdentityProfile,
+  type PrivateKeySource,
+  type TrustAttestation,
+  type UserDocument,
+  type WorkspaceChangeHandle,
+} from 'narrative-ui';
 import type {
+  CreditLimits,
   DankWalletDoc,
+  VoucherExpiryBehavior,
+  DankWalletView,
+  IssuerSignaturePayload,
+  MoveSignaturePayload,
+  SplitSignaturePayload,
+  VoucherMove,
+  VoucherSplit,
   Voucher,
   Transfer,
+  TransferSignaturePayload,
   ValidationResult,
-  SignatureStatus,
   UnitBalance,
+  VoucherDisputes,
 } from '../schema';
 import {
   generateId,
   calculateBalances,
+  calculateOutstanding,
+  getExpiredVouchers,
+  getExpiringVouchers,
+  getIssuedAt,
+  getIssuerSignaturePayload,
+  getIssuerSignatures,
+  getVouchersToCoSign,
   getVoucherStatus,
+  getVoucherValue,
   getActiveHeldVouchers,
   getIssuedVouchers,
   getHeldVouchers,
+  isVoucherIssuer,
 } from '../schema';
+import { getValidationFingerprint, verifyVoucher } from '../utils/voucherValidation';
+import {
+  getVoucherAcceptance,
+  loadSeenCreditLimits,
+  saveSeenCreditLimits,
+  signCreditLimit,
+  verifyCreditLimits,
+  type CreditLimitVerification,
+  type VoucherAcceptance,
+} from '../utils/creditLimits';
+import { planVoucherPayment } from '../utils/payment';
+import {
+  buildLedger,
+  createLedgerStatement,
+  filterLedger,
+  type LedgerEntry,
+  type LedgerFilter,
+  type SignedLedgerStatement,
+} from '../utils/ledger';
+import { getTrustedUserDocUrl, mergeWalletVouchers } from '../utils/personalVouchers';
+import {
+  createTransferPackage,
+  encodeTransferPackage,
+  getPackageLineage,
+  getVoucherAncestors,
+  getTransferPackageProblem,
+  toStoredTransfer,
+  toStoredVoucher,
+  type VoucherTransferPackage,
+} from '../utils/transferPackage';
 
 /**
- * Payload for issuer signature
+ * Hook options
  */
-interface IssuerSignaturePayload {
-  id: string;
-  issuerId: string;
-  amount: number;
-  unit: string;
-  createdAt: number;
-  expiresAt?: number;
-  initialRecipientId: string;
+interface UseDankWalletOptions {
+  documentId: DocumentId | null;
+  currentUserDid: string;
+  privateKey?: PrivateKeySource;
+  userDoc?: UserDocument | null;
+  userDocHandle?: WorkspaceChangeHandle<UserDocument>;
 }
 
 /**
- * Payload for transfer signature
+ * Options of the wallet logic on a document view
  */
-interface TransferSignaturePayload {
-  voucherId: string;
-  fromId: string;
-  toId: string;
-  timestamp: number;
-  previousSignature: string;
+export interface UseDankWalletDataOptions {
+  doc: DankWalletView | undefined;
+  docHandle: WorkspaceChangeHandle<DankWalletView> | undefined;
+  currentUserDid: string;
+  privateKey?: PrivateKeySource;
+  /** Document the wallet data lives in (newest credit limits are remembered per document) */
+  workspaceId?: string;
+  /** Own UserDocument (personal vouchers, taken across workspaces) */
+  userDoc?: UserDocument | null;
+  userDocHandle?: WorkspaceChangeHandle<UserDocument>;
 }
 
 /**
- * Hook options
+ * Validation cache (in-memory, per session), keyed by document and voucher ID
+ * A result is only reused while the validated data is unchanged (fingerprint).
  */
-interface UseDankWalletOptions {
-  documentId: DocumentId | null;
-  currentUserDid: string;
-  privateKey?: string;
+const validationCache = new Map<string, { fingerprint: string; result: ValidationResult }>();
+
+/**
+ * Cache TTL in milliseconds (5 minutes)
+ */
+const CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * Merge a received voucher into the vouchers of a document
+ * Appends unknown transfers and takes over holder, status and split.
+ */
+function mergeReceivedVoucher(vouchers: Record<string, Voucher>, incoming: Voucher): void {
+  const v = vouchers[incoming.id];
+  if (!v) {
+    vouchers[incoming.id] = incoming;
+    return;
+  }
+
+  // Co-signatures of group vouchers
+  for (const [issuerId, signature] of Object.entries(incoming.coIssuerSignatures ?? {})) {
+    if (!v.coIssuerSignatures) {
+      v.coIssuerSignatures = {};
+    }
+    if (!v.coIssuerSignatures[issuerId]) {
+      v.coIssuerSignatures[issuerId] = signature;
+    }
+  }
+
+  const knownSignatures = new Set(v.transfers.map((t) => t.signature));
+  const newTransfers = incoming.transfers.filter((t) => !knownSignatures.has(t.signature));
+  const isNewSplit = !!incoming.split && !v.split;
+  if (newTransfers.length === 0 && !isNewSplit) return;
+
+  for (const transfer of newTransfers) {
+    v.transfers.push(toStoredTransfer(transfer));
+  }
+  v.currentHolderId = incoming.currentHolderId;
+  v.status = incoming.status;
+  if (incoming.redeemedAt) {
+    v.redeemedAt = incoming.redeemedAt;
+  }
+  if (incoming.split && isNewSplit) {
+    v.split = incoming.split;
+  }
 }
 
 /**
- * Validation cache (in-memory, per session)
+ * Store copies of a voucher and its ancestors in the vouchers of another document
  */
-const validationCache = new Map<string, ValidationResult>();
+function storeVoucherWithLineage(
+  vouchers: Record<string, Voucher>,
+  voucher: Voucher,
+  ancestors: Voucher[]
+): void {
+  mergeReceivedVoucher(vouchers, toStoredVoucher(voucher));
+  for (const ancestor of ancestors) {
+    mergeReceivedVoucher(vouchers, toStoredVoucher(ancestor));
+  }
+}
 
 /**
- * Cache TTL in milliseconds (5 minutes)
+ * Sign a transfer of a voucher, building on the previous chain signature
+ *
+ * @param reference - What the transfer pays (e.g. a listing ID), bound by the signature
  */
-const CACHE_TTL = 5 * 60 * 1000;
+async function signTransfer(
+  voucherId: string,
+  fromId: string,
+  toId: string,
+  previousSignature: string,
+  privateKey: PrivateKeySource,
+  note?: string,
+  reference?: string
+): Promise<Transfer> {
+  const timestamp = Date.now();
+
+  // Create payload for transfer signature
+  const signaturePayload: TransferSignaturePayload = {
+    voucherId,
+    fromId,
+    toId,
+    timestamp,
+    previousSignature,
+    ...(reference ? { reference } : {}),
+  };
+
+  // Sign the transfer
+  const signature = await signJws(signaturePayload, privateKey);
+
+  // Build transfer object - Automerge doesn't allow undefined values
+  const transfer: Transfer = {
+    id: generateId(),
+    voucherId,
+    fromId,
+    toId,
+    timestamp,
+    signature,
+  };
+
+  // Only add optional fields if they have values
+  if (note) {
+    transfer.note = note;
+  }
+  if (reference) {
+    transfer.reference = reference;
+  }
+
+  return transfer;
+}
+
+/**
+ * Signature the holder builds the next transfer or split on
+ * Taken from the verified chain, never from the last stored transfer:
+ * transfers by anyone but the holder at that point are not part of it.
+ */
+async function getHolderChainTip(
+  voucher: Voucher,
+  holderId: string,
+  identities: Record<string, IdentityProfile>,
+  vouchers: Record<string, Voucher>
+): Promise<string> {
+  const { chainTip, dispute } = await verifyVoucher(voucher, identities, vouchers);
+  if (dispute) {
+    throw new Error('Voucher is disputed');
+  }
+  if (!chainTip || chainTip.holderId !== holderId) {
+    throw new Error('You are not the current holder of this voucher');
+  }
+  return chainTip.signature;
+}
+
+/**
+ * Sign the move of a voucher out of the workspace into the holder's UserDocument
+ */
+async function signMove(
+  voucher: Voucher,
+  holderId: string,
+  previousSignature: string,
+  privateKey: PrivateKeySource
+): Promise<VoucherMove> {
+  const signaturePayload: MoveSignaturePayload = {
+    type: 'move-out',
+    voucherId: voucher.id,
+    holderId,
+    previousSignature,
+    timestamp: Date.now(),
+  };
+  const signature = await signJws(signaturePayload, privateKey);
+
+  return {
+    id: generateId(),
+    holderId,
+    timestamp: signaturePayload.timestamp,
+    signature,
+  };
+}
+
+/**
+ * Sign the split of a voucher into a payment and a change voucher
+ */
+async function signSplit(
+  voucher: Voucher,
+  holderId: string,
+  previousSignature: string,
+  paymentAmount: number,
+  privateKey: PrivateKeySource
+): Promise<{ split: VoucherSplit; payment: Voucher; change: Voucher }> {
+  // Round to avoid floating point residue in the change amount
+  const changeAmount = Math.round((voucher.amount - paymentAmount) * 1e6) / 1e6;
+  if (!(paymentAmount > 0) || !(changeAmount > 0)) {
+    throw new Error('Split amount must be between 0 and the voucher amount');
+  }
+
+  const timestamp = Date.now();
+  const children = [
+    { id: generateId(), amount: paymentAmount },
+    { id: generateId(), amount: changeAmount },
+  ];
+
+  // Create payload for split signature
+  const signaturePayload: SplitSignaturePayload = {
+    voucherId: voucher.id,
+    holderId,
+    previousSignature,
+    children,
+    timestamp,
+  };
+
+  // Sign the split
+  const signature = await signJws(signaturePayload, privateKey);
+
+  const split: VoucherSplit = {
+    id: generateId(),
+    holderId,
+    timestamp,
+    children,
+    signature,
+  };
+
+  // Build child vouchers - Automerge doesn't allow undefined values
+  const [payment, change] = children.map((child): Voucher => ({
+    id: child.id,
+    issuerId: voucher.issuerId,
+    amount: child.amount,
+    unit: voucher.unit,
+    createdAt: timestamp,
+    initialRecipientId: holderId,
+    currentHolderId: holderId,
+    status: 'active',
+    issuerSignature: voucher.issuerSignature,
+    transfers: [],
+    parentId: voucher.id,
+    splitSignature: signature,
+    ...(voucher.note ? { note: voucher.note } : {}),
+    ...(voucher.expiresAt ? { expiresAt: voucher.expiresAt } : {}),
+    ...(voucher.expiryBehavior
+      ? { expiryBehavior: voucher.expiryBehavior, issuedAt: getIssuedAt(voucher) }
+      : {}),
+    ...(voucher.issuerIds ? { issuerIds: [...voucher.issuerIds] } : {}),
+    ...(voucher.issuerThreshold ? { issuerThreshold: voucher.issuerThreshold } : {}),
+  }));
+
+  return { split, payment, change };
+}
+
+/**
+ * Append a signed transfer to a voucher in the vouchers of a document
+ */
+function applyTransfer(vouchers: Record<string, Voucher>, transfer: Transfer): void {
+  const v = vouchers[transfer.voucherId];
+  if (!v) return;
+
+  v.transfers.push(transfer);
+  v.currentHolderId = transfer.toId;
+
+  // Check if voucher returned to (one of) its issuer(s)
+  if (isVoucherIssuer(v, transfer.toId)) {
+    v.status = 'redeemed';
+    v.redeemedAt = transfer.timestamp;
+  }
+}
+
+/**
+ * Put a signed split into the wallet document (parent consumed, children added)
+ */
+function applySplit(
+  d: DankWalletView,
+  voucherId: string,
+  { split, payment, change }: { split: VoucherSplit; payment: Voucher; change: Voucher }
+): void {
+  const v = d.data.vouchers[voucherId];
+  if (!v) return;
+
+  v.split = split;
+  v.status = 'split';
+  d.data.vouchers[payment.id] = payment;
+  d.data.vouchers[change.id] = change;
+}
 
 export function useDankWallet({
   documentId,
   currentUserDid,
   privateKey,
+  userDoc,
+  userDocHandle,
 }: UseDankWalletOptions) {
   // In automerge-repo v2.x, useDocHandle handles async loading
   // Handle null docId case - hooks must be called unconditionally
   const docHandle = useDocHandle<DankWalletDoc>(documentId ?? undefined);
   const [doc] = useDocument<DankWalletDoc>(documentId ?? undefined);
 
+  const wallet = useDankWalletData({
+    doc,
+    docHandle,
+    currentUserDid,
+    privateKey,
+    workspaceId: documentId ?? undefined,
+    userDoc,
+    userDocHandle,
+  });
+
+  return {
+    ...wallet,
+    doc,
+    docHandle,
+  };
+}
+
+/**
+ * Wallet state and operations of a Dank wallet
+ */
+export type DankWallet = ReturnType<typeof useDankWalletData>;
+
+/**
+ * Wallet logic on a document view (standalone document or unified module)
+ */
+export function useDankWalletData({
+  doc,
+  docHandle,
+  currentUserDid,
+  privateKey,
+  workspaceId,
+  userDoc,
+  userDocHandle,
+}: UseDankWalletDataOptions) {
+  // Recipients' UserDocuments for personal voucher transfers
+  const repo = useRepo();
+
+  // Last signed transfer (not yet in `doc` right after transferVoucher)
+  const lastTransferRef = useRef<Transfer | null>(null);
+
   // Track validation results for UI
   const [validationResults, setValidationResults] = useState<
     Map<string, ValidationResult>
   >(new Map());
 
+  // Verified double spends (only the validation can tell them)
+  const disputes = useMemo<VoucherDisputes>(() => {
+    const found: VoucherDisputes = {};
+    for (const [voucherId, result] of validationResults) {
+      if (result.dispute) {
+        found[voucherId] = result.dispute;
+      }
+    }
+    return found;
+  }, [validationResults]);
+
+  // Credit limits with a valid signature of their user (newest entries are remembered)
+  const storedCreditLimits = doc?.data.creditLimits;
+  const [creditLimitVerification, setCreditLimitVerification] = useState<CreditLimitVerification>({
+    limits: {},
+    newest: {},
+  });
+  useEffect(() => {
+    let cancelled = false;
+    const seen = workspaceId ? loadSeenCreditLimits(workspaceId) : null;
+    verifyCreditLimits(storedCreditLimits, seen)
+      .then((verification) => {
+        if (cancelled) return;
+        if (workspaceId) {
+          saveSeenCreditLimits(workspaceId, verification.newest);
+        }
+        setCreditLimitVerification(verification);
+      })
+      .catch((error) => {
+        console.error('[useDankWallet] Failed to verify credit limits:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [storedCreditLimits, workspaceId]);
+  const verifiedCreditLimits = creditLimitVerification.limits;
+
   /**
    * Create a new voucher and send to recipient
+   * With co-issuers it is a group voucher: pending until issuerThreshold
+   * issuers (including the current user) have signed it.
    */
   const createVoucher = useCallback(
     async (params: {
@@ -97,11 +489,53 @@ export function useDankWallet({
       unit: string;
       note?: string;
       expiresAt?: number;
+      expiryBehavior?: VoucherExpiryBehavior;
+      coIssuerIds?: string[];
+      issuerThreshold?: number;
     }) => {
       if (!privateKey) {
         throw new Error('Private key required to sign voucher');
       }
 
+      const coIssuerIds = Array.from(new Set(params.coIssuerIds ?? [])).filter(
+        (did) => did !== currentUserDid
+      );
+      const issuerIds = coIssuerIds.length > 0 ? [currentUserDid, ...coIssuerIds] : undefined;
+      const issuerThreshold = issuerIds ? params.issuerThreshold ?? issuerIds.length : undefined;
+
+      if (
+        issuerIds &&
+        (!Number.isInteger(issuerThreshold) ||
+          issuerThreshold! < 1 ||
+          issuerThreshold! > issuerIds.length)
+      ) {
+        throw new Error('Threshold must be between 1 and the number of issuers');
+      }
+
+      if (issuerIds?.includes(params.recipientId)) {
+        throw new Error('Recipient must not be one of the issuers');
+      }
+
+      // 'void' is the default and not stored
+      const expiryBehavior =
+        params.expiresAt && params.expiryBehavior && params.expiryBehavior !== 'void'
+          ? params.expiryBehavior
+          : undefined;
+
+      if (
+        doc &&
+        getVoucherAcceptance(
+          { issuerId: currentUserDid, unit: params.unit, amount: params.amount },
+          true,
+          params.recipientId,
+          doc.data.vouchers,
+          validationResults,
+          verifiedCreditLimits
+        ).status === 'over-limit'
+      ) {
+        throw new Error('Recipient does not accept more vouchers from this issuer');
+      }
+
       const id = generateId();
       const createdAt = Date.now();
 
@@ -118,6 +552,13 @@ export function useDankWallet({
       if (params.expiresAt) {
         signaturePayload.expiresAt = params.expiresAt;
       }
+      if (expiryBehavior) {
+        signaturePayload.expiryBehavior = expiryBehavior;
+      }
+      if (issuerIds && issuerThreshold) {
+        signaturePayload.issuerIds = issuerIds;
+        signaturePayload.issuerThreshold = issuerThreshold;
+      }
 
       // Sign the voucher
       const issuerSignature = await signJws(signaturePayload, privateKey);
@@ -143,6 +584,13 @@ export function useDankWallet({
       if (params.expiresAt) {
         voucher.expiresAt = params.expiresAt;
       }
+      if (expiryBehavior) {
+        voucher.expiryBehavior = expiryBehavior;
+      }
+      if (issuerIds && issuerThreshold) {
+        voucher.issuerIds = issuerIds;
+        voucher.issuerThreshold = issuerThreshold;
+      }
 
       // Check if recipient is the issuer (immediate redemption)
       if (params.recipientId === currentUserDid) {
@@ -161,7 +609,57 @@ export function useDankWallet({
 
       return voucher;
     },
-    [docHandle, currentUserDid, privateKey]
+    [docHandle, doc, currentUserDid, privateKey, verifiedCreditLimits]
+  );
+
+  /**
+   * Co-sign a pending group voucher as one of its issuers
+   * Signs the same payload as the creating issuer.
+   */
+  const coSignVoucher = useCallback(
+    async (voucherId: string) => {
+      if (!privateKey) {
+        throw new Error('Private key required to sign voucher');
+      }
+
+      if (!doc) {
+        throw new Error('Document not loaded');
+      }
+
+      const voucher = doc.data.vouchers[voucherId];
+      if (!voucher) {
+        throw new Error('Voucher not found');
+      }
+
+      if (!voucher.issuerIds?.includes(currentUserDid)) {
+        throw new Error('You are not an issuer of this voucher');
+      }
+
+      if (getIssuerSignatures(voucher).some((s) => s.issuerId === currentUserDid)) {
+        throw new Error('You already signed this voucher');
+      }
+
+      if (getVoucherStatus(voucher, disputes[voucherId]) !== 'pending') {
+        throw new Error('Voucher needs no more signatures');
+      }
+
+      const signature = await signJws(getIssuerSignaturePayload(voucher), privateKey);
+
+      if (!docHandle) {
+        throw new Error('Document handle not ready');
+      }
+
+      docHandle.change((d) => {
+        const v = d.data.vouchers[voucherId];
+        if (!v) return;
+        if (!v.coIssuerSignatures) {
+          v.coIssuerSignatures = {};
+        }
+        v.coIssuerSignatures[currentUserDid] = signature;
+        d.lastModified = Date.now();
+      });
+    },
+    [docHandle, doc, currentUserDid, privateKey, disputes]
   );
 
   /**
@@ -186,85 +684,203 @@ export function useDankWallet({
         throw new Error('You are not the current holder of this voucher');
       }
 
-      if (getVoucherStatus(voucher) !== 'active') {
+      if (getVoucherStatus(voucher, disputes[voucherId]) !== 'active') {
         throw new Error('Voucher is not active');
       }
 
-      const timestamp = Date.now();
-      const transferId = generateId();
-
-      // Get previous signature (last transfer or issuer signature)
-      const previousSignature =
-        voucher.transfers.length > 0
-          ? voucher.transfers[voucher.transfers.length - 1].signature
-          : voucher.issuerSignature;
+      if (
+        getVoucherAcceptance(voucher, false, toId, doc.data.vouchers, validationResults, verifiedCreditLimits)
+          .status === 'over-limit'
+      ) {
+        throw new Error('Recipient does not accept more vouchers from this issuer');
+      }
 
-      // Create payload for transfer signature
-      const signaturePayload: TransferSignaturePayload = {
+      // Sign on top of the previous signature (last transfer, issuer or split signature)
+      const transfer = await signTransfer(
         voucherId,
-        fromId: currentUserDid,
+        currentUserDid,
         toId,
-        timestamp,
-        previousSignature,
-      };
+        await getHolderChainTip(voucher, currentUserDid, doc.identities, doc.data.vouchers),
+        privateKey,
+        note
+      );
 
-      // Sign the transfer
-      const signature = await signJws(signaturePayload, privateKey);
+      if (!docHandle) {
+        throw new Error('Document handle not ready');
+      }
 
-      // Build transfer object - Automerge doesn't allow undefined values
-      const transfer: Transfer = {
-        id: transferId,
-        voucherId,
-        fromId: currentUserDid,
-        toId,
-        timestamp,
-        signature,
-      };
+      docHandle.change((d) => {
+        if (d.data.vouchers[voucherId]) {
+          applyTransfer(d.data.vouchers, transfer);
+          d.lastModified = Date.now();
+        }
+      });
 
-      // Only add optional fields if they have values
-      if (note) {
-        transfer.note = note;
+      lastTransferRef.current = transfer;
+
+      return transfer;
+    },
+    [docHandle, doc, currentUserDid, privateKey, disputes, verifiedCreditLimits]
+  );
+
+  /**
+   * Split a voucher into a payment and a change voucher
+   * The parent is consumed; both children are held by the current user and
+   * keep issuer, unit and expiry of the parent.
+   *
+   * @returns [payment, change]
+   */
+  const splitVoucher = useCallback(
+    async (voucherId: string, paymentAmount: number): Promise<[Voucher, Voucher]> => {
+      if (!privateKey) {
+        throw new Error('Private key required to sign split');
       }
 
+      if (!doc) {
+        throw new Error('Document not loaded');
+      }
+
+      const voucher = doc.data.vouchers[voucherId];
+      if (!voucher) {
+        throw new Error('Voucher not found');
+      }
+
+      if (voucher.currentHolderId !== currentUserDid) {
+        throw new Error('You are not the current holder of this voucher');
+      }
+
+      if (getVoucherStatus(voucher, disputes[voucherId]) !== 'active') {
+        throw new Error('Voucher is not active');
+      }
+
+      const signed = await signSplit(
+        voucher,
+        currentUserDid,
+        await getHolderChainTip(voucher, currentUserDid, doc.identities, doc.data.vouchers),
+        paymentAmount,
+        privateKey
+      );
+
       if (!docHandle) {
         throw new Error('Document handle not ready');
       }
 
       docHandle.change((d) => {
-        const v = d.data.vouchers[voucherId];
-        if (v) {
-          v.transfers.push(transfer);
-          v.currentHolderId = toId;
-
-          // Check if voucher returned to issuer
-          if (toId === v.issuerId) {
-            v.status = 'redeemed';
-            v.redeemedAt = timestamp;
-          }
-
+        if (d.data.vouchers[voucherId]) {
+          applySplit(d, voucherId, signed);
           d.lastModified = Date.now();
         }
       });
 
-      // Invalidate cache for this voucher
-      validationCache.delete(voucherId);
+      return [signed.payment, signed.change];
+    },
+    [docHandle, doc, currentUserDid, privateKey, disputes]
+  );
 
-      return transfer;
+  /**
+   * Pay an amount to another user with the own active vouchers of a unit
+   * Uses several vouchers if needed and splits one so that exactly the
+   * amount is paid. Vouchers the recipient doesn't accept (credit limit)
+   * are left out. All splits and transfers are applied in one change.
+   *
+   * @param reference - What the payment is for (e.g. a listing ID), signed into every transfer
+   * @returns The signed transfers (one per voucher paid)
+   */
+  const payWithVouchers = useCallback(
+    async (
+      toId: string,
+      amount: number,
+      unit: string,
+      note?: string,
+      reference?: string
+    ): Promise<Transfer[]> => {
+      if (!privateKey) {
+        throw new Error('Private key required to sign transfer');
+      }
+
+      if (!doc) {
+        throw new Error('Document not loaded');
+      }
+
+      if (toId === currentUserDid) {
+        throw new Error('Cannot pay yourself');
+      }
+
+      const candidates = getActiveHeldVouchers(doc.data.vouchers, currentUserDid, disputes).filter(
+        (v) =>
+          v.unit === unit &&
+          getVoucherAcceptance(v, false, toId, doc.data.vouchers, validationResults, verifiedCreditLimits)
+            .status !== 'over-limit'
+      );
+
+      const plan = planVoucherPayment(candidates, amount, (v) => getVoucherValue(v));
+      if (!plan) {
+        throw new Error('Not enough vouchers for this payment');
+      }
+
+      const transfers: Transfer[] = [];
+      for (const voucher of plan.vouchers) {
+        transfers.push(
+          await signTransfer(
+            voucher.id,
+            currentUserDid,
+            toId,
+            await getHolderChainTip(voucher, currentUserDid, doc.identities, doc.data.vouchers),
+            privateKey,
+            note,
+            reference
+          )
+        );
+      }
+
+      // The payment part of a split builds on the split signature
+      const signedSplit = plan.split
+        ? await signSplit(
+            plan.split.voucher,
+            currentUserDid,
+            await getHolderChainTip(plan.split.voucher, currentUserDid, doc.identities, doc.data.vouchers),
+            plan.split.paymentAmount,
+            privateKey
+          )
+        : null;
+      if (signedSplit) {
+        transfers.push(
+          await signTransfer(
+            signedSplit.payment.id,
+            currentUserDid,
+            toId,
+            signedSplit.split.signature,
+            privateKey,
+            note,
+            reference
+          )
+        );
+      }
+
+      if (!docHandle) {
+        throw new Error('Document handle not ready');
+      }
+
+      docHandle.change((d) => {
+        if (plan.split && signedSplit) {
+          applySplit(d, plan.split.voucher.id, signedSplit);
+        }
+        for (const transfer of transfers) {
+          applyTransfer(d.data.vouchers, transfer);
+        }
+        d.lastModified = Date.now();
+      });
+
+      return transfers;
     },
-    [docHandle, doc, currentUserDid, privateKey]
+    [docHandle, doc, currentUserDid, privateKey, disputes, verifiedCreditLimits]
   );
 
   /**
-   * Validate a voucher's signature chain
+   * Validate a voucher's signature chain and detect double spends
    */
   const validateVoucher = useCallback(
     async (voucherId: string): Promise<ValidationResult> => {
-      // Check cache first
-      const cached = validationCache.get(voucherId);
-      if (cached && Date.now() - cached.lastValidated < CACHE_TTL) {
-        return cached;
-      }
-
       if (!doc) {
         return {
           voucherId,
@@ -288,138 +904,406 @@ export function useDankWallet({
         };
       }
 
-      const result: ValidationResult = {
-        voucherId,
-        issuerSignatureStatus: 'unknown',
-        transferSignatureStatuses: [],
-        overallStatus: 'unknown',
-        lastValidated: Date.now(),
-      };
+      // Check cache first (any change merged from other devices invalidates it)
+      const cacheKey = `${workspaceId ?? ''}/${voucherId}`;
+      const fingerprint = getValidationFingerprint(voucher, doc.data.vouchers, doc.identities);
+      const cached = validationCache.get(cacheKey);
+      if (
+        cached &&
+        cached.fingerprint === fingerprint &&
+        Date.now() - cached.result.lastValidated < CACHE_TTL
+      ) {
+        const cachedResult = cached.result;
+        setValidationResults((prev) =>
+          prev.get(voucherId) === cachedResult ? prev : new Map(prev).set(voucherId, cachedResult)
+        );
+        return cachedResult;
+      }
+
+      const result = await verifyVoucher(voucher, doc.identities, doc.data.vouchers);
+
+      // Cache result
+      validationCache.set(cacheKey, { fingerprint, result });
+
+      // Update state for UI
+      setValidationResults((prev) => new Map(prev).set(voucherId, result));
 
-      try {
-        // Get issuer's public key from identities
-        const issuerProfile = doc.identities[voucher.issuerId];
-        if (!issuerProfile?.publicKey) {
-          // Try to extract from DID
-          try {
-            const pubKeyBytes = extractPublicKeyFromDid(voucher.issuerId);
-            // Convert to base64 for verification
-            const pubKeyBase64 = btoa(String.fromCharCode(...pubKeyBytes));
-
-            // Verify issuer signature
-            const issuerPayload: IssuerSignaturePayload = {
-              id: voucher.id,
-              issuerId: voucher.issuerId,
-              amount: voucher.amount,
-              unit: voucher.unit,
-              createdAt: voucher.createdAt,
-              initialRecipientId: voucher.initialRecipientId,
-            };
-            if (voucher.expiresAt) {
-              issuerPayload.expiresAt = voucher.expiresAt;
+      return result;
+    },
+    [doc, workspaceId]
+  );
+
+  /**
+   * QR code contents of an offline transfer package for a voucher
+   * Call after transferVoucher, so the package contains the new transfer.
+   */
+  const createTransferQrCodes = useCallback(
+    (voucherId: string): string[] => {
+      const stored = doc?.data.vouchers[voucherId];
+      if (!doc || !stored) {
+        throw new Error('Voucher not found');
+      }
+
+      // The transfer signed just now isn't in `doc` yet
+      const transfer = lastTransferRef.current;
+      const isPending =
+        transfer?.voucherId === voucherId && !stored.transfers.some((t) => t.id === transfer.id);
+      const voucher: Voucher =
+        transfer && isPending
+          ? {
+              ...stored,
+              transfers: [...stored.transfers, transfer],
+              currentHolderId: transfer.toId,
+              ...(isVoucherIssuer(stored, transfer.toId)
+                ? { status: 'redeemed' as const, redeemedAt: transfer.timestamp }
+                : {}),
             }
+          : stored;
 
-            const issuerResult = await verifyJws(
-              voucher.issuerSignature,
-              pubKeyBase64
-            );
-            result.issuerSignatureStatus = issuerResult.valid
-              ? 'valid'
-              : 'invalid';
-          } catch {
-            result.issuerSignatureStatus = 'unknown';
-          }
-        } else {
-          // Use stored public key
-          const issuerPayload: IssuerSignaturePayload = {
-            id: voucher.id,
-            issuerId: voucher.issuerId,
-            amount: voucher.amount,
-            unit: voucher.unit,
-            createdAt: voucher.createdAt,
-            initialRecipientId: voucher.initialRecipientId,
-          };
-          if (voucher.expiresAt) {
-            issuerPayload.expiresAt = voucher.expiresAt;
+      return encodeTransferPackage(createTransferPackage(voucher, doc.identities, doc.data.vouchers));
+    },
+    [doc]
+  );
+
+  /**
+   * Verify a received transfer package for the current user
+   * Public keys come from the own workspace or the did:key DIDs, never from the package.
+   */
+  const verifyTransferPackage = useCallback(
+    async (pkg: VoucherTransferPackage): Promise<ValidationResult> => {
+      const result = await verifyVoucher(
+        pkg.voucher,
+        doc?.identities ?? {},
+        getPackageLineage(pkg, doc?.data.vouchers ?? {})
+      );
+      const problem = getTransferPackageProblem(pkg.voucher, currentUserDid, result.dispute);
+      if (problem) {
+        result.overallStatus = 'invalid';
+        result.error = problem;
+      }
+      return result;
+    },
+    [doc, currentUserDid]
+  );
+
+  /**
+   * Import a received transfer package into the own wallet
+   * A voucher that is already known gets the missing transfers appended;
+   * ancestors of split vouchers are stored as well (provenance).
+   */
+  const importTransferPackage = useCallback(
+    async (pkg: VoucherTransferPackage) => {
+      if (!docHandle || !doc) {
+        throw new Error('Document handle not ready');
+      }
+
+      const result = await verifyTransferPackage(pkg);
+      if (result.overallStatus !== 'valid') {
+        throw new Error(result.error ?? 'Die Signaturen des Gutscheins sind ungueltig');
+      }
+
+      const incoming = toStoredVoucher(pkg.voucher);
+      const existing = doc.data.vouchers[incoming.id];
+      const knownSignatures = new Set(existing?.transfers.map((t) => t.signature));
+      if (existing && incoming.transfers.every((t) => knownSignatures.has(t.signature))) {
+        throw new Error('Der Gutschein ist bereits in deiner Wallet');
+      }
+
+      if (
+        getVoucherAcceptance(
+          incoming,
+          !existing,
+          currentUserDid,
+          doc.data.vouchers,
+          validationResults,
+          verifiedCreditLimits
+        )
+          .status === 'over-limit'
+      ) {
+        throw new Error('Der Gutschein liegt ueber deinem Kreditlimit fuer den Aussteller');
+      }
+
+      docHandle.change((d) => {
+        mergeReceivedVoucher(d.data.vouchers, incoming);
+        for (const ancestor of pkg.ancestors) {
+          mergeReceivedVoucher(d.data.vouchers, toStoredVoucher(ancestor));
+        }
+
+        // Names of the chain participants (without public keys)
+        for (const [did, profile] of Object.entries(pkg.profiles)) {
+          if (!d.identities[did] && typeof profile?.displayName === 'string') {
+            d.identities[did] = { displayName: profile.displayName };
           }
+        }
+
+        d.lastModified = Date.now();
+      });
+
+      return incoming;
+    },
+    [docHandle, doc, currentUserDid, verifyTransferPackage, verifiedCreditLimits]
+  );
+
+  /**
+   * Move a held voucher out of the workspace into the own UserDocument
+   * From there it can be transferred across workspaces; ancestors of split
+   * vouchers are copied along so the chain stays verifiable.
+   */
+  const moveToPersonal = useCallback(
+    async (voucherId: string) => {
+      if (!doc || !docHandle || !userDocHandle) {
+        throw new Error('Document handle not ready');
+      }
+      if (!privateKey) {
+        throw new Error('Private key required for signing');
+      }
+
+      const voucher = doc.data.vouchers[voucherId];
+      if (!voucher) {
+        throw new Error('Voucher not found');
+      }
+
+      if (voucher.currentHolderId !== currentUserDid) {
+        throw new Error('You are not the current holder of this voucher');
+      }
+
+      if (getVoucherStatus(voucher, disputes[voucherId]) !== 'active') {
+        throw new Error('Voucher is not active');
+      }
 
-          const issuerResult = await verifyJws(
-            voucher.issuerSignature,
-            issuerProfile.publicKey
-          );
-          result.issuerSignatureStatus = issuerResult.valid ? 'valid' : 'invalid';
+      const result = await verifyVoucher(voucher, doc.identities, doc.data.vouchers);
+      if (result.overallStatus === 'invalid') {
+        throw new Error('Voucher signature chain is invalid');
+      }
+      if (result.dispute) {
+        throw new Error('Voucher is disputed');
+      }
+      if (!result.chainTip || result.chainTip.holderId !== currentUserDid) {
+        throw new Error('You are not the current holder of this voucher');
+      }
+
+      const move = await signMove(voucher, currentUserDid, result.chainTip.signature, privateKey);
+      const ancestors = getVoucherAncestors(voucher, doc.data.vouchers);
+
+      userDocHandle.change((d) => {
+        if (!d.vouchers) {
+          d.vouchers = {};
         }
+        storeVoucherWithLineage(d.vouchers, voucher, ancestors);
+        d.lastModified = Date.now();
+      });
 
-        // Verify transfer chain
-        // Note: JWS verification is done on each signature individually.
-        // Each transfer's signature includes previousSignature in its payload,
-        // which links the chain. Full chain validation could decode each JWS
-        // and compare the previousSignature values.
-
-        for (const transfer of voucher.transfers) {
-          let transferStatus: SignatureStatus = 'unknown';
-
-          try {
-            // Get sender's public key
-            const senderProfile = doc.identities[transfer.fromId];
-            let pubKeyBase64: string | undefined = senderProfile?.publicKey;
-
-            if (!pubKeyBase64) {
-              // Try to extract from DID
-              try {
-                const pubKeyBytes = extractPublicKeyFromDid(transfer.fromId);
-                pubKeyBase64 = btoa(String.fromCharCode(...pubKeyBytes));
-              } catch {
-                // Can't get public key
-              }
-            }
+      // The voucher stays in the workspace with its chain, ended by the move
+      docHandle.change((d) => {
+        const stored = d.data.vouchers[voucherId];
+        if (!stored || stored.movedOut) return;
+        stored.movedOut = move;
+        d.lastModified = Date.now();
+      });
+    },
+    [doc, docHandle, userDocHandle, currentUserDid, privateKey, disputes]
+  );
 
-            if (pubKeyBase64) {
-              // Note: The signature payload that was signed is:
-              // { voucherId, fromId, toId, timestamp, previousSignature }
-              // verifyJws will decode and verify the payload from the JWS itself
+  /**
+   * Move a personal voucher from the UserDocument into the workspace
+   * Replaces the move of an earlier moveToPersonal: the chain continues with
+   * the transfers signed in the meantime.
+   */
+  const moveToWorkspace = useCallback(
+    async (voucherId: string) => {
+      if (!userDoc || !userDocHandle || !docHandle) {
+        throw new Error('Document handle not ready');
+      }
 
-              const transferResult = await verifyJws(
-                transfer.signature,
-                pubKeyBase64
-              );
-              transferStatus = transferResult.valid ? 'valid' : 'invalid';
-            }
-          } catch {
-            transferStatus = 'invalid';
-          }
+      const vouchers = userDoc.vouchers ?? {};
+      const voucher = vouchers[voucherId];
+      if (!voucher) {
+        throw new Error('Voucher not found');
+      }
 
-          result.transferSignatureStatuses.push(transferStatus);
+      if (voucher.currentHolderId !== currentUserDid) {
+        throw new Error('You are not the current holder of this voucher');
+      }
+
+      if (getVoucherStatus(voucher, disputes[voucherId]) !== 'active') {
+        throw new Error('Voucher is not active');
+      }
+
+      // Senders write into the UserDocument, so check the chain before the workspace sees it
+      const result = await verifyVoucher(voucher, doc?.identities ?? {}, vouchers);
+      if (result.overallStatus === 'invalid') {
+        throw new Error('Voucher signature chain is invalid');
+      }
+      if (result.dispute) {
+        throw new Error('Voucher is disputed');
+      }
+      if (!result.chainTip || result.chainTip.holderId !== currentUserDid) {
+        throw new Error('You are not the current holder of this voucher');
+      }
+
+      const ancestors = getVoucherAncestors(voucher, vouchers);
+
+      docHandle.change((d) => {
+        storeVoucherWithLineage(d.data.vouchers, voucher, ancestors);
+        const stored = d.data.vouchers[voucherId];
+        if (stored.movedOut) {
+          delete stored.movedOut;
         }
+        d.lastModified = Date.now();
+      });
 
-        // Determine overall status
-        const allStatuses = [
-          result.issuerSignatureStatus,
-          ...result.transferSignatureStatuses,
-        ];
-
-        if (allStatuses.includes('invalid')) {
-          result.overallStatus = 'invalid';
-        } else if (allStatuses.includes('unknown')) {
-          result.overallStatus = 'unknown';
-        } else {
-          result.overallStatus = 'valid';
+      userDocHandle.change((d) => {
+        delete d.vouchers[voucherId];
+        d.lastModified = Date.now();
+      });
+    },
+    [doc, userDoc, userDocHandle, docHandle, currentUserDid, disputes]
+  );
+
+  /**
+   * Transfer a personal voucher to a trusted user, in any workspace
+   * The signed voucher is written into the recipient's UserDocument first;
+   * the own copy keeps the transfer as history.
+   */
+  const transferPersonalVoucher = useCallback(
+    async (voucherId: string, toId: string, note?: string) => {
+      if (!privateKey) {
+        throw new Error('Private key required to sign transfer');
+      }
+
+      if (!userDoc || !userDocHandle) {
+        throw new Error('Document handle not ready');
+      }
+
+      const vouchers = userDoc.vouchers ?? {};
+      const voucher = vouchers[voucherId];
+      if (!voucher) {
+        throw new Error('Voucher not found');
+      }
+
+      if (voucher.currentHolderId !== currentUserDid) {
+        throw new Error('You are not the current holder of this voucher');
+      }
+
+      if (toId === currentUserDid) {
+        throw new Error('Cannot transfer to yourself');
+      }
+
+      if (getVoucherStatus(voucher, disputes[voucherId]) !== 'active') {
+        throw new Error('Voucher is not active');
+      }
+
+      const recipientDocUrl = getTrustedUserDocUrl(userDoc, toId);
+      if (!recipientDocUrl) {
+        throw new Error('Recipient is not trusted or their user document is unknown');
+      }
+
+      const transfer = await signTransfer(
+        voucherId,
+        currentUserDid,
+        toId,
+        await getHolderChainTip(voucher, currentUserDid, doc?.identities ?? {}, vouchers),
+        privateKey,
+        note
+      );
+      // Copy with the new transfer, as the recipient stores it
+      const sent = toStoredVoucher(voucher);
+      applyTransfer({ [voucherId]: sent }, transfer);
+      const ancestors = getVoucherAncestors(voucher, vouchers);
+
+      const recipientHandle = await repo.find<UserDocument>(recipientDocUrl as AutomergeUrl);
+      if (!recipientHandle.doc()) {
+        throw new Error('Recipient user document not available');
+      }
+
+      recipientHandle.change((d) => {
+        if (!d.vouchers) {
+          d.vouchers = {};
         }
-      } catch (error) {
-        result.overallStatus = 'invalid';
-        result.error =
-          error instanceof Error ? error.message : 'Validation failed';
+        storeVoucherWithLineage(d.vouchers, sent, ancestors);
+        d.lastModified = Date.now();
+      });
+
+      userDocHandle.change((d) => {
+        if (d.vouchers[voucherId]) {
+          applyTransfer(d.vouchers, transfer);
+          d.lastModified = Date.now();
+        }
+      });
+
+      return transfer;
+    },
+    [userDoc, userDocHandle, doc, currentUserDid, privateKey, repo, disputes]
+  );
+
+  /**
+   * Set or remove (limit null) the own credit limit for an issuer
+   * Both are signed with a version above the newest entry seen.
+   */
+  const setCreditLimit = useCallback(
+    async (issuerId: string, unit: string, limit: number | null) => {
+      if (!docHandle) {
+        throw new Error('Document handle not ready');
       }
 
-      // Cache result
-      validationCache.set(voucherId, result);
+      if (limit !== null && !(limit >= 0)) {
+        throw new Error('Credit limit must not be negative');
+      }
 
-      // Update state for UI
-      setValidationResults((prev) => new Map(prev).set(voucherId, result));
+      if (!privateKey) {
+        throw new Error('Private key required for signing');
+      }
 
-      return result;
+      const previous = creditLimitVerification.newest[currentUserDid]?.[issuerId]?.[unit];
+      const signed = await signCreditLimit(
+        currentUserDid,
+        issuerId,
+        unit,
+        limit,
+        (previous?.version ?? 0) + 1,
+        privateKey
+      );
+
+      docHandle.change((d) => {
+        if (!d.data.creditLimits) {
+          d.data.creditLimits = {};
+        }
+        if (!d.data.creditLimits[currentUserDid]) {
+          d.data.creditLimits[currentUserDid] = {};
+        }
+        if (!d.data.creditLimits[currentUserDid][issuerId]) {
+          d.data.creditLimits[currentUserDid][issuerId] = {};
+        }
+        d.data.creditLimits[currentUserDid][issuerId][unit] = signed;
+        d.lastModified = Date.now();
+      });
     },
-    [doc]
+    [docHandle, currentUserDid, privateKey, creditLimitVerification]
+  );
+
+  /**
+   * Check whether a recipient accepts a voucher (credit limit and trust)
+   *
+   * @param isNew - The voucher is not issued yet
+   * @param recipientTrustGiven - trustGiven of the recipient, if known
+   */
+  const getAcceptance = useCallback(
+    (
+      voucher: Pick<Voucher, 'issuerId' | 'unit' | 'amount'>,
+      isNew: boolean,
+      recipientId: string,
+      recipientTrustGiven?: Record<string, TrustAttestation>
+    ): VoucherAcceptance =>
+      getVoucherAcceptance(
+        voucher,
+        isNew,
+        recipientId,
+        doc?.data.vouchers ?? {},
+        validationResults,
+        verifiedCreditLimits,
+        recipientTrustGiven
+      ),
+    [doc, validationResults, verifiedCreditLimits]
   );
 
   /**
@@ -428,35 +1312,72 @@ export function useDankWallet({
   const validateHeldVouchers = useCallback(async () => {
     if (!doc) return;
 
-    const heldVouchers = getHeldVouchers(doc.data.vouchers, currentUserDid);
+    // Vouchers moved into the own UserDocument are validated there
+    const heldVouchers = getHeldVouchers(doc.data.vouchers, currentUserDid).filter(
+      (voucher) => !(voucher.movedOut && userDoc?.vouchers?.[voucher.id])
+    );
 
     for (const voucher of heldVouchers) {
       await validateVoucher(voucher.id);
     }
+  }, [doc, userDoc?.vouchers, currentUserDid, validateVoucher]);
+
+  /**
+   * Validate the redeemable vouchers of other holders
+   * Only validated vouchers count toward an issuer's outstanding amount.
+   */
+  const validateOutstandingVouchers = useCallback(async () => {
+    if (!doc) return;
+
+    for (const voucher of Object.values(doc.data.vouchers)) {
+      if (voucher.currentHolderId === currentUserDid || getVoucherStatus(voucher) !== 'active') continue;
+      await validateVoucher(voucher.id);
+    }
   }, [doc, currentUserDid, validateVoucher]);
 
-  // Auto-validate held vouchers on mount and when doc changes
+  // Auto-validate held and outstanding vouchers on mount and when doc changes
   useEffect(() => {
     if (doc) {
-      validateHeldVouchers();
+      validateHeldVouchers().then(validateOutstandingVouchers);
     }
-  }, [doc?.data.vouchers, validateHeldVouchers]);
+  }, [doc?.data.vouchers, validateHeldVouchers, validateOutstandingVouchers]);
+
+  // Validate personal vouchers when the UserDocument changes
+  // (senders write into it; their chain is checked at read time)
+  const personalVoucherMap = userDoc?.vouchers;
+  useEffect(() => {
+    if (!personalVoucherMap) return;
+
+    const held = getHeldVouchers(personalVoucherMap, currentUserDid);
+    let cancelled = false;
+    (async () => {
+      for (const voucher of held) {
+        const result = await verifyVoucher(voucher, doc?.identities ?? {}, personalVoucherMap);
+        if (cancelled) return;
+        setValidationResults((prev) => new Map(prev).set(voucher.id, result));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [personalVoucherMap, currentUserDid, doc?.identities]);
 
   /**
    * Get balances for current user
    */
   const balances = useMemo<UnitBalance[]>(() => {
     if (!doc) return [];
-    return calculateBalances(doc.data.vouchers, currentUserDid);
-  }, [doc, currentUserDid]);
+    return calculateBalances(doc.data.vouchers, currentUserDid, disputes);
+  }, [doc, currentUserDid, disputes]);
 
   /**
    * Get active vouchers held by current user
    */
   const activeVouchers = useMemo<Voucher[]>(() => {
     if (!doc) return [];
-    return getActiveHeldVouchers(doc.data.vouchers, currentUserDid);
-  }, [doc, currentUserDid]);
+    return getActiveHeldVouchers(doc.data.vouchers, currentUserDid, disputes);
+  }, [doc, currentUserDid, disputes]);
 
   /**
    * Get vouchers issued by current user
@@ -466,6 +1387,14 @@ export function useDankWallet({
     return getIssuedVouchers(doc.data.vouchers, currentUserDid);
   }, [doc, currentUserDid]);
 
+  /**
+   * Get pending group vouchers the current user still has to co-sign
+   */
+  const vouchersToCoSign = useMemo<Voucher[]>(() => {
+    if (!doc) return [];
+    return getVouchersToCoSign(doc.data.vouchers, currentUserDid);
+  }, [doc, currentUserDid]);
+
   /**
    * Get all vouchers held by current user (including redeemed/expired)
    */
@@ -474,6 +1403,78 @@ export function useDankWallet({
     return getHeldVouchers(doc.data.vouchers, currentUserDid);
   }, [doc, currentUserDid]);
 
+  /**
+   * Get active vouchers of the current user that expire soon
+   */
+  const expiringVouchers = useMemo<Voucher[]>(() => {
+    if (!doc) return [];
+    return getExpiringVouchers(doc.data.vouchers, currentUserDid, disputes);
+  }, [doc, currentUserDid, disputes]);
+
+  /**
+   * Get vouchers held in the current user's UserDocument (split parents excluded)
+   */
+  const personalVouchers = useMemo<Voucher[]>(() => {
+    if (!userDoc?.vouchers) return [];
+    return getHeldVouchers(userDoc.vouchers, currentUserDid).filter((v) => !v.split);
+  }, [userDoc?.vouchers, currentUserDid]);
+
+  /**
+   * Get vouchers that expired in the current user's wallet (history)
+   */
+  const expiredVouchers = useMemo<Voucher[]>(() => {
+    if (!doc) return [];
+    return getExpiredVouchers(doc.data.vouchers, currentUserDid);
+  }, [doc, currentUserDid]);
+
+  /**
+   * Ledger of the current user (all voucher movements, newest first)
+   * Includes the personal vouchers of the UserDocument.
+   */
+  const ledger = useMemo<LedgerEntry[]>(() => {
+    if (!doc) return [];
+    return buildLedger(mergeWalletVouchers(doc.data.vouchers, userDoc?.vouchers), currentUserDid);
+  }, [doc, userDoc?.vouchers, currentUserDid]);
+
+  /**
+   * Sign a statement of the (filtered) ledger
+   * Third parties verify it with the public key of the current user's DID.
+   */
+  const signLedgerStatement = useCallback(
+    async (filter: LedgerFilter): Promise<SignedLedgerStatement> => {
+      if (!privateKey) {
+        throw new Error('Private key required to sign statement');
+      }
+
+      const statement = createLedgerStatement(
+        filterLedger(ledger, filter),
+        currentUserDid,
+        filter
+      );
+      const jws = await signJws(statement, privateKey);
+
+      return { statement, jws };
+    },
+    [ledger, currentUserDid, privateKey]
+  );
+
+  /**
+   * Get credit limits set by current user
+   */
+  const creditLimits = useMemo<CreditLimits>(
+    () => verifiedCreditLimits[currentUserDid] ?? {},
+    [verifiedCreditLimits, currentUserDid]
+  );
+
+  /**
+   * Get the outstanding amount of an issuer by unit
+   */
+  const getOutstanding = useCallback(
+    (issuerId: string): Record<string, number> =>
+      calculateOutstanding(doc?.data.vouchers ?? {}, issuerId, validationResults),
+    [doc, validationResults]
+  );
+
   /**
    * Get validation result for a voucher
    */
@@ -485,18 +1486,40 @@ export function useDankWallet({
   );
 
   return {
-    doc,
-    docHandle,
-
     // Mutations
     createVoucher,
+    coSignVoucher,
     transferVoucher,
+    splitVoucher,
+    payWithVouchers,
+    importTransferPackage,
+    setCreditLimit,
+
+    // Personal vouchers (UserDocument)
+    moveToPersonal,
+    moveToWorkspace,
+    transferPersonalVoucher,
+
+    // Offline transfer
+    createTransferQrCodes,
+    verifyTransferPackage,
+
+    // Statements
+    signLedgerStatement,
 
     // Queries
     balances,
     activeVouchers,
     issuedVouchers,
+    vouchersToCoSign,
     allHeldVouchers,
+    expiringVouchers,
+    expiredVouchers,
+    personalVouchers,
+    ledger,
+    creditLimits,
+    getOutstanding,
+    getAcceptance,
 
     // Validation
     validateVoucher,
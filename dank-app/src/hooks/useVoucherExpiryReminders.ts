@@ -0,0 +1,93 @@
+/**
+ * useVoucherExpiryReminders - Remind the holder of vouchers that expire soon
+ *
+ * Shows a toast for the vouchers in the wallet that expire within
+ * VOUCHER_EXPIRY_REMINDER_MS (see getExpiringVouchers). Each voucher is
+ * reminded once per device; reminded IDs are kept in localStorage until
+ * the voucher has expired.
+ */
+
+import { useEffect } from 'react';
+import type { Voucher } from '../schema';
+import { getExpiryBehavior, getVoucherValue } from '../schema';
+
+const STORAGE_KEY = 'dankExpiryReminders';
+
+interface RemindedVouchers {
+  [voucherId: string]: number; // voucherId -> expiresAt
+}
+
+/**
+ * Get reminded vouchers from localStorage
+ */
+function getRemindedVouchers(): RemindedVouchers {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    console.error('Failed to load voucher reminders:', error);
+    return {};
+  }
+}
+
+/**
+ * Mark vouchers as reminded (and forget those that have expired)
+ */
+function markVouchersAsReminded(vouchers: Voucher[]): void {
+  try {
+    const now = Date.now();
+    const data = Object.fromEntries(
+      Object.entries(getRemindedVouchers()).filter(([, expiresAt]) => expiresAt > now)
+    );
+    for (const voucher of vouchers) {
+      data[voucher.id] = voucher.expiresAt ?? now;
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  } catch (error) {
+    console.error('Failed to save voucher reminders:', error);
+  }
+}
+
+/**
+ * Reminder text for vouchers that expire soon (soonest first)
+ */
+function formatReminder(vouchers: Voucher[]): string {
+  const first = vouchers[0];
+  const date = new Date(first.expiresAt ?? Date.now()).toLocaleDateString('de-DE');
+
+  if (vouchers.length > 1) {
+    return `${vouchers.length} Gutscheine laufen bald ab - der erste am ${date}`;
+  }
+
+  const amount = `${getVoucherValue(first)} ${first.unit}`;
+  switch (getExpiryBehavior(first)) {
+    case 'return':
+      return `Gutschein ueber ${amount} geht am ${date} an den Aussteller zurueck`;
+    case 'decay':
+      return `Gutschein (noch ${amount} wert) ist am ${date} nichts mehr wert`;
+    default:
+      return `Gutschein ueber ${amount} verfaellt am ${date}`;
+  }
+}
+
+/**
+ * Hook to remind the holder of vouchers that expire soon
+ *
+ * @param expiringVouchers - Active vouchers of the user expiring soon, soonest first
+ * @param showToast - Toast of the app (no reminders without)
+ */
+export function useVoucherExpiryReminders(
+  expiringVouchers: Voucher[],
+  showToast?: (message: string) => void
+): void {
+  useEffect(() => {
+    if (!showToast || expiringVouchers.length === 0) return;
+
+    const reminded = getRemindedVouchers();
+    const due = expiringVouchers.filter((v) => reminded[v.id] === undefined);
+    if (due.length === 0) return;
+
+    markVouchersAsReminded(due);
+    showToast(formatReminder(due));
+  }, [expiringVouchers, showToast]);
+}
@@ -0,0 +1,59 @@
+/**
+ * useVoucherReceiver - Receive vouchers via the QR scanner of AppLayout
+ *
+ * Collects the parts of an (animated) voucher QR code and decodes the
+ * transfer package once all parts were scanned. Pass qrCodeHandler to
+ * AppLayout and the received package to DankModule.
+ */
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+import type { QRCodeHandler } from 'narrative-ui';
+import {
+  collectTransferPackagePart,
+  countTransferPackageParts,
+  decodeTransferPackage,
+  type TransferPackageParts,
+  type VoucherTransferPackage,
+} from '../utils/transferPackage';
+
+export function useVoucherReceiver() {
+  const [receivedPackage, setReceivedPackage] = useState<VoucherTransferPackage | null>(null);
+  const [receiveError, setReceiveError] = useState<string | null>(null);
+
+  // Parts of a voucher QR code collected in the scanner
+  const scannedPartsRef = useRef<TransferPackageParts | null>(null);
+
+  const qrCodeHandler = useMemo<QRCodeHandler>(() => ({
+    hint: 'Oder scanne einen Gutschein, der dir per QR-Code uebergeben wird.',
+    onScan: (decodedText) => {
+      const parts = collectTransferPackagePart(scannedPartsRef.current, decodedText);
+      if (!parts) return null;
+
+      scannedPartsRef.current = parts;
+      const count = countTransferPackageParts(parts);
+      if (count < parts.total) {
+        return { message: `Gutschein: Teil ${count} von ${parts.total} gelesen` };
+      }
+
+      scannedPartsRef.current = null;
+      try {
+        setReceivedPackage(decodeTransferPackage(parts));
+      } catch (err) {
+        setReceiveError(err instanceof Error ? err.message : 'Ungueltiger Gutschein-Code');
+      }
+      return 'done';
+    },
+  }), []);
+
+  const closeReceive = useCallback(() => {
+    setReceivedPackage(null);
+    setReceiveError(null);
+  }, []);
+
+  return {
+    qrCodeHandler,
+    receivedPackage,
+    receiveError,
+    closeReceive,
+  };
+}
@@ -0,0 +1,11 @@
+/**
+ * Dank App - Main exports
+ *
+ * This file exports the main components and types for use in other packages.
+ */
+
+// Re-export modules
+export * from './modules';
+
+// Re-export schema types
+export * from './schema';
@@ -0,0 +1,439 @@
+/**
+ * DankModule - Reusable module component for the voucher wallet
+ *
+ * This is a UI component that receives data and the wallet operations via props.
+ * It can be used standalone or integrated into a unified multi-module app.
+ */
+
+import { useState } from 'react';
+import type { ModuleProps } from 'narrative-ui';
+import type { DankWalletData, Voucher, VoucherExpiryBehavior } from '../schema';
+import type { DankWallet } from '../hooks/useDankWallet';
+import { useVoucherExpiryReminders } from '../hooks/useVoucherExpiryReminders';
+import type { VoucherTransferPackage } from '../utils/transferPackage';
+import { VoucherCard } from '../components/VoucherCard';
+import { BalanceCard } from '../components/BalanceCard';
+import { CreateVoucherModal } from '../components/CreateVoucherModal';
+import { TransferVoucherModal } from '../components/TransferVoucherModal';
+import { SplitVoucherModal } from '../components/SplitVoucherModal';
+import { CreditLimitsModal } from '../components/CreditLimitsModal';
+import { VoucherDetailModal } from '../components/VoucherDetailModal';
+import { ReceiveVoucherModal } from '../components/ReceiveVoucherModal';
+import { LedgerView } from '../components/LedgerView';
+import { PersonalTransferModal } from '../components/PersonalTransferModal';
+import { getPersonalVoucherRecipients } from '../utils/personalVouchers';
+
+/**
+ * Extended props for DankModule
+ * Includes the wallet operations beyond the standard ModuleProps
+ */
+export interface DankModuleProps extends ModuleProps<DankWalletData> {
+  /** Wallet state and operations (useDankWalletData) */
+  wallet: DankWallet;
+  /** Hidden and blocked users (not offered as recipients) */
+  hiddenUserDids?: Set<string>;
+  /** Only show the wallet (no creating, transferring or splitting) */
+  readOnly?: boolean;
+  /** Voucher received via QR code (the scanner belongs to the app) */
+  receivedPackage?: VoucherTransferPackage | null;
+  /** Error while decoding a scanned voucher */
+  receiveError?: string | null;
+  /** Close the received voucher */
+  onCloseReceive?: () => void;
+  /** Toast of the app (reminders for vouchers that expire soon) */
+  showToast?: (message: string) => void;
+}
+
+type TabType = 'wallet' | 'issued' | 'all' | 'expired' | 'personal' | 'ledger';
+
+/**
+ * DankModule Component
+ *
+ * Displays balances, vouchers and the ledger with creation, transfer, split
+ * and credit limit dialogs. With the UserDocument in the context, vouchers
+ * can be moved into the personal wallet and sent to trusted users from there.
+ */
+export function DankModule({
+  data,
+  context,
+  wallet,
+  hiddenUserDids,
+  readOnly = false,
+  receivedPackage = null,
+  receiveError = null,
+  onCloseReceive = () => {},
+  showToast,
+}: DankModuleProps) {
+  const { currentUserDid, identities } = context;
+  const {
+    balances,
+    activeVouchers,
+    issuedVouchers,
+    vouchersToCoSign,
+    allHeldVouchers,
+    expiringVouchers,
+    expiredVouchers,
+    personalVouchers,
+    ledger,
+    createVoucher,
+    coSignVoucher,
+    transferVoucher,
+    splitVoucher,
+    importTransferPackage,
+    setCreditLimit,
+    creditLimits,
+    getOutstanding,
+    getAcceptance,
+    createTransferQrCodes,
+    verifyTransferPackage,
+    getValidationResult,
+    signLedgerStatement,
+    moveToPersonal,
+    moveToWorkspace,
+    transferPersonalVoucher,
+  } = wallet;
+  const userDoc = context.userDoc;
+
+  const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showCreditLimitsModal, setShowCreditLimitsModal] = useState(false);
+  const [transferVoucherId, setTransferVoucherId] = useState<string | null>(null);
+  const [splitVoucherId, setSplitVoucherId] = useState<string | null>(null);
+  const [detailVoucherId, setDetailVoucherId] = useState<string | null>(null);
+  const [personalTransferId, setPersonalTransferId] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<TabType>('wallet');
+
+  useVoucherExpiryReminders(expiringVouchers, showToast);
+
+  const handleCreateVoucher = async (params: {
+    recipientId: string;
+    amount: number;
+    unit: string;
+    note?: string;
+    expiresAt?: number;
+    expiryBehavior?: VoucherExpiryBehavior;
+    coIssuerIds?: string[];
+    issuerThreshold?: number;
+  }) => {
+    await createVoucher(params);
+  };
+
+  const handleMoveToPersonal = async (voucherId: string) => {
+    try {
+      await moveToPersonal(voucherId);
+      showToast?.('Gutschein liegt jetzt in deiner persoenlichen Wallet');
+    } catch (err) {
+      console.error('Failed to move voucher:', err);
+      showToast?.('Gutschein konnte nicht verschoben werden');
+    }
+  };
+
+  const handleMoveToWorkspace = async (voucherId: string) => {
+    try {
+      await moveToWorkspace(voucherId);
+      showToast?.('Gutschein liegt jetzt in diesem Workspace');
+    } catch (err) {
+      console.error('Failed to move voucher:', err);
+      showToast?.('Gutschein konnte nicht verschoben werden');
+    }
+  };
+
+  const handleCoSign = async (voucherId: string) => {
+    try {
+      await coSignVoucher(voucherId);
+      showToast?.('Gutschein mitgezeichnet');
+    } catch (err) {
+      console.error('Failed to co-sign voucher:', err);
+      showToast?.('Gutschein konnte nicht mitgezeichnet werden');
+    }
+  };
+
+  const handleTransfer = async (voucherId: string, toId: string, note?: string) => {
+    await transferVoucher(voucherId, toId, note);
+  };
+
+  const handleSplit = async (voucherId: string, paymentAmount: number, transferPayment: boolean) => {
+    const [payment] = await splitVoucher(voucherId, paymentAmount);
+    if (transferPayment) {
+      setTransferVoucherId(payment.id);
+    }
+  };
+
+  // Get voucher for modals
+  const transferVoucher_ = transferVoucherId ? data.vouchers[transferVoucherId] : null;
+  const splitVoucher_ = splitVoucherId ? data.vouchers[splitVoucherId] : null;
+  const personalVoucherMap = userDoc?.vouchers ?? {};
+  const personalTransferVoucher = personalTransferId ? personalVoucherMap[personalTransferId] : null;
+  // A voucher moved into the UserDocument is shown with its personal chain
+  const workspaceDetailVoucher = detailVoucherId ? data.vouchers[detailVoucherId] : undefined;
+  const detailVoucher = detailVoucherId
+    ? (workspaceDetailVoucher?.movedOut ? personalVoucherMap[detailVoucherId] : undefined) ??
+      workspaceDetailVoucher ??
+      personalVoucherMap[detailVoucherId] ??
+      null
+    : null;
+
+  // Determine which vouchers to show based on tab
+  const getDisplayVouchers = (): Voucher[] => {
+    switch (activeTab) {
+      case 'wallet':
+        return activeVouchers;
+      case 'issued':
+        return issuedVouchers;
+      case 'all':
+        return allHeldVouchers;
+      case 'expired':
+        return expiredVouchers;
+      case 'personal':
+        return personalVouchers;
+      case 'ledger':
+        return [];
+      default:
+        return activeVouchers;
+    }
+  };
+
+  const displayVouchers = getDisplayVouchers();
+  const isPersonalTab = activeTab === 'personal';
+
+  return (
+    <>
+      {/* Balance Overview */}
+      {balances.length > 0 && (
+        <div className="mb-6">
+          <h2 className="text-lg font-semibold mb-3">Dein Guthaben</h2>
+          <div className="stats stats-vertical sm:stats-horizontal shadow w-full">
+            {balances.map((balance) => (
+              <BalanceCard key={balance.unit} balance={balance} identities={identities} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Empty state for balances */}
+      {balances.length === 0 && activeTab === 'wallet' && (
+        <div className="card bg-base-100 shadow mb-6">
+          <div className="card-body text-center">
+            <div className="text-6xl mb-4">0</div>
+            <p className="text-base-content/70">Du hast noch keine aktiven Gutscheine.</p>
+          </div>
+        </div>
+      )}
+
+      {/* Action Buttons */}
+      {!readOnly && (
+        <div className="mb-6 flex flex-wrap gap-2">
+          <button
+            className="btn btn-primary w-full sm:w-auto"
+            onClick={() => setShowCreateModal(true)}
+          >
+            <svg
+              xmlns="http://www.w3.org/2000/svg"
+              className="h-5 w-5 mr-2"
+              fill="none"
+              viewBox="0 0 24 24"
+              stroke="currentColor"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M12 6v6m0 0v6m0-6h6m-6 0H6"
+              />
+            </svg>
+            Neuen Gutschein erstellen
+          </button>
+          <button
+            className="btn btn-ghost w-full sm:w-auto"
+            onClick={() => setShowCreditLimitsModal(true)}
+          >
+            Kreditlimits
+          </button>
+        </div>
+      )}
+
+      {/* Group vouchers waiting for the user's signature */}
+      {!readOnly && vouchersToCoSign.length > 0 && activeTab !== 'issued' && (
+        <div className="alert alert-info mb-4">
+          <span>
+            {vouchersToCoSign.length === 1
+              ? 'Ein gemeinsamer Gutschein wartet auf deine Unterschrift.'
+              : `${vouchersToCoSign.length} gemeinsame Gutscheine warten auf deine Unterschrift.`}
+          </span>
+          <button className="btn btn-sm" onClick={() => setActiveTab('issued')}>
+            Anzeigen
+          </button>
+        </div>
+      )}
+
+      {/* Tabs */}
+      <div className="tabs tabs-box mb-4">
+        <button
+          className={`tab ${activeTab === 'wallet' ? 'tab-active' : ''}`}
+          onClick={() => setActiveTab('wallet')}
+        >
+          Meine Wallet ({activeVouchers.length})
+        </button>
+        <button
+          className={`tab ${activeTab === 'issued' ? 'tab-active' : ''}`}
+          onClick={() => setActiveTab('issued')}
+        >
+          Von mir ausgestellt ({issuedVouchers.length})
+        </button>
+        <button
+          className={`tab ${activeTab === 'all' ? 'tab-active' : ''}`}
+          onClick={() => setActiveTab('all')}
+        >
+          Alle ({allHeldVouchers.length})
+        </button>
+        <button
+          className={`tab ${activeTab === 'expired' ? 'tab-active' : ''}`}
+          onClick={() => setActiveTab('expired')}
+        >
+          Abgelaufen ({expiredVouchers.length})
+        </button>
+        {userDoc && (
+          <button
+            className={`tab ${activeTab === 'personal' ? 'tab-active' : ''}`}
+            onClick={() => setActiveTab('personal')}
+          >
+            Persoenlich ({personalVouchers.length})
+          </button>
+        )}
+        <button
+          className={`tab ${activeTab === 'ledger' ? 'tab-active' : ''}`}
+          onClick={() => setActiveTab('ledger')}
+        >
+          Verlauf ({ledger.length})
+        </button>
+      </div>
+
+      {/* Ledger */}
+      {activeTab === 'ledger' && (
+        <LedgerView
+          entries={ledger}
+          identities={identities}
+          onSignStatement={readOnly ? undefined : signLedgerStatement}
+        />
+      )}
+
+      {/* Voucher List */}
+      <div className="grid gap-4 sm:grid-cols-2">
+        {displayVouchers.map((voucher) => (
+          <VoucherCard
+            key={voucher.id}
+            voucher={voucher}
+            validationResult={getValidationResult(voucher.id)}
+            identities={identities}
+            vouchers={isPersonalTab ? personalVoucherMap : data.vouchers}
+            currentUserDid={currentUserDid}
+            onTransfer={
+              readOnly
+                ? undefined
+                : isPersonalTab
+                ? (id) => setPersonalTransferId(id)
+                : (id) => setTransferVoucherId(id)
+            }
+            onSplit={readOnly || isPersonalTab ? undefined : (id) => setSplitVoucherId(id)}
+            onViewDetails={(id) => setDetailVoucherId(id)}
+            onCoSign={readOnly || isPersonalTab ? undefined : handleCoSign}
+            onMoveToPersonal={readOnly || isPersonalTab || !userDoc ? undefined : handleMoveToPersonal}
+            onMoveToWorkspace={readOnly || !isPersonalTab ? undefined : handleMoveToWorkspace}
+          />
+        ))}
+      </div>
+
+      {/* Empty state for voucher list */}
+      {displayVouchers.length === 0 && activeTab !== 'ledger' && (
+        <div className="text-center py-8 text-base-content/50">
+          {activeTab === 'wallet' && 'Keine aktiven Gutscheine in deiner Wallet.'}
+          {activeTab === 'issued' && 'Du hast noch keine Gutscheine ausgestellt.'}
+          {activeTab === 'all' && 'Keine Gutscheine vorhanden.'}
+          {activeTab === 'expired' && 'In deiner Wallet ist noch kein Gutschein abgelaufen.'}
+          {activeTab === 'personal' &&
+            'Keine persoenlichen Gutscheine. Verschiebe Gutscheine in deine persoenliche Wallet, um sie in jedem Workspace an Vertraute weiterzugeben.'}
+        </div>
+      )}
+
+      {/* Modals */}
+      <CreateVoucherModal
+        isOpen={showCreateModal}
+        onClose={() => setShowCreateModal(false)}
+        onCreateVoucher={handleCreateVoucher}
+        identities={identities}
+        currentUserDid={currentUserDid}
+        getAcceptance={getAcceptance}
+      />
+
+      <CreditLimitsModal
+        isOpen={showCreditLimitsModal}
+        onClose={() => setShowCreditLimitsModal(false)}
+        creditLimits={creditLimits}
+        getOutstanding={getOutstanding}
+        onSetLimit={setCreditLimit}
+        identities={identities}
+        currentUserDid={currentUserDid}
+      />
+
+      <TransferVoucherModal
+        isOpen={!!transferVoucherId}
+        onClose={() => setTransferVoucherId(null)}
+        voucher={transferVoucher_}
+        onTransfer={handleTransfer}
+        identities={identities}
+        currentUserDid={currentUserDid}
+        hiddenUserDids={hiddenUserDids}
+        onCreateQrCodes={createTransferQrCodes}
+        getAcceptance={getAcceptance}
+      />
+
+      <SplitVoucherModal
+        isOpen={!!splitVoucherId}
+        onClose={() => setSplitVoucherId(null)}
+        voucher={splitVoucher_}
+        onSplit={handleSplit}
+      />
+
+      <ReceiveVoucherModal
+        transferPackage={receivedPackage}
+        scanError={receiveError}
+        onClose={onCloseReceive}
+        onVerify={verifyTransferPackage}
+        onImport={importTransferPackage}
+        identities={identities}
+        acceptance={
+          receivedPackage
+            ? getAcceptance(
+                receivedPackage.voucher,
+                !data.vouchers[receivedPackage.voucher.id],
+                currentUserDid,
+                context.trustGiven
+              )
+            : null
+        }
+      />
+
+      <PersonalTransferModal
+        isOpen={!!personalTransferId}
+        onClose={() => setPersonalTransferId(null)}
+        voucher={personalTransferVoucher}
+        recipientIds={userDoc ? getPersonalVoucherRecipients(userDoc) : []}
+        identities={identities}
+        onTransfer={async (voucherId, toId, note) => {
+          await transferPersonalVoucher(voucherId, toId, note);
+        }}
+      />
+
+      <VoucherDetailModal
+        isOpen={!!detailVoucherId}
+        onClose={() => setDetailVoucherId(null)}
+        voucher={detailVoucher}
+        validationResult={detailVoucherId ? getValidationResult(detailVoucherId) : undefined}
+        identities={identities}
+        vouchers={
+          detailVoucherId && personalVoucherMap[detailVoucherId] ? personalVoucherMap : data.vouchers
+        }
+        currentUserDid={currentUserDid}
+      />
+    </>
+  );
+}
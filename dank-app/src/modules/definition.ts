@@ -0,0 +1,31 @@
+/**
+ * Dank Module Definition
+ *
+ * Metadata and factory function for the Dank module.
+ */
+
+import type { ModuleDefinition } from 'narrative-ui';
+import type { DankWalletData } from '../schema';
+import { DankModule } from './DankModule';
+
+/**
+ * Create empty wallet data
+ */
+export function createEmptyDankData(): DankWalletData {
+  return {
+    vouchers: {},
+  };
+}
+
+/**
+ * Dank module definition
+ */
+export const dankModule: ModuleDefinition<DankWalletData> = {
+  id: 'dank',
+  name: 'Dank',
+  icon: '🎟️',
+  description: 'Signed vouchers for mutual help',
+  version: '1.0.0',
+  createEmptyData: createEmptyDankData,
+  component: DankModule as any, // Type cast needed due to extended props
+};
@@ -0,0 +1,23 @@
+/**
+ * Dank Module Exports
+ *
+ * Re-exports module components and definitions for use in unified apps.
+ */
+
+export { DankModule } from './DankModule';
+export type { DankModuleProps } from './DankModule';
+export { dankModule, createEmptyDankData } from './definition';
+export { useDankWalletData } from '../hooks/useDankWallet';
+export type { DankWallet, UseDankWalletDataOptions } from '../hooks/useDankWallet';
+export { useVoucherReceiver } from '../hooks/useVoucherReceiver';
+export type { VoucherTransferPackage } from '../utils/transferPackage';
+export { buildLedger, filterLedger, verifyLedgerStatement } from '../utils/ledger';
+export type {
+  LedgerEntry,
+  LedgerFilter,
+  LedgerStatement,
+  SignedLedgerStatement,
+  LedgerStatementVerification,
+} from '../utils/ledger';
+export { verifyVoucherPayment } from '../utils/payment';
+export type { VoucherPaymentClaim } from '../utils/payment';
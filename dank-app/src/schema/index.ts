@@ -1,60 +1,168 @@
-import type { BaseDocument, UserIdentity } from 'narrative-ui';
-import { createBaseDocument } from 'narrative-ui';
+import type {
+  BaseDocument,
+  UserIdentity,
+  Voucher,
+  VoucherExpiryBehavior,
+  VoucherMove,
+  VoucherSplit,
+  VoucherSplitPart as SplitPart,
+  VoucherStatus,
+  VoucherTransfer as Transfer,
+} from 'narrative-ui';
+import { createBaseDocument, extractJwsPayload } from 'narrative-ui';
+
+// The stored voucher shapes are shared with the UserDocument (narrative-ui)
+export type {
+  Voucher,
+  VoucherExpiryBehavior,
+  VoucherMove,
+  VoucherSplit,
+  VoucherStatus,
+  VoucherSplitPart as SplitPart,
+  VoucherTransfer as Transfer,
+} from 'narrative-ui';
+
+/**
+ * All expiry behaviors
+ */
+export const EXPIRY_BEHAVIORS: VoucherExpiryBehavior[] = ['void', 'return', 'decay'];
+
+/**
+ * Descriptions of the expiry behaviors
+ */
+export const EXPIRY_BEHAVIOR_LABELS: Record<VoucherExpiryBehavior, string> = {
+  void: 'Verfaellt bei Ablauf',
+  return: 'Geht bei Ablauf an den Aussteller zurueck',
+  decay: 'Verliert bis zum Ablauf stetig an Wert',
+};
 
 /**
- * Voucher status
+ * Time before expiry in which holders are reminded (7 days)
  */
-export type VoucherStatus = 'active' | 'redeemed' | 'expired';
+export const VOUCHER_EXPIRY_REMINDER_MS = 7 * 24 * 60 * 60 * 1000;
 
 /**
- * A single transfer in the voucher's chain of custody
- * Each transfer is signed by the sender, building on the previous signature
+ * Payload signed by the issuer of a voucher
+ * Group vouchers: every issuer signs the same payload
  */
-export interface Transfer {
+export interface IssuerSignaturePayload {
   id: string;
+  issuerId: string;
+  amount: number;
+  unit: string;
+  createdAt: number;
+  expiresAt?: number;
+  expiryBehavior?: VoucherExpiryBehavior;   // Only with expiresAt, omitted for 'void'
+  initialRecipientId: string;
+  issuerIds?: string[];                     // Only for group vouchers
+  issuerThreshold?: number;                 // Only for group vouchers
+}
+
+/**
+ * Payload signed by the sender of a transfer
+ */
+export interface TransferSignaturePayload {
   voucherId: string;
-  fromId: string;             // DID of sender
-  toId: string;               // DID of recipient
+  fromId: string;
+  toId: string;
   timestamp: number;
-  note?: string;
+  previousSignature: string;
+  reference?: string;   // Only if the transfer pays for something (e.g. a listing ID)
+}
 
-  // Signature of the sender (signs: voucherId, fromId, toId, timestamp, previousSignature)
-  signature: string;          // JWS compact serialization
+/**
+ * Payload signed by the holder when splitting a voucher
+ */
+export interface SplitSignaturePayload {
+  voucherId: string;
+  holderId: string;
+  previousSignature: string;
+  children: SplitPart[];
+  timestamp: number;
 }
 
 /**
- * A voucher (Gutschein) - a promise of value from issuer to holder
- *
- * Lifecycle:
- * 1. Issuer creates voucher, signs it, sends to initial recipient
- * 2. Holder can transfer to another user (signed transfer added to chain)
- * 3. When voucher returns to issuer, it's automatically redeemed
- * 4. If expiresAt is set and passed, voucher expires
+ * Payload signed by the holder when moving a voucher out of the workspace
  */
-export interface Voucher {
-  id: string;
+export interface MoveSignaturePayload {
+  type: 'move-out';
+  voucherId: string;
+  holderId: string;
+  previousSignature: string;
+  timestamp: number;
+}
 
-  // Creation data (immutable after creation)
-  issuerId: string;           // DID of issuer (creator)
-  amount: number;             // e.g., 10
-  unit: string;               // e.g., "Minuten", "Äpfel", "EUR"
-  note?: string;              // Description of the value promise
-  createdAt: number;
-  expiresAt?: number;         // Optional expiration timestamp
+/**
+ * Payload signed by a user setting a credit limit
+ */
+export interface CreditLimitSignaturePayload {
+  type: 'credit-limit';
+  userId: string;
+  issuerId: string;
+  unit: string;
+  /** null: the limit was removed */
+  limit: number | null;
+  /** Increases with every change of this limit (older entries are replays) */
+  version: number;
+  updatedAt: number;
+}
 
-  // Initial recipient
-  initialRecipientId: string;
+/**
+ * Double spend: a holder signed several transfers building on the same link
+ *
+ * Transfers live in a CRDT list, so transfers signed concurrently (e.g. on
+ * two devices) all survive the merge. The voucher can't be attributed to
+ * any of the recipients anymore.
+ */
+export interface VoucherDispute {
+  /** DID of the holder who signed the conflicting transfers */
+  offenderId: string;
+  /** Signature (issuer or transfer) the conflicting transfers build on */
+  previousSignature: string;
+  /** IDs of the conflicting transfers (or split; a split only known from its children: a child ID) */
+  transferIds: string[];
+}
+
+/**
+ * Verified double spends by voucher ID (the disputes of the validation
+ * results; child vouchers carry the dispute of their split lineage)
+ */
+export type VoucherDisputes = Record<string, VoucherDispute>;
 
-  // Current state
-  currentHolderId: string;    // Who currently holds the voucher
-  status: VoucherStatus;
-  redeemedAt?: number;        // When returned to issuer
+/**
+ * End of a transfer chain: the link the next transfer builds on and its holder
+ */
+export interface VoucherChainTip {
+  signature: string;
+  holderId: string;
+}
 
-  // Issuer's signature (signs: id, issuerId, amount, unit, createdAt, expiresAt, initialRecipientId)
-  issuerSignature: string;    // JWS compact serialization
+/**
+ * Link of a transfer chain: a transfer, or a split or move out of the
+ * workspace (no recipient, ends the chain)
+ */
+export interface VoucherChainLink {
+  /** Transfer, split or move ID */
+  id: string;
+  signature: string;
+  /** Holder who signed the link */
+  fromId: string;
+  /** Recipient (not set for a split or move) */
+  toId?: string;
+  /** Link this one builds on */
+  previousSignature: string;
+}
 
-  // Chain of transfers (append-only)
-  transfers: Transfer[];
+/**
+ * Transfer chain of a voucher, followed from its root
+ */
+export interface VoucherChainWalk {
+  /** Last link before the chain ends (or forks) */
+  tip: VoucherChainTip;
+  /** Signatures of all links that are part of the chain (including every branch of a fork) */
+  linkedSignatures: Set<string>;
+  /** First fork of the chain */
+  dispute: VoucherDispute | null;
 }
 
 /**
@@ -65,6 +173,8 @@ export interface UnitBalance {
   totalAmount: number;
   voucherCount: number;
   byIssuer: Record<string, number>;  // DID -> amount from that issuer
+  disputedAmount: number;            // Held but disputed, not part of totalAmount
+  disputedCount: number;
 }
 
 /**
@@ -77,18 +187,61 @@ export type SignatureStatus = 'valid' | 'invalid' | 'unknown';
  */
 export interface ValidationResult {
   voucherId: string;
+  /** For child vouchers: provenance (parent chain and split) */
   issuerSignatureStatus: SignatureStatus;
   transferSignatureStatuses: SignatureStatus[];
+  /** For split vouchers: signature of the split */
+  splitSignatureStatus?: SignatureStatus;
+  /** For vouchers moved out of the workspace: signature of the move */
+  moveSignatureStatus?: SignatureStatus;
+  /** For group vouchers: issuer signatures present when validated */
+  issuerSignatureCount?: number;
+  /** For group vouchers: number of valid issuer signatures */
+  validIssuerSignatures?: number;
   overallStatus: SignatureStatus;
   lastValidated: number;
+  /** End of the verified transfer chain (the next transfer or split builds on it) */
+  chainTip?: VoucherChainTip;
+  dispute?: VoucherDispute;
   error?: string;
 }
 
+/**
+ * Credit limits a user sets for the issuers they accept
+ * Key: issuer DID -> unit -> maximum outstanding amount of that issuer
+ */
+export type CreditLimits = Record<string, Record<string, number>>;
+
+/**
+ * Credit limit as stored in the document, signed by the user who set it
+ * A removed limit stays as signed entry with limit null.
+ */
+export interface SignedCreditLimit {
+  limit: number | null;
+  version: number;
+  updatedAt: number;
+  /** JWS over CreditLimitSignaturePayload */
+  signature: string;
+}
+
+/**
+ * Stored credit limits of a user
+ * Key: issuer DID -> unit -> signed limit
+ */
+export type SignedCreditLimits = Record<string, Record<string, SignedCreditLimit>>;
+
 /**
  * Dank Wallet app-specific data
  */
 export interface DankWalletData {
   vouchers: Record<string, Voucher>;
+  /**
+   * Credit limits per user (user DID -> limits)
+   * Shared in the workspace so senders can respect them. Only limits
+   * signed by the user count (see verifyCreditLimits).
+   * Optional for documents created before credit limits existed.
+   */
+  creditLimits?: Record<string, SignedCreditLimits>;
 }
 
 /**
@@ -96,6 +249,12 @@ export interface DankWalletData {
  */
 export type DankWalletDoc = BaseDocument<DankWalletData>;
 
+/**
+ * The parts of a document the wallet works on
+ * Standalone: the DankWalletDoc; unified app: identities plus data.dank
+ */
+export type DankWalletView = Pick<DankWalletDoc, 'identities' | 'data' | 'lastModified'>;
+
 /**
  * Creates an empty Dank Wallet document
  *
@@ -134,34 +293,313 @@ export function isVoucherExpired(voucher: Voucher): boolean {
 }
 
 /**
- * Check if a voucher is redeemed (back at issuer)
+ * What happens when the voucher expires
+ */
+export function getExpiryBehavior(voucher: Voucher): VoucherExpiryBehavior {
+  return voucher.expiresAt ? voucher.expiryBehavior ?? 'void' : 'void';
+}
+
+/**
+ * Issue time of a voucher (for split vouchers: of the original voucher)
+ */
+export function getIssuedAt(voucher: Voucher): number {
+  return voucher.issuedAt ?? voucher.createdAt;
+}
+
+/**
+ * Current value of a voucher
+ * Decaying vouchers lose value linearly from their issue time until expiry.
+ */
+export function getVoucherValue(voucher: Voucher, now = Date.now()): number {
+  if (getExpiryBehavior(voucher) !== 'decay' || !voucher.expiresAt) return voucher.amount;
+
+  const lifetime = voucher.expiresAt - getIssuedAt(voucher);
+  if (lifetime <= 0) return 0;
+
+  const remaining = Math.min(Math.max(voucher.expiresAt - now, 0), lifetime);
+  return Math.round((voucher.amount * remaining * 100) / lifetime) / 100;
+}
+
+/**
+ * Round away floating point residue of summed amounts
+ */
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 1e6) / 1e6;
+}
+
+/**
+ * Issuers of a voucher (the group of a group voucher, else the single issuer)
+ */
+export function getIssuerIds(voucher: Voucher): string[] {
+  return voucher.issuerIds ?? [voucher.issuerId];
+}
+
+/**
+ * Issuer signatures a voucher needs to be valid
+ */
+export function getIssuerThreshold(voucher: Voucher): number {
+  return voucher.issuerThreshold ?? 1;
+}
+
+/**
+ * Check whether a user is one of the issuers of a voucher
+ */
+export function isVoucherIssuer(voucher: Voucher, did: string): boolean {
+  return getIssuerIds(voucher).includes(did);
+}
+
+/**
+ * Issuer signatures of a voucher: the creating issuer's plus the co-signatures
+ */
+export function getIssuerSignatures(voucher: Voucher): { issuerId: string; signature: string }[] {
+  const coSignatures = Object.entries(voucher.coIssuerSignatures ?? {})
+    .filter(([issuerId]) => issuerId !== voucher.issuerId)
+    .map(([issuerId, signature]) => ({ issuerId, signature }));
+  return [{ issuerId: voucher.issuerId, signature: voucher.issuerSignature }, ...coSignatures];
+}
+
+/**
+ * Payload the issuers sign, built from the stored voucher fields
+ */
+export function getIssuerSignaturePayload(voucher: Voucher): IssuerSignaturePayload {
+  return {
+    id: voucher.id,
+    issuerId: voucher.issuerId,
+    amount: voucher.amount,
+    unit: voucher.unit,
+    createdAt: voucher.createdAt,
+    initialRecipientId: voucher.initialRecipientId,
+    ...(voucher.expiresAt ? { expiresAt: voucher.expiresAt } : {}),
+    ...(voucher.expiryBehavior ? { expiryBehavior: voucher.expiryBehavior } : {}),
+    ...(voucher.issuerIds ? { issuerIds: [...voucher.issuerIds] } : {}),
+    ...(voucher.issuerThreshold ? { issuerThreshold: voucher.issuerThreshold } : {}),
+  };
+}
+
+/**
+ * Check whether a group voucher is still missing issuer signatures
+ * Only counts the signatures present; their validity is checked by the validation.
+ * Child vouchers are never pending - their parent was complete when split.
+ */
+export function isVoucherPending(voucher: Voucher): boolean {
+  if (!voucher.issuerIds || voucher.parentId) return false;
+  const issuerIds = voucher.issuerIds;
+  const signers = getIssuerSignatures(voucher).filter((s) => issuerIds.includes(s.issuerId));
+  return signers.length < getIssuerThreshold(voucher);
+}
+
+/**
+ * Check if a voucher is redeemed (back at one of its issuers)
  */
 export function isVoucherRedeemed(voucher: Voucher): boolean {
-  return voucher.currentHolderId === voucher.issuerId;
+  return isVoucherIssuer(voucher, voucher.currentHolderId);
+}
+
+/**
+ * Signature the transfer chain of a voucher starts with
+ * (issuer signature, or the split signature for child vouchers)
+ */
+export function getChainRoot(voucher: Voucher): string {
+  return voucher.splitSignature ?? voucher.issuerSignature;
+}
+
+/**
+ * Latest link of the transfer chain - the next transfer or split builds on it
+ * Follows the chain from its root (see walkVoucherChain) without verifying
+ * signatures; the validation reports the verified tip (ValidationResult.chainTip).
+ */
+export function getChainTip(voucher: Voucher): VoucherChainTip {
+  return walkVoucherChain(voucher, getChainLinks(voucher)).tip;
+}
+
+/**
+ * Decode the signed payload of a move out of the workspace (without verifying the signature)
+ */
+export function decodeMovePayload(move: Pick<VoucherMove, 'signature'>): MoveSignaturePayload | null {
+  const payload = extractJwsPayload(move.signature) as Partial<MoveSignaturePayload> | null;
+  if (
+    !payload ||
+    payload.type !== 'move-out' ||
+    typeof payload.holderId !== 'string' ||
+    typeof payload.previousSignature !== 'string'
+  ) {
+    return null;
+  }
+  return payload as MoveSignaturePayload;
+}
+
+/**
+ * Decode the signed payload of a split (without verifying the signature)
+ */
+export function decodeSplitPayload(split: Pick<VoucherSplit, 'signature'>): SplitSignaturePayload | null {
+  const payload = extractJwsPayload(split.signature) as Partial<SplitSignaturePayload> | null;
+  if (
+    !payload ||
+    typeof payload.holderId !== 'string' ||
+    typeof payload.previousSignature !== 'string' ||
+    !Array.isArray(payload.children)
+  ) {
+    return null;
+  }
+  return payload as SplitSignaturePayload;
+}
+
+/**
+ * Decode the signed payload of a transfer (without verifying the signature)
+ */
+export function decodeTransferPayload(transfer: Transfer): TransferSignaturePayload | null {
+  const payload = extractJwsPayload(transfer.signature) as Partial<TransferSignaturePayload> | null;
+  if (
+    !payload ||
+    typeof payload.fromId !== 'string' ||
+    typeof payload.toId !== 'string' ||
+    typeof payload.previousSignature !== 'string'
+  ) {
+    return null;
+  }
+  return payload as TransferSignaturePayload;
+}
+
+/**
+ * Links of the transfer chain of a voucher, decoded from the signed payloads
+ * (without verifying the signatures). Transfers whose payload doesn't match
+ * the stored sender and recipient are left out.
+ */
+export function getChainLinks(voucher: Voucher): VoucherChainLink[] {
+  const links: VoucherChainLink[] = [];
+
+  for (const transfer of voucher.transfers) {
+    const payload = decodeTransferPayload(transfer);
+    if (!payload || payload.fromId !== transfer.fromId || payload.toId !== transfer.toId) continue;
+    links.push({
+      id: transfer.id,
+      signature: transfer.signature,
+      fromId: payload.fromId,
+      toId: payload.toId,
+      previousSignature: payload.previousSignature,
+    });
+  }
+
+  const splitPayload = voucher.split ? decodeSplitPayload(voucher.split) : null;
+  if (voucher.split && splitPayload?.holderId === voucher.split.holderId) {
+    links.push({
+      id: voucher.split.id,
+      signature: voucher.split.signature,
+      fromId: splitPayload.holderId,
+      previousSignature: splitPayload.previousSignature,
+    });
+  }
+
+  const movePayload = voucher.movedOut ? decodeMovePayload(voucher.movedOut) : null;
+  if (voucher.movedOut && movePayload?.holderId === voucher.movedOut.holderId) {
+    links.push({
+      id: voucher.movedOut.id,
+      signature: voucher.movedOut.signature,
+      fromId: movePayload.holderId,
+      previousSignature: movePayload.previousSignature,
+    });
+  }
+
+  return links;
+}
+
+/**
+ * Follow the transfer chain of a voucher from its root
+ *
+ * Starting at the issuer (or split) signature and the initial recipient, a
+ * link only continues the chain if it builds on the current link
+ * (previousSignature) and comes from the holder at that point (fromId).
+ * Links by anyone else are not part of the chain. If two or more links of
+ * the holder (or a transfer and a split) build on the same link, the holder
+ * spent the voucher twice: the chain forks, the tip stays before the fork.
+ *
+ * @param links - Links to consider (e.g. only those with verified signatures)
+ */
+export function walkVoucherChain(voucher: Voucher, links: VoucherChainLink[]): VoucherChainWalk {
+  const successors = new Map<string, VoucherChainLink[]>();
+  const seenSignatures = new Set<string>();
+  for (const link of links) {
+    if (seenSignatures.has(link.signature)) continue;
+    seenSignatures.add(link.signature);
+    successors.set(link.previousSignature, [...(successors.get(link.previousSignature) ?? []), link]);
+  }
+
+  const root = getChainRoot(voucher);
+  let tip: VoucherChainTip = { signature: root, holderId: voucher.initialRecipientId };
+  let dispute: VoucherDispute | null = null;
+  const linkedSignatures = new Set<string>();
+
+  // Breadth first, so the fork closest to the root is reported; branches of
+  // a fork are followed as well (their links are linked, but not the tip)
+  const queue = [{ signature: root, holderId: voucher.initialRecipientId, isTip: true }];
+  const visited = new Set<string>();
+  while (queue.length > 0) {
+    const { signature, holderId, isTip } = queue.shift()!;
+    if (visited.has(signature)) continue;
+    visited.add(signature);
+
+    const next = (successors.get(signature) ?? []).filter((link) => link.fromId === holderId);
+    if (next.length > 1 && !dispute) {
+      dispute = {
+        offenderId: holderId,
+        previousSignature: signature,
+        transferIds: next.map((link) => link.id),
+      };
+    }
+
+    for (const link of next) {
+      linkedSignatures.add(link.signature);
+      // A split or move has no recipient: it ends the chain
+      if (!link.toId) continue;
+      const continuesTip = isTip && next.length === 1;
+      if (continuesTip) {
+        tip = { signature: link.signature, holderId: link.toId };
+      }
+      queue.push({ signature: link.signature, holderId: link.toId, isTip: continuesTip });
+    }
+  }
+
+  return { tip, linkedSignatures, dispute };
 }
 
 /**
- * Get the effective status of a voucher (checking expiration)
+ * Get the effective status of a voucher (checking disputes and expiration)
+ * Double spends are only known from the verified chain, so the dispute
+ * comes from the validation (ValidationResult.dispute).
+ *
+ * @param dispute - Verified dispute of the voucher or its split lineage
  */
-export function getVoucherStatus(voucher: Voucher): VoucherStatus {
+export function getVoucherStatus(voucher: Voucher, dispute?: VoucherDispute | null): VoucherStatus {
+  if (dispute) return 'disputed';
+  if (voucher.split) return 'split';
+  if (voucher.movedOut) return 'moved';
   if (voucher.status === 'redeemed') return 'redeemed';
-  if (isVoucherExpired(voucher)) return 'expired';
+  if (isVoucherExpired(voucher)) {
+    // Vouchers returning to their issuer are redeemed without a transfer
+    return getExpiryBehavior(voucher) === 'return' ? 'redeemed' : 'expired';
+  }
+  if (isVoucherPending(voucher)) return 'pending';
   return voucher.status;
 }
 
 /**
  * Calculate balances by unit for a given holder
+ *
+ * @param disputes - Verified double spends (see getVoucherStatus)
  */
 export function calculateBalances(
   vouchers: Record<string, Voucher>,
-  holderId: string
+  holderId: string,
+  disputes: VoucherDisputes = {}
 ): UnitBalance[] {
   const balanceMap = new Map<string, UnitBalance>();
 
   for (const voucher of Object.values(vouchers)) {
-    // Only count active vouchers held by this user
+    // Only count active vouchers held by this user, disputed ones separately
+    // Split parents are consumed; their value is counted via the children
     if (voucher.currentHolderId !== holderId) continue;
-    if (getVoucherStatus(voucher) !== 'active') continue;
+    const status = getVoucherStatus(voucher, disputes[voucher.id]);
+    if (status !== 'active' && status !== 'disputed') continue;
 
     const unit = voucher.unit;
     let balance = balanceMap.get(unit);
@@ -172,27 +610,79 @@ export function calculateBalances(
         totalAmount: 0,
         voucherCount: 0,
         byIssuer: {},
+        disputedAmount: 0,
+        disputedCount: 0,
       };
       balanceMap.set(unit, balance);
     }
 
-    balance.totalAmount += voucher.amount;
+    if (status === 'disputed') {
+      balance.disputedAmount += voucher.amount;
+      balance.disputedCount += 1;
+      continue;
+    }
+
+    const value = getVoucherValue(voucher);
+    balance.totalAmount += value;
     balance.voucherCount += 1;
-    balance.byIssuer[voucher.issuerId] =
-      (balance.byIssuer[voucher.issuerId] || 0) + voucher.amount;
+    balance.byIssuer[voucher.issuerId] = (balance.byIssuer[voucher.issuerId] || 0) + value;
   }
 
   return Array.from(balanceMap.values());
 }
 
 /**
- * Get vouchers issued by a specific user
+ * Calculate the outstanding amount of an issuer by unit
+ * Counts the current value of all validated vouchers the issuer issued
+ * (alone or in a group) that can still be redeemed (active or disputed);
+ * split parents are counted via their children. Unvalidated vouchers are
+ * left out, so forged vouchers can't use up an issuer's limit.
+ *
+ * @param validationResults - Validation results by voucher ID
+ */
+export function calculateOutstanding(
+  vouchers: Record<string, Voucher>,
+  issuerId: string,
+  validationResults: ReadonlyMap<string, ValidationResult>
+): Record<string, number> {
+  const outstanding: Record<string, number> = {};
+
+  for (const voucher of Object.values(vouchers)) {
+    if (!isVoucherIssuer(voucher, issuerId)) continue;
+    const result = validationResults.get(voucher.id);
+    if (result?.overallStatus !== 'valid') continue;
+    const status = getVoucherStatus(voucher, result.dispute);
+    if (status !== 'active' && status !== 'disputed') continue;
+
+    outstanding[voucher.unit] = (outstanding[voucher.unit] || 0) + getVoucherValue(voucher);
+  }
+
+  return outstanding;
+}
+
+/**
+ * Get vouchers issued by a specific user (alone or in a group)
  */
 export function getIssuedVouchers(
   vouchers: Record<string, Voucher>,
   issuerId: string
 ): Voucher[] {
-  return Object.values(vouchers).filter(v => v.issuerId === issuerId);
+  return Object.values(vouchers).filter(v => isVoucherIssuer(v, issuerId));
+}
+
+/**
+ * Get pending group vouchers a user still has to co-sign
+ */
+export function getVouchersToCoSign(
+  vouchers: Record<string, Voucher>,
+  issuerId: string
+): Voucher[] {
+  return Object.values(vouchers).filter(
+    v =>
+      !!v.issuerIds?.includes(issuerId) &&
+      !getIssuerSignatures(v).some(s => s.issuerId === issuerId) &&
+      getVoucherStatus(v) === 'pending'
+  );
 }
 
 /**
@@ -207,12 +697,50 @@ export function getHeldVouchers(
 
 /**
  * Get active vouchers held by a specific user
+ *
+ * @param disputes - Verified double spends (see getVoucherStatus)
  */
 export function getActiveHeldVouchers(
   vouchers: Record<string, Voucher>,
-  holderId: string
+  holderId: string,
+  disputes: VoucherDisputes = {}
 ): Voucher[] {
   return Object.values(vouchers).filter(
-    v => v.currentHolderId === holderId && getVoucherStatus(v) === 'active'
+    v => v.currentHolderId === holderId && getVoucherStatus(v, disputes[v.id]) === 'active'
   );
 }
+
+/**
+ * Get active vouchers of a holder that expire within the given time, soonest first
+ */
+export function getExpiringVouchers(
+  vouchers: Record<string, Voucher>,
+  holderId: string,
+  disputes: VoucherDisputes = {},
+  withinMs = VOUCHER_EXPIRY_REMINDER_MS,
+  now = Date.now()
+): Voucher[] {
+  return getActiveHeldVouchers(vouchers, holderId, disputes)
+    .filter(v => v.expiresAt !== undefined && v.expiresAt - now <= withinMs)
+    .sort((a, b) => (a.expiresAt ?? 0) - (b.expiresAt ?? 0));
+}
+
+/**
+ * Get vouchers that expired while held by a specific user, latest first
+ * Includes vouchers that returned to their issuer at expiry.
+ */
+export function getExpiredVouchers(
+  vouchers: Record<string, Voucher>,
+  holderId: string
+): Voucher[] {
+  return Object.values(vouchers)
+    .filter(
+      v =>
+        v.currentHolderId === holderId &&
+        !isVoucherIssuer(v, v.currentHolderId) &&
+        !v.split &&
+        v.status !== 'redeemed' &&
+        isVoucherExpired(v)
+    )
+    .sort((a, b) => (b.expiresAt ?? 0) - (a.expiresAt ?? 0));
+}
@@ -0,0 +1,263 @@
+/**
+ * Voucher acceptance - credit limits and trust of the recipient
+ *
+ * Every user can set a credit limit per issuer and unit ("accept up to
+ * 120 Minuten from X"). The limit caps the issuer's total outstanding
+ * amount: vouchers that would raise it above the limit are refused.
+ * Issuers without a limit are accepted, but a warning is shown if the
+ * recipient does not trust them (no valid attestation in their trustGiven).
+ *
+ * Limits are stored in the workspace and signed by the user who set them,
+ * so nobody else can raise or lower them. Unsigned entries are ignored.
+ * Removing a limit stores a signed removal, and every change carries a
+ * higher version; each device remembers the newest entries it has seen.
+ */
+
+import {
+  base64Encode,
+  extractPublicKeyFromDid,
+  isAttestationExpired,
+  isValidDid,
+  signJws,
+  verifyJws,
+  type PrivateKeySource,
+  type TrustAttestation,
+} from 'narrative-ui';
+import type {
+  CreditLimitSignaturePayload,
+  CreditLimits,
+  SignedCreditLimit,
+  SignedCreditLimits,
+  ValidationResult,
+  Voucher,
+} from '../schema';
+import { calculateOutstanding } from '../schema';
+
+/**
+ * Tolerance for decimal amounts
+ */
+const AMOUNT_EPSILON = 1e-9;
+
+/**
+ * Acceptance of a voucher by its recipient
+ * - accepted: within the limit, or trusted issuer without limit
+ * - untrusted: no limit set and the recipient does not trust the issuer
+ * - over-limit: the issuer's outstanding amount exceeds the recipient's limit
+ */
+export type VoucherAcceptanceStatus = 'accepted' | 'untrusted' | 'over-limit';
+
+export interface VoucherAcceptance {
+  status: VoucherAcceptanceStatus;
+  /** Outstanding amount of the issuer in this unit (including a new voucher) */
+  outstanding: number;
+  /** Credit limit of the recipient for the issuer (if set) */
+  limit?: number;
+}
+
+/**
+ * Newest signed entries seen per workspace (localStorage)
+ */
+const SEEN_CREDIT_LIMITS_KEY = 'dankSeenCreditLimits';
+
+/**
+ * Result of verifying the stored credit limits
+ */
+export interface CreditLimitVerification {
+  /** Verified limits of all users (removed limits omitted) */
+  limits: Record<string, CreditLimits>;
+  /** Newest verified entry per user, issuer and unit (including removals) */
+  newest: Record<string, SignedCreditLimits>;
+}
+
+/**
+ * Sign a credit limit of the current user
+ *
+ * @param limit - New limit, null to remove it
+ * @param version - Must be higher than the version of the user's previous entry
+ */
+export async function signCreditLimit(
+  userId: string,
+  issuerId: string,
+  unit: string,
+  limit: number | null,
+  version: number,
+  privateKey: PrivateKeySource
+): Promise<SignedCreditLimit> {
+  const payload: CreditLimitSignaturePayload = {
+    type: 'credit-limit',
+    userId,
+    issuerId,
+    unit,
+    limit,
+    version,
+    updatedAt: Date.now(),
+  };
+  const signature = await signJws(payload, privateKey);
+  return { limit, version, updatedAt: payload.updatedAt, signature };
+}
+
+/**
+ * Verify a stored entry against the public key of its user
+ */
+async function isSignedCreditLimit(
+  entry: SignedCreditLimit | undefined,
+  userId: string,
+  issuerId: string,
+  unit: string,
+  publicKey: string
+): Promise<boolean> {
+  if (typeof entry?.signature !== 'string') return false;
+
+  const result = await verifyJws(entry.signature, publicKey);
+  const payload = result.payload as Partial<CreditLimitSignaturePayload> | undefined;
+  return (
+    result.valid &&
+    payload?.type === 'credit-limit' &&
+    payload.userId === userId &&
+    payload.issuerId === issuerId &&
+    payload.unit === unit &&
+    payload.limit === entry.limit &&
+    payload.version === entry.version &&
+    payload.updatedAt === entry.updatedAt
+  );
+}
+
+/**
+ * Verify the stored credit limits against the did:key of each user
+ *
+ * A limit only counts if its user signed exactly this issuer, unit, limit,
+ * version and time. Entries copied from another user, issuer or unit are
+ * dropped. Of the stored and the previously seen entry, the one with the
+ * higher version wins, so neither deleting an entry nor writing back an
+ * older one brings back a limit the user has since changed.
+ *
+ * @param creditLimits - Stored limits of all users (user DID -> signed limits)
+ * @param seen - Newest entries seen before (see loadSeenCreditLimits)
+ * @returns Verified limits and the newest entries (to be remembered)
+ */
+export async function verifyCreditLimits(
+  creditLimits: Record<string, SignedCreditLimits> | undefined,
+  seen?: Record<string, SignedCreditLimits> | null
+): Promise<CreditLimitVerification> {
+  const verification: CreditLimitVerification = { limits: {}, newest: {} };
+
+  const userIds = new Set([...Object.keys(creditLimits ?? {}), ...Object.keys(seen ?? {})]);
+  for (const userId of userIds) {
+    if (!isValidDid(userId)) continue;
+    const publicKey = base64Encode(extractPublicKeyFromDid(userId));
+    const stored = creditLimits?.[userId] ?? {};
+    const remembered = seen?.[userId] ?? {};
+
+    for (const issuerId of new Set([...Object.keys(stored), ...Object.keys(remembered)])) {
+      const units = new Set([...Object.keys(stored[issuerId] ?? {}), ...Object.keys(remembered[issuerId] ?? {})]);
+      for (const unit of units) {
+        let newest: SignedCreditLimit | undefined;
+        for (const entry of [stored[issuerId]?.[unit], remembered[issuerId]?.[unit]]) {
+          if (newest && entry && entry.version <= newest.version) continue;
+          if (await isSignedCreditLimit(entry, userId, issuerId, unit, publicKey)) {
+            newest = entry;
+          }
+        }
+        if (!newest) continue;
+
+        if (!verification.newest[userId]) verification.newest[userId] = {};
+        if (!verification.newest[userId][issuerId]) verification.newest[userId][issuerId] = {};
+        verification.newest[userId][issuerId][unit] = { ...newest };
+
+        if (newest.limit === null) continue;
+        if (!verification.limits[userId]) verification.limits[userId] = {};
+        if (!verification.limits[userId][issuerId]) verification.limits[userId][issuerId] = {};
+        verification.limits[userId][issuerId][unit] = newest.limit;
+      }
+    }
+  }
+
+  return verification;
+}
+
+/**
+ * Get the newest credit limit entries seen in a workspace
+ */
+export function loadSeenCreditLimits(workspaceId: string): Record<string, SignedCreditLimits> | null {
+  try {
+    const stored = localStorage.getItem(SEEN_CREDIT_LIMITS_KEY);
+    return stored ? (JSON.parse(stored)[workspaceId] ?? null) : null;
+  } catch (error) {
+    console.error('Failed to load credit limits:', error);
+    return null;
+  }
+}
+
+/**
+ * Remember the newest credit limit entries seen in a workspace
+ */
+export function saveSeenCreditLimits(workspaceId: string, newest: Record<string, SignedCreditLimits>): void {
+  try {
+    const stored = localStorage.getItem(SEEN_CREDIT_LIMITS_KEY);
+    const all = stored ? JSON.parse(stored) : {};
+    all[workspaceId] = newest;
+    localStorage.setItem(SEEN_CREDIT_LIMITS_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.error('Failed to save credit limits:', error);
+  }
+}
+
+/**
+ * Get the credit limit a user set for an issuer
+ */
+export function getCreditLimit(
+  creditLimits: Record<string, CreditLimits> | undefined,
+  userId: string,
+  issuerId: string,
+  unit: string
+): number | undefined {
+  return creditLimits?.[userId]?.[issuerId]?.[unit];
+}
+
+/**
+ * Check whether a recipient accepts a voucher
+ *
+ * @param voucher - Issuer, unit and amount of the voucher
+ * @param isNew - The voucher is not issued yet (its amount adds to the outstanding amount)
+ * @param recipientId - DID of the recipient
+ * @param vouchers - All vouchers of the wallet
+ * @param validationResults - Validation results by voucher ID (only valid vouchers count)
+ * @param creditLimits - Verified credit limits of all users (see verifyCreditLimits)
+ * @param recipientTrustGiven - trustGiven of the recipient (if known; otherwise no trust warning)
+ */
+export function getVoucherAcceptance(
+  voucher: Pick<Voucher, 'issuerId' | 'unit' | 'amount'>,
+  isNew: boolean,
+  recipientId: string,
+  vouchers: Record<string, Voucher>,
+  validationResults: ReadonlyMap<string, ValidationResult>,
+  creditLimits: Record<string, CreditLimits> | undefined,
+  recipientTrustGiven?: Record<string, TrustAttestation>
+): VoucherAcceptance {
+  const outstanding =
+    (calculateOutstanding(vouchers, voucher.issuerId, validationResults)[voucher.unit] || 0) +
+    (isNew ? voucher.amount : 0);
+
+  // Returning a voucher to its issuer (redemption) is always possible
+  if (recipientId === voucher.issuerId) {
+    return { status: 'accepted', outstanding };
+  }
+
+  const limit = getCreditLimit(creditLimits, recipientId, voucher.issuerId, voucher.unit);
+  if (limit !== undefined) {
+    return {
+      status: outstanding > limit + AMOUNT_EPSILON ? 'over-limit' : 'accepted',
+      outstanding,
+      limit,
+    };
+  }
+
+  if (recipientTrustGiven) {
+    const attestation = recipientTrustGiven[voucher.issuerId];
+    if (!attestation || isAttestationExpired(attestation)) {
+      return { status: 'untrusted', outstanding };
+    }
+  }
+
+  return { status: 'accepted', outstanding };
+}
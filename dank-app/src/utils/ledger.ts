@@ -0,0 +1,338 @@
+/**
+ * Ledger - consolidated history of a user's voucher movements
+ *
+ * The ledger is derived from all vouchers: issuing, receiving, sending and
+ * redeeming (a voucher returning to its issuer, by transfer or at expiry).
+ * Splits move no value and don't appear. Amounts are the voucher's value
+ * at the time of the movement (decaying vouchers lose value over time).
+ *
+ * A ledger can be exported as CSV or as a signed JSON statement. The
+ * statement is a JWS over the entries, so a third party can verify it with
+ * verifyJws and the public key of the signer's DID (see verifyLedgerStatement).
+ */
+
+import { csvField, verifyJws, type IdentityProfile } from 'narrative-ui';
+import type { Voucher } from '../schema';
+import {
+  getExpiryBehavior,
+  getVoucherValue,
+  isVoucherExpired,
+  isVoucherIssuer,
+  isVoucherRedeemed,
+  roundAmount,
+} from '../schema';
+import { getPublicKey } from './voucherValidation';
+
+/**
+ * Kind of voucher movement
+ * - issued: the user issued a voucher to someone
+ * - received: the user received a voucher (issued to or transferred to them)
+ * - sent: the user transferred a voucher to someone
+ * - redeemed: a voucher returned to its issuer (holder and issuer both see it)
+ */
+export type LedgerEntryType = 'issued' | 'received' | 'sent' | 'redeemed';
+
+/**
+ * A single movement from the user's view
+ */
+export interface LedgerEntry {
+  /** Transfer ID, or derived ID for issuing and the return at expiry */
+  id: string;
+  type: LedgerEntryType;
+  /** Vouchers coming to the user are 'in', leaving the user 'out' */
+  direction: 'in' | 'out';
+  timestamp: number;
+  voucherId: string;
+  issuerId: string;
+  counterpartyId: string;
+  amount: number;
+  unit: string;
+  note?: string;
+}
+
+/**
+ * Filter of a ledger (all fields optional)
+ */
+export interface LedgerFilter {
+  counterpartyId?: string;
+  unit?: string;
+  /** Start of the period (inclusive, timestamp) */
+  from?: number;
+  /** End of the period (inclusive, timestamp) */
+  to?: number;
+}
+
+/**
+ * Sum of a ledger in one unit
+ */
+export interface LedgerTotal {
+  unit: string;
+  in: number;
+  out: number;
+}
+
+/**
+ * Format marker of signed ledger statements
+ */
+export const LEDGER_STATEMENT_FORMAT = 'dank-ledger-statement';
+
+/**
+ * Current version of the statement format
+ */
+export const LEDGER_STATEMENT_VERSION = 1;
+
+/**
+ * Content of a ledger statement (the signed JWS payload)
+ */
+export interface LedgerStatement {
+  format: typeof LEDGER_STATEMENT_FORMAT;
+  version: number;
+  /** DID of the user whose ledger it is (and who signed it) */
+  holderId: string;
+  createdAt: number;
+  filter: LedgerFilter;
+  entries: LedgerEntry[];
+}
+
+/**
+ * Exported statement file: readable statement plus its signature
+ */
+export interface SignedLedgerStatement {
+  statement: LedgerStatement;
+  /** JWS compact serialization, payload = statement */
+  jws: string;
+}
+
+/**
+ * Result of verifying a statement file
+ */
+export interface LedgerStatementVerification {
+  valid: boolean;
+  statement?: LedgerStatement;
+  error?: string;
+}
+
+/**
+ * Build the ledger of a user from all vouchers, newest first
+ */
+export function buildLedger(vouchers: Record<string, Voucher>, userId: string): LedgerEntry[] {
+  const entries: LedgerEntry[] = [];
+
+  const add = (
+    voucher: Voucher,
+    entry: Pick<LedgerEntry, 'id' | 'type' | 'direction' | 'timestamp' | 'counterpartyId'> & {
+      note?: string;
+    }
+  ) => {
+    const { note, ...movement } = entry;
+    const entryNote = note || voucher.note;
+    entries.push({
+      ...movement,
+      voucherId: voucher.id,
+      issuerId: voucher.issuerId,
+      amount: getVoucherValue(voucher, entry.timestamp),
+      unit: voucher.unit,
+      ...(entryNote ? { note: entryNote } : {}),
+    });
+  };
+
+  for (const voucher of Object.values(vouchers)) {
+    // Issuing (children of a split are no new vouchers)
+    if (!voucher.parentId && voucher.initialRecipientId !== voucher.issuerId) {
+      if (voucher.issuerId === userId) {
+        add(voucher, {
+          id: `issue-${voucher.id}`,
+          type: 'issued',
+          direction: 'out',
+          timestamp: voucher.createdAt,
+          counterpartyId: voucher.initialRecipientId,
+        });
+      } else if (voucher.initialRecipientId === userId) {
+        add(voucher, {
+          id: `issue-${voucher.id}`,
+          type: 'received',
+          direction: 'in',
+          timestamp: voucher.createdAt,
+          counterpartyId: voucher.issuerId,
+        });
+      }
+    }
+
+    for (const transfer of voucher.transfers) {
+      const isRedemption = isVoucherIssuer(voucher, transfer.toId);
+      if (transfer.fromId === userId) {
+        add(voucher, {
+          id: transfer.id,
+          type: isRedemption ? 'redeemed' : 'sent',
+          direction: 'out',
+          timestamp: transfer.timestamp,
+          counterpartyId: transfer.toId,
+          note: transfer.note,
+        });
+      } else if (transfer.toId === userId) {
+        add(voucher, {
+          id: transfer.id,
+          type: isRedemption ? 'redeemed' : 'received',
+          direction: 'in',
+          timestamp: transfer.timestamp,
+          counterpartyId: transfer.fromId,
+          note: transfer.note,
+        });
+      }
+    }
+
+    // Return to the issuer at expiry (no transfer)
+    const isReturned =
+      !voucher.split &&
+      voucher.status !== 'redeemed' &&
+      !isVoucherRedeemed(voucher) &&
+      getExpiryBehavior(voucher) === 'return' &&
+      isVoucherExpired(voucher);
+    if (isReturned && voucher.expiresAt) {
+      const isHolder = voucher.currentHolderId === userId;
+      if (isHolder || voucher.issuerId === userId) {
+        add(voucher, {
+          id: `return-${voucher.id}`,
+          type: 'redeemed',
+          direction: isHolder ? 'out' : 'in',
+          timestamp: voucher.expiresAt,
+          counterpartyId: isHolder ? voucher.issuerId : voucher.currentHolderId,
+        });
+      }
+    }
+  }
+
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Filter ledger entries by counterparty, unit and period
+ */
+export function filterLedger(entries: LedgerEntry[], filter: LedgerFilter): LedgerEntry[] {
+  return entries.filter(
+    (entry) =>
+      (!filter.counterpartyId || entry.counterpartyId === filter.counterpartyId) &&
+      (!filter.unit || entry.unit === filter.unit) &&
+      (filter.from === undefined || entry.timestamp >= filter.from) &&
+      (filter.to === undefined || entry.timestamp <= filter.to)
+  );
+}
+
+/**
+ * Sum ledger entries by unit
+ */
+export function calculateLedgerTotals(entries: LedgerEntry[]): LedgerTotal[] {
+  const totals = new Map<string, LedgerTotal>();
+
+  for (const entry of entries) {
+    const total = totals.get(entry.unit) ?? { unit: entry.unit, in: 0, out: 0 };
+    total[entry.direction] = roundAmount(total[entry.direction] + entry.amount);
+    totals.set(entry.unit, total);
+  }
+
+  return Array.from(totals.values());
+}
+
+/**
+ * German labels of the entry types
+ */
+export const LEDGER_ENTRY_LABELS: Record<LedgerEntryType, string> = {
+  issued: 'Ausgestellt',
+  received: 'Erhalten',
+  sent: 'Weitergegeben',
+  redeemed: 'Eingeloest',
+};
+
+/**
+ * Export ledger entries as CSV (comma separated, with header)
+ */
+export function ledgerToCsv(
+  entries: LedgerEntry[],
+  identities: Record<string, IdentityProfile>
+): string {
+  const header = [
+    'Datum',
+    'Art',
+    'Richtung',
+    'Betrag',
+    'Einheit',
+    'Gegenueber',
+    'Gegenueber-DID',
+    'Aussteller-DID',
+    'Gutschein-ID',
+    'Notiz',
+  ];
+
+  const rows = entries.map((entry) => [
+    new Date(entry.timestamp).toISOString(),
+    LEDGER_ENTRY_LABELS[entry.type],
+    entry.direction === 'in' ? 'Eingang' : 'Ausgang',
+    entry.direction === 'in' ? entry.amount : -entry.amount,
+    entry.unit,
+    identities[entry.counterpartyId]?.displayName ?? '',
+    entry.counterpartyId,
+    entry.issuerId,
+    entry.voucherId,
+    entry.note ?? '',
+  ]);
+
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\n');
+}
+
+/**
+ * Build the statement content (to be signed by the holder)
+ */
+export function createLedgerStatement(
+  entries: LedgerEntry[],
+  holderId: string,
+  filter: LedgerFilter
+): LedgerStatement {
+  return {
+    format: LEDGER_STATEMENT_FORMAT,
+    version: LEDGER_STATEMENT_VERSION,
+    holderId,
+    createdAt: Date.now(),
+    filter,
+    entries,
+  };
+}
+
+/**
+ * Verify a signed ledger statement
+ * The public key comes from the holder's did:key (or the given profiles).
+ *
+ * @param file - Parsed statement file
+ * @param identities - Known profiles with public keys (optional)
+ */
+export async function verifyLedgerStatement(
+  file: unknown,
+  identities: Record<string, IdentityProfile> = {}
+): Promise<LedgerStatementVerification> {
+  const signed = file as Partial<SignedLedgerStatement> | null;
+  const statement = signed?.statement;
+  if (
+    !signed ||
+    typeof signed.jws !== 'string' ||
+    statement?.format !== LEDGER_STATEMENT_FORMAT ||
+    typeof statement.holderId !== 'string'
+  ) {
+    return { valid: false, error: 'Kein Dank-Kontoauszug' };
+  }
+
+  const publicKey = getPublicKey(statement.holderId, identities);
+  if (!publicKey) {
+    return { valid: false, statement, error: 'Oeffentlicher Schluessel des Ausstellers unbekannt' };
+  }
+
+  const result = await verifyJws(signed.jws, publicKey);
+  if (!result.valid) {
+    return { valid: false, statement, error: 'Signatur ungueltig' };
+  }
+
+  // The readable statement must be exactly what was signed
+  if (JSON.stringify(result.payload) !== JSON.stringify(statement)) {
+    return { valid: false, statement, error: 'Inhalt weicht von der Signatur ab' };
+  }
+
+  return { valid: true, statement };
+}
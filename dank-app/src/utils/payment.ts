@@ -0,0 +1,136 @@
+/**
+ * Voucher payment - pay an amount with held vouchers
+ *
+ * Picks active vouchers of the payer in the requested unit. A single voucher
+ * with the exact amount is used if available; otherwise the largest vouchers
+ * are taken until the amount is covered, and the last one is split so that
+ * exactly the amount is paid (the change stays with the payer).
+ *
+ * Amounts are compared by current value, so decaying vouchers count with
+ * what they are still worth; the split amount is converted back to the
+ * voucher's nominal amount.
+ *
+ * A payment recorded elsewhere (e.g. on a market listing) only lists the
+ * transfer IDs; it is verified against the vouchers before it is trusted.
+ * Its transfers carry a signed reference to what they pay, so the same
+ * transfers can't be claimed for something else.
+ */
+
+import type { IdentityProfile } from 'narrative-ui';
+import { getVoucherValue, roundAmount, type Voucher } from '../schema';
+import { verifyVoucher } from './voucherValidation';
+
+/**
+ * Tolerance for decimal amounts
+ */
+const AMOUNT_EPSILON = 1e-9;
+
+/**
+ * Vouchers used for a payment
+ */
+export interface PaymentPlan {
+  /** Vouchers transferred completely */
+  vouchers: Voucher[];
+  /** Voucher to split first; its payment part (nominal amount) is transferred */
+  split?: { voucher: Voucher; paymentAmount: number };
+}
+
+/**
+ * A payment claimed by its payer, referencing the transfers that paid it
+ */
+export interface VoucherPaymentClaim {
+  payerId: string;
+  payeeId: string;
+  amount: number;
+  unit: string;
+  transferIds: string[];
+  /** What was paid (e.g. a listing ID); every transfer must carry it */
+  reference?: string;
+  /** Transfers before this time (e.g. the listing's creation) don't count */
+  notBefore?: number;
+}
+
+/**
+ * Plan a payment from the given vouchers
+ *
+ * @param candidates - Active vouchers of the payer in the payment unit
+ * @param amount - Amount to pay
+ * @param getValue - Current value of a voucher (default: its amount)
+ * @returns The plan, or null if the vouchers don't cover the amount
+ */
+export function planVoucherPayment(
+  candidates: Voucher[],
+  amount: number,
+  getValue: (voucher: Voucher) => number = (voucher) => voucher.amount
+): PaymentPlan | null {
+  if (!(amount > 0)) return null;
+
+  const valued = candidates
+    .map((voucher) => ({ voucher, value: getValue(voucher) }))
+    .filter(({ value }) => value > 0);
+
+  const exact = valued.find(({ value }) => Math.abs(value - amount) < AMOUNT_EPSILON);
+  if (exact) {
+    return { vouchers: [exact.voucher] };
+  }
+
+  const sorted = valued.sort(
+    (a, b) => b.value - a.value || a.voucher.createdAt - b.voucher.createdAt
+  );
+  const vouchers: Voucher[] = [];
+  let covered = 0;
+
+  for (const { voucher, value } of sorted) {
+    const remaining = roundAmount(amount - covered);
+    if (value > remaining + AMOUNT_EPSILON) {
+      const paymentAmount = roundAmount((remaining * voucher.amount) / value);
+      return { vouchers, split: { voucher, paymentAmount } };
+    }
+
+    vouchers.push(voucher);
+    covered = roundAmount(covered + value);
+    if (covered >= amount - AMOUNT_EPSILON) {
+      return { vouchers };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Verify a claimed payment against the vouchers
+ *
+ * Every transfer must exist, be validly signed in an undisputed voucher of
+ * the payment unit, go from the payer to the payee, carry the claim's
+ * reference and not be older than notBefore. The transfers must together be
+ * worth the amount (valued at the time of transfer).
+ *
+ * @returns Whether the payment is backed by the vouchers
+ */
+export async function verifyVoucherPayment(
+  claim: VoucherPaymentClaim,
+  vouchers: Record<string, Voucher>,
+  identities: Record<string, IdentityProfile>
+): Promise<boolean> {
+  if (!(claim.amount > 0) || claim.transferIds.length === 0) return false;
+  if (new Set(claim.transferIds).size !== claim.transferIds.length) return false;
+
+  let paid = 0;
+  for (const transferId of claim.transferIds) {
+    const voucher = Object.values(vouchers).find((v) => v.transfers.some((t) => t.id === transferId));
+    if (!voucher || voucher.unit !== claim.unit) return false;
+
+    const index = voucher.transfers.findIndex((t) => t.id === transferId);
+    const transfer = voucher.transfers[index];
+    if (transfer.fromId !== claim.payerId || transfer.toId !== claim.payeeId) return false;
+    if (transfer.reference !== claim.reference) return false;
+    if (claim.notBefore !== undefined && transfer.timestamp < claim.notBefore) return false;
+
+    const result = await verifyVoucher(voucher, identities, vouchers);
+    if (result.dispute || result.transferSignatureStatuses[index] !== 'valid') return false;
+
+    paid = roundAmount(paid + getVoucherValue(voucher, transfer.timestamp));
+  }
+
+  return paid >= claim.amount - AMOUNT_EPSILON;
+}
@@ -0,0 +1,53 @@
+/**
+ * Personal vouchers - vouchers kept in the own UserDocument
+ *
+ * A holder can move vouchers out of a Dank workspace into their personal
+ * UserDocument and transfer them from there to users they trust, in any
+ * workspace: the signed transfer is written into the recipient's
+ * UserDocument, whose URL is known from the trust attestations. The voucher
+ * keeps its signature chain; ancestors of split vouchers travel along, so
+ * the chain can be validated wherever the voucher is stored.
+ */
+
+import { isAttestationExpired, type UserDocument } from 'narrative-ui';
+import type { Voucher } from '../schema';
+
+/**
+ * URL of the UserDocument of a trusted user
+ * Only users the current user trusts (valid attestation) can receive vouchers.
+ */
+export function getTrustedUserDocUrl(
+  userDoc: Pick<UserDocument, 'trustGiven' | 'trustReceived'>,
+  did: string
+): string | undefined {
+  const attestation = userDoc.trustGiven[did];
+  if (!attestation || isAttestationExpired(attestation)) return undefined;
+
+  return attestation.trusteeUserDocUrl ?? userDoc.trustReceived[did]?.trusterUserDocUrl;
+}
+
+/**
+ * Trusted users that can receive personal vouchers
+ */
+export function getPersonalVoucherRecipients(
+  userDoc: Pick<UserDocument, 'trustGiven' | 'trustReceived'>
+): string[] {
+  return Object.keys(userDoc.trustGiven).filter((did) => !!getTrustedUserDocUrl(userDoc, did));
+}
+
+/**
+ * All vouchers of a wallet: workspace and personal vouchers by ID
+ * A voucher moved out of the workspace continues in the UserDocument, so its
+ * personal copy replaces the workspace copy (which ends at the move).
+ */
+export function mergeWalletVouchers(
+  workspaceVouchers: Record<string, Voucher>,
+  personalVouchers: Record<string, Voucher> = {}
+): Record<string, Voucher> {
+  const merged: Record<string, Voucher> = { ...personalVouchers };
+  for (const [id, voucher] of Object.entries(workspaceVouchers)) {
+    if (voucher.movedOut && personalVouchers[id]) continue;
+    merged[id] = voucher;
+  }
+  return merged;
+}
@@ -0,0 +1,375 @@
+/**
+ * Offline voucher transfer via QR code
+ *
+ * The sender signs the transfer as usual and hands over the complete voucher
+ * (issuer signature and all transfers) as a self-contained package. The
+ * package is split into parts that fit into one QR code each; several parts
+ * are shown as animated QR code. The recipient collects the parts in the QR
+ * scanner, verifies the chain (see verifyVoucher) and imports the voucher
+ * into their own wallet document - no shared workspace or network needed.
+ */
+
+import { base64Decode, base64Encode, type IdentityProfile } from 'narrative-ui';
+import type { SplitPart, Transfer, Voucher, VoucherDispute, VoucherSplit } from '../schema';
+import {
+  EXPIRY_BEHAVIORS,
+  getChainTip,
+  getIssuerIds,
+  getVoucherStatus,
+  isVoucherExpired,
+  isVoucherPending,
+  isVoucherRedeemed,
+} from '../schema';
+
+/**
+ * Format marker of transfer packages
+ */
+export const TRANSFER_PACKAGE_FORMAT = 'dank-voucher-transfer';
+
+/**
+ * Current version of the transfer package format
+ */
+export const TRANSFER_PACKAGE_VERSION = 1;
+
+/**
+ * Prefix of QR codes containing a transfer package part
+ * Format: dank://voucher/{packageId}/{part}/{total}/{base64 data}
+ */
+export const TRANSFER_QR_PREFIX = 'dank://voucher/';
+
+/**
+ * Package characters per QR code (small enough to scan from a phone screen)
+ */
+export const TRANSFER_QR_PART_SIZE = 600;
+
+const TRANSFER_QR_PATTERN = /^dank:\/\/voucher\/([a-z0-9]+)\/(\d+)\/(\d+)\/([A-Za-z0-9+/=]+)$/;
+
+/**
+ * Self-contained voucher with its full signature chain
+ */
+export interface VoucherTransferPackage {
+  format: typeof TRANSFER_PACKAGE_FORMAT;
+  version: number;
+  voucher: Voucher;
+  /** Parent vouchers of a split voucher (its provenance), nearest first */
+  ancestors: Voucher[];
+  /** Display names of the chain participants (public keys are never taken from a package) */
+  profiles: Record<string, { displayName: string }>;
+}
+
+/**
+ * QR code parts scanned so far
+ */
+export interface TransferPackageParts {
+  packageId: string;
+  total: number;
+  /** Part number (1-based) -> data */
+  parts: Record<number, string>;
+}
+
+/**
+ * Parent vouchers of a split voucher (its provenance), nearest first
+ */
+export function getVoucherAncestors(voucher: Voucher, vouchers: Record<string, Voucher>): Voucher[] {
+  const ancestors: Voucher[] = [];
+  let parent = voucher.parentId ? vouchers[voucher.parentId] : undefined;
+  while (parent && !ancestors.includes(parent)) {
+    ancestors.push(parent);
+    parent = parent.parentId ? vouchers[parent.parentId] : undefined;
+  }
+  return ancestors;
+}
+
+/**
+ * Create a transfer package for a voucher
+ *
+ * @param voucher - Voucher including the transfer to the recipient
+ * @param identities - Workspace profiles (for the participants' names)
+ * @param vouchers - All vouchers of the wallet (for the ancestors of split vouchers)
+ */
+export function createTransferPackage(
+  voucher: Voucher,
+  identities: Record<string, IdentityProfile>,
+  vouchers: Record<string, Voucher> = {}
+): VoucherTransferPackage {
+  const ancestors = getVoucherAncestors(voucher, vouchers);
+
+  const participants = new Set(
+    [voucher, ...ancestors].flatMap((v) => [
+      ...getIssuerIds(v),
+      v.initialRecipientId,
+      ...v.transfers.flatMap((t) => [t.fromId, t.toId]),
+    ])
+  );
+
+  const profiles: Record<string, { displayName: string }> = {};
+  for (const did of participants) {
+    const displayName = identities[did]?.displayName;
+    if (displayName) {
+      profiles[did] = { displayName };
+    }
+  }
+
+  return {
+    format: TRANSFER_PACKAGE_FORMAT,
+    version: TRANSFER_PACKAGE_VERSION,
+    voucher,
+    ancestors,
+    profiles,
+  };
+}
+
+/**
+ * Split a transfer package into QR code contents
+ */
+export function encodeTransferPackage(pkg: VoucherTransferPackage): string[] {
+  const data = base64Encode(new TextEncoder().encode(JSON.stringify(pkg)));
+  const packageId = Math.random().toString(36).substring(2, 10);
+  const total = Math.max(1, Math.ceil(data.length / TRANSFER_QR_PART_SIZE));
+
+  return Array.from({ length: total }, (_, index) => {
+    const part = data.slice(index * TRANSFER_QR_PART_SIZE, (index + 1) * TRANSFER_QR_PART_SIZE);
+    return `${TRANSFER_QR_PREFIX}${packageId}/${index + 1}/${total}/${part}`;
+  });
+}
+
+/**
+ * Add a scanned QR code to the parts collected so far
+ * A part of another package starts a new collection.
+ *
+ * @returns Updated parts, or null if the code is no transfer package part
+ */
+export function collectTransferPackagePart(
+  collected: TransferPackageParts | null,
+  decodedText: string
+): TransferPackageParts | null {
+  const match = decodedText.match(TRANSFER_QR_PATTERN);
+  if (!match) return null;
+
+  const [, packageId, partText, totalText, data] = match;
+  const part = Number(partText);
+  const total = Number(totalText);
+  if (part < 1 || part > total) return null;
+
+  const base =
+    collected?.packageId === packageId && collected.total === total
+      ? collected
+      : { packageId, total, parts: {} };
+  return { ...base, parts: { ...base.parts, [part]: data } };
+}
+
+/**
+ * Number of different parts collected
+ */
+export function countTransferPackageParts(collected: TransferPackageParts): number {
+  return Object.keys(collected.parts).length;
+}
+
+function isTransfer(value: unknown): value is Transfer {
+  const t = value as Partial<Transfer> | null;
+  return (
+    typeof t === 'object' &&
+    t !== null &&
+    typeof t.id === 'string' &&
+    typeof t.voucherId === 'string' &&
+    typeof t.fromId === 'string' &&
+    typeof t.toId === 'string' &&
+    typeof t.timestamp === 'number' &&
+    typeof t.signature === 'string'
+  );
+}
+
+function isSplitPart(value: unknown): value is SplitPart {
+  const part = value as Partial<SplitPart> | null;
+  return typeof part === 'object' && part !== null && typeof part.id === 'string' && typeof part.amount === 'number';
+}
+
+function isVoucherSplit(value: unknown): value is VoucherSplit {
+  const split = value as Partial<VoucherSplit> | null;
+  return (
+    typeof split === 'object' &&
+    split !== null &&
+    typeof split.id === 'string' &&
+    typeof split.holderId === 'string' &&
+    typeof split.timestamp === 'number' &&
+    typeof split.signature === 'string' &&
+    Array.isArray(split.children) &&
+    split.children.every(isSplitPart)
+  );
+}
+
+function isVoucher(value: unknown): value is Voucher {
+  const v = value as Partial<Voucher> | null;
+  return (
+    typeof v === 'object' &&
+    v !== null &&
+    typeof v.id === 'string' &&
+    typeof v.issuerId === 'string' &&
+    typeof v.amount === 'number' &&
+    typeof v.unit === 'string' &&
+    typeof v.createdAt === 'number' &&
+    typeof v.initialRecipientId === 'string' &&
+    typeof v.currentHolderId === 'string' &&
+    typeof v.issuerSignature === 'string' &&
+    Array.isArray(v.transfers) &&
+    v.transfers.every(isTransfer) &&
+    (v.split === undefined || isVoucherSplit(v.split)) &&
+    (v.expiryBehavior === undefined || EXPIRY_BEHAVIORS.includes(v.expiryBehavior)) &&
+    (v.issuedAt === undefined || typeof v.issuedAt === 'number') &&
+    (v.issuerIds === undefined ||
+      (Array.isArray(v.issuerIds) && v.issuerIds.every((id) => typeof id === 'string'))) &&
+    (v.issuerThreshold === undefined || typeof v.issuerThreshold === 'number') &&
+    (v.coIssuerSignatures === undefined ||
+      (typeof v.coIssuerSignatures === 'object' &&
+        v.coIssuerSignatures !== null &&
+        Object.values(v.coIssuerSignatures).every((s) => typeof s === 'string')))
+  );
+}
+
+/**
+ * Decode a completely scanned transfer package
+ *
+ * @throws Error if parts are missing or the content is no transfer package
+ */
+export function decodeTransferPackage(collected: TransferPackageParts): VoucherTransferPackage {
+  if (countTransferPackageParts(collected) < collected.total) {
+    throw new Error('Es fehlen noch Teile des Gutschein-Codes');
+  }
+
+  let pkg: Partial<VoucherTransferPackage>;
+  try {
+    const data = Array.from({ length: collected.total }, (_, index) => collected.parts[index + 1]).join('');
+    pkg = JSON.parse(new TextDecoder().decode(base64Decode(data)));
+  } catch {
+    throw new Error('Ungueltiger Gutschein-Code');
+  }
+
+  const ancestors = pkg?.ancestors ?? [];
+  if (
+    pkg?.format !== TRANSFER_PACKAGE_FORMAT ||
+    !isVoucher(pkg.voucher) ||
+    !Array.isArray(ancestors) ||
+    !ancestors.every(isVoucher)
+  ) {
+    throw new Error('Ungueltiger Gutschein-Code');
+  }
+  if (pkg.version !== TRANSFER_PACKAGE_VERSION) {
+    throw new Error(`Unbekannte Version des Gutschein-Codes: ${pkg.version}`);
+  }
+
+  return {
+    format: TRANSFER_PACKAGE_FORMAT,
+    version: pkg.version,
+    voucher: pkg.voucher,
+    ancestors,
+    profiles: typeof pkg.profiles === 'object' && pkg.profiles !== null ? pkg.profiles : {},
+  };
+}
+
+/**
+ * Vouchers to verify a package against: the own wallet plus the package ancestors
+ * An ancestor from the package replaces the own copy unless that one is split already.
+ */
+export function getPackageLineage(
+  pkg: VoucherTransferPackage,
+  vouchers: Record<string, Voucher>
+): Record<string, Voucher> {
+  const lineage = { ...vouchers };
+  for (const ancestor of pkg.ancestors) {
+    if (!lineage[ancestor.id]?.split) {
+      lineage[ancestor.id] = ancestor;
+    }
+  }
+  return lineage;
+}
+
+/**
+ * Check that a received voucher was handed over to the recipient
+ * Signatures are checked separately (verifyVoucher).
+ *
+ * @param dispute - Verified double spend (ValidationResult.dispute)
+ * @returns Reason why the voucher can't be accepted, or null
+ */
+export function getTransferPackageProblem(
+  voucher: Voucher,
+  recipientId: string,
+  dispute?: VoucherDispute
+): string | null {
+  const chainHolderId = getChainTip(voucher).holderId;
+
+  if (chainHolderId !== recipientId || voucher.currentHolderId !== recipientId) {
+    return 'Dieser Gutschein wurde nicht an dich weitergegeben';
+  }
+
+  if (getVoucherStatus(voucher, dispute) === 'disputed') {
+    return 'Der Gutschein wurde doppelt weitergegeben';
+  }
+  if (isVoucherExpired(voucher)) {
+    return 'Der Gutschein ist abgelaufen';
+  }
+  if (isVoucherPending(voucher)) {
+    return 'Der Gutschein ist noch nicht von genug Ausstellern unterschrieben';
+  }
+  return null;
+}
+
+/**
+ * Copy a received voucher for storage (only known fields, no undefined values)
+ */
+export function toStoredVoucher(voucher: Voucher): Voucher {
+  const isRedeemed = !voucher.split && isVoucherRedeemed(voucher);
+  const lastTransfer = voucher.transfers[voucher.transfers.length - 1];
+
+  return {
+    id: voucher.id,
+    issuerId: voucher.issuerId,
+    amount: voucher.amount,
+    unit: voucher.unit,
+    createdAt: voucher.createdAt,
+    initialRecipientId: voucher.initialRecipientId,
+    currentHolderId: voucher.currentHolderId,
+    status: voucher.split ? 'split' : isRedeemed ? 'redeemed' : 'active',
+    issuerSignature: voucher.issuerSignature,
+    transfers: voucher.transfers.map(toStoredTransfer),
+    ...(voucher.note ? { note: voucher.note } : {}),
+    ...(voucher.expiresAt ? { expiresAt: voucher.expiresAt } : {}),
+    ...(voucher.expiryBehavior ? { expiryBehavior: voucher.expiryBehavior } : {}),
+    ...(voucher.issuedAt ? { issuedAt: voucher.issuedAt } : {}),
+    ...(voucher.issuerIds ? { issuerIds: [...voucher.issuerIds] } : {}),
+    ...(voucher.issuerThreshold ? { issuerThreshold: voucher.issuerThreshold } : {}),
+    ...(voucher.coIssuerSignatures ? { coIssuerSignatures: { ...voucher.coIssuerSignatures } } : {}),
+    ...(isRedeemed ? { redeemedAt: lastTransfer?.timestamp ?? voucher.createdAt } : {}),
+    ...(voucher.split ? { split: toStoredSplit(voucher.split) } : {}),
+    ...(voucher.parentId ? { parentId: voucher.parentId } : {}),
+    ...(voucher.splitSignature ? { splitSignature: voucher.splitSignature } : {}),
+  };
+}
+
+/**
+ * Copy a received split for storage (only known fields)
+ */
+function toStoredSplit(split: VoucherSplit): VoucherSplit {
+  return {
+    id: split.id,
+    holderId: split.holderId,
+    timestamp: split.timestamp,
+    children: split.children.map((child) => ({ id: child.id, amount: child.amount })),
+    signature: split.signature,
+  };
+}
+
+/**
+ * Copy a received transfer for storage (only known fields, no undefined values)
+ */
+export function toStoredTransfer(transfer: Transfer): Transfer {
+  return {
+    id: transfer.id,
+    voucherId: transfer.voucherId,
+    fromId: transfer.fromId,
+    toId: transfer.toId,
+    timestamp: transfer.timestamp,
+    signature: transfer.signature,
+    ...(transfer.note ? { note: transfer.note } : {}),
+    ...(transfer.reference ? { reference: transfer.reference } : {}),
+  };
+}
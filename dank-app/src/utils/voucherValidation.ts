@@ -0,0 +1,470 @@
+/**
+ * Voucher validation - verify the signature chain of a voucher
+ *
+ * Used for vouchers in the wallet document (useDankWallet) and for vouchers
+ * received offline as transfer package (see transferPackage).
+ */
+
+import {
+  verifyJws,
+  base64Encode,
+  extractPublicKeyFromDid,
+  isValidDid,
+  type IdentityProfile,
+} from 'narrative-ui';
+import type {
+  IssuerSignaturePayload,
+  SignatureStatus,
+  ValidationResult,
+  Voucher,
+  VoucherChainLink,
+  VoucherDispute,
+} from '../schema';
+import {
+  decodeMovePayload,
+  decodeSplitPayload,
+  decodeTransferPayload,
+  getChainLinks,
+  getIssuedAt,
+  getIssuerSignatures,
+  getIssuerThreshold,
+  walkVoucherChain,
+} from '../schema';
+
+/**
+ * Get the public key of a DID (extracted from did:key, else the stored profile key)
+ * A key written into the identities by someone else must not override the DID.
+ */
+export function getPublicKey(
+  did: string,
+  identities: Record<string, IdentityProfile>
+): string | undefined {
+  if (isValidDid(did)) {
+    return base64Encode(extractPublicKeyFromDid(did));
+  }
+  return identities[did]?.publicKey;
+}
+
+/**
+ * Check that the issuer signed exactly the stored voucher fields
+ */
+function matchesIssuerPayload(voucher: Voucher, payload: unknown): boolean {
+  const signed = payload as Partial<IssuerSignaturePayload> | undefined;
+  return (
+    !!signed &&
+    signed.id === voucher.id &&
+    signed.issuerId === voucher.issuerId &&
+    signed.amount === voucher.amount &&
+    signed.unit === voucher.unit &&
+    signed.createdAt === voucher.createdAt &&
+    signed.initialRecipientId === voucher.initialRecipientId &&
+    signed.expiresAt === voucher.expiresAt &&
+    signed.expiryBehavior === voucher.expiryBehavior &&
+    JSON.stringify(signed.issuerIds) === JSON.stringify(voucher.issuerIds) &&
+    signed.issuerThreshold === voucher.issuerThreshold
+  );
+}
+
+/**
+ * Check the issuer set of a group voucher: creating issuer first, no
+ * duplicates, a threshold between 1 and the number of issuers
+ */
+function isValidIssuerGroup(voucher: Voucher): boolean {
+  const issuerIds = voucher.issuerIds;
+  if (!issuerIds) return voucher.issuerThreshold === undefined;
+
+  const threshold = getIssuerThreshold(voucher);
+  return (
+    issuerIds[0] === voucher.issuerId &&
+    new Set(issuerIds).size === issuerIds.length &&
+    Number.isInteger(threshold) &&
+    threshold >= 1 &&
+    threshold <= issuerIds.length
+  );
+}
+
+/**
+ * Verify the issuer signatures of a group voucher
+ * Every signature must be by a group member over the issuer payload; the
+ * voucher is only valid once the threshold of valid signatures is met.
+ */
+async function verifyIssuerGroup(
+  voucher: Voucher,
+  identities: Record<string, IdentityProfile>
+): Promise<{ status: SignatureStatus; validCount: number }> {
+  const issuerIds = voucher.issuerIds ?? [];
+  let validCount = 0;
+  let unknownCount = 0;
+
+  if (!isValidIssuerGroup(voucher)) {
+    return { status: 'invalid', validCount };
+  }
+
+  for (const { issuerId, signature } of getIssuerSignatures(voucher)) {
+    if (!issuerIds.includes(issuerId)) {
+      return { status: 'invalid', validCount };
+    }
+
+    const issuerKey = getPublicKey(issuerId, identities);
+    if (!issuerKey) {
+      unknownCount += 1;
+      continue;
+    }
+
+    const issuerResult = await verifyJws(signature, issuerKey);
+    if (!issuerResult.valid || !matchesIssuerPayload(voucher, issuerResult.payload)) {
+      return { status: 'invalid', validCount };
+    }
+    validCount += 1;
+  }
+
+  const threshold = getIssuerThreshold(voucher);
+  if (validCount >= threshold) return { status: 'valid', validCount };
+  // Signatures of unknown issuers might still make up the threshold
+  return { status: validCount + unknownCount >= threshold ? 'unknown' : 'invalid', validCount };
+}
+
+/**
+ * Verify the split of a voucher: signed by its holder, two positive parts
+ * adding up to the voucher amount (that the holder held the voucher at that
+ * point is checked with the transfer chain)
+ */
+async function verifySplit(
+  voucher: Voucher,
+  identities: Record<string, IdentityProfile>
+): Promise<SignatureStatus> {
+  const split = voucher.split;
+  if (!split) return 'unknown';
+
+  const holderKey = getPublicKey(split.holderId, identities);
+  if (!holderKey) return 'unknown';
+
+  const splitResult = await verifyJws(split.signature, holderKey);
+  const payload = decodeSplitPayload(split);
+  const total = split.children.reduce((sum, child) => sum + child.amount, 0);
+  const isConsistent =
+    !!payload &&
+    payload.voucherId === voucher.id &&
+    payload.holderId === split.holderId &&
+    payload.timestamp === split.timestamp &&
+    JSON.stringify(payload.children) === JSON.stringify(split.children) &&
+    split.children.length === 2 &&
+    split.children.every((child) => child.amount > 0) &&
+    // Tolerance for decimal amounts
+    Math.abs(total - voucher.amount) < 1e-9;
+
+  return splitResult.valid && isConsistent ? 'valid' : 'invalid';
+}
+
+/**
+ * Verify the move of a voucher out of the workspace: signed by its holder
+ * (that the holder held the voucher at that point is checked with the
+ * transfer chain)
+ */
+async function verifyMove(
+  voucher: Voucher,
+  identities: Record<string, IdentityProfile>
+): Promise<SignatureStatus> {
+  const move = voucher.movedOut;
+  if (!move) return 'unknown';
+
+  const holderKey = getPublicKey(move.holderId, identities);
+  if (!holderKey) return 'unknown';
+
+  const moveResult = await verifyJws(move.signature, holderKey);
+  const payload = decodeMovePayload(move);
+  const isConsistent =
+    !!payload &&
+    payload.voucherId === voucher.id &&
+    payload.holderId === move.holderId &&
+    payload.timestamp === move.timestamp;
+
+  return moveResult.valid && isConsistent ? 'valid' : 'invalid';
+}
+
+/**
+ * Further splits of a voucher, only known from their children
+ * Only one split survives in the parent (last writer wins), but the children
+ * of every split are kept. Returns the splits with a valid signature of
+ * their holder as chain links (a child ID as link ID).
+ */
+async function verifyOtherSplits(
+  voucher: Voucher,
+  identities: Record<string, IdentityProfile>,
+  vouchers: Record<string, Voucher>
+): Promise<VoucherChainLink[]> {
+  const links: VoucherChainLink[] = [];
+  const seenSignatures = new Set(voucher.split ? [voucher.split.signature] : []);
+
+  for (const child of Object.values(vouchers)) {
+    const signature = child.splitSignature;
+    if (child.parentId !== voucher.id || !signature || seenSignatures.has(signature)) continue;
+    seenSignatures.add(signature);
+
+    const payload = decodeSplitPayload({ signature });
+    const holderKey = payload ? getPublicKey(payload.holderId, identities) : undefined;
+    if (!payload || payload.voucherId !== voucher.id || !holderKey) continue;
+    if (!(await verifyJws(signature, holderKey)).valid) continue;
+
+    links.push({
+      id: child.id,
+      signature,
+      fromId: payload.holderId,
+      previousSignature: payload.previousSignature,
+    });
+  }
+
+  return links;
+}
+
+/**
+ * Verify that a child voucher was created by the split of a valid parent
+ * A double spend of an ancestor is passed on to the child.
+ */
+async function verifyProvenance(
+  voucher: Voucher,
+  identities: Record<string, IdentityProfile>,
+  vouchers: Record<string, Voucher>,
+  visited: Set<string>
+): Promise<{ status: SignatureStatus; dispute?: VoucherDispute }> {
+  const parent = voucher.parentId ? vouchers[voucher.parentId] : undefined;
+  if (!parent || visited.has(parent.id)) return { status: 'unknown' };
+
+  const parentResult = await verifyVoucherChain(parent, identities, vouchers, visited);
+  const dispute = parentResult.dispute;
+  if (parentResult.overallStatus !== 'valid') {
+    return { status: parentResult.overallStatus, ...(dispute ? { dispute } : {}) };
+  }
+
+  const split = parent.split;
+  const part = split?.children.find((child) => child.id === voucher.id);
+  const isChild =
+    !!split &&
+    !!part &&
+    split.signature === voucher.splitSignature &&
+    part.amount === voucher.amount &&
+    voucher.issuerId === parent.issuerId &&
+    voucher.issuerSignature === parent.issuerSignature &&
+    voucher.unit === parent.unit &&
+    voucher.expiresAt === parent.expiresAt &&
+    voucher.expiryBehavior === parent.expiryBehavior &&
+    JSON.stringify(voucher.issuerIds) === JSON.stringify(parent.issuerIds) &&
+    voucher.issuerThreshold === parent.issuerThreshold &&
+    !voucher.coIssuerSignatures &&
+    // Decay runs from the issue time of the original voucher
+    (voucher.expiryBehavior !== 'decay' || getIssuedAt(voucher) === getIssuedAt(parent)) &&
+    voucher.initialRecipientId === split.holderId &&
+    voucher.createdAt === split.timestamp;
+
+  return { status: isChild ? 'valid' : 'invalid', ...(dispute ? { dispute } : {}) };
+}
+
+/**
+ * Verify the issuer signature and transfer chain of a voucher
+ * Child vouchers of a split are verified via their parent chain.
+ *
+ * @param voucher - Voucher to verify
+ * @param identities - Known profiles (public keys); did:key DIDs work without
+ * @param vouchers - All known vouchers (ancestors of child vouchers)
+ */
+export async function verifyVoucher(
+  voucher: Voucher,
+  identities: Record<string, IdentityProfile>,
+  vouchers: Record<string, Voucher> = {}
+): Promise<ValidationResult> {
+  return verifyVoucherChain(voucher, identities, vouchers, new Set());
+}
+
+async function verifyVoucherChain(
+  voucher: Voucher,
+  identities: Record<string, IdentityProfile>,
+  vouchers: Record<string, Voucher>,
+  visited: Set<string>
+): Promise<ValidationResult> {
+  visited.add(voucher.id);
+
+  const result: ValidationResult = {
+    voucherId: voucher.id,
+    issuerSignatureStatus: 'unknown',
+    transferSignatureStatuses: [],
+    overallStatus: 'unknown',
+    lastValidated: Date.now(),
+  };
+
+  try {
+    const issuerKey = voucher.parentId ? undefined : getPublicKey(voucher.issuerId, identities);
+    let lineageDispute: VoucherDispute | undefined;
+    if (voucher.parentId) {
+      const provenance = await verifyProvenance(voucher, identities, vouchers, visited);
+      result.issuerSignatureStatus = provenance.status;
+      lineageDispute = provenance.dispute;
+    } else if (voucher.issuerIds) {
+      const group = await verifyIssuerGroup(voucher, identities);
+      result.issuerSignatureStatus = group.status;
+      result.issuerSignatureCount = getIssuerSignatures(voucher).length;
+      result.validIssuerSignatures = group.validCount;
+    } else if (voucher.coIssuerSignatures || voucher.issuerThreshold !== undefined) {
+      // Co-signatures without an issuer set
+      result.issuerSignatureStatus = 'invalid';
+    } else if (issuerKey) {
+      const issuerResult = await verifyJws(voucher.issuerSignature, issuerKey);
+      result.issuerSignatureStatus =
+        issuerResult.valid && matchesIssuerPayload(voucher, issuerResult.payload)
+          ? 'valid'
+          : 'invalid';
+    }
+
+    // Verify each transfer: signed by its sender over exactly the stored fields
+    for (const transfer of voucher.transfers) {
+      let transferStatus: SignatureStatus = 'unknown';
+
+      try {
+        const senderKey = getPublicKey(transfer.fromId, identities);
+        if (senderKey) {
+          const transferResult = await verifyJws(transfer.signature, senderKey);
+          const payload = decodeTransferPayload(transfer);
+          const matchesPayload =
+            !!payload &&
+            payload.voucherId === voucher.id &&
+            payload.fromId === transfer.fromId &&
+            payload.toId === transfer.toId &&
+            payload.timestamp === transfer.timestamp &&
+            payload.reference === transfer.reference;
+          transferStatus = transferResult.valid && matchesPayload ? 'valid' : 'invalid';
+        }
+      } catch {
+        transferStatus = 'invalid';
+      }
+
+      result.transferSignatureStatuses.push(transferStatus);
+    }
+
+    if (voucher.split) {
+      result.splitSignatureStatus = await verifySplit(voucher, identities);
+    }
+    if (voucher.movedOut) {
+      result.moveSignatureStatus = await verifyMove(voucher, identities);
+    }
+
+    // Follow the chain from its root: each link must build on the current
+    // tip and be signed by the holder at that point. Transfers, splits and
+    // moves off the chain (e.g. signed by someone who never held the voucher)
+    // are invalid.
+    const signedLinks = new Set(
+      voucher.transfers
+        .filter((_, index) => result.transferSignatureStatuses[index] !== 'invalid')
+        .map((transfer) => transfer.signature)
+    );
+    if (voucher.split && result.splitSignatureStatus !== 'invalid') {
+      signedLinks.add(voucher.split.signature);
+    }
+    if (voucher.movedOut && result.moveSignatureStatus !== 'invalid') {
+      signedLinks.add(voucher.movedOut.signature);
+    }
+    const chain = walkVoucherChain(
+      voucher,
+      getChainLinks(voucher).filter((link) => signedLinks.has(link.signature))
+    );
+
+    // Several links of the holder on the same link are a double spend - but
+    // only links with a verified signature count, so nobody can fake one
+    const verifiedLinks = new Set(
+      voucher.transfers
+        .filter((_, index) => result.transferSignatureStatuses[index] === 'valid')
+        .map((transfer) => transfer.signature)
+    );
+    if (voucher.split && result.splitSignatureStatus === 'valid') {
+      verifiedLinks.add(voucher.split.signature);
+    }
+    // A transfer on the link a voucher was moved out at is a second use
+    if (voucher.movedOut && result.moveSignatureStatus === 'valid') {
+      verifiedLinks.add(voucher.movedOut.signature);
+    }
+    const verifiedChain = walkVoucherChain(voucher, [
+      ...getChainLinks(voucher).filter((link) => verifiedLinks.has(link.signature)),
+      ...(await verifyOtherSplits(voucher, identities, vouchers)),
+    ]);
+
+    result.transferSignatureStatuses = result.transferSignatureStatuses.map((status, index) =>
+      chain.linkedSignatures.has(voucher.transfers[index].signature) ? status : 'invalid'
+    );
+    if (voucher.split && !chain.linkedSignatures.has(voucher.split.signature)) {
+      result.splitSignatureStatus = 'invalid';
+    }
+    if (voucher.movedOut && !chain.linkedSignatures.has(voucher.movedOut.signature)) {
+      result.moveSignatureStatus = 'invalid';
+    }
+    result.chainTip = chain.tip;
+
+    // Spent twice (or an ancestor was)
+    const dispute = verifiedChain.dispute ?? lineageDispute;
+    if (dispute) {
+      result.dispute = dispute;
+    }
+
+    // The stored holder must be the one the chain ends with
+    const holderStatus: SignatureStatus =
+      chain.dispute || verifiedChain.dispute || chain.tip.holderId === voucher.currentHolderId
+        ? 'valid'
+        : 'invalid';
+    if (holderStatus === 'invalid') {
+      result.error = 'Current holder does not match the transfer chain';
+    }
+
+    // Determine overall status
+    const allStatuses = [
+      result.issuerSignatureStatus,
+      holderStatus,
+      ...result.transferSignatureStatuses,
+      ...(result.splitSignatureStatus ? [result.splitSignatureStatus] : []),
+      ...(result.moveSignatureStatus ? [result.moveSignatureStatus] : []),
+    ];
+
+    if (allStatuses.includes('invalid')) {
+      result.overallStatus = 'invalid';
+    } else if (allStatuses.includes('unknown')) {
+      result.overallStatus = 'unknown';
+    } else {
+      result.overallStatus = 'valid';
+    }
+  } catch (error) {
+    result.overallStatus = 'invalid';
+    result.error = error instanceof Error ? error.message : 'Validation failed';
+  }
+
+  return result;
+}
+
+/**
+ * Everything the validation of a voucher reads: the voucher and its ancestors
+ * (split, move, status, transfers, issuer signatures), the split signatures
+ * of their children and the stored keys of identities without a did:key.
+ * Compared in full (not hashed), so a changed voucher can't reuse a cached
+ * validation result.
+ */
+export function getValidationFingerprint(
+  voucher: Voucher,
+  vouchers: Record<string, Voucher>,
+  identities: Record<string, IdentityProfile>
+): string {
+  const lineage: Voucher[] = [];
+  const visited = new Set<string>();
+  let current: Voucher | undefined = voucher;
+  while (current && !visited.has(current.id)) {
+    visited.add(current.id);
+    lineage.push(current);
+    current = current.parentId ? vouchers[current.parentId] : undefined;
+  }
+
+  const childSplitSignatures = Object.values(vouchers)
+    .filter((child) => child.parentId && visited.has(child.parentId) && child.splitSignature)
+    .map((child) => `${child.id}:${child.splitSignature}`)
+    .sort();
+
+  const storedKeys = Object.entries(identities)
+    .filter(([did]) => !isValidDid(did))
+    .map(([did, profile]) => `${did}:${profile.publicKey ?? ''}`)
+    .sort();
+
+  return JSON.stringify([lineage, childSplitSignatures, storedKeys]);
+}
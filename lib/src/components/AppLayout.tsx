@@ -17,18 +17,21 @@ import { useProfileUrl } from '../hooks/useProfileUrl';
 import { useDocumentTitle, generateLetterFavicon, generateHomeFavicon } from '../hooks/useDocumentTitle';
 import type { BaseDocument } from '../schema/document';
 import type { UserDocument } from '../schema/userDocument';
+import type { WorkspaceEncryptionControls } from '../hooks/useWorkspaceEncryption';
 import { removeWorkspace } from '../schema/userDocument';
 import { AppNavbar } from './AppNavbar';
 import { TrustReciprocityModal } from './TrustReciprocityModal';
 import { NewWorkspaceModal } from './NewWorkspaceModal';
 import { UserProfileModal, type ProfileAction } from './UserProfileModal';
-import { QRScannerModal } from './QRScannerModal';
+import { QRScannerModal, type QRCodeHandler } from './QRScannerModal';
 import { JoinWorkspaceDialog } from './JoinWorkspaceDialog';
 import { Toast } from './Toast';
 import { Confetti } from './Confetti';
 import { WorkspaceLoadingContent } from './LoadingScreen';
 import { StartContent } from './StartContent';
 import { DebugDashboard } from './DebugDashboard';
+import { PassphraseDialog } from './PassphraseDialog';
+import { usePassphrasePrompt } from '../hooks/usePassphrasePrompt';
 import { exportIdentityToFile, importIdentityFromFile, loadSharedIdentity } from '../utils/storage';
 import type { WorkspaceLoadingState, ContentState } from './AppShell';
 import { KnownProfilesProvider } from '../providers/KnownProfilesProvider';
@@ -196,6 +199,17 @@ export interface AppLayoutProps<TDoc extends BaseDocument<unknown>> {
    * Callback to import identity (from AppShell, handles state update without page reload)
    */
   onImportIdentity?: () => void;
+
+  /**
+   * Workspace encryption controls (from useWorkspaceEncryption)
+   * Only apps that decrypt workspace data should provide these.
+   */
+  workspaceEncryption?: WorkspaceEncryptionControls;
+
+  /**
+   * Handler for app-specific QR codes in the scanner (e.g. offline voucher transfers)
+   */
+  qrCodeHandler?: QRCodeHandler;
 }
 
 /**
@@ -290,6 +304,8 @@ function AppLayoutInner<TDoc extends BaseDocument<unknown>>({
   onGoToStart,
   onSwitchWorkspace,
   onImportIdentity,
+  workspaceEncryption,
+  qrCodeHandler,
 }: AppLayoutProps<TDoc>) {
   // Get repo for bidirectional trust sync
   const repo = useRepo();
@@ -300,6 +316,9 @@ function AppLayoutInner<TDoc extends BaseDocument<unknown>>({
   // QR Scanner state for verification
   const [isScannerOpen, setIsScannerOpen] = useState(false);
 
+  // Passphrase prompt for encrypted identity files (fallback import without AppShell)
+  const passphrasePrompt = usePassphrasePrompt();
+
   // Debug Dashboard state (managed here for access to knownProfiles context)
   const [showDebugDashboard, setShowDebugDashboard] = useState(false);
 
@@ -326,6 +345,12 @@ function AppLayoutInner<TDoc extends BaseDocument<unknown>>({
     return Boolean(doc.identities?.[currentUserDid]);
   }, [doc, currentUserDid]);
 
+  // Encrypted workspace without a key grant for the current user
+  const isAwaitingKeyGrant = useMemo(() => {
+    if (!doc?.encryption || !currentUserDid) return false;
+    return !doc.encryption.keys[currentUserDid];
+  }, [doc, currentUserDid]);
+
   // Get workspace info for join dialog
   const workspaceInfo = useMemo(() => {
     if (!doc) return null;
@@ -450,11 +475,31 @@ function AppLayoutInner<TDoc extends BaseDocument<unknown>>({
       if (avatarUrl) {
         d.identities[currentUserDid].avatarUrl = avatarUrl;
       }
+      // Encrypted workspace: ask existing members for a key grant
+      if (d.encryption && !d.encryption.keys[currentUserDid]) {
+        if (!d.encryption.accessRequests) {
+          d.encryption.accessRequests = {};
+        }
+        d.encryption.accessRequests[currentUserDid] = Date.now();
+      }
     });
 
     setJoinState('joined');
   }, [docHandle, currentUserDid, userDoc]);
 
+  // Re-request access to an encrypted workspace (e.g. after key rotation)
+  const handleRequestAccess = useCallback(() => {
+    if (!docHandle || !currentUserDid) return;
+
+    docHandle.change((d: BaseDocument<unknown>) => {
+      if (!d.encryption) return;
+      if (!d.encryption.accessRequests) {
+        d.encryption.accessRequests = {};
+      }
+      d.encryption.accessRequests[currentUserDid] = Date.now();
+    });
+  }, [docHandle, currentUserDid]);
+
   // Handle declining to join
   const handleDeclineJoin = useCallback(() => {
     console.log('[AppLayout] User declined join, returning to start');
@@ -482,9 +527,14 @@ function AppLayoutInner<TDoc extends BaseDocument<unknown>>({
   });
 
   // Identity management handlers for profile modal
-  const handleExportIdentity = useCallback(() => {
-    exportIdentityToFile();
-  }, []);
+  const handleExportIdentity = useCallback(async (passphrase: string) => {
+    try {
+      await exportIdentityToFile(passphrase);
+      ctx.showToast('Identität verschlüsselt exportiert');
+    } catch (error) {
+      ctx.showToast(error instanceof Error ? error.message : 'Export fehlgeschlagen');
+    }
+  }, [ctx]);
 
   const handleImportIdentity = useCallback(() => {
     if (onImportIdentity) {
@@ -494,10 +544,11 @@ function AppLayoutInner<TDoc extends BaseDocument<unknown>>({
       // Fallback: legacy behavior with reload
       importIdentityFromFile(
         () => window.location.reload(),
-        (error) => ctx.showToast(error)
+        (error) => ctx.showToast(error),
+        passphrasePrompt.requestPassphrase
       );
     }
-  }, [onImportIdentity, ctx]);
+  }, [onImportIdentity, ctx, passphrasePrompt.requestPassphrase]);
 
   // Open QR scanner for verification (closes profile modal first)
   const handleOpenScanner = useCallback(() => {
@@ -531,6 +582,7 @@ function AppLayoutInner<TDoc extends BaseDocument<unknown>>({
             onOpenProfile={() => ctx.openProfile(currentUserDid)}
             onOpenScanner={() => setIsScannerOpen(true)}
             onShowMyQR={() => ctx.openProfile(currentUserDid)}
+            onRecoverIdentity={ctx.handleRecoverIdentity}
             identity={{
               did: currentUserDid,
               displayName: userDoc?.profile?.displayName || identity?.displayName,
@@ -565,6 +617,28 @@ function AppLayoutInner<TDoc extends BaseDocument<unknown>>({
             </div>
           );
         }
+        // Encrypted workspace without key: wait for a member to grant access
+        if (isAwaitingKeyGrant) {
+          const hasRequested = doc.encryption?.accessRequests?.[currentUserDid] !== undefined;
+          return (
+            <div className="flex-1 flex items-center justify-center bg-base-200 p-4">
+              <div className="text-center max-w-sm">
+                <div className="text-5xl mb-4">🔒</div>
+                <h2 className="text-xl font-bold mb-2">Verschlüsselter Workspace</h2>
+                <p className="text-base-content/70 mb-4">
+                  {hasRequested
+                    ? 'Zugriff angefragt. Sobald ein Mitglied dir Zugriff gewährt, werden die Inhalte entschlüsselt.'
+                    : 'Du hast keinen Schlüssel für diesen Workspace.'}
+                </p>
+                {!hasRequested && (
+                  <button className="btn btn-primary" onClick={handleRequestAccess}>
+                    Zugriff anfragen
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        }
         return children(ctx, docHandle);
     }
   };
@@ -582,6 +656,7 @@ function AppLayoutInner<TDoc extends BaseDocument<unknown>>({
           isStart={isStart}
           onGoToStart={onGoToStart}
           onLeaveWorkspace={handleLeaveWorkspace}
+          workspaceEncryption={workspaceEncryption}
         >
           {navbarChildren}
         </AppNavbar>
@@ -616,6 +691,10 @@ function AppLayoutInner<TDoc extends BaseDocument<unknown>>({
           onTrust={ctx.handleTrustUser}
           onOpenScanner={handleOpenScanner}
           onRevokeTrust={ctx.handleRevokeTrust}
+          onRenewTrust={ctx.handleRenewTrust}
+          isBlocked={ctx.blockedUserDids.has(profileDid)}
+          onBlock={ctx.handleBlockUser}
+          onUnblock={ctx.handleUnblockUser}
           userDocUrl={userDocUrl}
           customActions={profileActions?.(profileDid, closeProfile) ?? []}
           hideTrustActions={hideProfileTrustActions}
@@ -626,6 +705,15 @@ function AppLayoutInner<TDoc extends BaseDocument<unknown>>({
           onExportIdentity={handleExportIdentity}
           onImportIdentity={handleImportIdentity}
           onResetIdentity={onResetIdentity}
+          onRotateKey={ctx.handleRotateKey}
+          onSetupRecovery={ctx.handleSetupRecovery}
+          hasRecoveryShare={!!userDoc?.recoveryShares?.[profileDid]}
+          onReleaseRecoveryShare={ctx.handleReleaseRecoveryShare}
+          isIdentityLockEnabled={ctx.isIdentityLockEnabled}
+          isIdentityLocked={ctx.isIdentityLocked}
+          onEnableIdentityLock={ctx.handleEnableIdentityLock}
+          onDisableIdentityLock={ctx.handleDisableIdentityLock}
+          onLockIdentity={ctx.handleLockIdentity}
         />
       )}
 
@@ -644,6 +732,7 @@ function AppLayoutInner<TDoc extends BaseDocument<unknown>>({
           knownProfiles={ctx.knownProfiles}
           getProfile={ctx.getProfile}
           registerExternalDoc={ctx.registerExternalDoc}
+          codeHandler={qrCodeHandler}
         />
       )}
 
@@ -662,11 +751,15 @@ function AppLayoutInner<TDoc extends BaseDocument<unknown>>({
           workspaceName={workspaceInfo.name}
           workspaceAvatar={workspaceInfo.avatar}
           memberDids={workspaceInfo.memberDids}
+          requiresKeyGrant={isAwaitingKeyGrant}
           onConfirm={handleConfirmJoin}
           onDecline={handleDeclineJoin}
         />
       )}
 
+      {/* Passphrase prompt for encrypted identity files */}
+      <PassphraseDialog {...passphrasePrompt.dialogProps} />
+
       {/* Debug Dashboard - rendered here to have access to knownProfiles context */}
       <DebugDashboard
         isOpen={showDebugDashboard}
@@ -38,6 +38,8 @@ import { useProfileUrl } from '../hooks/useProfileUrl';
 import type { BaseDocument } from '../schema/document';
 import type { UserDocument } from '../schema/userDocument';
 import type { TrustedUserProfile, KnownProfile } from '../hooks/useAppContext';
+import type { WorkspaceEncryptionControls } from '../hooks/useWorkspaceEncryption';
+import type { WorkspaceAclControls } from '../hooks/useWorkspaceAcl';
 
 export interface AppNavbarProps<TData = unknown> {
   /** Current user's DID */
@@ -123,6 +125,12 @@ export interface AppNavbarProps<TData = unknown> {
 
   /** Register external doc for reactive profile loading */
   registerExternalDoc?: (userDocUrl: string, expectedDid?: string, displayName?: string) => void;
+
+  /** Workspace encryption controls (for WorkspaceModal) */
+  workspaceEncryption?: WorkspaceEncryptionControls;
+
+  /** Workspace roles and signed settings (for WorkspaceModal) */
+  workspaceAcl?: WorkspaceAclControls;
 }
 
 export function AppNavbar<TData = unknown>({
@@ -153,6 +161,8 @@ export function AppNavbar<TData = unknown>({
   knownProfiles,
   getProfile,
   registerExternalDoc,
+  workspaceEncryption,
+  workspaceAcl,
 }: AppNavbarProps<TData>) {
   // Modal states
   const [showWorkspaceModal, setShowWorkspaceModal] = useState(false);
@@ -354,6 +364,8 @@ export function AppNavbar<TData = unknown>({
           userDoc={userDoc}
           trustedUserProfiles={trustedUserProfiles}
           onLeaveWorkspace={onLeaveWorkspace}
+          encryption={workspaceEncryption}
+          acl={workspaceAcl}
         />
       )}
 
@@ -37,6 +37,12 @@ import { useCrossTabSync } from '../hooks/useCrossTabSync';
 import { isValidAutomergeUrl } from '@automerge/automerge-repo';
 import { OwnUserDocLoader } from './OwnUserDocLoader';
 import { WorkspaceDocLoader } from './WorkspaceDocLoader';
+import { PassphraseDialog } from './PassphraseDialog';
+import { UnlockIdentityDialog } from './UnlockIdentityDialog';
+import { Toast } from './Toast';
+import { usePassphrasePrompt } from '../hooks/usePassphrasePrompt';
+import { signingKeyOf, subscribeIdentityLock } from '../utils/identityLock';
+import type { PrivateKeySource } from '../utils/signature';
 
 /** Time in seconds after which to show "create new document" option */
 const SHOW_CREATE_NEW_AFTER_SECONDS = 60;
@@ -66,7 +72,8 @@ export interface AppShellChildProps {
   /** Document ID (may be null while loading or in start state) */
   documentId: DocumentId | null;
   currentUserDid: string;
-  privateKey?: string;
+  /** Signing key; a provider that asks for the PIN if the identity is locked */
+  privateKey?: PrivateKeySource;
   publicKey?: string;
   displayName?: string;
   onResetIdentity: () => void;
@@ -159,7 +166,7 @@ export function AppShell<TDoc>({
   // Core state
   const [documentId, setDocumentId] = useState<DocumentId | null>(null);
   const [currentUserDid, setCurrentUserDid] = useState<string | null>(null);
-  const [privateKey, setPrivateKey] = useState<string | undefined>(undefined);
+  const [privateKey, setPrivateKey] = useState<PrivateKeySource | undefined>(undefined);
   const [publicKey, setPublicKey] = useState<string | undefined>(undefined);
   const [displayName, setDisplayName] = useState<string | undefined>(undefined);
 
@@ -179,6 +186,11 @@ export function AppShell<TDoc>({
   // URL to load (triggers OwnUserDocLoader when set)
   const [savedUserDocUrl, setSavedUserDocUrl] = useState<string | null>(null);
 
+  // Identity import: passphrase prompt for encrypted files and error display
+  const passphrasePrompt = usePassphrasePrompt();
+  const [importError, setImportError] = useState<string | null>(null);
+  const clearImportError = useCallback(() => setImportError(null), []);
+
   // Stored identity for document creation
   const storedIdentityRef = useRef<UserIdentity | null>(null);
 
@@ -188,6 +200,12 @@ export function AppShell<TDoc>({
     updateDebugState({ repo });
   }, [repo]);
 
+  // PIN lock enabled or removed: switch between plaintext key and unlock provider
+  useEffect(() => subscribeIdentityLock(() => {
+    const stored = loadSharedIdentity();
+    if (stored) setPrivateKey(() => signingKeyOf(stored));
+  }), []);
+
   // Cross-tab sync: reload when identity changes in another tab
   useCrossTabSync({
     autoReloadOnIdentityChange: true,
@@ -427,7 +445,7 @@ export function AppShell<TDoc>({
     }
 
     setCurrentUserDid(identity.did);
-    setPrivateKey(identity.privateKey);
+    setPrivateKey(() => signingKeyOf(identity));
     setPublicKey(identity.publicKey);
     setDisplayName(identity.displayName);
     storedIdentityRef.current = identity;
@@ -571,7 +589,7 @@ export function AppShell<TDoc>({
         console.log('[AppShell] Identity imported:', importedIdentity.did);
         // Update identity state
         setCurrentUserDid(importedIdentity.did);
-        setPrivateKey(importedIdentity.privateKey);
+        setPrivateKey(() => signingKeyOf(importedIdentity));
         setPublicKey(importedIdentity.publicKey);
         setDisplayName(importedIdentity.displayName);
         storedIdentityRef.current = importedIdentity;
@@ -600,9 +618,11 @@ export function AppShell<TDoc>({
       },
       (error) => {
         console.error('[AppShell] Import failed:', error);
-      }
+        setImportError(error);
+      },
+      passphrasePrompt.requestPassphrase
     );
-  }, [storagePrefix, enableUserDocument, createNewUserDocument]);
+  }, [storagePrefix, enableUserDocument, createNewUserDocument, passphrasePrompt.requestPassphrase]);
 
   // Show basic loading while initializing identity and user document
   // Once identity is ready, we render the shell even if workspace is still loading
@@ -673,6 +693,9 @@ export function AppShell<TDoc>({
           userDocHandle,
         }),
       })}
+      <PassphraseDialog {...passphrasePrompt.dialogProps} />
+      <UnlockIdentityDialog />
+      {importError && <Toast message={importError} type="error" onClose={clearImportError} />}
     </RepoContext.Provider>
   );
 }
\ No newline at end of file
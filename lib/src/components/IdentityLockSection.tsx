@@ -0,0 +1,131 @@
+/**
+ * IdentityLockSection - PIN protection of the stored identity in the own profile
+ *
+ * Without PIN, the private key is stored readable in the browser. With PIN,
+ * it is stored encrypted and unlocked per session (see utils/identityLock).
+ */
+
+import { useState } from 'react';
+import { MIN_PIN_LENGTH } from '../utils/identityLock';
+
+export interface IdentityLockSectionProps {
+  /** The stored key is protected by a PIN */
+  isLockEnabled: boolean;
+  /** Protected and not unlocked in this session */
+  isLocked: boolean;
+  onEnable: (pin: string) => Promise<void>;
+  onDisable: (pin: string) => Promise<void>;
+  onLock: () => void;
+}
+
+export function IdentityLockSection({ isLockEnabled, isLocked, onEnable, onDisable, onLock }: IdentityLockSectionProps) {
+  const [mode, setMode] = useState<'enable' | 'disable' | null>(null);
+  const [pin, setPin] = useState('');
+  const [pinRepeat, setPinRepeat] = useState('');
+  const [error, setError] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleClose = () => {
+    setMode(null);
+    setPin('');
+    setPinRepeat('');
+    setError('');
+  };
+
+  const handleSubmit = async () => {
+    setError('');
+    setIsSaving(true);
+    try {
+      await (mode === 'enable' ? onEnable(pin) : onDisable(pin));
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Speichern fehlgeschlagen');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!mode) {
+    return (
+      <div className="flex flex-col gap-2 text-sm">
+        {isLockEnabled ? (
+          <p>
+            Dein privater Schlüssel ist mit einer PIN verschlüsselt gespeichert.
+            {isLocked ? ' Zum Signieren wirst du nach der PIN gefragt.' : ' Er ist für diese Sitzung entsperrt.'}
+          </p>
+        ) : (
+          <p className="text-base-content/60">
+            Dein privater Schlüssel ist unverschlüsselt im Browser gespeichert. Mit einer PIN wird er verschlüsselt
+            und nur bei Bedarf entsperrt.
+          </p>
+        )}
+        {isLockEnabled ? (
+          <div className="flex gap-2">
+            {!isLocked && (
+              <button className="btn btn-outline btn-sm flex-1" onClick={onLock}>
+                Jetzt sperren
+              </button>
+            )}
+            <button className="btn btn-ghost btn-sm flex-1" onClick={() => setMode('disable')}>
+              PIN-Schutz entfernen
+            </button>
+          </div>
+        ) : (
+          <button className="btn btn-outline btn-sm" onClick={() => setMode('enable')}>
+            Mit PIN schützen
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  const canSubmit =
+    mode === 'enable' ? pin.length >= MIN_PIN_LENGTH && pin === pinRepeat && !isSaving : !!pin && !isSaving;
+
+  return (
+    <div className="flex flex-col gap-2 text-sm">
+      {mode === 'enable' && (
+        <p>
+          Ohne PIN lässt sich der Schlüssel auf diesem Gerät nicht mehr nutzen. Exportiere deine Identität vorher
+          oder richte die Wiederherstellung über Kontakte ein.
+        </p>
+      )}
+      <input
+        type="password"
+        className="input input-bordered input-sm w-full"
+        placeholder={mode === 'enable' ? `PIN (mind. ${MIN_PIN_LENGTH} Zeichen)` : 'Aktuelle PIN'}
+        autoComplete={mode === 'enable' ? 'new-password' : 'current-password'}
+        value={pin}
+        onChange={(e) => setPin(e.target.value)}
+      />
+      {mode === 'enable' && (
+        <input
+          type="password"
+          className="input input-bordered input-sm w-full"
+          placeholder="PIN wiederholen"
+          autoComplete="new-password"
+          value={pinRepeat}
+          onChange={(e) => setPinRepeat(e.target.value)}
+        />
+      )}
+      {mode === 'enable' && pinRepeat && pin !== pinRepeat && (
+        <span className="text-error text-xs">Die PINs stimmen nicht überein</span>
+      )}
+      {error && <p className="text-error">{error}</p>}
+      <div className="flex gap-2">
+        <button className="btn btn-primary btn-sm flex-1" onClick={handleSubmit} disabled={!canSubmit}>
+          {isSaving ? (
+            <span className="loading loading-spinner loading-xs"></span>
+          ) : mode === 'enable' ? (
+            'Schützen'
+          ) : (
+            'Entfernen'
+          )}
+        </button>
+        <button className="btn btn-ghost btn-sm flex-1" onClick={handleClose} disabled={isSaving}>
+          Abbrechen
+        </button>
+      </div>
+    </div>
+  );
+}
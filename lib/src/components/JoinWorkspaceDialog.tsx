@@ -3,6 +3,7 @@
  *
  * Shows workspace info and asks user to confirm before joining.
  * On confirm: writes user identity to workspace
+ *             (encrypted workspaces: also requests a key grant from existing members)
  * On decline: returns to start state
  */
 
@@ -23,6 +24,8 @@ export interface JoinWorkspaceDialogProps {
   workspaceAvatar?: string;
   /** List of DIDs already in the workspace */
   memberDids: string[];
+  /** Workspace is end-to-end encrypted and no key was granted to the user yet */
+  requiresKeyGrant?: boolean;
   /** Callback when user confirms joining */
   onConfirm: () => void;
   /** Callback when user declines */
@@ -36,6 +39,7 @@ export function JoinWorkspaceDialog({
   workspaceName,
   workspaceAvatar,
   memberDids,
+  requiresKeyGrant = false,
   onConfirm,
   onDecline,
 }: JoinWorkspaceDialogProps) {
@@ -132,6 +136,16 @@ export function JoinWorkspaceDialog({
           </div>
         )}
 
+        {/* Key grant notice for encrypted workspaces */}
+        {requiresKeyGrant && (
+          <div className="alert alert-info text-sm mb-4">
+            <span>
+              🔒 Dieser Workspace ist Ende-zu-Ende-verschlüsselt. Nach dem Beitritt muss ein
+              Mitglied dir Zugriff gewähren.
+            </span>
+          </div>
+        )}
+
         {/* Info Text */}
         <p className="text-sm text-base-content/70 text-center mb-6">
           Wenn du beitrittst, wird dein Profil für alle Mitglieder sichtbar.
@@ -157,7 +171,7 @@ export function JoinWorkspaceDialog({
                 Beitritt...
               </>
             ) : (
-              'Beitreten'
+              requiresKeyGrant ? 'Zugriff anfragen' : 'Beitreten'
             )}
           </button>
         </div>
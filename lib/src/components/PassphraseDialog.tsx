@@ -0,0 +1,65 @@
+/**
+ * PassphraseDialog - Asks for the passphrase of an encrypted identity file
+ *
+ * Controlled by usePassphrasePrompt: the dialog resolves the pending
+ * request with the passphrase, or null when cancelled.
+ */
+
+import { useState } from 'react';
+import { getDefaultDisplayName } from '../utils/did';
+
+export interface PassphraseDialogProps {
+  /** DID of the identity in the file (null hides the dialog) */
+  did: string | null;
+  onSubmit: (passphrase: string) => void;
+  onCancel: () => void;
+}
+
+export function PassphraseDialog({ did, onSubmit, onCancel }: PassphraseDialogProps) {
+  const [passphrase, setPassphrase] = useState('');
+
+  if (!did) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!passphrase) return;
+    onSubmit(passphrase);
+    setPassphrase('');
+  };
+
+  const handleCancel = () => {
+    setPassphrase('');
+    onCancel();
+  };
+
+  return (
+    <div className="modal modal-open z-[9999]">
+      <div className="modal-box max-w-sm">
+        <h3 className="font-bold text-lg mb-2">Identität entschlüsseln</h3>
+        <p className="text-sm text-base-content/60 mb-4">
+          Die Datei von {getDefaultDisplayName(did)} ist mit einer Passphrase geschützt.
+        </p>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+          <input
+            type="password"
+            className="input input-bordered w-full"
+            placeholder="Passphrase"
+            autoComplete="current-password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoFocus
+          />
+          <div className="modal-action mt-2">
+            <button type="button" className="btn btn-ghost" onClick={handleCancel}>
+              Abbrechen
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={!passphrase}>
+              Importieren
+            </button>
+          </div>
+        </form>
+      </div>
+      <div className="modal-backdrop" onClick={handleCancel}></div>
+    </div>
+  );
+}
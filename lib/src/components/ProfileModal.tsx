@@ -13,7 +13,7 @@ interface ProfileModalProps<TData = unknown> {
   /** UserDocument for consistent profile data (preferred source) */
   userDoc?: UserDocument | null;
   onUpdateIdentity: (updates: { displayName?: string; avatarUrl?: string }) => void;
-  onExportIdentity: () => void;
+  onExportIdentity: (passphrase: string) => void | Promise<void>;
   onImportIdentity: () => void;
   onResetId: () => void;
   initialDisplayName?: string;
@@ -9,6 +9,23 @@ import { getDefaultDisplayName } from '../utils/did';
 
 type SignatureStatus = 'valid' | 'invalid' | 'missing' | 'pending' | 'loading' | 'waiting' | 'network-error';
 
+/**
+ * Result of an app-specific QR code handler
+ * null = not handled, 'done' = handled completely (closes the scanner),
+ * otherwise the message is shown and scanning continues (e.g. multi-part codes)
+ */
+export type QRCodeScanResult = null | 'done' | { message: string; isError?: boolean };
+
+/**
+ * App-specific QR codes besides the verification codes (e.g. Dank voucher transfers)
+ */
+export interface QRCodeHandler {
+  /** Shown below the scanner hint, e.g. what else can be scanned */
+  hint?: string;
+  /** Called for every scanned code that is no verification code */
+  onScan: (decodedText: string) => QRCodeScanResult;
+}
+
 interface QRScannerModalProps<TData = unknown> {
   isOpen: boolean;
   onClose: () => void;
@@ -38,6 +55,8 @@ interface QRScannerModalProps<TData = unknown> {
    * When this Map changes, the component re-renders with updated profile data
    */
   knownProfiles?: Map<string, KnownProfile>;
+  /** Handler for app-specific QR codes (optional) */
+  codeHandler?: QRCodeHandler;
 }
 
 export function QRScannerModal<TData = unknown>({
@@ -53,8 +72,13 @@ export function QRScannerModal<TData = unknown>({
   getProfile,
   registerExternalDoc,
   knownProfiles,
+  codeHandler,
 }: QRScannerModalProps<TData>) {
   const scannerRef = useRef<Html5Qrcode | null>(null);
+  // The scan callback is registered once per opening, so it reads the current handler via ref
+  const codeHandlerRef = useRef(codeHandler);
+  codeHandlerRef.current = codeHandler;
+  const [scanProgress, setScanProgress] = useState('');
   const [scannedDid, setScannedDid] = useState<string | null>(null);
   const [scannedUserDocUrl, setScannedUserDocUrl] = useState<string | null>(null);
   const [scannedName, setScannedName] = useState<string | null>(null);
@@ -164,7 +188,18 @@ export function QRScannerModal<TData = unknown>({
               // Just stop scanning, don't clear yet
               scanner.stop().catch(console.error);
             } else {
-              setScanError('Invalid QR code. Please scan a Narrative verification QR code.');
+              const result = codeHandlerRef.current?.onScan(decodedText) ?? null;
+              if (result === 'done') {
+                handleClose();
+              } else if (result?.isError) {
+                setScanProgress('');
+                setScanError(result.message);
+              } else if (result) {
+                setScanError('');
+                setScanProgress(result.message);
+              } else {
+                setScanError('Invalid QR code. Please scan a Narrative verification QR code.');
+              }
             }
           },
           (errorMessage) => {
@@ -238,6 +273,7 @@ export function QRScannerModal<TData = unknown>({
     setScannedUserDocUrl(null);
     setScannedName(null);
     setScanError('');
+    setScanProgress('');
     setIsScanning(false);
     setSignatureStatus('pending');
     setLoadedProfile(null);
@@ -507,6 +543,17 @@ export function QRScannerModal<TData = unknown>({
             <span className="font-bold text-white">Scanne den QR-Code deines Freundes, um ihm zu vertrauen</span>
           </div>
 
+          {codeHandler?.hint && (
+            <p className="text-sm text-base-content/70 text-center">{codeHandler.hint}</p>
+          )}
+
+          {scanProgress && (
+            <div className="alert alert-info py-2 justify-center text-center">
+              <span className="loading loading-spinner loading-xs"></span>
+              <span className="text-sm">{scanProgress}</span>
+            </div>
+          )}
+
           {scanError && (
             <div className="alert alert-error py-2">
               <svg
@@ -0,0 +1,99 @@
+/**
+ * RecoveryReleaseSection - Help a contact recover their identity
+ *
+ * Shown in the profile of a user for whom the current user holds a
+ * recovery share. The share is re-encrypted to the temporary DID the
+ * contact tells us (in person) and handed back as a release code.
+ */
+
+import { useState } from 'react';
+
+export interface RecoveryReleaseSectionProps {
+  /** Display name of the share owner */
+  ownerName: string;
+  /** Create a release code for the given temporary DID */
+  onRelease: (recipientDid: string) => Promise<string>;
+}
+
+export function RecoveryReleaseSection({ ownerName, onRelease }: RecoveryReleaseSectionProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [recipientDid, setRecipientDid] = useState('');
+  const [code, setCode] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const handleRelease = async () => {
+    setError('');
+    try {
+      setCode(await onRelease(recipientDid));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Freigabe fehlgeschlagen');
+    }
+  };
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setRecipientDid('');
+    setCode(null);
+    setError('');
+  };
+
+  if (!isOpen) {
+    return (
+      <button className="btn btn-ghost btn-sm" onClick={() => setIsOpen(true)}>
+        Bei Wiederherstellung helfen
+      </button>
+    );
+  }
+
+  return (
+    <div className="bg-base-200 rounded-lg p-3 flex flex-col gap-2 text-sm">
+      {code ? (
+        <>
+          <p>Gib {ownerName} diesen Code:</p>
+          <textarea
+            className="textarea textarea-bordered textarea-xs font-mono w-full"
+            rows={4}
+            value={code}
+            readOnly
+            onFocus={(e) => e.target.select()}
+          />
+          <div className="flex gap-2">
+            <button className="btn btn-primary btn-sm flex-1" onClick={() => navigator.clipboard.writeText(code)}>
+              Kopieren
+            </button>
+            <button className="btn btn-ghost btn-sm flex-1" onClick={handleClose}>
+              Fertig
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-warning">
+            Gib deinen Anteil nur frei, wenn du sicher bist, dass wirklich {ownerName} dich darum bittet -
+            am besten persönlich oder per Videoanruf.
+          </p>
+          <input
+            type="text"
+            className="input input-bordered input-sm w-full font-mono"
+            placeholder="Temporäre ID (did:key:…)"
+            value={recipientDid}
+            onChange={(e) => setRecipientDid(e.target.value)}
+          />
+          {error && <p className="text-error">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              className="btn btn-primary btn-sm flex-1"
+              onClick={handleRelease}
+              disabled={!recipientDid.trim()}
+            >
+              Freigeben
+            </button>
+            <button className="btn btn-ghost btn-sm flex-1" onClick={handleClose}>
+              Abbrechen
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,140 @@
+/**
+ * RecoverySetupSection - Social recovery setup in the own profile
+ *
+ * Lets the user choose trusted contacts and a threshold (k of n). The
+ * private key is split into encrypted shares stored in the contacts'
+ * UserDocuments (see utils/recovery).
+ */
+
+import { useState } from 'react';
+import { UserAvatar } from './UserAvatar';
+import type { RecoverySetup } from '../schema/identity';
+import { MIN_RECOVERY_THRESHOLD } from '../utils/recovery';
+import { getDefaultDisplayName } from '../utils/did';
+
+export interface RecoveryContact {
+  did: string;
+  displayName?: string;
+  avatarUrl?: string;
+}
+
+export interface RecoverySetupSectionProps {
+  /** Trusted contacts that can hold a share */
+  contacts: RecoveryContact[];
+  /** Current setup (if recovery was set up before) */
+  setup?: RecoverySetup;
+  /** Create new shares for the selected contacts */
+  onSetup: (holderDids: string[], threshold: number) => Promise<void>;
+}
+
+export function RecoverySetupSection({ contacts, setup, onSetup }: RecoverySetupSectionProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [threshold, setThreshold] = useState(MIN_RECOVERY_THRESHOLD);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const nameOf = (did: string) =>
+    contacts.find((contact) => contact.did === did)?.displayName || getDefaultDisplayName(did);
+
+  const startEditing = () => {
+    setSelected(setup?.holderDids.filter((did) => contacts.some((contact) => contact.did === did)) ?? []);
+    setThreshold(setup?.threshold ?? MIN_RECOVERY_THRESHOLD);
+    setIsEditing(true);
+  };
+
+  const toggle = (did: string) => {
+    setSelected((prev) => (prev.includes(did) ? prev.filter((d) => d !== did) : [...prev, did]));
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await onSetup(selected, threshold);
+      setIsEditing(false);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const maxThreshold = Math.max(selected.length, MIN_RECOVERY_THRESHOLD);
+  const canSave = selected.length >= MIN_RECOVERY_THRESHOLD && threshold <= selected.length && !isSaving;
+
+  if (!isEditing) {
+    return (
+      <div className="flex flex-col gap-2 text-sm">
+        {setup ? (
+          <p>
+            Eingerichtet: {setup.threshold} von {setup.holderDids.length} Kontakten
+            ({setup.holderDids.map(nameOf).join(', ')}) können deine Identität gemeinsam wiederherstellen.
+          </p>
+        ) : (
+          <p className="text-base-content/60">
+            Verteile deinen Schlüssel verschlüsselt auf vertraute Kontakte. Einzelne Kontakte können damit nichts anfangen.
+          </p>
+        )}
+        {contacts.length >= MIN_RECOVERY_THRESHOLD ? (
+          <button className="btn btn-outline btn-sm" onClick={startEditing}>
+            {setup ? 'Neu einrichten' : 'Einrichten'}
+          </button>
+        ) : (
+          <p className="text-base-content/60">
+            Dafür brauchst du mindestens {MIN_RECOVERY_THRESHOLD} verifizierte Kontakte.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-3 text-sm">
+      <div className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+        {contacts.map((contact) => (
+          <label key={contact.did} className="flex items-center gap-3 p-1 cursor-pointer">
+            <input
+              type="checkbox"
+              className="checkbox checkbox-primary checkbox-sm"
+              checked={selected.includes(contact.did)}
+              onChange={() => toggle(contact.did)}
+            />
+            <UserAvatar did={contact.did} avatarUrl={contact.avatarUrl} size={24} />
+            <span className="truncate">{contact.displayName || getDefaultDisplayName(contact.did)}</span>
+          </label>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-2">
+        <span>Benötigt:</span>
+        <select
+          className="select select-bordered select-sm"
+          value={threshold}
+          onChange={(e) => setThreshold(Number(e.target.value))}
+        >
+          {Array.from({ length: maxThreshold - MIN_RECOVERY_THRESHOLD + 1 }, (_, i) => i + MIN_RECOVERY_THRESHOLD).map(
+            (k) => (
+              <option key={k} value={k}>
+                {k}
+              </option>
+            )
+          )}
+        </select>
+        <span>von {selected.length} Kontakten</span>
+      </label>
+
+      {setup && (
+        <p className="text-base-content/60">
+          Die bisherigen Anteile werden ersetzt. Wer eine Kopie davon behalten hat, kann sie weiter nutzen -
+          im Zweifel zusätzlich den Schlüssel erneuern.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button className="btn btn-primary btn-sm flex-1" onClick={handleSave} disabled={!canSave}>
+          {isSaving ? <span className="loading loading-spinner loading-xs"></span> : 'Speichern'}
+        </button>
+        <button className="btn btn-ghost btn-sm flex-1" onClick={() => setIsEditing(false)} disabled={isSaving}>
+          Abbrechen
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * RecoveryWizard - Restore a lost identity from contacts' recovery shares
+ *
+ * Runs with the temporary identity of this device:
+ * 1. The user tells their contacts the temporary DID
+ * 2. Contacts release their shares as codes, which are pasted here
+ * 3. With enough codes the identity is restored (see utils/recovery)
+ */
+
+import { useState } from 'react';
+import { decodeRecoveryRelease, type RecoveryRelease } from '../utils/recovery';
+import { getDefaultDisplayName } from '../utils/did';
+
+export interface RecoveryWizardProps {
+  /** DID of the temporary identity on this device */
+  temporaryDid: string;
+  /** Restore the identity from the collected releases */
+  onRecover: (releases: RecoveryRelease[]) => Promise<void>;
+  /** Leave the wizard */
+  onCancel: () => void;
+}
+
+export function RecoveryWizard({ temporaryDid, onRecover, onCancel }: RecoveryWizardProps) {
+  const [releases, setReleases] = useState<RecoveryRelease[]>([]);
+  const [codeInput, setCodeInput] = useState('');
+  const [error, setError] = useState('');
+  const [isRecovering, setIsRecovering] = useState(false);
+
+  const threshold = releases.length > 0 ? Math.max(...releases.map((release) => release.threshold)) : null;
+
+  const handleAddCode = () => {
+    setError('');
+    let release: RecoveryRelease;
+    try {
+      release = decodeRecoveryRelease(codeInput);
+    } catch {
+      setError('Ungültiger Code');
+      return;
+    }
+
+    if (release.recipientDid !== temporaryDid) {
+      setError('Dieser Code wurde für eine andere temporäre ID erstellt');
+      return;
+    }
+    if (releases.length > 0 && release.ownerDid !== releases[0].ownerDid) {
+      setError('Dieser Code gehört zu einer anderen Identität');
+      return;
+    }
+    if (releases.some((r) => r.holderDid === release.holderDid)) {
+      setError('Code dieses Kontakts wurde schon hinzugefügt');
+      return;
+    }
+
+    setReleases((prev) => [...prev, release]);
+    setCodeInput('');
+  };
+
+  const handleRecover = async () => {
+    setError('');
+    setIsRecovering(true);
+    try {
+      await onRecover(releases);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Wiederherstellung fehlgeschlagen');
+      setIsRecovering(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <p className="text-base-content/60">
+        Bitte deine Kontakte, in deinem alten Profil „Bei Wiederherstellung helfen“ zu wählen,
+        und nenne ihnen diese temporäre ID:
+      </p>
+      <div className="bg-base-200 rounded-lg p-2 flex items-center gap-2">
+        <code className="text-xs break-all select-all flex-1 leading-tight">{temporaryDid}</code>
+        <button className="btn btn-ghost btn-xs" onClick={() => navigator.clipboard.writeText(temporaryDid)}>
+          Kopieren
+        </button>
+      </div>
+
+      {releases.length > 0 && (
+        <div>
+          <div className="font-semibold mb-1">
+            {releases.length} von {threshold} Codes
+          </div>
+          <ul className="list-disc list-inside text-base-content/70">
+            {releases.map((release) => (
+              <li key={release.id}>von {getDefaultDisplayName(release.holderDid)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <textarea
+        className="textarea textarea-bordered w-full font-mono text-xs"
+        rows={3}
+        placeholder="Code eines Kontakts einfügen"
+        value={codeInput}
+        onChange={(e) => setCodeInput(e.target.value)}
+      />
+      {error && <p className="text-error">{error}</p>}
+
+      <div className="flex gap-2">
+        <button className="btn btn-outline flex-1" onClick={handleAddCode} disabled={!codeInput.trim()}>
+          Code hinzufügen
+        </button>
+        <button
+          className="btn btn-primary flex-1"
+          onClick={handleRecover}
+          disabled={threshold === null || releases.length < threshold || isRecovering}
+        >
+          {isRecovering ? <span className="loading loading-spinner loading-sm"></span> : 'Wiederherstellen'}
+        </button>
+      </div>
+      <button className="btn btn-ghost btn-sm w-full" onClick={onCancel} disabled={isRecovering}>
+        Abbrechen
+      </button>
+    </div>
+  );
+}
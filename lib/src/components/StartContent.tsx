@@ -5,10 +5,13 @@
  * - Set up their profile
  * - Build their Web of Trust (verify friends)
  * - Start workspaces
+ * - Recover a lost identity via trusted contacts
  */
 
 import { useState } from 'react';
 import { UserAvatar } from './UserAvatar';
+import { RecoveryWizard } from './RecoveryWizard';
+import type { RecoveryRelease } from '../utils/recovery';
 
 export interface StartContentProps {
   /** Callback when user wants to create a new workspace */
@@ -19,6 +22,8 @@ export interface StartContentProps {
   onOpenScanner: () => void;
   /** Callback to show own QR code (opens profile) */
   onShowMyQR: () => void;
+  /** Callback to restore a lost identity from contacts' recovery codes (enables the recovery wizard) */
+  onRecoverIdentity?: (releases: RecoveryRelease[]) => Promise<void>;
   /** Current user's identity */
   identity: {
     did: string;
@@ -32,9 +37,11 @@ export function StartContent({
   onOpenProfile,
   onOpenScanner,
   onShowMyQR,
+  onRecoverIdentity,
   identity,
 }: StartContentProps) {
   const [showCreateInput, setShowCreateInput] = useState(false);
+  const [showRecovery, setShowRecovery] = useState(false);
   const [workspaceName, setWorkspaceName] = useState('');
 
   const handleCreateSubmit = () => {
@@ -91,6 +98,39 @@ export function StartContent({
             </div>
           </div>
 
+          {/* Recovery Card */}
+          {onRecoverIdentity && (
+            <div className="card bg-base-100 shadow-lg">
+              <div className="card-body">
+                <div className="flex items-center gap-2 mb-2">
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-primary" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+                  </svg>
+                  <span className="font-semibold">Identität verloren?</span>
+                </div>
+                {!showRecovery ? (
+                  <>
+                    <p className="text-sm text-base-content/60 mb-3">
+                      Wenn du die Wiederherstellung über Kontakte eingerichtet hast, können sie dir gemeinsam helfen.
+                    </p>
+                    <button
+                      className="btn btn-outline w-full h-auto py-3"
+                      onClick={() => setShowRecovery(true)}
+                    >
+                      Über Kontakte wiederherstellen
+                    </button>
+                  </>
+                ) : (
+                  <RecoveryWizard
+                    temporaryDid={identity.did}
+                    onRecover={onRecoverIdentity}
+                    onCancel={() => setShowRecovery(false)}
+                  />
+                )}
+              </div>
+            </div>
+          )}
+
           {/* Info: Web of Trust */}
           <p className="text-sm text-base-content/70 text-center px-4">
             Mit dem Web of Trust baust du ein persönliches Vertrauensnetzwerk auf – so kannst du Inhalte gezielt mit vertrauten Personen teilen.
@@ -12,6 +12,7 @@ import type { UserDocument } from '../schema/userDocument';
 import type { TrustAttestation } from '../schema/identity';
 import type { TrustedUserProfile, KnownProfile } from '../hooks/useAppContext';
 import { UserAvatar } from './UserAvatar';
+import { seededRandom, simulateForces } from '../utils/forceLayout';
 
 interface TrustNode {
   id: string;
@@ -25,20 +26,6 @@ interface TrustNode {
   trustLevel: 'self' | 'direct' | 'indirect';
 }
 
-// Seeded random for deterministic positioning
-function seededRandom(seed: string): () => number {
-  let hash = 0;
-  for (let i = 0; i < seed.length; i++) {
-    const char = seed.charCodeAt(i);
-    hash = ((hash << 5) - hash) + char;
-    hash = hash & hash;
-  }
-  return () => {
-    hash = (hash * 1103515245 + 12345) & 0x7fffffff;
-    return (hash / 0x7fffffff);
-  };
-}
-
 interface TrustEdge {
   source: string;
   target: string;
@@ -295,114 +282,6 @@ function buildGraph(
   };
 }
 
-/**
- * Simple force-directed layout simulation
- */
-function simulateForces(
-  nodes: TrustNode[],
-  edges: TrustEdge[],
-  width: number,
-  height: number,
-  iterations: number = 50
-): TrustNode[] {
-  const result = nodes.map(n => ({ ...n }));
-
-  const centerX = width / 2;
-  const centerY = height / 2;
-  const repulsionStrength = 25000;      // Much stronger repulsion to push nodes apart
-  const attractionStrength = 0.02;       // Weaker attraction along edges
-  const centerPull = 0.005;              // Weaker center pull
-  const damping = 0.85;
-  const minDistance = 120;               // Minimum distance between nodes
-
-  for (let i = 0; i < iterations; i++) {
-    // Repulsion between all nodes (with minimum distance enforcement)
-    for (let a = 0; a < result.length; a++) {
-      for (let b = a + 1; b < result.length; b++) {
-        let dx = result[b].x - result[a].x;
-        let dy = result[b].y - result[a].y;
-        let dist = Math.sqrt(dx * dx + dy * dy);
-
-        // If nodes are too close, add deterministic jitter to separate them
-        if (dist < 1) {
-          // Use node indices for deterministic offset
-          dx = ((a * 7 + b * 13) % 10 - 5);
-          dy = ((a * 11 + b * 3) % 10 - 5);
-          dist = Math.sqrt(dx * dx + dy * dy);
-        }
-
-        // Stronger force when below minimum distance
-        let force = repulsionStrength / (dist * dist);
-        if (dist < minDistance) {
-          force *= 3; // Triple the repulsion force when too close
-        }
-
-        const fx = (dx / dist) * force;
-        const fy = (dy / dist) * force;
-
-        result[a].vx -= fx;
-        result[a].vy -= fy;
-        result[b].vx += fx;
-        result[b].vy += fy;
-      }
-    }
-
-    // Attraction along edges (only when distance > ideal distance)
-    const idealEdgeLength = 180;
-    for (const edge of edges) {
-      const source = result.find(n => n.id === edge.source);
-      const target = result.find(n => n.id === edge.target);
-      if (!source || !target) continue;
-
-      const dx = target.x - source.x;
-      const dy = target.y - source.y;
-      const dist = Math.sqrt(dx * dx + dy * dy);
-
-      // Only attract if beyond ideal distance
-      if (dist > idealEdgeLength) {
-        const strength = (dist - idealEdgeLength) * attractionStrength;
-        const fx = (dx / dist) * strength;
-        const fy = (dy / dist) * strength;
-
-        source.vx += fx;
-        source.vy += fy;
-        target.vx -= fx;
-        target.vy -= fy;
-      }
-    }
-
-    // Pull towards center
-    for (const node of result) {
-      node.vx += (centerX - node.x) * centerPull;
-      node.vy += (centerY - node.y) * centerPull;
-    }
-
-    // Apply velocities with damping
-    for (const node of result) {
-      // Keep current user at center
-      if (node.isCurrentUser) {
-        node.x = centerX;
-        node.y = centerY;
-        node.vx = 0;
-        node.vy = 0;
-        continue;
-      }
-
-      node.x += node.vx;
-      node.y += node.vy;
-      node.vx *= damping;
-      node.vy *= damping;
-
-      // Keep within bounds
-      const padding = 50;
-      node.x = Math.max(padding, Math.min(width - padding, node.x));
-      node.y = Math.max(padding, Math.min(height - padding, node.y));
-    }
-  }
-
-  return result;
-}
-
 export function TrustGraph({
   userDoc,
   externalDocs: providedExternalDocs,
@@ -537,7 +416,10 @@ export function TrustGraph({
       graph.edges,
       dimensions.width,
       dimensions.height,
-      200  // More iterations for better convergence
+      {
+        iterations: 200,  // More iterations for better convergence
+        isCentered: (node) => node.isCurrentUser,  // Keep current user at center
+      }
     );
     return { nodes: layoutedNodes, edges: graph.edges };
   }, [userDoc, externalDocs, knownProfiles, trustedUserProfiles, dimensions.width, dimensions.height]);
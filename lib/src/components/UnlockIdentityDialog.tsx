@@ -0,0 +1,72 @@
+/**
+ * UnlockIdentityDialog - Asks for the PIN when a locked identity has to sign
+ *
+ * Shown while a requestPrivateKey call waits (see utils/identityLock).
+ * Rendered once by AppShell; cancelling rejects the waiting operations.
+ */
+
+import { useState } from 'react';
+import { useIdentityLock } from '../hooks/useIdentityLock';
+import { cancelUnlock, unlockIdentity } from '../utils/identityLock';
+
+export function UnlockIdentityDialog() {
+  const { isUnlockRequested } = useIdentityLock();
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  if (!isUnlockRequested) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pin) return;
+    setError('');
+    setIsUnlocking(true);
+    try {
+      await unlockIdentity(pin);
+      setPin('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Entsperren fehlgeschlagen');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setPin('');
+    setError('');
+    cancelUnlock();
+  };
+
+  return (
+    <div className="modal modal-open z-[9999]">
+      <div className="modal-box max-w-sm">
+        <h3 className="font-bold text-lg mb-2">Identität entsperren</h3>
+        <p className="text-sm text-base-content/60 mb-4">
+          Deine Identität ist mit einer PIN geschützt. Zum Signieren wird sie für diese Sitzung entsperrt.
+        </p>
+        <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+          <input
+            type="password"
+            className="input input-bordered w-full"
+            placeholder="PIN"
+            autoComplete="current-password"
+            value={pin}
+            onChange={(e) => setPin(e.target.value)}
+            autoFocus
+          />
+          {error && <p className="text-error text-sm">{error}</p>}
+          <div className="modal-action mt-2">
+            <button type="button" className="btn btn-ghost" onClick={handleCancel} disabled={isUnlocking}>
+              Abbrechen
+            </button>
+            <button type="submit" className="btn btn-primary" disabled={!pin || isUnlocking}>
+              {isUnlocking ? <span className="loading loading-spinner loading-sm"></span> : 'Entsperren'}
+            </button>
+          </div>
+        </form>
+      </div>
+      <div className="modal-backdrop" onClick={handleCancel}></div>
+    </div>
+  );
+}
@@ -1,4 +1,7 @@
 import Avatar from 'boring-avatars';
+import { useTrustLevel } from '../hooks/useTrustLevel';
+import { TRUST_LEVEL_LABELS } from '../utils/trust';
+import type { TrustLevel } from '../schema/identity';
 
 interface UserAvatarProps {
   did: string;
@@ -8,8 +11,18 @@ interface UserAvatarProps {
   className?: string;
   /** If provided, makes the avatar clickable */
   onClick?: () => void;
+  /** Show a badge with the transitive trust level (requires KnownProfilesProvider) */
+  showTrustLevel?: boolean;
 }
 
+// Badge colors per trust level ('unknown' has no badge)
+const TRUST_BADGE_CLASSES: Partial<Record<TrustLevel, string>> = {
+  verified: 'bg-success',
+  trusted: 'bg-info',
+  endorsed: 'bg-warning',
+  blocked: 'bg-error',
+};
+
 // Simple hash function to create consistent avatar seeds
 function hashString(str: string): string {
   let hash = 0;
@@ -25,7 +38,36 @@ function hashString(str: string): string {
  * UserAvatar component that shows either custom avatar or boring-avatars fallback
  * Optionally clickable when onClick is provided
  */
-export function UserAvatar({ did, avatarUrl, size, className = '', onClick }: UserAvatarProps) {
+export function UserAvatar({ did, avatarUrl, size, className = '', onClick, showTrustLevel = false }: UserAvatarProps) {
+  const trust = useTrustLevel(showTrustLevel ? did : undefined);
+  // No badge for the own avatar; blocks from the network override the level color
+  const isDistrusted = trust.level !== 'blocked' && trust.distrustedBy.length > 0;
+  const trustBadgeClass =
+    trust.degree === 0 ? undefined : isDistrusted ? 'bg-error' : TRUST_BADGE_CLASSES[trust.level];
+
+  const avatar = renderAvatar({ did, avatarUrl, size, className, onClick });
+  if (!trustBadgeClass) return avatar;
+
+  const sizeStyle = size === 'full' ? { width: '100%', height: '100%' } : { width: size, height: size };
+  return (
+    <div className="relative flex-shrink-0" style={sizeStyle}>
+      {avatar}
+      <span
+        className={`absolute bottom-0 right-0 w-1/3 h-1/3 max-w-3 max-h-3 rounded-full border-2 border-base-100 ${trustBadgeClass}`}
+        title={
+          isDistrusted
+            ? `${TRUST_LEVEL_LABELS[trust.level]} · von ${trust.distrustedBy.length} im Netzwerk blockiert`
+            : TRUST_LEVEL_LABELS[trust.level]
+        }
+      />
+    </div>
+  );
+}
+
+/**
+ * Render the plain avatar (custom image or boring-avatars fallback)
+ */
+function renderAvatar({ did, avatarUrl, size, className = '', onClick }: Omit<UserAvatarProps, 'showTrustLevel'>) {
   const clickableClass = onClick ? 'cursor-pointer hover:ring-2 hover:ring-primary hover:ring-offset-2 transition-all' : '';
   const isFull = size === 'full';
   const sizeStyle = isFull ? { width: '100%', height: '100%' } : { width: size, height: size };
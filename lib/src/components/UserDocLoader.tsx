@@ -21,7 +21,7 @@ const log = (msg: string, ...args: unknown[]) => {
  * Invisible component that loads a UserDocument and reports its state.
  *
  * Uses useDocument for reactive updates - when the document changes,
- * the onLoaded callback is called with the updated profile data.
+ * the onLoaded callback is called with the updated profile and trust data.
  */
 export function UserDocLoader({
   url,
@@ -102,8 +102,8 @@ export function UserDocLoader({
       return;
     }
 
-    // Validate expectedDid if provided
-    if (expectedDid && docDid !== expectedDid) {
+    // Validate expectedDid if provided (a rotated key is resolved by the provider)
+    if (expectedDid && docDid !== expectedDid && !doc.keySuccessions?.[expectedDid]) {
       log(`DID MISMATCH for ${url.substring(0, 40)}...: expected ${expectedDid.substring(0, 20)}, got ${docDid?.substring(0, 20)}`);
       // Still report it - the provider can decide what to do
     }
@@ -115,9 +115,12 @@ export function UserDocLoader({
       avatarUrl: doc.profile?.avatarUrl,
       updatedAt: doc.profile?.updatedAt,
       signature: doc.profile?.signature,
+      trustGiven: doc.trustGiven,
+      distrustGiven: doc.distrustGiven,
+      keySuccessions: doc.keySuccessions,
     });
 
-    // Only report if profile data has changed
+    // Only report if profile or trust data has changed
     if (profileKey !== lastReportedProfileRef.current) {
       lastReportedProfileRef.current = profileKey;
 
@@ -129,9 +132,13 @@ export function UserDocLoader({
         avatarUrl: doc.profile?.avatarUrl,
         updatedAt: doc.profile?.updatedAt,
         signature: doc.profile?.signature,
+      }, {
+        trustGiven: { ...(doc.trustGiven ?? {}) },
+        distrustGiven: { ...(doc.distrustGiven ?? {}) },
+        keySuccessions: { ...(doc.keySuccessions ?? {}) },
       });
     }
-  }, [doc, doc?.did, url, expectedDid, onLoaded, doc?.profile?.displayName, doc?.profile?.avatarUrl, doc?.profile?.updatedAt, doc?.profile?.signature]);
+  }, [doc, doc?.did, url, expectedDid, onLoaded, doc?.profile?.displayName, doc?.profile?.avatarUrl, doc?.profile?.updatedAt, doc?.profile?.signature, doc?.trustGiven, doc?.distrustGiven, doc?.keySuccessions]);
 
   // This component renders nothing - it's invisible
   return null;
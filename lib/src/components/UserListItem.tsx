@@ -7,6 +7,8 @@
 
 import { UserAvatar } from './UserAvatar';
 import { getDefaultDisplayName } from '../utils/did';
+import { useTrustLevel } from '../hooks/useTrustLevel';
+import { useKnownProfilesContextOptional } from '../hooks/useKnownProfilesContext';
 import type { TrustAttestation } from '../schema/identity';
 
 type SignatureStatus = 'valid' | 'invalid' | 'missing' | 'pending';
@@ -66,6 +68,17 @@ export function UserListItem({
   const hasOutgoingTrust = !!outgoingTrust;
   const hasIncomingTrust = !!incomingTrust;
 
+  // Transitive trust (2nd/3rd degree or blocked) - 1st degree is shown as "Du vertraust"
+  const trust = useTrustLevel(showTrustBadges && !isCurrentUser ? did : undefined);
+  const knownProfiles = useKnownProfilesContextOptional();
+  const trustPathNames = trust.path
+    .slice(1, -1)
+    .map((pathDid) => knownProfiles?.getProfile(pathDid)?.displayName || getDefaultDisplayName(pathDid))
+    .join(' → ');
+  const distrustedByNames = trust.distrustedBy
+    .map((blockerDid) => knownProfiles?.getProfile(blockerDid)?.displayName || getDefaultDisplayName(blockerDid))
+    .join(', ');
+
   // Determine effective display name: use DID-based name if profile is invalid
   const isProfileInvalid = profileSignatureStatus === 'invalid';
   const effectiveDisplayName = isProfileInvalid
@@ -194,6 +207,25 @@ export function UserListItem({
               Vertraut dir
             </span>
           )}
+          {showTrustBadges && !hasOutgoingTrust && (trust.level === 'trusted' || trust.level === 'endorsed') && (
+            <span
+              className={`tooltip tooltip-top badge badge-ghost ${compact ? 'badge-xs' : 'badge-sm'}`}
+              data-tip={`Vertraut über ${trustPathNames}`}
+            >
+              {trust.degree}. Grad
+            </span>
+          )}
+          {showTrustBadges && trust.level === 'blocked' && (
+            <span className={`badge badge-error ${compact ? 'badge-xs' : 'badge-sm'}`}>Blockiert</span>
+          )}
+          {showTrustBadges && trust.level !== 'blocked' && trust.distrustedBy.length > 0 && (
+            <span
+              className={`tooltip tooltip-top badge badge-warning ${compact ? 'badge-xs' : 'badge-sm'}`}
+              data-tip={`Blockiert von ${distrustedByNames}`}
+            >
+              Im Netzwerk blockiert
+            </span>
+          )}
           {/* Signature status indicators */}
           {showTrustBadges && !isCurrentUser && (
             <>
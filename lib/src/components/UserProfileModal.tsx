@@ -5,11 +5,17 @@ import type { BaseDocument } from '../schema/document';
 import type { UserDocument } from '../schema/userDocument';
 import type { TrustAttestation } from '../schema/identity';
 import type { TrustedUserProfile } from '../hooks/useAppContext';
+import { useTrustLevel } from '../hooks/useTrustLevel';
+import { isAttestationExpired, isAttestationExpiringSoon } from '../utils/trust';
 import { extractPublicKeyFromDid, base64Encode, getDefaultDisplayName } from '../utils/did';
 import { formatRelativeTime, formatFullDateTime } from '../utils/time';
 import { verifyEntitySignature } from '../utils/signature';
 import { processImageFile } from '../utils/imageProcessing';
 import { loadSharedIdentity, saveSharedIdentity } from '../utils/storage';
+import { MIN_PASSPHRASE_LENGTH } from '../utils/identityBackup';
+import { RecoverySetupSection, type RecoveryContact } from './RecoverySetupSection';
+import { RecoveryReleaseSection } from './RecoveryReleaseSection';
+import { IdentityLockSection } from './IdentityLockSection';
 
 type SignatureStatus = 'valid' | 'invalid' | 'missing' | 'pending';
 
@@ -52,6 +58,14 @@ interface UserProfileModalProps<TData = unknown> {
   onOpenScanner?: () => void;
   /** Called when user wants to revoke trust */
   onRevokeTrust?: (did: string) => void;
+  /** Called when user wants to re-sign an expiring or expired trust attestation */
+  onRenewTrust?: (did: string) => void;
+  /** Whether the current user blocked this profile */
+  isBlocked?: boolean;
+  /** Called when user wants to block this profile (enables block button) */
+  onBlock?: (did: string) => void;
+  /** Called when user wants to lift the block */
+  onUnblock?: (did: string) => void;
   /** User document URL for QR code (only shown for own profile) */
   userDocUrl?: string;
   /** Additional custom actions */
@@ -65,12 +79,30 @@ interface UserProfileModalProps<TData = unknown> {
   userDoc?: UserDocument | null;
   /** Callback to update identity (name, avatar) - enables edit mode for own profile */
   onUpdateIdentity?: (updates: { displayName?: string; avatarUrl?: string }) => void;
-  /** Callback to export identity */
-  onExportIdentity?: () => void;
+  /** Callback to export identity, encrypted with the given passphrase */
+  onExportIdentity?: (passphrase: string) => void | Promise<void>;
   /** Callback to import identity */
   onImportIdentity?: () => void;
   /** Callback to reset identity */
   onResetIdentity?: () => void;
+  /** Callback to replace the keypair while keeping trust (key rotation) */
+  onRotateKey?: () => void;
+  /** Callback to split the own key among trusted contacts (enables recovery setup) */
+  onSetupRecovery?: (holderDids: string[], threshold: number) => Promise<void>;
+  /** Whether the current user holds a recovery share for this profile */
+  hasRecoveryShare?: boolean;
+  /** Callback to release the held share to a temporary DID, returns the release code */
+  onReleaseRecoveryShare?: (ownerDid: string, recipientDid: string) => Promise<string>;
+  /** Whether the stored private key is protected by a PIN */
+  isIdentityLockEnabled?: boolean;
+  /** Whether the PIN-protected key is not unlocked in this session */
+  isIdentityLocked?: boolean;
+  /** Callback to protect the private key with a PIN (enables the PIN section) */
+  onEnableIdentityLock?: (pin: string) => Promise<void>;
+  /** Callback to remove the PIN protection */
+  onDisableIdentityLock?: (pin: string) => Promise<void>;
+  /** Callback to lock the identity until the PIN is entered again */
+  onLockIdentity?: () => void;
 }
 
 /**
@@ -100,6 +132,10 @@ export function UserProfileModal<TData = unknown>({
   onTrust,
   onOpenScanner,
   onRevokeTrust,
+  onRenewTrust,
+  isBlocked = false,
+  onBlock,
+  onUnblock,
   userDocUrl,
   customActions = [],
   hideTrustActions = false,
@@ -109,6 +145,15 @@ export function UserProfileModal<TData = unknown>({
   onExportIdentity,
   onImportIdentity,
   onResetIdentity,
+  onRotateKey,
+  onSetupRecovery,
+  hasRecoveryShare = false,
+  onReleaseRecoveryShare,
+  isIdentityLockEnabled = false,
+  isIdentityLocked = false,
+  onEnableIdentityLock,
+  onDisableIdentityLock,
+  onLockIdentity,
 }: UserProfileModalProps<TData>) {
   const [trustGivenStatus, setTrustGivenStatus] = useState<SignatureStatus>('pending');
   const [trustReceivedStatus, setTrustReceivedStatus] = useState<SignatureStatus>('pending');
@@ -117,6 +162,11 @@ export function UserProfileModal<TData = unknown>({
   const [isEditingName, setIsEditingName] = useState(false);
   const [nameInput, setNameInput] = useState('');
   const [avatarError, setAvatarError] = useState('');
+  const [showBlockConfirm, setShowBlockConfirm] = useState(false);
+  const [showRotateConfirm, setShowRotateConfirm] = useState(false);
+  const [showExportForm, setShowExportForm] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [exportPassphraseRepeat, setExportPassphraseRepeat] = useState('');
 
   const isOwnProfile = currentUserDid === did;
   const canEdit = isOwnProfile && !!onUpdateIdentity;
@@ -144,6 +194,24 @@ export function UserProfileModal<TData = unknown>({
   const hasTrustGiven = !!trustGiven;
   const hasTrustReceived = !!trustReceived;
   const isMutualTrust = hasTrustGiven && hasTrustReceived;
+  const needsRenewal = !!trustGiven && (isAttestationExpired(trustGiven) || isAttestationExpiringSoon(trustGiven));
+
+  // Contacts that can hold a recovery share (own valid trust attestations)
+  const recoveryContacts: RecoveryContact[] = isOwnProfile
+    ? Object.values(userDoc?.trustGiven ?? {})
+        .filter((attestation) => !isAttestationExpired(attestation))
+        .map((attestation) => ({
+          did: attestation.trusteeDid,
+          displayName: trustedUserProfiles[attestation.trusteeDid]?.displayName,
+          avatarUrl: trustedUserProfiles[attestation.trusteeDid]?.avatarUrl,
+        }))
+    : [];
+
+  // Blocks by people from the own network
+  const { distrustedBy } = useTrustLevel(isOwnProfile ? undefined : did);
+  const distrustedByNames = distrustedBy.map(
+    (blockerDid) => trustedUserProfiles[blockerDid]?.displayName || getDefaultDisplayName(blockerDid)
+  );
 
   // Verify signatures when attestations change
   useEffect(() => {
@@ -216,6 +284,25 @@ export function UserProfileModal<TData = unknown>({
 
   if (!isOpen) return null;
 
+  const renderExpiryBadge = (attestation: TrustAttestation) => {
+    if (!attestation.expiresAt) return null;
+    if (isAttestationExpired(attestation)) {
+      return (
+        <span className="badge badge-error badge-xs" title={formatFullDateTime(attestation.expiresAt)}>
+          Abgelaufen
+        </span>
+      );
+    }
+    if (isAttestationExpiringSoon(attestation)) {
+      return (
+        <span className="badge badge-warning badge-xs" title={formatFullDateTime(attestation.expiresAt)}>
+          Läuft bald ab
+        </span>
+      );
+    }
+    return null;
+  };
+
   const renderSignatureIcon = (status: SignatureStatus, signerName: string) => {
     const tooltip =
       status === 'valid' ? `${signerName} Signatur verifiziert` :
@@ -410,18 +497,100 @@ export function UserProfileModal<TData = unknown>({
                 </summary>
                 <div className="collapse-content">
                   <div className="flex flex-col gap-2 pt-2">
-                    <button className="btn btn-outline btn-sm" onClick={onExportIdentity}>
-                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
-                      </svg>
-                      Exportieren
-                    </button>
+                    {!showExportForm ? (
+                      <button className="btn btn-outline btn-sm" onClick={() => setShowExportForm(true)}>
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                        </svg>
+                        Exportieren
+                      </button>
+                    ) : (
+                      <div className="bg-base-100 rounded-lg p-2 text-sm flex flex-col gap-2">
+                        <p>
+                          Die Datei enthält deinen privaten Schlüssel und wird mit einer Passphrase verschlüsselt.
+                          Ohne Passphrase lässt sie sich nicht wieder importieren.
+                        </p>
+                        <input
+                          type="password"
+                          className="input input-bordered input-sm w-full"
+                          placeholder={`Passphrase (mind. ${MIN_PASSPHRASE_LENGTH} Zeichen)`}
+                          autoComplete="new-password"
+                          value={exportPassphrase}
+                          onChange={(e) => setExportPassphrase(e.target.value)}
+                        />
+                        <input
+                          type="password"
+                          className="input input-bordered input-sm w-full"
+                          placeholder="Passphrase wiederholen"
+                          autoComplete="new-password"
+                          value={exportPassphraseRepeat}
+                          onChange={(e) => setExportPassphraseRepeat(e.target.value)}
+                        />
+                        {exportPassphraseRepeat && exportPassphrase !== exportPassphraseRepeat && (
+                          <span className="text-error text-xs">Die Passphrasen stimmen nicht überein</span>
+                        )}
+                        <div className="flex gap-2">
+                          <button
+                            className="btn btn-primary btn-sm flex-1"
+                            disabled={exportPassphrase.length < MIN_PASSPHRASE_LENGTH || exportPassphrase !== exportPassphraseRepeat}
+                            onClick={() => {
+                              onExportIdentity(exportPassphrase);
+                              setShowExportForm(false);
+                              setExportPassphrase('');
+                              setExportPassphraseRepeat('');
+                            }}
+                          >
+                            Verschlüsselt exportieren
+                          </button>
+                          <button
+                            className="btn btn-ghost btn-sm flex-1"
+                            onClick={() => {
+                              setShowExportForm(false);
+                              setExportPassphrase('');
+                              setExportPassphraseRepeat('');
+                            }}
+                          >
+                            Abbrechen
+                          </button>
+                        </div>
+                      </div>
+                    )}
                     <button className="btn btn-outline btn-sm" onClick={onImportIdentity}>
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                       </svg>
                       Importieren
                     </button>
+                    {onRotateKey && !showRotateConfirm && (
+                      <button className="btn btn-outline btn-sm" onClick={() => setShowRotateConfirm(true)}>
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z" />
+                        </svg>
+                        Schlüssel erneuern
+                      </button>
+                    )}
+                    {onRotateKey && showRotateConfirm && (
+                      <div className="bg-base-100 rounded-lg p-2 text-sm">
+                        <p className="mb-2">
+                          Neuer Schlüssel und neue DID. Vertrauen bleibt erhalten, der alte Schlüssel wird ungültig.
+                          Andere Geräte müssen die Identität danach neu importieren.
+                        </p>
+                        <div className="flex gap-2">
+                          <button
+                            className="btn btn-warning btn-sm flex-1"
+                            onClick={() => {
+                              setShowRotateConfirm(false);
+                              onRotateKey();
+                            }}
+                          >
+                            Erneuern
+                          </button>
+                          <button className="btn btn-ghost btn-sm flex-1" onClick={() => setShowRotateConfirm(false)}>
+                            Abbrechen
+                          </button>
+                        </div>
+                      </div>
+                    )}
                     <button className="btn btn-error btn-sm" onClick={onResetIdentity}>
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
@@ -432,6 +601,40 @@ export function UserProfileModal<TData = unknown>({
                 </div>
               </details>
             )}
+
+            {/* PIN protection of the stored key - collapsible */}
+            {canEdit && onEnableIdentityLock && onDisableIdentityLock && onLockIdentity && (
+              <details className="collapse collapse-arrow bg-base-200 rounded-lg mb-2">
+                <summary className="collapse-title">
+                  PIN-Schutz
+                </summary>
+                <div className="collapse-content">
+                  <IdentityLockSection
+                    isLockEnabled={isIdentityLockEnabled}
+                    isLocked={isIdentityLocked}
+                    onEnable={onEnableIdentityLock}
+                    onDisable={onDisableIdentityLock}
+                    onLock={onLockIdentity}
+                  />
+                </div>
+              </details>
+            )}
+
+            {/* Social recovery - collapsible */}
+            {canEdit && onSetupRecovery && (
+              <details className="collapse collapse-arrow bg-base-200 rounded-lg mb-2">
+                <summary className="collapse-title">
+                  Wiederherstellung über Kontakte
+                </summary>
+                <div className="collapse-content">
+                  <RecoverySetupSection
+                    contacts={recoveryContacts}
+                    setup={userDoc?.recoverySetup}
+                    onSetup={onSetupRecovery}
+                  />
+                </div>
+              </details>
+            )}
           </>
         ) : (
           <>
@@ -515,8 +718,25 @@ export function UserProfileModal<TData = unknown>({
               {hasTrustReceived && !isMutualTrust && !hasTrustGiven && (
                 <span className="badge badge-warning gap-1 mt-1">Vertraut dir</span>
               )}
+              {isBlocked && (
+                <span className="badge badge-error gap-1 mt-1">Blockiert</span>
+              )}
             </div>
 
+            {/* Network blocks warning */}
+            {distrustedBy.length > 0 && (
+              <div role="alert" className="alert alert-warning text-sm py-2 mb-4">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z" />
+                </svg>
+                <span>
+                  {distrustedBy.length === 1
+                    ? `Von ${distrustedByNames[0]} aus deinem Netzwerk blockiert`
+                    : `Von ${distrustedBy.length} Personen aus deinem Netzwerk blockiert: ${distrustedByNames.join(', ')}`}
+                </span>
+              </div>
+            )}
+
             {/* DID - Compact */}
             <div className="bg-base-200 rounded-lg p-2 mb-4">
               <div className="text-xs text-base-content/50 mb-0.5">DID</div>
@@ -535,6 +755,7 @@ export function UserProfileModal<TData = unknown>({
                       <span className="text-base-content/70">Von dir verifiziert</span>
                     </div>
                     <div className="flex items-center gap-1">
+                      {renderExpiryBadge(trustGiven)}
                       {renderSignatureIcon(trustGivenStatus, 'Deine')}
                       {trustGiven.createdAt && (
                         <span
@@ -548,6 +769,12 @@ export function UserProfileModal<TData = unknown>({
                   </div>
                 )}
 
+                {needsRenewal && onRenewTrust && (
+                  <button className="btn btn-outline btn-sm w-full" onClick={() => onRenewTrust(did)}>
+                    Vertrauen erneuern
+                  </button>
+                )}
+
                 {hasTrustReceived && trustReceived && (
                   <div className="flex items-center justify-between text-sm bg-base-200 rounded-lg px-3 py-2">
                     <div className="flex items-center gap-2">
@@ -557,6 +784,7 @@ export function UserProfileModal<TData = unknown>({
                       <span className="text-base-content/70">Hat dich verifiziert</span>
                     </div>
                     <div className="flex items-center gap-1">
+                      {renderExpiryBadge(trustReceived)}
                       {renderSignatureIcon(trustReceivedStatus, `${displayName}`)}
                       {trustReceived.createdAt && (
                         <span
@@ -639,6 +867,43 @@ export function UserProfileModal<TData = unknown>({
                 Schließen
               </button>
             </div>
+            {hasRecoveryShare && onReleaseRecoveryShare && (
+              <RecoveryReleaseSection
+                ownerName={displayName}
+                onRelease={(recipientDid) => onReleaseRecoveryShare(did, recipientDid)}
+              />
+            )}
+            {isBlocked && onUnblock && (
+              <button className="btn btn-ghost btn-sm" onClick={() => onUnblock(did)}>
+                Blockierung aufheben
+              </button>
+            )}
+            {!isBlocked && onBlock && !showBlockConfirm && (
+              <button className="btn btn-ghost btn-sm text-error" onClick={() => setShowBlockConfirm(true)}>
+                Blockieren
+              </button>
+            )}
+            {!isBlocked && onBlock && showBlockConfirm && (
+              <div className="flex flex-col items-center gap-2">
+                <span className="text-sm text-error text-center">
+                  {displayName} blockieren? Die Person wird in allen Modulen ausgeblendet.
+                </span>
+                <div className="flex gap-2">
+                  <button
+                    className="btn btn-error btn-sm"
+                    onClick={() => {
+                      onBlock(did);
+                      setShowBlockConfirm(false);
+                    }}
+                  >
+                    Ja
+                  </button>
+                  <button className="btn btn-ghost btn-sm" onClick={() => setShowBlockConfirm(false)}>
+                    Nein
+                  </button>
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -6,6 +6,8 @@
  * - List of participants
  * - Share link
  * - Workspace settings
+ * - End-to-end encryption: enable, grant access, remove members (key rotation)
+ * - Roles: enable the signed ACL, set default role, assign roles to participants
  */
 
 import { useState, useCallback } from 'react';
@@ -13,6 +15,10 @@ import { UserListItem } from './UserListItem';
 import type { BaseDocument } from '../schema/document';
 import type { UserDocument } from '../schema/userDocument';
 import type { TrustedUserProfile } from '../hooks/useAppContext';
+import type { WorkspaceEncryptionControls } from '../hooks/useWorkspaceEncryption';
+import type { WorkspaceAclControls } from '../hooks/useWorkspaceAcl';
+import type { WorkspaceRole } from '../schema/document';
+import { WORKSPACE_ROLE_LABELS, hasWorkspaceRole } from '../utils/acl';
 import type { WorkspaceInfo } from './WorkspaceSwitcher';
 import { processImageFile } from '../utils/imageProcessing';
 
@@ -47,8 +53,17 @@ interface WorkspaceModalProps<TData = unknown> {
   trustedUserProfiles?: Record<string, TrustedUserProfile>;
   /** Callback to leave the workspace */
   onLeaveWorkspace?: () => void;
+  /** Encryption controls (only apps that decrypt workspace data provide these) */
+  encryption?: WorkspaceEncryptionControls;
+  /** Role controls (signed ACL) */
+  acl?: WorkspaceAclControls;
 }
 
+/**
+ * Roles that can be assigned in the UI (owner is fixed)
+ */
+const ASSIGNABLE_ROLES: WorkspaceRole[] = ['viewer', 'member', 'admin'];
+
 export function WorkspaceModal<TData = unknown>({
   isOpen,
   onClose,
@@ -65,14 +80,25 @@ export function WorkspaceModal<TData = unknown>({
   userDoc,
   trustedUserProfiles = {},
   onLeaveWorkspace,
+  encryption,
+  acl,
 }: WorkspaceModalProps<TData>) {
   // Edit states
   const [isEditingName, setIsEditingName] = useState(false);
   const [nameInput, setNameInput] = useState(currentWorkspace?.name || '');
   const [avatarError, setAvatarError] = useState('');
   const [showLeaveConfirm, setShowLeaveConfirm] = useState(false);
+  const [showEncryptConfirm, setShowEncryptConfirm] = useState(false);
+  const [memberToRemove, setMemberToRemove] = useState<string | null>(null);
+  const [isUpdatingKeys, setIsUpdatingKeys] = useState(false);
+  const [isUpdatingRoles, setIsUpdatingRoles] = useState(false);
 
-  const canEdit = !!onUpdateWorkspace;
+  // With an ACL, only admins may change settings, roles and keys
+  const isAclEnabled = !!acl?.isEnabled;
+  const isAdmin = !acl || !isAclEnabled || acl.can(currentUserDid, 'admin');
+  const canEdit = !!onUpdateWorkspace && isAdmin;
+  const isEncrypted = !!doc.encryption;
+  const canManageKeys = encryption?.status === 'unlocked' && isAdmin;
   const displayName = currentWorkspace?.name || 'Workspace';
   const avatarUrl = currentWorkspace?.avatar;
 
@@ -129,6 +155,66 @@ export function WorkspaceModal<TData = unknown>({
     setAvatarError('');
   };
 
+  // Run a key operation (wrapping/rotation is async) with shared error handling
+  const runKeyOperation = async (operation: () => Promise<void>, successMessage: string) => {
+    setIsUpdatingKeys(true);
+    try {
+      await operation();
+      onShowToast?.(successMessage);
+    } catch (error) {
+      console.error('[WorkspaceModal] Key operation failed:', error);
+      onShowToast?.('Schlüsselverwaltung fehlgeschlagen');
+    } finally {
+      setIsUpdatingKeys(false);
+    }
+  };
+
+  const handleEnableEncryption = () => {
+    if (!encryption) return;
+    setShowEncryptConfirm(false);
+    runKeyOperation(encryption.enableEncryption, 'Workspace ist jetzt verschlüsselt');
+  };
+
+  const handleGrantAccess = (did: string) => {
+    if (!encryption) return;
+    runKeyOperation(() => encryption.grantAccess(did), 'Zugriff gewährt');
+  };
+
+  const handleRemoveMember = (did: string) => {
+    if (!encryption) return;
+    setMemberToRemove(null);
+    runKeyOperation(() => encryption.removeMember(did), 'Mitglied entfernt, Schlüssel erneuert');
+  };
+
+  // Run a role operation (signing is async) with shared error handling
+  const runRoleOperation = async (operation: () => Promise<void>, successMessage: string) => {
+    setIsUpdatingRoles(true);
+    try {
+      await operation();
+      onShowToast?.(successMessage);
+    } catch (error) {
+      console.error('[WorkspaceModal] Role operation failed:', error);
+      onShowToast?.('Rollenverwaltung fehlgeschlagen');
+    } finally {
+      setIsUpdatingRoles(false);
+    }
+  };
+
+  const handleEnableAcl = () => {
+    if (!acl) return;
+    runRoleOperation(() => acl.enableAcl('member'), 'Rollen aktiviert');
+  };
+
+  const handleSetDefaultRole = (defaultRole: 'member' | 'viewer') => {
+    if (!acl) return;
+    runRoleOperation(() => acl.updateSettings({ defaultRole }), 'Standardrolle geändert');
+  };
+
+  const handleSetRole = (did: string, role: WorkspaceRole) => {
+    if (!acl) return;
+    runRoleOperation(() => acl.setRole(did, role), 'Rolle geändert');
+  };
+
   // Handle share link
   const handleCopyLink = useCallback(() => {
     if (onShareLink) {
@@ -283,6 +369,121 @@ export function WorkspaceModal<TData = unknown>({
           )}
         </div>
 
+        {/* Encryption Section */}
+        {(isEncrypted || encryption) && (
+          <div className="mb-4 bg-base-200 rounded-lg p-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-semibold">
+                {isEncrypted ? '🔒 Ende-zu-Ende-verschlüsselt' : '🔓 Nicht verschlüsselt'}
+              </span>
+              {!isEncrypted && encryption && !showEncryptConfirm && (
+                <button
+                  className="btn btn-sm btn-outline"
+                  onClick={() => setShowEncryptConfirm(true)}
+                  disabled={isUpdatingKeys}
+                >
+                  Verschlüsseln
+                </button>
+              )}
+              {isUpdatingKeys && <span className="loading loading-spinner loading-sm"></span>}
+            </div>
+            {!isEncrypted && (
+              <p className="text-xs text-base-content/60 mt-1">
+                Inhalte sind für jeden mit dem Link lesbar.
+              </p>
+            )}
+            {showEncryptConfirm && (
+              <div className="mt-2">
+                <p className="text-xs text-warning mb-2">
+                  Nur aktuelle Teilnehmer erhalten einen Schlüssel. Bisherige Inhalte bleiben in der
+                  Dokumenthistorie lesbar.
+                </p>
+                <div className="flex gap-2">
+                  <button className="btn btn-primary btn-sm flex-1" onClick={handleEnableEncryption}>
+                    Verschlüsseln
+                  </button>
+                  <button className="btn btn-ghost btn-sm flex-1" onClick={() => setShowEncryptConfirm(false)}>
+                    Abbrechen
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* Pending access requests */}
+            {canManageKeys && encryption && encryption.pendingRequests.length > 0 && (
+              <div className="mt-3 space-y-1">
+                <p className="text-xs text-base-content/70">Zugriffsanfragen</p>
+                {encryption.pendingRequests.map((did) => (
+                  <div key={did} className="flex items-center justify-between gap-2">
+                    <span className="text-sm truncate">
+                      {doc.identities?.[did]?.displayName || did.slice(0, 16) + '...'}
+                    </span>
+                    <button
+                      className="btn btn-primary btn-xs"
+                      onClick={() => handleGrantAccess(did)}
+                      disabled={isUpdatingKeys}
+                    >
+                      Freigeben
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Roles Section */}
+        {acl && (
+          <div className="mb-4 bg-base-200 rounded-lg p-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm font-semibold">
+                {isAclEnabled ? '🛡️ Rollen aktiv' : '👥 Keine Rollen'}
+              </span>
+              {!isAclEnabled && (
+                <button
+                  className="btn btn-sm btn-outline"
+                  onClick={handleEnableAcl}
+                  disabled={isUpdatingRoles}
+                >
+                  Rollen aktivieren
+                </button>
+              )}
+              {isUpdatingRoles && <span className="loading loading-spinner loading-sm"></span>}
+            </div>
+            {!isAclEnabled && (
+              <p className="text-xs text-base-content/60 mt-1">
+                Alle Teilnehmer können Inhalte und Einstellungen ändern. Beim Aktivieren wirst du
+                Eigentümer.
+              </p>
+            )}
+            {isAclEnabled && acl.resolved && !acl.settings && (
+              <p className="text-xs text-warning mt-1">
+                Workspace-Einstellungen sind nicht gültig signiert. Neue Teilnehmer haben nur Lesezugriff.
+              </p>
+            )}
+            {isAclEnabled && (
+              <div className="flex items-center justify-between gap-2 mt-2">
+                <span className="text-xs text-base-content/70">Neue Teilnehmer</span>
+                {isAdmin ? (
+                  <select
+                    className="select select-bordered select-xs"
+                    value={acl.resolved?.defaultRole ?? 'viewer'}
+                    onChange={(e) => handleSetDefaultRole(e.target.value as 'member' | 'viewer')}
+                    disabled={isUpdatingRoles || !acl.resolved}
+                  >
+                    <option value="member">{WORKSPACE_ROLE_LABELS.member}</option>
+                    <option value="viewer">{WORKSPACE_ROLE_LABELS.viewer}</option>
+                  </select>
+                ) : (
+                  <span className="text-xs">
+                    {WORKSPACE_ROLE_LABELS[acl.resolved?.defaultRole ?? 'viewer']}
+                  </span>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Participants Section */}
         <div className="mb-4">
           <h3 className="font-semibold text-sm text-base-content/70 mb-2 flex items-center gap-2">
@@ -294,22 +495,75 @@ export function WorkspaceModal<TData = unknown>({
 
           <div className="space-y-1 max-h-[200px] overflow-y-auto bg-base-200 rounded-lg p-2">
             {participants.map(({ did, displayName, avatarUrl, profileSignatureStatus }) => (
-              <UserListItem
-                key={did}
-                did={did}
-                displayName={displayName}
-                avatarUrl={avatarUrl}
-                currentUserDid={currentUserDid}
-                isHidden={hiddenUserDids.has(did)}
-                outgoingTrust={userDoc?.trustGiven?.[did]}
-                incomingTrust={userDoc?.trustReceived?.[did]}
-                profileSignatureStatus={profileSignatureStatus}
-                onUserClick={onUserClick}
-                onToggleVisibility={onToggleUserVisibility}
-                showVisibilityToggle={true}
-                showTrustBadges={true}
-                compact={true}
-              />
+              <div key={did} className="flex items-center gap-1">
+                <div className="flex-1 min-w-0">
+                  <UserListItem
+                    did={did}
+                    displayName={displayName}
+                    avatarUrl={avatarUrl}
+                    currentUserDid={currentUserDid}
+                    isHidden={hiddenUserDids.has(did)}
+                    outgoingTrust={userDoc?.trustGiven?.[did]}
+                    incomingTrust={userDoc?.trustReceived?.[did]}
+                    profileSignatureStatus={profileSignatureStatus}
+                    onUserClick={onUserClick}
+                    onToggleVisibility={onToggleUserVisibility}
+                    showVisibilityToggle={true}
+                    showTrustBadges={true}
+                    compact={true}
+                  />
+                </div>
+                {/* Role (editable by admins, owner is fixed) */}
+                {isAclEnabled && acl && (
+                  isAdmin && did !== currentUserDid && did !== acl.resolved?.ownerDid ? (
+                    <select
+                      className="select select-bordered select-xs"
+                      value={acl.getRole(did) ?? 'viewer'}
+                      onChange={(e) => handleSetRole(did, e.target.value as WorkspaceRole)}
+                      disabled={isUpdatingRoles || !acl.resolved}
+                      title="Rolle"
+                    >
+                      {ASSIGNABLE_ROLES.filter((role) => hasWorkspaceRole(acl.currentRole, role)).map((role) => (
+                        <option key={role} value={role}>
+                          {WORKSPACE_ROLE_LABELS[role]}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="badge badge-ghost badge-sm">
+                      {WORKSPACE_ROLE_LABELS[acl.getRole(did) ?? 'viewer']}
+                    </span>
+                  )
+                )}
+                {/* Remove member (rotates the workspace key) */}
+                {canManageKeys && did !== currentUserDid && (
+                  memberToRemove === did ? (
+                    <div className="flex items-center gap-1">
+                      <button
+                        className="btn btn-error btn-xs"
+                        onClick={() => handleRemoveMember(did)}
+                        disabled={isUpdatingKeys}
+                      >
+                        Entfernen
+                      </button>
+                      <button className="btn btn-ghost btn-xs" onClick={() => setMemberToRemove(null)}>
+                        Nein
+                      </button>
+                    </div>
+                  ) : (
+                    <button
+                      className="btn btn-ghost btn-xs btn-circle text-error"
+                      onClick={() => setMemberToRemove(did)}
+                      title="Mitglied entfernen und Schlüssel erneuern"
+                      disabled={isUpdatingKeys}
+                    >
+                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7a4 4 0 11-8 0 4 4 0 018 0zM9 14a6 6 0 00-6 6v1h12v-1a6 6 0 00-6-6zM21 12h-6" />
+                      </svg>
+                    </button>
+                  )
+                )}
+              </div>
             ))}
 
             {participants.length === 0 && (
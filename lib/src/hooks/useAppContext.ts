@@ -4,7 +4,7 @@
  * Manages:
  * - Identity (loading, saving, updating)
  * - Workspaces (list, switching, creating)
- * - Hidden users
+ * - Hidden and blocked users
  * - Trust attestations + notifications (from User-Doc)
  * - Toast notifications
  * - All standard modal props (TrustReciprocityModal, NewWorkspaceModal, Toast)
@@ -14,6 +14,11 @@
  *
  * Trust Source: User document (userDoc.trustGiven/trustReceived)
  * Trust attestations are stored in the personal UserDocument, not workspace documents.
+ * Blocks are signed distrust attestations in userDoc.distrustGiven and sync across devices.
+ * Blocked users are always part of hiddenUserDids.
+ * Key rotation publishes a succession signed by the old key (userDoc.keySuccessions),
+ * so trust given to and received by the old DID carries over.
+ * With a PIN-locked identity, signing handlers ask for the PIN (utils/identityLock).
  */
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
@@ -29,13 +34,48 @@ import {
 import { type WorkspaceInfo } from '../components/WorkspaceSwitcher';
 import { addWorkspace as addWorkspaceToDoc } from '../schema/userDocument';
 import type { BaseDocument } from '../schema/document';
-import type { TrustAttestation } from '../schema/identity';
+import type { DistrustAttestation, TrustAttestation } from '../schema/identity';
 import type { UserDocument } from '../schema/userDocument';
-import { addTrustGiven, addTrustReceived, removeTrustGiven, updateUserProfile } from '../schema/userDocument';
-import { signEntity, verifyEntitySignature, signProfile, verifyProfileSignature } from '../utils/signature';
-import { extractPublicKeyFromDid, base64Encode } from '../utils/did';
+import {
+  addDistrustGiven,
+  addKeySuccession,
+  addTrustGiven,
+  addRecoveryShare,
+  addTrustReceived,
+  removeDistrustGiven,
+  removeRecoveryShare,
+  removeTrustGiven,
+  setRecoverySetup,
+  updateUserProfile,
+} from '../schema/userDocument';
+import {
+  signEntity,
+  verifyEntitySignature,
+  signProfile,
+  verifyProfileSignature,
+  resolvePrivateKey,
+} from '../utils/signature';
+import { extractPublicKeyFromDid, base64Encode, generateDidIdentity } from '../utils/did';
+import { createKeySuccession } from '../utils/keyRotation';
+import {
+  createRecoveryShares,
+  encodeRecoveryRelease,
+  recoverIdentity,
+  releaseRecoveryShare,
+  type RecoveryRelease,
+} from '../utils/recovery';
+import {
+  disableIdentityLock,
+  enableIdentityLock,
+  lockIdentity,
+  saveIdentityKeepingLock,
+  signingKeyOf,
+} from '../utils/identityLock';
+import { isAttestationExpired, TRUST_ATTESTATION_VALIDITY_MS } from '../utils/trust';
 import { updateDebugState } from '../utils/debug';
 import { broadcastProfileUpdate } from './useCrossTabSync';
+import { useWorkspaceAcl, type WorkspaceAclControls } from './useWorkspaceAcl';
+import { useIdentityLock } from './useIdentityLock';
 
 // Profile signature verification status type (defined early for use in helper functions)
 export type ProfileSignatureStatus = 'valid' | 'invalid' | 'missing' | 'pending';
@@ -77,9 +117,14 @@ function markAttestationsAsSeen(userDid: string, attestationIds: string[]): void
 
 /**
  * Verify an attestation's signature
- * Returns true if valid, false if invalid or missing signature
+ * Returns true if valid, false if invalid, missing signature or expired (inactive)
  */
 async function verifyAttestationSignature(attestation: TrustAttestation): Promise<boolean> {
+  if (isAttestationExpired(attestation)) {
+    console.warn('🔐 Attestation has expired:', attestation.id);
+    return false;
+  }
+
   if (!attestation.signature) {
     console.warn('🔐 Attestation has no signature:', attestation.id);
     return false;
@@ -221,13 +266,23 @@ export interface AppContextValue<TData = unknown> {
   // Identity
   identity: StoredIdentity | null;
   currentUserDid: string;
+  /** The stored private key is protected by a PIN */
+  isIdentityLockEnabled: boolean;
+  /** PIN-protected and not unlocked in this session (signing will ask for the PIN) */
+  isIdentityLocked: boolean;
 
   // Workspaces
   workspaces: WorkspaceInfo[];
   currentWorkspace: WorkspaceInfo | null;
 
+  // Access control (roles and signed workspace settings)
+  workspaceAcl: WorkspaceAclControls;
+
   // UI State
+  /** Locally hidden users plus all blocked users */
   hiddenUserDids: Set<string>;
+  /** Users blocked by the current user (persisted in the UserDocument) */
+  blockedUserDids: Set<string>;
   toastMessage: string | null;
   isNewWorkspaceModalOpen: boolean;
   showConfetti: boolean;
@@ -272,11 +327,43 @@ export interface AppContextValue<TData = unknown> {
   handleUpdateIdentity: (updates: { displayName?: string; avatarUrl?: string }) => Promise<void>;
   handleTrustUser: (trusteeDid: string, trusteeUserDocUrl?: string) => void;
   handleRevokeTrust: (did: string) => void;
+  /** Re-sign an own trust attestation with a new expiry */
+  handleRenewTrust: (did: string) => void;
   handleTrustBack: (trusterDid: string) => void;
   handleDeclineTrust: (attestationId: string) => void;
   handleResetIdentity: () => void;
+  /** Replace the keypair, keeping all trust relationships via a signed succession (reloads the app) */
+  handleRotateKey: () => Promise<void>;
+  /** Split the own key into encrypted shares for trusted contacts (k of n) */
+  handleSetupRecovery: (holderDids: string[], threshold: number) => Promise<void>;
+  /**
+   * Release a share held for another user to their temporary DID
+   * @returns Release code to hand over to the recovering user
+   * @throws Error if no valid share is held for ownerDid
+   */
+  handleReleaseRecoveryShare: (ownerDid: string, recipientDid: string) => Promise<string>;
+  /**
+   * Replace the current (temporary) identity with one restored from release codes (reloads the app)
+   * @throws Error if the codes don't restore the identity
+   */
+  handleRecoverIdentity: (releases: RecoveryRelease[]) => Promise<void>;
+  /**
+   * Protect the stored private key with a PIN
+   * @throws Error if the PIN is too short
+   */
+  handleEnableIdentityLock: (pin: string) => Promise<void>;
+  /**
+   * Store the private key without PIN again
+   * @throws Error if the PIN is wrong
+   */
+  handleDisableIdentityLock: (pin: string) => Promise<void>;
+  /** Forget the unlocked key until the PIN is entered again */
+  handleLockIdentity: () => void;
   handleMutualTrustEstablished: (friendDid: string, friendName: string) => void;
   toggleUserVisibility: (did: string) => void;
+  /** Block a user with a signed distrust attestation (also revokes own trust) */
+  handleBlockUser: (did: string, reason?: string) => void;
+  handleUnblockUser: (did: string) => void;
   showToast: (message: string) => void;
   clearToast: () => void;
   openNewWorkspaceModal: () => void;
@@ -306,6 +393,7 @@ export interface AppContextValue<TData = unknown> {
     trustedUserProfiles?: Record<string, TrustedUserProfile>;
     onOpenProfile: (did: string) => void;
     onMutualTrustEstablished: (friendDid: string, friendName: string) => void;
+    workspaceAcl?: WorkspaceAclControls;
   };
 
   newWorkspaceModalProps: {
@@ -358,6 +446,9 @@ export function useAppContext<TData = unknown>(
 
   // Identity state
   const [identity, setIdentity] = useState<StoredIdentity | null>(() => loadSharedIdentity());
+  // Plaintext key, or a provider that asks for the PIN of a locked identity
+  const signingKey = useMemo(() => signingKeyOf(identity), [identity]);
+  const identityLock = useIdentityLock();
 
   // Workspaces derived from UserDocument only (no localStorage migration needed)
   const workspaces = useMemo((): WorkspaceInfo[] => {
@@ -371,7 +462,7 @@ export function useAppContext<TData = unknown>(
   }, [userDoc?.workspaces]);
 
   // UI state
-  const [hiddenUserDids, setHiddenUserDids] = useState<Set<string>>(new Set());
+  const [locallyHiddenUserDids, setHiddenUserDids] = useState<Set<string>>(new Set());
   const [toastMessage, setToastMessage] = useState<string | null>(null);
   const [isNewWorkspaceModalOpen, setIsNewWorkspaceModalOpen] = useState(false);
   const [showConfetti, setShowConfetti] = useState(false);
@@ -382,6 +473,23 @@ export function useAppContext<TData = unknown>(
   // Current user DID - prefer provided, fallback to identity (defined early for useKnownProfiles)
   const currentUserDid = providedUserDid ?? identity?.did ?? '';
 
+  // Blocked users from the own UserDocument (synced across devices)
+  const blockedUserDids = useMemo(() => {
+    const blocked = new Set<string>();
+    for (const [did, attestation] of Object.entries(userDoc?.distrustGiven ?? {})) {
+      if (attestation.blockerDid === currentUserDid) {
+        blocked.add(did);
+      }
+    }
+    return blocked;
+  }, [userDoc?.distrustGiven, currentUserDid]);
+
+  // Blocked users are always hidden
+  const hiddenUserDids = useMemo(() => {
+    if (blockedUserDids.size === 0) return locallyHiddenUserDids;
+    return new Set([...locallyHiddenUserDids, ...blockedUserDids]);
+  }, [locallyHiddenUserDids, blockedUserDids]);
+
   // URL-based profile support
   const { openProfile } = useProfileUrl();
 
@@ -418,8 +526,20 @@ export function useAppContext<TData = unknown>(
     return result;
   }, [knownProfiles]);
 
+  // Roles and signed workspace settings
+  const workspaceAcl = useWorkspaceAcl({
+    doc,
+    docHandle,
+    workspaceId: documentId,
+    currentUserDid,
+    privateKey: signingKey,
+  });
+
   // Get workspace name and avatar from document context (prefer doc.context over props)
-  const docContext = (doc as BaseDocument<TData> | null)?.context;
+  // With an ACL, only the signed settings are trusted
+  const docContext = workspaceAcl.isEnabled
+    ? workspaceAcl.settings?.context
+    : (doc as BaseDocument<TData> | null)?.context;
   const effectiveWorkspaceName = docContext?.name || workspaceName;
   const workspaceAvatar = docContext?.avatar;
 
@@ -567,7 +687,8 @@ export function useAppContext<TData = unknown>(
         }
 
         // Allow unsigned attestations during transition period
-        if (!attestation.signature) {
+        // Expired attestations are kept (inactive) until the truster renews them
+        if (!attestation.signature || isAttestationExpired(attestation)) {
           validatedTrustReceivedRef.current.add(validationKey);
           continue;
         }
@@ -709,7 +830,7 @@ export function useAppContext<TData = unknown>(
       saveSharedIdentity(updatedIdentity);
 
       // Update UserDocument profile with signature (syncs across tabs/devices via Automerge)
-      if (userDocHandle && identity.privateKey) {
+      if (userDocHandle && signingKey) {
         // Get current profile to merge with updates
         const currentDoc = userDocHandle.doc();
         const currentProfile = currentDoc?.profile;
@@ -725,7 +846,7 @@ export function useAppContext<TData = unknown>(
             avatarUrl: newAvatarUrl,
             updatedAt,
           };
-          const signature = await signProfile(profilePayload, identity.privateKey);
+          const signature = await signProfile(profilePayload, signingKey);
 
           userDocHandle.change((d) => {
             d.profile.displayName = newDisplayName;
@@ -801,7 +922,7 @@ export function useAppContext<TData = unknown>(
       // Broadcast profile update to other tabs via BroadcastChannel
       broadcastProfileUpdate(updates);
     },
-    [identity, docHandle, onUpdateIdentityInDoc, userDocUrl, userDocHandle]
+    [identity, signingKey, docHandle, onUpdateIdentityInDoc, userDocUrl, userDocHandle]
   );
 
   // Toast functions - defined early so they can be used by handlers below
@@ -815,7 +936,7 @@ export function useAppContext<TData = unknown>(
 
   const handleTrustUser = useCallback(
     async (trusteeDid: string, trusteeUserDocUrl?: string) => {
-      if (!currentUserDid || !userDocHandle || !identity?.privateKey) {
+      if (!currentUserDid || !userDocHandle || !signingKey) {
         return;
       }
 
@@ -828,6 +949,7 @@ export function useAppContext<TData = unknown>(
         verificationMethod: 'in-person',
         createdAt: Date.now(),
         updatedAt: Date.now(),
+        expiresAt: Date.now() + TRUST_ATTESTATION_VALIDITY_MS,
       };
 
       // Add trusterUserDocUrl if we have it (for bidirectional trust)
@@ -843,7 +965,7 @@ export function useAppContext<TData = unknown>(
       // Sign the attestation
       let signature: string;
       try {
-        signature = await signEntity(attestationData as Record<string, unknown>, identity.privateKey);
+        signature = await signEntity(attestationData as Record<string, unknown>, signingKey);
       } catch {
         return;
       }
@@ -926,7 +1048,7 @@ export function useAppContext<TData = unknown>(
         writeToTrusteeDoc();
       }
     },
-    [userDocHandle, currentUserDid, repo, identity?.privateKey, userDocUrl, showToast]
+    [userDocHandle, currentUserDid, repo, signingKey, userDocUrl, showToast]
   );
 
   const handleRevokeTrust = useCallback(
@@ -965,9 +1087,114 @@ export function useAppContext<TData = unknown>(
     [userDocHandle, currentUserDid, userDoc, doc, repo]
   );
 
+  const handleRenewTrust = useCallback(
+    async (trusteeDid: string) => {
+      const existing = userDoc?.trustGiven?.[trusteeDid];
+      if (!existing || !userDocHandle || !signingKey || existing.trusterDid !== currentUserDid) {
+        return;
+      }
+
+      // Same attestation, new validity period
+      const { signature: _oldSignature, ...previous } = existing;
+      const attestationData: Omit<TrustAttestation, 'signature'> = {
+        ...previous,
+        updatedAt: Date.now(),
+        expiresAt: Date.now() + TRUST_ATTESTATION_VALIDITY_MS,
+      };
+
+      let signature: string;
+      try {
+        signature = await signEntity(attestationData as Record<string, unknown>, signingKey);
+      } catch (err) {
+        console.error('Failed to sign renewed attestation:', err);
+        return;
+      }
+
+      const attestation: TrustAttestation = {
+        ...attestationData,
+        signature,
+      };
+
+      userDocHandle.change((d) => {
+        addTrustGiven(d, attestation);
+      });
+
+      // Update the trustee's copy in their trustReceived
+      if (attestation.trusteeUserDocUrl && repo) {
+        repo.find<UserDocument>(attestation.trusteeUserDocUrl as AutomergeUrl).then((trusteeDocHandle) => {
+          trusteeDocHandle.change((d: UserDocument) => {
+            addTrustReceived(d, attestation);
+          });
+        }).catch((err: unknown) => {
+          console.warn('Failed to find/update trustee userDoc:', err);
+        });
+      }
+
+      setToastMessage('Vertrauen erneuert');
+    },
+    [userDoc?.trustGiven, userDocHandle, signingKey, currentUserDid, repo]
+  );
+
+  const handleBlockUser = useCallback(
+    async (blockedDid: string, reason?: string) => {
+      if (!currentUserDid || !userDocHandle || !signingKey || blockedDid === currentUserDid) {
+        return;
+      }
+
+      // Build distrust attestation without signature first
+      const attestationData: Omit<DistrustAttestation, 'signature'> = {
+        id: `distrust-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+        blockerDid: currentUserDid,
+        blockedDid,
+        createdAt: Date.now(),
+      };
+
+      // Only include defined values (Automerge doesn't allow undefined)
+      if (reason?.trim()) {
+        attestationData.reason = reason.trim();
+      }
+
+      let signature: string;
+      try {
+        signature = await signEntity(attestationData as Record<string, unknown>, signingKey);
+      } catch (err) {
+        console.error('Failed to sign distrust attestation:', err);
+        return;
+      }
+
+      userDocHandle.change((d) => {
+        addDistrustGiven(d, { ...attestationData, signature });
+      });
+
+      // Blocking someone we trust would send contradicting signals
+      if (userDoc?.trustGiven?.[blockedDid]) {
+        handleRevokeTrust(blockedDid);
+      }
+
+      setToastMessage('Nutzer blockiert');
+    },
+    [currentUserDid, userDocHandle, signingKey, userDoc?.trustGiven, handleRevokeTrust]
+  );
+
+  const handleUnblockUser = useCallback(
+    (blockedDid: string) => {
+      if (!userDocHandle) {
+        console.warn('Cannot unblock user: userDocHandle not available');
+        return;
+      }
+
+      userDocHandle.change((d) => {
+        removeDistrustGiven(d, blockedDid);
+      });
+
+      setToastMessage('Blockierung aufgehoben');
+    },
+    [userDocHandle]
+  );
+
   const handleTrustBack = useCallback(
     async (trusterDid: string) => {
-      if (!currentUserDid || !documentId || !userDocHandle || !identity?.privateKey) {
+      if (!currentUserDid || !documentId || !userDocHandle || !signingKey) {
         console.warn('Cannot trust back: userDocHandle or privateKey not available');
         return;
       }
@@ -981,6 +1208,7 @@ export function useAppContext<TData = unknown>(
         verificationMethod: 'in-person',
         createdAt: Date.now(),
         updatedAt: Date.now(),
+        expiresAt: Date.now() + TRUST_ATTESTATION_VALIDITY_MS,
       };
 
       // Add trusterUserDocUrl if we have it
@@ -991,7 +1219,7 @@ export function useAppContext<TData = unknown>(
       // Sign the attestation
       let signature: string;
       try {
-        signature = await signEntity(attestationData as Record<string, unknown>, identity.privateKey);
+        signature = await signEntity(attestationData as Record<string, unknown>, signingKey);
       } catch (err) {
         console.error('Failed to sign trust-back attestation:', err);
         return;
@@ -1025,7 +1253,7 @@ export function useAppContext<TData = unknown>(
         setPendingAttestations(prev => prev.filter(att => att.id !== existingAttestation.id));
       }
     },
-    [userDocHandle, currentUserDid, pendingAttestations, identity?.privateKey, userDocUrl, repo]
+    [userDocHandle, currentUserDid, pendingAttestations, signingKey, userDocUrl, repo]
   );
 
   const handleDeclineTrust = useCallback(
@@ -1051,6 +1279,198 @@ export function useAppContext<TData = unknown>(
     }
   }, [onResetIdentity]);
 
+  const handleRotateKey = useCallback(async () => {
+    if (!signingKey || !userDocHandle || !currentUserDid) {
+      console.warn('Cannot rotate key: identity or userDocHandle not available');
+      return;
+    }
+
+    let previousPrivateKey: string;
+    try {
+      previousPrivateKey = await resolvePrivateKey(signingKey);
+    } catch {
+      showToast('Schlüssel nicht erneuert: Identität ist gesperrt');
+      return;
+    }
+
+    const next = await generateDidIdentity(identity?.displayName);
+    const succession = await createKeySuccession(currentUserDid, previousPrivateKey, next.did);
+
+    // Profiles are verified against the document DID, so re-sign with the new key
+    const currentProfile = userDocHandle.doc()?.profile;
+    const displayName = currentProfile?.displayName ?? identity?.displayName ?? '';
+    const avatarUrl = currentProfile?.avatarUrl ?? identity?.avatarUrl;
+    const updatedAt = Date.now();
+    const profileSignature = await signProfile({ displayName, avatarUrl, updatedAt }, next.privateKey);
+
+    userDocHandle.change((d) => {
+      addKeySuccession(d, succession);
+      d.profile.displayName = displayName;
+      d.profile.updatedAt = updatedAt;
+      d.profile.signature = profileSignature;
+    });
+
+    // The document must be stored with the new DID before the identity switches,
+    // otherwise the next start would not recognize it as ours
+    await repo?.flush([userDocHandle.documentId]);
+
+    // A PIN lock carries over to the new key
+    await saveIdentityKeepingLock({
+      ...identity,
+      did: next.did,
+      publicKey: next.publicKey,
+      privateKey: next.privateKey,
+    });
+    window.location.reload();
+  }, [identity, signingKey, userDocHandle, currentUserDid, repo, showToast]);
+
+  const handleSetupRecovery = useCallback(
+    async (holderDids: string[], threshold: number) => {
+      if (!signingKey || !userDocHandle || !currentUserDid || !repo) {
+        console.warn('Cannot set up recovery: identity or userDocHandle not available');
+        return;
+      }
+
+      // Shares are written into the holders' UserDocuments
+      const holderDocUrls: Record<string, string> = {};
+      for (const did of holderDids) {
+        const url = userDoc?.trustGiven?.[did]?.trusteeUserDocUrl
+          || userDoc?.trustReceived?.[did]?.trusterUserDocUrl
+          || doc?.identityLookup?.[did]?.userDocUrl;
+        if (!url) {
+          showToast('Wiederherstellung nicht möglich: Dokument eines Kontakts unbekannt');
+          return;
+        }
+        holderDocUrls[did] = url;
+      }
+
+      let result: Awaited<ReturnType<typeof createRecoveryShares>>;
+      try {
+        result = await createRecoveryShares(
+          currentUserDid,
+          await resolvePrivateKey(signingKey),
+          holderDids,
+          threshold,
+          userDocUrl
+        );
+      } catch (err) {
+        console.error('Failed to create recovery shares:', err);
+        showToast('Wiederherstellung konnte nicht eingerichtet werden');
+        return;
+      }
+
+      // Previous holders no longer need their (now outdated) share
+      const previousHolders = (userDoc?.recoverySetup?.holderDids ?? []).filter(
+        (did) => !holderDids.includes(did)
+      );
+      for (const did of previousHolders) {
+        const url = userDoc?.trustGiven?.[did]?.trusteeUserDocUrl || userDoc?.trustReceived?.[did]?.trusterUserDocUrl;
+        if (!url) continue;
+        repo.find<UserDocument>(url as AutomergeUrl).then((holderDocHandle) => {
+          holderDocHandle.change((d: UserDocument) => {
+            removeRecoveryShare(d, currentUserDid);
+          });
+        }).catch(() => {
+          // Cleanup failed silently
+        });
+      }
+
+      try {
+        await Promise.all(
+          result.shares.map(async (share) => {
+            const holderDocHandle = await repo.find<UserDocument>(holderDocUrls[share.holderDid] as AutomergeUrl);
+            holderDocHandle.change((d: UserDocument) => {
+              addRecoveryShare(d, share);
+            });
+          })
+        );
+      } catch (err) {
+        console.warn('Failed to find/update holder userDoc:', err);
+        showToast('Anteile konnten nicht an alle Kontakte übermittelt werden');
+        return;
+      }
+
+      userDocHandle.change((d) => {
+        setRecoverySetup(d, result.setup);
+      });
+      showToast('Wiederherstellung eingerichtet');
+    },
+    [signingKey, userDocHandle, currentUserDid, repo, userDoc, doc, userDocUrl, showToast]
+  );
+
+  const handleReleaseRecoveryShare = useCallback(
+    async (ownerDid: string, recipientDid: string) => {
+      const share = userDoc?.recoveryShares?.[ownerDid];
+      if (!share || !signingKey || !currentUserDid) {
+        throw new Error('Kein Wiederherstellungs-Anteil für diese Person vorhanden');
+      }
+
+      try {
+        const release = await releaseRecoveryShare(
+          share,
+          currentUserDid,
+          await resolvePrivateKey(signingKey),
+          recipientDid.trim()
+        );
+        return encodeRecoveryRelease(release);
+      } catch (err) {
+        console.warn('Failed to release recovery share:', err);
+        throw new Error('Freigabe nicht möglich - ist die temporäre ID korrekt?');
+      }
+    },
+    [userDoc?.recoveryShares, signingKey, currentUserDid]
+  );
+
+  const handleRecoverIdentity = useCallback(
+    async (releases: RecoveryRelease[]) => {
+      if (!signingKey || !currentUserDid) {
+        throw new Error('Keine temporäre Identität vorhanden');
+      }
+
+      let recovered: Awaited<ReturnType<typeof recoverIdentity>>;
+      try {
+        recovered = await recoverIdentity(releases, currentUserDid, await resolvePrivateKey(signingKey));
+      } catch (err) {
+        console.warn('Failed to recover identity:', err);
+        throw new Error('Die Codes reichen nicht aus oder ergeben nicht deine Identität');
+      }
+
+      // Reopen the UserDocument of the restored identity (a new one is created otherwise)
+      if (recovered.userDocUrl) {
+        localStorage.setItem('narrative_user_doc_id', recovered.userDocUrl);
+      } else {
+        localStorage.removeItem('narrative_user_doc_id');
+      }
+      // The workspace list belongs to the temporary identity
+      localStorage.removeItem('narrativeWorkspaces');
+
+      saveSharedIdentity({
+        did: recovered.did,
+        publicKey: recovered.publicKey,
+        privateKey: recovered.privateKey,
+      });
+      window.location.reload();
+    },
+    [signingKey, currentUserDid]
+  );
+
+  const handleEnableIdentityLock = useCallback(async (pin: string) => {
+    await enableIdentityLock(pin);
+    setIdentity(loadSharedIdentity());
+    showToast('Identität mit PIN geschützt');
+  }, [showToast]);
+
+  const handleDisableIdentityLock = useCallback(async (pin: string) => {
+    await disableIdentityLock(pin);
+    setIdentity(loadSharedIdentity());
+    showToast('PIN-Schutz entfernt');
+  }, [showToast]);
+
+  const handleLockIdentity = useCallback(() => {
+    lockIdentity();
+    showToast('Identität gesperrt');
+  }, [showToast]);
+
   const toggleUserVisibility = useCallback((did: string) => {
     setHiddenUserDids((prev) => {
       const next = new Set(prev);
@@ -1173,6 +1593,24 @@ export function useAppContext<TData = unknown>(
   const handleUpdateWorkspace = useCallback((updates: { name?: string; avatar?: string }) => {
     if (!docHandle) return;
 
+    if (workspaceAcl.isEnabled) {
+      if (!workspaceAcl.can(currentUserDid, 'admin')) {
+        showToast('Nur Admins können den Workspace bearbeiten');
+        return;
+      }
+      const context = { ...(workspaceAcl.settings?.context ?? doc?.context ?? { name: '' }) };
+      if (updates.name !== undefined) {
+        context.name = updates.name;
+      }
+      if (updates.avatar !== undefined) {
+        context.avatar = updates.avatar;
+      }
+      workspaceAcl.updateSettings({ context }).catch((error) => {
+        console.error('Failed to update workspace settings:', error);
+      });
+      return;
+    }
+
     docHandle.change((d) => {
       if (!d.context) {
         d.context = { name: '' };
@@ -1185,7 +1623,7 @@ export function useAppContext<TData = unknown>(
       }
       d.lastModified = Date.now();
     });
-  }, [docHandle]);
+  }, [docHandle, doc, workspaceAcl, currentUserDid, showToast]);
 
   // Build navbar props (works with or without doc - shell should function without workspace)
   // The navbar needs UserDocument for profile/WoT, not necessarily the workspace document
@@ -1212,14 +1650,19 @@ export function useAppContext<TData = unknown>(
     onMutualTrustEstablished: handleMutualTrustEstablished,
     documentUrl,
     onUpdateWorkspace: handleUpdateWorkspace,
+    workspaceAcl,
   };
 
   return {
     identity,
     currentUserDid,
+    isIdentityLockEnabled: identityLock.isLockEnabled,
+    isIdentityLocked: identityLock.isLockEnabled && !identityLock.isUnlocked,
     workspaces,
     currentWorkspace,
+    workspaceAcl,
     hiddenUserDids,
+    blockedUserDids,
     toastMessage,
     isNewWorkspaceModalOpen,
     showConfetti,
@@ -1235,11 +1678,21 @@ export function useAppContext<TData = unknown>(
     handleUpdateIdentity,
     handleTrustUser,
     handleRevokeTrust,
+    handleRenewTrust,
     handleTrustBack,
     handleDeclineTrust,
     handleResetIdentity,
+    handleRotateKey,
+    handleSetupRecovery,
+    handleReleaseRecoveryShare,
+    handleRecoverIdentity,
+    handleEnableIdentityLock,
+    handleDisableIdentityLock,
+    handleLockIdentity,
     handleMutualTrustEstablished,
     toggleUserVisibility,
+    handleBlockUser,
+    handleUnblockUser,
     showToast,
     clearToast,
     openNewWorkspaceModal,
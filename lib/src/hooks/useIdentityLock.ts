@@ -0,0 +1,10 @@
+/**
+ * useIdentityLock - Reactive state of the PIN lock (see utils/identityLock)
+ */
+
+import { useSyncExternalStore } from 'react';
+import { getIdentityLockState, subscribeIdentityLock, type IdentityLockState } from '../utils/identityLock';
+
+export function useIdentityLock(): IdentityLockState {
+  return useSyncExternalStore(subscribeIdentityLock, getIdentityLockState);
+}
@@ -0,0 +1,45 @@
+/**
+ * usePassphrasePrompt - Promise-based passphrase prompt
+ *
+ * Returns a requestPassphrase function (e.g. for importIdentityFromFile)
+ * and the props for a PassphraseDialog that answers it.
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import type { PassphraseDialogProps } from '../components/PassphraseDialog';
+
+export interface PassphrasePrompt {
+  /** Ask for the passphrase of an identity file, resolves null if cancelled */
+  requestPassphrase: (did: string) => Promise<string | null>;
+  /** Props for the PassphraseDialog */
+  dialogProps: PassphraseDialogProps;
+}
+
+export function usePassphrasePrompt(): PassphrasePrompt {
+  const [did, setDid] = useState<string | null>(null);
+  const resolveRef = useRef<((passphrase: string | null) => void) | null>(null);
+
+  const requestPassphrase = useCallback((fileDid: string) => {
+    // A new request cancels a pending one
+    resolveRef.current?.(null);
+    setDid(fileDid);
+    return new Promise<string | null>((resolve) => {
+      resolveRef.current = resolve;
+    });
+  }, []);
+
+  const answer = useCallback((passphrase: string | null) => {
+    resolveRef.current?.(passphrase);
+    resolveRef.current = null;
+    setDid(null);
+  }, []);
+
+  return {
+    requestPassphrase,
+    dialogProps: {
+      did,
+      onSubmit: answer,
+      onCancel: () => answer(null),
+    },
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * useTrustLevel - Transitive trust of a DID
+ *
+ * Reads the trust graph maintained by KnownProfilesProvider (own and loaded
+ * UserDocuments) and returns the trust level plus the shortest trust path
+ * from the current user.
+ *
+ * Outside of a KnownProfilesProvider every DID is 'unknown'.
+ */
+
+import { useKnownProfilesContextOptional } from './useKnownProfilesContext';
+import { UNKNOWN_TRUST, type TrustPathResult } from '../utils/trust';
+
+/**
+ * Get the trust level and trust path of a DID
+ *
+ * @param did - DID to rate (undefined yields 'unknown')
+ * @returns Level, degree, path and path weight
+ */
+export function useTrustLevel(did: string | undefined): TrustPathResult {
+  const context = useKnownProfilesContextOptional();
+
+  if (!context || !did) return UNKNOWN_TRUST;
+  return context.getTrustLevel(did);
+}
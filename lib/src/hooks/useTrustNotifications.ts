@@ -1,6 +1,7 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import type { TrustAttestation } from '../schema/identity';
 import type { UserDocument } from '../schema/userDocument';
+import { isAttestationExpired, isAttestationExpiringSoon } from '../utils/trust';
 
 const STORAGE_KEY = 'narrativeTrustNotifications';
 
@@ -53,6 +54,9 @@ function markAttestationsAsSeen(documentId: string, attestationIds: string[]): v
  * Returns pending attestations that haven't been seen yet, in chronological order.
  * Provides methods to mark attestations as seen.
  *
+ * Also returns the own (given) attestations that expire soon or have expired,
+ * soonest first, so the app can offer a renewal.
+ *
  * Note: Trust attestations are now stored in UserDocument, not workspace documents.
  *
  * @param userDoc - The user's personal document
@@ -97,6 +101,20 @@ export function useTrustNotifications(
     setPendingAttestations(newAttestations);
   }, [userDoc, userDoc?.trustReceived, userDoc?.trustGiven, currentUserDid, documentId]);
 
+  // Own attestations that need renewal
+  const expiringAttestations = useMemo(() => {
+    if (!userDoc || !currentUserDid) return [];
+
+    const now = Date.now();
+    return Object.values(userDoc.trustGiven || {})
+      .filter(
+        (attestation) =>
+          attestation.trusterDid === currentUserDid &&
+          (isAttestationExpiringSoon(attestation, now) || isAttestationExpired(attestation, now))
+      )
+      .sort((a, b) => (a.expiresAt ?? 0) - (b.expiresAt ?? 0));
+  }, [userDoc, userDoc?.trustGiven, currentUserDid]);
+
   /**
    * Mark an attestation as seen
    */
@@ -118,6 +136,8 @@ export function useTrustNotifications(
   return {
     pendingAttestations,
     hasPending: pendingAttestations.length > 0,
+    expiringAttestations,
+    hasExpiring: expiringAttestations.length > 0,
     markAsSeen,
     markMultipleAsSeen,
   };
@@ -4,6 +4,7 @@
  * The User Document is a personal Automerge document that stores:
  * - User profile (name, avatar)
  * - Trust attestations (given and received)
+ * - Key successions (rotated DIDs)
  * - Vouchers (DANK tokens)
  * - Workspace references
  *
@@ -183,6 +184,7 @@ export function useUserDocument(
       try {
         let handle: DocHandle<UserDocument>;
         let savedDocId = loadUserDocId();
+        let isRetiredDid = false;
 
         if (savedDocId) {
           // Try to load existing document
@@ -192,7 +194,10 @@ export function useUserDocument(
 
             // Verify the document belongs to this user
             const doc = handle.doc();
-            if (doc && doc.did !== did) {
+            if (doc && doc.did !== did && doc.keySuccessions?.[did]) {
+              // Key was rotated on another device - keep the document, the new identity must be imported
+              isRetiredDid = true;
+            } else if (doc && doc.did !== did) {
               console.warn('User document DID mismatch, creating new document');
               savedDocId = null;
             }
@@ -202,6 +207,11 @@ export function useUserDocument(
           }
         }
 
+        if (isRetiredDid) {
+          setError('Der Schlüssel dieser Identität wurde auf einem anderen Gerät erneuert. Bitte die neue Identität importieren.');
+          return;
+        }
+
         if (!savedDocId) {
           // Create new user document
           handle = repo.create<UserDocument>();
@@ -0,0 +1,260 @@
+/**
+ * useWorkspaceAcl - Signed roles for workspace mutations
+ *
+ * Resolves doc.acl (grants and settings are verified asynchronously) and
+ * provides role checks for modules:
+ * - Mutation helpers refuse changes if the acting DID lacks the required role
+ * - Readers ignore content authored by DIDs lacking the required role
+ *
+ * The ACL owner is pinned in localStorage on first sight, so a replaced
+ * or removed ACL cannot silently hand the workspace to someone else.
+ * The highest grant and settings versions are remembered the same way,
+ * so older signed grants cannot be replayed.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { BaseDocument, WorkspaceRole, WorkspaceSettings } from '../schema/document';
+import type { WorkspaceChangeHandle } from './useWorkspaceEncryption';
+import {
+  createRoleGrant,
+  createWorkspaceAcl,
+  createWorkspaceSettings,
+  getWorkspaceRole,
+  hasWorkspaceRole,
+  isWorkspaceActionAllowed,
+  normalizeWorkspaceId,
+  resolveWorkspaceAcl,
+  type ResolvedWorkspaceAcl,
+  type WorkspaceSettingsInput,
+} from '../utils/acl';
+import { loadAclVersions, loadPinnedAclOwner, saveAclVersions, savePinnedAclOwner } from '../utils/storage';
+import type { PrivateKeySource } from '../utils/signature';
+
+/**
+ * Read-only role checks
+ */
+export interface WorkspaceRoles {
+  /** Whether the workspace has an ACL (otherwise everything is allowed) */
+  isEnabled: boolean;
+  /** Whether grants are still being verified (role checks fail closed meanwhile) */
+  isResolving: boolean;
+  /** Verified ACL (null if disabled or still resolving) */
+  resolved: ResolvedWorkspaceAcl | null;
+  /** Effective role of a DID (undefined if the workspace has no ACL) */
+  getRole: (did: string) => WorkspaceRole | undefined;
+  /** Check whether a DID holds at least the required role */
+  can: (did: string, required: WorkspaceRole) => boolean;
+}
+
+/**
+ * Role checks plus management actions (used by WorkspaceModal)
+ */
+export interface WorkspaceAclControls extends WorkspaceRoles {
+  /** Role of the current user (undefined if the workspace has no ACL) */
+  currentRole: WorkspaceRole | undefined;
+  /** Verified settings (null if disabled, missing or invalid) */
+  settings: WorkspaceSettings | null;
+  /** Create the ACL with the current user as owner */
+  enableAcl: (defaultRole: 'member' | 'viewer') => Promise<void>;
+  /** Sign a role grant for a DID (requires admin) */
+  setRole: (did: string, role: WorkspaceRole) => Promise<void>;
+  /** Sign updated workspace settings (requires admin) */
+  updateSettings: (changes: Partial<WorkspaceSettingsInput>) => Promise<void>;
+}
+
+export interface UseWorkspaceAclOptions<TDoc extends BaseDocument<unknown>> {
+  doc: TDoc | null | undefined;
+  docHandle: WorkspaceChangeHandle<TDoc> | null | undefined;
+  /** Document ID (grants are bound to it) */
+  workspaceId: string;
+  currentUserDid: string;
+  privateKey?: PrivateKeySource;
+}
+
+/**
+ * Verify the workspace ACL and provide role checks
+ *
+ * @param doc - Workspace document
+ * @param workspaceId - Document ID (grants are bound to it)
+ */
+export function useWorkspaceRoles(
+  doc: BaseDocument<unknown> | null | undefined,
+  workspaceId: string
+): WorkspaceRoles {
+  const normalizedId = workspaceId ? normalizeWorkspaceId(workspaceId) : '';
+  const acl = doc?.acl;
+  const aclKey = useMemo(() => JSON.stringify(acl ?? null), [acl]);
+  const pinnedOwnerDid = useMemo(
+    () => (normalizedId ? loadPinnedAclOwner(normalizedId) : null),
+    // Re-read the pin when the ACL changes (it is written on first resolve)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [normalizedId, aclKey]
+  );
+  const seenVersions = useMemo(
+    () => (normalizedId ? loadAclVersions(normalizedId) : null),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [normalizedId, aclKey]
+  );
+  const isEnabled = !!doc && !!normalizedId && (!!acl || !!pinnedOwnerDid);
+
+  const [state, setState] = useState<{ key: string; resolved: ResolvedWorkspaceAcl | null }>({
+    key: '',
+    resolved: null,
+  });
+  const currentKey = `${normalizedId}|${pinnedOwnerDid ?? ''}|${aclKey}`;
+
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    let cancelled = false;
+    resolveWorkspaceAcl(acl, normalizedId, pinnedOwnerDid, seenVersions)
+      .then((resolved) => {
+        if (cancelled) return;
+        if (resolved && !pinnedOwnerDid) {
+          savePinnedAclOwner(normalizedId, resolved.ownerDid);
+        }
+        if (resolved) {
+          saveAclVersions(normalizedId, resolved.versions);
+        }
+        setState({ key: currentKey, resolved });
+      })
+      .catch((error) => {
+        console.error('[useWorkspaceAcl] Failed to resolve ACL:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // acl and seenVersions are covered by currentKey
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isEnabled, currentKey]);
+
+  // Keep using the previous result while a changed ACL is re-verified
+  const resolved = isEnabled && state.key.startsWith(`${normalizedId}|`) ? state.resolved : null;
+  const isResolving = isEnabled && state.key !== currentKey;
+
+  const getRole = useCallback(
+    (did: string) => (isEnabled ? getWorkspaceRole(resolved, did) : undefined),
+    [isEnabled, resolved]
+  );
+
+  const can = useCallback(
+    (did: string, required: WorkspaceRole) => {
+      if (!isEnabled) return true;
+      // Fail closed until the ACL has been verified
+      if (!resolved) return false;
+      return isWorkspaceActionAllowed(resolved, did, required);
+    },
+    [isEnabled, resolved]
+  );
+
+  return { isEnabled, isResolving, resolved, getRole, can };
+}
+
+export function useWorkspaceAcl<TDoc extends BaseDocument<unknown>>({
+  doc,
+  docHandle,
+  workspaceId,
+  currentUserDid,
+  privateKey,
+}: UseWorkspaceAclOptions<TDoc>): WorkspaceAclControls {
+  const roles = useWorkspaceRoles(doc, workspaceId);
+  const { resolved, getRole, can } = roles;
+
+  const currentRole = getRole(currentUserDid);
+  const settings = resolved?.settings ?? null;
+
+  const enableAcl = useCallback(
+    async (defaultRole: 'member' | 'viewer') => {
+      if (!docHandle || !doc || doc.acl || !privateKey || !workspaceId) return;
+
+      const input: WorkspaceSettingsInput = { defaultRole };
+      if (doc.context) input.context = doc.context;
+      if (doc.enabledModules) input.enabledModules = doc.enabledModules;
+
+      const acl = await createWorkspaceAcl(input, workspaceId, currentUserDid, privateKey);
+      savePinnedAclOwner(normalizeWorkspaceId(workspaceId), currentUserDid);
+
+      docHandle.change((d) => {
+        if (d.acl) return;
+        d.acl = acl;
+        d.lastModified = Date.now();
+      });
+    },
+    [docHandle, doc, privateKey, workspaceId, currentUserDid]
+  );
+
+  const setRole = useCallback(
+    async (did: string, role: WorkspaceRole) => {
+      if (!docHandle || !resolved || !privateKey) return;
+      if (did === resolved.ownerDid) {
+        console.warn('[useWorkspaceAcl] The owner role cannot be changed');
+        return;
+      }
+      if (!hasWorkspaceRole(currentRole, 'admin') || !hasWorkspaceRole(currentRole, role)) {
+        console.warn('[useWorkspaceAcl] Missing permission to grant role', role);
+        return;
+      }
+
+      const version = Math.max(resolved.versions.grants[did] ?? 0, doc?.acl?.grants[did]?.version ?? 0) + 1;
+      const grant = await createRoleGrant(did, role, workspaceId, currentUserDid, privateKey, version);
+
+      docHandle.change((d) => {
+        if (!d.acl) return;
+        d.acl.grants[did] = grant;
+        d.lastModified = Date.now();
+      });
+    },
+    [docHandle, doc, resolved, privateKey, currentRole, workspaceId, currentUserDid]
+  );
+
+  const updateSettings = useCallback(
+    async (changes: Partial<WorkspaceSettingsInput>) => {
+      if (!docHandle || !doc || !resolved || !privateKey) return;
+      if (!can(currentUserDid, 'admin')) {
+        console.warn('[useWorkspaceAcl] Only admins can change workspace settings');
+        return;
+      }
+
+      // Start from the verified settings, not from the unsigned document fields
+      const input: WorkspaceSettingsInput = {
+        defaultRole: changes.defaultRole ?? resolved.defaultRole,
+      };
+      const context = changes.context ?? resolved.settings?.context ?? doc.context;
+      const enabledModules =
+        changes.enabledModules ?? resolved.settings?.enabledModules ?? doc.enabledModules;
+      if (context) input.context = context;
+      if (enabledModules) input.enabledModules = enabledModules;
+
+      const version = Math.max(resolved.versions.settings, doc.acl?.settings.version ?? 0) + 1;
+      const signed = await createWorkspaceSettings(input, workspaceId, currentUserDid, privateKey, version);
+
+      docHandle.change((d) => {
+        if (!d.acl) return;
+        d.acl.settings = signed;
+        // Mirror into the plain fields for clients without ACL support
+        if (signed.context) {
+          d.context = signed.context;
+        } else if (d.context) {
+          delete d.context;
+        }
+        if (signed.enabledModules) {
+          d.enabledModules = signed.enabledModules;
+        } else if (d.enabledModules) {
+          delete d.enabledModules;
+        }
+        d.lastModified = Date.now();
+      });
+    },
+    [docHandle, doc, resolved, privateKey, can, currentUserDid, workspaceId]
+  );
+
+  return {
+    ...roles,
+    currentRole,
+    settings,
+    enableAcl,
+    setRole,
+    updateSettings,
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Tests for useWorkspaceEncryption
+ *
+ * These tests verify:
+ * - Concurrent payload writes are detected (Automerge keeps only one)
+ * - Sequential payload writes are not reported as conflicts
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as Automerge from '@automerge/automerge';
+import type { WorkspaceEncryption } from '../schema/document';
+import { getConflictingPayloads } from './useWorkspaceEncryption';
+
+function payload(ciphertext: string) {
+  return { keyId: 'key-1', iv: 'iv', ciphertext };
+}
+
+describe('getConflictingPayloads', () => {
+  const base = Automerge.from<{ encryption: WorkspaceEncryption }>({
+    encryption: { keyId: 'key-1', keys: {}, payload: payload('base') },
+  });
+
+  it('should report payloads written concurrently', () => {
+    const alice = Automerge.change(Automerge.clone(base), (d) => {
+      d.encryption.payload = payload('alice');
+    });
+    const bob = Automerge.change(Automerge.clone(base), (d) => {
+      d.encryption.payload = payload('bob');
+    });
+
+    const merged = Automerge.merge(alice, bob);
+    const ciphertexts = getConflictingPayloads(merged.encryption).map((p) => p.ciphertext);
+
+    expect(ciphertexts.sort()).toEqual(['alice', 'bob']);
+  });
+
+  it('should not report sequential writes', () => {
+    const alice = Automerge.change(Automerge.clone(base), (d) => {
+      d.encryption.payload = payload('alice');
+    });
+    const bob = Automerge.change(Automerge.merge(Automerge.clone(base), alice), (d) => {
+      d.encryption.payload = payload('bob');
+    });
+
+    expect(getConflictingPayloads(Automerge.merge(alice, bob).encryption)).toEqual([]);
+  });
+
+  it('should ignore plain objects', () => {
+    expect(getConflictingPayloads({ keyId: 'key-1', keys: {}, payload: payload('plain') })).toEqual([]);
+  });
+});
@@ -0,0 +1,492 @@
+/**
+ * useWorkspaceEncryption - Transparent end-to-end encryption for workspace data
+ *
+ * For encrypted workspaces, BaseDocument.data only holds a placeholder and
+ * the real data is stored in doc.encryption.payload. This hook:
+ * - Unwraps the workspace key for the current user and decrypts the data
+ * - Provides a decrypted view of the document for modules
+ * - Provides a change handle that re-encrypts data on every mutation
+ * - Manages access: enable encryption, grant keys, remove members (key rotation)
+ *
+ * The data is encrypted as a single payload, so Automerge cannot merge
+ * concurrent edits inside it. A change whose payload was replaced by another
+ * member before it was written is re-applied on top of theirs. Writes that
+ * happen truly concurrently (e.g. while offline) conflict, and Automerge keeps
+ * only one payload; the member whose write was dropped gets a warning.
+ *
+ * Keys are only used if their entry and the key rotation were signed by an
+ * admin of the workspace ACL, and payloads only accepted if signed by a
+ * member (see utils/encryption). The newest rotation version is remembered,
+ * so an older key generation cannot be written back.
+ *
+ * For plaintext workspaces, the document and handle are passed through unchanged.
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { DocHandle } from '@automerge/automerge-repo';
+import * as Automerge from '@automerge/automerge';
+import type { BaseDocument, EncryptedWorkspacePayload, WorkspaceEncryption } from '../schema/document';
+import {
+  generateWorkspaceKey,
+  wrapWorkspaceKey,
+  unwrapWorkspaceKey,
+  wrapWorkspaceKeyForMembers,
+  createKeyRotation,
+  verifyWorkspaceKeyAccess,
+  encryptWorkspaceData,
+  decryptWorkspaceData,
+  signWorkspacePayload,
+  verifyWorkspacePayload,
+  type WorkspaceKey,
+} from '../utils/encryption';
+import { normalizeWorkspaceId } from '../utils/acl';
+import { loadKeyRotationVersion, saveKeyRotationVersion } from '../utils/storage';
+import { resolvePrivateKey, type PrivateKeySource } from '../utils/signature';
+import { useWorkspaceRoles } from './useWorkspaceAcl';
+
+/**
+ * Encryption status from the current user's point of view
+ * - plaintext: workspace is not encrypted
+ * - decrypting: key/data are being decrypted
+ * - unlocked: data is decrypted and writable
+ * - no-access: workspace is encrypted, but no key was granted to this user
+ */
+export type WorkspaceEncryptionStatus = 'plaintext' | 'decrypting' | 'unlocked' | 'no-access';
+
+/**
+ * Minimal handle for module mutations
+ * Implemented by DocHandle (plaintext) and by the encrypting wrapper.
+ */
+export interface WorkspaceChangeHandle<TDoc> {
+  change: (callback: (doc: TDoc) => void) => void;
+}
+
+/**
+ * Access management actions (used by WorkspaceModal)
+ */
+export interface WorkspaceEncryptionControls {
+  status: WorkspaceEncryptionStatus;
+  /** DIDs that joined and wait for a key grant */
+  pendingRequests: string[];
+  /** Encrypt the workspace and wrap a new key for all current members */
+  enableEncryption: () => Promise<void>;
+  /** Wrap the current workspace key for a member */
+  grantAccess: (did: string) => Promise<void>;
+  /** Remove a member and rotate the workspace key */
+  removeMember: (did: string) => Promise<void>;
+}
+
+export interface UseWorkspaceEncryptionOptions<TDoc extends BaseDocument<unknown>> {
+  doc: TDoc | null | undefined;
+  docHandle: DocHandle<TDoc> | null | undefined;
+  /** Document ID (key entries and payloads are bound to it) */
+  workspaceId: string;
+  currentUserDid: string;
+  /** Private key, or a provider that asks for the PIN if the identity is locked */
+  privateKey?: PrivateKeySource;
+}
+
+export interface UseWorkspaceEncryptionResult<TDoc extends BaseDocument<unknown>>
+  extends WorkspaceEncryptionControls {
+  /** Document with decrypted data (undefined while locked or decrypting) */
+  doc: TDoc | undefined;
+  /** Change handle for module mutations (re-encrypts when needed) */
+  handle: WorkspaceChangeHandle<TDoc> | undefined;
+  /** A concurrent write of another member replaced the user's last changes */
+  concurrentEditLost: boolean;
+  /** Hide the warning about lost changes */
+  dismissConcurrentEditWarning: () => void;
+}
+
+/**
+ * Clone document state into a mutable plain object
+ */
+function toMutable<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * Payloads written concurrently (Automerge shows one of them, the others are dropped)
+ * Empty if the payload has no conflict.
+ */
+export function getConflictingPayloads(encryption: WorkspaceEncryption): EncryptedWorkspacePayload[] {
+  try {
+    const conflicts = Automerge.getConflicts(encryption as Automerge.Doc<WorkspaceEncryption>, 'payload');
+    return Object.values(conflicts ?? {}) as unknown as EncryptedWorkspacePayload[];
+  } catch {
+    // Not an Automerge object (e.g. a plain copy)
+    return [];
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Apply the differences between target and source to target (granular, Automerge-friendly)
+ */
+function applyDiff(target: Record<string, unknown>, source: Record<string, unknown>): void {
+  for (const key of Object.keys(target)) {
+    if (!(key in source)) delete target[key];
+  }
+  for (const [key, value] of Object.entries(source)) {
+    const current = target[key];
+    if (isPlainObject(current) && isPlainObject(value)) {
+      applyDiff(current, value);
+    } else if (JSON.stringify(current) !== JSON.stringify(value)) {
+      target[key] = value;
+    }
+  }
+}
+
+export function useWorkspaceEncryption<TDoc extends BaseDocument<unknown>>({
+  doc,
+  docHandle,
+  workspaceId,
+  currentUserDid,
+  privateKey,
+}: UseWorkspaceEncryptionOptions<TDoc>): UseWorkspaceEncryptionResult<TDoc> {
+  const encryption = doc?.encryption;
+  const wrappedKey = encryption?.keys[currentUserDid];
+
+  // Key entries and rotations must come from admins, payloads from members
+  const roles = useWorkspaceRoles(doc, workspaceId);
+  const { can } = roles;
+  const rolesPending = roles.isEnabled && !roles.resolved;
+  const normalizedId = normalizeWorkspaceId(workspaceId);
+
+  const [decryptedData, setDecryptedData] = useState<TDoc['data'] | undefined>(undefined);
+  const [status, setStatus] = useState<WorkspaceEncryptionStatus>('plaintext');
+  const [concurrentEditLost, setConcurrentEditLost] = useState(false);
+
+  // Unwrapped key of the current generation
+  const keyRef = useRef<WorkspaceKey | null>(null);
+  // Latest plaintext (includes local changes not yet written back)
+  const latestDataRef = useRef<TDoc['data'] | undefined>(undefined);
+  // Ciphertext that latestDataRef corresponds to
+  const latestCiphertextRef = useRef<string | null>(null);
+  // Serializes async encrypt-and-write operations
+  const writeQueueRef = useRef<Promise<void>>(Promise.resolve());
+
+  // Unwrap key and decrypt payload whenever it changes
+  useEffect(() => {
+    if (!encryption) {
+      keyRef.current = null;
+      latestDataRef.current = undefined;
+      latestCiphertextRef.current = null;
+      setDecryptedData(undefined);
+      setStatus('plaintext');
+      return;
+    }
+
+    if (!wrappedKey || !privateKey || wrappedKey.keyId !== encryption.keyId) {
+      keyRef.current = null;
+      setDecryptedData(undefined);
+      setStatus('no-access');
+      return;
+    }
+
+    // Signatures can only be checked against verified roles
+    if (rolesPending) {
+      if (!keyRef.current) setStatus('decrypting');
+      return;
+    }
+
+    // Our own write conflicts with a concurrent one and was dropped
+    const ownCiphertext = latestCiphertextRef.current;
+    if (
+      ownCiphertext &&
+      ownCiphertext !== encryption.payload.ciphertext &&
+      getConflictingPayloads(encryption).some((payload) => payload.ciphertext === ownCiphertext)
+    ) {
+      setConcurrentEditLost(true);
+    }
+
+    // Already up to date (e.g. our own write came back)
+    if (
+      keyRef.current?.keyId === encryption.keyId &&
+      latestCiphertextRef.current === encryption.payload.ciphertext
+    ) {
+      return;
+    }
+
+    let cancelled = false;
+    if (!keyRef.current) setStatus('decrypting');
+
+    (async () => {
+      try {
+        const seenVersion = loadKeyRotationVersion(normalizedId);
+        if (!(await verifyWorkspaceKeyAccess(encryption, currentUserDid, workspaceId, can, seenVersion))) {
+          throw new Error('Workspace key or rotation is not signed by an admin');
+        }
+        saveKeyRotationVersion(normalizedId, encryption.rotation!.version);
+
+        const key =
+          keyRef.current?.keyId === wrappedKey.keyId
+            ? keyRef.current
+            : await unwrapWorkspaceKey(wrappedKey, currentUserDid, await resolvePrivateKey(privateKey));
+
+        // A payload not signed by a member is ignored (the last verified data stays)
+        if (!(await verifyWorkspacePayload(encryption.payload, workspaceId, can))) {
+          if (cancelled) return;
+          console.warn('[useWorkspaceEncryption] Ignoring payload without a valid member signature');
+          keyRef.current = key;
+          setStatus(latestDataRef.current === undefined ? 'no-access' : 'unlocked');
+          return;
+        }
+
+        const data = await decryptWorkspaceData<TDoc['data']>(encryption.payload, key);
+        if (cancelled) return;
+
+        keyRef.current = key;
+        latestDataRef.current = data;
+        latestCiphertextRef.current = encryption.payload.ciphertext;
+        setDecryptedData(data);
+        setStatus('unlocked');
+      } catch (error) {
+        if (cancelled) return;
+        console.error('[useWorkspaceEncryption] Failed to decrypt workspace:', error);
+        keyRef.current = null;
+        setDecryptedData(undefined);
+        setStatus('no-access');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [encryption, wrappedKey, currentUserDid, privateKey, workspaceId, normalizedId, can, rolesPending]);
+
+  /**
+   * Encrypt data with the current key, sign it and write it to the document
+   *
+   * If the payload changed since the data was derived from it (another member
+   * wrote in the meantime), the mutation is applied again on top of it.
+   * A payload without a valid member signature is overwritten instead.
+   */
+  const writeEncrypted = useCallback(
+    (data: TDoc['data'], lastModified: number, baseCiphertext: string | null, mutate: (doc: TDoc) => void) => {
+      const key = keyRef.current;
+      if (!docHandle || !key || !privateKey) return;
+
+      writeQueueRef.current = writeQueueRef.current
+        .then(async () => {
+          const current = docHandle.doc();
+          let next = data;
+          if (
+            current?.encryption?.keyId === key.keyId &&
+            current.encryption.payload.ciphertext !== baseCiphertext &&
+            (await verifyWorkspacePayload(current.encryption.payload, workspaceId, can))
+          ) {
+            const draft = toMutable({
+              ...current,
+              data: await decryptWorkspaceData<TDoc['data']>(current.encryption.payload, key),
+            }) as TDoc;
+            mutate(draft);
+            next = draft.data;
+          }
+
+          const payload = await signWorkspacePayload(
+            await encryptWorkspaceData(next, key),
+            workspaceId,
+            currentUserDid,
+            privateKey
+          );
+          latestCiphertextRef.current = payload.ciphertext;
+          if (next !== data) {
+            latestDataRef.current = next;
+            setDecryptedData(next);
+          }
+          docHandle.change((d) => {
+            if (!d.encryption || d.encryption.keyId !== key.keyId) return;
+            d.encryption.payload = payload;
+            d.lastModified = lastModified;
+          });
+        })
+        .catch((error) => {
+          console.error('[useWorkspaceEncryption] Failed to write encrypted data:', error);
+        });
+    },
+    [docHandle, privateKey, workspaceId, currentUserDid, can]
+  );
+
+  const handle = useMemo((): WorkspaceChangeHandle<TDoc> | undefined => {
+    if (!docHandle) return undefined;
+    if (!encryption) return docHandle;
+
+    return {
+      change: (callback) => {
+        const current = docHandle.doc();
+        if (!current || !keyRef.current || latestDataRef.current === undefined) {
+          console.warn('[useWorkspaceEncryption] Workspace is locked, change discarded');
+          return;
+        }
+
+        // Apply the mutation to a plaintext draft
+        const draft = toMutable({ ...current, data: latestDataRef.current }) as TDoc;
+        callback(draft);
+
+        // Unencrypted metadata (identities, context, ...) is written directly
+        const currentFields = current as unknown as Record<string, unknown>;
+        const changedMetadata = Object.entries(draft as unknown as Record<string, unknown>).filter(
+          ([key, value]) =>
+            key !== 'data' &&
+            key !== 'encryption' &&
+            key !== 'lastModified' &&
+            JSON.stringify(currentFields[key]) !== JSON.stringify(value)
+        );
+        if (changedMetadata.length > 0) {
+          docHandle.change((d) => {
+            const target = d as unknown as Record<string, unknown>;
+            for (const [key, value] of changedMetadata) {
+              const existing = target[key];
+              if (isPlainObject(existing) && isPlainObject(value)) {
+                applyDiff(existing, value);
+              } else {
+                target[key] = value;
+              }
+            }
+          });
+        }
+
+        if (JSON.stringify(draft.data) === JSON.stringify(latestDataRef.current)) return;
+
+        latestDataRef.current = draft.data;
+        setDecryptedData(draft.data);
+        writeEncrypted(draft.data, draft.lastModified, latestCiphertextRef.current, callback);
+      },
+    };
+  }, [docHandle, encryption, writeEncrypted]);
+
+  const viewDoc = useMemo((): TDoc | undefined => {
+    if (!doc) return undefined;
+    if (!encryption) return doc;
+    if (decryptedData === undefined) return undefined;
+    return { ...doc, data: decryptedData };
+  }, [doc, encryption, decryptedData]);
+
+  const pendingRequests = useMemo(
+    () =>
+      Object.keys(encryption?.accessRequests ?? {}).filter(
+        (did) => !encryption?.keys[did]
+      ),
+    [encryption]
+  );
+
+  /**
+   * Check that the current user may sign key entries and rotations
+   */
+  const canManageKeys = useCallback(
+    (action: string) => {
+      if (can(currentUserDid, 'admin')) return true;
+      console.warn(`[useWorkspaceEncryption] ${action} refused: requires role admin`);
+      return false;
+    },
+    [can, currentUserDid]
+  );
+
+  const enableEncryption = useCallback(async () => {
+    if (!docHandle || !doc || doc.encryption || !privateKey) return;
+    if (!canManageKeys('enableEncryption')) return;
+
+    const key = await generateWorkspaceKey();
+    const memberDids = Array.from(new Set([currentUserDid, ...Object.keys(doc.identities || {})]));
+    const keys = await wrapWorkspaceKeyForMembers(key, memberDids, currentUserDid, workspaceId, privateKey);
+    const version = loadKeyRotationVersion(normalizedId) + 1;
+    const rotation = await createKeyRotation(key.keyId, version, workspaceId, currentUserDid, privateKey);
+    const payload = await signWorkspacePayload(
+      await encryptWorkspaceData(doc.data, key),
+      workspaceId,
+      currentUserDid,
+      privateKey
+    );
+
+    keyRef.current = key;
+    latestDataRef.current = toMutable(doc.data);
+    latestCiphertextRef.current = payload.ciphertext;
+    saveKeyRotationVersion(normalizedId, version);
+
+    docHandle.change((d) => {
+      d.encryption = { keyId: key.keyId, rotation, keys, payload };
+      // Plaintext is replaced by an empty placeholder (older history stays readable)
+      (d as BaseDocument<unknown>).data = {};
+      d.lastModified = Date.now();
+    });
+  }, [docHandle, doc, currentUserDid, privateKey, canManageKeys, workspaceId, normalizedId]);
+
+  const grantAccess = useCallback(
+    async (did: string) => {
+      const key = keyRef.current;
+      if (!docHandle || !key || !privateKey) return;
+      if (!canManageKeys('grantAccess')) return;
+
+      const wrapped = await wrapWorkspaceKey(key, did, currentUserDid, workspaceId, privateKey);
+
+      docHandle.change((d) => {
+        if (!d.encryption || d.encryption.keyId !== key.keyId) return;
+        d.encryption.keys[did] = wrapped;
+        if (d.encryption.accessRequests?.[did] !== undefined) {
+          delete d.encryption.accessRequests[did];
+        }
+      });
+    },
+    [docHandle, currentUserDid, privateKey, canManageKeys, workspaceId]
+  );
+
+  const removeMember = useCallback(
+    async (did: string) => {
+      if (!docHandle || !encryption || !keyRef.current || latestDataRef.current === undefined) return;
+      if (did === currentUserDid || !privateKey) return;
+      if (!canManageKeys('removeMember')) return;
+
+      // Rotate: new key for all remaining key holders, data re-encrypted with it
+      const key = await generateWorkspaceKey();
+      const remainingDids = Object.keys(encryption.keys).filter((memberDid) => memberDid !== did);
+      const keys = await wrapWorkspaceKeyForMembers(key, remainingDids, currentUserDid, workspaceId, privateKey);
+      const version =
+        Math.max(loadKeyRotationVersion(normalizedId), encryption.rotation?.version ?? 0) + 1;
+      const rotation = await createKeyRotation(key.keyId, version, workspaceId, currentUserDid, privateKey);
+      const payload = await signWorkspacePayload(
+        await encryptWorkspaceData(latestDataRef.current, key),
+        workspaceId,
+        currentUserDid,
+        privateKey
+      );
+
+      keyRef.current = key;
+      latestCiphertextRef.current = payload.ciphertext;
+      saveKeyRotationVersion(normalizedId, version);
+
+      docHandle.change((d) => {
+        if (!d.encryption) return;
+        d.encryption.keyId = key.keyId;
+        d.encryption.rotation = rotation;
+        d.encryption.keys = keys;
+        d.encryption.payload = payload;
+        if (d.encryption.accessRequests?.[did] !== undefined) {
+          delete d.encryption.accessRequests[did];
+        }
+        if (d.identities?.[did]) {
+          delete d.identities[did];
+        }
+        d.lastModified = Date.now();
+      });
+    },
+    [docHandle, encryption, currentUserDid, privateKey, canManageKeys, workspaceId, normalizedId]
+  );
+
+  const dismissConcurrentEditWarning = useCallback(() => setConcurrentEditLost(false), []);
+
+  return {
+    doc: viewDoc,
+    handle,
+    concurrentEditLost,
+    dismissConcurrentEditWarning,
+    status,
+    pendingRequests,
+    enableEncryption,
+    grantAccess,
+    removeMember,
+  };
+}
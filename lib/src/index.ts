@@ -14,15 +14,34 @@ export type {
   UserIdentity,
   IdentityProfile,
   TrustAttestation,
+  DistrustAttestation,
+  KeySuccession,
+  RecoveryShare,
+  RecoverySetup,
   TrustLevel,
   // Generic document structure
   BaseDocument,
   ContextMetadata,
+  WorkspaceEncryption,
+  WrappedWorkspaceKey,
+  WorkspaceKeyRotation,
+  EncryptedWorkspacePayload,
+  WorkspaceRole,
+  RoleGrant,
+  WorkspaceSettings,
+  WorkspaceAcl,
   // User Document (personal, cross-workspace)
   UserDocument,
   UserProfile,
-  Voucher,
   WorkspaceRef,
+  // Vouchers (Dank)
+  Voucher,
+  VoucherStatus,
+  VoucherExpiryBehavior,
+  VoucherTransfer,
+  VoucherSplit,
+  VoucherSplitPart,
+  VoucherMove,
 } from './schema';
 
 export {
@@ -39,11 +58,19 @@ export {
   removeTrustGiven,
   addTrustReceived,
   removeTrustReceived,
+  addDistrustGiven,
+  removeDistrustGiven,
+  addKeySuccession,
+  addRecoveryShare,
+  removeRecoveryShare,
+  setRecoverySetup,
 } from './schema';
 
 // Hooks exports
 export { useRepository, type RepositoryOptions } from './hooks/useRepository';
 export { useTrustNotifications } from './hooks/useTrustNotifications';
+export { usePassphrasePrompt, type PassphrasePrompt } from './hooks/usePassphrasePrompt';
+export { useIdentityLock } from './hooks/useIdentityLock';
 export { useAppContext, type UseAppContextOptions, type AppContextValue, type TrustedUserProfile } from './hooks/useAppContext';
 export {
   useKnownProfiles,
@@ -53,6 +80,22 @@ export {
   type UseKnownProfilesOptions,
   type UseKnownProfilesResult,
 } from './hooks/useKnownProfiles';
+export {
+  useWorkspaceEncryption,
+  type WorkspaceEncryptionStatus,
+  type WorkspaceEncryptionControls,
+  type WorkspaceChangeHandle,
+  type UseWorkspaceEncryptionOptions,
+  type UseWorkspaceEncryptionResult,
+} from './hooks/useWorkspaceEncryption';
+export {
+  useWorkspaceAcl,
+  useWorkspaceRoles,
+  type WorkspaceRoles,
+  type WorkspaceAclControls,
+  type UseWorkspaceAclOptions,
+} from './hooks/useWorkspaceAcl';
+export { useTrustLevel } from './hooks/useTrustLevel';
 export { useKnownProfilesContext, useKnownProfilesContextOptional } from './hooks/useKnownProfilesContext';
 
 // Provider exports
@@ -98,6 +141,16 @@ export {
 // Components exports
 export { AppShell, type AppShellProps, type AppShellChildProps, type WorkspaceLoadingState, type ContentState } from './components/AppShell';
 export { StartContent, type StartContentProps } from './components/StartContent';
+export { PassphraseDialog, type PassphraseDialogProps } from './components/PassphraseDialog';
+export { UnlockIdentityDialog } from './components/UnlockIdentityDialog';
+export { IdentityLockSection, type IdentityLockSectionProps } from './components/IdentityLockSection';
+export { RecoveryWizard, type RecoveryWizardProps } from './components/RecoveryWizard';
+export {
+  RecoverySetupSection,
+  type RecoverySetupSectionProps,
+  type RecoveryContact,
+} from './components/RecoverySetupSection';
+export { RecoveryReleaseSection, type RecoveryReleaseSectionProps } from './components/RecoveryReleaseSection';
 export { AppNavbar, type AppNavbarProps } from './components/AppNavbar';
 export {
   WorkspaceSwitcher,
@@ -113,7 +166,7 @@ export { ProfileModal } from './components/ProfileModal';
 export { CollaboratorsModal } from './components/CollaboratorsModal';
 export { ParticipantsModal } from './components/ParticipantsModal';
 export { UserListItem, type UserListItemProps } from './components/UserListItem';
-export { QRScannerModal } from './components/QRScannerModal';
+export { QRScannerModal, type QRCodeHandler, type QRCodeScanResult } from './components/QRScannerModal';
 export { TrustReciprocityModal } from './components/TrustReciprocityModal';
 export { UserProfileModal, type ProfileAction } from './components/UserProfileModal';
 export { ClickableUserName } from './components/ClickableUserName';
@@ -130,6 +183,7 @@ export {
   generateKeypair,
   generateDidIdentity,
   deriveDidFromPublicKey,
+  deriveIdentityFromPrivateKey,
   extractPublicKeyFromDid,
   isFakeDid,
   isValidDid,
@@ -147,8 +201,103 @@ export {
   extractJwsPayload,
   signEntity,
   verifyEntitySignature,
+  resolvePrivateKey,
+  type VerifyEntityOptions,
+  type PrivateKeySource,
 } from './utils/signature';
 
+// Workspace encryption utilities exports
+export {
+  generateWorkspaceKey,
+  wrapWorkspaceKey,
+  unwrapWorkspaceKey,
+  wrapWorkspaceKeyForMembers,
+  createKeyRotation,
+  verifyWorkspaceKeyAccess,
+  encryptWorkspaceData,
+  decryptWorkspaceData,
+  signWorkspacePayload,
+  verifyWorkspacePayload,
+  ed25519PublicKeyToX25519,
+  ed25519PrivateKeyToX25519,
+  sealForDid,
+  openSealedForDid,
+  type WorkspaceKey,
+  type SealedBox,
+  type WorkspaceRoleCheck,
+} from './utils/encryption';
+
+// Workspace access control utilities exports
+export {
+  WORKSPACE_ROLE_RANK,
+  WORKSPACE_ROLE_LABELS,
+  hasWorkspaceRole,
+  normalizeWorkspaceId,
+  createRoleGrant,
+  createWorkspaceSettings,
+  createWorkspaceAcl,
+  resolveWorkspaceAcl,
+  getWorkspaceRole,
+  isWorkspaceActionAllowed,
+  type AclVersions,
+  type ResolvedWorkspaceAcl,
+  type WorkspaceSettingsInput,
+} from './utils/acl';
+
+// Transitive trust engine exports
+export {
+  VERIFICATION_METHOD_WEIGHTS,
+  UNSPECIFIED_METHOD_WEIGHT,
+  ENDORSED_ATTESTATION_FACTOR,
+  MAX_TRUST_DEGREE,
+  MAX_DISTRUST_DEGREE,
+  TRUST_ATTESTATION_VALIDITY_MS,
+  TRUST_EXPIRY_WARNING_MS,
+  UNKNOWN_TRUST,
+  TRUST_LEVEL_LABELS,
+  getAttestationWeight,
+  isAttestationExpired,
+  isAttestationExpiringSoon,
+  verifyTrustGiven,
+  verifyDistrustGiven,
+  computeTrustLevels,
+  computeTrustLevel,
+  type TrustNetwork,
+  type DistrustNetwork,
+  type TrustPathResult,
+  type TrustEngineOptions,
+} from './utils/trust';
+
+// Key rotation exports
+export {
+  createKeySuccession,
+  verifyKeySuccession,
+  resolveKeySuccessions,
+  mergeKeySuccessions,
+  resolveCurrentDid,
+  getFormerDids,
+  isSignedBeforeRetirement,
+  verifyEntitySignatureForDid,
+  type RetiredDid,
+  type KeySuccessionIndex,
+  type DocumentSuccessions,
+} from './utils/keyRotation';
+
+// Social recovery exports
+export {
+  MIN_RECOVERY_THRESHOLD,
+  createRecoveryShares,
+  verifyRecoveryShare,
+  verifyRecoveryRelease,
+  releaseRecoveryShare,
+  encodeRecoveryRelease,
+  decodeRecoveryRelease,
+  recoverIdentity,
+  type RecoveryRelease,
+  type RecoveredIdentity,
+} from './utils/recovery';
+export { MAX_SHARES, splitSecret, combineShares, type SecretShare } from './utils/shamir';
+
 // Storage utilities exports
 export type { StoredIdentity } from './utils/storage';
 export {
@@ -160,7 +309,43 @@ export {
   clearDocumentId,
   exportIdentityToFile,
   importIdentityFromFile,
+  loadPinnedAclOwner,
+  savePinnedAclOwner,
+  loadAclVersions,
+  saveAclVersions,
+  loadKeyRotationVersion,
+  saveKeyRotationVersion,
 } from './utils/storage';
+export {
+  IDENTITY_BACKUP_FORMAT,
+  IDENTITY_BACKUP_VERSION,
+  IDENTITY_BACKUP_ITERATIONS,
+  IDENTITY_BACKUP_MIN_ITERATIONS,
+  IDENTITY_BACKUP_MAX_ITERATIONS,
+  MIN_PASSPHRASE_LENGTH,
+  isEncryptedIdentityBackup,
+  encryptIdentityBackup,
+  decryptIdentityBackup,
+  parseIdentityFile,
+  derivePassphraseKey,
+  type EncryptedIdentityBackup,
+  type PassphraseKdf,
+} from './utils/identityBackup';
+export {
+  MIN_PIN_LENGTH,
+  getIdentityLockState,
+  subscribeIdentityLock,
+  requestPrivateKey,
+  signingKeyOf,
+  unlockIdentity,
+  cancelUnlock,
+  lockIdentity,
+  enableIdentityLock,
+  disableIdentityLock,
+  saveIdentityKeepingLock,
+  type LockedPrivateKey,
+  type IdentityLockState,
+} from './utils/identityLock';
 
 // Image processing utilities exports
 export {
@@ -182,8 +367,23 @@ export {
   type NarrativeDebug,
 } from './utils/debug';
 
+// Graph layout utilities exports
+export {
+  seededRandom,
+  simulateForces,
+  type ForceNode,
+  type ForceEdge,
+  type ForceLayoutOptions,
+} from './utils/forceLayout';
+
 // Time formatting utilities exports
 export {
   formatRelativeTime,
   formatFullDateTime,
 } from './utils/time';
+
+// File export utilities exports
+export {
+  csvField,
+  downloadFile,
+} from './utils/fileExport';
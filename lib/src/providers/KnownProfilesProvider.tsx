@@ -9,21 +9,44 @@
  * - Workspace: Fallback from workspace identities
  *
  * Uses React hooks (useDocument) for automatic reactivity instead of manual subscriptions.
+ *
+ * The verified trustGiven / distrustGiven of the own and all loaded documents
+ * form the networks used to compute transitive trust levels (see utils/trust.ts).
+ * Verified key successions map retired DIDs to their current DID, so profiles
+ * and trust levels can be looked up by old DIDs (see utils/keyRotation.ts).
+ * A loaded document may only retire the DIDs its URL was registered for.
  */
 
 import React, { createContext, useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import type { Repo } from '@automerge/automerge-repo';
 import type { UserDocument } from '../schema/userDocument';
 import type { BaseDocument } from '../schema/document';
+import type { DistrustAttestation, TrustAttestation } from '../schema/identity';
 import { UserDocLoader } from '../components/UserDocLoader';
 import { verifyProfileSignature } from '../utils/signature';
 import { extractPublicKeyFromDid, base64Encode } from '../utils/did';
+import {
+  computeTrustLevels,
+  verifyDistrustGiven,
+  verifyTrustGiven,
+  UNKNOWN_TRUST,
+  type DistrustNetwork,
+  type TrustNetwork,
+} from '../utils/trust';
+import {
+  mergeKeySuccessions,
+  resolveCurrentDid,
+  resolveKeySuccessions,
+  type DocumentSuccessions,
+  type KeySuccessionIndex,
+} from '../utils/keyRotation';
 import type {
   KnownProfilesContextValue,
   KnownProfilesProviderProps,
   TrackedProfile,
   DocUrlEntry,
   ProfileLoadState,
+  UserDocNetwork,
 } from './types';
 import { MAX_2ND_DEGREE_PROFILES, SOURCE_PRIORITY } from './types';
 import type { ProfileSource, ProfileSignatureStatus, DiscoverySource, KnownProfile } from '../hooks/useKnownProfiles';
@@ -82,6 +105,15 @@ export function KnownProfilesProvider({
   // Track loaded 2nd degree DIDs to prevent re-loading
   const loaded2ndDegreeDidsRef = useRef<Set<string>>(new Set());
 
+  // Verified trust edges and blocks: own document and loaded documents
+  const [ownTrustGiven, setOwnTrustGiven] = useState<Record<string, TrustAttestation>>({});
+  const [ownDistrustGiven, setOwnDistrustGiven] = useState<Record<string, DistrustAttestation>>({});
+  const [loadedTrustGiven, setLoadedTrustGiven] = useState<TrustNetwork>({});
+  const [loadedDistrustGiven, setLoadedDistrustGiven] = useState<DistrustNetwork>({});
+  const [ownSuccessions, setOwnSuccessions] = useState<KeySuccessionIndex>({});
+  // Keyed by document URL
+  const [loadedSuccessions, setLoadedSuccessions] = useState<Record<string, DocumentSuccessions>>({});
+
   // === Helper: Update a single profile with source priority ===
   const updateProfile = useCallback(
     (
@@ -203,7 +235,12 @@ export function KnownProfilesProvider({
       // Add/update 1st-degree URLs
       for (const [url, entry] of newFirstDegreeUrls) {
         const existing = updated.get(url);
-        if (!existing || existing.source === 'external' || existing.source === 'workspace') {
+        if (
+          !existing ||
+          existing.source === 'external' ||
+          existing.source === 'workspace' ||
+          existing.source === 'network-2nd'
+        ) {
           // Upgrade source or add new
           updated.set(url, {
             ...entry,
@@ -228,6 +265,28 @@ export function KnownProfilesProvider({
     prevTrustGivenDidsRef.current = newTrustGivenDids;
   }, [userDoc?.trustGiven, userDoc?.trustReceived]);
 
+  // === Effect 2b: Verify own key successions, trust edges and blocks ===
+  useEffect(() => {
+    if (!userDoc || !currentUserDid) return;
+
+    let cancelled = false;
+    resolveKeySuccessions(userDoc.keySuccessions || {}, currentUserDid).then(async (successions) => {
+      // Legacy attestations without signature are only accepted from the own document
+      const [trustGiven, distrustGiven] = await Promise.all([
+        verifyTrustGiven(userDoc.trustGiven || {}, currentUserDid, true, successions),
+        verifyDistrustGiven(userDoc.distrustGiven || {}, currentUserDid, true, successions),
+      ]);
+      if (cancelled) return;
+      setOwnSuccessions(successions);
+      setOwnTrustGiven(trustGiven);
+      setOwnDistrustGiven(distrustGiven);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userDoc?.trustGiven, userDoc?.distrustGiven, userDoc?.keySuccessions, currentUserDid]);
+
   // === Effect 3: Workspace identities as fallback ===
   useEffect(() => {
     if (!workspaceDoc?.identities) return;
@@ -306,7 +365,8 @@ export function KnownProfilesProvider({
     async (
       url: string,
       did: string,
-      profile: { displayName?: string; avatarUrl?: string; updatedAt?: number; signature?: string }
+      profile: { displayName?: string; avatarUrl?: string; updatedAt?: number; signature?: string },
+      network: UserDocNetwork
     ) => {
       // Get the entry to know the source
       const entry = docUrlRegistry.get(url);
@@ -342,48 +402,63 @@ export function KnownProfilesProvider({
         registeredAt: entry?.registeredAt || Date.now(),
       });
 
-      // For 1st-degree profiles, crawl 2nd-degree
-      if (discoverySource === 'trust') {
-        // We need to get the full doc to extract trust URLs
-        // The UserDocLoader only gives us profile data, so we rely on the doc being in the repo
-        // For now, we'll skip 2nd-degree crawling here and handle it separately
-        // TODO: Consider passing full doc or trust URLs through callback
+      // Keep verified successions, trust edges and blocks (own ones come from userDoc)
+      if (did !== currentUserDid) {
+        const successions = await resolveKeySuccessions(network.keySuccessions, did);
+        const [trustGiven, distrustGiven] = await Promise.all([
+          verifyTrustGiven(network.trustGiven, did, false, successions),
+          verifyDistrustGiven(network.distrustGiven, did, false, successions),
+        ]);
+        setLoadedSuccessions((prev) => {
+          const knownDids = new Set([...(prev[url]?.knownDids ?? []), did]);
+          if (entry?.expectedDid) knownDids.add(entry.expectedDid);
+          return { ...prev, [url]: { knownDids: Array.from(knownDids), index: successions } };
+        });
+        setLoadedTrustGiven((prev) => ({ ...prev, [did]: trustGiven }));
+        setLoadedDistrustGiven((prev) => ({ ...prev, [did]: distrustGiven }));
       }
     },
-    [docUrlRegistry, updateProfile]
+    [docUrlRegistry, updateProfile, currentUserDid]
   );
 
   // === Effect 4: Crawl 2nd-degree profiles from loaded 1st-degree docs ===
-  // This effect watches profiles and looks for opportunities to load 2nd-degree
+  // Users trusted by users I trust; their trustGiven yields the 3rd degree
   useEffect(() => {
     if (!repo || !userDoc) return;
 
-    const crawl2ndDegree = async () => {
-      // Get all 1st-degree DIDs that are loaded
-      const firstDegreeDids = new Set<string>();
-      for (const [, entry] of docUrlRegistry) {
-        if ((entry.source === 'trust-given' || entry.source === 'trust-received') && entry.loadState === 'loaded' && entry.expectedDid) {
-          firstDegreeDids.add(entry.expectedDid);
-        }
+    setDocUrlRegistry((prev) => {
+      let count = 0;
+      for (const entry of prev.values()) {
+        if (entry.source === 'network-2nd') count++;
       }
 
-      // For each 1st-degree profile, check their trust relationships
-      for (const [, entry] of docUrlRegistry) {
-        if (entry.source !== 'trust-given' && entry.source !== 'trust-received') continue;
-        if (entry.loadState !== 'loaded' || !entry.expectedDid) continue;
+      let updated: Map<string, DocUrlEntry> | null = null;
+      for (const entry of prev.values()) {
+        if (entry.source !== 'trust-given' || entry.loadState !== 'loaded' || !entry.expectedDid) continue;
+
+        for (const attestation of Object.values(loadedTrustGiven[entry.expectedDid] ?? {})) {
+          if (count >= MAX_2ND_DEGREE_PROFILES) break;
 
-        // We need to access the loaded doc from the profile data
-        // Since we can't access the full doc through the loader callback,
-        // we'll need to rely on the profiles Map and infer 2nd-degree from there
-        // This is a limitation - we may need to enhance the approach
+          const url = attestation.trusteeUserDocUrl;
+          const did = attestation.trusteeDid;
+          if (!url || did === currentUserDid || prev.has(url) || updated?.has(url)) continue;
 
-        // For now, skip automatic 2nd-degree crawling
-        // The profile data is already reactive through useDocument
+          updated = updated ?? new Map(prev);
+          updated.set(url, {
+            url,
+            expectedDid: did,
+            discoverySource: 'trust',
+            source: 'network-2nd', // @deprecated
+            loadState: 'loading',
+            registeredAt: Date.now(),
+          });
+          count++;
+        }
       }
-    };
 
-    crawl2ndDegree();
-  }, [repo, userDoc, docUrlRegistry, profiles]);
+      return updated ?? prev;
+    });
+  }, [repo, userDoc, currentUserDid, docUrlRegistry, loadedTrustGiven]);
 
   // === Callback: Handle unavailable document ===
   const handleDocUnavailable = useCallback((url: string) => {
@@ -424,8 +499,47 @@ export function KnownProfilesProvider({
     return false;
   }, [docUrlRegistry]);
 
+  // === Key successions (retired DID -> current DID) ===
+  const keySuccessions = useMemo<KeySuccessionIndex>(
+    () => ({ ...mergeKeySuccessions(Object.values(loadedSuccessions)), ...ownSuccessions }),
+    [loadedSuccessions, ownSuccessions]
+  );
+
+  const resolveDid = useCallback((did: string) => resolveCurrentDid(did, keySuccessions), [keySuccessions]);
+
   // === Get profile helper ===
-  const getProfile = useCallback((did: string) => profiles.get(did), [profiles]);
+  const getProfile = useCallback(
+    (did: string) => profiles.get(resolveDid(did)) ?? profiles.get(did),
+    [profiles, resolveDid]
+  );
+
+  // === Trust networks and transitive trust levels ===
+  const trustNetwork = useMemo<TrustNetwork>(
+    () => (currentUserDid ? { ...loadedTrustGiven, [currentUserDid]: ownTrustGiven } : loadedTrustGiven),
+    [loadedTrustGiven, ownTrustGiven, currentUserDid]
+  );
+
+  const distrustNetwork = useMemo<DistrustNetwork>(() => {
+    const { [currentUserDid]: _own, ...others } = loadedDistrustGiven;
+    return others;
+  }, [loadedDistrustGiven, currentUserDid]);
+
+  const blockedDids = useMemo(() => new Set(Object.keys(ownDistrustGiven)), [ownDistrustGiven]);
+
+  const trustLevels = useMemo(
+    () =>
+      computeTrustLevels(trustNetwork, currentUserDid, {
+        blockedDids,
+        distrust: distrustNetwork,
+        successions: keySuccessions,
+      }),
+    [trustNetwork, currentUserDid, blockedDids, distrustNetwork, keySuccessions]
+  );
+
+  const getTrustLevel = useCallback(
+    (did: string) => trustLevels.get(resolveDid(did)) ?? UNKNOWN_TRUST,
+    [trustLevels, resolveDid]
+  );
 
   // === Context value ===
   const contextValue = useMemo<KnownProfilesContextValue>(
@@ -434,8 +548,25 @@ export function KnownProfilesProvider({
       getProfile,
       isLoading,
       registerExternalDoc,
+      trustNetwork,
+      distrustNetwork,
+      blockedDids,
+      keySuccessions,
+      resolveDid,
+      getTrustLevel,
     }),
-    [profiles, getProfile, isLoading, registerExternalDoc]
+    [
+      profiles,
+      getProfile,
+      isLoading,
+      registerExternalDoc,
+      trustNetwork,
+      distrustNetwork,
+      blockedDids,
+      keySuccessions,
+      resolveDid,
+      getTrustLevel,
+    ]
   );
 
   // === Render invisible loaders ===
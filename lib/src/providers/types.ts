@@ -3,6 +3,9 @@
  */
 
 import type { ProfileSource, ProfileSignatureStatus, DiscoverySource } from '../hooks/useKnownProfiles';
+import type { DistrustAttestation, KeySuccession, TrustAttestation } from '../schema/identity';
+import type { KeySuccessionIndex } from '../utils/keyRotation';
+import type { DistrustNetwork, TrustNetwork, TrustPathResult } from '../utils/trust';
 
 /** Loading state for each profile */
 export type ProfileLoadState = 'loading' | 'loaded' | 'unavailable';
@@ -51,6 +54,18 @@ export interface KnownProfilesContextValue {
    * @param displayName - Optional display name from QR code (used as placeholder until document loads)
    */
   registerExternalDoc: (userDocUrl: string, expectedDid?: string, displayName?: string) => void;
+  /** Verified trust edges of the own and all loaded UserDocuments */
+  trustNetwork: TrustNetwork;
+  /** Verified blocks of all loaded UserDocuments (without own blocks) */
+  distrustNetwork: DistrustNetwork;
+  /** DIDs blocked by the current user (verified distrustGiven of the own UserDocument) */
+  blockedDids: ReadonlySet<string>;
+  /** Verified key successions of the own and all loaded UserDocuments */
+  keySuccessions: KeySuccessionIndex;
+  /** Resolve a (possibly retired) DID to its current DID */
+  resolveDid: (did: string) => string;
+  /** Transitive trust of a DID, seen from the current user */
+  getTrustLevel: (did: string) => TrustPathResult;
 }
 
 /** Props for KnownProfilesProvider */
@@ -67,12 +82,24 @@ export interface KnownProfilesProviderProps {
   children: React.ReactNode;
 }
 
+/** Trust data reported by UserDocLoader (unverified) */
+export interface UserDocNetwork {
+  trustGiven: Record<string, TrustAttestation>;
+  distrustGiven: Record<string, DistrustAttestation>;
+  keySuccessions: Record<string, KeySuccession>;
+}
+
 /** Props for UserDocLoader component */
 export interface UserDocLoaderProps {
   url: string;
   expectedDid: string | null;
   source: ProfileSource;
-  onLoaded: (url: string, did: string, profile: { displayName?: string; avatarUrl?: string; updatedAt?: number; signature?: string }) => void;
+  onLoaded: (
+    url: string,
+    did: string,
+    profile: { displayName?: string; avatarUrl?: string; updatedAt?: number; signature?: string },
+    network: UserDocNetwork
+  ) => void;
   onUnavailable: (url: string) => void;
 }
 
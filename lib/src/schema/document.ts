@@ -36,6 +36,142 @@ export interface ContextMetadata {
   avatar?: string;
 }
 
+/**
+ * Workspace key wrapped for a single member
+ * Encrypted via X25519 ECDH between an ephemeral key and the member's did:key
+ */
+export interface WrappedWorkspaceKey {
+  /** Key generation this entry belongs to */
+  keyId: string;
+  /** Base64 ephemeral X25519 public key */
+  ephemeralPublicKey: string;
+  /** Base64 AES-GCM IV */
+  iv: string;
+  /** Base64 encrypted workspace key */
+  ciphertext: string;
+  /** DID of the member who granted access */
+  grantedBy: string;
+  grantedAt: number;
+  /** JWS of grantedBy over this entry, the recipient DID and the workspace ID */
+  signature: string;
+}
+
+/**
+ * Signed record of the current key generation
+ * Created by an admin when encryption is enabled and on every key rotation.
+ * The version increases with every rotation, so an older generation (whose
+ * key a removed member still knows) cannot be written back.
+ */
+export interface WorkspaceKeyRotation {
+  keyId: string;
+  version: number;
+  workspaceId: string;
+  rotatedBy: string;
+  rotatedAt: number;
+  /** JWS of rotatedBy over all other fields */
+  signature: string;
+}
+
+/**
+ * Encrypted app data (AES-GCM with the workspace key)
+ */
+export interface EncryptedWorkspacePayload {
+  /** Key generation used for encryption */
+  keyId: string;
+  /** Base64 AES-GCM IV */
+  iv: string;
+  /** Base64 ciphertext of the JSON-serialized data */
+  ciphertext: string;
+  /** DID of the member who wrote the payload */
+  writtenBy?: string;
+  /** JWS of writtenBy over keyId, IV, ciphertext digest and workspace ID (unsigned payloads are ignored) */
+  signature?: string;
+}
+
+/**
+ * End-to-end encryption state of a workspace
+ *
+ * When present, `data` only holds an empty placeholder and the real app
+ * data lives in `payload`. Metadata (context, identities) stays readable
+ * so the workspace can be shown and joined. Wrapped keys and the rotation
+ * are signed by an admin, the payload by a member (see utils/encryption).
+ */
+export interface WorkspaceEncryption {
+  /** Current key generation (changes on every rotation) */
+  keyId: string;
+  /** Signed record of the current key generation (keys are not trusted without it) */
+  rotation?: WorkspaceKeyRotation;
+  /** Current workspace key wrapped per member: DID → wrapped key */
+  keys: Record<string, WrappedWorkspaceKey>;
+  /** Encrypted app data */
+  payload: EncryptedWorkspacePayload;
+  /** Pending access requests from joined members without a key: DID → timestamp */
+  accessRequests?: Record<string, number>;
+}
+
+/**
+ * Workspace role (ordered by rank: viewer < member < admin < owner)
+ * - viewer: read only
+ * - member: may create and change content in modules
+ * - admin: may additionally change workspace settings and roles
+ * - owner: creator of the ACL, cannot be demoted
+ */
+export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+/**
+ * Role grant for a single DID, signed by an admin (or the owner)
+ */
+export interface RoleGrant {
+  /** DID receiving the role */
+  subjectDid: string;
+  /** Granted role ('owner' cannot be granted) */
+  role: WorkspaceRole;
+  /** DID of the admin who signed this grant */
+  grantedBy: string;
+  /** Workspace (document ID) the grant is bound to */
+  workspaceId: string;
+  createdAt: number;
+  /** Increases with every grant for the subject, so older grants cannot be replayed (missing = 0) */
+  version?: number;
+  /** JWS signature by grantedBy over all other fields */
+  signature: string;
+}
+
+/**
+ * Signed workspace settings
+ * Readers use these values instead of the unsigned doc.context / doc.enabledModules.
+ */
+export interface WorkspaceSettings {
+  /** Workspace (document ID) the settings are bound to */
+  workspaceId: string;
+  context?: ContextMetadata;
+  enabledModules?: Record<string, boolean>;
+  /** Role of DIDs without an explicit grant */
+  defaultRole: 'member' | 'viewer';
+  /** DID of the admin who signed these settings */
+  updatedBy: string;
+  updatedAt: number;
+  /** Increases with every update, so older settings cannot be replayed (missing = 0) */
+  version?: number;
+  /** JWS signature by updatedBy over all other fields */
+  signature: string;
+}
+
+/**
+ * Signed access control list of a workspace
+ *
+ * Only grants that chain back to the owner through admins are effective.
+ * Without an ACL, every participant may change everything (legacy behavior).
+ */
+export interface WorkspaceAcl {
+  /** DID of the workspace owner */
+  ownerDid: string;
+  /** Role grants: subject DID → grant */
+  grants: Record<string, RoleGrant>;
+  /** Signed workspace settings */
+  settings: WorkspaceSettings;
+}
+
 /**
  * Base document structure shared by all Narrative apps
  * Wraps app-specific data with shared identity infrastructure
@@ -69,6 +205,18 @@ export interface BaseDocument<TData = unknown> {
 
   // App-specific data (can be single module or multi-module)
   data: TData;
+
+  /**
+   * End-to-end encryption (optional)
+   * When set, app data is stored encrypted in encryption.payload
+   */
+  encryption?: WorkspaceEncryption;
+
+  /**
+   * Signed roles and settings (optional)
+   * When set, mutations require the corresponding role
+   */
+  acl?: WorkspaceAcl;
 }
 
 /**
@@ -43,6 +43,13 @@ export interface TrustAttestation {
   createdAt: number;
   updatedAt: number;
 
+  /**
+   * Expiry timestamp (part of the signed payload)
+   * Expired attestations are inactive until the truster renews them.
+   * Attestations without expiresAt never expire (legacy).
+   */
+  expiresAt?: number;
+
   /**
    * UserDoc URL of the truster (for bidirectional trust)
    * Allows the trustee to resolve the truster's profile and
@@ -65,6 +72,85 @@ export interface TrustAttestation {
   signature?: string;
 }
 
+/**
+ * Distrust attestation (block) for Web of Trust
+ * Represents a signed assertion that one user does not trust another.
+ *
+ * Stored in the blocker's UserDocument (distrustGiven) so blocks persist
+ * across devices. Blocks from the own trust network act as a negative
+ * signal for everyone else.
+ */
+export interface DistrustAttestation {
+  id: string;
+  blockerDid: string;      // Who is blocking
+  blockedDid: string;      // Who is being blocked
+  reason?: string;         // Optional: "Spam"
+  createdAt: number;
+
+  /**
+   * JWS signature proving this block was created by the blocker
+   * Signed payload excludes: signature field itself
+   */
+  signature?: string;
+}
+
+/**
+ * Key succession record (key rotation)
+ * States that previousDid is retired and succeeded by nextDid.
+ *
+ * Signed with the key of previousDid and stored in the owner's UserDocument
+ * (keySuccessions), so attestations for the old DID carry over to the new one.
+ */
+export interface KeySuccession {
+  id: string;
+  previousDid: string;     // Retired DID (signer)
+  nextDid: string;         // New DID
+  createdAt: number;       // Retirement time of previousDid
+
+  /**
+   * JWS signature by the key of previousDid
+   * Signed payload excludes: signature field itself
+   */
+  signature?: string;
+}
+
+/**
+ * Encrypted recovery share (social recovery)
+ * One Shamir share of the owner's private key, encrypted to the DID of a
+ * trusted contact (the holder).
+ *
+ * Signed by the owner and stored in the holder's UserDocument (recoveryShares),
+ * so the holder can hand it out again when the owner lost their key.
+ */
+export interface RecoveryShare {
+  id: string;
+  ownerDid: string;           // Whose key can be recovered (signer)
+  holderDid: string;          // Trusted contact who can decrypt this share
+  threshold: number;          // Shares needed to recover (k)
+  shareCount: number;         // Shares created in total (n)
+  ephemeralPublicKey: string; // Base64 ephemeral X25519 public key
+  iv: string;                 // Base64 AES-GCM IV
+  ciphertext: string;         // Base64 encrypted share (index, share bytes, userDocUrl)
+  createdAt: number;
+
+  /**
+   * JWS signature by the owner
+   * Signed payload excludes: signature field itself
+   */
+  signature?: string;
+}
+
+/**
+ * Social recovery setup of the owner
+ * Stored in the owner's own UserDocument to show who holds shares.
+ */
+export interface RecoverySetup {
+  id: string;
+  threshold: number;
+  holderDids: string[];
+  createdAt: number;
+}
+
 /**
  * Trust level calculated for a user
  */
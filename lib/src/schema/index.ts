@@ -10,12 +10,28 @@ export type {
   UserIdentity,
   IdentityProfile,
   TrustAttestation,
+  DistrustAttestation,
+  KeySuccession,
+  RecoveryShare,
+  RecoverySetup,
   TrustLevel,
 } from './identity';
 
 // Generic document structure (shared across all apps)
 // Note: Trust attestations moved to UserDocument
-export type { BaseDocument, ContextMetadata, IdentityLookupEntry } from './document';
+export type {
+  BaseDocument,
+  ContextMetadata,
+  IdentityLookupEntry,
+  WorkspaceEncryption,
+  WrappedWorkspaceKey,
+  WorkspaceKeyRotation,
+  EncryptedWorkspacePayload,
+  WorkspaceRole,
+  RoleGrant,
+  WorkspaceSettings,
+  WorkspaceAcl,
+} from './document';
 export {
   createBaseDocument,
   generateId,
@@ -25,9 +41,19 @@ export {
 export type {
   UserDocument,
   UserProfile,
-  Voucher,
   WorkspaceRef,
 } from './userDocument';
+
+// Vouchers (Dank, shared by workspaces and the User Document)
+export type {
+  Voucher,
+  VoucherStatus,
+  VoucherExpiryBehavior,
+  VoucherTransfer,
+  VoucherSplit,
+  VoucherSplitPart,
+  VoucherMove,
+} from './voucher';
 export {
   createUserDocument,
   addWorkspace,
@@ -38,4 +64,10 @@ export {
   removeTrustGiven,
   addTrustReceived,
   removeTrustReceived,
+  addDistrustGiven,
+  removeDistrustGiven,
+  addKeySuccession,
+  addRecoveryShare,
+  removeRecoveryShare,
+  setRecoverySetup,
 } from './userDocument';
@@ -5,7 +5,10 @@
  * This document is synchronized via Automerge and contains:
  * - User profile (name, avatar)
  * - Trust attestations (given and received)
- * - Vouchers (DANK tokens)
+ * - Blocks (distrust attestations given)
+ * - Key successions (rotated DIDs)
+ * - Social recovery (own setup, shares held for others)
+ * - Vouchers (Dank vouchers taken across workspaces)
  * - Workspace list
  *
  * Security model:
@@ -14,7 +17,14 @@
  * - Invalid signatures are ignored when reading data
  */
 
-import type { TrustAttestation } from './identity';
+import type {
+  DistrustAttestation,
+  KeySuccession,
+  RecoverySetup,
+  RecoveryShare,
+  TrustAttestation,
+} from './identity';
+import type { Voucher } from './voucher';
 
 /**
  * User profile information
@@ -35,30 +45,6 @@ export interface UserProfile {
   signature?: string;
 }
 
-/**
- * Voucher/Token (DANK)
- * Represents a transferable unit of value
- */
-export interface Voucher {
-  id: string;
-  /** Amount in smallest unit */
-  amount: number;
-  /** Currency/token type */
-  currency: string;
-  /** Who issued this voucher */
-  issuerDid: string;
-  /** Current owner */
-  ownerDid: string;
-  /** Creation timestamp */
-  createdAt: number;
-  /** Signature from issuer (proves authenticity) */
-  issuerSignature: string;
-  /** Optional: expiration timestamp */
-  expiresAt?: number;
-  /** Optional: notes/memo */
-  memo?: string;
-}
-
 /**
  * Workspace reference
  * Minimal info needed to load a workspace
@@ -115,8 +101,46 @@ export interface UserDocument {
   trustReceived: Record<string, TrustAttestation>;
 
   /**
-   * Vouchers owned by this user
+   * Blocks (distrust attestations) given by this user
+   * Key: blockedDid (who I'm blocking)
+   * Value: Signed distrust attestation
+   *
+   * Optional for documents created before blocks existed.
+   */
+  distrustGiven?: Record<string, DistrustAttestation>;
+
+  /**
+   * Key successions of this user (one per rotation)
+   * Key: previousDid (the retired DID)
+   * Value: Succession signed by the retired key
+   *
+   * The chain ends in `did`. Optional for documents created before key rotation existed.
+   */
+  keySuccessions?: Record<string, KeySuccession>;
+
+  /**
+   * Own social recovery setup (who holds shares of my key)
+   * Optional - only present after recovery was set up.
+   */
+  recoverySetup?: RecoverySetup;
+
+  /**
+   * Recovery shares held for other users
+   * Key: ownerDid (whose key the share belongs to)
+   * Value: Share encrypted to this user, signed by the owner
+   *
+   * Written by the owners. Invalid signatures are ignored at read time.
+   */
+  recoveryShares?: Record<string, RecoveryShare>;
+
+  /**
+   * Dank vouchers taken out of workspaces or received across workspaces
    * Key: voucher ID
+   * Value: Voucher with its signature chain (same shape as in Dank workspaces)
+   *
+   * Besides the vouchers held by this user, it contains the vouchers they sent
+   * on and the ancestors of split vouchers (needed to validate the chain).
+   * Written by senders too; the signature chain is verified at read time.
    */
   vouchers: Record<string, Voucher>;
 
@@ -144,6 +168,7 @@ export function createUserDocument(did: string, displayName: string): UserDocume
     },
     trustGiven: {},
     trustReceived: {},
+    distrustGiven: {},
     vouchers: {},
     workspaces: {},
   };
@@ -264,3 +289,84 @@ export function removeTrustReceived(doc: UserDocument, trusterDid: string): void
   delete doc.trustReceived[trusterDid];
   doc.lastModified = Date.now();
 }
+
+/**
+ * Add a block (distrust attestation) given by this user
+ *
+ * @param doc - User document to modify
+ * @param attestation - Signed distrust attestation
+ */
+export function addDistrustGiven(doc: UserDocument, attestation: DistrustAttestation): void {
+  if (!doc.distrustGiven) {
+    doc.distrustGiven = {};
+  }
+  doc.distrustGiven[attestation.blockedDid] = attestation;
+  doc.lastModified = Date.now();
+}
+
+/**
+ * Remove a block given by this user
+ *
+ * @param doc - User document to modify
+ * @param blockedDid - DID of the user to unblock
+ */
+export function removeDistrustGiven(doc: UserDocument, blockedDid: string): void {
+  if (!doc.distrustGiven?.[blockedDid]) return;
+  delete doc.distrustGiven[blockedDid];
+  doc.lastModified = Date.now();
+}
+
+/**
+ * Record a key rotation and switch the document to the new DID
+ *
+ * @param doc - User document to modify
+ * @param succession - Succession signed by the retired key (previousDid must be doc.did)
+ */
+export function addKeySuccession(doc: UserDocument, succession: KeySuccession): void {
+  if (succession.previousDid !== doc.did) {
+    throw new Error('Succession does not start at the current DID of the document');
+  }
+  if (!doc.keySuccessions) {
+    doc.keySuccessions = {};
+  }
+  doc.keySuccessions[succession.previousDid] = succession;
+  doc.did = succession.nextDid;
+  doc.lastModified = Date.now();
+}
+
+/**
+ * Store a recovery share held for another user
+ *
+ * @param doc - User document of the holder
+ * @param share - Share signed by its owner
+ */
+export function addRecoveryShare(doc: UserDocument, share: RecoveryShare): void {
+  if (!doc.recoveryShares) {
+    doc.recoveryShares = {};
+  }
+  doc.recoveryShares[share.ownerDid] = share;
+  doc.lastModified = Date.now();
+}
+
+/**
+ * Remove a recovery share held for another user
+ *
+ * @param doc - User document of the holder
+ * @param ownerDid - DID of the share owner
+ */
+export function removeRecoveryShare(doc: UserDocument, ownerDid: string): void {
+  if (!doc.recoveryShares?.[ownerDid]) return;
+  delete doc.recoveryShares[ownerDid];
+  doc.lastModified = Date.now();
+}
+
+/**
+ * Set the own social recovery setup
+ *
+ * @param doc - User document of the owner
+ * @param setup - Threshold and holders of the new shares
+ */
+export function setRecoverySetup(doc: UserDocument, setup: RecoverySetup): void {
+  doc.recoverySetup = setup;
+  doc.lastModified = Date.now();
+}
@@ -0,0 +1,140 @@
+/**
+ * Voucher Schema (Dank)
+ *
+ * Signed vouchers - promises of value from an issuer to the holder. They live
+ * in Dank workspaces and, to take them across workspaces, in the holder's
+ * UserDocument. The shape is the same in both places, so the signature chain
+ * (issuer, transfers, splits) can be validated wherever a voucher is stored.
+ *
+ * Signing, validation and balances are implemented by the Dank app.
+ */
+
+/**
+ * Voucher status
+ * 'split' = consumed by a split into child vouchers
+ * 'moved' = moved out of the workspace into the holder's UserDocument
+ * 'disputed' is never stored - it is derived from a fork in the transfer chain
+ * 'pending' is never stored - a group voucher still missing issuer signatures
+ */
+export type VoucherStatus = 'active' | 'redeemed' | 'expired' | 'split' | 'moved' | 'disputed' | 'pending';
+
+/**
+ * What happens when a voucher expires (chosen and signed by the issuer)
+ * - void: the voucher loses its value (default)
+ * - return: it returns to the issuer automatically (counts as redeemed)
+ * - decay: its value shrinks steadily until it is worthless at expiry (demurrage)
+ */
+export type VoucherExpiryBehavior = 'void' | 'return' | 'decay';
+
+/**
+ * A single transfer in the voucher's chain of custody
+ * Each transfer is signed by the sender, building on the previous signature
+ */
+export interface VoucherTransfer {
+  id: string;
+  voucherId: string;
+  fromId: string;             // DID of sender
+  toId: string;               // DID of recipient
+  timestamp: number;
+  note?: string;
+  reference?: string;         // What the transfer pays (e.g. a market listing ID), signed
+
+  // Signature of the sender (signs: voucherId, fromId, toId, timestamp, previousSignature, reference)
+  signature: string;          // JWS compact serialization
+}
+
+/**
+ * Amount of a child voucher created by a split
+ */
+export interface VoucherSplitPart {
+  id: string;
+  amount: number;
+}
+
+/**
+ * Split of a voucher into two child vouchers (payment + change)
+ * Signed by the holder; it ends the chain of the parent, and the children
+ * continue with the split signature as their chain root.
+ */
+export interface VoucherSplit {
+  id: string;
+  holderId: string;           // DID of the holder who split the voucher
+  timestamp: number;
+  children: VoucherSplitPart[]; // Amounts add up to the parent amount
+
+  // Signature of the holder (signs: voucherId, holderId, previousSignature, children, timestamp)
+  signature: string;          // JWS compact serialization
+}
+
+/**
+ * Move of a voucher out of a workspace into the holder's UserDocument
+ * Signed by the holder; like a split it ends the chain in the workspace, so
+ * a later transfer on the same link there shows up as a double spend. The
+ * voucher stays in the workspace with its chain.
+ */
+export interface VoucherMove {
+  id: string;
+  holderId: string;           // DID of the holder who moved the voucher
+  timestamp: number;
+
+  // Signature of the holder (signs: voucherId, holderId, previousSignature, timestamp)
+  signature: string;          // JWS compact serialization
+}
+
+/**
+ * A voucher (Gutschein) - a promise of value from issuer to holder
+ *
+ * Lifecycle:
+ * 1. Issuer creates voucher, signs it, sends to initial recipient
+ * 2. Holder can transfer to another user (signed transfer added to chain)
+ * 3. When voucher returns to issuer, it's automatically redeemed
+ * 4. If expiresAt is set and passed, voucher expires (see VoucherExpiryBehavior)
+ * 5. Holder can split it into two child vouchers (payment + change); the
+ *    children keep issuer, unit and expiry of the parent
+ *
+ * Group vouchers are issued by a set of issuers (e.g. a repair café): the
+ * creating issuer signs first, the others co-sign the same payload. The
+ * voucher is pending until issuerThreshold issuers have signed, and returns
+ * to the group when it reaches any of its issuers.
+ */
+export interface Voucher {
+  id: string;
+
+  // Creation data (immutable after creation)
+  issuerId: string;           // DID of issuer (creator)
+  amount: number;             // e.g., 10
+  unit: string;               // e.g., "Minuten", "Äpfel", "EUR"
+  note?: string;              // Description of the value promise
+  createdAt: number;
+  expiresAt?: number;         // Optional expiration timestamp
+  expiryBehavior?: VoucherExpiryBehavior; // What happens at expiresAt (default 'void')
+
+  // Initial recipient
+  initialRecipientId: string;
+
+  // Current state
+  currentHolderId: string;    // Who currently holds the voucher
+  status: VoucherStatus;
+  redeemedAt?: number;        // When returned to issuer
+
+  // Issuer's signature (signs: id, issuerId, amount, unit, createdAt, expiresAt, initialRecipientId)
+  issuerSignature: string;    // JWS compact serialization
+
+  // Chain of transfers (append-only)
+  transfers: VoucherTransfer[];
+
+  // Split lineage
+  split?: VoucherSplit;       // Set on the parent when its holder split it
+  parentId?: string;          // Set on child vouchers
+  splitSignature?: string;    // Child vouchers: signature of the parent's split (chain root)
+  issuedAt?: number;          // Child vouchers with expiry behavior: createdAt of the original voucher
+
+  // Workspace copy of a voucher moved into the holder's UserDocument
+  movedOut?: VoucherMove;
+
+  // Group vouchers (signed issuer set; children keep issuerIds and issuerThreshold)
+  issuerIds?: string[];       // All issuers, issuerId first
+  issuerThreshold?: number;   // Issuer signatures needed before the voucher is valid
+  coIssuerSignatures?: Record<string, string>; // DID -> JWS of the other issuers (not on children)
+  // Child vouchers carry the parent's issuerSignature; their provenance is the parent chain
+}
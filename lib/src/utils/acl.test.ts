@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  createRoleGrant,
+  createWorkspaceAcl,
+  createWorkspaceSettings,
+  resolveWorkspaceAcl,
+  getWorkspaceRole,
+  isWorkspaceActionAllowed,
+  hasWorkspaceRole,
+} from './acl';
+import { generateDidIdentity, type DidIdentity } from './did';
+import type { WorkspaceAcl } from '../schema/document';
+
+const WORKSPACE_ID = 'workspace-1';
+
+describe('Workspace roles', () => {
+  it('should compare roles by rank', () => {
+    expect(hasWorkspaceRole('owner', 'admin')).toBe(true);
+    expect(hasWorkspaceRole('admin', 'member')).toBe(true);
+    expect(hasWorkspaceRole('member', 'admin')).toBe(false);
+    expect(hasWorkspaceRole('viewer', 'member')).toBe(false);
+    expect(hasWorkspaceRole(undefined, 'viewer')).toBe(false);
+  });
+
+  it('should allow everything without an ACL', async () => {
+    const resolved = await resolveWorkspaceAcl(undefined, WORKSPACE_ID);
+
+    expect(resolved).toBeNull();
+    expect(getWorkspaceRole(resolved, 'did:key:anyone')).toBeUndefined();
+    expect(isWorkspaceActionAllowed(resolved, 'did:key:anyone', 'admin')).toBe(true);
+  });
+});
+
+describe('resolveWorkspaceAcl', () => {
+  let owner: DidIdentity;
+  let admin: DidIdentity;
+  let member: DidIdentity;
+  let stranger: DidIdentity;
+  let baseAcl: WorkspaceAcl;
+
+  beforeAll(async () => {
+    owner = await generateDidIdentity('Owner');
+    admin = await generateDidIdentity('Admin');
+    member = await generateDidIdentity('Member');
+    stranger = await generateDidIdentity('Stranger');
+    baseAcl = await createWorkspaceAcl(
+      { defaultRole: 'viewer', context: { name: 'Team' } },
+      WORKSPACE_ID,
+      owner.did,
+      owner.privateKey
+    );
+  });
+
+  it('should give the owner the owner role and others the default role', async () => {
+    const resolved = await resolveWorkspaceAcl(baseAcl, WORKSPACE_ID);
+
+    expect(getWorkspaceRole(resolved, owner.did)).toBe('owner');
+    expect(getWorkspaceRole(resolved, stranger.did)).toBe('viewer');
+    expect(resolved?.settings?.context?.name).toBe('Team');
+  });
+
+  it('should apply grants that chain back to the owner', async () => {
+    const acl: WorkspaceAcl = {
+      ...baseAcl,
+      grants: {
+        [admin.did]: await createRoleGrant(admin.did, 'admin', WORKSPACE_ID, owner.did, owner.privateKey),
+        [member.did]: await createRoleGrant(member.did, 'member', WORKSPACE_ID, admin.did, admin.privateKey),
+      },
+    };
+    const resolved = await resolveWorkspaceAcl(acl, WORKSPACE_ID);
+
+    expect(getWorkspaceRole(resolved, admin.did)).toBe('admin');
+    expect(getWorkspaceRole(resolved, member.did)).toBe('member');
+  });
+
+  it('should ignore grants signed by non-admins', async () => {
+    const acl: WorkspaceAcl = {
+      ...baseAcl,
+      grants: {
+        [stranger.did]: await createRoleGrant(stranger.did, 'admin', WORKSPACE_ID, member.did, member.privateKey),
+      },
+    };
+    const resolved = await resolveWorkspaceAcl(acl, WORKSPACE_ID);
+
+    expect(getWorkspaceRole(resolved, stranger.did)).toBe('viewer');
+  });
+
+  it('should ignore self-signed grants', async () => {
+    const acl: WorkspaceAcl = {
+      ...baseAcl,
+      grants: {
+        [stranger.did]: await createRoleGrant(stranger.did, 'admin', WORKSPACE_ID, stranger.did, stranger.privateKey),
+      },
+    };
+    const resolved = await resolveWorkspaceAcl(acl, WORKSPACE_ID);
+
+    expect(isWorkspaceActionAllowed(resolved, stranger.did, 'member')).toBe(false);
+  });
+
+  it('should ignore tampered grants', async () => {
+    const grant = await createRoleGrant(member.did, 'member', WORKSPACE_ID, owner.did, owner.privateKey);
+    const acl: WorkspaceAcl = {
+      ...baseAcl,
+      grants: { [member.did]: { ...grant, role: 'admin' } },
+    };
+    const resolved = await resolveWorkspaceAcl(acl, WORKSPACE_ID);
+
+    expect(getWorkspaceRole(resolved, member.did)).toBe('viewer');
+  });
+
+  it('should ignore grants replayed from another workspace', async () => {
+    const acl: WorkspaceAcl = {
+      ...baseAcl,
+      grants: {
+        [member.did]: await createRoleGrant(member.did, 'member', 'workspace-2', owner.did, owner.privateKey),
+      },
+    };
+    const resolved = await resolveWorkspaceAcl(acl, WORKSPACE_ID);
+
+    expect(getWorkspaceRole(resolved, member.did)).toBe('viewer');
+  });
+
+  it('should drop grants of a demoted admin', async () => {
+    const acl: WorkspaceAcl = {
+      ...baseAcl,
+      grants: {
+        [admin.did]: await createRoleGrant(admin.did, 'viewer', WORKSPACE_ID, owner.did, owner.privateKey),
+        [member.did]: await createRoleGrant(member.did, 'member', WORKSPACE_ID, admin.did, admin.privateKey),
+      },
+    };
+    const resolved = await resolveWorkspaceAcl(acl, WORKSPACE_ID);
+
+    expect(getWorkspaceRole(resolved, admin.did)).toBe('viewer');
+    expect(getWorkspaceRole(resolved, member.did)).toBe('viewer');
+  });
+
+  it('should reject an older grant replayed after a demotion', async () => {
+    const promoted = await createRoleGrant(admin.did, 'admin', WORKSPACE_ID, owner.did, owner.privateKey, 1);
+    const demoted = await createRoleGrant(admin.did, 'viewer', WORKSPACE_ID, owner.did, owner.privateKey, 2);
+    const current = await resolveWorkspaceAcl({ ...baseAcl, grants: { [admin.did]: demoted } }, WORKSPACE_ID);
+
+    const replayed = await resolveWorkspaceAcl(
+      { ...baseAcl, grants: { [admin.did]: promoted } },
+      WORKSPACE_ID,
+      owner.did,
+      current?.versions
+    );
+
+    expect(current?.versions.grants[admin.did]).toBe(2);
+    expect(getWorkspaceRole(replayed, admin.did)).toBe('viewer');
+    expect(replayed?.roles[admin.did]).toBeUndefined();
+  });
+
+  it('should reject older settings replayed after an update', async () => {
+    const newer = await createWorkspaceSettings(
+      { defaultRole: 'viewer', context: { name: 'Renamed' } },
+      WORKSPACE_ID,
+      owner.did,
+      owner.privateKey,
+      2
+    );
+    const current = await resolveWorkspaceAcl({ ...baseAcl, settings: newer }, WORKSPACE_ID);
+
+    const replayed = await resolveWorkspaceAcl(baseAcl, WORKSPACE_ID, owner.did, current?.versions);
+
+    expect(current?.versions.settings).toBe(2);
+    expect(replayed?.settings).toBeNull();
+    expect(replayed?.defaultRole).toBe('viewer');
+  });
+
+  it('should prefer the pinned owner over a replaced ownerDid', async () => {
+    const hijacked = await createWorkspaceAcl(
+      { defaultRole: 'member' },
+      WORKSPACE_ID,
+      stranger.did,
+      stranger.privateKey
+    );
+    const resolved = await resolveWorkspaceAcl(hijacked, WORKSPACE_ID, owner.did);
+
+    expect(getWorkspaceRole(resolved, owner.did)).toBe('owner');
+    expect(getWorkspaceRole(resolved, stranger.did)).toBe('viewer');
+    // Settings signed by the impostor are rejected
+    expect(resolved?.settings).toBeNull();
+  });
+
+  it('should fail closed if a pinned ACL was removed', async () => {
+    const resolved = await resolveWorkspaceAcl(undefined, WORKSPACE_ID, owner.did);
+
+    expect(getWorkspaceRole(resolved, owner.did)).toBe('owner');
+    expect(isWorkspaceActionAllowed(resolved, member.did, 'member')).toBe(false);
+  });
+
+  it('should reject settings signed by a member', async () => {
+    const acl: WorkspaceAcl = {
+      ...baseAcl,
+      grants: {
+        [member.did]: await createRoleGrant(member.did, 'member', WORKSPACE_ID, owner.did, owner.privateKey),
+      },
+      settings: await createWorkspaceSettings(
+        { defaultRole: 'member', context: { name: 'Renamed' } },
+        WORKSPACE_ID,
+        member.did,
+        member.privateKey
+      ),
+    };
+    const resolved = await resolveWorkspaceAcl(acl, WORKSPACE_ID);
+
+    expect(resolved?.settings).toBeNull();
+    expect(resolved?.defaultRole).toBe('viewer');
+  });
+
+  it('should reject tampered settings', async () => {
+    const acl: WorkspaceAcl = {
+      ...baseAcl,
+      settings: { ...baseAcl.settings, defaultRole: 'member' },
+    };
+    const resolved = await resolveWorkspaceAcl(acl, WORKSPACE_ID);
+
+    expect(resolved?.settings).toBeNull();
+    expect(getWorkspaceRole(resolved, stranger.did)).toBe('viewer');
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Workspace access control utilities
+ *
+ * Roles are assigned through grants that are JWS-signed by an admin.
+ * A grant is only effective if its signer holds the admin (or owner) role
+ * itself, so every effective role chains back to the workspace owner.
+ * Workspace settings (name, avatar, enabled modules, default role) are
+ * signed the same way and must come from an admin.
+ *
+ * Grants and settings carry a signed version. Clients remember the highest
+ * version they have seen per subject, so an older grant (e.g. the admin
+ * grant of a since demoted user) cannot be written back into the document.
+ *
+ * Anyone can still write to the Automerge document - the ACL is enforced
+ * by honest clients refusing and ignoring changes from unauthorized DIDs.
+ */
+
+import { base64Encode, extractPublicKeyFromDid, isValidDid } from './did';
+import { signEntity, verifyEntitySignature, type PrivateKeySource } from './signature';
+import type {
+  ContextMetadata,
+  RoleGrant,
+  WorkspaceAcl,
+  WorkspaceRole,
+  WorkspaceSettings,
+} from '../schema/document';
+
+/**
+ * Role rank for comparisons (higher includes all lower permissions)
+ */
+export const WORKSPACE_ROLE_RANK: Record<WorkspaceRole, number> = {
+  viewer: 0,
+  member: 1,
+  admin: 2,
+  owner: 3,
+};
+
+/**
+ * German role labels for the UI
+ */
+export const WORKSPACE_ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: 'Eigentümer',
+  admin: 'Admin',
+  member: 'Mitglied',
+  viewer: 'Betrachter',
+};
+
+/**
+ * Highest ACL versions seen for a workspace
+ */
+export interface AclVersions {
+  /** Subject DID → version of the newest effective grant */
+  grants: Record<string, number>;
+  /** Version of the newest verified settings */
+  settings: number;
+}
+
+/**
+ * Effective ACL after signature and chain verification
+ */
+export interface ResolvedWorkspaceAcl {
+  ownerDid: string;
+  /** Effective roles of DIDs with a valid grant (including the owner) */
+  roles: Record<string, WorkspaceRole>;
+  /** Role of DIDs without a valid grant */
+  defaultRole: 'member' | 'viewer';
+  /** Verified settings, null if missing or invalid */
+  settings: WorkspaceSettings | null;
+  /** Highest versions seen so far, including this ACL (to be remembered) */
+  versions: AclVersions;
+}
+
+/**
+ * Editable part of the workspace settings
+ */
+export interface WorkspaceSettingsInput {
+  context?: ContextMetadata;
+  enabledModules?: Record<string, boolean>;
+  defaultRole: 'member' | 'viewer';
+}
+
+/**
+ * Check whether a role includes the permissions of the required role
+ */
+export function hasWorkspaceRole(role: WorkspaceRole | undefined, required: WorkspaceRole): boolean {
+  if (!role) return false;
+  return WORKSPACE_ROLE_RANK[role] >= WORKSPACE_ROLE_RANK[required];
+}
+
+/**
+ * Normalize a document ID or Automerge URL to the ID that grants are bound to
+ */
+export function normalizeWorkspaceId(documentIdOrUrl: string): string {
+  return documentIdOrUrl.replace(/^automerge:/, '');
+}
+
+/**
+ * Verify a signed ACL record against the did:key of its signer
+ */
+async function verifySignedBy(record: RoleGrant | WorkspaceSettings, signerDid: string): Promise<boolean> {
+  if (!isValidDid(signerDid)) return false;
+  try {
+    const publicKey = base64Encode(extractPublicKeyFromDid(signerDid));
+    const result = await verifyEntitySignature(record as unknown as Record<string, unknown>, publicKey);
+    return result.valid;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Create a role grant signed by the granting admin
+ *
+ * @param version - Must be higher than the version of any earlier grant for the subject
+ */
+export async function createRoleGrant(
+  subjectDid: string,
+  role: WorkspaceRole,
+  workspaceId: string,
+  grantedBy: string,
+  privateKey: PrivateKeySource,
+  version = 1
+): Promise<RoleGrant> {
+  if (role === 'owner') {
+    throw new Error('The owner role cannot be granted');
+  }
+
+  const grant: Omit<RoleGrant, 'signature'> = {
+    subjectDid,
+    role,
+    grantedBy,
+    workspaceId: normalizeWorkspaceId(workspaceId),
+    createdAt: Date.now(),
+    version,
+  };
+  const signature = await signEntity(grant as unknown as Record<string, unknown>, privateKey);
+  return { ...grant, signature };
+}
+
+/**
+ * Create workspace settings signed by an admin
+ *
+ * @param version - Must be higher than the version of the current settings
+ */
+export async function createWorkspaceSettings(
+  input: WorkspaceSettingsInput,
+  workspaceId: string,
+  updatedBy: string,
+  privateKey: PrivateKeySource,
+  version = 1
+): Promise<WorkspaceSettings> {
+  // Only include defined values (Automerge doesn't allow undefined)
+  const settings: Omit<WorkspaceSettings, 'signature'> = {
+    workspaceId: normalizeWorkspaceId(workspaceId),
+    defaultRole: input.defaultRole,
+    updatedBy,
+    updatedAt: Date.now(),
+    version,
+  };
+  if (input.context) {
+    settings.context = JSON.parse(JSON.stringify(input.context)) as ContextMetadata;
+  }
+  if (input.enabledModules) {
+    settings.enabledModules = { ...input.enabledModules };
+  }
+
+  const signature = await signEntity(settings as unknown as Record<string, unknown>, privateKey);
+  return { ...settings, signature };
+}
+
+/**
+ * Create a new ACL with the current user as owner
+ */
+export async function createWorkspaceAcl(
+  input: WorkspaceSettingsInput,
+  workspaceId: string,
+  ownerDid: string,
+  privateKey: PrivateKeySource
+): Promise<WorkspaceAcl> {
+  return {
+    ownerDid,
+    grants: {},
+    settings: await createWorkspaceSettings(input, workspaceId, ownerDid, privateKey),
+  };
+}
+
+/**
+ * Verify all grants and settings of an ACL and compute the effective roles
+ *
+ * Roles are resolved as a fixpoint starting from the owner: a grant counts
+ * if it is validly signed by a DID that currently holds at least the admin
+ * role and at least the granted role. Grants signed by demoted admins lose
+ * their effect. Grants and settings older than the versions seen before are
+ * replays and ignored.
+ *
+ * @param acl - ACL from the document (undefined if none)
+ * @param workspaceId - Document ID the grants must be bound to
+ * @param pinnedOwnerDid - Owner seen first for this workspace (overrides acl.ownerDid)
+ * @param seenVersions - Highest versions seen before for this workspace
+ * @returns Resolved ACL, or null if the workspace has no ACL
+ */
+export async function resolveWorkspaceAcl(
+  acl: WorkspaceAcl | undefined,
+  workspaceId: string,
+  pinnedOwnerDid?: string | null,
+  seenVersions?: AclVersions | null
+): Promise<ResolvedWorkspaceAcl | null> {
+  if (!acl && !pinnedOwnerDid) return null;
+
+  const normalizedId = normalizeWorkspaceId(workspaceId);
+  const ownerDid = pinnedOwnerDid ?? acl!.ownerDid;
+  const roles: Record<string, WorkspaceRole> = { [ownerDid]: 'owner' };
+  const versions: AclVersions = {
+    grants: { ...(seenVersions?.grants ?? {}) },
+    settings: seenVersions?.settings ?? 0,
+  };
+
+  // Verify signatures first (independent of the signer's role)
+  const validGrants: RoleGrant[] = [];
+  for (const [subjectDid, grant] of Object.entries(acl?.grants ?? {})) {
+    if (
+      grant.subjectDid !== subjectDid ||
+      grant.subjectDid === ownerDid ||
+      grant.role === 'owner' ||
+      !(grant.role in WORKSPACE_ROLE_RANK) ||
+      grant.workspaceId !== normalizedId ||
+      (grant.version ?? 0) < (versions.grants[subjectDid] ?? 0)
+    ) {
+      continue;
+    }
+    if (await verifySignedBy(grant, grant.grantedBy)) {
+      validGrants.push(grant);
+    }
+  }
+
+  // Apply grants whose signer is (transitively) an admin
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const grant of validGrants) {
+      if (roles[grant.subjectDid]) continue;
+      const signerRole = roles[grant.grantedBy];
+      if (!hasWorkspaceRole(signerRole, 'admin') || !hasWorkspaceRole(signerRole, grant.role)) {
+        continue;
+      }
+      roles[grant.subjectDid] = grant.role;
+      versions.grants[grant.subjectDid] = grant.version ?? 0;
+      changed = true;
+    }
+  }
+
+  let settings: WorkspaceSettings | null = null;
+  const candidate = acl?.settings;
+  if (
+    candidate &&
+    candidate.workspaceId === normalizedId &&
+    (candidate.version ?? 0) >= versions.settings &&
+    hasWorkspaceRole(roles[candidate.updatedBy], 'admin') &&
+    (await verifySignedBy(candidate, candidate.updatedBy))
+  ) {
+    settings = candidate;
+    versions.settings = candidate.version ?? 0;
+  }
+
+  return {
+    ownerDid,
+    roles,
+    // Fail closed: without valid settings nobody gets write access by default
+    defaultRole: settings?.defaultRole === 'member' ? 'member' : 'viewer',
+    settings,
+    versions,
+  };
+}
+
+/**
+ * Get the effective role of a DID
+ *
+ * @returns Role, or undefined if the workspace has no ACL
+ */
+export function getWorkspaceRole(
+  resolved: ResolvedWorkspaceAcl | null,
+  did: string
+): WorkspaceRole | undefined {
+  if (!resolved) return undefined;
+  return resolved.roles[did] ?? resolved.defaultRole;
+}
+
+/**
+ * Check whether a DID may perform an action requiring the given role
+ * Workspaces without an ACL allow everything.
+ */
+export function isWorkspaceActionAllowed(
+  resolved: ResolvedWorkspaceAcl | null,
+  did: string,
+  required: WorkspaceRole
+): boolean {
+  if (!resolved) return true;
+  return hasWorkspaceRole(getWorkspaceRole(resolved, did), required);
+}
@@ -21,6 +21,7 @@
 import type { UserDocument } from '../schema/userDocument';
 import type { BaseDocument } from '../schema/document';
 import { loadSharedIdentity, type StoredIdentity } from './storage';
+import { downloadFile } from './fileExport';
 import type { Repo, AutomergeUrl, DocHandle } from '@automerge/automerge-repo';
 import * as Automerge from '@automerge/automerge';
 import type { TrustedUserProfile } from '../hooks/useAppContext';
@@ -196,16 +197,7 @@ function exportToJson(data: unknown, filename: string): void {
     return;
   }
 
-  const json = JSON.stringify(data, null, 2);
-  const blob = new Blob([json], { type: 'application/json' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+  downloadFile(JSON.stringify(data, null, 2), filename, 'application/json');
   console.log(`✅ Exported to ${filename}`);
 }
 
@@ -132,6 +132,39 @@ export async function generateDidIdentity(displayName?: string): Promise<DidIden
   };
 }
 
+/**
+ * Derive the DID and public key belonging to a private key
+ * Used to check that a restored private key matches the claimed DID.
+ *
+ * @param privateKeyBase64 - Base64-encoded PKCS#8 Ed25519 private key
+ * @throws Error if the key is not a valid Ed25519 private key
+ */
+export async function deriveIdentityFromPrivateKey(
+  privateKeyBase64: string
+): Promise<{ did: string; publicKey: string }> {
+  const pkcs8 = base64Decode(privateKeyBase64);
+  const privateKey = await crypto.subtle.importKey(
+    'pkcs8',
+    pkcs8.buffer.slice(pkcs8.byteOffset, pkcs8.byteOffset + pkcs8.byteLength) as ArrayBuffer,
+    { name: 'Ed25519' },
+    true,
+    ['sign']
+  );
+
+  // The JWK export of a private key includes the public key (x, base64url)
+  const jwk = await crypto.subtle.exportKey('jwk', privateKey);
+  if (!jwk.x) {
+    throw new Error('Private key does not contain a public key');
+  }
+  const base64 = jwk.x.replace(/-/g, '+').replace(/_/g, '/');
+  const publicKey = base64Decode(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+
+  return {
+    did: deriveDidFromPublicKey(publicKey),
+    publicKey: base64Encode(publicKey),
+  };
+}
+
 /**
  * Base64 encode a Uint8Array
  */
@@ -0,0 +1,267 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  ed25519PublicKeyToX25519,
+  ed25519PrivateKeyToX25519,
+  generateWorkspaceKey,
+  wrapWorkspaceKey,
+  unwrapWorkspaceKey,
+  wrapWorkspaceKeyForMembers,
+  encryptWorkspaceData,
+  decryptWorkspaceData,
+  createKeyRotation,
+  verifyWorkspaceKeyAccess,
+  signWorkspacePayload,
+  verifyWorkspacePayload,
+  type WorkspaceRoleCheck,
+} from './encryption';
+import type { WorkspaceEncryption } from '../schema/document';
+import { generateDidIdentity, base64Decode, type DidIdentity } from './did';
+
+const X25519_PKCS8_PREFIX = new Uint8Array([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x6e, 0x04, 0x22, 0x04, 0x20,
+]);
+
+const WORKSPACE_ID = 'workspace-1';
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  return base64Decode(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+}
+
+describe('Ed25519 to X25519 conversion', () => {
+  it('should derive matching X25519 public and private keys', async () => {
+    const identity = await generateDidIdentity();
+
+    const scalar = await ed25519PrivateKeyToX25519(identity.privateKey);
+    const privateKey = await crypto.subtle.importKey(
+      'pkcs8',
+      new Uint8Array([...X25519_PKCS8_PREFIX, ...scalar]),
+      { name: 'X25519' },
+      true,
+      ['deriveBits']
+    );
+    // The JWK export of a private key contains its public key (x)
+    const jwk = await crypto.subtle.exportKey('jwk', privateKey);
+
+    const converted = ed25519PublicKeyToX25519(base64Decode(identity.publicKey));
+
+    expect(converted).toEqual(base64UrlDecode(jwk.x!));
+  });
+
+  it('should reject public keys with wrong length', () => {
+    expect(() => ed25519PublicKeyToX25519(new Uint8Array(31))).toThrow();
+  });
+
+  it('should produce a clamped 32-byte scalar', async () => {
+    const identity = await generateDidIdentity();
+    const scalar = await ed25519PrivateKeyToX25519(identity.privateKey);
+
+    expect(scalar.length).toBe(32);
+    expect(scalar[0] & 7).toBe(0);
+    expect(scalar[31] & 128).toBe(0);
+    expect(scalar[31] & 64).toBe(64);
+  });
+});
+
+describe('Workspace key wrapping', () => {
+  let alice: DidIdentity;
+  let bob: DidIdentity;
+
+  beforeAll(async () => {
+    alice = await generateDidIdentity('Alice');
+    bob = await generateDidIdentity('Bob');
+  });
+
+  it('should unwrap a key wrapped for the recipient DID', async () => {
+    const workspaceKey = await generateWorkspaceKey();
+    const wrapped = await wrapWorkspaceKey(workspaceKey, bob.did, alice.did, WORKSPACE_ID, alice.privateKey);
+
+    expect(wrapped.keyId).toBe(workspaceKey.keyId);
+    expect(wrapped.grantedBy).toBe(alice.did);
+
+    const unwrapped = await unwrapWorkspaceKey(wrapped, bob.did, bob.privateKey);
+    expect(unwrapped).toEqual(workspaceKey);
+  });
+
+  it('should not unwrap a key wrapped for someone else', async () => {
+    const workspaceKey = await generateWorkspaceKey();
+    const wrapped = await wrapWorkspaceKey(workspaceKey, bob.did, alice.did, WORKSPACE_ID, alice.privateKey);
+
+    await expect(unwrapWorkspaceKey(wrapped, alice.did, alice.privateKey)).rejects.toThrow(
+      'could not be unwrapped'
+    );
+  });
+
+  it('should reject a wrapped key with a swapped keyId', async () => {
+    const workspaceKey = await generateWorkspaceKey();
+    const wrapped = await wrapWorkspaceKey(workspaceKey, bob.did, alice.did, WORKSPACE_ID, alice.privateKey);
+
+    await expect(
+      unwrapWorkspaceKey({ ...wrapped, keyId: 'key-other' }, bob.did, bob.privateKey)
+    ).rejects.toThrow();
+  });
+
+  it('should wrap for all valid member DIDs and skip fake DIDs', async () => {
+    const workspaceKey = await generateWorkspaceKey();
+    const keys = await wrapWorkspaceKeyForMembers(
+      workspaceKey,
+      [alice.did, bob.did, 'did:key:1234567890-abc123'],
+      alice.did,
+      WORKSPACE_ID,
+      alice.privateKey
+    );
+
+    expect(Object.keys(keys).sort()).toEqual([alice.did, bob.did].sort());
+  });
+});
+
+describe('Workspace data encryption', () => {
+  const data = {
+    narrative: { assumptions: { a1: { sentence: 'Geheim' } }, votes: {}, tags: {}, edits: {} },
+  };
+
+  it('should round-trip data', async () => {
+    const workspaceKey = await generateWorkspaceKey();
+    const payload = await encryptWorkspaceData(data, workspaceKey);
+
+    expect(payload.keyId).toBe(workspaceKey.keyId);
+    expect(payload.ciphertext).not.toContain('Geheim');
+    expect(await decryptWorkspaceData(payload, workspaceKey)).toEqual(data);
+  });
+
+  it('should fail with a rotated key', async () => {
+    const oldKey = await generateWorkspaceKey();
+    const newKey = await generateWorkspaceKey();
+    const payload = await encryptWorkspaceData(data, oldKey);
+
+    await expect(decryptWorkspaceData(payload, newKey)).rejects.toThrow();
+  });
+
+  it('should detect tampered ciphertext', async () => {
+    const workspaceKey = await generateWorkspaceKey();
+    const payload = await encryptWorkspaceData(data, workspaceKey);
+    const bytes = base64Decode(payload.ciphertext);
+    bytes[0] ^= 1;
+
+    await expect(
+      decryptWorkspaceData(
+        { ...payload, ciphertext: Buffer.from(bytes).toString('base64') },
+        workspaceKey
+      )
+    ).rejects.toThrow('could not be decrypted');
+  });
+});
+
+describe('Signed key entries, rotations and payloads', () => {
+  let admin: DidIdentity;
+  let member: DidIdentity;
+  let outsider: DidIdentity;
+  let can: WorkspaceRoleCheck;
+
+  beforeAll(async () => {
+    admin = await generateDidIdentity('Admin');
+    member = await generateDidIdentity('Member');
+    outsider = await generateDidIdentity('Outsider');
+    can = (did, required) =>
+      did === admin.did || (did === member.did && required !== 'admin');
+  });
+
+  async function encryptedWorkspace(version = 1, signer = admin): Promise<WorkspaceEncryption> {
+    const key = await generateWorkspaceKey();
+    return {
+      keyId: key.keyId,
+      rotation: await createKeyRotation(key.keyId, version, WORKSPACE_ID, signer.did, signer.privateKey),
+      keys: await wrapWorkspaceKeyForMembers(key, [admin.did, member.did], signer.did, WORKSPACE_ID, signer.privateKey),
+      payload: await signWorkspacePayload(
+        await encryptWorkspaceData({}, key),
+        WORKSPACE_ID,
+        signer.did,
+        signer.privateKey
+      ),
+    };
+  }
+
+  it('should accept key entries and rotations signed by an admin', async () => {
+    const encryption = await encryptedWorkspace(2);
+
+    expect(await verifyWorkspaceKeyAccess(encryption, member.did, WORKSPACE_ID, can)).toBe(true);
+    expect(await verifyWorkspaceKeyAccess(encryption, member.did, WORKSPACE_ID, can, 2)).toBe(true);
+    expect(await verifyWorkspaceKeyAccess(encryption, member.did, 'workspace-2', can)).toBe(false);
+    expect(await verifyWorkspaceKeyAccess(encryption, outsider.did, WORKSPACE_ID, can)).toBe(false);
+  });
+
+  it('should reject keys granted or rotated by a non-admin', async () => {
+    const byMember = await encryptedWorkspace(1, member);
+    expect(await verifyWorkspaceKeyAccess(byMember, member.did, WORKSPACE_ID, can)).toBe(false);
+
+    // Entry planted by the member next to an admin-signed rotation
+    const encryption = await encryptedWorkspace();
+    const planted = {
+      ...encryption,
+      keys: { ...encryption.keys, [member.did]: byMember.keys[member.did] },
+    };
+    expect(await verifyWorkspaceKeyAccess(planted, member.did, WORKSPACE_ID, can)).toBe(false);
+
+    // Entry re-labelled as granted by the admin
+    const relabelled = {
+      ...byMember,
+      rotation: encryption.rotation,
+      keyId: encryption.keyId,
+      keys: { [member.did]: { ...byMember.keys[member.did], keyId: encryption.keyId, grantedBy: admin.did } },
+    };
+    expect(await verifyWorkspaceKeyAccess(relabelled, member.did, WORKSPACE_ID, can)).toBe(false);
+  });
+
+  it('should reject unsigned, rolled back and mismatched rotations', async () => {
+    const encryption = await encryptedWorkspace(1);
+
+    expect(
+      await verifyWorkspaceKeyAccess({ ...encryption, rotation: undefined }, member.did, WORKSPACE_ID, can)
+    ).toBe(false);
+    expect(await verifyWorkspaceKeyAccess(encryption, member.did, WORKSPACE_ID, can, 2)).toBe(false);
+    expect(
+      await verifyWorkspaceKeyAccess(
+        { ...encryption, rotation: { ...encryption.rotation!, version: 5 } },
+        member.did,
+        WORKSPACE_ID,
+        can,
+        2
+      )
+    ).toBe(false);
+
+    const other = await encryptedWorkspace(1);
+    expect(
+      await verifyWorkspaceKeyAccess({ ...encryption, rotation: other.rotation }, member.did, WORKSPACE_ID, can)
+    ).toBe(false);
+  });
+
+  it('should accept payloads signed by a member only', async () => {
+    const { payload } = await encryptedWorkspace();
+    const key = await generateWorkspaceKey();
+    const byOutsider = await signWorkspacePayload(
+      await encryptWorkspaceData({}, key),
+      WORKSPACE_ID,
+      outsider.did,
+      outsider.privateKey
+    );
+
+    expect(await verifyWorkspacePayload(payload, WORKSPACE_ID, can)).toBe(true);
+    expect(await verifyWorkspacePayload(payload, 'workspace-2', can)).toBe(false);
+    expect(await verifyWorkspacePayload(byOutsider, WORKSPACE_ID, can)).toBe(false);
+    expect(
+      await verifyWorkspacePayload({ ...byOutsider, writtenBy: admin.did }, WORKSPACE_ID, can)
+    ).toBe(false);
+
+    const { writtenBy: _writtenBy, signature: _signature, ...unsigned } = payload;
+    expect(await verifyWorkspacePayload(unsigned, WORKSPACE_ID, can)).toBe(false);
+  });
+
+  it('should reject a payload whose ciphertext was replaced', async () => {
+    const { payload } = await encryptedWorkspace();
+    const other = await encryptedWorkspace();
+
+    expect(
+      await verifyWorkspacePayload({ ...payload, ciphertext: other.payload.ciphertext }, WORKSPACE_ID, can)
+    ).toBe(false);
+  });
+});
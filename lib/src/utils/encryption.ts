@@ -0,0 +1,566 @@
+/**
+ * Workspace encryption utilities
+ *
+ * Encrypted workspaces store their data as an AES-GCM ciphertext. The
+ * symmetric workspace key is wrapped for each member individually:
+ * the member's did:key (Ed25519) is converted to X25519, and the key is
+ * encrypted via ECDH with an ephemeral X25519 keypair (ECIES-style).
+ *
+ * Because the recipient key is derived from the DID, access can be granted
+ * to anyone whose DID is known - the recipient does not need to be online.
+ *
+ * Anyone can write to the document, so wrapped keys, key rotations and the
+ * payload are signed. Readers only use a key whose entry and rotation were
+ * signed by an admin, and only accept a payload signed by a member.
+ *
+ * Uses native Web Crypto API (X25519 support: Chrome 133+, Firefox 130+, Safari 17+)
+ */
+
+import { base64Encode, base64Decode, extractPublicKeyFromDid, isValidDid } from './did';
+import { signEntity, verifyEntitySignature, type PrivateKeySource } from './signature';
+import { normalizeWorkspaceId } from './acl';
+import { generateId } from '../schema/document';
+import type {
+  WrappedWorkspaceKey,
+  EncryptedWorkspacePayload,
+  WorkspaceEncryption,
+  WorkspaceKeyRotation,
+  WorkspaceRole,
+} from '../schema/document';
+
+/**
+ * Field prime of Curve25519 / Ed25519: 2^255 - 19
+ */
+const CURVE_P = (1n << 255n) - 19n;
+
+/**
+ * Length of the PKCS#8 header in front of the 32-byte Ed25519 seed
+ */
+const ED25519_PKCS8_PREFIX_LENGTH = 16;
+
+/**
+ * PKCS#8 header for a raw 32-byte X25519 private key
+ */
+const X25519_PKCS8_PREFIX = new Uint8Array([
+  0x30, 0x2e, 0x02, 0x01, 0x00, 0x30, 0x05, 0x06, 0x03, 0x2b, 0x65, 0x6e, 0x04, 0x22, 0x04, 0x20,
+]);
+
+/**
+ * HKDF info string for key wrapping (domain separation)
+ */
+const WRAP_INFO = 'narrative-workspace-key-v1';
+
+/**
+ * Symmetric workspace key with its identifier
+ */
+export interface WorkspaceKey {
+  /** Key generation ID (changes on every rotation) */
+  keyId: string;
+  /** Base64-encoded raw AES-256 key */
+  key: string;
+}
+
+/**
+ * Role check of the workspace ACL (see useWorkspaceRoles; allows everything without an ACL)
+ */
+export type WorkspaceRoleCheck = (did: string, required: WorkspaceRole) => boolean;
+
+/**
+ * Ciphertext encrypted for a single DID
+ */
+export interface SealedBox {
+  /** Base64-encoded ephemeral X25519 public key */
+  ephemeralPublicKey: string;
+  /** Base64-encoded AES-GCM IV */
+  iv: string;
+  /** Base64-encoded ciphertext */
+  ciphertext: string;
+}
+
+/**
+ * Convert Uint8Array to ArrayBuffer (for Web Crypto API compatibility)
+ */
+function toArrayBuffer(arr: Uint8Array): ArrayBuffer {
+  return arr.buffer.slice(arr.byteOffset, arr.byteOffset + arr.byteLength) as ArrayBuffer;
+}
+
+function bytesToBigIntLE(bytes: Uint8Array): bigint {
+  let result = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) {
+    result = (result << 8n) | BigInt(bytes[i]);
+  }
+  return result;
+}
+
+function bigIntToBytesLE(value: bigint, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let remaining = value;
+  for (let i = 0; i < length; i++) {
+    bytes[i] = Number(remaining & 0xffn);
+    remaining >>= 8n;
+  }
+  return bytes;
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  let result = 1n;
+  let b = base % modulus;
+  let e = exponent;
+  while (e > 0n) {
+    if (e & 1n) result = (result * b) % modulus;
+    b = (b * b) % modulus;
+    e >>= 1n;
+  }
+  return result;
+}
+
+/**
+ * Convert an Ed25519 public key to its X25519 (Montgomery) form
+ * u = (1 + y) / (1 - y) mod p
+ */
+export function ed25519PublicKeyToX25519(publicKey: Uint8Array): Uint8Array {
+  if (publicKey.length !== 32) {
+    throw new Error('Ed25519 public key must be 32 bytes');
+  }
+
+  // Clear the sign bit of x to get the y coordinate
+  const yBytes = new Uint8Array(publicKey);
+  yBytes[31] &= 0x7f;
+  const y = bytesToBigIntLE(yBytes);
+
+  const numerator = (1n + y) % CURVE_P;
+  const denominator = (1n - y + CURVE_P) % CURVE_P;
+  if (denominator === 0n) {
+    throw new Error('Invalid Ed25519 public key');
+  }
+
+  // Modular inverse via Fermat's little theorem
+  const u = (numerator * modPow(denominator, CURVE_P - 2n, CURVE_P)) % CURVE_P;
+  return bigIntToBytesLE(u, 32);
+}
+
+/**
+ * Convert an Ed25519 private key (Base64 PKCS#8) to a raw X25519 private key
+ * The X25519 scalar is the clamped first half of SHA-512(seed), like Ed25519 itself uses.
+ */
+export async function ed25519PrivateKeyToX25519(privateKeyBase64: string): Promise<Uint8Array> {
+  const pkcs8 = base64Decode(privateKeyBase64);
+  const seed = pkcs8.slice(ED25519_PKCS8_PREFIX_LENGTH, ED25519_PKCS8_PREFIX_LENGTH + 32);
+  if (seed.length !== 32) {
+    throw new Error('Invalid Ed25519 private key');
+  }
+
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-512', toArrayBuffer(seed)));
+  const scalar = hash.slice(0, 32);
+  scalar[0] &= 248;
+  scalar[31] &= 127;
+  scalar[31] |= 64;
+  return scalar;
+}
+
+/**
+ * Derive the AES-GCM key that wraps a workspace key for one recipient
+ */
+async function deriveWrappingKey(
+  privateKey: CryptoKey,
+  publicKey: CryptoKey,
+  salt: Uint8Array,
+  info: string
+): Promise<CryptoKey> {
+  const sharedSecret = await crypto.subtle.deriveBits(
+    { name: 'X25519', public: publicKey },
+    privateKey,
+    256
+  );
+
+  const hkdfKey = await crypto.subtle.importKey('raw', sharedSecret, 'HKDF', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    {
+      name: 'HKDF',
+      hash: 'SHA-256',
+      salt: toArrayBuffer(salt),
+      info: new TextEncoder().encode(info),
+    },
+    hkdfKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt bytes for the holder of a DID (ECIES-style, see module comment)
+ *
+ * @param plaintext - Bytes to encrypt
+ * @param recipientDid - did:key of the recipient (Ed25519)
+ * @param context - Domain separation string (bound into the key derivation)
+ * @param additionalData - Authenticated but unencrypted data (must match on decryption)
+ */
+export async function sealForDid(
+  plaintext: Uint8Array,
+  recipientDid: string,
+  context: string,
+  additionalData = ''
+): Promise<SealedBox> {
+  const recipientX25519 = ed25519PublicKeyToX25519(extractPublicKeyFromDid(recipientDid));
+  const recipientPublicKey = await crypto.subtle.importKey(
+    'raw',
+    toArrayBuffer(recipientX25519),
+    { name: 'X25519' },
+    false,
+    []
+  );
+
+  const ephemeral = (await crypto.subtle.generateKey({ name: 'X25519' }, true, [
+    'deriveBits',
+  ])) as CryptoKeyPair;
+  const ephemeralPublicKey = new Uint8Array(
+    await crypto.subtle.exportKey('raw', ephemeral.publicKey)
+  );
+
+  const wrappingKey = await deriveWrappingKey(
+    ephemeral.privateKey,
+    recipientPublicKey,
+    ephemeralPublicKey,
+    `${context}:${recipientDid}`
+  );
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(additionalData) },
+    wrappingKey,
+    toArrayBuffer(plaintext)
+  );
+
+  return {
+    ephemeralPublicKey: base64Encode(ephemeralPublicKey),
+    iv: base64Encode(iv),
+    ciphertext: base64Encode(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt bytes sealed with sealForDid
+ *
+ * @throws Error if the box was not sealed for this identity, context or additional data
+ */
+export async function openSealedForDid(
+  box: SealedBox,
+  recipientDid: string,
+  privateKeyBase64: string,
+  context: string,
+  additionalData = ''
+): Promise<Uint8Array> {
+  const scalar = await ed25519PrivateKeyToX25519(privateKeyBase64);
+  const privateKey = await crypto.subtle.importKey(
+    'pkcs8',
+    toArrayBuffer(new Uint8Array([...X25519_PKCS8_PREFIX, ...scalar])),
+    { name: 'X25519' },
+    false,
+    ['deriveBits']
+  );
+
+  const ephemeralPublicKeyBytes = base64Decode(box.ephemeralPublicKey);
+  const ephemeralPublicKey = await crypto.subtle.importKey(
+    'raw',
+    toArrayBuffer(ephemeralPublicKeyBytes),
+    { name: 'X25519' },
+    false,
+    []
+  );
+
+  const wrappingKey = await deriveWrappingKey(
+    privateKey,
+    ephemeralPublicKey,
+    ephemeralPublicKeyBytes,
+    `${context}:${recipientDid}`
+  );
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: toArrayBuffer(base64Decode(box.iv)),
+        additionalData: new TextEncoder().encode(additionalData),
+      },
+      wrappingKey,
+      toArrayBuffer(base64Decode(box.ciphertext))
+    );
+    return new Uint8Array(plaintext);
+  } catch {
+    throw new Error('Data could not be decrypted with this identity');
+  }
+}
+
+/**
+ * Generate a new random workspace key
+ */
+export async function generateWorkspaceKey(): Promise<WorkspaceKey> {
+  const key = crypto.getRandomValues(new Uint8Array(32));
+  return {
+    keyId: generateId('key'),
+    key: base64Encode(key),
+  };
+}
+
+/**
+ * Verify a signed record against the did:key of its signer
+ */
+async function verifySignedBy(record: Record<string, unknown>, signerDid: string | undefined): Promise<boolean> {
+  if (!signerDid || !isValidDid(signerDid)) return false;
+  try {
+    const publicKey = base64Encode(extractPublicKeyFromDid(signerDid));
+    return (await verifyEntitySignature(record, publicKey)).valid;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Signed fields of a wrapped key: the entry plus what it is bound to
+ */
+function wrappedKeyRecord(
+  wrapped: Omit<WrappedWorkspaceKey, 'signature'>,
+  recipientDid: string,
+  workspaceId: string
+): Record<string, unknown> {
+  return { ...wrapped, recipientDid, workspaceId: normalizeWorkspaceId(workspaceId) };
+}
+
+/**
+ * Wrap a workspace key for a member's DID
+ *
+ * @param workspaceKey - Key to share
+ * @param recipientDid - did:key of the member (Ed25519)
+ * @param grantedBy - DID of the member granting access (signs the entry)
+ * @param workspaceId - Document ID the entry is bound to
+ * @param privateKey - Private key of grantedBy
+ */
+export async function wrapWorkspaceKey(
+  workspaceKey: WorkspaceKey,
+  recipientDid: string,
+  grantedBy: string,
+  workspaceId: string,
+  privateKey: PrivateKeySource
+): Promise<WrappedWorkspaceKey> {
+  const sealed = await sealForDid(
+    base64Decode(workspaceKey.key),
+    recipientDid,
+    WRAP_INFO,
+    workspaceKey.keyId
+  );
+
+  const entry = {
+    keyId: workspaceKey.keyId,
+    ...sealed,
+    grantedBy,
+    grantedAt: Date.now(),
+  };
+  const signature = await signEntity(wrappedKeyRecord(entry, recipientDid, workspaceId), privateKey);
+  return { ...entry, signature };
+}
+
+/**
+ * Unwrap a workspace key with the recipient's Ed25519 private key
+ *
+ * @throws Error if the key was not wrapped for this identity
+ */
+export async function unwrapWorkspaceKey(
+  wrapped: WrappedWorkspaceKey,
+  recipientDid: string,
+  privateKeyBase64: string
+): Promise<WorkspaceKey> {
+  try {
+    const key = await openSealedForDid(wrapped, recipientDid, privateKeyBase64, WRAP_INFO, wrapped.keyId);
+    return { keyId: wrapped.keyId, key: base64Encode(key) };
+  } catch {
+    throw new Error('Workspace key could not be unwrapped with this identity');
+  }
+}
+
+/**
+ * Wrap a workspace key for several members
+ * DIDs that are not valid did:key identifiers (e.g. legacy fake DIDs) are skipped.
+ */
+export async function wrapWorkspaceKeyForMembers(
+  workspaceKey: WorkspaceKey,
+  memberDids: string[],
+  grantedBy: string,
+  workspaceId: string,
+  privateKey: PrivateKeySource
+): Promise<Record<string, WrappedWorkspaceKey>> {
+  const keys: Record<string, WrappedWorkspaceKey> = {};
+  for (const did of memberDids) {
+    if (!isValidDid(did)) continue;
+    keys[did] = await wrapWorkspaceKey(workspaceKey, did, grantedBy, workspaceId, privateKey);
+  }
+  return keys;
+}
+
+/**
+ * Create the signed record of a new key generation
+ *
+ * @param version - Must be higher than the version of any earlier rotation
+ */
+export async function createKeyRotation(
+  keyId: string,
+  version: number,
+  workspaceId: string,
+  rotatedBy: string,
+  privateKey: PrivateKeySource
+): Promise<WorkspaceKeyRotation> {
+  const rotation: Omit<WorkspaceKeyRotation, 'signature'> = {
+    keyId,
+    version,
+    workspaceId: normalizeWorkspaceId(workspaceId),
+    rotatedBy,
+    rotatedAt: Date.now(),
+  };
+  const signature = await signEntity(rotation as unknown as Record<string, unknown>, privateKey);
+  return { ...rotation, signature };
+}
+
+/**
+ * Check that a member may use their wrapped key of the current generation
+ *
+ * The rotation must be signed by an admin, name the current key generation
+ * and not be older than the newest rotation seen before. The member's entry
+ * must belong to that generation and be signed by an admin for this member
+ * and workspace.
+ *
+ * @param seenVersion - Highest rotation version seen before for this workspace
+ */
+export async function verifyWorkspaceKeyAccess(
+  encryption: WorkspaceEncryption,
+  recipientDid: string,
+  workspaceId: string,
+  can: WorkspaceRoleCheck,
+  seenVersion = 0
+): Promise<boolean> {
+  const { rotation } = encryption;
+  const wrapped = encryption.keys[recipientDid];
+  if (
+    !rotation ||
+    !wrapped ||
+    rotation.keyId !== encryption.keyId ||
+    wrapped.keyId !== encryption.keyId ||
+    rotation.workspaceId !== normalizeWorkspaceId(workspaceId) ||
+    !(rotation.version >= seenVersion) ||
+    !can(rotation.rotatedBy, 'admin') ||
+    !can(wrapped.grantedBy, 'admin')
+  ) {
+    return false;
+  }
+
+  return (
+    (await verifySignedBy(rotation as unknown as Record<string, unknown>, rotation.rotatedBy)) &&
+    (await verifySignedBy(wrappedKeyRecord(wrapped, recipientDid, workspaceId), wrapped.grantedBy))
+  );
+}
+
+async function importWorkspaceKey(workspaceKey: WorkspaceKey): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    toArrayBuffer(base64Decode(workspaceKey.key)),
+    { name: 'AES-GCM' },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Encrypt workspace data (JSON-serializable) with the workspace key
+ */
+export async function encryptWorkspaceData(
+  data: unknown,
+  workspaceKey: WorkspaceKey
+): Promise<EncryptedWorkspacePayload> {
+  const key = await importWorkspaceKey(workspaceKey);
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(workspaceKey.keyId) },
+    key,
+    new TextEncoder().encode(JSON.stringify(data))
+  );
+
+  return {
+    keyId: workspaceKey.keyId,
+    iv: base64Encode(iv),
+    ciphertext: base64Encode(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Signed fields of a payload (a digest instead of the whole ciphertext)
+ */
+async function payloadRecord(
+  payload: EncryptedWorkspacePayload,
+  workspaceId: string
+): Promise<Record<string, unknown>> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload.ciphertext));
+  return {
+    keyId: payload.keyId,
+    iv: payload.iv,
+    ciphertextDigest: base64Encode(new Uint8Array(digest)),
+    writtenBy: payload.writtenBy,
+    workspaceId: normalizeWorkspaceId(workspaceId),
+    signature: payload.signature,
+  };
+}
+
+/**
+ * Sign an encrypted payload as its writer
+ */
+export async function signWorkspacePayload(
+  payload: EncryptedWorkspacePayload,
+  workspaceId: string,
+  writtenBy: string,
+  privateKey: PrivateKeySource
+): Promise<EncryptedWorkspacePayload> {
+  const unsigned = { keyId: payload.keyId, iv: payload.iv, ciphertext: payload.ciphertext, writtenBy };
+  const signature = await signEntity(await payloadRecord(unsigned, workspaceId), privateKey);
+  return { ...unsigned, signature };
+}
+
+/**
+ * Check that a payload was signed by a member for this workspace
+ */
+export async function verifyWorkspacePayload(
+  payload: EncryptedWorkspacePayload,
+  workspaceId: string,
+  can: WorkspaceRoleCheck
+): Promise<boolean> {
+  if (!payload.writtenBy || !payload.signature || !can(payload.writtenBy, 'member')) return false;
+  return verifySignedBy(await payloadRecord(payload, workspaceId), payload.writtenBy);
+}
+
+/**
+ * Decrypt workspace data with the workspace key
+ *
+ * @throws Error if the key doesn't match or the ciphertext was tampered with
+ */
+export async function decryptWorkspaceData<TData>(
+  payload: EncryptedWorkspacePayload,
+  workspaceKey: WorkspaceKey
+): Promise<TData> {
+  if (payload.keyId !== workspaceKey.keyId) {
+    throw new Error(`Payload was encrypted with key ${payload.keyId}, not ${workspaceKey.keyId}`);
+  }
+
+  const key = await importWorkspaceKey(workspaceKey);
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: toArrayBuffer(base64Decode(payload.iv)),
+        additionalData: new TextEncoder().encode(payload.keyId),
+      },
+      key,
+      toArrayBuffer(base64Decode(payload.ciphertext))
+    );
+    return JSON.parse(new TextDecoder().decode(plaintext)) as TData;
+  } catch {
+    throw new Error('Workspace data could not be decrypted');
+  }
+}
@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest';
+import { csvField } from './fileExport';
+
+describe('csvField', () => {
+  it('should leave plain values unquoted', () => {
+    expect(csvField('Annahme')).toBe('Annahme');
+    expect(csvField(-2.5)).toBe('-2.5');
+  });
+
+  it('should quote separators, quotes and line breaks', () => {
+    expect(csvField('a,b')).toBe('"a,b"');
+    expect(csvField('a;b')).toBe('"a;b"');
+    expect(csvField('say "hi"')).toBe('"say ""hi"""');
+    expect(csvField('line\nbreak')).toBe('"line\nbreak"');
+  });
+});
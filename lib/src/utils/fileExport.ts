@@ -0,0 +1,26 @@
+/**
+ * File export utilities (downloads and CSV)
+ */
+
+/**
+ * Quote a CSV field if needed
+ */
+export function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",;\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Offer text content as file download
+ */
+export function downloadFile(content: string, filename: string, type: string): void {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
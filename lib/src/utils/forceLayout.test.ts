@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { seededRandom, simulateForces, type ForceNode } from './forceLayout';
+
+interface TestNode extends ForceNode {
+  isCenter?: boolean;
+}
+
+function node(id: string, x: number, y: number, extra: Partial<TestNode> = {}): TestNode {
+  return { id, x, y, vx: 0, vy: 0, ...extra };
+}
+
+function distance(a: ForceNode, b: ForceNode): number {
+  return Math.sqrt((a.x - b.x) ** 2 + (a.y - b.y) ** 2);
+}
+
+describe('seededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = seededRandom('did:key:alice');
+    const b = seededRandom('did:key:alice');
+    expect([a(), a(), a()]).toEqual([b(), b(), b()]);
+  });
+
+  it('should produce values between 0 and 1', () => {
+    const random = seededRandom('seed');
+    for (let i = 0; i < 20; i++) {
+      const value = random();
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThanOrEqual(1);
+    }
+  });
+});
+
+describe('simulateForces', () => {
+  it('should not modify the input nodes', () => {
+    const nodes = [node('a', 100, 100), node('b', 110, 100)];
+    simulateForces(nodes, [], 600, 400);
+    expect(nodes[0]).toEqual(node('a', 100, 100));
+  });
+
+  it('should push overlapping nodes apart', () => {
+    const result = simulateForces([node('a', 300, 200), node('b', 300, 200)], [], 600, 400);
+    expect(distance(result[0], result[1])).toBeGreaterThan(50);
+  });
+
+  it('should keep nodes within the padding', () => {
+    const nodes = Array.from({ length: 6 }, (_, i) => node(`n${i}`, 300 + i, 200));
+    const result = simulateForces(nodes, [], 600, 400, { padding: 40 });
+
+    for (const n of result) {
+      expect(n.x).toBeGreaterThanOrEqual(40);
+      expect(n.x).toBeLessThanOrEqual(560);
+      expect(n.y).toBeGreaterThanOrEqual(40);
+      expect(n.y).toBeLessThanOrEqual(360);
+    }
+  });
+
+  it('should separate nodes at the same position for every index pair', () => {
+    const nodes = Array.from({ length: 6 }, (_, i) => node(`n${i}`, 300, 200));
+    const result = simulateForces(nodes, [], 600, 400, { iterations: 1 });
+
+    for (const n of result) {
+      expect(Number.isFinite(n.x)).toBe(true);
+      expect(Number.isFinite(n.y)).toBe(true);
+    }
+  });
+
+  it('should pull connected nodes together', () => {
+    const nodes = [node('a', 60, 60), node('b', 540, 340)];
+    const connected = simulateForces(nodes, [{ source: 'a', target: 'b' }], 600, 400);
+    const unconnected = simulateForces(nodes, [], 600, 400);
+    expect(distance(connected[0], connected[1])).toBeLessThan(
+      distance(unconnected[0], unconnected[1])
+    );
+  });
+
+  it('should keep centered nodes at the center', () => {
+    const nodes = [node('me', 10, 10, { isCenter: true }), node('other', 300, 200)];
+    const result = simulateForces(nodes, [], 600, 400, { isCentered: (n) => !!n.isCenter });
+    expect(result[0]).toMatchObject({ x: 300, y: 200, vx: 0, vy: 0 });
+  });
+
+  it('should be deterministic', () => {
+    const nodes = [node('a', 300, 200), node('b', 300, 200), node('c', 310, 190)];
+    const edges = [{ source: 'a', target: 'c' }];
+    expect(simulateForces(nodes, edges, 600, 400)).toEqual(simulateForces(nodes, edges, 600, 400));
+  });
+});
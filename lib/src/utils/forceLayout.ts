@@ -0,0 +1,177 @@
+/**
+ * Force-directed graph layout
+ *
+ * Simple simulation used by the graph views (TrustGraph, argument graph):
+ * all nodes repel each other, edges pull their nodes together beyond an
+ * ideal length, and a weak pull keeps the graph centered.
+ */
+
+/**
+ * Node position and velocity during the simulation
+ */
+export interface ForceNode {
+  id: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+/**
+ * Edge between two nodes (by node ID)
+ */
+export interface ForceEdge {
+  source: string;
+  target: string;
+}
+
+/**
+ * Options of the force simulation
+ */
+export interface ForceLayoutOptions<T extends ForceNode> {
+  /** Number of simulation steps (default: 50) */
+  iterations?: number;
+  /** Nodes that stay at the center (e.g. the current user) */
+  isCentered?: (node: T) => boolean;
+  /** Edge length without attraction (default: 180) */
+  idealEdgeLength?: number;
+  /** Distance below which repulsion is tripled (default: 120) */
+  minDistance?: number;
+  /** Distance nodes keep from the border (default: 50) */
+  padding?: number;
+}
+
+/**
+ * Seeded random generator for deterministic initial positions
+ */
+export function seededRandom(seed: string): () => number {
+  let hash = 0;
+  for (let i = 0; i < seed.length; i++) {
+    const char = seed.charCodeAt(i);
+    hash = ((hash << 5) - hash) + char;
+    hash = hash & hash;
+  }
+  return () => {
+    hash = (hash * 1103515245 + 12345) & 0x7fffffff;
+    return (hash / 0x7fffffff);
+  };
+}
+
+/**
+ * Simple force-directed layout simulation
+ *
+ * @param nodes - Nodes with initial positions (not modified)
+ * @param edges - Edges between the nodes
+ * @param width - Width of the drawing area
+ * @param height - Height of the drawing area
+ * @returns Copies of the nodes at their final positions
+ */
+export function simulateForces<T extends ForceNode>(
+  nodes: T[],
+  edges: ForceEdge[],
+  width: number,
+  height: number,
+  options: ForceLayoutOptions<T> = {}
+): T[] {
+  const {
+    iterations = 50,
+    isCentered,
+    idealEdgeLength = 180,
+    minDistance = 120,
+    padding = 50,
+  } = options;
+  const result = nodes.map(n => ({ ...n }));
+
+  const centerX = width / 2;
+  const centerY = height / 2;
+  const repulsionStrength = 25000;      // Much stronger repulsion to push nodes apart
+  const attractionStrength = 0.02;       // Weaker attraction along edges
+  const centerPull = 0.005;              // Weaker center pull
+  const damping = 0.85;
+
+  for (let i = 0; i < iterations; i++) {
+    // Repulsion between all nodes (with minimum distance enforcement)
+    for (let a = 0; a < result.length; a++) {
+      for (let b = a + 1; b < result.length; b++) {
+        let dx = result[b].x - result[a].x;
+        let dy = result[b].y - result[a].y;
+        let dist = Math.sqrt(dx * dx + dy * dy);
+
+        // If nodes are too close, add deterministic jitter to separate them
+        if (dist < 1) {
+          // Use node indices for deterministic offset
+          dx = ((a * 7 + b * 13) % 10 - 5);
+          dy = ((a * 11 + b * 3) % 10 - 5);
+          // The offset is zero for some index pairs (e.g. 0 and 5)
+          if (dx === 0 && dy === 0) dx = 1;
+          dist = Math.sqrt(dx * dx + dy * dy);
+        }
+
+        // Stronger force when below minimum distance
+        let force = repulsionStrength / (dist * dist);
+        if (dist < minDistance) {
+          force *= 3; // Triple the repulsion force when too close
+        }
+
+        const fx = (dx / dist) * force;
+        const fy = (dy / dist) * force;
+
+        result[a].vx -= fx;
+        result[a].vy -= fy;
+        result[b].vx += fx;
+        result[b].vy += fy;
+      }
+    }
+
+    // Attraction along edges (only when distance > ideal distance)
+    for (const edge of edges) {
+      const source = result.find(n => n.id === edge.source);
+      const target = result.find(n => n.id === edge.target);
+      if (!source || !target) continue;
+
+      const dx = target.x - source.x;
+      const dy = target.y - source.y;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+
+      // Only attract if beyond ideal distance
+      if (dist > idealEdgeLength) {
+        const strength = (dist - idealEdgeLength) * attractionStrength;
+        const fx = (dx / dist) * strength;
+        const fy = (dy / dist) * strength;
+
+        source.vx += fx;
+        source.vy += fy;
+        target.vx -= fx;
+        target.vy -= fy;
+      }
+    }
+
+    // Pull towards center
+    for (const node of result) {
+      node.vx += (centerX - node.x) * centerPull;
+      node.vy += (centerY - node.y) * centerPull;
+    }
+
+    // Apply velocities with damping
+    for (const node of result) {
+      if (isCentered?.(node)) {
+        node.x = centerX;
+        node.y = centerY;
+        node.vx = 0;
+        node.vy = 0;
+        continue;
+      }
+
+      node.x += node.vx;
+      node.y += node.vy;
+      node.vx *= damping;
+      node.vy *= damping;
+
+      // Keep within bounds
+      node.x = Math.max(padding, Math.min(width - padding, node.x));
+      node.y = Math.max(padding, Math.min(height - padding, node.y));
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  encryptIdentityBackup,
+  decryptIdentityBackup,
+  isEncryptedIdentityBackup,
+  parseIdentityFile,
+  IDENTITY_BACKUP_VERSION,
+  IDENTITY_BACKUP_MIN_ITERATIONS,
+  IDENTITY_BACKUP_MAX_ITERATIONS,
+} from './identityBackup';
+import { generateDidIdentity, type DidIdentity } from './did';
+import type { StoredIdentity } from './storage';
+
+// Lowest accepted iteration count to keep tests fast
+const ITERATIONS = IDENTITY_BACKUP_MIN_ITERATIONS;
+
+describe('identity backup', () => {
+  let owner: DidIdentity;
+  let identity: StoredIdentity;
+
+  beforeAll(async () => {
+    owner = await generateDidIdentity('Owner');
+    identity = {
+      did: owner.did,
+      displayName: 'Owner',
+      publicKey: owner.publicKey,
+      privateKey: owner.privateKey,
+      userDocUrl: 'automerge:userDoc',
+    };
+  });
+
+  it('should encrypt without exposing the private key', async () => {
+    const backup = await encryptIdentityBackup(identity, 'correct horse', ITERATIONS);
+    const content = JSON.stringify(backup);
+
+    expect(isEncryptedIdentityBackup(backup)).toBe(true);
+    expect(backup).toMatchObject({ version: IDENTITY_BACKUP_VERSION, did: owner.did });
+    expect(content).not.toContain(owner.privateKey);
+    expect(content).not.toContain('automerge:userDoc');
+  });
+
+  it('should decrypt with the right passphrase only', async () => {
+    const backup = await encryptIdentityBackup(identity, 'correct horse', ITERATIONS);
+
+    expect(await decryptIdentityBackup(backup, 'correct horse')).toEqual(identity);
+    await expect(decryptIdentityBackup(backup, 'wrong horse')).rejects.toThrow('Falsche Passphrase');
+  });
+
+  it('should reject short passphrases and unknown versions', async () => {
+    await expect(encryptIdentityBackup(identity, 'short', ITERATIONS)).rejects.toThrow();
+
+    const backup = await encryptIdentityBackup(identity, 'correct horse', ITERATIONS);
+    await expect(decryptIdentityBackup({ ...backup, version: 99 }, 'correct horse')).rejects.toThrow('Version');
+  });
+
+  it('should reject iteration counts outside the accepted range', async () => {
+    const backup = await encryptIdentityBackup(identity, 'correct horse', ITERATIONS);
+
+    for (const iterations of [1000, IDENTITY_BACKUP_MAX_ITERATIONS + 1, 1e12, 100_000.5]) {
+      await expect(
+        decryptIdentityBackup({ ...backup, kdf: { ...backup.kdf, iterations } }, 'correct horse')
+      ).rejects.toThrow('Schlüsselableitung');
+    }
+    await expect(encryptIdentityBackup(identity, 'correct horse', 1000)).rejects.toThrow();
+  });
+
+  it('should reject a header DID that was swapped', async () => {
+    const other = await generateDidIdentity('Other');
+    const backup = await encryptIdentityBackup(identity, 'correct horse', ITERATIONS);
+
+    await expect(decryptIdentityBackup({ ...backup, did: other.did }, 'correct horse')).rejects.toThrow();
+  });
+
+  it('should import encrypted files via the passphrase prompt', async () => {
+    const content = JSON.stringify(await encryptIdentityBackup(identity, 'correct horse', ITERATIONS));
+
+    expect(await parseIdentityFile(content, async () => 'correct horse')).toEqual(identity);
+    expect(await parseIdentityFile(content, async () => null)).toBeNull();
+    await expect(parseIdentityFile(content)).rejects.toThrow('verschlüsselt');
+  });
+
+  it('should still import old plaintext files', async () => {
+    expect(await parseIdentityFile(JSON.stringify(identity))).toEqual(identity);
+    // Legacy identities without key
+    expect(await parseIdentityFile(JSON.stringify({ did: 'did:key:z6MkLegacy' }))).toEqual({
+      did: 'did:key:z6MkLegacy',
+    });
+  });
+
+  it('should reject files whose key does not match the DID', async () => {
+    const other = await generateDidIdentity('Other');
+    const forged = JSON.stringify({ ...identity, privateKey: other.privateKey });
+
+    await expect(parseIdentityFile(forged)).rejects.toThrow('passen nicht zusammen');
+    await expect(encryptIdentityBackup({ ...identity, privateKey: other.privateKey }, 'correct horse', ITERATIONS)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Passphrase-encrypted identity backups
+ *
+ * Identity export files contain the private key. They are encrypted with a
+ * key derived from a passphrase (PBKDF2-SHA-256) using AES-GCM. The DID stays
+ * readable in the header and is bound to the ciphertext as additional data.
+ *
+ * Files of the old format (plain StoredIdentity JSON) can still be imported.
+ * In both cases the private key must derive the DID of the file.
+ */
+
+import type { StoredIdentity } from './storage';
+import { base64Decode, base64Encode, deriveIdentityFromPrivateKey } from './did';
+
+/**
+ * Format marker of encrypted identity files
+ */
+export const IDENTITY_BACKUP_FORMAT = 'wot-identity-backup';
+
+/**
+ * Current version of the encrypted format
+ */
+export const IDENTITY_BACKUP_VERSION = 1;
+
+/**
+ * PBKDF2 iterations for new backups (OWASP recommendation for SHA-256)
+ */
+export const IDENTITY_BACKUP_ITERATIONS = 600_000;
+
+/**
+ * Accepted range of PBKDF2 iterations
+ * Files outside it are refused: too few make the passphrase easy to brute-force,
+ * too many would block the import for minutes.
+ */
+export const IDENTITY_BACKUP_MIN_ITERATIONS = 100_000;
+export const IDENTITY_BACKUP_MAX_ITERATIONS = 10_000_000;
+
+/**
+ * Minimum passphrase length for exports
+ */
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Key derivation parameters of passphrase-encrypted data
+ */
+export interface PassphraseKdf {
+  name: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+  /** Base64 salt */
+  salt: string;
+}
+
+/**
+ * Encrypted identity file
+ */
+export interface EncryptedIdentityBackup {
+  format: typeof IDENTITY_BACKUP_FORMAT;
+  version: number;
+  /** DID of the contained identity (readable without passphrase) */
+  did: string;
+  kdf: PassphraseKdf;
+  cipher: {
+    name: 'AES-GCM';
+    /** Base64 IV */
+    iv: string;
+  };
+  /** Base64 encrypted StoredIdentity JSON (including userDocUrl) */
+  ciphertext: string;
+}
+
+function toArrayBuffer(arr: Uint8Array): ArrayBuffer {
+  return arr.buffer.slice(arr.byteOffset, arr.byteOffset + arr.byteLength) as ArrayBuffer;
+}
+
+function additionalDataOf(version: number, did: string): Uint8Array {
+  return new TextEncoder().encode(`${IDENTITY_BACKUP_FORMAT}:${version}:${did}`);
+}
+
+/**
+ * Derive an AES-GCM key from a passphrase (also used for the PIN lock, see identityLock)
+ */
+export async function derivePassphraseKey(
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+): Promise<CryptoKey> {
+  const baseKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt: toArrayBuffer(salt), iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Check that the private key of an identity derives its DID
+ *
+ * @throws Error if the key does not belong to the DID
+ */
+async function assertKeyMatchesDid(identity: StoredIdentity): Promise<void> {
+  // Identities without keys (legacy) have nothing to check
+  if (!identity.privateKey) return;
+
+  let derivedDid: string;
+  try {
+    derivedDid = (await deriveIdentityFromPrivateKey(identity.privateKey)).did;
+  } catch {
+    throw new Error('Ungültiger privater Schlüssel in der Identity-Datei');
+  }
+  if (derivedDid !== identity.did) {
+    throw new Error('Schlüssel und DID der Identity-Datei passen nicht zusammen');
+  }
+}
+
+/**
+ * Check whether parsed file content is an encrypted backup
+ */
+export function isEncryptedIdentityBackup(data: unknown): data is EncryptedIdentityBackup {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    (data as { format?: unknown }).format === IDENTITY_BACKUP_FORMAT
+  );
+}
+
+/**
+ * Check whether an iteration count is within the accepted range
+ */
+function isAcceptedIterationCount(iterations: number): boolean {
+  return (
+    Number.isInteger(iterations) &&
+    iterations >= IDENTITY_BACKUP_MIN_ITERATIONS &&
+    iterations <= IDENTITY_BACKUP_MAX_ITERATIONS
+  );
+}
+
+/**
+ * Encrypt an identity with a passphrase
+ *
+ * @param identity - Identity to export (including privateKey and userDocUrl)
+ * @param passphrase - Passphrase chosen by the user
+ * @param iterations - PBKDF2 iterations (defaults to IDENTITY_BACKUP_ITERATIONS)
+ */
+export async function encryptIdentityBackup(
+  identity: StoredIdentity,
+  passphrase: string,
+  iterations = IDENTITY_BACKUP_ITERATIONS
+): Promise<EncryptedIdentityBackup> {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Die Passphrase muss mindestens ${MIN_PASSPHRASE_LENGTH} Zeichen lang sein`);
+  }
+  if (!isAcceptedIterationCount(iterations)) {
+    throw new Error('Ungültige Anzahl an PBKDF2-Iterationen');
+  }
+  await assertKeyMatchesDid(identity);
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await derivePassphraseKey(passphrase, salt, iterations);
+
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: toArrayBuffer(additionalDataOf(IDENTITY_BACKUP_VERSION, identity.did)) },
+    key,
+    new TextEncoder().encode(JSON.stringify(identity))
+  );
+
+  return {
+    format: IDENTITY_BACKUP_FORMAT,
+    version: IDENTITY_BACKUP_VERSION,
+    did: identity.did,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations, salt: base64Encode(salt) },
+    cipher: { name: 'AES-GCM', iv: base64Encode(iv) },
+    ciphertext: base64Encode(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt an encrypted backup
+ *
+ * @throws Error if the version or key derivation is unsupported, the passphrase is wrong
+ *   or the key doesn't match the DID
+ */
+export async function decryptIdentityBackup(
+  backup: EncryptedIdentityBackup,
+  passphrase: string
+): Promise<StoredIdentity> {
+  if (backup.version !== IDENTITY_BACKUP_VERSION) {
+    throw new Error(`Unbekannte Version der Identity-Datei: ${backup.version}`);
+  }
+  if (backup.kdf?.name !== 'PBKDF2' || backup.cipher?.name !== 'AES-GCM') {
+    throw new Error('Nicht unterstützte Verschlüsselung der Identity-Datei');
+  }
+  if (!isAcceptedIterationCount(backup.kdf.iterations)) {
+    throw new Error('Nicht unterstützte Schlüsselableitung der Identity-Datei');
+  }
+
+  const key = await derivePassphraseKey(passphrase, base64Decode(backup.kdf.salt), backup.kdf.iterations);
+
+  let identity: StoredIdentity;
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: toArrayBuffer(base64Decode(backup.cipher.iv)),
+        additionalData: toArrayBuffer(additionalDataOf(backup.version, backup.did)),
+      },
+      key,
+      toArrayBuffer(base64Decode(backup.ciphertext))
+    );
+    identity = JSON.parse(new TextDecoder().decode(plaintext)) as StoredIdentity;
+  } catch {
+    throw new Error('Falsche Passphrase oder beschädigte Datei');
+  }
+
+  if (identity.did !== backup.did) {
+    throw new Error('Schlüssel und DID der Identity-Datei passen nicht zusammen');
+  }
+  await assertKeyMatchesDid(identity);
+  return identity;
+}
+
+/**
+ * Read the content of an identity file (encrypted or old plaintext format)
+ *
+ * @param content - File content
+ * @param requestPassphrase - Asks the user for the passphrase of an encrypted file (null = cancelled)
+ * @returns Identity (with userDocUrl if contained), or null if the user cancelled
+ * @throws Error if the file is invalid, the passphrase is wrong or the key doesn't match the DID
+ */
+export async function parseIdentityFile(
+  content: string,
+  requestPassphrase?: (did: string) => Promise<string | null>
+): Promise<StoredIdentity | null> {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error('Ungültige Identity-Datei');
+  }
+
+  if (isEncryptedIdentityBackup(data)) {
+    if (!requestPassphrase) {
+      throw new Error('Die Identity-Datei ist verschlüsselt');
+    }
+    const passphrase = await requestPassphrase(data.did);
+    if (passphrase === null) return null;
+    return decryptIdentityBackup(data, passphrase);
+  }
+
+  // Old format: plaintext StoredIdentity
+  const identity = data as StoredIdentity;
+  if (!identity?.did) {
+    throw new Error('Invalid identity file: missing DID');
+  }
+  await assertKeyMatchesDid(identity);
+  return identity;
+}
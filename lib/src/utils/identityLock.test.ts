@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import {
+  cancelUnlock,
+  disableIdentityLock,
+  enableIdentityLock,
+  getIdentityLockState,
+  lockIdentity,
+  requestPrivateKey,
+  saveIdentityKeepingLock,
+  signingKeyOf,
+  subscribeIdentityLock,
+  unlockIdentity,
+} from './identityLock';
+import { generateDidIdentity, type DidIdentity } from './did';
+import { loadSharedIdentity, saveSharedIdentity } from './storage';
+import { signEntity, verifyEntitySignature } from './signature';
+
+// Low iteration count to keep tests fast
+const ITERATIONS = 1000;
+const PIN = '246810';
+
+const store: Record<string, string> = {};
+Object.defineProperty(global, 'localStorage', {
+  value: {
+    getItem: (key: string) => store[key] ?? null,
+    setItem: (key: string, value: string) => {
+      store[key] = value;
+    },
+    removeItem: (key: string) => {
+      delete store[key];
+    },
+  },
+});
+
+describe('identity lock', () => {
+  let owner: DidIdentity;
+
+  beforeAll(async () => {
+    owner = await generateDidIdentity('Owner');
+  });
+
+  beforeEach(() => {
+    cancelUnlock();
+    lockIdentity();
+    saveSharedIdentity({
+      did: owner.did,
+      displayName: owner.displayName,
+      publicKey: owner.publicKey,
+      privateKey: owner.privateKey,
+    });
+  });
+
+  it('replaces the stored plaintext key and keeps the session unlocked', async () => {
+    await enableIdentityLock(PIN, ITERATIONS);
+
+    const stored = loadSharedIdentity();
+    expect(stored?.privateKey).toBeUndefined();
+    expect(stored?.lockedPrivateKey).toBeDefined();
+    expect(JSON.stringify(stored)).not.toContain(owner.privateKey);
+    expect(getIdentityLockState()).toEqual({ isLockEnabled: true, isUnlocked: true, isUnlockRequested: false });
+    expect(await requestPrivateKey()).toBe(owner.privateKey);
+  });
+
+  it('rejects short PINs', async () => {
+    await expect(enableIdentityLock('123', ITERATIONS)).rejects.toThrow('mindestens');
+    expect(loadSharedIdentity()?.privateKey).toBe(owner.privateKey);
+  });
+
+  it('waits for the PIN when signing with a locked identity', async () => {
+    await enableIdentityLock(PIN, ITERATIONS);
+    lockIdentity();
+
+    const listener = vi.fn();
+    const unsubscribe = subscribeIdentityLock(listener);
+    const signingKey = signingKeyOf(loadSharedIdentity());
+    const entity = { id: 'assumption-1', createdAt: 1 };
+    const signature = signEntity(entity, signingKey!);
+
+    await vi.waitFor(() => expect(getIdentityLockState().isUnlockRequested).toBe(true));
+    expect(listener).toHaveBeenCalled();
+
+    await expect(unlockIdentity('wrong-pin')).rejects.toThrow('Falsche PIN');
+    expect(getIdentityLockState().isUnlockRequested).toBe(true);
+
+    await unlockIdentity(PIN);
+    const result = await verifyEntitySignature({ ...entity, signature: await signature }, owner.publicKey);
+    expect(result.valid).toBe(true);
+    expect(getIdentityLockState()).toEqual({ isLockEnabled: true, isUnlocked: true, isUnlockRequested: false });
+    unsubscribe();
+  });
+
+  it('rejects waiting operations when the prompt is cancelled', async () => {
+    await enableIdentityLock(PIN, ITERATIONS);
+    lockIdentity();
+
+    const pending = requestPrivateKey();
+    cancelUnlock();
+    await expect(pending).rejects.toThrow('abgebrochen');
+    expect(getIdentityLockState().isUnlockRequested).toBe(false);
+  });
+
+  it('stores the plaintext key again when the lock is removed', async () => {
+    await enableIdentityLock(PIN, ITERATIONS);
+
+    await expect(disableIdentityLock('wrong-pin')).rejects.toThrow('Falsche PIN');
+    await disableIdentityLock(PIN);
+
+    const stored = loadSharedIdentity();
+    expect(stored?.privateKey).toBe(owner.privateKey);
+    expect(stored?.lockedPrivateKey).toBeUndefined();
+    expect(signingKeyOf(stored)).toBe(owner.privateKey);
+    expect(getIdentityLockState().isLockEnabled).toBe(false);
+  });
+
+  it('keeps the lock for a rotated key', async () => {
+    await enableIdentityLock(PIN, ITERATIONS);
+    const next = await generateDidIdentity('Owner');
+
+    await saveIdentityKeepingLock({
+      ...loadSharedIdentity()!,
+      did: next.did,
+      publicKey: next.publicKey,
+      privateKey: next.privateKey,
+    });
+
+    const stored = loadSharedIdentity();
+    expect(stored?.did).toBe(next.did);
+    expect(stored?.privateKey).toBeUndefined();
+    lockIdentity();
+    const pending = requestPrivateKey();
+    await unlockIdentity(PIN);
+    expect(await pending).toBe(next.privateKey);
+  });
+
+  it('does not accept a locked key of another identity', async () => {
+    await enableIdentityLock(PIN, ITERATIONS);
+    const other = await generateDidIdentity('Other');
+    saveSharedIdentity({ ...loadSharedIdentity()!, did: other.did });
+
+    await expect(unlockIdentity(PIN)).rejects.toThrow();
+  });
+});
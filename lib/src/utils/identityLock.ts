@@ -0,0 +1,304 @@
+/**
+ * PIN lock for the identity stored in localStorage
+ *
+ * Without a lock, the private key is stored in plaintext under the shared
+ * identity key and can be read by every script on the origin. With a lock,
+ * only `lockedPrivateKey` is stored: the key encrypted with AES-GCM under a
+ * key derived from the user's PIN (PBKDF2, as for identity exports).
+ *
+ * The unlocked key is kept in memory for the current session only. Signing
+ * code receives `requestPrivateKey` as PrivateKeySource; while the identity
+ * is locked it asks the UI to unlock (UnlockIdentityDialog) and resolves
+ * once the user entered the PIN.
+ *
+ * A non-extractable WebCrypto key in IndexedDB is not used, because
+ * workspace encryption (X25519 conversion) and social recovery need the
+ * raw key bytes.
+ */
+
+import { base64Decode, base64Encode, deriveIdentityFromPrivateKey } from './did';
+import { derivePassphraseKey, IDENTITY_BACKUP_ITERATIONS, type PassphraseKdf } from './identityBackup';
+import type { PrivateKeySource } from './signature';
+import { loadSharedIdentity, saveSharedIdentity, type StoredIdentity } from './storage';
+
+/**
+ * Minimum PIN length
+ */
+export const MIN_PIN_LENGTH = 6;
+
+/**
+ * Private key encrypted with the PIN (stored instead of the plaintext key)
+ */
+export interface LockedPrivateKey {
+  kdf: PassphraseKdf;
+  cipher: {
+    name: 'AES-GCM';
+    /** Base64 IV */
+    iv: string;
+  };
+  /** Base64 encrypted PKCS#8 private key */
+  ciphertext: string;
+}
+
+/**
+ * Lock state for the UI
+ */
+export interface IdentityLockState {
+  /** The stored identity is protected by a PIN */
+  isLockEnabled: boolean;
+  /** The key of the locked identity is available in this session */
+  isUnlocked: boolean;
+  /** A signing operation waits for the user to enter the PIN */
+  isUnlockRequested: boolean;
+}
+
+interface UnlockedSession {
+  did: string;
+  privateKey: string;
+  /** PIN-derived key, so a rotated key can be locked without asking again */
+  lockKey: CryptoKey;
+  kdf: PassphraseKdf;
+}
+
+interface PendingUnlock {
+  resolve: (privateKey: string) => void;
+  reject: (error: Error) => void;
+}
+
+let session: UnlockedSession | null = null;
+let pendingUnlocks: PendingUnlock[] = [];
+const listeners = new Set<() => void>();
+let snapshot: IdentityLockState = { isLockEnabled: false, isUnlocked: false, isUnlockRequested: false };
+
+function toArrayBuffer(arr: Uint8Array): ArrayBuffer {
+  return arr.buffer.slice(arr.byteOffset, arr.byteOffset + arr.byteLength) as ArrayBuffer;
+}
+
+function additionalDataOf(did: string): ArrayBuffer {
+  return toArrayBuffer(new TextEncoder().encode(`wot-identity-lock:${did}`));
+}
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+async function assertKeyMatchesDid(privateKey: string, did: string): Promise<void> {
+  const derived = await deriveIdentityFromPrivateKey(privateKey);
+  if (derived.did !== did) {
+    throw new Error('Schlüssel und DID der Identität passen nicht zusammen');
+  }
+}
+
+async function sealPrivateKey(
+  privateKey: string,
+  did: string,
+  lockKey: CryptoKey,
+  kdf: PassphraseKdf
+): Promise<LockedPrivateKey> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: additionalDataOf(did) },
+    lockKey,
+    toArrayBuffer(base64Decode(privateKey))
+  );
+
+  return {
+    kdf,
+    cipher: { name: 'AES-GCM', iv: base64Encode(iv) },
+    ciphertext: base64Encode(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * Decrypt a locked key with the PIN
+ *
+ * @throws Error if the PIN is wrong or the key doesn't belong to the DID
+ */
+async function openPrivateKey(locked: LockedPrivateKey, did: string, pin: string): Promise<UnlockedSession> {
+  const lockKey = await derivePassphraseKey(pin, base64Decode(locked.kdf.salt), locked.kdf.iterations);
+
+  let privateKey: string;
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: toArrayBuffer(base64Decode(locked.cipher.iv)), additionalData: additionalDataOf(did) },
+      lockKey,
+      toArrayBuffer(base64Decode(locked.ciphertext))
+    );
+    privateKey = base64Encode(new Uint8Array(plaintext));
+  } catch {
+    throw new Error('Falsche PIN');
+  }
+
+  await assertKeyMatchesDid(privateKey, did);
+  return { did, privateKey, lockKey, kdf: locked.kdf };
+}
+
+function settlePendingUnlocks(settle: (pending: PendingUnlock) => void): void {
+  const waiting = pendingUnlocks;
+  pendingUnlocks = [];
+  waiting.forEach(settle);
+}
+
+/**
+ * Current lock state (stable reference while unchanged, for useSyncExternalStore)
+ */
+export function getIdentityLockState(): IdentityLockState {
+  const identity = loadSharedIdentity();
+  const isLockEnabled = !!identity?.lockedPrivateKey;
+  const isUnlocked = isLockEnabled && session?.did === identity?.did;
+  const isUnlockRequested = pendingUnlocks.length > 0;
+
+  if (
+    snapshot.isLockEnabled !== isLockEnabled ||
+    snapshot.isUnlocked !== isUnlocked ||
+    snapshot.isUnlockRequested !== isUnlockRequested
+  ) {
+    snapshot = { isLockEnabled, isUnlocked, isUnlockRequested };
+  }
+  return snapshot;
+}
+
+/**
+ * Subscribe to lock state changes
+ *
+ * @returns Unsubscribe function
+ */
+export function subscribeIdentityLock(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Get the private key of the stored identity
+ * For a locked identity that isn't unlocked yet, this waits until the user
+ * enters the PIN (unlockIdentity) and rejects if they cancel (cancelUnlock).
+ */
+export function requestPrivateKey(): Promise<string> {
+  const identity = loadSharedIdentity();
+  if (identity?.privateKey) return Promise.resolve(identity.privateKey);
+  if (!identity?.lockedPrivateKey) {
+    return Promise.reject(new Error('Kein privater Schlüssel vorhanden'));
+  }
+  if (session?.did === identity.did) return Promise.resolve(session.privateKey);
+
+  return new Promise<string>((resolve, reject) => {
+    pendingUnlocks.push({ resolve, reject });
+    notify();
+  });
+}
+
+/**
+ * Signing key of a stored identity: the plaintext key, or requestPrivateKey if locked
+ */
+export function signingKeyOf(identity: StoredIdentity | null): PrivateKeySource | undefined {
+  if (identity?.privateKey) return identity.privateKey;
+  return identity?.lockedPrivateKey ? requestPrivateKey : undefined;
+}
+
+/**
+ * Unlock the stored identity for this session
+ * Pending requestPrivateKey calls continue with the key.
+ *
+ * @throws Error if the PIN is wrong
+ */
+export async function unlockIdentity(pin: string): Promise<void> {
+  const identity = loadSharedIdentity();
+  if (!identity?.lockedPrivateKey) {
+    throw new Error('Die Identität ist nicht mit einer PIN geschützt');
+  }
+
+  session = await openPrivateKey(identity.lockedPrivateKey, identity.did, pin);
+  const privateKey = session.privateKey;
+  settlePendingUnlocks((pending) => pending.resolve(privateKey));
+  notify();
+}
+
+/**
+ * Reject all pending unlock requests (user cancelled the prompt)
+ */
+export function cancelUnlock(): void {
+  settlePendingUnlocks((pending) => pending.reject(new Error('Entsperren abgebrochen')));
+  notify();
+}
+
+/**
+ * Forget the unlocked key; the next signing operation asks for the PIN again
+ */
+export function lockIdentity(): void {
+  session = null;
+  notify();
+}
+
+/**
+ * Protect the stored identity with a PIN
+ * The plaintext key is removed from localStorage; this session stays unlocked.
+ *
+ * @param pin - PIN chosen by the user (at least MIN_PIN_LENGTH characters)
+ * @param iterations - PBKDF2 iterations (defaults to the identity export setting)
+ * @throws Error if the PIN is too short or there is no plaintext key to lock
+ */
+export async function enableIdentityLock(pin: string, iterations = IDENTITY_BACKUP_ITERATIONS): Promise<void> {
+  if (pin.length < MIN_PIN_LENGTH) {
+    throw new Error(`Die PIN muss mindestens ${MIN_PIN_LENGTH} Zeichen lang sein`);
+  }
+  const identity = loadSharedIdentity();
+  if (!identity?.privateKey) {
+    throw new Error('Kein privater Schlüssel zum Schützen vorhanden');
+  }
+  await assertKeyMatchesDid(identity.privateKey, identity.did);
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const kdf: PassphraseKdf = { name: 'PBKDF2', hash: 'SHA-256', iterations, salt: base64Encode(salt) };
+  const lockKey = await derivePassphraseKey(pin, salt, iterations);
+  const lockedPrivateKey = await sealPrivateKey(identity.privateKey, identity.did, lockKey, kdf);
+
+  const { privateKey, ...identityWithoutKey } = identity;
+  saveSharedIdentity({ ...identityWithoutKey, lockedPrivateKey });
+  session = { did: identity.did, privateKey, lockKey, kdf };
+  notify();
+}
+
+/**
+ * Remove the PIN lock and store the key in plaintext again
+ *
+ * @throws Error if the PIN is wrong
+ */
+export async function disableIdentityLock(pin: string): Promise<void> {
+  const identity = loadSharedIdentity();
+  if (!identity?.lockedPrivateKey) {
+    throw new Error('Die Identität ist nicht mit einer PIN geschützt');
+  }
+
+  const { privateKey } = await openPrivateKey(identity.lockedPrivateKey, identity.did, pin);
+  const { lockedPrivateKey, ...identityWithoutLock } = identity;
+  saveSharedIdentity({ ...identityWithoutLock, privateKey });
+  session = null;
+  settlePendingUnlocks((pending) => pending.resolve(privateKey));
+  notify();
+}
+
+/**
+ * Save an identity with a new private key (e.g. after key rotation), keeping the PIN lock
+ * If the current identity is locked, the new key is encrypted with the PIN of
+ * the unlocked session; otherwise the identity is saved as given.
+ *
+ * @throws Error if the current identity is locked and not unlocked in this session
+ */
+export async function saveIdentityKeepingLock(identity: StoredIdentity): Promise<void> {
+  const current = loadSharedIdentity();
+  if (!current?.lockedPrivateKey || !identity.privateKey) {
+    saveSharedIdentity(identity);
+    return;
+  }
+  if (!session || session.did !== current.did) {
+    throw new Error('Die Identität ist gesperrt');
+  }
+
+  const { privateKey, ...identityWithoutKey } = identity;
+  const lockedPrivateKey = await sealPrivateKey(privateKey, identity.did, session.lockKey, session.kdf);
+  saveSharedIdentity({ ...identityWithoutKey, lockedPrivateKey });
+  session = { ...session, did: identity.did, privateKey };
+  notify();
+}
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  createKeySuccession,
+  verifyKeySuccession,
+  resolveKeySuccessions,
+  mergeKeySuccessions,
+  resolveCurrentDid,
+  getFormerDids,
+  verifyEntitySignatureForDid,
+} from './keyRotation';
+import { computeTrustLevel, verifyTrustGiven } from './trust';
+import { generateDidIdentity, type DidIdentity } from './did';
+import { signEntity } from './signature';
+import type { TrustAttestation } from '../schema/identity';
+
+describe('Key successions', () => {
+  let first: DidIdentity;
+  let second: DidIdentity;
+  let third: DidIdentity;
+  let attacker: DidIdentity;
+
+  beforeAll(async () => {
+    first = await generateDidIdentity('First');
+    second = await generateDidIdentity('Second');
+    third = await generateDidIdentity('Third');
+    attacker = await generateDidIdentity('Attacker');
+  });
+
+  it('should verify successions signed by the retired key', async () => {
+    const succession = await createKeySuccession(first.did, first.privateKey, second.did);
+
+    expect(await verifyKeySuccession(succession)).toBe(true);
+    expect(await verifyKeySuccession({ ...succession, nextDid: attacker.did })).toBe(false);
+  });
+
+  it('should reject successions signed by another key', async () => {
+    const forged = await createKeySuccession(first.did, attacker.privateKey, attacker.did);
+
+    expect(await verifyKeySuccession(forged)).toBe(false);
+  });
+
+  it('should resolve a chain ending in the current DID', async () => {
+    const a = await createKeySuccession(first.did, first.privateKey, second.did);
+    const b = await createKeySuccession(second.did, second.privateKey, third.did);
+    const index = await resolveKeySuccessions({ [first.did]: a, [second.did]: b }, third.did);
+
+    expect(resolveCurrentDid(first.did, index)).toBe(third.did);
+    expect(resolveCurrentDid(second.did, index)).toBe(third.did);
+    expect(getFormerDids(third.did, index).sort()).toEqual([first.did, second.did].sort());
+  });
+
+  it('should ignore successions that do not lead to the current DID', async () => {
+    const unrelated = await createKeySuccession(attacker.did, attacker.privateKey, second.did);
+    const index = await resolveKeySuccessions({ [attacker.did]: unrelated }, third.did);
+
+    expect(index).toEqual({});
+  });
+
+  it('should stop at an invalid link', async () => {
+    const valid = await createKeySuccession(second.did, second.privateKey, third.did);
+    const forged = await createKeySuccession(first.did, attacker.privateKey, second.did);
+    const index = await resolveKeySuccessions({ [first.did]: forged, [second.did]: valid }, third.did);
+
+    expect(Object.keys(index)).toEqual([second.did]);
+  });
+
+  it('should reject records signed by a retired key after the succession', async () => {
+    const succession = await createKeySuccession(first.did, first.privateKey, second.did);
+    const index = await resolveKeySuccessions({ [first.did]: succession }, second.did);
+
+    const before = { id: 'x', createdAt: succession.createdAt - 1 } as Record<string, unknown> & { signature?: string };
+    before.signature = await signEntity(before, first.privateKey);
+    const after = { id: 'y', createdAt: succession.createdAt + 1 } as Record<string, unknown> & { signature?: string };
+    after.signature = await signEntity(after, first.privateKey);
+
+    expect(await verifyEntitySignatureForDid(before, first.did, succession.createdAt - 1, index)).toBe(true);
+    expect(await verifyEntitySignatureForDid(after, first.did, succession.createdAt + 1, index)).toBe(false);
+  });
+});
+
+describe('Competing key successions', () => {
+  let victim: DidIdentity;
+  let successor: DidIdentity;
+  let attacker: DidIdentity;
+
+  beforeAll(async () => {
+    victim = await generateDidIdentity('Victim');
+    successor = await generateDidIdentity('Successor');
+    attacker = await generateDidIdentity('Attacker');
+  });
+
+  it('should only accept a succession from the document known for the retired DID', async () => {
+    // The attacker uses the leaked key of the victim to claim the victim's DID
+    const stolen = await createKeySuccession(victim.did, victim.privateKey, attacker.did);
+    const attackerIndex = await resolveKeySuccessions({ [victim.did]: stolen }, attacker.did);
+
+    const merged = mergeKeySuccessions([{ knownDids: [attacker.did], index: attackerIndex }]);
+
+    expect(attackerIndex[victim.did]).toBeDefined();
+    expect(resolveCurrentDid(victim.did, merged)).toBe(victim.did);
+  });
+
+  it('should carry no trust over when two documents name different successors', async () => {
+    const genuine = await createKeySuccession(victim.did, victim.privateKey, successor.did);
+    const stolen = await createKeySuccession(victim.did, victim.privateKey, attacker.did);
+    const documents = [
+      { knownDids: [victim.did], index: await resolveKeySuccessions({ [victim.did]: genuine }, successor.did) },
+      { knownDids: [victim.did], index: await resolveKeySuccessions({ [victim.did]: stolen }, attacker.did) },
+    ];
+
+    expect(resolveCurrentDid(victim.did, mergeKeySuccessions(documents.slice(0, 1)))).toBe(successor.did);
+    expect(mergeKeySuccessions(documents)).toEqual({});
+  });
+
+  it('should keep later successions of a document known by an old DID', async () => {
+    const a = await createKeySuccession(victim.did, victim.privateKey, successor.did);
+    const b = await createKeySuccession(successor.did, successor.privateKey, attacker.did);
+    const index = await resolveKeySuccessions({ [victim.did]: a, [successor.did]: b }, attacker.did);
+
+    expect(resolveCurrentDid(victim.did, mergeKeySuccessions([{ knownDids: [victim.did], index }]))).toBe(attacker.did);
+    expect(Object.keys(mergeKeySuccessions([{ knownDids: [successor.did], index }]))).toEqual([successor.did]);
+  });
+});
+
+describe('Trust across key rotation', () => {
+  it('should carry trust over to the new DID', async () => {
+    const me = await generateDidIdentity('Me');
+    const alice = await generateDidIdentity('Alice');
+    const aliceNext = await generateDidIdentity('Alice (new key)');
+
+    const attestation: TrustAttestation = {
+      id: 'trust-1',
+      trusterDid: alice.did,
+      trusteeDid: me.did,
+      level: 'verified',
+      createdAt: 1,
+      updatedAt: 1,
+    };
+    attestation.signature = await signEntity(attestation as unknown as Record<string, unknown>, alice.privateKey);
+
+    const succession = await createKeySuccession(alice.did, alice.privateKey, aliceNext.did);
+    const successions = await resolveKeySuccessions({ [alice.did]: succession }, aliceNext.did);
+
+    // Alice's document now belongs to her new DID but still holds the old attestation
+    const verified = await verifyTrustGiven({ [me.did]: attestation }, aliceNext.did, false, successions);
+    expect(Object.keys(verified)).toEqual([me.did]);
+
+    const mine: TrustAttestation = {
+      id: 'trust-2',
+      trusterDid: me.did,
+      trusteeDid: alice.did,
+      level: 'verified',
+      createdAt: 1,
+      updatedAt: 1,
+    };
+    const graph = { [me.did]: { [alice.did]: mine }, [aliceNext.did]: verified };
+
+    expect(computeTrustLevel(graph, me.did, aliceNext.did, { successions })).toMatchObject({
+      level: 'verified',
+      degree: 1,
+    });
+    // The retired DID resolves to the same person
+    expect(computeTrustLevel(graph, me.did, alice.did, { successions }).path).toEqual([me.did, aliceNext.did]);
+  });
+});
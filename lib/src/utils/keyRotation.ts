@@ -0,0 +1,246 @@
+/**
+ * Key rotation for did:key identities
+ *
+ * A did:key is derived from its public key, so a new keypair means a new DID.
+ * To keep trust relationships, the old key signs a succession record
+ * ("previousDid is succeeded by nextDid") that is published in the
+ * UserDocument (keySuccessions). Readers follow the chain:
+ * - Old DIDs resolve to the current DID of the same person
+ * - A succession only counts from the document known for the retired DID,
+ *   and two different successors for the same DID carry no trust over
+ * - Signatures of a retired key only count if the signed record claims to be
+ *   older than the succession. Timestamps are set by the signer, so this only
+ *   stops honest clients from using the old key: a leaked old key can still
+ *   backdate records and has to be distrusted by the people who trusted it
+ */
+
+import type { KeySuccession } from '../schema/identity';
+import { base64Encode, extractPublicKeyFromDid, isValidDid } from './did';
+import { signEntity, verifyEntitySignature } from './signature';
+
+/**
+ * Retired DID after a verified succession
+ */
+export interface RetiredDid {
+  /** DID that directly succeeded the retired DID */
+  nextDid: string;
+  /** Time of the succession - the retired key is not trusted for newer records */
+  retiredAt: number;
+}
+
+/**
+ * Verified successions: retired DID → successor
+ */
+export type KeySuccessionIndex = Record<string, RetiredDid>;
+
+/**
+ * Create a succession record signed by the old (retired) key
+ *
+ * @param previousDid - DID being retired
+ * @param previousPrivateKey - Private key of the retired DID
+ * @param nextDid - New DID taking over
+ * @returns Signed succession record
+ */
+export async function createKeySuccession(
+  previousDid: string,
+  previousPrivateKey: string,
+  nextDid: string
+): Promise<KeySuccession> {
+  if (previousDid === nextDid) {
+    throw new Error('A DID cannot succeed itself');
+  }
+
+  const succession: Omit<KeySuccession, 'signature'> = {
+    id: `succession-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+    previousDid,
+    nextDid,
+    createdAt: Date.now(),
+  };
+  const signature = await signEntity(succession as unknown as Record<string, unknown>, previousPrivateKey);
+  return { ...succession, signature };
+}
+
+/**
+ * Verify that a succession record was signed by the key of its previousDid
+ */
+export async function verifyKeySuccession(succession: KeySuccession): Promise<boolean> {
+  if (
+    !succession.signature ||
+    succession.previousDid === succession.nextDid ||
+    !isValidDid(succession.previousDid) ||
+    !isValidDid(succession.nextDid)
+  ) {
+    return false;
+  }
+
+  try {
+    const publicKey = base64Encode(extractPublicKeyFromDid(succession.previousDid));
+    const result = await verifyEntitySignature(succession as unknown as Record<string, unknown>, publicKey);
+    return result.valid;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verify the succession chain of a UserDocument
+ *
+ * Walks backwards from the document's current DID. Only records that are
+ * validly signed and form a single chain ending in currentDid are kept, so
+ * a document cannot claim DIDs it never owned.
+ *
+ * @param successions - keySuccessions of a UserDocument (keyed by previousDid)
+ * @param currentDid - DID of the document owner
+ * @returns Verified index of the owner's retired DIDs
+ */
+export async function resolveKeySuccessions(
+  successions: Record<string, KeySuccession>,
+  currentDid: string
+): Promise<KeySuccessionIndex> {
+  const index: KeySuccessionIndex = {};
+  const records = Object.entries(successions).filter(
+    ([previousDid, succession]) => succession.previousDid === previousDid
+  );
+
+  let did = currentDid;
+  const visited = new Set([currentDid]);
+  while (true) {
+    const predecessor = records.find(([, succession]) => succession.nextDid === did);
+    if (!predecessor) break;
+
+    const [previousDid, succession] = predecessor;
+    if (visited.has(previousDid) || !(await verifyKeySuccession(succession))) break;
+
+    // A retired key must not have been retired later than its successor
+    const successorRetiredAt = index[did]?.retiredAt;
+    if (successorRetiredAt !== undefined && succession.createdAt > successorRetiredAt) break;
+
+    index[previousDid] = { nextDid: did, retiredAt: succession.createdAt };
+    visited.add(previousDid);
+    did = previousDid;
+  }
+
+  return index;
+}
+
+/**
+ * Verified successions of one UserDocument
+ */
+export interface DocumentSuccessions {
+  /** DIDs the document is known for, e.g. from attestations pointing to its URL */
+  knownDids: string[];
+  /** Verified successions of the document (see resolveKeySuccessions) */
+  index: KeySuccessionIndex;
+}
+
+/**
+ * Merge the successions of several UserDocuments
+ *
+ * A document may only retire DIDs it is known for, and the DIDs that followed
+ * them. Otherwise anyone holding a leaked key could announce a successor for
+ * it in their own document. Two different successors for the same DID are a
+ * dispute: the DID is left out, so no trust carries over to either of them.
+ *
+ * @param documents - Verified successions per document
+ * @returns Index of undisputed successions
+ */
+export function mergeKeySuccessions(documents: DocumentSuccessions[]): KeySuccessionIndex {
+  const merged: KeySuccessionIndex = {};
+  const disputed = new Set<string>();
+
+  for (const { knownDids, index } of documents) {
+    const owned = new Set<string>();
+    for (const knownDid of knownDids) {
+      let did = knownDid;
+      while (index[did] && !owned.has(did)) {
+        owned.add(did);
+        did = index[did].nextDid;
+      }
+    }
+
+    for (const did of owned) {
+      const existing = merged[did];
+      if (existing && existing.nextDid !== index[did].nextDid) {
+        disputed.add(did);
+      } else if (!existing || index[did].retiredAt < existing.retiredAt) {
+        merged[did] = index[did];
+      }
+    }
+  }
+
+  for (const did of disputed) {
+    delete merged[did];
+  }
+  return merged;
+}
+
+/**
+ * Follow the succession chain to the current DID
+ *
+ * @returns Current DID (the input if it was never retired)
+ */
+export function resolveCurrentDid(did: string, index: KeySuccessionIndex): string {
+  let current = did;
+  const visited = new Set<string>();
+  while (index[current] && !visited.has(current)) {
+    visited.add(current);
+    current = index[current].nextDid;
+  }
+  return current;
+}
+
+/**
+ * Get all retired DIDs that resolve to the given DID
+ */
+export function getFormerDids(did: string, index: KeySuccessionIndex): string[] {
+  const current = resolveCurrentDid(did, index);
+  return Object.keys(index).filter(
+    (formerDid) => formerDid !== current && resolveCurrentDid(formerDid, index) === current
+  );
+}
+
+/**
+ * Check whether a record signed by a DID at the given time may be trusted
+ * (the DID was not yet retired at that time)
+ *
+ * signedAt is taken from the record itself, so a holder of the retired key
+ * can pass this check by backdating.
+ */
+export function isSignedBeforeRetirement(
+  signerDid: string,
+  signedAt: number,
+  index: KeySuccessionIndex
+): boolean {
+  const retired = index[signerDid];
+  return !retired || signedAt < retired.retiredAt;
+}
+
+/**
+ * Verify a record signed by a DID, following the succession chain
+ *
+ * The signature is checked against the signer's own key. If the signer
+ * has been retired, the record must be older than the succession.
+ *
+ * @param entity - Signed record (with signature field)
+ * @param signerDid - DID whose key signed the record
+ * @param signedAt - Timestamp of the record (e.g. updatedAt or createdAt)
+ * @param index - Verified successions
+ */
+export async function verifyEntitySignatureForDid(
+  entity: Record<string, unknown> & { signature?: string },
+  signerDid: string,
+  signedAt: number,
+  index: KeySuccessionIndex = {}
+): Promise<boolean> {
+  if (!entity.signature || !isSignedBeforeRetirement(signerDid, signedAt, index)) {
+    return false;
+  }
+
+  try {
+    const publicKey = base64Encode(extractPublicKeyFromDid(signerDid));
+    const result = await verifyEntitySignature(entity, publicKey);
+    return result.valid;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import {
+  createRecoveryShares,
+  verifyRecoveryShare,
+  releaseRecoveryShare,
+  encodeRecoveryRelease,
+  decodeRecoveryRelease,
+  recoverIdentity,
+} from './recovery';
+import { deriveIdentityFromPrivateKey, generateDidIdentity, type DidIdentity } from './did';
+import type { RecoveryShare } from '../schema/identity';
+
+describe('Social recovery', () => {
+  let owner: DidIdentity;
+  let holders: DidIdentity[];
+  let temporary: DidIdentity;
+  let shares: RecoveryShare[];
+
+  beforeAll(async () => {
+    owner = await generateDidIdentity('Owner');
+    holders = await Promise.all(['Alice', 'Bob', 'Carol'].map((name) => generateDidIdentity(name)));
+    temporary = await generateDidIdentity('Temporary');
+
+    const result = await createRecoveryShares(
+      owner.did,
+      owner.privateKey,
+      holders.map((holder) => holder.did),
+      2,
+      'automerge:owner-doc'
+    );
+    shares = result.shares;
+  });
+
+  it('should derive the DID from a private key', async () => {
+    expect(await deriveIdentityFromPrivateKey(owner.privateKey)).toEqual({
+      did: owner.did,
+      publicKey: owner.publicKey,
+    });
+  });
+
+  it('should create one signed share per holder', async () => {
+    expect(shares.map((share) => share.holderDid)).toEqual(holders.map((holder) => holder.did));
+    expect(shares.every((share) => share.threshold === 2 && share.shareCount === 3)).toBe(true);
+    expect(await verifyRecoveryShare(shares[0])).toBe(true);
+    expect(await verifyRecoveryShare({ ...shares[0], threshold: 1 })).toBe(false);
+  });
+
+  it('should reject a threshold below the minimum or above the holder count', async () => {
+    const holderDids = holders.map((holder) => holder.did);
+
+    await expect(createRecoveryShares(owner.did, owner.privateKey, holderDids, 1)).rejects.toThrow();
+    await expect(createRecoveryShares(owner.did, owner.privateKey, holderDids, 4)).rejects.toThrow();
+    await expect(createRecoveryShares(owner.did, owner.privateKey, [owner.did, holderDids[0]], 2)).rejects.toThrow();
+  });
+
+  it('should recover the identity from k released shares', async () => {
+    const codes = await Promise.all(
+      [0, 2].map(async (i) =>
+        encodeRecoveryRelease(await releaseRecoveryShare(shares[i], holders[i].did, holders[i].privateKey, temporary.did))
+      )
+    );
+
+    const recovered = await recoverIdentity(codes.map(decodeRecoveryRelease), temporary.did, temporary.privateKey);
+
+    expect(recovered).toEqual({
+      did: owner.did,
+      publicKey: owner.publicKey,
+      privateKey: owner.privateKey,
+      userDocUrl: 'automerge:owner-doc',
+    });
+  });
+
+  it('should refuse recovery with fewer than k shares', async () => {
+    const release = await releaseRecoveryShare(shares[1], holders[1].did, holders[1].privateKey, temporary.did);
+
+    await expect(recoverIdentity([release, release], temporary.did, temporary.privateKey)).rejects.toThrow(
+      '2 valid recovery codes needed, 1 given'
+    );
+  });
+
+  it('should only let the holder release a share, and only to the temporary DID', async () => {
+    await expect(
+      releaseRecoveryShare(shares[0], holders[1].did, holders[1].privateKey, temporary.did)
+    ).rejects.toThrow();
+
+    const releases = await Promise.all(
+      [0, 1].map((i) => releaseRecoveryShare(shares[i], holders[i].did, holders[i].privateKey, temporary.did))
+    );
+    const other = await generateDidIdentity('Other');
+    await expect(recoverIdentity(releases, other.did, other.privateKey)).rejects.toThrow();
+  });
+
+  it('should reject damaged codes', () => {
+    expect(() => decodeRecoveryRelease('hello')).toThrow('Not a recovery code');
+    expect(() => decodeRecoveryRelease('wot-recovery:e30=')).toThrow('Recovery code is damaged');
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Social recovery of an identity via Shamir secret sharing
+ *
+ * Setup (owner):
+ * - The private key is split into n shares, any k of which restore it
+ * - Each share is encrypted to the DID of a trusted contact (holder),
+ *   signed by the owner and stored in the holder's UserDocument
+ *
+ * Recovery (owner on a new device, with a temporary identity):
+ * - The owner asks k holders in person for help and tells them the temporary DID
+ * - Each holder decrypts their share and re-encrypts it to the temporary DID
+ *   (a release code, signed by the holder)
+ * - The owner combines the releases; the restored key must derive the lost DID
+ *
+ * Fewer than k holders learn nothing about the key. The holders must verify
+ * that the person asking is really the owner - that is the security anchor.
+ */
+
+import type { RecoverySetup, RecoveryShare } from '../schema/identity';
+import { generateId } from '../schema/document';
+import { base64Decode, base64Encode, deriveIdentityFromPrivateKey, extractPublicKeyFromDid, isValidDid } from './did';
+import { openSealedForDid, sealForDid, type SealedBox } from './encryption';
+import { combineShares, splitSecret, type SecretShare } from './shamir';
+import { signEntity, verifyEntitySignature } from './signature';
+
+/**
+ * Minimum number of shares required for a recovery
+ * A threshold of 1 would let every single contact take over the identity.
+ */
+export const MIN_RECOVERY_THRESHOLD = 2;
+
+/**
+ * Prefix of release codes handed from holders to the owner
+ */
+const RELEASE_CODE_PREFIX = 'wot-recovery:';
+
+const SHARE_CONTEXT = 'narrative-recovery-share-v1';
+const RELEASE_CONTEXT = 'narrative-recovery-release-v1';
+
+/**
+ * Decrypted content of a share
+ */
+interface SharePayload {
+  /** Shamir evaluation point */
+  index: number;
+  /** Base64 share bytes */
+  share: string;
+  /** UserDocument URL of the owner, so it can be reopened after recovery */
+  userDocUrl?: string;
+}
+
+/**
+ * Share re-encrypted by a holder for the owner's temporary identity
+ * Not stored in any document - handed over as a release code.
+ */
+export interface RecoveryRelease {
+  id: string;
+  ownerDid: string;
+  holderDid: string;          // Signer
+  recipientDid: string;       // Temporary DID of the recovering owner
+  threshold: number;
+  ephemeralPublicKey: string;
+  iv: string;
+  ciphertext: string;
+  createdAt: number;
+  signature?: string;
+}
+
+/**
+ * Identity restored from recovery releases
+ */
+export interface RecoveredIdentity {
+  did: string;
+  publicKey: string;
+  privateKey: string;
+  userDocUrl?: string;
+}
+
+async function verifySignedBy(record: { signature?: string }, signerDid: string): Promise<boolean> {
+  if (!record.signature || !isValidDid(signerDid)) return false;
+
+  try {
+    const publicKey = base64Encode(extractPublicKeyFromDid(signerDid));
+    const result = await verifyEntitySignature(record as unknown as Record<string, unknown>, publicKey);
+    return result.valid;
+  } catch {
+    return false;
+  }
+}
+
+function encodePayload(payload: SharePayload): Uint8Array {
+  return new TextEncoder().encode(JSON.stringify(payload));
+}
+
+function decodePayload(bytes: Uint8Array): SharePayload {
+  const payload = JSON.parse(new TextDecoder().decode(bytes)) as SharePayload;
+  if (!Number.isInteger(payload.index) || typeof payload.share !== 'string') {
+    throw new Error('Invalid recovery share payload');
+  }
+  return payload;
+}
+
+function sealedBoxOf(record: SealedBox): SealedBox {
+  return { ephemeralPublicKey: record.ephemeralPublicKey, iv: record.iv, ciphertext: record.ciphertext };
+}
+
+/**
+ * Split the own private key into encrypted shares for trusted contacts
+ *
+ * @param ownerDid - DID of the owner
+ * @param ownerPrivateKey - Base64 PKCS#8 private key of the owner
+ * @param holderDids - Trusted contacts that will hold one share each (n)
+ * @param threshold - Shares needed for recovery (k)
+ * @param userDocUrl - Owner's UserDocument URL (restored together with the key)
+ * @returns Setup for the own UserDocument and one signed share per holder
+ */
+export async function createRecoveryShares(
+  ownerDid: string,
+  ownerPrivateKey: string,
+  holderDids: string[],
+  threshold: number,
+  userDocUrl?: string
+): Promise<{ setup: RecoverySetup; shares: RecoveryShare[] }> {
+  const holders = Array.from(new Set(holderDids));
+  if (holders.some((did) => did === ownerDid || !isValidDid(did))) {
+    throw new Error('Recovery shares can only be given to other valid did:key identities');
+  }
+  if (threshold < MIN_RECOVERY_THRESHOLD || holders.length < threshold) {
+    throw new Error(`Recovery needs at least ${MIN_RECOVERY_THRESHOLD} of at least as many contacts`);
+  }
+
+  const { did } = await deriveIdentityFromPrivateKey(ownerPrivateKey);
+  if (did !== ownerDid) {
+    throw new Error('Private key does not belong to the owner DID');
+  }
+
+  const secretShares = splitSecret(base64Decode(ownerPrivateKey), holders.length, threshold);
+  const createdAt = Date.now();
+
+  const shares: RecoveryShare[] = [];
+  for (let i = 0; i < holders.length; i++) {
+    const payload: SharePayload = {
+      index: secretShares[i].index,
+      share: base64Encode(secretShares[i].data),
+      ...(userDocUrl ? { userDocUrl } : {}),
+    };
+    const sealed = await sealForDid(encodePayload(payload), holders[i], SHARE_CONTEXT, ownerDid);
+
+    const share: Omit<RecoveryShare, 'signature'> = {
+      id: generateId('share'),
+      ownerDid,
+      holderDid: holders[i],
+      threshold,
+      shareCount: holders.length,
+      ...sealed,
+      createdAt,
+    };
+    const signature = await signEntity(share as unknown as Record<string, unknown>, ownerPrivateKey);
+    shares.push({ ...share, signature });
+    secretShares[i].data.fill(0);
+  }
+
+  return {
+    setup: { id: generateId('recovery'), threshold, holderDids: holders, createdAt },
+    shares,
+  };
+}
+
+/**
+ * Verify that a share was signed by its owner
+ */
+export async function verifyRecoveryShare(share: RecoveryShare): Promise<boolean> {
+  return verifySignedBy(share, share.ownerDid);
+}
+
+/**
+ * Verify that a release was signed by its holder
+ */
+export async function verifyRecoveryRelease(release: RecoveryRelease): Promise<boolean> {
+  return verifySignedBy(release, release.holderDid);
+}
+
+/**
+ * Release a held share to the owner's temporary identity
+ *
+ * @param share - Share from the holder's UserDocument
+ * @param holderDid - DID of the holder (must match the share)
+ * @param holderPrivateKey - Private key of the holder
+ * @param recipientDid - Temporary DID the owner uses for the recovery
+ * @returns Release signed by the holder
+ */
+export async function releaseRecoveryShare(
+  share: RecoveryShare,
+  holderDid: string,
+  holderPrivateKey: string,
+  recipientDid: string
+): Promise<RecoveryRelease> {
+  if (share.holderDid !== holderDid || !(await verifyRecoveryShare(share))) {
+    throw new Error('Recovery share is not valid for this identity');
+  }
+  if (!isValidDid(recipientDid) || recipientDid === share.ownerDid) {
+    throw new Error('Invalid recipient DID');
+  }
+
+  const plaintext = await openSealedForDid(
+    sealedBoxOf(share),
+    holderDid,
+    holderPrivateKey,
+    SHARE_CONTEXT,
+    share.ownerDid
+  );
+  const sealed = await sealForDid(plaintext, recipientDid, RELEASE_CONTEXT, share.ownerDid);
+  plaintext.fill(0);
+
+  const release: Omit<RecoveryRelease, 'signature'> = {
+    id: generateId('release'),
+    ownerDid: share.ownerDid,
+    holderDid,
+    recipientDid,
+    threshold: share.threshold,
+    ...sealed,
+    createdAt: Date.now(),
+  };
+  const signature = await signEntity(release as unknown as Record<string, unknown>, holderPrivateKey);
+  return { ...release, signature };
+}
+
+/**
+ * Encode a release as a copyable text code
+ */
+export function encodeRecoveryRelease(release: RecoveryRelease): string {
+  return RELEASE_CODE_PREFIX + base64Encode(new TextEncoder().encode(JSON.stringify(release)));
+}
+
+/**
+ * Decode a release code
+ *
+ * @throws Error if the code is malformed
+ */
+export function decodeRecoveryRelease(code: string): RecoveryRelease {
+  const trimmed = code.trim();
+  if (!trimmed.startsWith(RELEASE_CODE_PREFIX)) {
+    throw new Error('Not a recovery code');
+  }
+
+  try {
+    const release = JSON.parse(
+      new TextDecoder().decode(base64Decode(trimmed.slice(RELEASE_CODE_PREFIX.length)))
+    ) as RecoveryRelease;
+    if (!release.ownerDid || !release.holderDid || !release.recipientDid || !release.ciphertext) {
+      throw new Error('missing fields');
+    }
+    return release;
+  } catch {
+    throw new Error('Recovery code is damaged');
+  }
+}
+
+function* combinations<T>(items: T[], size: number, start = 0, current: T[] = []): Generator<T[]> {
+  if (current.length === size) {
+    yield current;
+    return;
+  }
+  for (let i = start; i < items.length; i++) {
+    yield* combinations(items, size, i + 1, [...current, items[i]]);
+  }
+}
+
+/**
+ * Restore the identity from released shares
+ *
+ * Releases must be addressed to the temporary identity and signed by their
+ * holders. The restored key is only accepted if it derives the owner's DID,
+ * so a wrong or manipulated share cannot produce a foreign identity.
+ *
+ * @param releases - Releases collected from holders
+ * @param recipientDid - Temporary DID of this device
+ * @param recipientPrivateKey - Private key of the temporary identity
+ * @throws Error if too few valid releases were given or the key doesn't match
+ */
+export async function recoverIdentity(
+  releases: RecoveryRelease[],
+  recipientDid: string,
+  recipientPrivateKey: string
+): Promise<RecoveredIdentity> {
+  if (releases.length === 0) {
+    throw new Error('No recovery codes given');
+  }
+
+  const ownerDid = releases[0].ownerDid;
+  if (releases.some((release) => release.ownerDid !== ownerDid)) {
+    throw new Error('Recovery codes belong to different identities');
+  }
+
+  const shares: SecretShare[] = [];
+  let userDocUrl: string | undefined;
+  let threshold = MIN_RECOVERY_THRESHOLD;
+  for (const release of releases) {
+    if (release.recipientDid !== recipientDid || !(await verifyRecoveryRelease(release))) {
+      continue;
+    }
+
+    try {
+      const payload = decodePayload(
+        await openSealedForDid(
+          sealedBoxOf(release),
+          recipientDid,
+          recipientPrivateKey,
+          RELEASE_CONTEXT,
+          ownerDid
+        )
+      );
+      if (shares.some((share) => share.index === payload.index)) continue;
+
+      shares.push({ index: payload.index, data: base64Decode(payload.share) });
+      userDocUrl = userDocUrl ?? payload.userDocUrl;
+      threshold = Math.max(threshold, release.threshold);
+    } catch {
+      // Not decryptable for this device - skip
+    }
+  }
+
+  if (shares.length < threshold) {
+    throw new Error(`${threshold} valid recovery codes needed, ${shares.length} given`);
+  }
+
+  // Try subsets of the threshold size, so a single bad share doesn't block the recovery
+  for (const subset of combinations(shares, threshold)) {
+    const privateKey = base64Encode(combineShares(subset));
+    try {
+      const derived = await deriveIdentityFromPrivateKey(privateKey);
+      if (derived.did === ownerDid) {
+        return { did: ownerDid, publicKey: derived.publicKey, privateKey, ...(userDocUrl ? { userDocUrl } : {}) };
+      }
+    } catch {
+      // Not a valid key - try the next subset
+    }
+  }
+
+  throw new Error('Recovered key does not match the identity');
+}
@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { splitSecret, combineShares } from './shamir';
+
+describe('Shamir secret sharing', () => {
+  const secret = new Uint8Array(Array.from({ length: 48 }, (_, i) => (i * 37 + 11) % 256));
+
+  it('should reconstruct the secret from any k shares', () => {
+    const shares = splitSecret(secret, 5, 3);
+
+    expect(combineShares([shares[0], shares[1], shares[2]])).toEqual(secret);
+    expect(combineShares([shares[4], shares[1], shares[3]])).toEqual(secret);
+    // More than k shares also work
+    expect(combineShares(shares)).toEqual(secret);
+  });
+
+  it('should not reconstruct the secret from fewer than k shares', () => {
+    const shares = splitSecret(secret, 5, 3);
+
+    expect(combineShares([shares[0], shares[1]])).not.toEqual(secret);
+  });
+
+  it('should reject invalid parameters and duplicate shares', () => {
+    expect(() => splitSecret(secret, 2, 3)).toThrow();
+    expect(() => splitSecret(secret, 256, 3)).toThrow();
+    expect(() => splitSecret(new Uint8Array(), 3, 2)).toThrow();
+
+    const shares = splitSecret(secret, 3, 2);
+    expect(() => combineShares([shares[0], shares[0]])).toThrow('Duplicate share index');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Shamir secret sharing over GF(256)
+ *
+ * Splits a secret into n shares so that any k of them reconstruct it,
+ * while k-1 shares reveal nothing about the secret. Every byte of the
+ * secret is the constant term of its own random polynomial of degree k-1;
+ * a share is the evaluation of all polynomials at the share's index.
+ *
+ * Field: GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1 (0x11b).
+ */
+
+/**
+ * Maximum number of shares (indices 1..255, 0 would be the secret itself)
+ */
+export const MAX_SHARES = 255;
+
+/**
+ * One share of a split secret
+ */
+export interface SecretShare {
+  /** Evaluation point (1..255) */
+  index: number;
+  /** Share bytes (same length as the secret) */
+  data: Uint8Array;
+}
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+// Log/antilog tables with generator 3
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    // x * 3 = x * 2 XOR x
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < EXP.length; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+function mul(a: number, b: number): number {
+  if (a === 0 || b === 0) return 0;
+  return EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+  if (b === 0) throw new Error('Division by zero in GF(256)');
+  if (a === 0) return 0;
+  return EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Split a secret into shares
+ *
+ * @param secret - Secret bytes
+ * @param shareCount - Number of shares to create (n)
+ * @param threshold - Number of shares needed to reconstruct (k)
+ * @returns n shares with indices 1..n
+ */
+export function splitSecret(secret: Uint8Array, shareCount: number, threshold: number): SecretShare[] {
+  if (!Number.isInteger(threshold) || threshold < 1) {
+    throw new Error('Threshold must be a positive integer');
+  }
+  if (!Number.isInteger(shareCount) || shareCount < threshold || shareCount > MAX_SHARES) {
+    throw new Error(`Share count must be between threshold and ${MAX_SHARES}`);
+  }
+  if (secret.length === 0) {
+    throw new Error('Secret must not be empty');
+  }
+
+  const shares: SecretShare[] = Array.from({ length: shareCount }, (_, i) => ({
+    index: i + 1,
+    data: new Uint8Array(secret.length),
+  }));
+
+  const coefficients = new Uint8Array(threshold);
+  for (let byte = 0; byte < secret.length; byte++) {
+    coefficients[0] = secret[byte];
+    crypto.getRandomValues(coefficients.subarray(1));
+
+    for (const share of shares) {
+      // Horner's method, highest coefficient first
+      let value = 0;
+      for (let c = threshold - 1; c >= 0; c--) {
+        value = mul(value, share.index) ^ coefficients[c];
+      }
+      share.data[byte] = value;
+    }
+  }
+  coefficients.fill(0);
+
+  return shares;
+}
+
+/**
+ * Reconstruct a secret from shares (Lagrange interpolation at x = 0)
+ *
+ * At least `threshold` distinct shares must be passed. With fewer shares
+ * the result is a wrong secret - callers must verify it (e.g. against a DID).
+ *
+ * @throws Error if shares are empty, duplicated or of different length
+ */
+export function combineShares(shares: SecretShare[]): Uint8Array {
+  if (shares.length === 0) {
+    throw new Error('No shares to combine');
+  }
+
+  const length = shares[0].data.length;
+  const indices = new Set<number>();
+  for (const share of shares) {
+    if (share.data.length !== length) {
+      throw new Error('Shares have different lengths');
+    }
+    if (!Number.isInteger(share.index) || share.index < 1 || share.index > MAX_SHARES) {
+      throw new Error(`Invalid share index: ${share.index}`);
+    }
+    if (indices.has(share.index)) {
+      throw new Error(`Duplicate share index: ${share.index}`);
+    }
+    indices.add(share.index);
+  }
+
+  // Lagrange basis polynomials evaluated at 0
+  const basis = shares.map((share, i) => {
+    let numerator = 1;
+    let denominator = 1;
+    shares.forEach((other, j) => {
+      if (i === j) return;
+      numerator = mul(numerator, other.index);
+      denominator = mul(denominator, share.index ^ other.index);
+    });
+    return div(numerator, denominator);
+  });
+
+  const secret = new Uint8Array(length);
+  for (let byte = 0; byte < length; byte++) {
+    let value = 0;
+    shares.forEach((share, i) => {
+      value ^= mul(share.data[byte], basis[i]);
+    });
+    secret[byte] = value;
+  }
+  return secret;
+}
@@ -271,6 +271,49 @@ describe('verifyEntitySignature', () => {
     // Should still be valid since display names are excluded from signature
     expect(result.valid).toBe(true);
   });
+
+  it('should ignore index fields passed via ignoreFields', async () => {
+    const identity = await generateDidIdentity('Test User');
+    const entity = {
+      id: 'test-123',
+      sentence: 'Original',
+      voteIds: [] as string[],
+    };
+
+    const signature = await signEntity(entity, identity.privateKey);
+    const entityWithVotes = {
+      ...entity,
+      voteIds: ['vote-1', 'vote-2'], // Appended by other users after signing
+      signature,
+    };
+
+    const strict = await verifyEntitySignature(entityWithVotes, identity.publicKey);
+    expect(strict.valid).toBe(false);
+
+    const lenient = await verifyEntitySignature(entityWithVotes, identity.publicKey, {
+      ignoreFields: ['voteIds'],
+    });
+    expect(lenient.valid).toBe(true);
+  });
+
+  it('should still reject tampered fields when ignoring index fields', async () => {
+    const identity = await generateDidIdentity('Test User');
+    const entity = {
+      id: 'test-123',
+      sentence: 'Original',
+      voteIds: [] as string[],
+    };
+
+    const signature = await signEntity(entity, identity.privateKey);
+    const tampered = { ...entity, sentence: 'Tampered', signature };
+
+    const result = await verifyEntitySignature(tampered, identity.publicKey, {
+      ignoreFields: ['voteIds'],
+    });
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toBe('Payload mismatch');
+  });
 });
 
 describe('TrustAttestation signature flow', () => {
@@ -18,6 +18,20 @@ interface JwsHeader {
   typ: 'JWT';
 }
 
+/**
+ * Private key used for signing: the Base64-encoded PKCS#8 key itself, or a
+ * function providing it on demand (e.g. a PIN-locked identity, see identityLock)
+ */
+export type PrivateKeySource = string | (() => Promise<string>);
+
+/**
+ * Resolve a PrivateKeySource to the Base64-encoded private key
+ * A provider may prompt the user and rejects if the prompt is cancelled.
+ */
+export async function resolvePrivateKey(source: PrivateKeySource): Promise<string> {
+  return typeof source === 'function' ? source() : source;
+}
+
 /**
  * Convert Uint8Array to base64url encoding (RFC 7515)
  */
@@ -103,12 +117,12 @@ async function importPublicKey(publicKeyRaw: Uint8Array): Promise<CryptoKey> {
  * Sign data and return JWS compact serialization
  *
  * @param payload - The data to sign (will be JSON stringified)
- * @param privateKeyBase64 - Base64-encoded PKCS#8 private key
+ * @param privateKeyBase64 - Base64-encoded PKCS#8 private key (or a provider for it)
  * @returns JWS compact serialization string (header.payload.signature)
  */
 export async function signJws(
   payload: unknown,
-  privateKeyBase64: string
+  privateKeyBase64: PrivateKeySource
 ): Promise<string> {
   // 1. Create JWS header
   const header: JwsHeader = {
@@ -129,7 +143,7 @@ export async function signJws(
   const signingInputBytes = new TextEncoder().encode(signingInput);
 
   // 4. Import private key
-  const privateKeyPkcs8 = base64Decode(privateKeyBase64);
+  const privateKeyPkcs8 = base64Decode(await resolvePrivateKey(privateKeyBase64));
   const privateKey = await importPrivateKey(privateKeyPkcs8);
 
   // 5. Sign with Ed25519
@@ -235,12 +249,12 @@ export function extractJwsPayload(jws: string): unknown | null {
  * should remain valid since the DID (voterDid, createdBy, editorDid) is immutable.
  *
  * @param entity - The entity to sign (must have id, createdAt, and other relevant fields)
- * @param privateKeyBase64 - Base64-encoded private key
+ * @param privateKeyBase64 - Base64-encoded private key (or a provider for it)
  * @returns JWS signature string
  */
 export async function signEntity(
   entity: Record<string, unknown>,
-  privateKeyBase64: string
+  privateKeyBase64: PrivateKeySource
 ): Promise<string> {
   // Create canonical payload (exclude metadata and mutable display fields)
   const { signature, publicKey, voterName, creatorName, editorName, ...payload } = entity;
@@ -270,6 +284,32 @@ function canonicalStringify(obj: unknown): string {
   return '{' + pairs.join(',') + '}';
 }
 
+/**
+ * Options for entity signature verification
+ */
+export interface VerifyEntityOptions {
+  /**
+   * Fields ignored on both sides of the payload comparison.
+   * Use for index fields that other users append to after signing
+   * (e.g. Assumption.voteIds), which each carry their own signatures.
+   */
+  ignoreFields?: string[];
+}
+
+/**
+ * Remove the given fields from a (decoded) payload object
+ */
+function omitFields(obj: unknown, fields: string[]): unknown {
+  if (!fields.length || obj === null || typeof obj !== 'object' || Array.isArray(obj)) {
+    return obj;
+  }
+  const result: Record<string, unknown> = { ...(obj as Record<string, unknown>) };
+  for (const field of fields) {
+    delete result[field];
+  }
+  return result;
+}
+
 /**
  * Verify an entity signature
  *
@@ -277,11 +317,13 @@ function canonicalStringify(obj: unknown): string {
  *
  * @param entity - The entity with signature field
  * @param publicKeyBase64 - Base64-encoded public key for verification
+ * @param options - Optional verification options (e.g. ignored index fields)
  * @returns Verification result
  */
 export async function verifyEntitySignature(
   entity: Record<string, unknown>,
-  publicKeyBase64: string
+  publicKeyBase64: string,
+  options: VerifyEntityOptions = {}
 ): Promise<{ valid: boolean; error?: string }> {
   if (!entity.signature || typeof entity.signature !== 'string') {
     return { valid: false, error: 'No signature found' };
@@ -297,8 +339,9 @@ export async function verifyEntitySignature(
   }
 
   // Verify payload matches entity data (use canonical stringification)
-  const payloadStr = canonicalStringify(payload);
-  const decodedPayloadStr = canonicalStringify(result.payload);
+  const ignoreFields = options.ignoreFields ?? [];
+  const payloadStr = canonicalStringify(omitFields(payload, ignoreFields));
+  const decodedPayloadStr = canonicalStringify(omitFields(result.payload, ignoreFields));
 
   if (payloadStr !== decodedPayloadStr) {
     return { valid: false, error: 'Payload mismatch' };
@@ -320,12 +363,12 @@ interface ProfilePayload {
  * Sign a user profile
  *
  * @param profile - Profile data to sign (displayName, avatarUrl, updatedAt)
- * @param privateKeyBase64 - Base64-encoded PKCS#8 private key
+ * @param privateKeyBase64 - Base64-encoded PKCS#8 private key (or a provider for it)
  * @returns JWS signature string
  */
 export async function signProfile(
   profile: ProfilePayload,
-  privateKeyBase64: string
+  privateKeyBase64: PrivateKeySource
 ): Promise<string> {
   // Create canonical payload - only include defined fields
   const payload: ProfilePayload = {
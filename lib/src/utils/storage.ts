@@ -6,6 +6,10 @@
  */
 
 import type { UserIdentity } from '../schema/identity';
+import { encryptIdentityBackup, parseIdentityFile } from './identityBackup';
+import { requestPrivateKey, type LockedPrivateKey } from './identityLock';
+import type { AclVersions } from './acl';
+import { downloadFile } from './fileExport';
 
 /**
  * Shared localStorage key for identity across all Narrative apps
@@ -19,6 +23,7 @@ const SHARED_IDENTITY_KEY = 'narrative_shared_identity';
  */
 export interface StoredIdentity extends UserIdentity {
   privateKey?: string;  // Base64-encoded Ed25519 private key (stored locally only)
+  lockedPrivateKey?: LockedPrivateKey;  // PIN-encrypted private key, replaces privateKey (see identityLock)
   userDocUrl?: string;  // UserDocument Automerge URL (only used during export/import)
 }
 
@@ -117,46 +122,180 @@ export function clearDocumentId(appPrefix: string): void {
 }
 
 /**
- * Export identity to a downloadable JSON file
+ * localStorage key for ACL owners seen per workspace (trust on first use)
+ */
+const ACL_OWNERS_KEY = 'narrative_acl_owners';
+
+function loadAclOwners(): Record<string, string> {
+  try {
+    const json = localStorage.getItem(ACL_OWNERS_KEY);
+    return json ? (JSON.parse(json) as Record<string, string>) : {};
+  } catch (error) {
+    console.error('Failed to load ACL owners from localStorage:', error);
+    return {};
+  }
+}
+
+/**
+ * Get the ACL owner pinned for a workspace
+ *
+ * @param workspaceId - Workspace document ID
+ * @returns Owner DID seen first for this workspace, null if none
+ */
+export function loadPinnedAclOwner(workspaceId: string): string | null {
+  return loadAclOwners()[workspaceId] ?? null;
+}
+
+/**
+ * Pin the ACL owner of a workspace
+ * Later documents claiming a different owner are ignored.
+ *
+ * @param workspaceId - Workspace document ID
+ * @param ownerDid - Owner DID to pin
+ */
+export function savePinnedAclOwner(workspaceId: string, ownerDid: string): void {
+  try {
+    const owners = loadAclOwners();
+    owners[workspaceId] = ownerDid;
+    localStorage.setItem(ACL_OWNERS_KEY, JSON.stringify(owners));
+  } catch (error) {
+    console.error('Failed to save ACL owner to localStorage:', error);
+  }
+}
+
+/**
+ * localStorage key for the highest ACL versions seen per workspace
+ */
+const ACL_VERSIONS_KEY = 'narrative_acl_versions';
+
+function loadAllAclVersions(): Record<string, AclVersions> {
+  try {
+    const json = localStorage.getItem(ACL_VERSIONS_KEY);
+    return json ? (JSON.parse(json) as Record<string, AclVersions>) : {};
+  } catch (error) {
+    console.error('Failed to load ACL versions from localStorage:', error);
+    return {};
+  }
+}
+
+/**
+ * Get the highest ACL versions seen for a workspace
+ *
+ * @param workspaceId - Workspace document ID
+ * @returns Versions seen so far, null if none
+ */
+export function loadAclVersions(workspaceId: string): AclVersions | null {
+  return loadAllAclVersions()[workspaceId] ?? null;
+}
+
+/**
+ * Remember the highest ACL versions seen for a workspace
+ * Grants and settings older than these are rejected as replays.
+ *
+ * @param workspaceId - Workspace document ID
+ * @param versions - Versions to remember
+ */
+export function saveAclVersions(workspaceId: string, versions: AclVersions): void {
+  try {
+    const all = loadAllAclVersions();
+    all[workspaceId] = versions;
+    localStorage.setItem(ACL_VERSIONS_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.error('Failed to save ACL versions to localStorage:', error);
+  }
+}
+
+/**
+ * localStorage key for the highest key rotation version seen per workspace
+ */
+const KEY_ROTATION_VERSIONS_KEY = 'narrative_key_rotation_versions';
+
+function loadKeyRotationVersions(): Record<string, number> {
+  try {
+    const json = localStorage.getItem(KEY_ROTATION_VERSIONS_KEY);
+    return json ? (JSON.parse(json) as Record<string, number>) : {};
+  } catch (error) {
+    console.error('Failed to load key rotation versions from localStorage:', error);
+    return {};
+  }
+}
+
+/**
+ * Get the highest key rotation version seen for an encrypted workspace
+ *
+ * @param workspaceId - Workspace document ID
+ * @returns Version seen so far, 0 if none
+ */
+export function loadKeyRotationVersion(workspaceId: string): number {
+  return loadKeyRotationVersions()[workspaceId] ?? 0;
+}
+
+/**
+ * Remember the highest key rotation version seen for an encrypted workspace
+ * Older key generations are rejected as replays.
+ *
+ * @param workspaceId - Workspace document ID
+ * @param version - Version to remember (ignored if lower than the stored one)
+ */
+export function saveKeyRotationVersion(workspaceId: string, version: number): void {
+  try {
+    const all = loadKeyRotationVersions();
+    if ((all[workspaceId] ?? 0) >= version) return;
+    all[workspaceId] = version;
+    localStorage.setItem(KEY_ROTATION_VERSIONS_KEY, JSON.stringify(all));
+  } catch (error) {
+    console.error('Failed to save key rotation version to localStorage:', error);
+  }
+}
+
+/**
+ * Export identity to a downloadable, passphrase-encrypted JSON file
  * Includes UserDocument URL so it can be restored on import
+ * A PIN-locked identity is unlocked first; the file contains the plain key.
  *
+ * @param passphrase - Passphrase to encrypt the file with (see identityBackup)
  * @param filename - Optional custom filename (defaults to 'narrative-identity-{timestamp}.json')
  */
-export function exportIdentityToFile(filename?: string): void {
+export async function exportIdentityToFile(passphrase: string, filename?: string): Promise<void> {
   const identity = loadSharedIdentity();
   if (!identity) {
     console.warn('No identity to export');
     return;
   }
 
+  // The PIN lock is local to this device, the file is protected by the passphrase
+  const { lockedPrivateKey, ...identityWithoutLock } = identity;
+  const privateKey = lockedPrivateKey ? await requestPrivateKey() : identity.privateKey;
+
   // Include UserDocument URL so it can be restored on import
   const userDocUrl = localStorage.getItem('narrative_user_doc_id');
   const exportData: StoredIdentity = {
-    ...identity,
+    ...identityWithoutLock,
+    ...(privateKey ? { privateKey } : {}),
     ...(userDocUrl ? { userDocUrl } : {}),
   };
+  const backup = await encryptIdentityBackup(exportData, passphrase);
 
-  const blob = new Blob([JSON.stringify(exportData)], { type: 'application/json' });
-  const url = URL.createObjectURL(blob);
-  const a = document.createElement('a');
-  a.href = url;
-  a.download = filename || `wot-identity-${Date.now()}.json`;
-  document.body.appendChild(a);
-  a.click();
-  document.body.removeChild(a);
-  URL.revokeObjectURL(url);
+  downloadFile(
+    JSON.stringify(backup),
+    filename || `narrative-identity-${Date.now()}.json`,
+    'application/json'
+  );
 }
 
 /**
  * Import identity from a file picker dialog
+ * Accepts encrypted files and the old plaintext format.
  * Restores UserDocument URL if present in the export file
  *
  * @param onSuccess - Callback on successful import with the imported identity (without userDocUrl)
  * @param onError - Optional callback on error
+ * @param requestPassphrase - Asks for the passphrase of an encrypted file (null cancels the import)
  */
 export function importIdentityFromFile(
   onSuccess?: (identity: StoredIdentity) => void,
-  onError?: (error: string) => void
+  onError?: (error: string) => void,
+  requestPassphrase?: (did: string) => Promise<string | null>
 ): void {
   const input = document.createElement('input');
   input.type = 'file';
@@ -166,14 +305,11 @@ export function importIdentityFromFile(
     if (!file) return;
 
     const reader = new FileReader();
-    reader.onload = (event) => {
+    reader.onload = async (event) => {
       try {
         const content = event.target?.result as string;
-        const importedData = JSON.parse(content) as StoredIdentity;
-
-        if (!importedData.did) {
-          throw new Error('Invalid identity file: missing DID');
-        }
+        const importedData = await parseIdentityFile(content, requestPassphrase);
+        if (!importedData) return; // Passphrase prompt cancelled
 
         // Restore UserDocument URL if present (so existing UserDocument is loaded)
         if (importedData.userDocUrl) {
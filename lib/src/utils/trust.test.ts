@@ -0,0 +1,261 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeTrustLevel,
+  computeTrustLevels,
+  getAttestationWeight,
+  isAttestationExpired,
+  isAttestationExpiringSoon,
+  verifyTrustGiven,
+  verifyDistrustGiven,
+  TRUST_EXPIRY_WARNING_MS,
+  type DistrustNetwork,
+  type TrustNetwork,
+} from './trust';
+import { generateDidIdentity } from './did';
+import { signEntity } from './signature';
+import type { DistrustAttestation, TrustAttestation } from '../schema/identity';
+
+function attestation(
+  trusterDid: string,
+  trusteeDid: string,
+  extra: Partial<TrustAttestation> = {}
+): TrustAttestation {
+  return {
+    id: `${trusterDid}-${trusteeDid}`,
+    trusterDid,
+    trusteeDid,
+    level: 'verified',
+    createdAt: 1,
+    updatedAt: 1,
+    ...extra,
+  };
+}
+
+function block(blockerDid: string, blockedDid: string): DistrustAttestation {
+  return { id: `${blockerDid}-${blockedDid}`, blockerDid, blockedDid, createdAt: 1 };
+}
+
+function distrustOf(...blocks: DistrustAttestation[]): DistrustNetwork {
+  const distrust: DistrustNetwork = {};
+  for (const entry of blocks) {
+    distrust[entry.blockerDid] = { ...distrust[entry.blockerDid], [entry.blockedDid]: entry };
+  }
+  return distrust;
+}
+
+function graphOf(...edges: TrustAttestation[]): TrustNetwork {
+  const graph: TrustNetwork = {};
+  for (const edge of edges) {
+    graph[edge.trusterDid] = { ...graph[edge.trusterDid], [edge.trusteeDid]: edge };
+  }
+  return graph;
+}
+
+describe('computeTrustLevel', () => {
+  it('should map degrees to trust levels', () => {
+    const graph = graphOf(
+      attestation('me', 'alice'),
+      attestation('alice', 'bob'),
+      attestation('bob', 'carol'),
+      attestation('carol', 'dave')
+    );
+
+    expect(computeTrustLevel(graph, 'me', 'me')).toMatchObject({ level: 'verified', degree: 0 });
+    expect(computeTrustLevel(graph, 'me', 'alice')).toMatchObject({ level: 'verified', degree: 1 });
+    expect(computeTrustLevel(graph, 'me', 'bob')).toMatchObject({ level: 'trusted', degree: 2 });
+    expect(computeTrustLevel(graph, 'me', 'carol')).toMatchObject({
+      level: 'endorsed',
+      degree: 3,
+      path: ['me', 'alice', 'bob', 'carol'],
+    });
+    // Beyond the 3rd degree there is no trust
+    expect(computeTrustLevel(graph, 'me', 'dave').level).toBe('unknown');
+  });
+
+  it('should prefer the shortest path', () => {
+    const graph = graphOf(
+      attestation('me', 'alice', { verificationMethod: 'in-person' }),
+      attestation('alice', 'bob', { verificationMethod: 'in-person' }),
+      attestation('me', 'bob', { verificationMethod: 'email' })
+    );
+
+    const result = computeTrustLevel(graph, 'me', 'bob');
+
+    expect(result.level).toBe('verified');
+    expect(result.path).toEqual(['me', 'bob']);
+  });
+
+  it('should prefer stronger verification methods among equally short paths', () => {
+    const graph = graphOf(
+      attestation('me', 'alice', { verificationMethod: 'email' }),
+      attestation('me', 'bert', { verificationMethod: 'in-person' }),
+      attestation('alice', 'carol', { verificationMethod: 'in-person' }),
+      attestation('bert', 'carol', { verificationMethod: 'video-call' })
+    );
+
+    const result = computeTrustLevel(graph, 'me', 'carol');
+
+    expect(result.path).toEqual(['me', 'bert', 'carol']);
+    expect(result.weight).toBeCloseTo(0.8);
+  });
+
+  it('should never traverse or rate blocked DIDs as trusted', () => {
+    const graph = graphOf(attestation('me', 'alice'), attestation('alice', 'bob'));
+    const blockedDids = new Set(['alice']);
+
+    expect(computeTrustLevel(graph, 'me', 'alice', { blockedDids }).level).toBe('blocked');
+    expect(computeTrustLevel(graph, 'me', 'bob', { blockedDids }).level).toBe('unknown');
+  });
+
+  it('should ignore expired attestations', () => {
+    const graph = graphOf(
+      attestation('me', 'alice', { expiresAt: 100 }),
+      attestation('me', 'bob', { expiresAt: 300 }),
+      attestation('bob', 'alice')
+    );
+
+    expect(computeTrustLevel(graph, 'me', 'alice', { now: 200 })).toMatchObject({
+      level: 'trusted',
+      path: ['me', 'bob', 'alice'],
+    });
+    expect(computeTrustLevel(graph, 'me', 'bob', { now: 300 }).level).toBe('unknown');
+  });
+
+  it('should ignore edges stored under the wrong truster', () => {
+    const graph: TrustNetwork = { me: { bob: attestation('alice', 'bob') } };
+
+    expect(computeTrustLevel(graph, 'me', 'bob').level).toBe('unknown');
+  });
+
+  it('should compute all reachable DIDs at once', () => {
+    const graph = graphOf(attestation('me', 'alice'), attestation('alice', 'bob'));
+
+    const results = computeTrustLevels(graph, 'me');
+
+    expect(Array.from(results.keys()).sort()).toEqual(['alice', 'bob', 'me']);
+  });
+});
+
+describe('computeTrustLevels with network blocks', () => {
+  const graph = graphOf(
+    attestation('me', 'alice'),
+    attestation('alice', 'bob'),
+    attestation('bob', 'carol'),
+    attestation('me', 'dora'),
+    attestation('dora', 'carol')
+  );
+
+  it('should remove transitive trust of DIDs blocked by the network', () => {
+    const results = computeTrustLevels(graph, 'me', { distrust: distrustOf(block('alice', 'bob')) });
+
+    expect(results.get('bob')).toMatchObject({ level: 'unknown', distrustedBy: ['alice'] });
+    // carol is still reachable through dora
+    expect(results.get('carol')).toMatchObject({ level: 'trusted', path: ['me', 'dora', 'carol'] });
+  });
+
+  it('should keep own direct attestations but report the blockers', () => {
+    const results = computeTrustLevels(graph, 'me', { distrust: distrustOf(block('alice', 'dora')) });
+
+    expect(results.get('dora')).toMatchObject({ level: 'verified', distrustedBy: ['alice'] });
+  });
+
+  it('should ignore blocks from outside the network or beyond MAX_DISTRUST_DEGREE', () => {
+    const chain = graphOf(
+      attestation('me', 'alice'),
+      attestation('alice', 'bob'),
+      attestation('bob', 'carol')
+    );
+    const results = computeTrustLevels(chain, 'me', {
+      // carol is 3rd degree
+      distrust: distrustOf(block('stranger', 'alice'), block('carol', 'bob')),
+    });
+
+    expect(results.get('alice')).toMatchObject({ level: 'verified', distrustedBy: [] });
+    expect(results.get('bob')).toMatchObject({ level: 'trusted', distrustedBy: [] });
+  });
+
+  it('should ignore blocks against the current user', () => {
+    const results = computeTrustLevels(graph, 'me', { distrust: distrustOf(block('alice', 'me')) });
+
+    expect(results.get('me')).toMatchObject({ degree: 0, distrustedBy: [] });
+  });
+});
+
+describe('attestation expiry', () => {
+  it('should report expired and expiring attestations', () => {
+    const now = 1_000_000_000_000;
+    const legacy = attestation('me', 'alice');
+    const expiring = attestation('me', 'alice', { expiresAt: now + TRUST_EXPIRY_WARNING_MS / 2 });
+    const valid = attestation('me', 'alice', { expiresAt: now + TRUST_EXPIRY_WARNING_MS * 2 });
+    const expired = attestation('me', 'alice', { expiresAt: now - 1 });
+
+    expect(isAttestationExpired(legacy, now)).toBe(false);
+    expect(isAttestationExpiringSoon(legacy, now)).toBe(false);
+    expect(isAttestationExpiringSoon(expiring, now)).toBe(true);
+    expect(isAttestationExpiringSoon(valid, now)).toBe(false);
+    expect(isAttestationExpired(expired, now)).toBe(true);
+    expect(isAttestationExpiringSoon(expired, now)).toBe(false);
+  });
+});
+
+describe('getAttestationWeight', () => {
+  it('should weight endorsed attestations lower than verified ones', () => {
+    const verified = attestation('me', 'alice', { verificationMethod: 'in-person' });
+    const endorsed = { ...verified, level: 'endorsed' as const };
+
+    expect(getAttestationWeight(verified)).toBe(1);
+    expect(getAttestationWeight(endorsed)).toBeLessThan(1);
+    expect(getAttestationWeight(attestation('me', 'alice'))).toBeLessThan(
+      getAttestationWeight(attestation('me', 'alice', { verificationMethod: 'email' }))
+    );
+  });
+});
+
+describe('verifyTrustGiven', () => {
+  it('should keep only attestations signed by the document owner', async () => {
+    const owner = await generateDidIdentity('Owner');
+    const other = await generateDidIdentity('Other');
+
+    const signed = attestation(owner.did, 'did:key:alice');
+    signed.signature = await signEntity(signed as unknown as Record<string, unknown>, owner.privateKey);
+
+    const forged = attestation(owner.did, 'did:key:bob');
+    forged.signature = await signEntity(forged as unknown as Record<string, unknown>, other.privateKey);
+
+    const unsigned = attestation(owner.did, 'did:key:carol');
+
+    const trustGiven = {
+      'did:key:alice': signed,
+      'did:key:bob': forged,
+      'did:key:carol': unsigned,
+    };
+
+    expect(Object.keys(await verifyTrustGiven(trustGiven, owner.did))).toEqual(['did:key:alice']);
+    expect(Object.keys(await verifyTrustGiven(trustGiven, owner.did, true)).sort()).toEqual([
+      'did:key:alice',
+      'did:key:carol',
+    ]);
+  });
+});
+
+describe('verifyDistrustGiven', () => {
+  it('should keep only blocks signed by the document owner', async () => {
+    const owner = await generateDidIdentity('Owner');
+    const other = await generateDidIdentity('Other');
+
+    const signed = block(owner.did, 'did:key:alice');
+    signed.signature = await signEntity(signed as unknown as Record<string, unknown>, owner.privateKey);
+
+    const forged = block(owner.did, 'did:key:bob');
+    forged.signature = await signEntity(forged as unknown as Record<string, unknown>, other.privateKey);
+
+    const misplaced = { ...signed };
+
+    const verified = await verifyDistrustGiven(
+      { 'did:key:alice': signed, 'did:key:bob': forged, 'did:key:carol': misplaced },
+      owner.did
+    );
+
+    expect(Object.keys(verified)).toEqual(['did:key:alice']);
+  });
+});
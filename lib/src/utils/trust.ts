@@ -0,0 +1,450 @@
+/**
+ * Transitive trust engine
+ *
+ * Computes the TrustLevel of a DID by walking trustGiven attestations
+ * from the current user outwards:
+ * - 1st degree (I attested them) → 'verified'
+ * - 2nd degree (friend-of-friend) → 'trusted'
+ * - 3rd degree → 'endorsed'
+ *
+ * The shortest path wins. Among paths of equal length the one with the
+ * strongest verification methods is chosen. Blocked DIDs are never
+ * traversed, so trust cannot flow through them. Expired attestations
+ * (expiresAt in the past) are ignored.
+ *
+ * Blocks (distrust attestations) of people in the own network are a
+ * negative signal: the blocked DID loses any transitive trust unless the
+ * current user attested them directly, and the blockers are reported in
+ * distrustedBy so the UI can warn.
+ *
+ * Rotated keys (see utils/keyRotation.ts) are followed: attestations for
+ * or by a retired DID count for its current DID.
+ *
+ * The engine itself is pure - use verifyTrustGiven() / verifyDistrustGiven()
+ * to drop attestations with missing or invalid signatures before building
+ * the networks.
+ */
+
+import type { DistrustAttestation, TrustAttestation, TrustLevel } from '../schema/identity';
+import {
+  resolveCurrentDid,
+  verifyEntitySignatureForDid,
+  type KeySuccessionIndex,
+} from './keyRotation';
+
+/**
+ * Trust edges per truster: trusterDid → (trusteeDid → attestation)
+ * Same shape as UserDocument.trustGiven of each loaded document.
+ */
+export type TrustNetwork = Record<string, Record<string, TrustAttestation>>;
+
+/**
+ * Blocks per blocker: blockerDid → (blockedDid → distrust attestation)
+ * Same shape as UserDocument.distrustGiven of each loaded document.
+ */
+export type DistrustNetwork = Record<string, Record<string, DistrustAttestation>>;
+
+/**
+ * Weight of an attestation by verification method (1 = strongest)
+ */
+export const VERIFICATION_METHOD_WEIGHTS: Record<
+  NonNullable<TrustAttestation['verificationMethod']>,
+  number
+> = {
+  'in-person': 1,
+  'video-call': 0.8,
+  'social-proof': 0.6,
+  email: 0.5,
+};
+
+/** Weight of attestations without a verification method */
+export const UNSPECIFIED_METHOD_WEIGHT = 0.4;
+
+/** Weight factor for 'endorsed' attestations (weaker than 'verified') */
+export const ENDORSED_ATTESTATION_FACTOR = 0.5;
+
+/** Maximum path length that still yields a trust level */
+export const MAX_TRUST_DEGREE = 3;
+
+/** Maximum degree of blockers whose blocks count as negative signal */
+export const MAX_DISTRUST_DEGREE = 2;
+
+/** Validity of new trust attestations (renewal re-signs for another period) */
+export const TRUST_ATTESTATION_VALIDITY_MS = 365 * 24 * 60 * 60 * 1000;
+
+/** Attestations expiring within this window are reported as "expiring soon" */
+export const TRUST_EXPIRY_WARNING_MS = 30 * 24 * 60 * 60 * 1000;
+
+const LEVEL_BY_DEGREE: Record<number, TrustLevel> = {
+  1: 'verified',
+  2: 'trusted',
+  3: 'endorsed',
+};
+
+/**
+ * Computed trust of a DID
+ */
+export interface TrustPathResult {
+  level: TrustLevel;
+  /** Number of hops from the current user (0 = self, null = no path) */
+  degree: number | null;
+  /** DIDs from the current user to the target (empty if no path) */
+  path: string[];
+  /** Product of the attestation weights along the path (0 if no path) */
+  weight: number;
+  /** DIDs from the own network (up to MAX_DISTRUST_DEGREE) who blocked this DID */
+  distrustedBy: string[];
+}
+
+/**
+ * Result for DIDs without a trust path
+ */
+export const UNKNOWN_TRUST: TrustPathResult = {
+  level: 'unknown',
+  degree: null,
+  path: [],
+  weight: 0,
+  distrustedBy: [],
+};
+
+export interface TrustEngineOptions {
+  /** DIDs explicitly blocked by the current user */
+  blockedDids?: ReadonlySet<string>;
+  /** Verified blocks of other users (negative signal) */
+  distrust?: DistrustNetwork;
+  /** Maximum degree to walk (default: MAX_TRUST_DEGREE) */
+  maxDegree?: number;
+  /** Reference time for expiry checks (default: Date.now()) */
+  now?: number;
+  /** Verified key successions - retired DIDs are merged into their current DID */
+  successions?: KeySuccessionIndex;
+}
+
+/**
+ * Check whether an attestation has expired (attestations without expiresAt never expire)
+ */
+export function isAttestationExpired(attestation: TrustAttestation, now = Date.now()): boolean {
+  return attestation.expiresAt !== undefined && attestation.expiresAt <= now;
+}
+
+/**
+ * Check whether an attestation is still active but expires within TRUST_EXPIRY_WARNING_MS
+ */
+export function isAttestationExpiringSoon(attestation: TrustAttestation, now = Date.now()): boolean {
+  return (
+    attestation.expiresAt !== undefined &&
+    attestation.expiresAt > now &&
+    attestation.expiresAt - now <= TRUST_EXPIRY_WARNING_MS
+  );
+}
+
+/**
+ * Get the weight of a single attestation
+ */
+export function getAttestationWeight(attestation: TrustAttestation): number {
+  const methodWeight = attestation.verificationMethod
+    ? VERIFICATION_METHOD_WEIGHTS[attestation.verificationMethod] ?? UNSPECIFIED_METHOD_WEIGHT
+    : UNSPECIFIED_METHOD_WEIGHT;
+  return attestation.level === 'endorsed'
+    ? methodWeight * ENDORSED_ATTESTATION_FACTOR
+    : methodWeight;
+}
+
+/**
+ * Keep only the records of an owner-keyed map that were signed by the owner
+ * (or by one of the owner's retired DIDs before it was retired)
+ */
+async function verifyOwnedRecords<T extends { signature?: string }>(
+  records: Record<string, T>,
+  ownerDid: string,
+  describe: (key: string, record: T) => { signerDid: string; signedAt: number } | null,
+  allowUnsigned: boolean,
+  successions: KeySuccessionIndex
+): Promise<Record<string, T>> {
+  const verified: Record<string, T> = {};
+
+  for (const [key, record] of Object.entries(records)) {
+    const signed = describe(key, record);
+    if (!signed) continue;
+    if (signed.signerDid !== ownerDid && resolveCurrentDid(signed.signerDid, successions) !== ownerDid) {
+      continue;
+    }
+
+    if (!record.signature) {
+      if (allowUnsigned) verified[key] = record;
+      continue;
+    }
+
+    const valid = await verifyEntitySignatureForDid(
+      record as unknown as Record<string, unknown>,
+      signed.signerDid,
+      signed.signedAt,
+      successions
+    );
+    if (valid) verified[key] = record;
+  }
+
+  return verified;
+}
+
+/**
+ * Keep only the attestations of a trustGiven map that were signed by its owner
+ *
+ * @param trustGiven - trustGiven of a UserDocument
+ * @param ownerDid - DID of the document owner (the truster)
+ * @param allowUnsigned - Accept legacy attestations without signature (own document only)
+ * @param successions - Verified key successions (attestations of retired owner DIDs carry over)
+ * @returns Verified trust edges of the owner
+ */
+export function verifyTrustGiven(
+  trustGiven: Record<string, TrustAttestation>,
+  ownerDid: string,
+  allowUnsigned = false,
+  successions: KeySuccessionIndex = {}
+): Promise<Record<string, TrustAttestation>> {
+  return verifyOwnedRecords(
+    trustGiven,
+    ownerDid,
+    (trusteeDid, attestation) =>
+      attestation.trusteeDid === trusteeDid
+        ? { signerDid: attestation.trusterDid, signedAt: attestation.updatedAt ?? attestation.createdAt }
+        : null,
+    allowUnsigned,
+    successions
+  );
+}
+
+/**
+ * Keep only the blocks of a distrustGiven map that were signed by its owner
+ *
+ * @param distrustGiven - distrustGiven of a UserDocument
+ * @param ownerDid - DID of the document owner (the blocker)
+ * @param allowUnsigned - Accept blocks without signature (own document only)
+ * @param successions - Verified key successions (blocks of retired owner DIDs carry over)
+ * @returns Verified blocks of the owner
+ */
+export function verifyDistrustGiven(
+  distrustGiven: Record<string, DistrustAttestation>,
+  ownerDid: string,
+  allowUnsigned = false,
+  successions: KeySuccessionIndex = {}
+): Promise<Record<string, DistrustAttestation>> {
+  return verifyOwnedRecords(
+    distrustGiven,
+    ownerDid,
+    (blockedDid, attestation) =>
+      attestation.blockedDid === blockedDid
+        ? { signerDid: attestation.blockerDid, signedAt: attestation.createdAt }
+        : null,
+    allowUnsigned,
+    successions
+  );
+}
+
+/**
+ * Rewrite a trust network so that retired DIDs are replaced by their current DID
+ * Edges stored under the wrong truster are dropped; of duplicate edges the newest wins.
+ */
+function canonicalizeTrustNetwork(graph: TrustNetwork, successions: KeySuccessionIndex): TrustNetwork {
+  const canonical: TrustNetwork = {};
+  for (const [trusterKey, edges] of Object.entries(graph)) {
+    const trusterDid = resolveCurrentDid(trusterKey, successions);
+    for (const [trusteeKey, attestation] of Object.entries(edges)) {
+      if (attestation.trusteeDid !== trusteeKey) continue;
+      if (resolveCurrentDid(attestation.trusterDid, successions) !== trusterDid) continue;
+
+      const trusteeDid = resolveCurrentDid(attestation.trusteeDid, successions);
+      const existing = canonical[trusterDid]?.[trusteeDid];
+      if (existing && existing.updatedAt >= attestation.updatedAt) continue;
+
+      canonical[trusterDid] = {
+        ...canonical[trusterDid],
+        [trusteeDid]: { ...attestation, trusterDid, trusteeDid },
+      };
+    }
+  }
+  return canonical;
+}
+
+/**
+ * Rewrite a distrust network so that retired DIDs are replaced by their current DID
+ */
+function canonicalizeDistrustNetwork(
+  distrust: DistrustNetwork,
+  successions: KeySuccessionIndex
+): DistrustNetwork {
+  const canonical: DistrustNetwork = {};
+  for (const [blockerKey, blocks] of Object.entries(distrust)) {
+    const blockerDid = resolveCurrentDid(blockerKey, successions);
+    for (const [blockedKey, attestation] of Object.entries(blocks)) {
+      if (attestation.blockedDid !== blockedKey) continue;
+      if (resolveCurrentDid(attestation.blockerDid, successions) !== blockerDid) continue;
+
+      const blockedDid = resolveCurrentDid(attestation.blockedDid, successions);
+      canonical[blockerDid] = {
+        ...canonical[blockerDid],
+        [blockedDid]: { ...attestation, blockerDid, blockedDid },
+      };
+    }
+  }
+  return canonical;
+}
+
+/**
+ * Breadth-first search from the root, one degree at a time, so each DID
+ * keeps its shortest path. Within a degree the strongest predecessor wins.
+ */
+function walkTrustNetwork(
+  graph: TrustNetwork,
+  rootDid: string,
+  maxDegree: number,
+  now: number,
+  canEnter: (did: string, degree: number) => boolean
+): Map<string, TrustPathResult> {
+  const results = new Map<string, TrustPathResult>();
+  results.set(rootDid, { level: 'verified', degree: 0, path: [rootDid], weight: 1, distrustedBy: [] });
+
+  let frontier = [rootDid];
+  for (let degree = 1; degree <= maxDegree && frontier.length > 0; degree++) {
+    const next = new Map<string, TrustPathResult>();
+
+    for (const trusterDid of frontier) {
+      const from = results.get(trusterDid)!;
+      for (const [trusteeDid, attestation] of Object.entries(graph[trusterDid] ?? {})) {
+        // Ignore edges that don't match their position in the graph
+        if (attestation.trusterDid !== trusterDid || attestation.trusteeDid !== trusteeDid) {
+          continue;
+        }
+        if (isAttestationExpired(attestation, now)) continue;
+        if (results.has(trusteeDid) || !canEnter(trusteeDid, degree)) continue;
+
+        const weight = from.weight * getAttestationWeight(attestation);
+        const existing = next.get(trusteeDid);
+        if (!existing || weight > existing.weight) {
+          next.set(trusteeDid, {
+            level: LEVEL_BY_DEGREE[degree] ?? 'unknown',
+            degree,
+            path: [...from.path, trusteeDid],
+            weight,
+            distrustedBy: [],
+          });
+        }
+      }
+    }
+
+    for (const [did, result] of next) {
+      results.set(did, result);
+    }
+    frontier = Array.from(next.keys());
+  }
+
+  return results;
+}
+
+/**
+ * Compute the trust of every reachable DID
+ *
+ * 1. Walk the network without the DIDs blocked by the current user
+ * 2. Collect blocks of reachable users up to MAX_DISTRUST_DEGREE
+ * 3. Walk again, skipping DIDs blocked by the network unless attested directly
+ *
+ * With options.successions, results are keyed by current DIDs only - resolve
+ * retired DIDs with resolveCurrentDid() before looking them up.
+ *
+ * @param network - Verified trust edges
+ * @param currentDid - Current user's DID
+ * @param options - Own blocks, network blocks and maximum degree
+ * @returns Results for the root, all reachable, all blocked and all distrusted DIDs
+ */
+export function computeTrustLevels(
+  network: TrustNetwork,
+  currentDid: string,
+  options: TrustEngineOptions = {}
+): Map<string, TrustPathResult> {
+  const successions = options.successions ?? {};
+  const hasSuccessions = Object.keys(successions).length > 0;
+  const graph = hasSuccessions ? canonicalizeTrustNetwork(network, successions) : network;
+  const rootDid = resolveCurrentDid(currentDid, successions);
+  const blockedDids = hasSuccessions
+    ? new Set(Array.from(options.blockedDids ?? [], (did) => resolveCurrentDid(did, successions)))
+    : options.blockedDids ?? new Set<string>();
+  const distrust = hasSuccessions
+    ? canonicalizeDistrustNetwork(options.distrust ?? {}, successions)
+    : options.distrust ?? {};
+  const maxDegree = options.maxDegree ?? MAX_TRUST_DEGREE;
+  const now = options.now ?? Date.now();
+
+  const firstPass = walkTrustNetwork(graph, rootDid, maxDegree, now, (did) => !blockedDids.has(did));
+
+  // Negative signals from the own network
+  const distrustedBy = new Map<string, string[]>();
+  for (const [blockerDid, blocks] of Object.entries(distrust)) {
+    const blocker = firstPass.get(blockerDid);
+    if (blockerDid === rootDid || !blocker?.degree || blocker.degree > MAX_DISTRUST_DEGREE) continue;
+
+    for (const [blockedDid, attestation] of Object.entries(blocks)) {
+      if (attestation.blockerDid !== blockerDid || attestation.blockedDid !== blockedDid) continue;
+      if (blockedDid === rootDid) continue;
+      distrustedBy.set(blockedDid, [...(distrustedBy.get(blockedDid) ?? []), blockerDid]);
+    }
+  }
+
+  const results =
+    distrustedBy.size === 0
+      ? firstPass
+      : walkTrustNetwork(
+          graph,
+          rootDid,
+          maxDegree,
+          now,
+          // Own attestations override blocks of others
+          (did, degree) => !blockedDids.has(did) && (!distrustedBy.has(did) || degree === 1)
+        );
+
+  for (const [did, blockers] of distrustedBy) {
+    results.set(did, { ...(results.get(did) ?? UNKNOWN_TRUST), distrustedBy: blockers });
+  }
+
+  // Own blocks override any path
+  for (const did of blockedDids) {
+    if (did === rootDid) continue;
+    results.set(did, {
+      level: 'blocked',
+      degree: null,
+      path: [],
+      weight: 0,
+      distrustedBy: distrustedBy.get(did) ?? [],
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Compute the trust of a single DID
+ *
+ * @param graph - Verified trust edges
+ * @param rootDid - Current user's DID
+ * @param targetDid - DID to rate
+ * @param options - Own blocks, network blocks and maximum degree
+ */
+export function computeTrustLevel(
+  graph: TrustNetwork,
+  rootDid: string,
+  targetDid: string,
+  options: TrustEngineOptions = {}
+): TrustPathResult {
+  const did = resolveCurrentDid(targetDid, options.successions ?? {});
+  return computeTrustLevels(graph, rootDid, options).get(did) ?? UNKNOWN_TRUST;
+}
+
+/**
+ * German labels for trust levels
+ */
+export const TRUST_LEVEL_LABELS: Record<TrustLevel, string> = {
+  verified: 'Verifiziert',
+  trusted: 'Vertrauenswürdig (2. Grad)',
+  endorsed: 'Empfohlen (3. Grad)',
+  unknown: 'Unbekannt',
+  blocked: 'Blockiert',
+};
@@ -1,14 +1,14 @@
 import { useState } from 'react';
 import type { DocHandle, AutomergeUrl, DocumentId } from '@automerge/automerge-repo';
 import { useDocument } from '@automerge/automerge-repo-react-hooks';
-import { AppLayout, type AppContextValue, type UserDocument, type ProfileAction, type WorkspaceLoadingState, type ContentState } from 'narrative-ui';
+import { AppLayout, type AppContextValue, type UserDocument, type ProfileAction, type WorkspaceLoadingState, type ContentState, type PrivateKeySource } from 'narrative-ui';
 import { useMapDocument } from '../hooks/useMapDocument';
 import { MapContent } from './MapContent';
 
 interface MapViewProps {
   documentId: DocumentId | null;
   currentUserDid: string;
-  privateKey?: string;
+  privateKey?: PrivateKeySource;
   publicKey?: string;
   displayName?: string;
   onResetIdentity: () => void;
@@ -2,7 +2,7 @@ import { useDocument, useDocHandle } from '@automerge/automerge-repo-react-hooks
 import { DocumentId } from '@automerge/automerge-repo';
 import type { MapDoc, UserLocation } from '../schema/map-data';
 import { generateId } from '../schema/map-data';
-import { signEntity } from 'narrative-ui';
+import { signEntity, useWorkspaceRoles, type PrivateKeySource } from 'narrative-ui';
 
 /**
  * Main hook for accessing and mutating Map data
@@ -13,7 +13,7 @@ import { signEntity } from 'narrative-ui';
 export function useMapDocument(
   docId: DocumentId | null,
   currentUserDid: string,
-  privateKey?: string,
+  privateKey?: PrivateKeySource,
   publicKey?: string,
   displayName?: string
 ) {
@@ -21,6 +21,7 @@ export function useMapDocument(
   // Handle null docId case - hooks must be called unconditionally
   const docHandle = useDocHandle<MapDoc>(docId ?? undefined);
   const [doc] = useDocument<MapDoc>(docId ?? undefined);
+  const roles = useWorkspaceRoles(doc, docId ?? '');
 
   // Return null if doc or docHandle not ready yet
   if (!docId || !doc || !docHandle) {
@@ -28,7 +29,11 @@ export function useMapDocument(
   }
 
   // Convert normalized data to arrays for UI
-  const locations = Object.values(doc.data.locations);
+  // (ignore locations of DIDs without write access)
+  const locations = Object.values(doc.data.locations).filter((loc) =>
+    roles.can(loc.userDid, 'member')
+  );
+  const canEdit = roles.can(currentUserDid, 'member');
 
   /**
    * Ensure current user's identity profile exists in doc.identities
@@ -55,6 +60,10 @@ export function useMapDocument(
    * Set or update current user's location
    */
   const setMyLocation = async (lat: number, lng: number, label?: string) => {
+    if (!canEdit) {
+      console.warn('[useMapDocument] setMyLocation refused: requires role member');
+      return;
+    }
     const now = Date.now();
 
     // Find existing location for current user
@@ -145,6 +154,10 @@ export function useMapDocument(
    * Remove current user's location
    */
   const removeMyLocation = () => {
+    if (!canEdit) {
+      console.warn('[useMapDocument] removeMyLocation refused: requires role member');
+      return;
+    }
     docHandle.change((d) => {
       const locationId = Object.keys(d.data.locations).find((id) => {
         const loc = d.data.locations[id];
@@ -199,6 +212,8 @@ export function useMapDocument(
     docHandle,
     currentUserDid,
     locations,
+    roles,
+    canEdit,
     // Mutations
     setMyLocation,
     removeMyLocation,
@@ -0,0 +1,98 @@
+import { useState } from 'react';
+import type { Listing } from '../schema';
+import { formatPrice } from '../schema';
+
+interface CheckoutModalProps {
+  listing: Listing | null;
+  sellerName: string;
+  /** Own voucher amount in the price unit (if known) */
+  availableAmount?: number;
+  onClose: () => void;
+  onPay: (listingId: string) => Promise<void>;
+}
+
+export function CheckoutModal({
+  listing,
+  sellerName,
+  availableAmount,
+  onClose,
+  onPay,
+}: CheckoutModalProps) {
+  const [isPaying, setIsPaying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!listing?.price) return null;
+
+  const price = listing.price;
+  const isInsufficient = availableAmount !== undefined && availableAmount < price.amount;
+
+  const handleClose = () => {
+    setError(null);
+    onClose();
+  };
+
+  const handlePay = async () => {
+    setError(null);
+    setIsPaying(true);
+    try {
+      await onPay(listing.id);
+      handleClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Bezahlung fehlgeschlagen');
+    } finally {
+      setIsPaying(false);
+    }
+  };
+
+  return (
+    <dialog className="modal modal-open">
+      <div className="modal-box max-w-md">
+        <h3 className="font-bold text-lg mb-4">Mit Gutscheinen bezahlen</h3>
+
+        {/* Summary */}
+        <div className="bg-base-200 rounded-lg p-4 mb-4">
+          <div className="font-medium">{listing.title}</div>
+          <div className="text-sm text-base-content/60">von {sellerName}</div>
+          <div className="text-2xl font-bold mt-2">{formatPrice(price)}</div>
+        </div>
+
+        {availableAmount !== undefined && (
+          <p className={`text-sm mb-2 ${isInsufficient ? 'text-error' : 'text-base-content/70'}`}>
+            Dein Guthaben: {availableAmount} {price.unit}
+          </p>
+        )}
+
+        <p className="text-sm text-base-content/70 mb-4">
+          Passende Gutscheine werden signiert an {sellerName} weitergegeben - bei Bedarf
+          wird ein Gutschein geteilt. Danach ist das Inserat für dich reserviert.
+        </p>
+
+        {/* Error */}
+        {error && (
+          <div className="alert alert-error mb-4">
+            <span>{error}</span>
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="modal-action">
+          <button type="button" className="btn" onClick={handleClose} disabled={isPaying}>
+            Abbrechen
+          </button>
+          <button
+            type="button"
+            className="btn btn-primary"
+            onClick={handlePay}
+            disabled={isPaying || isInsufficient}
+          >
+            {isPaying && <span className="loading loading-spinner loading-sm"></span>}
+            Bezahlen
+          </button>
+        </div>
+      </div>
+      <form method="dialog" className="modal-backdrop">
+        <button onClick={handleClose}>close</button>
+      </form>
+    </dialog>
+  );
+}
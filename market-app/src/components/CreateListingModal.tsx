@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import type { ListingType, CategoryId } from '../schema';
+import type { ListingType, CategoryId, ListingPrice } from '../schema';
 import { CATEGORIES } from '../schema';
 
 interface CreateListingModalProps {
@@ -11,6 +11,7 @@ interface CreateListingModalProps {
     description: string;
     categoryId: CategoryId;
     location?: string;
+    price?: ListingPrice;
   }) => void;
 }
 
@@ -24,17 +25,23 @@ export function CreateListingModal({
   const [description, setDescription] = useState('');
   const [categoryId, setCategoryId] = useState<CategoryId>('other');
   const [location, setLocation] = useState('');
+  const [priceAmount, setPriceAmount] = useState<number>(0);
+  const [priceUnit, setPriceUnit] = useState('');
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     if (!title.trim() || !description.trim()) return;
 
+    // Only offers have a price
+    const hasPrice = type === 'offer' && priceAmount > 0 && priceUnit.trim() !== '';
+
     onSubmit({
       type,
       title: title.trim(),
       description: description.trim(),
       categoryId,
       location: location.trim() || undefined,
+      price: hasPrice ? { amount: priceAmount, unit: priceUnit.trim() } : undefined,
     });
 
     // Reset form
@@ -43,6 +50,8 @@ export function CreateListingModal({
     setDescription('');
     setCategoryId('other');
     setLocation('');
+    setPriceAmount(0);
+    setPriceUnit('');
     onClose();
   };
 
@@ -126,6 +135,33 @@ export function CreateListingModal({
             />
           </div>
 
+          {/* Price (offers only) */}
+          {type === 'offer' && (
+            <div className="form-control mb-4">
+              <label className="label">
+                <span className="label-text font-medium">Preis in Dank-Gutscheinen (optional)</span>
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  className="input input-bordered w-28"
+                  min="0"
+                  step="0.01"
+                  value={priceAmount || ''}
+                  onChange={(e) => setPriceAmount(parseFloat(e.target.value) || 0)}
+                />
+                <input
+                  type="text"
+                  className="input input-bordered flex-1"
+                  placeholder="Einheit, z.B. Minuten"
+                  value={priceUnit}
+                  onChange={(e) => setPriceUnit(e.target.value)}
+                  maxLength={50}
+                />
+              </div>
+            </div>
+          )}
+
           {/* Location */}
           <div className="form-control mb-6">
             <label className="label">
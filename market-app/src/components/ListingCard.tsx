@@ -1,6 +1,6 @@
 import { UserAvatar } from 'narrative-ui';
 import type { Listing, MarketAppDoc } from '../schema';
-import { getCategory } from '../schema';
+import { formatPrice, getCategory } from '../schema';
 
 interface ListingCardProps {
   listing: Listing;
@@ -11,6 +11,10 @@ interface ListingCardProps {
   onReact: () => void;
   onRemoveReaction: () => void;
   onStatusChange: (status: 'completed' | 'archived') => void;
+  /** Open the checkout (only set if vouchers can be paid) */
+  onCheckout?: () => void;
+  /** The payment is backed by the vouchers (unverified payments are not shown as paid) */
+  paymentVerified?: boolean;
 }
 
 export function ListingCard({
@@ -22,11 +26,19 @@ export function ListingCard({
   onReact,
   onRemoveReaction,
   onStatusChange,
+  onCheckout,
+  paymentVerified = false,
 }: ListingCardProps) {
   const category = getCategory(listing.categoryId);
   const isOwner = listing.createdBy === currentUserDid;
   const creatorProfile = doc.identities[listing.createdBy];
   const creatorName = creatorProfile?.displayName || listing.createdBy.slice(0, 12) + '...';
+  const payerName = listing.payment
+    ? doc.identities[listing.payment.payerDid]?.displayName ||
+      listing.payment.payerDid.slice(0, 12) + '...'
+    : '';
+  const canCheckout =
+    !!onCheckout && !!listing.price && listing.type === 'offer' && listing.status === 'active' && !isOwner;
 
   const typeLabel = listing.type === 'offer' ? 'Biete' : 'Suche';
   const typeBadgeClass = listing.type === 'offer'
@@ -68,6 +80,11 @@ export function ListingCard({
             </span>
             {statusBadge()}
           </div>
+          {listing.price && (
+            <span className="badge badge-primary badge-outline badge-sm shrink-0">
+              🎟️ {formatPrice(listing.price)}
+            </span>
+          )}
         </div>
 
         {/* Title & Description */}
@@ -83,6 +100,19 @@ export function ListingCard({
           </p>
         )}
 
+        {/* Payment */}
+        {listing.payment && paymentVerified && (
+          <p className="text-xs text-base-content/50">
+            🎟️ Bezahlt von {listing.payment.payerDid === currentUserDid ? 'dir' : payerName}:{' '}
+            {listing.payment.amount} {listing.payment.unit}
+          </p>
+        )}
+        {listing.payment && !paymentVerified && (
+          <p className="text-xs text-warning">
+            ⚠️ Zahlung nicht bestätigt
+          </p>
+        )}
+
         {/* Footer */}
         <div className="flex items-center justify-between mt-2 pt-2 border-t border-base-200">
           {/* Creator */}
@@ -91,6 +121,7 @@ export function ListingCard({
               did={listing.createdBy}
               avatarUrl={creatorProfile?.avatarUrl}
               size={24}
+              showTrustLevel
             />
             <div className="text-xs">
               <span className="font-medium">{creatorName}</span>
@@ -107,6 +138,12 @@ export function ListingCard({
               {reactionCount} {reactionCount === 1 ? 'Interesse' : 'Interessen'}
             </span>
 
+            {canCheckout && (
+              <button className="btn btn-xs btn-primary" onClick={onCheckout}>
+                Bezahlen
+              </button>
+            )}
+
             {listing.status === 'active' && !isOwner && (
               <button
                 className={`btn btn-xs ${hasReacted ? 'btn-primary' : 'btn-outline'}`}
@@ -116,7 +153,7 @@ export function ListingCard({
               </button>
             )}
 
-            {isOwner && listing.status === 'active' && (
+            {isOwner && (listing.status === 'active' || listing.status === 'reserved') && (
               <div className="dropdown dropdown-end">
                 <label tabIndex={0} className="btn btn-xs btn-ghost">
                   ⋮
@@ -1,8 +1,8 @@
 import type { DocHandle, AutomergeUrl, DocumentId } from '@automerge/automerge-repo';
 import { useDocument } from '@automerge/automerge-repo-react-hooks';
-import { AppLayout, type AppContextValue, type UserDocument, type WorkspaceLoadingState, type ContentState } from 'narrative-ui';
+import { AppLayout, type AppContextValue, type UserDocument, type WorkspaceLoadingState, type ContentState, type PrivateKeySource } from 'narrative-ui';
 import { useMarket } from '../hooks/useMarket';
-import type { ListingType, CategoryId } from '../schema';
+import type { ListingType, CategoryId, ListingPrice } from '../schema';
 import { MarketModule } from '../modules/MarketModule';
 // Debug extensions are auto-initialized via main.tsx import
 import '../debug';
@@ -10,7 +10,7 @@ import '../debug';
 interface MainViewProps {
   documentId: DocumentId | null;
   currentUserDid: string;
-  privateKey?: string;
+  privateKey?: PrivateKeySource;
   publicKey?: string;
   displayName?: string;
   onResetIdentity: () => void;
@@ -66,7 +66,7 @@ export function MainView({
     hasUserReacted,
     getReactionsForListing,
     updateIdentity,
-  } = useMarket(documentId);
+  } = useMarket(documentId, currentUserDid);
 
   const handleCreateListing = (data: {
     type: ListingType;
@@ -74,6 +74,7 @@ export function MainView({
     description: string;
     categoryId: CategoryId;
     location?: string;
+    price?: ListingPrice;
   }) => {
     createListing(data, currentUserDid);
   };
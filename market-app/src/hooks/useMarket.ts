@@ -1,11 +1,13 @@
 import { useDocument, useDocHandle } from '@automerge/automerge-repo-react-hooks';
 import type { DocumentId, DocHandle } from '@automerge/automerge-repo';
+import { useWorkspaceRoles, type WorkspaceRoles } from 'narrative-ui';
 import type {
   MarketAppDoc,
   Listing,
   ListingType,
   ListingStatus,
   CategoryId,
+  ListingPrice,
   Reaction,
 } from '../schema';
 import { generateId, countReactions } from '../schema';
@@ -18,6 +20,7 @@ interface CreateListingInput {
   location?: string;
   availableFrom?: number;
   availableUntil?: number;
+  price?: ListingPrice;
 }
 
 interface UseMarketReturn {
@@ -25,6 +28,10 @@ interface UseMarketReturn {
   docHandle: DocHandle<MarketAppDoc> | undefined;
   isLoading: boolean;
 
+  // Roles (everything is allowed if the workspace has no ACL)
+  roles: WorkspaceRoles;
+  canEdit: boolean;
+
   // Listings
   listings: Listing[];
   getListingsByType: (type: ListingType) => Listing[];
@@ -49,18 +56,34 @@ interface UseMarketReturn {
   updateIdentity: (did: string, updates: { displayName?: string; avatarUrl?: string }) => void;
 }
 
-export function useMarket(documentId: DocumentId | null): UseMarketReturn {
+export function useMarket(documentId: DocumentId | null, currentUserDid?: string): UseMarketReturn {
   // In automerge-repo v2.x, useDocHandle handles async loading
   // Handle null docId case - hooks must be called unconditionally
   const docHandle = useDocHandle<MarketAppDoc>(documentId ?? undefined);
   const [doc] = useDocument<MarketAppDoc>(documentId ?? undefined);
+  const roles = useWorkspaceRoles(doc, documentId ?? '');
 
-  // Computed values
+  const hasRole = (did: string | undefined, action: string): boolean => {
+    if (!did || !roles.can(did, 'member')) {
+      console.warn(`[useMarket] ${action} refused: requires role member`);
+      return false;
+    }
+    return true;
+  };
+
+  // Computed values (ignore content from DIDs without write access)
   const listings = doc?.data?.listings
-    ? Object.values(doc.data.listings).sort((a, b) => b.createdAt - a.createdAt)
+    ? Object.values(doc.data.listings)
+        .filter(l => roles.can(l.createdBy, 'member'))
+        .sort((a, b) => b.createdAt - a.createdAt)
     : [];
 
-  const reactions = doc?.data?.reactions ?? {};
+  const reactions: Record<string, Reaction> = {};
+  for (const [id, reaction] of Object.entries(doc?.data?.reactions ?? {})) {
+    if (roles.can(reaction.reactorDid, 'member')) {
+      reactions[id] = reaction;
+    }
+  }
 
   // Query functions
   const getListingsByType = (type: ListingType): Listing[] => {
@@ -99,6 +122,7 @@ export function useMarket(documentId: DocumentId | null): UseMarketReturn {
       console.warn('[createListing] docHandle not ready');
       return '';
     }
+    if (!hasRole(creatorDid, 'createListing')) return '';
 
     const id = generateId();
     const now = Date.now();
@@ -151,6 +175,9 @@ export function useMarket(documentId: DocumentId | null): UseMarketReturn {
       if (input.availableUntil !== undefined) {
         listing.availableUntil = input.availableUntil;
       }
+      if (input.price !== undefined) {
+        listing.price = { amount: input.price.amount, unit: input.price.unit };
+      }
 
       d.data.listings[id] = listing;
       d.lastModified = now;
@@ -162,7 +189,7 @@ export function useMarket(documentId: DocumentId | null): UseMarketReturn {
   };
 
   const updateListing = (id: string, updates: Partial<Listing>): void => {
-    if (!docHandle) return;
+    if (!docHandle || !hasRole(currentUserDid, 'updateListing')) return;
     docHandle.change((d) => {
       const listing = d.data.listings[id];
       if (!listing) return;
@@ -174,6 +201,7 @@ export function useMarket(documentId: DocumentId | null): UseMarketReturn {
       if (updates.location !== undefined) listing.location = updates.location;
       if (updates.availableFrom !== undefined) listing.availableFrom = updates.availableFrom;
       if (updates.availableUntil !== undefined) listing.availableUntil = updates.availableUntil;
+      if (updates.price !== undefined) listing.price = { ...updates.price };
 
       listing.updatedAt = Date.now();
       d.lastModified = Date.now();
@@ -181,7 +209,7 @@ export function useMarket(documentId: DocumentId | null): UseMarketReturn {
   };
 
   const setListingStatus = (id: string, status: ListingStatus): void => {
-    if (!docHandle) return;
+    if (!docHandle || !hasRole(currentUserDid, 'setListingStatus')) return;
     docHandle.change((d) => {
       const listing = d.data.listings[id];
       if (!listing) return;
@@ -193,7 +221,7 @@ export function useMarket(documentId: DocumentId | null): UseMarketReturn {
   };
 
   const deleteListing = (id: string): void => {
-    if (!docHandle) return;
+    if (!docHandle || !hasRole(currentUserDid, 'deleteListing')) return;
     docHandle.change((d) => {
       // Remove all reactions for this listing
       const reactionIds = d.data.listings[id]?.reactionIds ?? [];
@@ -212,7 +240,7 @@ export function useMarket(documentId: DocumentId | null): UseMarketReturn {
     reactorDid: string,
     message?: string
   ): string => {
-    if (!docHandle) return '';
+    if (!docHandle || !hasRole(reactorDid, 'addReaction')) return '';
 
     const id = generateId();
     const now = Date.now();
@@ -239,7 +267,7 @@ export function useMarket(documentId: DocumentId | null): UseMarketReturn {
   };
 
   const removeReaction = (reactionId: string, listingId: string): void => {
-    if (!docHandle) return;
+    if (!docHandle || !hasRole(currentUserDid, 'removeReaction')) return;
     docHandle.change((d) => {
       const listing = d.data.listings[listingId];
       if (!listing) return;
@@ -280,6 +308,8 @@ export function useMarket(documentId: DocumentId | null): UseMarketReturn {
     doc,
     docHandle,
     isLoading: !doc,
+    roles,
+    canEdit: !currentUserDid || roles.can(currentUserDid, 'member'),
     listings,
     getListingsByType,
     getListingsByCategory,
@@ -13,11 +13,13 @@ import type {
   ListingType,
   ListingStatus,
   CategoryId,
+  ListingPrice,
   Reaction,
 } from '../schema';
 import { CATEGORIES } from '../schema';
 import { ListingCard } from '../components/ListingCard';
 import { CreateListingModal } from '../components/CreateListingModal';
+import { CheckoutModal } from '../components/CheckoutModal';
 
 /**
  * Extended props for MarketModule
@@ -31,6 +33,7 @@ export interface MarketModuleProps extends ModuleProps<MarketAppData> {
     description: string;
     categoryId: CategoryId;
     location?: string;
+    price?: ListingPrice;
   }) => void;
   /** Callback to set listing status */
   onSetListingStatus: (id: string, status: ListingStatus) => void;
@@ -48,6 +51,12 @@ export interface MarketModuleProps extends ModuleProps<MarketAppData> {
   listings: Listing[];
   /** Hidden user DIDs for filtering */
   hiddenUserDids?: Set<string>;
+  /** Pay an offer's price with Dank vouchers (checkout is only shown if set) */
+  onPayListing?: (listingId: string) => Promise<void>;
+  /** Own voucher amount in a unit (shown in the checkout) */
+  getAvailableAmount?: (unit: string) => number;
+  /** Check whether a listing's payment is backed by the vouchers */
+  isPaymentVerified?: (listingId: string) => boolean;
   /** Full document for ListingCard (identities) */
   doc: {
     identities: Record<string, { displayName?: string; avatarUrl?: string }>;
@@ -74,9 +83,13 @@ export function MarketModule({
   hasUserReacted,
   listings,
   hiddenUserDids = new Set(),
+  onPayListing,
+  getAvailableAmount,
+  isPaymentVerified,
   doc,
 }: MarketModuleProps) {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [checkoutListingId, setCheckoutListingId] = useState<string | null>(null);
 
   // Filters
   const [filterType, setFilterType] = useState<FilterType>('all');
@@ -104,6 +117,8 @@ export function MarketModule({
     });
   }, [listings, filterType, filterCategory, filterStatus, hiddenUserDids]);
 
+  const checkoutListing = listings.find((l) => l.id === checkoutListingId) ?? null;
+
   // Counts
   const offerCount = listings.filter(l => l.type === 'offer' && l.status === 'active').length;
   const needCount = listings.filter(l => l.type === 'need' && l.status === 'active').length;
@@ -197,6 +212,8 @@ export function MarketModule({
               onReact={() => onAddReaction(listing.id)}
               onRemoveReaction={() => onRemoveReaction(listing.id)}
               onStatusChange={(status) => onSetListingStatus(listing.id, status)}
+              onCheckout={onPayListing ? () => setCheckoutListingId(listing.id) : undefined}
+              paymentVerified={isPaymentVerified?.(listing.id) ?? false}
             />
           ))
         )}
@@ -231,6 +248,22 @@ export function MarketModule({
         onClose={() => setIsCreateModalOpen(false)}
         onSubmit={onCreateListing}
       />
+
+      {/* Checkout Modal */}
+      {onPayListing && (
+        <CheckoutModal
+          listing={checkoutListing}
+          sellerName={
+            (checkoutListing && doc.identities[checkoutListing.createdBy]?.displayName) ||
+            checkoutListing?.createdBy.slice(0, 12) + '...'
+          }
+          availableAmount={
+            checkoutListing?.price ? getAvailableAmount?.(checkoutListing.price.unit) : undefined
+          }
+          onClose={() => setCheckoutListingId(null)}
+          onPay={onPayListing}
+        />
+      )}
     </div>
   );
 }
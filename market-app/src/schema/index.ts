@@ -51,6 +51,26 @@ export const CATEGORIES: Category[] = [
   { id: 'other', name: 'Sonstiges', icon: '✨' },
 ];
 
+/**
+ * Price of an offer in Dank vouchers (e.g. 30 Minuten)
+ */
+export interface ListingPrice {
+  amount: number;
+  unit: string;
+}
+
+/**
+ * Payment of a listing with Dank vouchers
+ * The transfer IDs refer to the signed voucher transfers in the Dank wallet.
+ */
+export interface ListingPayment {
+  payerDid: string;
+  amount: number;
+  unit: string;
+  transferIds: string[];
+  paidAt: number;
+}
+
 /**
  * A listing (offer or need) on the marketplace
  */
@@ -71,6 +91,10 @@ export interface Listing {
   location?: string;
   availableFrom?: number;  // timestamp
   availableUntil?: number; // timestamp
+  price?: ListingPrice;     // offers only
+
+  // Checkout (set when paid; the listing is then reserved)
+  payment?: ListingPayment;
 
   // Reactions (interests)
   reactionIds: string[];
@@ -144,6 +168,13 @@ export function getCategory(id: CategoryId): Category | undefined {
   return CATEGORIES.find(c => c.id === id);
 }
 
+/**
+ * Format a listing price (e.g. "30 Minuten")
+ */
+export function formatPrice(price: ListingPrice): string {
+  return `${price.amount} ${price.unit}`;
+}
+
 /**
  * Count reactions for a listing
  */
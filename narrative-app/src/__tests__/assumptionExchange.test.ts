@@ -0,0 +1,340 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { generateDidIdentity, signEntity, signJws } from 'narrative-ui';
+import type { DidIdentity, IdentityProfile } from 'narrative-ui';
+import type {
+  Assumption,
+  EditEntry,
+  OpinionGraphData,
+  Tag,
+  Vote,
+  VoteSummary,
+} from '../schema/opinion-graph';
+import {
+  applyBundleImport,
+  assumptionsToCsv,
+  assumptionsToMarkdown,
+  createAssumptionBundle,
+  detectImportFormat,
+  parseCsvAssumptions,
+  parseImportText,
+  parseMarkdownAssumptions,
+  prepareBundleImport,
+  verifyAssumptionBundle,
+  type AssumptionBundle,
+  type SignedAssumptionBundle,
+} from '../utils/assumptionExchange';
+
+function createEmptyData(): OpinionGraphData {
+  return { assumptions: {}, votes: {}, tags: {}, edits: {}, relations: {} };
+}
+
+describe('Assumption import and export', () => {
+  describe('detectImportFormat', () => {
+    it('should detect all formats', () => {
+      expect(detectImportFormat('  ["A"]')).toBe('json');
+      expect(detectImportFormat('{"bundle":{}}')).toBe('bundle');
+      expect(detectImportFormat('# Titel\n- Erste Annahme')).toBe('markdown');
+      expect(detectImportFormat('Annahme,Tags\nErste,foo')).toBe('csv');
+    });
+  });
+
+  describe('parseCsvAssumptions', () => {
+    it('should read the sentence and all tag columns by header', () => {
+      const csv = 'ID,Annahme,Tag 1,Tag 2\n1,Erste Annahme,foo,bar\n2,"Zweite, mit Komma",,baz';
+
+      expect(parseCsvAssumptions(csv)).toEqual([
+        { sentence: 'Erste Annahme', tags: ['foo', 'bar'] },
+        { sentence: 'Zweite, mit Komma', tags: ['baz'] },
+      ]);
+    });
+
+    it('should read semicolon CSV without header and split tag lists', () => {
+      const csv = 'Erste Annahme;"foo, bar"\r\nZweite Annahme;baz|qux\r\n';
+
+      expect(parseCsvAssumptions(csv)).toEqual([
+        { sentence: 'Erste Annahme', tags: ['foo', 'bar'] },
+        { sentence: 'Zweite Annahme', tags: ['baz', 'qux'] },
+      ]);
+    });
+
+    it('should keep quoted line breaks and quotes', () => {
+      const csv = 'Annahme\n"Sagt ""Hallo""\nund mehr"';
+
+      expect(parseCsvAssumptions(csv)).toEqual([{ sentence: 'Sagt "Hallo"\nund mehr', tags: [] }]);
+    });
+  });
+
+  describe('parseMarkdownAssumptions', () => {
+    it('should read top-level list items with hashtags as tags', () => {
+      const markdown = [
+        '# Annahmen',
+        '- **Erste Annahme** #foo #bar',
+        '  - Stimmen: 🟢 1',
+        '1. Zweite Annahme',
+        '* [ ] Dritte #baz Annahme',
+      ].join('\n');
+
+      expect(parseMarkdownAssumptions(markdown)).toEqual([
+        { sentence: 'Erste Annahme', tags: ['foo', 'bar'] },
+        { sentence: 'Zweite Annahme', tags: [] },
+        { sentence: 'Dritte Annahme', tags: ['baz'] },
+      ]);
+    });
+  });
+
+  describe('parseImportText', () => {
+    it('should mark existing and repeated sentences as duplicates', () => {
+      const { format, candidates } = parseImportText(
+        '- Schon da.\n- Neu\n- neu',
+        ['schon da']
+      );
+
+      expect(format).toBe('markdown');
+      expect(candidates.map((c) => c.duplicate)).toEqual(['existing', undefined, 'import']);
+    });
+
+    it('should reject JSON that is not an array', () => {
+      expect(() => parseImportText('[')).toThrow();
+    });
+  });
+
+  describe('CSV and Markdown export', () => {
+    const data = createEmptyData();
+    const tag: Tag = { id: 'tag-1', name: 'Klima Politik', createdBy: 'did:key:alice', createdAt: 1000 };
+    const edit: EditEntry = {
+      id: 'edit-1',
+      assumptionId: 'a1',
+      editorDid: 'did:key:alice',
+      type: 'edit',
+      previousSentence: 'Alt',
+      newSentence: 'Neu, "zitiert"',
+      createdAt: 2000,
+    };
+    const assumption: Assumption = {
+      id: 'a1',
+      sentence: 'Neu, "zitiert"',
+      createdBy: 'did:key:alice',
+      createdAt: 1000,
+      updatedAt: 2000,
+      tagIds: [tag.id],
+      voteIds: [],
+      editLogIds: [edit.id],
+      signature: 'jws-signature',
+    };
+    data.assumptions[assumption.id] = assumption;
+    data.tags[tag.id] = tag;
+    data.edits[edit.id] = edit;
+    const identities: Record<string, IdentityProfile> = { 'did:key:alice': { displayName: 'Alice' } };
+    const getVoteSummary = (): VoteSummary => ({ green: 2, yellow: 1, red: 0, total: 3 });
+
+    it('should export CSV with votes, edits and signature that can be imported again', () => {
+      const csv = assumptionsToCsv([assumption], data, identities, getVoteSummary);
+      const [header, row] = csv.split('\n');
+
+      expect(header).toContain('Annahme,Tags,Zustimmung');
+      expect(row).toContain('"Neu, ""zitiert""",Klima Politik,2,1,0,3,Alice');
+      expect(row).toContain('jws-signature');
+      expect(parseCsvAssumptions(csv)).toEqual([
+        { sentence: 'Neu, "zitiert"', tags: ['Klima Politik'] },
+      ]);
+    });
+
+    it('should export Markdown with history that can be imported again', () => {
+      const markdown = assumptionsToMarkdown([assumption], data, identities, getVoteSummary);
+
+      expect(markdown).toContain('🟢 2 · 🟡 1 · 🔴 0');
+      expect(markdown).toContain('Alice: „Alt“ → „Neu, "zitiert"“');
+      expect(markdown).toContain('signiert');
+      expect(parseMarkdownAssumptions(markdown)).toEqual([
+        { sentence: 'Neu, "zitiert"', tags: ['Klima-Politik'] },
+      ]);
+    });
+  });
+
+  describe('Signed bundles', () => {
+    let alice: DidIdentity;
+    let bob: DidIdentity;
+    let identities: Record<string, IdentityProfile>;
+    let source: OpinionGraphData;
+
+    const sign = async <T extends object>(entity: T, identity: DidIdentity): Promise<T> => ({
+      ...entity,
+      signature: await signEntity(entity as unknown as Record<string, unknown>, identity.privateKey),
+    });
+
+    const signBundle = async (bundle: AssumptionBundle, identity: DidIdentity): Promise<SignedAssumptionBundle> => ({
+      bundle,
+      jws: await signJws(bundle, identity.privateKey),
+    });
+
+    beforeAll(async () => {
+      alice = await generateDidIdentity('Alice');
+      bob = await generateDidIdentity('Bob');
+      identities = {
+        [alice.did]: { displayName: 'Alice', publicKey: alice.publicKey },
+        [bob.did]: { displayName: 'Bob', publicKey: bob.publicKey },
+      };
+
+      source = createEmptyData();
+      const tag = await sign<Tag>({ id: 'tag-1', name: 'foo', createdBy: alice.did, createdAt: 1000 }, alice);
+      const signed = await sign<Assumption>(
+        {
+          id: 'a1',
+          sentence: 'Signierte Annahme',
+          createdBy: alice.did,
+          createdAt: 1000,
+          updatedAt: 1000,
+          tagIds: [tag.id],
+          voteIds: [],
+          editLogIds: [],
+        },
+        alice
+      );
+      const unsigned: Assumption = {
+        id: 'a2',
+        sentence: 'Unsignierte Annahme',
+        createdBy: bob.did,
+        createdAt: 1000,
+        updatedAt: 1000,
+        tagIds: [],
+        voteIds: [],
+        editLogIds: [],
+      };
+      const vote = await sign<Vote>(
+        { id: 'v1', assumptionId: 'a1', voterDid: bob.did, value: 'green', createdAt: 1000, updatedAt: 1000 },
+        bob
+      );
+      const forgedVote = { ...(await sign<Vote>(
+        { id: 'v2', assumptionId: 'a1', voterDid: alice.did, value: 'red', createdAt: 1000, updatedAt: 1000 },
+        alice
+      )), value: 'green' as const };
+      source.tags[tag.id] = tag;
+      source.assumptions[signed.id] = { ...signed, voteIds: [vote.id, forgedVote.id] };
+      source.assumptions[unsigned.id] = unsigned;
+      source.votes[vote.id] = vote;
+      source.votes[forgedVote.id] = forgedVote;
+    });
+
+    it('should bundle the assumptions with their entities and signer profiles', () => {
+      const bundle = createAssumptionBundle(Object.values(source.assumptions), source, identities, bob.did);
+
+      expect(Object.keys(bundle.assumptions)).toEqual(['a1', 'a2']);
+      expect(Object.keys(bundle.votes)).toEqual(['v1', 'v2']);
+      expect(Object.keys(bundle.tags)).toEqual(['tag-1']);
+      expect(Object.keys(bundle.identities).sort()).toEqual([alice.did, bob.did].sort());
+    });
+
+    it('should verify a signed bundle and reject a tampered one', async () => {
+      const bundle = createAssumptionBundle(Object.values(source.assumptions), source, identities, bob.did);
+      const signed = await signBundle(bundle, bob);
+
+      const verification = await verifyAssumptionBundle(JSON.parse(JSON.stringify(signed)));
+      expect(verification.valid).toBe(true);
+      expect(verification.statuses?.assumptions).toEqual({ a1: 'valid', a2: 'missing' });
+
+      const tampered = JSON.parse(JSON.stringify(signed)) as SignedAssumptionBundle;
+      tampered.bundle.assumptions.a1.sentence = 'Gefälscht';
+      expect((await verifyAssumptionBundle(tampered)).valid).toBe(false);
+
+      const signedByOther = await signBundle(bundle, alice);
+      expect((await verifyAssumptionBundle(signedByOther)).error).toBe('Signatur des Bündels ungültig');
+
+      expect((await verifyAssumptionBundle({ foo: 1 })).error).toBe('Kein Annahmen-Bündel');
+    });
+
+    it('should import only validly signed entities with provenance intact', async () => {
+      const bundle = createAssumptionBundle(Object.values(source.assumptions), source, identities, bob.did);
+      const file = JSON.parse(JSON.stringify(await signBundle(bundle, bob)));
+      const target = createEmptyData();
+      const targetIdentities: Record<string, IdentityProfile> = { [bob.did]: { displayName: 'Bobby' } };
+
+      const { selection, summary } = await prepareBundleImport(file, target);
+      applyBundleImport(target, targetIdentities, selection);
+
+      expect(summary).toEqual({ imported: 1, duplicates: 0, rejected: 1 });
+      expect(target.assumptions.a1.createdBy).toBe(alice.did);
+      expect(target.assumptions.a1.signature).toBe(source.assumptions.a1.signature);
+      expect(target.assumptions.a1.voteIds).toEqual(['v1']);
+      expect(Object.keys(target.votes)).toEqual(['v1']);
+      expect(target.tags['tag-1'].name).toBe('foo');
+      expect(targetIdentities[bob.did]).toEqual({ displayName: 'Bobby', publicKey: bob.publicKey });
+      expect(targetIdentities[alice.did].displayName).toBe('Alice');
+    });
+
+    it('should not take over public keys that the DID does not contain', async () => {
+      const legacyDid = 'did:example:mallory';
+      const legacyIdentities = { ...identities, [legacyDid]: { displayName: 'Mallory', publicKey: alice.publicKey } };
+      const legacy = createEmptyData();
+      legacy.assumptions.a3 = await sign<Assumption>(
+        {
+          id: 'a3',
+          sentence: 'Legacy-Annahme',
+          createdBy: legacyDid,
+          createdAt: 1000,
+          updatedAt: 1000,
+          tagIds: [],
+          voteIds: [],
+          editLogIds: [],
+        },
+        alice
+      );
+      const bundle = createAssumptionBundle([legacy.assumptions.a3], legacy, legacyIdentities, bob.did);
+      const target = createEmptyData();
+      const targetIdentities: Record<string, IdentityProfile> = {};
+
+      const { selection, summary } = await prepareBundleImport(await signBundle(bundle, bob), target);
+      applyBundleImport(target, targetIdentities, { ...selection, identities: bundle.identities });
+
+      expect(summary).toEqual({ imported: 0, duplicates: 0, rejected: 1 });
+      expect(targetIdentities[legacyDid]).toEqual({ displayName: 'Mallory' });
+    });
+
+    it('should reject assumptions referencing tags that are not imported', async () => {
+      const tagged = createEmptyData();
+      tagged.tags['tag-2'] = { id: 'tag-2', name: 'unsigniert', createdBy: alice.did, createdAt: 1000 };
+      tagged.assumptions.a4 = await sign<Assumption>(
+        {
+          id: 'a4',
+          sentence: 'Annahme mit unsigniertem Tag',
+          createdBy: alice.did,
+          createdAt: 1000,
+          updatedAt: 1000,
+          tagIds: ['tag-2'],
+          voteIds: [],
+          editLogIds: [],
+        },
+        alice
+      );
+      const bundle = createAssumptionBundle([tagged.assumptions.a4], tagged, identities, bob.did);
+      const file = await signBundle(bundle, bob);
+
+      const rejected = await prepareBundleImport(file, createEmptyData());
+      expect(rejected.summary).toEqual({ imported: 0, duplicates: 0, rejected: 1 });
+      expect(rejected.selection.tags).toEqual({});
+
+      const target = createEmptyData();
+      target.tags['tag-2'] = tagged.tags['tag-2'];
+      const accepted = await prepareBundleImport(file, target);
+      expect(accepted.summary).toEqual({ imported: 1, duplicates: 0, rejected: 0 });
+      expect(accepted.selection.tags).toEqual({});
+    });
+
+    it('should skip assumptions that exist already', async () => {
+      const bundle = createAssumptionBundle([source.assumptions.a1], source, identities, bob.did);
+      const file = await signBundle(bundle, bob);
+      const target = createEmptyData();
+      target.assumptions.other = { ...source.assumptions.a1, id: 'other', sentence: 'signierte annahme.' };
+
+      const { selection, summary } = await prepareBundleImport(file, target);
+
+      expect(summary).toEqual({ imported: 0, duplicates: 1, rejected: 0 });
+      expect(selection.assumptions).toEqual({});
+    });
+
+    it('should throw for an invalid bundle', async () => {
+      await expect(prepareBundleImport({ bundle: {}, jws: 'x' }, createEmptyData())).rejects.toThrow(
+        'Kein Annahmen-Bündel'
+      );
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import type { EditEntry } from '../schema/opinion-graph';
+import { buildVersionHistory, diffWords, findEditConflicts } from '../utils/editHistory';
+
+function createEdit(
+  id: string,
+  editorDid: string,
+  previousSentence: string,
+  newSentence: string,
+  createdAt: number,
+  extra: Partial<EditEntry> = {}
+): EditEntry {
+  return {
+    id,
+    assumptionId: 'a1',
+    editorDid,
+    type: previousSentence ? 'edit' : 'create',
+    previousSentence,
+    newSentence,
+    createdAt,
+    ...extra,
+  };
+}
+
+describe('Edit history', () => {
+  describe('diffWords', () => {
+    it('should mark removed and added words', () => {
+      expect(diffWords('Der Himmel ist blau', 'Der Himmel ist heute grau')).toEqual([
+        { type: 'equal', text: 'Der Himmel ist ' },
+        { type: 'removed', text: 'blau' },
+        { type: 'added', text: 'heute grau' },
+      ]);
+    });
+
+    it('should handle empty texts', () => {
+      expect(diffWords('', 'Neu')).toEqual([{ type: 'added', text: 'Neu' }]);
+      expect(diffWords('Alt', '')).toEqual([{ type: 'removed', text: 'Alt' }]);
+      expect(diffWords('Gleich', 'Gleich')).toEqual([{ type: 'equal', text: 'Gleich' }]);
+    });
+  });
+
+  describe('buildVersionHistory', () => {
+    it('should list versions oldest first and keep tags of earlier versions', () => {
+      const versions = buildVersionHistory([
+        createEdit('e2', 'did:key:bob', 'Erste', 'Zweite', 2000),
+        createEdit('e1', 'did:key:alice', '', 'Erste', 1000, { newTags: ['foo'] }),
+        createEdit('e3', 'did:key:alice', 'Zweite', 'Erste', 3000, { newTags: ['foo'], revertedTo: 'e1' }),
+      ]);
+
+      expect(versions.map((v) => [v.editId, v.sentence, v.tags])).toEqual([
+        ['e1', 'Erste', ['foo']],
+        ['e2', 'Zweite', ['foo']],
+        ['e3', 'Erste', ['foo']],
+      ]);
+      expect(versions[2].revertedTo).toBe('e1');
+      expect(versions[0].revertedTo).toBeUndefined();
+    });
+  });
+
+  describe('findEditConflicts', () => {
+    it('should detect edits by different DIDs on the same version', () => {
+      const conflicts = findEditConflicts([
+        createEdit('e1', 'did:key:alice', '', 'Basis', 1000),
+        createEdit('e2', 'did:key:alice', 'Basis', 'Version Alice', 2000),
+        createEdit('e3', 'did:key:bob', 'Basis', 'Version Bob', 2001),
+      ]);
+
+      expect(conflicts).toHaveLength(1);
+      expect(conflicts[0].baseSentence).toBe('Basis');
+      expect(conflicts[0].edits.map((e) => e.id)).toEqual(['e2', 'e3']);
+    });
+
+    it('should not report sequential edits', () => {
+      expect(
+        findEditConflicts([
+          createEdit('e1', 'did:key:alice', 'Basis', 'Zweite', 1000),
+          createEdit('e2', 'did:key:bob', 'Zweite', 'Dritte', 2000),
+        ])
+      ).toEqual([]);
+    });
+
+    it('should not report edits after the base version was restored', () => {
+      expect(
+        findEditConflicts([
+          createEdit('e1', 'did:key:alice', 'Basis', 'Zweite', 1000),
+          createEdit('e2', 'did:key:bob', 'Zweite', 'Basis', 2000),
+          createEdit('e3', 'did:key:carol', 'Basis', 'Dritte', 3000),
+        ])
+      ).toEqual([]);
+    });
+
+    it('should ignore identical changes and edits by the same DID', () => {
+      expect(
+        findEditConflicts([
+          createEdit('e1', 'did:key:alice', 'Basis', 'Gleich', 1000),
+          createEdit('e2', 'did:key:bob', 'Basis', 'Gleich', 1001),
+        ])
+      ).toEqual([]);
+      expect(
+        findEditConflicts([
+          createEdit('e1', 'did:key:alice', 'Basis', 'Gleich', 1000),
+          createEdit('e2', 'did:key:alice', 'Basis', 'Anders', 1001),
+        ])
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import type { Vote } from '../schema/opinion-graph';
+import {
+  analyzeOpinions,
+  buildVoteMatrix,
+  kMeans,
+  silhouetteScore,
+} from '../utils/opinionClustering';
+
+function createVote(voterDid: string, assumptionId: string, value: Vote['value'], updatedAt = 1000): Vote {
+  return {
+    id: `vote-${voterDid}-${assumptionId}-${updatedAt}`,
+    assumptionId,
+    voterDid,
+    value,
+    createdAt: 1000,
+    updatedAt,
+  };
+}
+
+/**
+ * Two camps that disagree on a1/a2 but both agree on a3 and reject a4
+ */
+function createTwoCampVotes(): Vote[] {
+  const votes: Vote[] = [];
+  for (const voter of ['did:key:a1', 'did:key:a2', 'did:key:a3']) {
+    votes.push(
+      createVote(voter, 'a1', 'green'),
+      createVote(voter, 'a2', 'red'),
+      createVote(voter, 'a3', 'green'),
+      createVote(voter, 'a4', 'red')
+    );
+  }
+  for (const voter of ['did:key:b1', 'did:key:b2', 'did:key:b3']) {
+    votes.push(
+      createVote(voter, 'a1', 'red'),
+      createVote(voter, 'a2', 'green'),
+      createVote(voter, 'a3', 'green'),
+      createVote(voter, 'a4', 'red')
+    );
+  }
+  return votes;
+}
+
+describe('Opinion clustering', () => {
+  describe('buildVoteMatrix', () => {
+    it('should score votes and keep missing votes empty', () => {
+      const matrix = buildVoteMatrix(
+        ['a1', 'a2'],
+        [createVote('did:key:bob', 'a1', 'red'), createVote('did:key:alice', 'a2', 'yellow')]
+      );
+
+      expect(matrix.voterDids).toEqual(['did:key:alice', 'did:key:bob']);
+      expect(matrix.rows).toEqual([
+        [null, 0],
+        [-1, null],
+      ]);
+    });
+
+    it('should use the latest vote and ignore other assumptions', () => {
+      const matrix = buildVoteMatrix(
+        ['a1'],
+        [
+          createVote('did:key:alice', 'a1', 'red', 2000),
+          createVote('did:key:alice', 'a1', 'green', 1000),
+          createVote('did:key:alice', 'other', 'green'),
+        ]
+      );
+
+      expect(matrix.rows).toEqual([[-1]]);
+    });
+  });
+
+  describe('kMeans', () => {
+    it('should separate well-separated points deterministically', () => {
+      const points = [[1, 1], [1, 0.9], [-1, -1], [-0.9, -1]];
+
+      const assignments = kMeans(points, 2);
+
+      expect(assignments[0]).toBe(assignments[1]);
+      expect(assignments[2]).toBe(assignments[3]);
+      expect(assignments[0]).not.toBe(assignments[2]);
+      expect(kMeans(points, 2)).toEqual(assignments);
+      expect(silhouetteScore(points, assignments)).toBeGreaterThan(0.8);
+    });
+  });
+
+  describe('analyzeOpinions', () => {
+    it('should find two opinion groups', () => {
+      const analysis = analyzeOpinions(['a1', 'a2', 'a3', 'a4'], createTwoCampVotes());
+
+      expect(analysis.voterCount).toBe(6);
+      expect(analysis.clusters).toHaveLength(2);
+      expect(analysis.clusters.map((c) => [...c.memberDids].sort())).toEqual(
+        expect.arrayContaining([
+          ['did:key:a1', 'did:key:a2', 'did:key:a3'],
+          ['did:key:b1', 'did:key:b2', 'did:key:b3'],
+        ])
+      );
+      expect(analysis.clusters[0].representativeIds).toEqual(expect.arrayContaining(['a1', 'a2']));
+    });
+
+    it('should detect consensus and divisive assumptions', () => {
+      const analysis = analyzeOpinions(['a1', 'a2', 'a3', 'a4'], createTwoCampVotes());
+
+      expect(analysis.consensus.map((i) => [i.assumptionId, i.direction])).toEqual(
+        expect.arrayContaining([
+          ['a3', 'agree'],
+          ['a4', 'disagree'],
+        ])
+      );
+      expect(analysis.consensus).toHaveLength(2);
+      expect(analysis.divisive.map((i) => i.assumptionId).sort()).toEqual(['a1', 'a2']);
+      expect(analysis.divisive[0].strength).toBe(2);
+    });
+
+    it('should keep everyone in one group with few voters', () => {
+      const analysis = analyzeOpinions(
+        ['a1'],
+        [createVote('did:key:alice', 'a1', 'green'), createVote('did:key:bob', 'a1', 'red')]
+      );
+
+      expect(analysis.clusters).toHaveLength(1);
+      expect(analysis.divisive).toHaveLength(0);
+      expect(analysis.consensus).toHaveLength(0);
+    });
+
+    it('should skip assumptions with too few votes', () => {
+      const analysis = analyzeOpinions(['a1'], [createVote('did:key:alice', 'a1', 'green')]);
+
+      expect(analysis.consensus).toHaveLength(0);
+    });
+  });
+});
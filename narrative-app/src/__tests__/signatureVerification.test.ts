@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { generateDidIdentity, signEntity } from 'narrative-ui';
+import type { DidIdentity, IdentityProfile } from 'narrative-ui';
+import type { Assumption, AssumptionRelation, Vote, OpinionGraphData } from '../schema/opinion-graph';
+import { computeVoteSummary, isSignatureAccepted } from '../schema/opinion-graph';
+import { verifyOpinionGraph, verifyOpinionGraphEntity } from '../utils/signatureVerification';
+
+async function createSignedVote(
+  identity: DidIdentity,
+  assumptionId: string,
+  value: Vote['value'],
+  id = `vote-${Math.random().toString(36).slice(2)}`
+): Promise<Vote> {
+  const vote: Vote = {
+    id,
+    assumptionId,
+    voterDid: identity.did,
+    value,
+    createdAt: 1000,
+    updatedAt: 1000,
+  };
+  vote.signature = await signEntity(vote as unknown as Record<string, unknown>, identity.privateKey);
+  return vote;
+}
+
+async function createSignedAssumption(identity: DidIdentity, sentence: string): Promise<Assumption> {
+  const assumption: Assumption = {
+    id: 'assumption-1',
+    sentence,
+    createdBy: identity.did,
+    createdAt: 1000,
+    updatedAt: 1000,
+    tagIds: [],
+    voteIds: [],
+    editLogIds: [],
+  };
+  assumption.signature = await signEntity(
+    assumption as unknown as Record<string, unknown>,
+    identity.privateKey
+  );
+  return assumption;
+}
+
+describe('Signature verification on read', () => {
+  let alice: DidIdentity;
+  let bob: DidIdentity;
+  let identities: Record<string, IdentityProfile>;
+
+  beforeAll(async () => {
+    alice = await generateDidIdentity('Alice');
+    bob = await generateDidIdentity('Bob');
+    identities = {
+      [alice.did]: { displayName: 'Alice', publicKey: alice.publicKey },
+      [bob.did]: { displayName: 'Bob', publicKey: bob.publicKey },
+    };
+  });
+
+  describe('verifyOpinionGraphEntity', () => {
+    it('should report valid for a correctly signed vote', async () => {
+      const vote = await createSignedVote(alice, 'assumption-1', 'green');
+
+      expect(await verifyOpinionGraphEntity(vote, identities)).toBe('valid');
+    });
+
+    it('should report missing for an unsigned vote', async () => {
+      const vote: Vote = {
+        id: 'vote-unsigned',
+        assumptionId: 'assumption-1',
+        voterDid: alice.did,
+        value: 'green',
+        createdAt: 1000,
+        updatedAt: 1000,
+      };
+
+      expect(await verifyOpinionGraphEntity(vote, identities)).toBe('missing');
+    });
+
+    it('should report invalid for a tampered vote', async () => {
+      const vote = await createSignedVote(alice, 'assumption-1', 'green');
+      vote.value = 'red';
+
+      expect(await verifyOpinionGraphEntity(vote, identities)).toBe('invalid');
+    });
+
+    it('should report invalid for a vote signed by someone else', async () => {
+      // Bob signs a vote that claims to be from Alice
+      const forged = await createSignedVote(bob, 'assumption-1', 'red');
+      forged.voterDid = alice.did;
+      forged.signature = await signEntity(forged as unknown as Record<string, unknown>, bob.privateKey);
+
+      expect(await verifyOpinionGraphEntity(forged, identities)).toBe('invalid');
+    });
+
+    it('should report invalid if the stored public key contradicts the did:key', async () => {
+      const forged = await createSignedVote(bob, 'assumption-1', 'red');
+      forged.voterDid = alice.did;
+      forged.signature = await signEntity(forged as unknown as Record<string, unknown>, bob.privateKey);
+
+      // Attacker overwrites Alice's profile with their own key
+      const poisonedIdentities = {
+        ...identities,
+        [alice.did]: { displayName: 'Alice', publicKey: bob.publicKey },
+      };
+
+      expect(await verifyOpinionGraphEntity(forged, poisonedIdentities)).toBe('invalid');
+    });
+
+    it('should keep assumption signatures valid when votes are added', async () => {
+      const assumption = await createSignedAssumption(alice, 'The sky is blue');
+      assumption.voteIds.push('vote-by-bob');
+      assumption.editLogIds.push('edit-1');
+
+      expect(await verifyOpinionGraphEntity(assumption, identities)).toBe('valid');
+    });
+
+    it('should report invalid if the assumption sentence was changed', async () => {
+      const assumption = await createSignedAssumption(alice, 'The sky is blue');
+      assumption.sentence = 'The sky is green';
+
+      expect(await verifyOpinionGraphEntity(assumption, identities)).toBe('invalid');
+    });
+
+    it('should verify edited assumptions against updatedBy', async () => {
+      const assumption = await createSignedAssumption(alice, 'The sky is blue');
+      assumption.sentence = 'The sky is blue at noon';
+      assumption.updatedBy = bob.did;
+      assumption.signature = await signEntity(
+        assumption as unknown as Record<string, unknown>,
+        bob.privateKey
+      );
+
+      expect(await verifyOpinionGraphEntity(assumption, identities)).toBe('valid');
+    });
+  });
+
+  describe('verifyOpinionGraph', () => {
+    it('should return statuses grouped by collection', async () => {
+      const assumption = await createSignedAssumption(alice, 'Signed');
+      const vote = await createSignedVote(bob, assumption.id, 'yellow', 'vote-1');
+
+      const data: OpinionGraphData = {
+        assumptions: { [assumption.id]: assumption },
+        votes: { [vote.id]: vote },
+        tags: {
+          'tag-1': { id: 'tag-1', name: 'unsigned', createdBy: alice.did, createdAt: 1000 },
+        },
+        edits: {},
+      };
+
+      const statuses = await verifyOpinionGraph(data, identities);
+
+      expect(statuses.assumptions[assumption.id]).toBe('valid');
+      expect(statuses.votes['vote-1']).toBe('valid');
+      expect(statuses.tags['tag-1']).toBe('missing');
+    });
+
+    it('should verify relations against their creator', async () => {
+      const relation: AssumptionRelation = {
+        id: 'relation-1',
+        sourceId: 'assumption-1',
+        targetId: 'assumption-2',
+        type: 'supports',
+        createdBy: alice.did,
+        createdAt: 1000,
+      };
+      relation.signature = await signEntity(
+        relation as unknown as Record<string, unknown>,
+        alice.privateKey
+      );
+      const forged: AssumptionRelation = { ...relation, id: 'relation-2', type: 'contradicts' };
+
+      const statuses = await verifyOpinionGraph(
+        {
+          assumptions: {},
+          votes: {},
+          tags: {},
+          edits: {},
+          relations: { [relation.id]: relation, [forged.id]: forged },
+        },
+        identities
+      );
+
+      expect(statuses.relations['relation-1']).toBe('valid');
+      expect(statuses.relations['relation-2']).toBe('invalid');
+    });
+  });
+
+  describe('isSignatureAccepted', () => {
+    it('should always reject invalid signatures', () => {
+      expect(isSignatureAccepted('invalid')).toBe(false);
+      expect(isSignatureAccepted('invalid', true)).toBe(false);
+    });
+
+    it('should only accept missing signatures outside strict mode', () => {
+      expect(isSignatureAccepted('missing')).toBe(true);
+      expect(isSignatureAccepted('missing', true)).toBe(false);
+    });
+
+    it('should accept valid and pending signatures', () => {
+      expect(isSignatureAccepted('valid', true)).toBe(true);
+      expect(isSignatureAccepted(undefined, true)).toBe(true);
+    });
+  });
+
+  describe('computeVoteSummary with signature statuses', () => {
+    it('should exclude forged votes from the summary', async () => {
+      const assumption = await createSignedAssumption(alice, 'Counted');
+      const valid = await createSignedVote(alice, assumption.id, 'green', 'vote-valid');
+      const forged = await createSignedVote(bob, assumption.id, 'red', 'vote-forged');
+      forged.value = 'green';
+      assumption.voteIds = [valid.id, forged.id];
+
+      const votes = { [valid.id]: valid, [forged.id]: forged };
+      const statuses = (await verifyOpinionGraph(
+        { assumptions: { [assumption.id]: assumption }, votes, tags: {}, edits: {} },
+        identities
+      )).votes;
+
+      const summary = computeVoteSummary(assumption, votes, undefined, { signatureStatuses: statuses });
+
+      expect(summary.total).toBe(1);
+      expect(summary.green).toBe(1);
+    });
+
+    it('should exclude unsigned votes only in strict mode', async () => {
+      const assumption = await createSignedAssumption(alice, 'Strict');
+      const unsigned: Vote = {
+        id: 'vote-unsigned',
+        assumptionId: assumption.id,
+        voterDid: bob.did,
+        value: 'red',
+        createdAt: 1000,
+        updatedAt: 1000,
+      };
+      assumption.voteIds = [unsigned.id];
+      const votes = { [unsigned.id]: unsigned };
+      const signatureStatuses = { [unsigned.id]: 'missing' as const };
+
+      expect(computeVoteSummary(assumption, votes, undefined, { signatureStatuses }).total).toBe(1);
+      expect(
+        computeVoteSummary(assumption, votes, undefined, { signatureStatuses, requireSignatures: true }).total
+      ).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import type { Assumption, Vote } from '../schema/opinion-graph';
+import {
+  computeVoteSummary,
+  getNetworkVoteWeight,
+  summarizeVotes,
+  NETWORK_VOTE_WEIGHTS,
+} from '../schema/opinion-graph';
+
+function createVote(voterDid: string, value: Vote['value']): Vote {
+  return {
+    id: `vote-${voterDid}`,
+    assumptionId: 'assumption-1',
+    voterDid,
+    value,
+    createdAt: 1000,
+    updatedAt: 1000,
+  };
+}
+
+const degrees: Record<string, number | null> = {
+  'did:key:me': 0,
+  'did:key:friend': 1,
+  'did:key:friend-of-friend': 2,
+  'did:key:third': 3,
+  'did:key:stranger': null,
+};
+const getTrustDegree = (did: string) => degrees[did];
+
+describe('Trust-weighted vote aggregation', () => {
+  describe('getNetworkVoteWeight', () => {
+    it('should weight by trust degree', () => {
+      expect(getNetworkVoteWeight(0)).toBe(NETWORK_VOTE_WEIGHTS.self);
+      expect(getNetworkVoteWeight(1)).toBe(NETWORK_VOTE_WEIGHTS.firstDegree);
+      expect(getNetworkVoteWeight(2)).toBe(NETWORK_VOTE_WEIGHTS.secondDegree);
+      expect(getNetworkVoteWeight(3)).toBe(NETWORK_VOTE_WEIGHTS.unknown);
+      expect(getNetworkVoteWeight(null)).toBe(NETWORK_VOTE_WEIGHTS.unknown);
+      expect(getNetworkVoteWeight(undefined)).toBe(NETWORK_VOTE_WEIGHTS.unknown);
+    });
+  });
+
+  describe('summarizeVotes', () => {
+    const votes = [
+      createVote('did:key:me', 'green'),
+      createVote('did:key:friend', 'green'),
+      createVote('did:key:friend-of-friend', 'red'),
+      createVote('did:key:third', 'red'),
+      createVote('did:key:stranger', 'red'),
+    ];
+
+    it('should count every vote equally without trust degrees', () => {
+      expect(summarizeVotes(votes, 'did:key:me')).toEqual({
+        green: 2,
+        yellow: 0,
+        red: 3,
+        total: 5,
+        userVote: 'green',
+      });
+    });
+
+    it('should weight votes by trust degree in network mode', () => {
+      const summary = summarizeVotes(votes, 'did:key:me', { getTrustDegree });
+
+      expect(summary.green).toBe(2);
+      expect(summary.red).toBe(0.5);
+      expect(summary.total).toBe(2.5);
+      expect(summary.voterCount).toBe(3);
+      expect(summary.userVote).toBe('green');
+    });
+
+    it('should track the own vote even when it has no weight', () => {
+      const summary = summarizeVotes([createVote('did:key:stranger', 'yellow')], 'did:key:stranger', {
+        getTrustDegree,
+      });
+
+      expect(summary.total).toBe(0);
+      expect(summary.voterCount).toBe(0);
+      expect(summary.userVote).toBe('yellow');
+    });
+  });
+
+  describe('computeVoteSummary in network mode', () => {
+    it('should only weight votes of the assumption', () => {
+      const own = createVote('did:key:me', 'yellow');
+      const other: Vote = { ...createVote('did:key:friend', 'red'), assumptionId: 'assumption-2' };
+      const assumption: Assumption = {
+        id: 'assumption-1',
+        sentence: 'Weighted',
+        createdBy: 'did:key:me',
+        createdAt: 1000,
+        updatedAt: 1000,
+        tagIds: [],
+        voteIds: [own.id],
+        editLogIds: [],
+      };
+
+      const summary = computeVoteSummary(
+        assumption,
+        { [own.id]: own, [other.id]: other },
+        'did:key:me',
+        { getTrustDegree }
+      );
+
+      expect(summary).toEqual({
+        green: 0,
+        yellow: 1,
+        red: 0,
+        total: 1,
+        voterCount: 1,
+        userVote: 'yellow',
+      });
+    });
+  });
+
+  describe('computeVoteSummary with an untrusted vote index', () => {
+    const assumption: Assumption = {
+      id: 'assumption-1',
+      sentence: 'Indexed',
+      createdBy: 'did:key:me',
+      createdAt: 1000,
+      updatedAt: 1000,
+      tagIds: [],
+      voteIds: [],
+      editLogIds: [],
+    };
+
+    it('should ignore votes of other assumptions pushed into voteIds', () => {
+      const own = createVote('did:key:me', 'green');
+      const foreign: Vote = { ...createVote('did:key:friend', 'red'), assumptionId: 'assumption-2' };
+
+      const summary = computeVoteSummary(
+        { ...assumption, voteIds: [own.id, foreign.id] },
+        { [own.id]: own, [foreign.id]: foreign }
+      );
+
+      expect(summary.total).toBe(1);
+      expect(summary.red).toBe(0);
+    });
+
+    it('should count one vote per voter, the newest', () => {
+      const older = { ...createVote('did:key:friend', 'red'), id: 'vote-old' };
+      const newer = { ...createVote('did:key:friend', 'green'), id: 'vote-new', updatedAt: 2000 };
+
+      const summary = computeVoteSummary(
+        { ...assumption, voteIds: [newer.id, older.id, older.id] },
+        { [older.id]: older, [newer.id]: newer }
+      );
+
+      expect(summary).toMatchObject({ green: 1, red: 0, total: 1 });
+    });
+  });
+});
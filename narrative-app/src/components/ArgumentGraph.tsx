@@ -0,0 +1,277 @@
+/**
+ * Argument Graph Component
+ *
+ * Visualizes the relations between assumptions (supports, contradicts,
+ * depends-on, refines) with the force layout of the Trust Graph.
+ * Only assumptions with at least one relation are shown.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { seededRandom, simulateForces } from 'narrative-ui';
+import type { Assumption, AssumptionRelation, RelationType, VoteSummary } from '../schema';
+import { RELATION_TYPES, RELATION_TYPE_LABELS } from '../schema';
+
+interface ArgumentNode {
+  id: string;
+  sentence: string;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+interface ArgumentGraphProps {
+  /** Visible assumptions */
+  assumptions: Assumption[];
+  /** Accepted relations (relations to hidden assumptions are skipped) */
+  relations: AssumptionRelation[];
+  getVoteSummary: (assumptionId: string) => VoteSummary;
+  /** Height of the graph (default: 480px) */
+  height?: number;
+}
+
+const NODE_RADIUS = 18;
+
+/**
+ * Edge color per relation type
+ */
+const RELATION_COLORS: Record<RelationType, string> = {
+  supports: '#22c55e', // green-500
+  contradicts: '#ef4444', // red-500
+  'depends-on': '#3b82f6', // blue-500
+  refines: '#9ca3af', // gray-400
+};
+
+/**
+ * Node color from the vote summary: mostly agree, mostly disagree or mixed
+ */
+function getNodeColor(summary: VoteSummary): string {
+  if (summary.total === 0) return '#6b7280'; // gray-500
+  if (summary.green / summary.total > 0.5) return '#22c55e';
+  if (summary.red / summary.total > 0.5) return '#ef4444';
+  return '#eab308'; // yellow-500
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? text.substring(0, length) + '...' : text;
+}
+
+export function ArgumentGraph({
+  assumptions,
+  relations,
+  getVoteSummary,
+  height = 480,
+}: ArgumentGraphProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(600);
+  const [hoveredNode, setHoveredNode] = useState<string | null>(null);
+  const [selectedNode, setSelectedNode] = useState<string | null>(null);
+
+  // Measure container
+  useEffect(() => {
+    const measure = () => {
+      if (containerRef.current) {
+        setWidth(containerRef.current.getBoundingClientRect().width || 600);
+      }
+    };
+
+    measure();
+    window.addEventListener('resize', measure);
+    return () => window.removeEventListener('resize', measure);
+  }, []);
+
+  // Build and layout graph
+  const { nodes, edges } = useMemo(() => {
+    const byId = new Map(assumptions.map((a) => [a.id, a]));
+    const visibleEdges = relations.filter(
+      (relation) => byId.has(relation.sourceId) && byId.has(relation.targetId)
+    );
+    const connectedIds = new Set(visibleEdges.flatMap((r) => [r.sourceId, r.targetId]));
+
+    // Deterministic initial positions around the center
+    const getRandom = seededRandom(Array.from(connectedIds).sort().join('|'));
+    const initialNodes: ArgumentNode[] = assumptions
+      .filter((a) => connectedIds.has(a.id))
+      .map((a) => ({
+        id: a.id,
+        sentence: a.sentence,
+        x: width / 2 + (getRandom() - 0.5) * 200,
+        y: height / 2 + (getRandom() - 0.5) * 200,
+        vx: 0,
+        vy: 0,
+      }));
+
+    const layoutedNodes = simulateForces(
+      initialNodes,
+      visibleEdges.map((r) => ({ source: r.sourceId, target: r.targetId })),
+      width,
+      height,
+      { iterations: 200, minDistance: 100, idealEdgeLength: 150 }
+    );
+    return { nodes: layoutedNodes, edges: visibleEdges };
+  }, [assumptions, relations, width, height]);
+
+  const selected = nodes.find((n) => n.id === selectedNode);
+  const selectedRelations = edges.filter(
+    (r) => r.sourceId === selectedNode || r.targetId === selectedNode
+  );
+  const getSentence = (id: string) => nodes.find((n) => n.id === id)?.sentence ?? id;
+
+  if (nodes.length === 0) {
+    return (
+      <div ref={containerRef} className="card bg-base-100 shadow-xl">
+        <div className="card-body items-center text-center text-base-content/60">
+          Noch keine Beziehungen zwischen Annahmen. Verknüpfe Annahmen über
+          „Beziehung hinzufügen“ auf einer Karte.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div ref={containerRef} className="relative">
+      {/* Legend */}
+      <div className="absolute top-2 left-2 bg-base-300/90 rounded-lg p-2 text-xs z-10 space-y-1">
+        {RELATION_TYPES.map((type) => (
+          <div key={type} className="flex items-center gap-2">
+            <svg width="20" height="6">
+              <line
+                x1="0"
+                y1="3"
+                x2="20"
+                y2="3"
+                stroke={RELATION_COLORS[type]}
+                strokeWidth={3}
+                strokeDasharray={type === 'refines' ? '4 3' : undefined}
+              />
+            </svg>
+            <span>{RELATION_TYPE_LABELS[type]}</span>
+          </div>
+        ))}
+      </div>
+
+      <svg
+        width="100%"
+        height={height}
+        className="bg-base-300 rounded-lg"
+        style={{ minHeight: height }}
+      >
+        <defs>
+          {RELATION_TYPES.map((type) => (
+            <marker
+              key={type}
+              id={`relation-arrow-${type}`}
+              markerWidth="5"
+              markerHeight="3.5"
+              refX="4.5"
+              refY="1.75"
+              orient="auto"
+            >
+              <polygon points="0 0, 5 1.75, 0 3.5" fill={RELATION_COLORS[type]} />
+            </marker>
+          ))}
+        </defs>
+
+        {/* Edges */}
+        {edges.map((edge) => {
+          const source = nodes.find((n) => n.id === edge.sourceId);
+          const target = nodes.find((n) => n.id === edge.targetId);
+          if (!source || !target) return null;
+
+          const dx = target.x - source.x;
+          const dy = target.y - source.y;
+          const dist = Math.sqrt(dx * dx + dy * dy) || 1;
+          const offset = NODE_RADIUS + 4;
+          const isHighlighted =
+            selectedNode === edge.sourceId || selectedNode === edge.targetId;
+
+          return (
+            <line
+              key={edge.id}
+              x1={source.x + (dx / dist) * offset}
+              y1={source.y + (dy / dist) * offset}
+              x2={target.x - (dx / dist) * offset}
+              y2={target.y - (dy / dist) * offset}
+              stroke={RELATION_COLORS[edge.type]}
+              strokeWidth={isHighlighted ? 4 : 3}
+              strokeOpacity={selectedNode && !isHighlighted ? 0.3 : 0.8}
+              strokeDasharray={edge.type === 'refines' ? '6 4' : undefined}
+              markerEnd={`url(#relation-arrow-${edge.type})`}
+            >
+              <title>{RELATION_TYPE_LABELS[edge.type]}</title>
+            </line>
+          );
+        })}
+
+        {/* Nodes */}
+        {nodes.map((node) => {
+          const isHovered = hoveredNode === node.id;
+          const isSelected = selectedNode === node.id;
+
+          return (
+            <g
+              key={node.id}
+              transform={`translate(${node.x}, ${node.y})`}
+              style={{ cursor: 'pointer' }}
+              onMouseEnter={() => setHoveredNode(node.id)}
+              onMouseLeave={() => setHoveredNode(null)}
+              onClick={() => setSelectedNode(isSelected ? null : node.id)}
+            >
+              <circle
+                r={NODE_RADIUS}
+                fill={getNodeColor(getVoteSummary(node.id))}
+                fillOpacity={0.8}
+                stroke={isSelected ? '#fff' : 'transparent'}
+                strokeWidth={2}
+              />
+              <title>{node.sentence}</title>
+              <text
+                textAnchor="middle"
+                y={NODE_RADIUS + 14}
+                fill="currentColor"
+                fontSize={11}
+                opacity={isHovered || isSelected ? 1 : 0.7}
+              >
+                {truncate(node.sentence, isHovered || isSelected ? 40 : 20)}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+
+      {/* Selected node details */}
+      {selected && (
+        <div className="mt-2 bg-base-300 rounded-lg p-3 text-sm">
+          <div className="flex items-start justify-between gap-2">
+            <div className="font-medium">{selected.sentence}</div>
+            <button onClick={() => setSelectedNode(null)} className="btn btn-xs btn-ghost">
+              ✕
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1 text-xs">
+            {selectedRelations.map((relation) => (
+              <li key={relation.id}>
+                {relation.sourceId === selected.id ? (
+                  <>
+                    <span style={{ color: RELATION_COLORS[relation.type] }}>
+                      {RELATION_TYPE_LABELS[relation.type]}
+                    </span>{' '}
+                    „{getSentence(relation.targetId)}“
+                  </>
+                ) : (
+                  <>
+                    „{getSentence(relation.sourceId)}“{' '}
+                    <span style={{ color: RELATION_COLORS[relation.type] }}>
+                      {RELATION_TYPE_LABELS[relation.type]}
+                    </span>{' '}
+                    diese Annahme
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
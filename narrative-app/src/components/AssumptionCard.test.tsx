@@ -2,6 +2,7 @@ import { describe, it, expect, vi } from 'vitest';
 import { render, screen, within, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { AssumptionCard } from './AssumptionCard';
+import type { AssumptionRelation } from '../schema';
 import type { Assumption, Tag, Vote, VoteSummary, EditEntry, OpinionGraphDoc } from 'narrative-ui'; import type { OpinionGraphDoc, Assumption, Vote, Tag, EditEntry, VoteValue, VoteSummary } from './schema/opinion-graph';
 
 // Mock CreateAssumptionModal since it's a complex modal component
@@ -557,6 +558,208 @@ describe('AssumptionCard', () => {
     });
   });
 
+  describe('Relations', () => {
+    const otherAssumption: Assumption = {
+      ...mockAssumption,
+      id: 'a2',
+      sentence: 'Vue is easier to learn',
+      tagIds: [],
+      voteIds: [],
+      editLogIds: [],
+    };
+
+    const relation: AssumptionRelation = {
+      id: 'r1',
+      sourceId: 'a2',
+      targetId: 'a1',
+      type: 'contradicts',
+      createdBy: 'did:key:alice',
+      createdAt: Date.now(),
+    };
+
+    it('should show relations to other assumptions', () => {
+      render(
+        <AssumptionCard
+          {...defaultProps}
+          relations={[relation]}
+          availableAssumptions={[mockAssumption, otherAssumption]}
+        />
+      );
+
+      expect(screen.getByText('widerspricht')).toBeInTheDocument();
+      expect(screen.getByText(/Vue is easier to learn/)).toBeInTheDocument();
+    });
+
+    it('should hide relations with rejected signatures', () => {
+      render(
+        <AssumptionCard
+          {...defaultProps}
+          relations={[relation]}
+          availableAssumptions={[mockAssumption, otherAssumption]}
+          signatureStatuses={{
+            assumptions: {},
+            votes: {},
+            tags: {},
+            edits: {},
+            relations: { r1: 'invalid' },
+          }}
+        />
+      );
+
+      expect(screen.queryByText('widerspricht')).not.toBeInTheDocument();
+    });
+
+    it('should only offer removing own relations', async () => {
+      const user = userEvent.setup();
+      const onRemoveRelation = vi.fn();
+      const { rerender } = render(
+        <AssumptionCard
+          {...defaultProps}
+          relations={[relation]}
+          availableAssumptions={[mockAssumption, otherAssumption]}
+          currentUserId="did:key:bob"
+          onRemoveRelation={onRemoveRelation}
+        />
+      );
+      expect(screen.queryByTitle('Beziehung entfernen')).not.toBeInTheDocument();
+
+      rerender(
+        <AssumptionCard
+          {...defaultProps}
+          relations={[relation]}
+          availableAssumptions={[mockAssumption, otherAssumption]}
+          currentUserId="did:key:alice"
+          onRemoveRelation={onRemoveRelation}
+        />
+      );
+      await user.click(screen.getByTitle('Beziehung entfernen'));
+      expect(onRemoveRelation).toHaveBeenCalledWith('r1');
+    });
+
+    it('should add a relation via the picker', async () => {
+      const user = userEvent.setup();
+      const onAddRelation = vi.fn();
+
+      render(
+        <AssumptionCard
+          {...defaultProps}
+          availableAssumptions={[mockAssumption, otherAssumption]}
+          onAddRelation={onAddRelation}
+        />
+      );
+
+      await user.click(screen.getByRole('button', { name: /beziehung hinzufügen/i }));
+      await user.selectOptions(screen.getByLabelText('Art der Beziehung'), 'depends-on');
+      await user.selectOptions(screen.getByLabelText('Andere Annahme'), 'a2');
+      await user.click(screen.getByRole('button', { name: 'Verknüpfen' }));
+
+      expect(onAddRelation).toHaveBeenCalledWith('a1', 'a2', 'depends-on');
+    });
+
+    it('should not offer the assumption itself as target', async () => {
+      const user = userEvent.setup();
+
+      render(
+        <AssumptionCard
+          {...defaultProps}
+          availableAssumptions={[mockAssumption, otherAssumption]}
+          onAddRelation={vi.fn()}
+        />
+      );
+
+      await user.click(screen.getByRole('button', { name: /beziehung hinzufügen/i }));
+      const targets = within(screen.getByLabelText('Andere Annahme')).getAllByRole('option');
+      expect(targets.map((option) => option.getAttribute('value'))).toEqual(['', 'a2']);
+    });
+  });
+
+  describe('Edit history', () => {
+    const createEntry: EditEntry = {
+      id: 'e1',
+      assumptionId: 'a1',
+      editorDid: 'did:key:alice',
+      type: 'create',
+      previousSentence: '',
+      newSentence: 'React is good',
+      previousTags: [],
+      newTags: ['Frontend', 'Opinion'],
+      createdAt: Date.now() - 1000 * 60 * 60,
+    };
+    const editEntry = (id: string, editorDid: string, newSentence: string, minutesAgo: number): EditEntry => ({
+      id,
+      assumptionId: 'a1',
+      editorDid,
+      type: 'edit',
+      previousSentence: 'React is good',
+      newSentence,
+      previousTags: ['Frontend', 'Opinion'],
+      newTags: ['Frontend', 'Opinion'],
+      createdAt: Date.now() - 1000 * 60 * minutesAgo,
+    });
+
+    it('should not show the history button for a single version', () => {
+      render(<AssumptionCard {...defaultProps} />);
+
+      expect(screen.queryByRole('button', { name: /verlauf/i })).not.toBeInTheDocument();
+    });
+
+    it('should show versions with a word diff and revert as a new edit', async () => {
+      const user = userEvent.setup();
+      const onEdit = vi.fn();
+      const edits = [createEntry, editEntry('e2', 'did:key:alice', 'React is better than Vue', 30)];
+
+      render(<AssumptionCard {...defaultProps} edits={edits} onEdit={onEdit} />);
+
+      await user.click(screen.getByRole('button', { name: /verlauf/i }));
+
+      expect(screen.getByText('Version 2')).toBeInTheDocument();
+      expect(screen.getByText('aktuell')).toBeInTheDocument();
+      expect(screen.getByText('good', { selector: 'del' })).toBeInTheDocument();
+      expect(screen.getByText('better than Vue', { selector: 'ins' })).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Wiederherstellen' }));
+
+      expect(onEdit).toHaveBeenCalledWith('a1', 'React is good', ['Frontend', 'Opinion'], 'e1');
+    });
+
+    it('should warn about concurrent edits by different users', async () => {
+      const user = userEvent.setup();
+      const onEdit = vi.fn();
+      const edits = [
+        createEntry,
+        editEntry('e2', 'did:key:alice', 'React is better than Vue', 30),
+        editEntry('e3', 'did:key:bob', 'React is fine', 29),
+      ];
+
+      render(<AssumptionCard {...defaultProps} edits={edits} onEdit={onEdit} />);
+
+      await user.click(screen.getByRole('button', { name: /verlauf/i }));
+
+      const alert = screen.getByRole('alert');
+      expect(alert).toHaveTextContent('Gleichzeitige Bearbeitungen');
+      expect(within(alert).getByText('angezeigt')).toBeInTheDocument();
+
+      await user.click(within(alert).getByRole('button', { name: 'Übernehmen' }));
+
+      expect(onEdit).toHaveBeenCalledWith('a1', 'React is fine', ['Frontend', 'Opinion'], 'e3');
+    });
+
+    it('should ignore edits with rejected signatures', () => {
+      const edits = [createEntry, editEntry('e2', 'did:key:bob', 'Forged', 30)];
+      const signatureStatuses = {
+        assumptions: {},
+        votes: {},
+        tags: {},
+        edits: { e1: 'valid' as const, e2: 'invalid' as const },
+        relations: {},
+      };
+
+      render(<AssumptionCard {...defaultProps} edits={edits} signatureStatuses={signatureStatuses} />);
+
+      expect(screen.queryByRole('button', { name: /verlauf/i })).not.toBeInTheDocument();
+    });
+  });
+
   describe('Relative time formatting', () => {
     it('should show "gerade eben" for timestamps < 30 seconds', async () => {
       const user = userEvent.setup();
@@ -1,8 +1,24 @@
-import { useMemo, useState, useEffect } from 'react';
-import type { Assumption, Tag, Vote, VoteValue, VoteSummary, EditEntry, OpinionGraphDoc } from '../schema';
-import { verifyEntitySignature, formatRelativeTime } from 'narrative-ui';
+import { useMemo, useState } from 'react';
+import type {
+  Assumption,
+  AssumptionRelation,
+  RelationType,
+  Tag,
+  Vote,
+  VoteValue,
+  VoteSummary,
+  EditEntry,
+  OpinionGraphDoc,
+  EntitySignatureStatus,
+  SignatureStatusMap,
+} from '../schema';
+import { isSignatureAccepted, summarizeVotes, RELATION_TYPES, RELATION_TYPE_LABELS } from '../schema';
+import { formatRelativeTime, useKnownProfilesContextOptional } from 'narrative-ui';
 import { VoteBar } from './VoteBar';
 import { CreateAssumptionModal } from './CreateAssumptionModal';
+import { DiffText, EditHistory } from './EditHistory';
+import { findEditConflicts } from '../utils/editHistory';
+import type { AssumptionVersion } from '../utils/editHistory';
 
 interface AssumptionCardProps {
   assumption: Assumption;
@@ -12,39 +28,42 @@ interface AssumptionCardProps {
   edits: EditEntry[];
   voteSummary: VoteSummary;
   onVote: (assumptionId: string, value: VoteValue) => void;
-  onEdit: (assumptionId: string, newSentence: string, tags: string[]) => void;
+  onEdit: (assumptionId: string, newSentence: string, tags: string[], revertedTo?: string) => void;
   onTagClick?: (tagId: string) => void;
-  currentUserId?: string; // Currently unused but kept for future features
-  doc?: OpinionGraphDoc; // For signature verification
+  currentUserId?: string; // Own relations can be removed
+  doc?: OpinionGraphDoc; // For name lookup
+  signatureStatuses?: SignatureStatusMap; // Read-time signature verification results
+  requireSignatures?: boolean; // Strict mode: unsigned entities are rejected
+  relations?: AssumptionRelation[]; // Relations from or to this assumption
+  availableAssumptions?: Assumption[]; // Possible relation targets (and names of related assumptions)
+  onAddRelation?: (sourceId: string, targetId: string, type: RelationType) => void;
+  onRemoveRelation?: (relationId: string) => void;
 }
 
 /**
- * Component to verify and display signature status
+ * Display the signature status of an entity
+ * Nothing is shown while verification is pending.
  */
-function SignatureIndicator({ entity, doc }: { entity: any; doc?: OpinionGraphDoc }) {
-  const [isValid, setIsValid] = useState<boolean | null>(null);
+function SignatureIndicator({ status }: { status?: EntitySignatureStatus }) {
+  if (!status) return null;
 
-  useEffect(() => {
-    if (!entity.signature || !doc) {
-      setIsValid(null);
-      return;
-    }
-
-    // Get public key from identities map
-    const publicKey = doc.identities?.[entity.voterDid || entity.editorDid || entity.createdBy]?.publicKey;
-    if (!publicKey) {
-      setIsValid(null);
-      return;
-    }
-
-    // Verify signature asynchronously
-    verifyEntitySignature(entity, publicKey)
-      .then(result => setIsValid(result.valid))
-      .catch(() => setIsValid(false));
-  }, [entity, doc]);
+  if (status === 'missing') {
+    return (
+      <span className="text-xs ml-2 text-base-content/40" title="Nicht signiert">
+        ○
+      </span>
+    );
+  }
 
-  if (isValid === null || !entity.signature) return null;
+  if (status === 'unauthorized') {
+    return (
+      <span className="text-xs ml-2 text-warning" title="Keine Schreibberechtigung">
+        ⊘
+      </span>
+    );
+  }
 
+  const isValid = status === 'valid';
   return (
     <span
       className={`text-xs ml-2 cursor-pointer ${isValid ? 'text-success' : 'text-error'}`}
@@ -68,10 +87,21 @@ export function AssumptionCard({
   onVote,
   onEdit,
   onTagClick,
+  currentUserId,
   doc,
+  signatureStatuses,
+  requireSignatures = false,
+  relations = [],
+  availableAssumptions = [],
+  onAddRelation,
+  onRemoveRelation,
 }: AssumptionCardProps) {
   const [showLog, setShowLog] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showRelationPicker, setShowRelationPicker] = useState(false);
+  const [relationType, setRelationType] = useState<RelationType>('supports');
+  const [relationTargetId, setRelationTargetId] = useState('');
 
   const handleVote = (value: VoteValue) => {
     onVote(assumption.id, value);
@@ -87,6 +117,18 @@ export function AssumptionCard({
     setShowEditModal(false);
   };
 
+  // Restore an earlier version as a new (signed) edit
+  const handleRevert = (version: AssumptionVersion) => {
+    onEdit(assumption.id, version.sentence, version.tags, version.editId);
+  };
+
+  // Versions and conflicts only from edits with accepted signatures
+  const acceptedEdits = useMemo(
+    () => edits.filter((edit) => isSignatureAccepted(signatureStatuses?.edits[edit.id], requireSignatures)),
+    [edits, signatureStatuses, requireSignatures]
+  );
+  const editConflicts = useMemo(() => findEditConflicts(acceptedEdits), [acceptedEdits]);
+
   const uniqueVotes = useMemo(() => {
     const latestByDid = new Map<string, Vote>();
     votes.forEach((vote) => {
@@ -101,6 +143,28 @@ export function AssumptionCard({
     );
   }, [votes]);
 
+  // Votes shown in the VoteBar (forged ones are listed in the log but not counted)
+  const countedVotes = useMemo(
+    () =>
+      uniqueVotes.filter((vote) =>
+        isSignatureAccepted(signatureStatuses?.votes[vote.id], requireSignatures)
+      ),
+    [uniqueVotes, signatureStatuses, requireSignatures]
+  );
+
+  // "My network's opinion": votes weighted by the voter's trust degree
+  // (only available inside the AppLayout's trust engine)
+  const knownProfiles = useKnownProfilesContextOptional();
+  const networkVoteSummary = useMemo(() => {
+    if (!knownProfiles || !currentUserId) return undefined;
+    return summarizeVotes(countedVotes, currentUserId, {
+      getTrustDegree: (did) =>
+        did === currentUserId ? 0 : knownProfiles.getTrustLevel(did).degree,
+    });
+  }, [knownProfiles, countedVotes, currentUserId]);
+
+  const assumptionSignatureStatus = signatureStatuses?.assumptions[assumption.id];
+
   const activities = useMemo(() => {
     const voteActivities = uniqueVotes.map((vote) => ({
       kind: 'vote' as const,
@@ -115,6 +179,25 @@ export function AssumptionCard({
     return [...voteActivities, ...editActivities].sort((a, b) => b.ts - a.ts);
   }, [uniqueVotes, edits]);
 
+  // Relations to assumptions that are not shown (hidden, forged, deleted) are skipped
+  const assumptionsById = useMemo(
+    () => new Map(availableAssumptions.map((a) => [a.id, a])),
+    [availableAssumptions]
+  );
+  const visibleRelations = relations.filter(
+    (relation) =>
+      isSignatureAccepted(signatureStatuses?.relations[relation.id], requireSignatures) &&
+      assumptionsById.has(relation.sourceId === assumption.id ? relation.targetId : relation.sourceId)
+  );
+  const relationTargets = availableAssumptions.filter((a) => a.id !== assumption.id);
+
+  const handleAddRelation = () => {
+    if (!onAddRelation || !relationTargetId) return;
+    onAddRelation(assumption.id, relationTargetId, relationType);
+    setRelationTargetId('');
+    setShowRelationPicker(false);
+  };
+
   const resolveName = (did: string) => {
     // Dynamic lookup from identities map
     return doc?.identities?.[did]?.displayName || did;
@@ -126,18 +209,52 @@ export function AssumptionCard({
         <div className="flex items-start gap-3 justify-between">
           <p className="text-lg font-semibold text-base-content leading-relaxed">
             {assumption.sentence}
+            <SignatureIndicator status={assumptionSignatureStatus} />
           </p>
-          <button
-            className="btn btn-ghost btn-xs"
-            onClick={() => {
-              setShowEditModal(true);
-            }}
-            title="Annahme bearbeiten"
-          >
-            Edit
-          </button>
+          <div className="flex items-center gap-1 shrink-0">
+            {acceptedEdits.length > 1 && (
+              <button
+                className={`btn btn-ghost btn-xs ${editConflicts.length > 0 ? 'text-warning' : ''}`}
+                onClick={() => setShowHistory((v) => !v)}
+                title={
+                  editConflicts.length > 0
+                    ? 'Gleichzeitige Bearbeitungen – Verlauf prüfen'
+                    : 'Versionen anzeigen'
+                }
+              >
+                {editConflicts.length > 0 && '⚠ '}Verlauf
+              </button>
+            )}
+            <button
+              className="btn btn-ghost btn-xs"
+              onClick={() => {
+                setShowEditModal(true);
+              }}
+              title="Annahme bearbeiten"
+            >
+              Edit
+            </button>
+          </div>
         </div>
 
+        {showHistory && (
+          <div className="mt-2">
+            <EditHistory
+              edits={acceptedEdits}
+              currentSentence={assumption.sentence}
+              currentTags={tags.map((t) => t.name)}
+              resolveName={resolveName}
+              onRevert={handleRevert}
+            />
+          </div>
+        )}
+
+        {assumptionSignatureStatus === 'invalid' && (
+          <div className="alert alert-error py-2 text-sm mt-2" role="alert">
+            Die Signatur dieser Annahme ist ungültig – der Inhalt wurde möglicherweise gefälscht.
+          </div>
+        )}
+
         {tags.length > 0 && (
           <div className="flex flex-wrap gap-2 mt-2">
             {tags.map((tag) => (
@@ -153,9 +270,117 @@ export function AssumptionCard({
           </div>
         )}
 
+        {/* Relations to other assumptions */}
+        {(visibleRelations.length > 0 || (onAddRelation && relationTargets.length > 0)) && (
+          <div className="mt-3 text-sm">
+            {visibleRelations.length > 0 && (
+              <ul className="space-y-1">
+                {visibleRelations.map((relation) => {
+                  const isOutgoing = relation.sourceId === assumption.id;
+                  const other = assumptionsById.get(isOutgoing ? relation.targetId : relation.sourceId);
+                  return (
+                    <li key={relation.id} className="flex items-center gap-2">
+                      <span className="flex-1 text-base-content/70">
+                        {isOutgoing ? (
+                          <>
+                            <span className="badge badge-sm badge-outline mr-1">
+                              {RELATION_TYPE_LABELS[relation.type]}
+                            </span>
+                            „{other?.sentence}“
+                          </>
+                        ) : (
+                          <>
+                            „{other?.sentence}“
+                            <span className="badge badge-sm badge-outline mx-1">
+                              {RELATION_TYPE_LABELS[relation.type]}
+                            </span>
+                            diese Annahme
+                          </>
+                        )}
+                        <SignatureIndicator status={signatureStatuses?.relations[relation.id]} />
+                      </span>
+                      {onRemoveRelation && relation.createdBy === currentUserId && (
+                        <button
+                          type="button"
+                          className="btn btn-ghost btn-xs"
+                          onClick={() => onRemoveRelation(relation.id)}
+                          title="Beziehung entfernen"
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+
+            {onAddRelation && relationTargets.length > 0 && (
+              showRelationPicker ? (
+                <div className="flex flex-wrap items-center gap-2 mt-2">
+                  <span className="text-base-content/70">Diese Annahme</span>
+                  <select
+                    className="select select-bordered select-xs"
+                    value={relationType}
+                    onChange={(e) => setRelationType(e.target.value as RelationType)}
+                    aria-label="Art der Beziehung"
+                  >
+                    {RELATION_TYPES.map((type) => (
+                      <option key={type} value={type}>
+                        {RELATION_TYPE_LABELS[type]}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    className="select select-bordered select-xs flex-1 min-w-0"
+                    value={relationTargetId}
+                    onChange={(e) => setRelationTargetId(e.target.value)}
+                    aria-label="Andere Annahme"
+                  >
+                    <option value="">Annahme wählen...</option>
+                    {relationTargets.map((target) => (
+                      <option key={target.id} value={target.id}>
+                        {target.sentence}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    className="btn btn-primary btn-xs"
+                    onClick={handleAddRelation}
+                    disabled={!relationTargetId}
+                  >
+                    Verknüpfen
+                  </button>
+                  <button
+                    type="button"
+                    className="btn btn-ghost btn-xs"
+                    onClick={() => setShowRelationPicker(false)}
+                  >
+                    Abbrechen
+                  </button>
+                </div>
+              ) : (
+                <button
+                  type="button"
+                  className="btn btn-ghost btn-xs mt-1"
+                  onClick={() => setShowRelationPicker(true)}
+                >
+                  + Beziehung hinzufügen
+                </button>
+              )
+            )}
+          </div>
+        )}
+
         {/* Vote Bar */}
         <div className="mt-4">
-          <VoteBar summary={voteSummary} votes={uniqueVotes} doc={doc} />
+          <VoteBar
+            summary={voteSummary}
+            votes={countedVotes}
+            doc={doc}
+            networkSummary={networkVoteSummary}
+          />
         </div>
 
         {/* Vote Buttons */}
@@ -246,8 +471,22 @@ export function AssumptionCard({
                   if (item.kind === 'vote') {
                     const vote = item.vote;
                     const voterName = resolveName(vote.voterDid);
+                    const voteStatus = signatureStatuses?.votes[vote.id];
+                    const isCounted = isSignatureAccepted(voteStatus, requireSignatures);
                     return (
-                      <div key={`vote-${vote.id}`} className="flex flex-col gap-1 text-sm border border-base-200 rounded-lg p-2">
+                      <div
+                        key={`vote-${vote.id}`}
+                        className={`flex flex-col gap-1 text-sm border rounded-lg p-2 ${
+                          isCounted ? 'border-base-200' : 'border-error/50 opacity-60'
+                        }`}
+                        title={
+                          isCounted
+                            ? undefined
+                            : voteStatus === 'unauthorized'
+                              ? 'Stimme wird nicht gezählt (keine Schreibberechtigung)'
+                              : 'Stimme wird nicht gezählt (Signatur ungültig oder fehlend)'
+                        }
+                      >
                         <div className="flex items-center gap-2 justify-between">
                           <div className="flex items-center gap-2">
                             <span
@@ -274,7 +513,7 @@ export function AssumptionCard({
                             <span className="text-xs text-base-content/60" title={exactTime}>
                               {relativeTime}
                             </span>
-                            <SignatureIndicator entity={vote} doc={doc} />
+                            <SignatureIndicator status={voteStatus} />
                           </div>
                         </div>
                       </div>
@@ -304,15 +543,18 @@ export function AssumptionCard({
                           <span className="text-xs text-base-content/60" title={exactTime}>
                             {relativeTime}
                           </span>
-                          <SignatureIndicator entity={edit} doc={doc} />
+                          <SignatureIndicator status={signatureStatuses?.edits[edit.id]} />
                         </div>
                       </div>
                       <div className="text-xs text-base-content/70 space-y-1">
-                        {edit.type === 'edit' && edit.previousSentence && edit.previousSentence !== edit.newSentence && (
-                          <span className="line-through block">{edit.previousSentence}</span>
-                        )}
                         {edit.newSentence && edit.previousSentence !== edit.newSentence && (
-                          <span className="block">{edit.newSentence}</span>
+                          <span className="block">
+                            {edit.type === 'edit' && edit.previousSentence ? (
+                              <DiffText previous={edit.previousSentence} next={edit.newSentence} />
+                            ) : (
+                              edit.newSentence
+                            )}
+                          </span>
                         )}
                         {tagsChanged && (
                           <div className="mt-1 flex gap-1 flex-wrap items-center">
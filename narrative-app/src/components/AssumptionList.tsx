@@ -1,4 +1,14 @@
-import type { Assumption, Tag, Vote, VoteValue, EditEntry, OpinionGraphDoc } from '../schema';
+import type {
+  Assumption,
+  AssumptionRelation,
+  RelationType,
+  Tag,
+  Vote,
+  VoteValue,
+  EditEntry,
+  OpinionGraphDoc,
+  SignatureStatusMap,
+} from '../schema';
 import { AssumptionCard } from './AssumptionCard';
 
 interface AssumptionListProps {
@@ -7,12 +17,19 @@ interface AssumptionListProps {
   getVotesForAssumption: (assumptionId: string) => Vote[];
   getEditsForAssumption: (assumptionId: string) => EditEntry[];
   onVote: (assumptionId: string, value: VoteValue) => void;
-  onEdit: (assumptionId: string, newSentence: string, tags: string[]) => void;
+  onEdit: (assumptionId: string, newSentence: string, tags: string[], revertedTo?: string) => void;
   tags: Tag[];
   onTagClick?: (tagId: string) => void;
   currentUserId?: string;
   doc?: OpinionGraphDoc;
+  signatureStatuses?: SignatureStatusMap;
+  requireSignatures?: boolean;
   onCreate?: () => void;
+  getRelationsForAssumption?: (assumptionId: string) => AssumptionRelation[];
+  /** Possible relation targets (defaults to the listed assumptions) */
+  availableAssumptions?: Assumption[];
+  onAddRelation?: (sourceId: string, targetId: string, type: RelationType) => void;
+  onRemoveRelation?: (relationId: string) => void;
 }
 
 /**
@@ -29,7 +46,13 @@ export function AssumptionList({
   onTagClick,
   currentUserId,
   doc,
+  signatureStatuses,
+  requireSignatures,
   onCreate,
+  getRelationsForAssumption,
+  availableAssumptions,
+  onAddRelation,
+  onRemoveRelation,
 }: AssumptionListProps) {
   const validAssumptions = assumptions.filter((a): a is Assumption => a !== null);
   const tagMap = tags.reduce<Record<string, Tag>>((acc, tag) => {
@@ -69,6 +92,12 @@ export function AssumptionList({
           onTagClick={onTagClick}
           currentUserId={currentUserId}
           doc={doc}
+          signatureStatuses={signatureStatuses}
+          requireSignatures={requireSignatures}
+          relations={getRelationsForAssumption?.(assumption.id)}
+          availableAssumptions={availableAssumptions ?? validAssumptions}
+          onAddRelation={onAddRelation}
+          onRemoveRelation={onRemoveRelation}
         />
       ))}
     </div>
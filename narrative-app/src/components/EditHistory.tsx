@@ -0,0 +1,176 @@
+/**
+ * Edit History Component
+ *
+ * Lists all versions of an assumption with word-level diffs, lets the user
+ * restore any earlier version (as a new edit) and warns about concurrent
+ * conflicting edits (see utils/editHistory).
+ */
+
+import { useMemo } from 'react';
+import { formatRelativeTime } from 'narrative-ui';
+import type { EditEntry } from '../schema';
+import { buildVersionHistory, diffWords, findEditConflicts } from '../utils/editHistory';
+import type { AssumptionVersion } from '../utils/editHistory';
+
+interface EditHistoryProps {
+  /** Accepted edit entries of the assumption */
+  edits: EditEntry[];
+  currentSentence: string;
+  /** Tag names of the current version */
+  currentTags: string[];
+  resolveName: (did: string) => string;
+  /** Restore a version as a new edit (without: read-only) */
+  onRevert?: (version: AssumptionVersion) => void;
+}
+
+/**
+ * Word-level diff of two sentences
+ */
+export function DiffText({ previous, next }: { previous: string; next: string }) {
+  return (
+    <span>
+      {diffWords(previous, next).map((part, index) =>
+        part.type === 'equal' ? (
+          <span key={index}>{part.text}</span>
+        ) : part.type === 'added' ? (
+          <ins key={index} className="bg-success/20 text-success no-underline rounded">
+            {part.text}
+          </ins>
+        ) : (
+          <del key={index} className="bg-error/20 text-error rounded">
+            {part.text}
+          </del>
+        )
+      )}
+    </span>
+  );
+}
+
+function sameTags(a: string[], b: string[]): boolean {
+  const normalize = (tags: string[]) => tags.map((t) => t.trim().toLowerCase()).sort().join('|');
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Added and removed tags between two versions
+ */
+function TagDiff({ previous, next }: { previous: string[]; next: string[] }) {
+  const removed = previous.filter((tag) => !next.includes(tag));
+  const added = next.filter((tag) => !previous.includes(tag));
+  if (removed.length === 0 && added.length === 0) return null;
+
+  return (
+    <div className="flex gap-1 flex-wrap items-center text-[11px]">
+      <span className="text-base-content/60">Tags:</span>
+      {removed.map((tag) => (
+        <del key={`removed-${tag}`} className="badge badge-xs badge-error badge-outline">
+          {tag}
+        </del>
+      ))}
+      {added.map((tag) => (
+        <ins key={`added-${tag}`} className="badge badge-xs badge-success badge-outline no-underline">
+          {tag}
+        </ins>
+      ))}
+    </div>
+  );
+}
+
+export function EditHistory({
+  edits,
+  currentSentence,
+  currentTags,
+  resolveName,
+  onRevert,
+}: EditHistoryProps) {
+  const versions = useMemo(() => buildVersionHistory(edits), [edits]);
+  const conflicts = useMemo(() => findEditConflicts(edits), [edits]);
+
+  const versionNumbers = new Map(versions.map((version, index) => [version.editId, index + 1]));
+  const isCurrent = (version: AssumptionVersion) =>
+    version.sentence === currentSentence && sameTags(version.tags, currentTags);
+
+  return (
+    <div className="space-y-3">
+      {/* Concurrent edits */}
+      {conflicts.map((conflict) => (
+        <div key={conflict.edits[0].id} className="alert alert-warning flex-col items-stretch text-sm" role="alert">
+          <div>
+            <span className="font-semibold">Gleichzeitige Bearbeitungen: </span>
+            {conflict.edits.map((edit) => resolveName(edit.editorDid)).join(', ')} haben dieselbe
+            Fassung unabhängig voneinander geändert. Angezeigt wird nur eine davon.
+          </div>
+          <ul className="space-y-1">
+            {conflict.edits.map((edit) => {
+              const version = versions.find((v) => v.editId === edit.id);
+              return (
+                <li key={edit.id} className="flex items-start justify-between gap-2">
+                  <span>
+                    <span className="font-semibold">{resolveName(edit.editorDid)}: </span>
+                    <DiffText previous={conflict.baseSentence} next={edit.newSentence} />
+                  </span>
+                  {version && isCurrent(version) ? (
+                    <span className="badge badge-sm">angezeigt</span>
+                  ) : (
+                    version &&
+                    onRevert && (
+                      <button className="btn btn-xs" onClick={() => onRevert(version)}>
+                        Übernehmen
+                      </button>
+                    )
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+
+      {/* Versions, newest first */}
+      <ol className="space-y-2">
+        {versions
+          .map((version, index) => ({ version, previous: versions[index - 1] }))
+          .reverse()
+          .map(({ version, previous }) => (
+            <li key={version.editId} className="border border-base-200 rounded-lg p-2 text-sm space-y-1">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <span className="font-semibold">Version {versionNumbers.get(version.editId)}</span>
+                  <span className="text-base-content/70">{resolveName(version.editorDid)}</span>
+                  <span
+                    className="text-xs text-base-content/60"
+                    title={new Date(version.createdAt).toLocaleString()}
+                  >
+                    {formatRelativeTime(version.createdAt)}
+                  </span>
+                  {isCurrent(version) && <span className="badge badge-sm badge-primary">aktuell</span>}
+                  {version.revertedTo && versionNumbers.has(version.revertedTo) && (
+                    <span className="badge badge-sm badge-ghost">
+                      ↺ Version {versionNumbers.get(version.revertedTo)}
+                    </span>
+                  )}
+                </div>
+                {onRevert && !isCurrent(version) && (
+                  <button
+                    className="btn btn-xs btn-ghost"
+                    onClick={() => onRevert(version)}
+                    title="Diese Version als neue Bearbeitung wiederherstellen"
+                  >
+                    Wiederherstellen
+                  </button>
+                )}
+              </div>
+              <div className="text-base-content/80">
+                {previous ? (
+                  <DiffText previous={previous.sentence} next={version.sentence} />
+                ) : (
+                  version.sentence
+                )}
+              </div>
+              {previous && <TagDiff previous={previous.tags} next={version.tags} />}
+            </li>
+          ))}
+      </ol>
+    </div>
+  );
+}
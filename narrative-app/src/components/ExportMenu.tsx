@@ -0,0 +1,102 @@
+/**
+ * Export Menu Component
+ *
+ * Exports the shown assumptions as CSV, Markdown or signed JSON bundle
+ * (see utils/assumptionExchange).
+ */
+
+import { useState } from 'react';
+import { downloadFile, type IdentityProfile } from 'narrative-ui';
+import type { Assumption, OpinionGraphData, VoteSummary } from '../schema';
+import {
+  assumptionsToCsv,
+  assumptionsToMarkdown,
+  createAssumptionBundle,
+} from '../utils/assumptionExchange';
+import type { AssumptionBundle, SignedAssumptionBundle } from '../utils/assumptionExchange';
+
+interface ExportMenuProps {
+  /** Assumptions to export (as currently shown) */
+  assumptions: Assumption[];
+  data: OpinionGraphData;
+  identities: Record<string, IdentityProfile>;
+  getVoteSummary: (assumptionId: string) => VoteSummary;
+  currentUserDid: string;
+  /** Sign a bundle (no bundle export without) */
+  onSignBundle?: (bundle: AssumptionBundle) => Promise<SignedAssumptionBundle>;
+}
+
+export function ExportMenu({
+  assumptions,
+  data,
+  identities,
+  getVoteSummary,
+  currentUserDid,
+  onSignBundle,
+}: ExportMenuProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [isSigning, setIsSigning] = useState(false);
+
+  const date = new Date().toISOString().slice(0, 10);
+
+  const handleExportCsv = () => {
+    downloadFile(
+      assumptionsToCsv(assumptions, data, identities, getVoteSummary),
+      `annahmen-${date}.csv`,
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  const handleExportMarkdown = () => {
+    downloadFile(
+      assumptionsToMarkdown(assumptions, data, identities, getVoteSummary),
+      `annahmen-${date}.md`,
+      'text/markdown;charset=utf-8'
+    );
+  };
+
+  const handleExportBundle = async () => {
+    if (!onSignBundle) return;
+    setError(null);
+    setIsSigning(true);
+    try {
+      const signed = await onSignBundle(
+        createAssumptionBundle(assumptions, data, identities, currentUserDid)
+      );
+      downloadFile(JSON.stringify(signed, null, 2), `annahmen-${date}.json`, 'application/json');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Bündel konnte nicht signiert werden');
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  return (
+    <div className="dropdown dropdown-end self-end">
+      <button
+        tabIndex={0}
+        className="btn btn-sm btn-outline"
+        disabled={assumptions.length === 0}
+        title={`${assumptions.length} Annahmen exportieren`}
+      >
+        {isSigning ? <span className="loading loading-spinner loading-xs"></span> : 'Export'}
+      </button>
+      <ul tabIndex={0} className="dropdown-content menu bg-base-100 rounded-box shadow-lg z-20 w-56 p-2">
+        <li>
+          <button onClick={handleExportCsv}>CSV</button>
+        </li>
+        <li>
+          <button onClick={handleExportMarkdown}>Markdown</button>
+        </li>
+        {onSignBundle && (
+          <li>
+            <button onClick={handleExportBundle} disabled={isSigning}>
+              Signiertes JSON-Bündel
+            </button>
+          </li>
+        )}
+        {error && <li className="text-error text-xs px-4 py-1">{error}</li>}
+      </ul>
+    </div>
+  );
+}
@@ -1,23 +1,89 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
+import { parseImportText } from '../utils/assumptionExchange';
+import type { BundleImportSummary, ImportCandidate, ImportFormat } from '../utils/assumptionExchange';
 
 interface ImportModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onImport: (text: string) => Promise<void>;
+  /** Create the new (non-duplicate) assumptions of a JSON, CSV or Markdown import */
+  onImport: (assumptions: ImportCandidate[]) => Promise<void>;
+  /** Sentences already in the workspace (duplicate detection) */
+  existingSentences?: string[];
+  /** Import a signed assumption bundle (without: bundles are rejected) */
+  onImportBundle?: (file: unknown) => Promise<BundleImportSummary>;
 }
 
-export function ImportModal({ isOpen, onClose, onImport }: ImportModalProps) {
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV',
+  markdown: 'Markdown',
+  bundle: 'Signiertes Bündel',
+};
+
+export function ImportModal({
+  isOpen,
+  onClose,
+  onImport,
+  existingSentences = [],
+  onImportBundle,
+}: ImportModalProps) {
   const [importText, setImportText] = useState('');
   const [importError, setImportError] = useState('');
+  const [bundleResult, setBundleResult] = useState<BundleImportSummary | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  // Live preview with duplicate detection
+  const preview = useMemo(() => {
+    if (!importText.trim()) return null;
+    try {
+      return { ...parseImportText(importText, existingSentences), error: '' };
+    } catch (error) {
+      return {
+        format: 'json' as ImportFormat,
+        candidates: [],
+        error: error instanceof Error ? error.message : 'Ungültiges Format',
+      };
+    }
+  }, [importText, existingSentences]);
+
+  const newCandidates = preview?.candidates.filter((c) => !c.duplicate) ?? [];
+  const duplicateCount = (preview?.candidates.length ?? 0) - newCandidates.length;
+
+  const handleClose = () => {
+    setImportText('');
+    setImportError('');
+    setBundleResult(null);
+    onClose();
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setImportText(await file.text());
+    setImportError('');
+    setBundleResult(null);
+    e.target.value = '';
+  };
 
   const handleImport = async () => {
     setImportError('');
+    setIsImporting(true);
     try {
-      await onImport(importText);
-      setImportText('');
-      onClose();
+      if (preview?.format === 'bundle') {
+        if (!onImportBundle) throw new Error('Bündel können hier nicht importiert werden');
+        setBundleResult(await onImportBundle(JSON.parse(importText)));
+        setImportText('');
+        return;
+      }
+
+      if (preview?.error) throw new Error(preview.error);
+      if (newCandidates.length === 0) throw new Error('Keine neuen Annahmen gefunden');
+      await onImport(newCandidates);
+      handleClose();
     } catch (error) {
       setImportError(error instanceof Error ? error.message : 'Import fehlgeschlagen');
+    } finally {
+      setIsImporting(false);
     }
   };
 
@@ -28,7 +94,7 @@ export function ImportModal({ isOpen, onClose, onImport }: ImportModalProps) {
       <div className="modal-box max-w-xl space-y-4">
         <button
           className="btn btn-sm btn-circle btn-ghost absolute right-2 top-2"
-          onClick={onClose}
+          onClick={handleClose}
         >
           <svg
             xmlns="http://www.w3.org/2000/svg"
@@ -45,27 +111,87 @@ export function ImportModal({ isOpen, onClose, onImport }: ImportModalProps) {
             />
           </svg>
         </button>
-        <h3 className="font-bold text-lg">Assumptions importieren (JSON-Array)</h3>
+        <h3 className="font-bold text-lg">Assumptions importieren</h3>
         <p className="text-sm text-base-content/70">
-          Erwartet wird ein JSON-Array von Strings oder Objekten mit <code>{"{ sentence, tags? }"}</code>.
+          JSON-Array von Strings oder <code>{"{ sentence, tags? }"}</code>, CSV mit Spalten
+          „Annahme“ und „Tags“, Markdown-Liste (Tags als <code>#tag</code>) oder ein
+          signiertes Annahmen-Bündel aus einem anderen Workspace.
         </p>
+        <input
+          type="file"
+          accept=".json,.csv,.md,.markdown,.txt"
+          className="file-input file-input-bordered file-input-sm w-full"
+          onChange={handleFile}
+          aria-label="Datei auswählen"
+        />
         <textarea
           className="textarea textarea-bordered w-full h-40"
           placeholder='z. B. [{"sentence":"Beispiel","tags":["foo","bar"]}]'
           value={importText}
-          onChange={(e) => setImportText(e.target.value)}
+          onChange={(e) => {
+            setImportText(e.target.value);
+            setBundleResult(null);
+          }}
         />
-        {importError && <div className="text-error text-sm">{importError}</div>}
+
+        {/* Preview */}
+        {preview && !preview.error && (
+          <div className="text-sm space-y-2">
+            <div className="text-base-content/70">
+              Format: {FORMAT_LABELS[preview.format]}
+              {preview.format === 'bundle'
+                ? ' – Signaturen werden beim Import geprüft'
+                : ` · ${newCandidates.length} neu${duplicateCount > 0 ? `, ${duplicateCount} Duplikate` : ''}`}
+            </div>
+            {preview.candidates.length > 0 && (
+              <ul className="max-h-48 overflow-y-auto space-y-1 bg-base-200 rounded-lg p-2">
+                {preview.candidates.map((candidate, index) => (
+                  <li key={index} className={candidate.duplicate ? 'opacity-50' : ''}>
+                    {candidate.sentence}
+                    {candidate.tags.map((tag) => (
+                      <span key={tag} className="badge badge-ghost badge-sm ml-1">
+                        {tag}
+                      </span>
+                    ))}
+                    {candidate.duplicate && (
+                      <span className="badge badge-warning badge-sm ml-1">
+                        {candidate.duplicate === 'existing' ? 'bereits vorhanden' : 'doppelt'}
+                      </span>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {bundleResult && (
+          <div className="alert alert-success text-sm">
+            <span>
+              {bundleResult.imported} Annahmen importiert
+              {bundleResult.duplicates > 0 && `, ${bundleResult.duplicates} Duplikate übersprungen`}
+              {bundleResult.rejected > 0 && `, ${bundleResult.rejected} ohne gültige Signatur abgelehnt`}
+            </span>
+          </div>
+        )}
+
+        {(importError || preview?.error) && (
+          <div className="text-error text-sm">{importError || preview?.error}</div>
+        )}
         <div className="modal-action">
-          <button className="btn" onClick={onClose}>
-            Abbrechen
+          <button className="btn" onClick={handleClose}>
+            {bundleResult ? 'Schließen' : 'Abbrechen'}
           </button>
-          <button className="btn btn-primary" onClick={handleImport}>
+          <button
+            className="btn btn-primary"
+            onClick={handleImport}
+            disabled={isImporting || !preview || Boolean(preview.error)}
+          >
             Importieren
           </button>
         </div>
       </div>
-      <div className="modal-backdrop" onClick={onClose}></div>
+      <div className="modal-backdrop" onClick={handleClose}></div>
     </div>
   );
 }
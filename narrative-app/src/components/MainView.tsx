@@ -1,11 +1,16 @@
 import type { DocHandle, AutomergeUrl, DocumentId } from '@automerge/automerge-repo';
 import { useDocHandle, useDocument } from '@automerge/automerge-repo-react-hooks';
-import { AppLayout, type AppContextValue, type UserDocument, type WorkspaceLoadingState, type ContentState } from 'narrative-ui';
+import { AppLayout, type AppContextValue, type UserDocument, type WorkspaceLoadingState, type ContentState, type PrivateKeySource } from 'narrative-ui';
 import { useOpinionGraph } from '../hooks/useOpinionGraph';
 import type { OpinionGraphDoc } from '../schema/opinion-graph';
+import { getRelationsForAssumption } from '../schema/opinion-graph';
 import { AssumptionList } from './AssumptionList';
+import { ArgumentGraph } from './ArgumentGraph';
+import { OpinionInsights } from './OpinionInsights';
 import { CreateAssumptionModal } from './CreateAssumptionModal';
 import { ImportModal } from './ImportModal';
+import { ExportMenu } from './ExportMenu';
+import type { ImportCandidate } from '../utils/assumptionExchange';
 import { useState } from 'react';
 // Debug extensions are auto-initialized via main.tsx import
 import '../debug';
@@ -13,7 +18,7 @@ import '../debug';
 interface MainViewProps {
   documentId: DocumentId | null;
   currentUserDid: string;
-  privateKey?: string;
+  privateKey?: PrivateKeySource;
   publicKey?: string;
   displayName?: string;
   onResetIdentity: () => void;
@@ -75,25 +80,15 @@ export function MainView({
   const [showImportModal, setShowImportModal] = useState(false);
   const [activeTagFilter, setActiveTagFilter] = useState<string | null>(null);
   const [webOfTrustFilter, setWebOfTrustFilter] = useState(false);
+  const [view, setView] = useState<'list' | 'graph' | 'insights'>('list');
 
   // Debug state is automatically updated via useAppContext in AppLayout
 
-  const handleImportAssumptions = async (importText: string) => {
+  const handleImportAssumptions = async (candidates: ImportCandidate[]) => {
     if (!narrative) return;
 
-    const parsed = JSON.parse(importText || '[]');
-    if (!Array.isArray(parsed)) throw new Error('JSON Array erwartet');
-
-    for (const item of parsed) {
-      const sentence = typeof item === 'string' ? item : item?.sentence;
-      const tags =
-        item && Array.isArray(item.tags)
-          ? item.tags.filter((t: unknown) => typeof t === 'string')
-          : [];
-
-      if (sentence && typeof sentence === 'string') {
-        await narrative.createAssumption(sentence, tags);
-      }
+    for (const { sentence, tags } of candidates) {
+      await narrative.createAssumption(sentence, tags);
     }
   };
 
@@ -132,13 +127,19 @@ export function MainView({
           return votes.filter((vote) => !ctx.hiddenUserDids.has(vote.voterDid));
         };
 
+        // Votes that count towards the summary (hidden users and forged signatures excluded)
+        const getCountedVotesForAssumption = (assumptionId: string) =>
+          getFilteredVotesForAssumption(assumptionId).filter(
+            (vote) => narrative?.isEntityAccepted('votes', vote.id) ?? true
+          );
+
         const getFilteredEditsForAssumption = (assumptionId: string) => {
           const edits = narrative?.getEditsForAssumption(assumptionId) || [];
           return edits.filter((edit) => !ctx.hiddenUserDids.has(edit.editorDid));
         };
 
         const getFilteredVoteSummary = (assumptionId: string) => {
-          const filteredVotes = getFilteredVotesForAssumption(assumptionId);
+          const filteredVotes = getCountedVotesForAssumption(assumptionId);
           const green = filteredVotes.filter((v) => v.value === 'green').length;
           const yellow = filteredVotes.filter((v) => v.value === 'yellow').length;
           const red = filteredVotes.filter((v) => v.value === 'red').length;
@@ -153,6 +154,21 @@ export function MainView({
           };
         };
 
+        // Filter out assumptions from hidden users and rejected signatures
+        // (forged always, unsigned only in strict mode)
+        const visibleAssumptions = narrative
+          ? narrative.assumptions.filter(
+              (a) => !ctx.hiddenUserDids.has(a.createdBy) && narrative.isEntityAccepted('assumptions', a.id)
+            )
+          : [];
+
+        // Relations without hidden users and rejected signatures
+        const visibleRelations = Object.fromEntries(
+          Object.entries(narrative?.doc.data.relations ?? {}).filter(
+            ([id, r]) => !ctx.hiddenUserDids.has(r.createdBy) && narrative!.isEntityAccepted('relations', id)
+          )
+        );
+
         const sortedAssumptions = (() => {
           if (!narrative) return [];
 
@@ -163,19 +179,15 @@ export function MainView({
                 .map((id) => votes[id])
                 .filter((v): v is NonNullable<typeof votes[string]> => Boolean(v))
                 .filter((v) => !ctx.hiddenUserDids.has(v.voterDid))
+                .filter((v) => narrative.isEntityAccepted('votes', v.id))
                 .reduce((latest, vote) => Math.max(latest, vote.updatedAt ?? vote.createdAt), 0) || 0
             );
           };
 
-          // Filter out assumptions from hidden users
-          const withoutHidden = narrative.assumptions.filter(
-            (a) => !ctx.hiddenUserDids.has(a.createdBy)
-          );
-
           // Apply Web of Trust filter if active
           // Uses UserDocument trustGiven to filter by trusted users
           const withTrustFilter = webOfTrustFilter
-            ? withoutHidden.filter((a) => {
+            ? visibleAssumptions.filter((a) => {
                 // Always show own assumptions
                 if (a.createdBy === currentUserDid) return true;
                 // Check if we trust this user (via UserDocument)
@@ -184,7 +196,7 @@ export function MainView({
                   (att) => att.trusteeDid === a.createdBy
                 );
               })
-            : withoutHidden;
+            : visibleAssumptions;
 
           const filtered = activeTagFilter
             ? withTrustFilter.filter((a) => a.tagIds.includes(activeTagFilter))
@@ -250,6 +262,27 @@ export function MainView({
                         <span>{webOfTrustFilter ? 'Web of Trust' : 'Alle'}</span>
                       </button>
 
+                      {/* Strict signature mode (workspace-wide) */}
+                      {narrative && (
+                        <button
+                          className={`badge gap-1 p-4 cursor-pointer transition-all ${
+                            narrative.requireSignatures
+                              ? 'badge-info'
+                              : 'badge-ghost border-base-300 hover:border-info'
+                          }`}
+                          onClick={() => narrative.setRequireSignatures(!narrative.requireSignatures)}
+                          disabled={!narrative.roles.can(narrative.currentUserDid, 'admin')}
+                          title={
+                            narrative.requireSignatures
+                              ? 'Unsignierte Einträge werden ausgeblendet'
+                              : 'Unsignierte Einträge werden angezeigt'
+                          }
+                        >
+                          <span>🔐</span>
+                          <span>{narrative.requireSignatures ? 'Nur signiert' : 'Alle Signaturen'}</span>
+                        </button>
+                      )}
+
                       {/* Tag Filter */}
                       {activeTagFilter && narrative && (
                         <div className="badge badge-primary gap-1 p-4 pr-1">
@@ -265,6 +298,37 @@ export function MainView({
                       )}
                     </div>
                     <div className="flex items-center gap-3 flex-wrap">
+                      {/* List, argument graph or insights */}
+                      <div className="join self-end">
+                        <button
+                          className={`btn btn-sm join-item ${view === 'list' ? 'btn-active' : ''}`}
+                          onClick={() => setView('list')}
+                        >
+                          Liste
+                        </button>
+                        <button
+                          className={`btn btn-sm join-item ${view === 'graph' ? 'btn-active' : ''}`}
+                          onClick={() => setView('graph')}
+                        >
+                          Graph
+                        </button>
+                        <button
+                          className={`btn btn-sm join-item ${view === 'insights' ? 'btn-active' : ''}`}
+                          onClick={() => setView('insights')}
+                        >
+                          Insights
+                        </button>
+                      </div>
+                      {narrative && (
+                        <ExportMenu
+                          assumptions={sortedAssumptions}
+                          data={narrative.doc.data}
+                          identities={narrative.doc.identities}
+                          getVoteSummary={getFilteredVoteSummary}
+                          currentUserDid={narrative.currentUserDid}
+                          onSignBundle={privateKey ? narrative.signBundle : undefined}
+                        />
+                      )}
                       <label className="form-control w-full md:w-64">
                         <div className="label py-0">
                           <span className="label-text">Sortieren nach</span>
@@ -284,7 +348,24 @@ export function MainView({
                   </div>
                 </div>
 
-                {narrative && (
+                {narrative && view === 'graph' && (
+                  <ArgumentGraph
+                    assumptions={sortedAssumptions}
+                    relations={Object.values(visibleRelations)}
+                    getVoteSummary={getFilteredVoteSummary}
+                  />
+                )}
+
+                {narrative && view === 'insights' && (
+                  <OpinionInsights
+                    assumptions={sortedAssumptions}
+                    getVotesForAssumption={getCountedVotesForAssumption}
+                    identities={narrative.doc.identities}
+                    currentUserId={narrative.currentUserDid}
+                  />
+                )}
+
+                {narrative && view === 'list' && (
                   <AssumptionList
                     assumptions={sortedAssumptions}
                     getVoteSummary={getFilteredVoteSummary}
@@ -296,7 +377,15 @@ export function MainView({
                     onTagClick={(tagId) => setActiveTagFilter((prev) => (prev === tagId ? null : tagId))}
                     currentUserId={narrative.currentUserDid}
                     doc={narrative.doc}
+                    signatureStatuses={narrative.signatureStatuses}
+                    requireSignatures={narrative.requireSignatures}
                     onCreate={() => setIsCreateModalOpen(true)}
+                    getRelationsForAssumption={(assumptionId) =>
+                      getRelationsForAssumption(visibleRelations, assumptionId)
+                    }
+                    availableAssumptions={visibleAssumptions}
+                    onAddRelation={narrative.canEdit ? narrative.addRelation : undefined}
+                    onRemoveRelation={narrative.canEdit ? narrative.removeRelation : undefined}
                   />
                 )}
               </div>
@@ -305,7 +394,8 @@ export function MainView({
               <button
                 className="btn btn-primary gap-2 fixed bottom-6 right-6 shadow-lg shadow-black/30"
                 onClick={() => setIsCreateModalOpen(true)}
-                title="New Assumption"
+                disabled={narrative?.canEdit === false}
+                title={narrative?.canEdit === false ? 'Nur Lesezugriff' : 'New Assumption'}
               >
                 <svg
                   xmlns="http://www.w3.org/2000/svg"
@@ -343,6 +433,8 @@ export function MainView({
               isOpen={showImportModal}
               onClose={() => setShowImportModal(false)}
               onImport={handleImportAssumptions}
+              existingSentences={narrative?.assumptions.map((a) => a.sentence)}
+              onImportBundle={narrative?.importBundle}
             />
 
             {narrative && (
@@ -0,0 +1,186 @@
+/**
+ * Opinion Insights Component
+ *
+ * Shows the opinion groups found among the voters, the assumptions all
+ * groups agree on (consensus) and the ones that split them (divisive).
+ * See utils/opinionClustering for the analysis.
+ */
+
+import { useMemo } from 'react';
+import type { IdentityProfile } from 'narrative-ui';
+import type { Assumption, Vote } from '../schema';
+import { analyzeOpinions } from '../utils/opinionClustering';
+import type { AssumptionInsight, ClusterVoteStats } from '../utils/opinionClustering';
+
+interface OpinionInsightsProps {
+  /** Visible assumptions */
+  assumptions: Assumption[];
+  /** Counted votes of an assumption (hidden users and rejected signatures excluded) */
+  getVotesForAssumption: (assumptionId: string) => Vote[];
+  identities?: Record<string, IdentityProfile>;
+  currentUserId?: string;
+}
+
+const GROUP_COLORS = ['#3b82f6', '#a855f7', '#f97316', '#14b8a6']; // blue, purple, orange, teal
+
+function getGroupName(index: number): string {
+  return `Gruppe ${String.fromCharCode(65 + index)}`;
+}
+
+function percent(part: number, total: number): string {
+  return total === 0 ? '–' : `${Math.round((part / total) * 100)}%`;
+}
+
+/**
+ * Small agree/pass/disagree bar of one group
+ */
+function GroupVotes({ stats, index }: { stats: ClusterVoteStats; index: number }) {
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <span className="w-20 shrink-0 font-medium" style={{ color: GROUP_COLORS[index % GROUP_COLORS.length] }}>
+        {getGroupName(index)}
+      </span>
+      {stats.total === 0 ? (
+        <span className="opacity-50">keine Stimmen</span>
+      ) : (
+        <>
+          <div className="flex h-2 flex-1 rounded overflow-hidden bg-base-300">
+            <div className="bg-success h-full" style={{ width: percent(stats.green, stats.total) }} />
+            <div className="bg-warning h-full" style={{ width: percent(stats.yellow, stats.total) }} />
+            <div className="bg-error h-full" style={{ width: percent(stats.red, stats.total) }} />
+          </div>
+          <span className="w-24 shrink-0 text-right opacity-60">
+            🟢 {percent(stats.green, stats.total)} 🔴 {percent(stats.red, stats.total)}
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function OpinionInsights({
+  assumptions,
+  getVotesForAssumption,
+  identities = {},
+  currentUserId,
+}: OpinionInsightsProps) {
+  const analysis = useMemo(
+    () =>
+      analyzeOpinions(
+        assumptions.map((a) => a.id),
+        assumptions.flatMap((a) => getVotesForAssumption(a.id))
+      ),
+    [assumptions, getVotesForAssumption]
+  );
+
+  const sentences = new Map(assumptions.map((a) => [a.id, a.sentence]));
+  const getDisplayName = (did: string) =>
+    did === currentUserId ? 'Du' : identities[did]?.displayName || did.slice(0, 16) + '...';
+
+  if (analysis.voterCount < 2) {
+    return (
+      <div className="card bg-base-100 shadow-xl">
+        <div className="card-body items-center text-center text-base-content/60">
+          Noch zu wenige Stimmen für eine Auswertung. Sobald mehrere Personen
+          abgestimmt haben, zeigen sich hier Meinungsgruppen und Konsens.
+        </div>
+      </div>
+    );
+  }
+
+  const renderInsight = (insight: AssumptionInsight) => (
+    <li key={insight.assumptionId} className="bg-base-200 rounded-lg p-3 space-y-2">
+      <div className="font-medium">
+        {insight.direction && (
+          <span className={`badge badge-sm mr-2 ${insight.direction === 'agree' ? 'badge-success' : 'badge-error'}`}>
+            {insight.direction === 'agree' ? 'Zustimmung' : 'Ablehnung'}
+          </span>
+        )}
+        {sentences.get(insight.assumptionId)}
+      </div>
+      {analysis.clusters.length > 1 &&
+        insight.clusterStats.map((stats, index) => (
+          <GroupVotes key={index} stats={stats} index={index} />
+        ))}
+    </li>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="text-sm text-base-content/60">
+        {analysis.voterCount} Abstimmende, {analysis.assumptionCount} Annahmen,{' '}
+        {analysis.clusters.length === 1
+          ? 'keine unterscheidbaren Meinungsgruppen'
+          : `${analysis.clusters.length} Meinungsgruppen`}
+      </div>
+
+      {/* Opinion groups */}
+      {analysis.clusters.length > 1 && (
+        <section>
+          <h3 className="font-bold text-lg mb-2">Meinungsgruppen</h3>
+          <div className="grid gap-3 md:grid-cols-2">
+            {analysis.clusters.map((cluster, index) => (
+              <div
+                key={cluster.id}
+                className="card bg-base-100 shadow border-l-4"
+                style={{ borderLeftColor: GROUP_COLORS[index % GROUP_COLORS.length] }}
+              >
+                <div className="card-body p-4 gap-2">
+                  <div className="flex items-center justify-between">
+                    <span className="font-semibold">{getGroupName(index)}</span>
+                    <span className="text-xs opacity-60">
+                      {cluster.memberDids.length}{' '}
+                      {cluster.memberDids.length === 1 ? 'Person' : 'Personen'}
+                      {currentUserId && cluster.memberDids.includes(currentUserId) && ' · deine Gruppe'}
+                    </span>
+                  </div>
+                  <div className="text-xs opacity-70">
+                    {cluster.memberDids.map(getDisplayName).join(', ')}
+                  </div>
+                  {cluster.representativeIds.length > 0 && (
+                    <ul className="text-sm space-y-1">
+                      {cluster.representativeIds.map((assumptionId) => {
+                        const stats = cluster.stats[assumptionId];
+                        const agrees = stats.green >= stats.red;
+                        return (
+                          <li key={assumptionId}>
+                            <span className={agrees ? 'text-success' : 'text-error'}>
+                              {agrees ? 'stimmt zu' : 'lehnt ab'} ({percent(agrees ? stats.green : stats.red, stats.total)}):
+                            </span>{' '}
+                            {sentences.get(assumptionId)}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+
+      {/* Consensus */}
+      <section>
+        <h3 className="font-bold text-lg mb-2">Konsens</h3>
+        {analysis.consensus.length > 0 ? (
+          <ul className="space-y-2">{analysis.consensus.map(renderInsight)}</ul>
+        ) : (
+          <p className="text-sm opacity-60">Noch keine Annahme, bei der sich alle Gruppen einig sind.</p>
+        )}
+      </section>
+
+      {/* Divisive */}
+      {analysis.clusters.length > 1 && (
+        <section>
+          <h3 className="font-bold text-lg mb-2">Spaltend</h3>
+          {analysis.divisive.length > 0 ? (
+            <ul className="space-y-2">{analysis.divisive.map(renderInsight)}</ul>
+          ) : (
+            <p className="text-sm opacity-60">Keine Annahme trennt die Gruppen deutlich.</p>
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
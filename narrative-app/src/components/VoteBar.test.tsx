@@ -347,4 +347,35 @@ describe('VoteBar', () => {
       });
     });
   });
+
+  describe('Network summary', () => {
+    const summary: VoteSummary = { green: 2, yellow: 0, red: 2, total: 4 };
+
+    it('should not render the network bar without a network summary', () => {
+      render(<VoteBar summary={summary} votes={[]} />);
+
+      expect(screen.queryByTestId('network-vote-bar')).not.toBeInTheDocument();
+    });
+
+    it('should render the weighted network summary as a second bar', () => {
+      const networkSummary: VoteSummary = { green: 1.5, yellow: 0, red: 0.5, total: 2, voterCount: 3 };
+
+      render(<VoteBar summary={summary} votes={[]} networkSummary={networkSummary} />);
+
+      const networkBar = screen.getByTestId('network-vote-bar');
+      expect(networkBar).toHaveTextContent('Mein Netzwerk');
+      expect(networkBar).toHaveTextContent('3 Stimmen');
+      expect(networkBar).toHaveTextContent('🟢 75%');
+      expect(networkBar).toHaveTextContent('🔴 25%');
+      expect(networkBar.querySelector('[title="🟢 1.5"]')).toBeInTheDocument();
+    });
+
+    it('should show an empty state when nobody in the network voted', () => {
+      const networkSummary: VoteSummary = { green: 0, yellow: 0, red: 0, total: 0, voterCount: 0 };
+
+      render(<VoteBar summary={summary} votes={[]} networkSummary={networkSummary} />);
+
+      expect(screen.getByText('Noch keine Stimmen aus deinem Netzwerk')).toBeInTheDocument();
+    });
+  });
 });
@@ -1,16 +1,85 @@
 import type { Vote, VoteSummary, OpinionGraphDoc } from '../schema';
+import { NETWORK_VOTE_WEIGHTS } from '../schema';
 
 interface VoteBarProps {
   summary: VoteSummary;
   votes: Vote[];
   doc?: OpinionGraphDoc;
+  /** Trust-weighted summary ("my network's opinion"), shown as a second bar */
+  networkSummary?: VoteSummary;
+}
+
+const NETWORK_TOOLTIP =
+  `Gewichtet nach Vertrauen: du und direkte Kontakte ×${NETWORK_VOTE_WEIGHTS.firstDegree}, ` +
+  `2. Grad ×${NETWORK_VOTE_WEIGHTS.secondDegree}, Unbekannte ×${NETWORK_VOTE_WEIGHTS.unknown}`;
+
+/** Weighted counts can be fractional */
+function formatWeight(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1);
+}
+
+/**
+ * Second, slimmer bar with the trust-weighted network summary
+ */
+function NetworkVoteBar({ summary }: { summary: VoteSummary }) {
+  const { green, yellow, red, total, voterCount = 0 } = summary;
+
+  return (
+    <div className="w-full mt-2" data-testid="network-vote-bar" title={NETWORK_TOOLTIP}>
+      <div className="flex justify-between text-xs text-base-content opacity-60 mb-1">
+        <span>Mein Netzwerk</span>
+        <span>
+          {voterCount} {voterCount === 1 ? 'Stimme' : 'Stimmen'}
+        </span>
+      </div>
+      {total === 0 ? (
+        <div className="w-full h-3 bg-base-300 rounded flex items-center justify-center">
+          <span className="text-[10px] text-base-content opacity-50">
+            Noch keine Stimmen aus deinem Netzwerk
+          </span>
+        </div>
+      ) : (
+        <>
+          <div className="flex h-3 rounded overflow-hidden bg-base-300">
+            {green > 0 && (
+              <div
+                className="bg-success h-full"
+                style={{ width: `${(green / total) * 100}%` }}
+                title={`🟢 ${formatWeight(green)}`}
+              />
+            )}
+            {yellow > 0 && (
+              <div
+                className="bg-warning h-full"
+                style={{ width: `${(yellow / total) * 100}%` }}
+                title={`🟡 ${formatWeight(yellow)}`}
+              />
+            )}
+            {red > 0 && (
+              <div
+                className="bg-error h-full"
+                style={{ width: `${(red / total) * 100}%` }}
+                title={`🔴 ${formatWeight(red)}`}
+              />
+            )}
+          </div>
+          <div className="flex justify-between text-xs text-base-content opacity-60 mt-1">
+            <span>🟢 {((green / total) * 100).toFixed(0)}%</span>
+            <span>🟡 {((yellow / total) * 100).toFixed(0)}%</span>
+            <span>🔴 {((red / total) * 100).toFixed(0)}%</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
 }
 
 /**
  * Visual representation of vote distribution
- * Shows a horizontal bar with green/yellow/red sections
+ * Shows a horizontal bar with green/yellow/red sections and, if given,
+ * the trust-weighted network summary below it
  */
-export function VoteBar({ summary, votes, doc }: VoteBarProps) {
+export function VoteBar({ summary, votes, doc, networkSummary }: VoteBarProps) {
   const { green, yellow, red, total } = summary;
 
   if (total === 0) {
@@ -82,6 +151,7 @@ export function VoteBar({ summary, votes, doc }: VoteBarProps) {
         <span>🟡 {yellowPercent.toFixed(0)}%</span>
         <span>🔴 {redPercent.toFixed(0)}%</span>
       </div>
+      {networkSummary && <NetworkVoteBar summary={networkSummary} />}
     </div>
   );
 }
@@ -1,22 +1,38 @@
 import { useDocument } from '@automerge/automerge-repo-react-hooks';
 import { DocHandle, DocumentId } from '@automerge/automerge-repo';
 import type {
+  Assumption,
+  AssumptionRelation,
   OpinionGraphDoc,
+  RelationType,
+  Tag,
   Vote,
   VoteValue,
 } from '../schema/opinion-graph';
 import {
   computeVoteSummary,
+  findRelation,
   generateId,
+  getRelationsForAssumption as findRelationsForAssumption,
+  isSignatureAccepted,
 } from '../schema/opinion-graph';
-import { signEntity } from 'narrative-ui';
+import { signEntity, signJws, useWorkspaceRoles, type WorkspaceRole, type PrivateKeySource } from 'narrative-ui';
+import { useSignatureVerification } from './useSignatureVerification';
+import { applyWorkspaceRoles } from '../utils/signatureVerification';
+import {
+  applyBundleImport,
+  prepareBundleImport,
+  type AssumptionBundle,
+  type BundleImportSummary,
+  type SignedAssumptionBundle,
+} from '../utils/assumptionExchange';
 
 /**
  * Main hook for accessing and mutating Narrative data
  * Uses Automerge CRDT for automatic conflict resolution
  *
  * @param docId - Document ID (can be null while loading)
- * @param privateKey - Optional Base64-encoded private key for signing entities (Phase 2)
+ * @param privateKey - Optional private key (or PIN unlock provider) for signing entities (Phase 2)
  * @param publicKey - Optional Base64-encoded public key for identity verification (Phase 2)
  * @param displayName - Optional display name for the current user
  */
@@ -24,18 +40,38 @@ export function useOpinionGraph(
   docId: DocumentId | null,
   docHandle: DocHandle<OpinionGraphDoc> | undefined,
   currentUserDid: string,
-  privateKey?: string,
+  privateKey?: PrivateKeySource,
   publicKey?: string,
   displayName?: string
 ) {
   // Handle null docId case - hooks must be called unconditionally
   const [doc] = useDocument<OpinionGraphDoc>(docId ?? undefined);
 
+  // Read-time signature verification (forged entities are hidden or flagged)
+  const verifiedStatuses = useSignatureVerification(doc?.data, doc?.identities);
+
+  // Workspace roles (signed ACL): content needs at least the member role
+  const roles = useWorkspaceRoles(doc, docId ?? '');
+
   // Return null if doc or docHandle not ready yet
   if (!docId || !doc || !docHandle) {
     return null;
   }
 
+  // Entities from authors without write permission are treated like forged ones
+  const signatureStatuses = roles.isEnabled
+    ? applyWorkspaceRoles(verifiedStatuses, doc.data, (did) => roles.can(did, 'member'))
+    : verifiedStatuses;
+
+  /**
+   * Check that the current user holds the required role before a mutation
+   */
+  const hasRole = (required: WorkspaceRole, action: string) => {
+    if (roles.can(currentUserDid, required)) return true;
+    console.warn(`[useOpinionGraph] ${action} refused: requires role ${required}`);
+    return false;
+  };
+
   // Convert normalized data to arrays for UI
   const assumptions = Object.values(doc.data.assumptions);
   const tags = Object.values(doc.data.tags);
@@ -65,7 +101,58 @@ export function useOpinionGraph(
     }
   };
 
-  const findOrCreateTag = (d: OpinionGraphDoc, name: string): string => {
+  const requireSignatures = doc.data.requireSignatures ?? false;
+
+  /**
+   * Sign an entity if a private key is configured
+   * Returns undefined without a key (unsigned legacy behaviour). Signing
+   * errors, e.g. a cancelled PIN unlock, are rethrown so the mutation aborts
+   * instead of silently writing an unsigned entity.
+   */
+  const trySign = async (entity: Record<string, unknown>, label: string) => {
+    if (!privateKey) return undefined;
+    try {
+      return await signEntity(entity, privateKey);
+    } catch (error) {
+      console.error(`Failed to sign ${label}:`, error);
+      throw error;
+    }
+  };
+
+  /**
+   * Build and sign tags that don't exist yet (signing is async, so this
+   * happens before the Automerge change callback)
+   *
+   * @returns New tags keyed by normalized name
+   */
+  const prepareTags = async (tagNames: string[]): Promise<Record<string, Tag>> => {
+    const currentTags = Object.values(docHandle.doc()?.data.tags ?? {});
+    const existing = new Set(currentTags.map((tag) => tag.name.trim().toLowerCase()));
+    const prepared: Record<string, Tag> = {};
+
+    for (const name of tagNames) {
+      const normalized = name.trim().toLowerCase();
+      if (!normalized || existing.has(normalized) || prepared[normalized]) continue;
+
+      const tag: Tag = {
+        id: generateId(),
+        name: name.trim(),
+        createdBy: currentUserDid,
+        createdAt: Date.now(),
+      };
+      const signature = await trySign(tag as unknown as Record<string, unknown>, 'tag');
+      if (signature) tag.signature = signature;
+      prepared[normalized] = tag;
+    }
+
+    return prepared;
+  };
+
+  const findOrCreateTag = (
+    d: OpinionGraphDoc,
+    name: string,
+    prepared: Record<string, Tag> = {}
+  ): string => {
     const normalized = name.trim().toLowerCase();
     if (!normalized) return '';
 
@@ -74,26 +161,46 @@ export function useOpinionGraph(
     );
     if (existing) return existing.id;
 
-    const tagId = generateId();
-    d.data.tags[tagId] = {
-      id: tagId,
+    const tag: Tag = prepared[normalized] ?? {
+      id: generateId(),
       name: name.trim(),
       createdBy: currentUserDid,
       createdAt: Date.now(),
     };
-    return tagId;
+    d.data.tags[tag.id] = tag;
+    return tag.id;
+  };
+
+  /**
+   * Re-sign an assumption after its content changed
+   * The current user becomes the signer (updatedBy) of the new version.
+   */
+  const signAssumptionVersion = async (
+    assumption: Assumption,
+    changes: Pick<Assumption, 'sentence' | 'tagIds' | 'updatedAt'>
+  ) => {
+    // signEntity strips signature/publicKey, so the old signature doesn't leak into the payload
+    const nextVersion: Assumption = {
+      ...assumption,
+      ...changes,
+      updatedBy: currentUserDid,
+    };
+    return trySign(nextVersion as unknown as Record<string, unknown>, 'assumption');
   };
 
   /**
    * Create a new assumption
    */
   const createAssumption = async (sentence: string, tagNames: string[] = []) => {
-    // Step 1: Pre-create tags in CRDT to get their IDs
+    if (!hasRole('member', 'createAssumption')) return;
+
+    // Step 1: Pre-create (signed) tags in CRDT to get their IDs
+    const preparedTags = await prepareTags(tagNames);
     const tagIds: string[] = [];
     docHandle.change((d) => {
       ensureIdentityProfile(d);
       tagNames.forEach((tagName) => {
-        const tagId = findOrCreateTag(d, tagName);
+        const tagId = findOrCreateTag(d, tagName, preparedTags);
         if (tagId) tagIds.push(tagId);
       });
     });
@@ -128,14 +235,10 @@ export function useOpinionGraph(
     };
 
     // Step 3: Sign entities with complete data
-    if (privateKey) {
-      try {
-        assumptionData.signature = await signEntity(assumptionData, privateKey);
-        editData.signature = await signEntity(editData, privateKey);
-      } catch (error) {
-        console.error('Failed to sign assumption:', error);
-      }
-    }
+    const assumptionSignature = await trySign(assumptionData, 'assumption');
+    const editSignature = await trySign(editData, 'edit');
+    if (assumptionSignature) assumptionData.signature = assumptionSignature;
+    if (editSignature) editData.signature = editSignature;
 
     // Step 4: Store signed entities WITHOUT modification
     docHandle.change((d) => {
@@ -148,37 +251,94 @@ export function useOpinionGraph(
 
   /**
    * Update an assumption
+   * Signs the edit entry and re-signs the assumption as the current user
+   *
+   * @param revertedTo - Edit ID of the earlier version restored by this edit (revert)
    */
-  const updateAssumption = (assumptionId: string, newSentence: string, tagNames: string[] = []) => {
+  const updateAssumption = async (
+    assumptionId: string,
+    newSentence: string,
+    tagNames: string[] = [],
+    revertedTo?: string
+  ) => {
+    if (!hasRole('member', 'updateAssumption')) return;
+
+    const current = docHandle.doc();
+    const existing = current?.data.assumptions[assumptionId];
+    if (!current || !existing) return;
+
+    const trimmed = newSentence.trim();
+    const preparedTags = await prepareTags(tagNames);
+
+    // Resolve tag IDs against existing + prepared tags (same logic as findOrCreateTag)
+    const existingTags = Object.values(current.data.tags);
+    const newTagIds = tagNames
+      .map((name) => {
+        const normalized = name.trim().toLowerCase();
+        if (!normalized) return '';
+        const tag = existingTags.find((t) => t.name.trim().toLowerCase() === normalized);
+        return tag?.id ?? preparedTags[normalized]?.id ?? '';
+      })
+      .filter((tagId): tagId is string => !!tagId);
+    const currentTagIdsSorted = [...existing.tagIds].sort().join('|');
+    const newTagIdsSorted = [...newTagIds].sort().join('|');
+
+    const sentenceChanged = trimmed && trimmed !== existing.sentence;
+    const tagsChanged = currentTagIdsSorted !== newTagIdsSorted;
+
+    if (!sentenceChanged && !tagsChanged) return;
+
+    const previousTagNames = existing.tagIds
+      .map((id) => current.data.tags[id])
+      .filter((t): t is NonNullable<typeof current.data.tags[string]> => Boolean(t))
+      .map((t) => t.name);
+
+    // Final tagIds order after granular update: kept tags first, then added ones
+    const finalTagIds = [
+      ...existing.tagIds.filter((id) => newTagIds.includes(id)),
+      ...newTagIds.filter((id) => !existing.tagIds.includes(id)),
+    ];
+
+    const now = Date.now();
+    const editId = generateId();
+    const entry: any = {
+      id: editId,
+      assumptionId,
+      editorDid: currentUserDid,
+      previousSentence: existing.sentence,
+      newSentence: trimmed,
+      createdAt: now,
+      type: 'edit',
+      previousTags: previousTagNames,
+      newTags: tagNames,
+      ...(revertedTo ? { revertedTo } : {}),
+    };
+
+    const editSignature = await trySign(entry, 'edit');
+    if (editSignature) entry.signature = editSignature;
+
+    const assumptionSignature = await signAssumptionVersion(existing, {
+      sentence: trimmed,
+      tagIds: finalTagIds,
+      updatedAt: now,
+    });
+
     docHandle.change((d) => {
       ensureIdentityProfile(d);
 
       const assumption = d.data.assumptions[assumptionId];
       if (!assumption) return;
 
-      const trimmed = newSentence.trim();
-      const newTagIds = tagNames
-        .map((tag) => findOrCreateTag(d, tag))
+      const resolvedTagIds = tagNames
+        .map((tag) => findOrCreateTag(d, tag, preparedTags))
         .filter((tagId): tagId is string => !!tagId);
-      const currentTagIdsSorted = [...assumption.tagIds].sort().join('|');
-      const newTagIdsSorted = [...newTagIds].sort().join('|');
-
-      const sentenceChanged = trimmed && trimmed !== assumption.sentence;
-      const tagsChanged = currentTagIdsSorted !== newTagIdsSorted;
-
-      if (!sentenceChanged && !tagsChanged) return;
 
       if (!assumption.editLogIds) assumption.editLogIds = [];
       if (!d.data.edits) d.data.edits = {};
 
-      const previousTagNames = assumption.tagIds
-        .map((id) => d.data.tags[id])
-        .filter((t): t is NonNullable<typeof d.data.tags[string]> => Boolean(t))
-        .map((t) => t.name);
-
       // Update tagIds with minimal changes (avoid array replacement for better CRDT merging)
-      const toRemove = assumption.tagIds.filter(id => !newTagIds.includes(id));
-      const toAdd = newTagIds.filter(id => !assumption.tagIds.includes(id));
+      const toRemove = assumption.tagIds.filter(id => !resolvedTagIds.includes(id));
+      const toAdd = resolvedTagIds.filter(id => !assumption.tagIds.includes(id));
 
       toRemove.forEach(id => {
         const idx = assumption.tagIds.indexOf(id);
@@ -186,24 +346,17 @@ export function useOpinionGraph(
       });
       toAdd.forEach(id => assumption.tagIds.push(id));
 
-      const editId = generateId();
-      const entry: any = {
-        id: editId,
-        assumptionId,
-        editorDid: currentUserDid,
-        previousSentence: assumption.sentence,
-        newSentence: trimmed,
-        createdAt: Date.now(),
-        type: 'edit',
-        previousTags: previousTagNames,
-        newTags: tagNames,
-      };
-
       d.data.edits[editId] = entry;
       assumption.editLogIds.push(editId);
 
       assumption.sentence = trimmed;
-      assumption.updatedAt = Date.now();
+      assumption.updatedAt = now;
+      assumption.updatedBy = currentUserDid;
+      if (assumptionSignature) {
+        assumption.signature = assumptionSignature;
+      } else {
+        delete assumption.signature;
+      }
       d.lastModified = Date.now();
     });
   };
@@ -212,6 +365,8 @@ export function useOpinionGraph(
    * Delete an assumption
    */
   const deleteAssumption = (assumptionId: string) => {
+    if (!hasRole('member', 'deleteAssumption')) return;
+
     docHandle.change((d) => {
       const assumption = d.data.assumptions[assumptionId];
       if (!assumption) return;
@@ -221,6 +376,11 @@ export function useOpinionGraph(
         delete d.data.votes[voteId];
       });
 
+      // Delete relations from or to this assumption
+      for (const relation of findRelationsForAssumption(d.data.relations, assumptionId)) {
+        delete d.data.relations![relation.id];
+      }
+
       // Remove from document
       delete d.data.assumptions[assumptionId];
       d.lastModified = Date.now();
@@ -232,6 +392,8 @@ export function useOpinionGraph(
    * Enforces one vote per user per assumption
    */
   const setVote = async (assumptionId: string, value: VoteValue) => {
+    if (!hasRole('member', 'setVote')) return;
+
     const now = Date.now();
 
     // Find existing vote by current user
@@ -258,13 +420,7 @@ export function useOpinionGraph(
       };
 
       // Sign updated vote
-      if (privateKey) {
-        try {
-          updatedVoteData.signature = await signEntity(updatedVoteData, privateKey);
-        } catch (error) {
-          console.error('Failed to sign updated vote:', error);
-        }
-      }
+      const signature = await trySign(updatedVoteData, 'updated vote');
 
       docHandle.change((d) => {
         ensureIdentityProfile(d);
@@ -272,8 +428,11 @@ export function useOpinionGraph(
         if (vote) {
           vote.value = value;
           vote.updatedAt = now;
-          if (updatedVoteData.signature) {
-            vote.signature = updatedVoteData.signature;
+          // The old signature covers the old value, so it must not stay behind
+          if (signature) {
+            vote.signature = signature;
+          } else {
+            delete vote.signature;
           }
         }
         d.lastModified = Date.now();
@@ -291,13 +450,8 @@ export function useOpinionGraph(
       };
 
       // Sign new vote
-      if (privateKey) {
-        try {
-          voteData.signature = await signEntity(voteData, privateKey);
-        } catch (error) {
-          console.error('Failed to sign vote:', error);
-        }
-      }
+      const signature = await trySign(voteData, 'vote');
+      if (signature) voteData.signature = signature;
 
       docHandle.change((d) => {
         ensureIdentityProfile(d);
@@ -315,6 +469,8 @@ export function useOpinionGraph(
    * Remove current user's vote from an assumption
    */
   const removeVote = (assumptionId: string) => {
+    if (!hasRole('member', 'removeVote')) return;
+
     docHandle.change((d) => {
       const assumption = d.data.assumptions[assumptionId];
       if (!assumption) return;
@@ -335,63 +491,202 @@ export function useOpinionGraph(
   };
 
   /**
-   * Create a new tag
+   * Add a signed relation between two assumptions ("source <type> target")
+   * Self-relations and duplicates of an existing relation are ignored.
    */
-  const createTag = (name: string, color?: string): string => {
-    let tagId = '';
+  const addRelation = async (sourceId: string, targetId: string, type: RelationType) => {
+    if (!hasRole('member', 'addRelation')) return;
+
+    const current = docHandle.doc();
+    if (!current || sourceId === targetId) return;
+    if (!current.data.assumptions[sourceId] || !current.data.assumptions[targetId]) return;
+    if (findRelation(current.data.relations, sourceId, targetId, type)) return;
+
+    const relation: AssumptionRelation = {
+      id: generateId(),
+      sourceId,
+      targetId,
+      type,
+      createdBy: currentUserDid,
+      createdAt: Date.now(),
+    };
+    const signature = await trySign(relation as unknown as Record<string, unknown>, 'relation');
+    if (signature) relation.signature = signature;
+
     docHandle.change((d) => {
       ensureIdentityProfile(d);
+      if (!d.data.relations) d.data.relations = {};
+      d.data.relations[relation.id] = relation;
+      d.lastModified = Date.now();
+    });
+  };
 
-      tagId = generateId();
-      const tag: any = {
-        id: tagId,
-        name,
-        createdBy: currentUserDid,
-        createdAt: Date.now(),
-      };
+  /**
+   * Remove a relation created by the current user
+   */
+  const removeRelation = (relationId: string) => {
+    if (!hasRole('member', 'removeRelation')) return;
 
-      // Only add color if provided (Automerge doesn't allow undefined)
-      if (color !== undefined && color !== '') {
-        tag.color = color;
-      }
+    docHandle.change((d) => {
+      const relation = d.data.relations?.[relationId];
+      if (!relation || relation.createdBy !== currentUserDid) return;
 
-      d.data.tags[tagId] = tag;
+      delete d.data.relations![relationId];
       d.lastModified = Date.now();
     });
-    return tagId;
   };
 
   /**
-   * Add tag to assumption
+   * Import a signed assumption bundle from another workspace
+   * Validly signed entities are added unchanged, so authors and signatures
+   * stay verifiable; duplicates are skipped.
+   */
+  const importBundle = async (file: unknown): Promise<BundleImportSummary> => {
+    if (!hasRole('member', 'importBundle')) {
+      throw new Error('Keine Schreibberechtigung in diesem Workspace');
+    }
+
+    const current = docHandle.doc();
+    if (!current) throw new Error('Dokument nicht geladen');
+
+    const { selection, summary } = await prepareBundleImport(file, current.data);
+    if (summary.imported > 0) {
+      docHandle.change((d) => {
+        if (!d.identities) d.identities = {};
+        applyBundleImport(d.data, d.identities, selection);
+        d.lastModified = Date.now();
+      });
+    }
+    return summary;
+  };
+
+  /**
+   * Sign an assumption bundle for export
+   * Importers verify it with the public key of the current user's DID.
+   */
+  const signBundle = async (bundle: AssumptionBundle): Promise<SignedAssumptionBundle> => {
+    if (!privateKey) {
+      throw new Error('Zum Signieren wird ein privater Schlüssel benötigt');
+    }
+    return { bundle, jws: await signJws(bundle, privateKey) };
+  };
+
+  /**
+   * Create a new tag
+   */
+  const createTag = async (name: string, color?: string): Promise<string> => {
+    if (!hasRole('member', 'createTag')) return '';
+
+    const tag: any = {
+      id: generateId(),
+      name,
+      createdBy: currentUserDid,
+      createdAt: Date.now(),
+    };
+
+    // Only add color if provided (Automerge doesn't allow undefined)
+    if (color !== undefined && color !== '') {
+      tag.color = color;
+    }
+
+    const signature = await trySign(tag, 'tag');
+    if (signature) tag.signature = signature;
+
+    docHandle.change((d) => {
+      ensureIdentityProfile(d);
+      d.data.tags[tag.id] = tag;
+      d.lastModified = Date.now();
+    });
+    return tag.id;
+  };
+
+  /**
+   * Change the tag list of an assumption and re-sign it
    */
-  const addTagToAssumption = (assumptionId: string, tagId: string) => {
+  const setAssumptionTagIds = async (assumptionId: string, tagIds: string[]) => {
+    if (!hasRole('member', 'setAssumptionTagIds')) return;
+
+    const existing = docHandle.doc()?.data.assumptions[assumptionId];
+    if (!existing) return;
+
+    const now = Date.now();
+    const signature = await signAssumptionVersion(existing, {
+      sentence: existing.sentence,
+      tagIds,
+      updatedAt: now,
+    });
+
     docHandle.change((d) => {
       const assumption = d.data.assumptions[assumptionId];
-      if (!assumption || !d.data.tags[tagId]) return;
+      if (!assumption) return;
 
-      if (!assumption.tagIds.includes(tagId)) {
-        assumption.tagIds.push(tagId);
+      const toRemove = assumption.tagIds.filter((id) => !tagIds.includes(id));
+      toRemove.forEach((id) => {
+        const index = assumption.tagIds.indexOf(id);
+        if (index !== -1) assumption.tagIds.splice(index, 1);
+      });
+      tagIds
+        .filter((id) => !assumption.tagIds.includes(id))
+        .forEach((id) => assumption.tagIds.push(id));
+
+      assumption.updatedAt = now;
+      assumption.updatedBy = currentUserDid;
+      if (signature) {
+        assumption.signature = signature;
+      } else {
+        delete assumption.signature;
       }
       d.lastModified = Date.now();
     });
   };
 
+  /**
+   * Add tag to assumption
+   */
+  const addTagToAssumption = async (assumptionId: string, tagId: string) => {
+    const assumption = docHandle.doc()?.data.assumptions[assumptionId];
+    if (!assumption || !docHandle.doc()?.data.tags[tagId]) return;
+    if (assumption.tagIds.includes(tagId)) return;
+
+    await setAssumptionTagIds(assumptionId, [...assumption.tagIds, tagId]);
+  };
+
   /**
    * Remove tag from assumption
    */
-  const removeTagFromAssumption = (assumptionId: string, tagId: string) => {
-    docHandle.change((d) => {
-      const assumption = d.data.assumptions[assumptionId];
-      if (!assumption) return;
+  const removeTagFromAssumption = async (assumptionId: string, tagId: string) => {
+    const assumption = docHandle.doc()?.data.assumptions[assumptionId];
+    if (!assumption || !assumption.tagIds.includes(tagId)) return;
+
+    await setAssumptionTagIds(
+      assumptionId,
+      assumption.tagIds.filter((id) => id !== tagId)
+    );
+  };
+
+  /**
+   * Enable or disable strict signature mode for this workspace
+   * When enabled, unsigned legacy entities are hidden for all readers.
+   */
+  const setRequireSignatures = (enabled: boolean) => {
+    if (!hasRole('admin', 'setRequireSignatures')) return;
 
-      const index = assumption.tagIds.indexOf(tagId);
-      if (index !== -1) {
-        assumption.tagIds.splice(index, 1);
+    docHandle.change((d) => {
+      if (enabled) {
+        d.data.requireSignatures = true;
+      } else {
+        delete d.data.requireSignatures;
       }
       d.lastModified = Date.now();
     });
   };
 
+  /**
+   * Whether an entity with the given signature status should be shown
+   */
+  const isEntityAccepted = (collection: keyof typeof signatureStatuses, id: string) =>
+    isSignatureAccepted(signatureStatuses[collection][id], requireSignatures);
+
   /**
    * Get vote summary for an assumption
    */
@@ -400,7 +695,10 @@ export function useOpinionGraph(
     if (!assumption) {
       return { green: 0, yellow: 0, red: 0, total: 0 };
     }
-    return computeVoteSummary(assumption, doc.data.votes, currentUserDid);
+    return computeVoteSummary(assumption, doc.data.votes, currentUserDid, {
+      signatureStatuses: signatureStatuses.votes,
+      requireSignatures,
+    });
   };
 
   /**
@@ -429,6 +727,12 @@ export function useOpinionGraph(
       .sort((a, b) => b.createdAt - a.createdAt);
   };
 
+  /**
+   * Get all relations from or to an assumption, oldest first
+   */
+  const getRelationsForAssumption = (assumptionId: string) =>
+    findRelationsForAssumption(doc.data.relations, assumptionId);
+
   /**
    * Update user identity
    */
@@ -473,11 +777,24 @@ export function useOpinionGraph(
     createTag,
     addTagToAssumption,
     removeTagFromAssumption,
+    addRelation,
+    removeRelation,
+    importBundle,
+    signBundle,
     updateIdentity,
+    setRequireSignatures,
+    // Signature verification
+    signatureStatuses,
+    requireSignatures,
+    isEntityAccepted,
+    // Workspace roles
+    roles,
+    canEdit: roles.can(currentUserDid, 'member'),
     // Helpers
     getVoteSummary,
     getVotesForAssumption,
     getEditsForAssumption,
+    getRelationsForAssumption,
   };
 }
 
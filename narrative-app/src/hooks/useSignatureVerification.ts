@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import type { IdentityProfile } from 'narrative-ui';
+import type { OpinionGraphData, SignatureStatusMap } from '../schema/opinion-graph';
+import { createEmptySignatureStatusMap } from '../schema/opinion-graph';
+import { verifyOpinionGraph } from '../utils/signatureVerification';
+
+/**
+ * Verify all Opinion Graph entity signatures whenever the data changes
+ *
+ * Verification is asynchronous (Web Crypto), so entities start without
+ * a status and are treated as pending until their check completes.
+ *
+ * @param data - Opinion graph data (undefined while loading)
+ * @param identities - Workspace identities for public key lookup
+ * @returns Signature status per entity
+ */
+export function useSignatureVerification(
+  data: OpinionGraphData | undefined,
+  identities: Record<string, IdentityProfile> | undefined
+): SignatureStatusMap {
+  const [statuses, setStatuses] = useState<SignatureStatusMap>(createEmptySignatureStatusMap);
+
+  useEffect(() => {
+    if (!data) return;
+
+    let cancelled = false;
+    verifyOpinionGraph(data, identities ?? {})
+      .then((result) => {
+        if (!cancelled) setStatuses(result);
+      })
+      .catch((error) => {
+        console.error('Failed to verify signatures:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [data, identities]);
+
+  return statuses;
+}
@@ -8,9 +8,27 @@
 import { useMemo, useState } from 'react';
 import type { ModuleProps } from 'narrative-ui';
 import { AssumptionList } from '../components/AssumptionList';
+import { ArgumentGraph } from '../components/ArgumentGraph';
+import { OpinionInsights } from '../components/OpinionInsights';
 import { CreateAssumptionModal } from '../components/CreateAssumptionModal';
 import { ImportModal } from '../components/ImportModal';
-import type { OpinionGraphData, Assumption, Vote, Tag, EditEntry } from '../schema/opinion-graph';
+import { ExportMenu } from '../components/ExportMenu';
+import type {
+  AssumptionBundle,
+  BundleImportSummary,
+  ImportCandidate,
+  SignedAssumptionBundle,
+} from '../utils/assumptionExchange';
+import type {
+  OpinionGraphData,
+  Assumption,
+  Vote,
+  Tag,
+  EditEntry,
+  RelationType,
+  SignatureStatusMap,
+} from '../schema/opinion-graph';
+import { getRelationsForAssumption, isSignatureAccepted } from '../schema/opinion-graph';
 
 /**
  * Extended props for NarrativeModule
@@ -21,8 +39,8 @@ export interface NarrativeModuleProps extends ModuleProps<OpinionGraphData> {
   onCreateAssumption: (sentence: string, tagNames: string[]) => Promise<void>;
   /** Callback to set a vote */
   onVote: (assumptionId: string, value: 'green' | 'yellow' | 'red') => Promise<void>;
-  /** Callback to update an assumption */
-  onUpdateAssumption: (id: string, sentence: string, tagNames: string[]) => void;
+  /** Callback to update an assumption (revertedTo: edit ID of a restored earlier version) */
+  onUpdateAssumption: (id: string, sentence: string, tagNames: string[], revertedTo?: string) => void;
   /** Get vote summary for an assumption */
   getVoteSummary: (assumptionId: string) => {
     green: number;
@@ -41,6 +59,20 @@ export interface NarrativeModuleProps extends ModuleProps<OpinionGraphData> {
   assumptions: Assumption[];
   /** Hidden user DIDs for filtering */
   hiddenUserDids?: Set<string>;
+  /** Signature verification results (see useSignatureVerification) */
+  signatureStatuses?: SignatureStatusMap;
+  /** Callback to toggle strict signature mode (data.requireSignatures) */
+  onToggleRequireSignatures?: (enabled: boolean) => void;
+  /** Whether the current user may create content (workspace role, default true) */
+  canEdit?: boolean;
+  /** Callback to add a relation between two assumptions */
+  onAddRelation?: (sourceId: string, targetId: string, type: RelationType) => void;
+  /** Callback to remove an own relation */
+  onRemoveRelation?: (relationId: string) => void;
+  /** Callback to import a signed assumption bundle from another workspace */
+  onImportBundle?: (file: unknown) => Promise<BundleImportSummary>;
+  /** Callback to sign an assumption bundle for export */
+  onSignBundle?: (bundle: AssumptionBundle) => Promise<SignedAssumptionBundle>;
 }
 
 /**
@@ -62,14 +94,55 @@ export function NarrativeModule({
   tags,
   assumptions,
   hiddenUserDids = new Set(),
+  signatureStatuses,
+  onToggleRequireSignatures,
+  canEdit = true,
+  onAddRelation,
+  onRemoveRelation,
+  onImportBundle,
+  onSignBundle,
 }: NarrativeModuleProps) {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [showImportModal, setShowImportModal] = useState(false);
   const [sortBy, setSortBy] = useState<'votes' | 'agree' | 'recent' | 'created'>('created');
   const [activeTagFilter, setActiveTagFilter] = useState<string | null>(null);
   const [webOfTrustFilter, setWebOfTrustFilter] = useState(false);
+  const [view, setView] = useState<'list' | 'graph' | 'insights'>('list');
 
   const { currentUserDid, trustGiven } = context;
+  const requireSignatures = data.requireSignatures ?? false;
+
+  // Assumptions without hidden users and rejected signatures (also the possible relation targets)
+  const visibleAssumptions = useMemo(
+    () =>
+      assumptions.filter(
+        (a) =>
+          !hiddenUserDids.has(a.createdBy) &&
+          isSignatureAccepted(signatureStatuses?.assumptions[a.id], requireSignatures)
+      ),
+    [assumptions, hiddenUserDids, signatureStatuses, requireSignatures]
+  );
+
+  // Relations without hidden users and rejected signatures
+  const visibleRelations = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(data.relations ?? {}).filter(
+          ([id, r]) =>
+            !hiddenUserDids.has(r.createdBy) &&
+            isSignatureAccepted(signatureStatuses?.relations[id], requireSignatures)
+        )
+      ),
+    [data.relations, hiddenUserDids, signatureStatuses, requireSignatures]
+  );
+
+  // Votes that count for the insights (hidden users and rejected signatures excluded)
+  const getCountedVotesForAssumption = (assumptionId: string) =>
+    getVotesForAssumption(assumptionId).filter(
+      (vote) =>
+        !hiddenUserDids.has(vote.voterDid) &&
+        isSignatureAccepted(signatureStatuses?.votes[vote.id], requireSignatures)
+    );
 
   // Apply filters and sorting
   const sortedAssumptions = useMemo(() => {
@@ -80,18 +153,14 @@ export function NarrativeModule({
           .map((id) => votes[id])
           .filter((v): v is Vote => Boolean(v))
           .filter((v) => !hiddenUserDids.has(v.voterDid))
+          .filter((v) => isSignatureAccepted(signatureStatuses?.votes[v.id], requireSignatures))
           .reduce((latest, vote) => Math.max(latest, vote.updatedAt ?? vote.createdAt), 0) || 0
       );
     };
 
-    // Filter out assumptions from hidden users
-    const withoutHidden = assumptions.filter(
-      (a) => !hiddenUserDids.has(a.createdBy)
-    );
-
     // Apply Web of Trust filter if active
     const withTrustFilter = webOfTrustFilter
-      ? withoutHidden.filter((a) => {
+      ? visibleAssumptions.filter((a) => {
           if (a.createdBy === currentUserDid) return true;
           // Check if we trust the assumption creator (outgoing trust)
           const isTrusted = trustGiven
@@ -101,7 +170,7 @@ export function NarrativeModule({
             : false;
           return isTrusted;
         })
-      : withoutHidden;
+      : visibleAssumptions;
 
     // Apply tag filter
     const filtered = activeTagFilter
@@ -132,22 +201,11 @@ export function NarrativeModule({
       // recent
       return lastVoteB - lastVoteA || totalB - totalA || agreeRateB - agreeRateA || b.createdAt - a.createdAt;
     });
-  }, [assumptions, sortBy, activeTagFilter, webOfTrustFilter, hiddenUserDids, currentUserDid, trustGiven, data, getVoteSummary]);
-
-  const handleImportAssumptions = async (importText: string) => {
-    const parsed = JSON.parse(importText || '[]');
-    if (!Array.isArray(parsed)) throw new Error('JSON Array erwartet');
-
-    for (const item of parsed) {
-      const sentence = typeof item === 'string' ? item : item?.sentence;
-      const tagList =
-        item && Array.isArray(item.tags)
-          ? item.tags.filter((t: unknown) => typeof t === 'string')
-          : [];
+  }, [visibleAssumptions, sortBy, activeTagFilter, webOfTrustFilter, hiddenUserDids, currentUserDid, trustGiven, data, getVoteSummary, signatureStatuses, requireSignatures]);
 
-      if (sentence && typeof sentence === 'string') {
-        await onCreateAssumption(sentence, tagList);
-      }
+  const handleImportAssumptions = async (candidates: ImportCandidate[]) => {
+    for (const { sentence, tags: tagNames } of candidates) {
+      await onCreateAssumption(sentence, tagNames);
     }
   };
 
@@ -184,6 +242,26 @@ export function NarrativeModule({
               <span>{webOfTrustFilter ? 'Web of Trust' : 'Alle'}</span>
             </button>
 
+            {/* Strict signature mode (workspace-wide) */}
+            {onToggleRequireSignatures && (
+              <button
+                className={`badge gap-1 p-4 cursor-pointer transition-all ${
+                  requireSignatures
+                    ? 'badge-info'
+                    : 'badge-ghost border-base-300 hover:border-info'
+                }`}
+                onClick={() => onToggleRequireSignatures(!requireSignatures)}
+                title={
+                  requireSignatures
+                    ? 'Unsignierte Einträge werden ausgeblendet'
+                    : 'Unsignierte Einträge werden angezeigt'
+                }
+              >
+                <span>🔐</span>
+                <span>{requireSignatures ? 'Nur signiert' : 'Alle Signaturen'}</span>
+              </button>
+            )}
+
             {/* Tag Filter */}
             {activeTagFilter && (
               <div className="badge badge-primary gap-1 p-4 pr-1">
@@ -199,6 +277,35 @@ export function NarrativeModule({
             )}
           </div>
           <div className="flex items-center gap-3 flex-wrap">
+            {/* List, argument graph or insights */}
+            <div className="join self-end">
+              <button
+                className={`btn btn-sm join-item ${view === 'list' ? 'btn-active' : ''}`}
+                onClick={() => setView('list')}
+              >
+                Liste
+              </button>
+              <button
+                className={`btn btn-sm join-item ${view === 'graph' ? 'btn-active' : ''}`}
+                onClick={() => setView('graph')}
+              >
+                Graph
+              </button>
+              <button
+                className={`btn btn-sm join-item ${view === 'insights' ? 'btn-active' : ''}`}
+                onClick={() => setView('insights')}
+              >
+                Insights
+              </button>
+            </div>
+            <ExportMenu
+              assumptions={sortedAssumptions}
+              data={data}
+              identities={context.identities}
+              getVoteSummary={getVoteSummary}
+              currentUserDid={currentUserDid}
+              onSignBundle={onSignBundle}
+            />
             <label className="form-control w-full md:w-64">
               <div className="label py-0">
                 <span className="label-text">Sortieren nach</span>
@@ -220,31 +327,55 @@ export function NarrativeModule({
 
       {/* Assumption List */}
       <div className="flex-1">
-        <AssumptionList
-          assumptions={sortedAssumptions}
-          getVoteSummary={getVoteSummary}
-          getVotesForAssumption={getVotesForAssumption}
-          getEditsForAssumption={getEditsForAssumption}
-          onVote={onVote}
-          onEdit={onUpdateAssumption}
-          tags={tags}
-          onTagClick={(tagId) => setActiveTagFilter((prev) => (prev === tagId ? null : tagId))}
-          currentUserId={currentUserDid}
-          doc={{
-            version: '1.0.0',
-            lastModified: Date.now(),
-            identities: context.identities,
-            data,
-          }}
-          onCreate={() => setIsCreateModalOpen(true)}
-        />
+        {view === 'graph' ? (
+          <ArgumentGraph
+            assumptions={sortedAssumptions}
+            relations={Object.values(visibleRelations)}
+            getVoteSummary={getVoteSummary}
+          />
+        ) : view === 'insights' ? (
+          <OpinionInsights
+            assumptions={sortedAssumptions}
+            getVotesForAssumption={getCountedVotesForAssumption}
+            identities={context.identities}
+            currentUserId={currentUserDid}
+          />
+        ) : (
+          <AssumptionList
+            assumptions={sortedAssumptions}
+            getVoteSummary={getVoteSummary}
+            getVotesForAssumption={getVotesForAssumption}
+            getEditsForAssumption={getEditsForAssumption}
+            onVote={onVote}
+            onEdit={onUpdateAssumption}
+            tags={tags}
+            onTagClick={(tagId) => setActiveTagFilter((prev) => (prev === tagId ? null : tagId))}
+            currentUserId={currentUserDid}
+            doc={{
+              version: '1.0.0',
+              lastModified: Date.now(),
+              identities: context.identities,
+              data,
+            }}
+            signatureStatuses={signatureStatuses}
+            requireSignatures={requireSignatures}
+            onCreate={() => setIsCreateModalOpen(true)}
+            getRelationsForAssumption={(assumptionId) =>
+              getRelationsForAssumption(visibleRelations, assumptionId)
+            }
+            availableAssumptions={visibleAssumptions}
+            onAddRelation={canEdit ? onAddRelation : undefined}
+            onRemoveRelation={canEdit ? onRemoveRelation : undefined}
+          />
+        )}
       </div>
 
       {/* Floating New Assumption Button */}
       <button
         className="btn btn-primary gap-2 fixed bottom-20 md:bottom-6 right-6 shadow-lg shadow-black/30 z-10"
         onClick={() => setIsCreateModalOpen(true)}
-        title="Neue Annahme"
+        disabled={!canEdit}
+        title={canEdit ? 'Neue Annahme' : 'Nur Lesezugriff'}
       >
         <svg
           xmlns="http://www.w3.org/2000/svg"
@@ -267,7 +398,8 @@ export function NarrativeModule({
       <button
         className="btn btn-outline gap-2 fixed bottom-20 md:bottom-6 left-6 shadow-lg shadow-black/30 z-10"
         onClick={() => setShowImportModal(true)}
-        title="Import"
+        disabled={!canEdit}
+        title={canEdit ? 'Import' : 'Nur Lesezugriff'}
       >
         <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" className="h-5 w-5">
           <path d="M9.25 13.25a.75.75 0 0 0 1.5 0V4.636l2.955 3.129a.75.75 0 0 0 1.09-1.03l-4.25-4.5a.75.75 0 0 0-1.09 0l-4.25 4.5a.75.75 0 1 0 1.09 1.03L9.25 4.636v8.614Z" />
@@ -289,6 +421,8 @@ export function NarrativeModule({
         isOpen={showImportModal}
         onClose={() => setShowImportModal(false)}
         onImport={handleImportAssumptions}
+        existingSentences={assumptions.map((a) => a.sentence)}
+        onImportBundle={canEdit ? onImportBundle : undefined}
       />
     </div>
   );
@@ -18,6 +18,7 @@ export function createEmptyNarrativeData(): OpinionGraphData {
     votes: {},
     tags: {},
     edits: {},
+    relations: {},
   };
 }
 
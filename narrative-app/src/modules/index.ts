@@ -7,3 +7,15 @@
 export { NarrativeModule } from './NarrativeModule';
 export type { NarrativeModuleProps } from './NarrativeModule';
 export { narrativeModule, createEmptyNarrativeData } from './definition';
+
+// Signature verification (used by wrappers to compute NarrativeModule's signatureStatuses)
+export { useSignatureVerification } from '../hooks/useSignatureVerification';
+export { applyWorkspaceRoles } from '../utils/signatureVerification';
+
+// Assumption bundles (used by wrappers to implement import and signed export)
+export { prepareBundleImport, applyBundleImport } from '../utils/assumptionExchange';
+export type {
+  AssumptionBundle,
+  SignedAssumptionBundle,
+  BundleImportSummary,
+} from '../utils/assumptionExchange';
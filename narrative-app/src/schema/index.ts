@@ -9,13 +9,28 @@ export type {
   Vote,
   EditEntry,
   Assumption,
+  RelationType,
+  AssumptionRelation,
   OpinionGraphData,
   OpinionGraphDoc,
   VoteSummary,
+  VoteSummaryOptions,
+  EntitySignatureStatus,
+  SignatureStatusMap,
 } from './opinion-graph';
 
 export {
   createEmptyOpinionGraphDoc,
   computeVoteSummary,
+  summarizeVotes,
+  getNetworkVoteWeight,
+  NETWORK_VOTE_WEIGHTS,
   generateId,
+  isSignatureAccepted,
+  createEmptySignatureStatusMap,
+  ASSUMPTION_INDEX_FIELDS,
+  RELATION_TYPES,
+  RELATION_TYPE_LABELS,
+  findRelation,
+  getRelationsForAssumption,
 } from './opinion-graph';
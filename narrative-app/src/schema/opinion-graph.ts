@@ -2,7 +2,7 @@
  * Opinion Graph schema - domain-specific for Assumptions app
  *
  * This schema defines the data structure for tracking assumptions,
- * votes, tags, and edit history.
+ * votes, tags, edit history and the relations between assumptions.
  */
 
 import type { BaseDocument, UserIdentity } from 'narrative-ui';
@@ -57,6 +57,7 @@ export interface EditEntry {
   previousTags?: string[];
   newTags?: string[];
   createdAt: number;
+  revertedTo?: string; // Edit ID of the earlier version this edit restores
 
   // Phase 2: Cryptographic signatures (JWS format)
   signature?: string;
@@ -73,6 +74,7 @@ export interface Assumption {
   createdBy: string; // DID
   createdAt: number;
   updatedAt: number;
+  updatedBy?: string; // DID of last editor (signer of the current version)
   tagIds: string[];
   voteIds: string[];
   editLogIds: string[];
@@ -82,6 +84,44 @@ export interface Assumption {
   publicKey?: string;
 }
 
+/**
+ * Type of a relation between two assumptions, read as
+ * "source <type> target" (e.g. "A supports B", "A depends-on B")
+ */
+export type RelationType = 'supports' | 'contradicts' | 'depends-on' | 'refines';
+
+/**
+ * All relation types in display order
+ */
+export const RELATION_TYPES: RelationType[] = ['supports', 'contradicts', 'depends-on', 'refines'];
+
+/**
+ * German labels of the relation types (source → target)
+ */
+export const RELATION_TYPE_LABELS: Record<RelationType, string> = {
+  supports: 'stützt',
+  contradicts: 'widerspricht',
+  'depends-on': 'hängt ab von',
+  refines: 'präzisiert',
+};
+
+/**
+ * Directed relation between two assumptions (argument graph edge)
+ * Relations are immutable: changing one means removing and re-adding it.
+ */
+export interface AssumptionRelation {
+  id: string;
+  sourceId: string; // Assumption ID
+  targetId: string; // Assumption ID
+  type: RelationType;
+  createdBy: string; // DID
+  createdAt: number;
+
+  // Phase 2: Cryptographic signatures (JWS format)
+  signature?: string;
+  publicKey?: string;
+}
+
 /**
  * Opinion Graph specific data
  */
@@ -90,6 +130,13 @@ export interface OpinionGraphData {
   votes: Record<string, Vote>;
   tags: Record<string, Tag>;
   edits: Record<string, EditEntry>;
+  relations?: Record<string, AssumptionRelation>; // Missing in documents created before relations
+
+  /**
+   * Strict mode: reject unsigned (legacy) entities at read time.
+   * Forged (invalid) signatures are always rejected.
+   */
+  requireSignatures?: boolean;
 
   // Legacy fields for backward compatibility
   identity?: UserIdentity;  // DEPRECATED: use doc.identities instead
@@ -101,8 +148,86 @@ export interface OpinionGraphData {
  */
 export type OpinionGraphDoc = BaseDocument<OpinionGraphData>;
 
+/**
+ * Signature verification status of a single entity
+ * - valid: signed by the DID it claims to come from
+ * - invalid: signature does not match (forged or tampered)
+ * - missing: unsigned legacy data
+ * - unauthorized: signer lacks the required workspace role (see BaseDocument.acl)
+ */
+export type EntitySignatureStatus = 'valid' | 'invalid' | 'missing' | 'unauthorized';
+
+/**
+ * Verification results per entity collection (entity ID → status)
+ * Entities without an entry are still being verified.
+ */
+export interface SignatureStatusMap {
+  assumptions: Record<string, EntitySignatureStatus>;
+  votes: Record<string, EntitySignatureStatus>;
+  tags: Record<string, EntitySignatureStatus>;
+  edits: Record<string, EntitySignatureStatus>;
+  relations: Record<string, EntitySignatureStatus>;
+}
+
+/**
+ * Assumption fields that are appended to by other users after signing.
+ * Referenced votes/edits carry their own signatures, so these index
+ * fields are excluded from the assumption's signature check.
+ */
+export const ASSUMPTION_INDEX_FIELDS = ['voteIds', 'editLogIds'];
+
+/**
+ * Create an empty signature status map
+ */
+export function createEmptySignatureStatusMap(): SignatureStatusMap {
+  return { assumptions: {}, votes: {}, tags: {}, edits: {}, relations: {} };
+}
+
+/**
+ * Decide whether an entity should be shown given its signature status
+ *
+ * @param status - Verification status (undefined while verification is pending)
+ * @param requireSignatures - Strict mode: also reject unsigned entities
+ * @returns true if the entity should be displayed/counted
+ */
+export function isSignatureAccepted(
+  status: EntitySignatureStatus | undefined,
+  requireSignatures = false
+): boolean {
+  if (status === 'invalid' || status === 'unauthorized') return false;
+  if (status === 'missing') return !requireSignatures;
+  return true;
+}
+
+/**
+ * Vote weights by trust distance of the voter from the viewer
+ * (network summary, see getNetworkVoteWeight)
+ */
+export const NETWORK_VOTE_WEIGHTS = {
+  self: 1,
+  firstDegree: 1,
+  secondDegree: 0.5,
+  unknown: 0,
+};
+
+/**
+ * Options for vote aggregation
+ */
+export interface VoteSummaryOptions {
+  /** Vote signature statuses (vote ID → status); forged votes are not counted */
+  signatureStatuses?: Record<string, EntitySignatureStatus>;
+  /** Strict mode: unsigned votes are not counted either */
+  requireSignatures?: boolean;
+  /**
+   * Network mode: trust degree of a voter from the viewer (0 = self, null = no path).
+   * Each vote counts with getNetworkVoteWeight(degree) instead of 1.
+   */
+  getTrustDegree?: (voterDid: string) => number | null | undefined;
+}
+
 /**
  * Helper type for vote aggregation (computed client-side)
+ * In network mode the counts are weighted sums.
  */
 export interface VoteSummary {
   green: number;
@@ -110,6 +235,8 @@ export interface VoteSummary {
   red: number;
   total: number;
   userVote?: VoteValue;
+  /** Network mode: number of votes with a weight above 0 */
+  voterCount?: number;
 }
 
 /**
@@ -131,6 +258,7 @@ export function createEmptyOpinionGraphDoc(
       votes: {},
       tags: {},
       edits: {},
+      relations: {},
       identity: creatorIdentity,  // Keep for backward compatibility
       createdBy: creatorIdentity.did,
     },
@@ -141,46 +269,124 @@ export function createEmptyOpinionGraphDoc(
 }
 
 /**
- * Compute vote summary for an assumption
+ * Weight of a vote in the network summary
+ * Self and 1st degree count fully, 2nd degree half, everyone else (3rd
+ * degree, no trust path, blocked) not at all.
  *
- * @param assumption - The assumption to compute votes for
- * @param allVotes - All votes in the document
+ * @param degree - Trust degree of the voter (0 = self, null/undefined = unknown)
+ */
+export function getNetworkVoteWeight(degree: number | null | undefined): number {
+  if (degree === 0) return NETWORK_VOTE_WEIGHTS.self;
+  if (degree === 1) return NETWORK_VOTE_WEIGHTS.firstDegree;
+  if (degree === 2) return NETWORK_VOTE_WEIGHTS.secondDegree;
+  return NETWORK_VOTE_WEIGHTS.unknown;
+}
+
+/**
+ * Aggregate a list of votes
+ *
+ * @param votes - Votes to count (already filtered)
  * @param currentUserDid - Optional current user DID to track their vote
+ * @param options - Optional network mode (getTrustDegree)
  * @returns Vote summary with counts and user's vote
  */
-export function computeVoteSummary(
-  assumption: Assumption,
-  allVotes: Record<string, Vote>,
-  currentUserDid?: string
+export function summarizeVotes(
+  votes: Vote[],
+  currentUserDid?: string,
+  options: Pick<VoteSummaryOptions, 'getTrustDegree'> = {}
 ): VoteSummary {
+  const { getTrustDegree } = options;
   const summary: VoteSummary = {
     green: 0,
     yellow: 0,
     red: 0,
     total: 0,
+    ...(getTrustDegree ? { voterCount: 0 } : {}),
   };
 
-  // Get all votes for this assumption
-  const assumptionVotes = assumption.voteIds
-    .map((id) => allVotes[id])
-    .filter((v): v is Vote => v !== undefined);
-
-  for (const vote of assumptionVotes) {
-    if (vote.value === 'green') summary.green++;
-    else if (vote.value === 'yellow') summary.yellow++;
-    else if (vote.value === 'red') summary.red++;
-
-    summary.total++;
-
+  for (const vote of votes) {
     // Track current user's vote
     if (currentUserDid && vote.voterDid === currentUserDid) {
       summary.userVote = vote.value;
     }
+
+    const weight = getTrustDegree ? getNetworkVoteWeight(getTrustDegree(vote.voterDid)) : 1;
+    if (weight === 0) continue;
+
+    if (vote.value === 'green') summary.green += weight;
+    else if (vote.value === 'yellow') summary.yellow += weight;
+    else if (vote.value === 'red') summary.red += weight;
+
+    summary.total += weight;
+    if (summary.voterCount !== undefined) summary.voterCount++;
   }
 
   return summary;
 }
 
+/**
+ * Compute vote summary for an assumption
+ *
+ * @param assumption - The assumption to compute votes for
+ * @param allVotes - All votes in the document
+ * @param currentUserDid - Optional current user DID to track their vote
+ * @param options - Optional signature filtering and network mode
+ * @returns Vote summary with counts and user's vote
+ */
+export function computeVoteSummary(
+  assumption: Assumption,
+  allVotes: Record<string, Vote>,
+  currentUserDid?: string,
+  options: VoteSummaryOptions = {}
+): VoteSummary {
+  // Get all votes for this assumption (voteIds is an unsigned index, so the
+  // signed assumptionId decides; one vote per voter, the newest counts)
+  const latest = new Map<string, Vote>();
+  for (const id of new Set(assumption.voteIds)) {
+    const vote = allVotes[id];
+    if (!vote || vote.assumptionId !== assumption.id) continue;
+    if (
+      options.signatureStatuses &&
+      !isSignatureAccepted(options.signatureStatuses[vote.id], options.requireSignatures)
+    ) {
+      continue;
+    }
+    const existing = latest.get(vote.voterDid);
+    if (!existing || (vote.updatedAt ?? vote.createdAt) > (existing.updatedAt ?? existing.createdAt)) {
+      latest.set(vote.voterDid, vote);
+    }
+  }
+
+  return summarizeVotes(Array.from(latest.values()), currentUserDid, options);
+}
+
+/**
+ * Find an existing relation of the same type between two assumptions
+ */
+export function findRelation(
+  relations: Record<string, AssumptionRelation> | undefined,
+  sourceId: string,
+  targetId: string,
+  type: RelationType
+): AssumptionRelation | undefined {
+  return Object.values(relations ?? {}).find(
+    (relation) =>
+      relation.sourceId === sourceId && relation.targetId === targetId && relation.type === type
+  );
+}
+
+/**
+ * Get all relations starting or ending at an assumption, oldest first
+ */
+export function getRelationsForAssumption(
+  relations: Record<string, AssumptionRelation> | undefined,
+  assumptionId: string
+): AssumptionRelation[] {
+  return Object.values(relations ?? {})
+    .filter((relation) => relation.sourceId === assumptionId || relation.targetId === assumptionId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
 /**
  * Generate a simple unique ID
  * TODO: Replace with proper UUID or content-addressed ID
@@ -0,0 +1,702 @@
+/**
+ * Import and export of assumptions
+ *
+ * Import: JSON arrays, CSV (with tag columns) and Markdown lists become
+ * plain assumptions created by the importing user; duplicates of existing
+ * assumptions are detected by normalized sentence.
+ *
+ * Export: CSV and Markdown with vote summaries, edit history and signature
+ * state, plus a signed JSON bundle. The bundle carries the original signed
+ * entities (assumptions, votes, edits, tags, relations) and the signers'
+ * profiles; the exporter signs the whole bundle as JWS. Another workspace
+ * imports the entities unchanged, so their signatures (and authors) stay
+ * verifiable there.
+ */
+
+import {
+  base64Encode,
+  csvField,
+  extractPublicKeyFromDid,
+  isValidDid,
+  verifyJws,
+  type IdentityProfile,
+} from 'narrative-ui';
+import type {
+  Assumption,
+  AssumptionRelation,
+  EditEntry,
+  EntitySignatureStatus,
+  OpinionGraphData,
+  SignatureStatusMap,
+  Tag,
+  Vote,
+  VoteSummary,
+} from '../schema/opinion-graph';
+import { getEntitySignerDid, resolveSignerPublicKey, verifyOpinionGraph } from './signatureVerification';
+
+/**
+ * Supported import formats
+ */
+export type ImportFormat = 'json' | 'csv' | 'markdown' | 'bundle';
+
+/**
+ * Assumption to be created by an import
+ */
+export interface ImportCandidate {
+  sentence: string;
+  tags: string[];
+  /** Already in the workspace ('existing') or earlier in the same import ('import') */
+  duplicate?: 'existing' | 'import';
+}
+
+/**
+ * Format marker of assumption bundles
+ */
+export const ASSUMPTION_BUNDLE_FORMAT = 'narrative-assumption-bundle';
+
+/**
+ * Current version of the bundle format
+ */
+export const ASSUMPTION_BUNDLE_VERSION = 1;
+
+/**
+ * Content of an assumption bundle (the signed JWS payload)
+ */
+export interface AssumptionBundle {
+  format: typeof ASSUMPTION_BUNDLE_FORMAT;
+  version: number;
+  /** DID of the exporting user (signer of the bundle) */
+  exportedBy: string;
+  createdAt: number;
+  assumptions: Record<string, Assumption>;
+  votes: Record<string, Vote>;
+  edits: Record<string, EditEntry>;
+  tags: Record<string, Tag>;
+  relations: Record<string, AssumptionRelation>;
+  /** Profiles of all signers (display name and public key) */
+  identities: Record<string, IdentityProfile>;
+}
+
+/**
+ * Exported bundle file: readable bundle plus its signature
+ */
+export interface SignedAssumptionBundle {
+  bundle: AssumptionBundle;
+  /** JWS compact serialization, payload = bundle */
+  jws: string;
+}
+
+/**
+ * Result of verifying a bundle file
+ */
+export interface AssumptionBundleVerification {
+  valid: boolean;
+  bundle?: AssumptionBundle;
+  /** Signature status of each entity in the bundle */
+  statuses?: SignatureStatusMap;
+  error?: string;
+}
+
+/**
+ * Entities of a bundle that will be added to a workspace
+ */
+export interface BundleImport {
+  assumptions: Record<string, Assumption>;
+  votes: Record<string, Vote>;
+  edits: Record<string, EditEntry>;
+  tags: Record<string, Tag>;
+  relations: Record<string, AssumptionRelation>;
+  identities: Record<string, IdentityProfile>;
+}
+
+/**
+ * Counts shown after a bundle import
+ */
+export interface BundleImportSummary {
+  imported: number;
+  duplicates: number;
+  /** Assumptions without a valid signature */
+  rejected: number;
+}
+
+const SENTENCE_HEADERS = ['sentence', 'annahme', 'aussage', 'assumption', 'text'];
+const TAG_HEADER = /^(tags?|schlagw(o|ö)rter?)(\s*\d+)?$/;
+const LIST_ITEM = /^(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?(.+)$/;
+const HASHTAG = /(^|\s)#([^\s#]+)/g;
+
+/**
+ * Normalize a sentence for duplicate detection
+ * (case, whitespace and trailing punctuation don't matter)
+ */
+export function normalizeSentence(sentence: string): string {
+  return sentence
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .replace(/[.!?…]+$/, '');
+}
+
+/**
+ * Detect the format of pasted or uploaded import text
+ */
+export function detectImportFormat(text: string): ImportFormat {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) return 'bundle';
+  if (trimmed.startsWith('[')) return 'json';
+
+  const lines = trimmed.split(/\r?\n/).filter((line) => line.trim());
+  const isMarkdown = lines.some((line) => LIST_ITEM.test(line) || /^#{1,6}\s/.test(line));
+  return isMarkdown ? 'markdown' : 'csv';
+}
+
+function splitTags(value: string): string[] {
+  return value
+    .split(/[;,|]/)
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parse a JSON array of strings or { sentence, tags? } objects
+ */
+export function parseJsonAssumptions(text: string): ImportCandidate[] {
+  const parsed = JSON.parse(text || '[]');
+  if (!Array.isArray(parsed)) throw new Error('JSON Array erwartet');
+
+  const candidates: ImportCandidate[] = [];
+  for (const item of parsed) {
+    const sentence = typeof item === 'string' ? item : item?.sentence;
+    const tags =
+      item && Array.isArray(item.tags)
+        ? item.tags.filter((t: unknown): t is string => typeof t === 'string')
+        : [];
+
+    if (sentence && typeof sentence === 'string' && sentence.trim()) {
+      candidates.push({ sentence: sentence.trim(), tags });
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Split CSV text into rows (quoted fields may contain delimiters and line breaks)
+ */
+export function parseCsvRows(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((cell) => cell.trim()));
+}
+
+/**
+ * Parse CSV with a sentence column and any number of tag columns
+ *
+ * With a header row, the sentence column is "Annahme" (or sentence, Aussage,
+ * text) and tag columns are named "Tags", "Tag 1", "Tag 2", ...; without a
+ * header the first column is the sentence and all others are tags. Tag cells
+ * may hold several tags separated by ";", "," or "|".
+ */
+export function parseCsvAssumptions(text: string): ImportCandidate[] {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = ['\t', ';', ','].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+  const rows = parseCsvRows(text.trim(), delimiter);
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((cell) => cell.trim().toLowerCase());
+  const headerSentenceColumn = header.findIndex((cell) => SENTENCE_HEADERS.includes(cell));
+  const hasHeader = headerSentenceColumn >= 0;
+  const sentenceColumn = hasHeader ? headerSentenceColumn : 0;
+  const tagColumns = hasHeader
+    ? header.map((cell, index) => (TAG_HEADER.test(cell) ? index : -1)).filter((index) => index >= 0)
+    : rows[0].map((_, index) => index).filter((index) => index !== 0);
+
+  return (hasHeader ? rows.slice(1) : rows)
+    .map((row) => ({
+      sentence: (row[sentenceColumn] ?? '').trim(),
+      tags: tagColumns.flatMap((index) => splitTags(row[index] ?? '')),
+    }))
+    .filter((candidate) => candidate.sentence);
+}
+
+/**
+ * Parse top-level Markdown list items ("- ", "* ", "1. ", task lists)
+ * Hashtags become tags; nested items and headings are ignored.
+ */
+export function parseMarkdownAssumptions(text: string): ImportCandidate[] {
+  const candidates: ImportCandidate[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const match = LIST_ITEM.exec(line);
+    if (!match) continue;
+
+    const tags = Array.from(match[1].matchAll(HASHTAG), (m) => m[2]);
+    const sentence = match[1]
+      .replace(HASHTAG, '$1')
+      .replace(/\*\*|__/g, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (sentence) candidates.push({ sentence, tags });
+  }
+  return candidates;
+}
+
+/**
+ * Parse import text in any plain format and mark duplicates
+ *
+ * @param text - Pasted or uploaded text (JSON array, CSV or Markdown)
+ * @param existingSentences - Sentences already in the workspace
+ */
+export function parseImportText(
+  text: string,
+  existingSentences: string[] = []
+): { format: ImportFormat; candidates: ImportCandidate[] } {
+  const format = detectImportFormat(text);
+  const candidates =
+    format === 'json'
+      ? parseJsonAssumptions(text)
+      : format === 'csv'
+        ? parseCsvAssumptions(text)
+        : format === 'markdown'
+          ? parseMarkdownAssumptions(text)
+          : [];
+
+  return { format, candidates: markDuplicates(candidates, existingSentences) };
+}
+
+/**
+ * Mark candidates whose sentence exists already (or occurred earlier in the import)
+ */
+export function markDuplicates(
+  candidates: ImportCandidate[],
+  existingSentences: string[]
+): ImportCandidate[] {
+  const existing = new Set(existingSentences.map(normalizeSentence));
+  const seen = new Set<string>();
+
+  return candidates.map((candidate) => {
+    const normalized = normalizeSentence(candidate.sentence);
+    const { duplicate: _previous, ...rest } = candidate;
+    const result: ImportCandidate = existing.has(normalized)
+      ? { ...rest, duplicate: 'existing' }
+      : seen.has(normalized)
+        ? { ...rest, duplicate: 'import' }
+        : rest;
+    seen.add(normalized);
+    return result;
+  });
+}
+
+/**
+ * Edits of an assumption, oldest first
+ */
+function getEdits(assumption: Assumption, data: OpinionGraphData): EditEntry[] {
+  return assumption.editLogIds
+    .map((id) => data.edits[id])
+    .filter((edit): edit is EditEntry => edit !== undefined)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+function getTagNames(assumption: Assumption, data: OpinionGraphData): string[] {
+  return assumption.tagIds
+    .map((id) => data.tags[id]?.name)
+    .filter((name): name is string => Boolean(name));
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Export assumptions as CSV (comma separated, with header)
+ * The "Annahme" and "Tags" columns can be imported again.
+ */
+export function assumptionsToCsv(
+  assumptions: Assumption[],
+  data: OpinionGraphData,
+  identities: Record<string, IdentityProfile>,
+  getVoteSummary: (assumptionId: string) => VoteSummary
+): string {
+  const header = [
+    'Annahme',
+    'Tags',
+    'Zustimmung',
+    'Neutral',
+    'Ablehnung',
+    'Stimmen',
+    'Erstellt von',
+    'Ersteller-DID',
+    'Erstellt am',
+    'Bearbeitungen',
+    'Zuletzt geändert',
+    'ID',
+    'Signatur',
+  ];
+
+  const rows = assumptions.map((assumption) => {
+    const summary = getVoteSummary(assumption.id);
+    const edits = getEdits(assumption, data).filter((edit) => edit.type === 'edit');
+    return [
+      assumption.sentence,
+      getTagNames(assumption, data).join('; '),
+      summary.green,
+      summary.yellow,
+      summary.red,
+      summary.total,
+      identities[assumption.createdBy]?.displayName ?? '',
+      assumption.createdBy,
+      new Date(assumption.createdAt).toISOString(),
+      edits.length,
+      new Date(assumption.updatedAt).toISOString(),
+      assumption.id,
+      assumption.signature ?? '',
+    ];
+  });
+
+  return [header, ...rows].map((row) => row.map(csvField).join(',')).join('\n');
+}
+
+/**
+ * Export assumptions as Markdown list with votes and edit history
+ * The top-level list items (sentence and hashtags) can be imported again.
+ */
+export function assumptionsToMarkdown(
+  assumptions: Assumption[],
+  data: OpinionGraphData,
+  identities: Record<string, IdentityProfile>,
+  getVoteSummary: (assumptionId: string) => VoteSummary
+): string {
+  const getName = (did: string) => identities[did]?.displayName || did;
+  const lines = [
+    '# Annahmen',
+    '',
+    `_Exportiert am ${formatDate(Date.now())} · ${assumptions.length} Annahmen_`,
+    '',
+  ];
+
+  for (const assumption of assumptions) {
+    const summary = getVoteSummary(assumption.id);
+    const hashtags = getTagNames(assumption, data).map((name) => ` #${name.replace(/\s+/g, '-')}`);
+    const edits = getEdits(assumption, data).filter((edit) => edit.type === 'edit');
+
+    lines.push(`- **${assumption.sentence}**${hashtags.join('')}`);
+    lines.push(`  - Stimmen: 🟢 ${summary.green} · 🟡 ${summary.yellow} · 🔴 ${summary.red}`);
+    lines.push(
+      `  - Von ${getName(assumption.createdBy)} am ${formatDate(assumption.createdAt)} · ` +
+        (assumption.signature ? 'signiert' : 'nicht signiert')
+    );
+    if (edits.length > 0) {
+      lines.push('  - Änderungen:');
+      for (const edit of edits) {
+        lines.push(
+          `    - ${formatDate(edit.createdAt)} ${getName(edit.editorDid)}: ` +
+            `„${edit.previousSentence}“ → „${edit.newSentence}“`
+        );
+      }
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Build the bundle content of the given assumptions (to be signed by the exporter)
+ * Contains their votes, edits, tags, the relations among them and the signers' profiles.
+ */
+export function createAssumptionBundle(
+  assumptions: Assumption[],
+  data: OpinionGraphData,
+  identities: Record<string, IdentityProfile>,
+  exportedBy: string
+): AssumptionBundle {
+  const bundle: AssumptionBundle = {
+    format: ASSUMPTION_BUNDLE_FORMAT,
+    version: ASSUMPTION_BUNDLE_VERSION,
+    exportedBy,
+    createdAt: Date.now(),
+    assumptions: {},
+    votes: {},
+    edits: {},
+    tags: {},
+    relations: {},
+    identities: {},
+  };
+
+  for (const assumption of assumptions) {
+    bundle.assumptions[assumption.id] = assumption;
+    for (const id of assumption.voteIds) {
+      if (data.votes[id]) bundle.votes[id] = data.votes[id];
+    }
+    for (const id of assumption.editLogIds) {
+      if (data.edits[id]) bundle.edits[id] = data.edits[id];
+    }
+    for (const id of assumption.tagIds) {
+      if (data.tags[id]) bundle.tags[id] = data.tags[id];
+    }
+  }
+
+  for (const [id, relation] of Object.entries(data.relations ?? {})) {
+    if (bundle.assumptions[relation.sourceId] && bundle.assumptions[relation.targetId]) {
+      bundle.relations[id] = relation;
+    }
+  }
+
+  const signers = new Set([
+    exportedBy,
+    ...[
+      ...Object.values(bundle.assumptions),
+      ...Object.values(bundle.votes),
+      ...Object.values(bundle.edits),
+      ...Object.values(bundle.tags),
+      ...Object.values(bundle.relations),
+    ].map(getEntitySignerDid),
+  ]);
+  for (const did of signers) {
+    const profile = identities[did];
+    if (!profile) continue;
+    bundle.identities[did] = {
+      ...(profile.displayName ? { displayName: profile.displayName } : {}),
+      ...(profile.publicKey ? { publicKey: profile.publicKey } : {}),
+    };
+  }
+
+  return bundle;
+}
+
+/**
+ * Verify a signed assumption bundle and the signatures of its entities
+ *
+ * @param file - Parsed bundle file
+ */
+export async function verifyAssumptionBundle(file: unknown): Promise<AssumptionBundleVerification> {
+  const signed = file as Partial<SignedAssumptionBundle> | null;
+  const bundle = signed?.bundle;
+  if (
+    !signed ||
+    typeof signed.jws !== 'string' ||
+    bundle?.format !== ASSUMPTION_BUNDLE_FORMAT ||
+    typeof bundle.exportedBy !== 'string' ||
+    typeof bundle.assumptions !== 'object'
+  ) {
+    return { valid: false, error: 'Kein Annahmen-Bündel' };
+  }
+
+  const identities = bundle.identities ?? {};
+  const publicKey = resolveSignerPublicKey(bundle.exportedBy, identities);
+  if (!publicKey) {
+    return { valid: false, bundle, error: 'Öffentlicher Schlüssel des Exporteurs unbekannt' };
+  }
+
+  const result = await verifyJws(signed.jws, publicKey);
+  if (!result.valid) {
+    return { valid: false, bundle, error: 'Signatur des Bündels ungültig' };
+  }
+
+  // The readable bundle must be exactly what was signed
+  if (JSON.stringify(result.payload) !== JSON.stringify(bundle)) {
+    return { valid: false, bundle, error: 'Inhalt weicht von der Signatur ab' };
+  }
+
+  const statuses = await verifyOpinionGraph(
+    {
+      assumptions: bundle.assumptions,
+      votes: bundle.votes ?? {},
+      edits: bundle.edits ?? {},
+      tags: bundle.tags ?? {},
+      relations: bundle.relations ?? {},
+    },
+    identities
+  );
+
+  return { valid: true, bundle, statuses };
+}
+
+/**
+ * Public key contained in a did:key DID, or undefined for legacy DIDs
+ */
+function didPublicKey(did: string): string | undefined {
+  return isValidDid(did) ? base64Encode(extractPublicKeyFromDid(did)) : undefined;
+}
+
+/**
+ * Select the entities of a verified bundle that a workspace should take over
+ *
+ * Only entities with a valid signature by a did:key signer are imported:
+ * their provenance must stay verifiable without the keys the bundle brings
+ * along. Tag IDs are signed, so assumptions referencing a tag that is
+ * neither imported nor in the workspace are rejected as well. Assumptions
+ * that exist already, by ID or by sentence, are skipped together with their
+ * votes and edits.
+ *
+ * @param bundle - Verified bundle
+ * @param statuses - Entity signature statuses (see verifyAssumptionBundle)
+ * @param existing - Current opinion graph data of the workspace
+ */
+export function selectBundleImport(
+  bundle: AssumptionBundle,
+  statuses: SignatureStatusMap,
+  existing: OpinionGraphData
+): { selection: BundleImport; summary: BundleImportSummary } {
+  const isValid = (
+    status: EntitySignatureStatus | undefined,
+    entity: Assumption | Vote | EditEntry | Tag | AssumptionRelation
+  ) => status === 'valid' && isValidDid(getEntitySignerDid(entity));
+  const isImportableTag = (tagId: string) => {
+    const tag = bundle.tags?.[tagId];
+    return Boolean(existing.tags[tagId] || (tag && isValid(statuses.tags[tagId], tag)));
+  };
+  const existingSentences = new Set(
+    Object.values(existing.assumptions).map((a) => normalizeSentence(a.sentence))
+  );
+
+  const selection: BundleImport = {
+    assumptions: {},
+    votes: {},
+    edits: {},
+    tags: {},
+    relations: {},
+    identities: {},
+  };
+  const summary: BundleImportSummary = { imported: 0, duplicates: 0, rejected: 0 };
+
+  for (const [id, assumption] of Object.entries(bundle.assumptions)) {
+    if (!isValid(statuses.assumptions[id], assumption) || !assumption.tagIds.every(isImportableTag)) {
+      summary.rejected++;
+      continue;
+    }
+    const normalized = normalizeSentence(assumption.sentence);
+    if (existing.assumptions[id] || existingSentences.has(normalized)) {
+      summary.duplicates++;
+      continue;
+    }
+    existingSentences.add(normalized);
+
+    // Index fields are not signed: rebuild them from the imported entities
+    const voteIds = assumption.voteIds.filter((voteId) => {
+      const vote = bundle.votes?.[voteId];
+      return vote?.assumptionId === id && isValid(statuses.votes[voteId], vote) && !existing.votes[voteId];
+    });
+    const editLogIds = assumption.editLogIds.filter((editId) => {
+      const edit = bundle.edits?.[editId];
+      return edit?.assumptionId === id && isValid(statuses.edits[editId], edit) && !existing.edits[editId];
+    });
+
+    selection.assumptions[id] = { ...assumption, voteIds, editLogIds };
+    voteIds.forEach((voteId) => (selection.votes[voteId] = bundle.votes[voteId]));
+    editLogIds.forEach((editId) => (selection.edits[editId] = bundle.edits[editId]));
+    for (const tagId of assumption.tagIds) {
+      if (!existing.tags[tagId]) selection.tags[tagId] = bundle.tags[tagId];
+    }
+    summary.imported++;
+  }
+
+  const isKnownAssumption = (id: string) => Boolean(selection.assumptions[id] || existing.assumptions[id]);
+  for (const [id, relation] of Object.entries(bundle.relations ?? {})) {
+    if (
+      isValid(statuses.relations[id], relation) &&
+      !existing.relations?.[id] &&
+      (selection.assumptions[relation.sourceId] || selection.assumptions[relation.targetId]) &&
+      isKnownAssumption(relation.sourceId) &&
+      isKnownAssumption(relation.targetId)
+    ) {
+      selection.relations[id] = relation;
+    }
+  }
+
+  // Profiles of the imported signers (for display names)
+  const signers = new Set(
+    [
+      ...Object.values(selection.assumptions),
+      ...Object.values(selection.votes),
+      ...Object.values(selection.edits),
+      ...Object.values(selection.tags),
+      ...Object.values(selection.relations),
+    ].map(getEntitySignerDid)
+  );
+  for (const did of signers) {
+    if (bundle.identities?.[did]) selection.identities[did] = bundle.identities[did];
+  }
+
+  return { selection, summary };
+}
+
+/**
+ * Add selected bundle entities to opinion graph data (inside an Automerge change)
+ * Existing identity profiles are kept; a missing display name is filled in.
+ * Public keys from the bundle are only taken over if the DID contains them,
+ * so an imported profile can never change whose signatures verify.
+ */
+export function applyBundleImport(
+  data: OpinionGraphData,
+  identities: Record<string, IdentityProfile>,
+  selection: BundleImport
+): void {
+  Object.assign(data.assumptions, selection.assumptions);
+  Object.assign(data.votes, selection.votes);
+  Object.assign(data.edits, selection.edits);
+  Object.assign(data.tags, selection.tags);
+  if (Object.keys(selection.relations).length > 0) {
+    if (!data.relations) data.relations = {};
+    Object.assign(data.relations, selection.relations);
+  }
+
+  for (const [did, profile] of Object.entries(selection.identities)) {
+    if (!identities[did]) identities[did] = {};
+    if (profile.displayName && !identities[did].displayName) {
+      identities[did].displayName = profile.displayName;
+    }
+    const publicKey = didPublicKey(did);
+    if (publicKey && profile.publicKey === publicKey && !identities[did].publicKey) {
+      identities[did].publicKey = publicKey;
+    }
+  }
+}
+
+/**
+ * Verify a bundle file and select its entities for a workspace
+ *
+ * @throws Error with a German message if the bundle is not valid
+ */
+export async function prepareBundleImport(
+  file: unknown,
+  existing: OpinionGraphData
+): Promise<{ selection: BundleImport; summary: BundleImportSummary }> {
+  const verification = await verifyAssumptionBundle(file);
+  if (!verification.valid || !verification.bundle || !verification.statuses) {
+    throw new Error(verification.error ?? 'Bündel ungültig');
+  }
+  return selectBundleImport(verification.bundle, verification.statuses, existing);
+}
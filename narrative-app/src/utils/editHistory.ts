@@ -0,0 +1,168 @@
+/**
+ * Edit history of assumptions: versions, word-level diffs and conflicts
+ *
+ * Every create/edit entry describes one version of an assumption. Edits
+ * made concurrently on different devices are merged by Automerge, and the
+ * assumption shows only one of the competing versions (last writer wins).
+ * Such forks are detected from the log: two edits by different DIDs that
+ * start from the same version, without that version being restored in
+ * between.
+ */
+
+import type { EditEntry } from '../schema/opinion-graph';
+
+/**
+ * Part of a word-level diff
+ */
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Version of an assumption after a create or edit entry
+ */
+export interface AssumptionVersion {
+  editId: string;
+  sentence: string;
+  /** Tag names (as recorded in the edit entry) */
+  tags: string[];
+  editorDid: string;
+  createdAt: number;
+  type: EditEntry['type'];
+  /** Edit whose version this one restored (see EditEntry.revertedTo) */
+  revertedTo?: string;
+}
+
+/**
+ * Competing edits that started from the same version
+ */
+export interface EditConflict {
+  /** Sentence all edits started from */
+  baseSentence: string;
+  /** Concurrent edits, oldest first */
+  edits: EditEntry[];
+}
+
+/**
+ * Split text into words and the whitespace between them
+ */
+function tokenize(text: string): string[] {
+  return text.split(/(\s+)/).filter((token) => token.length > 0);
+}
+
+/**
+ * Word-level diff of two texts (longest common subsequence)
+ * Adjacent parts of the same type are merged.
+ */
+export function diffWords(previous: string, next: string): DiffPart[] {
+  const a = tokenize(previous);
+  const b = tokenize(next);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.text += text;
+    else parts.push({ type, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+
+  return parts;
+}
+
+/**
+ * Build the versions of an assumption from its edit entries, oldest first
+ * Entries without tag information keep the tags of the previous version.
+ */
+export function buildVersionHistory(edits: EditEntry[]): AssumptionVersion[] {
+  const versions: AssumptionVersion[] = [];
+
+  for (const edit of [...edits].sort((a, b) => a.createdAt - b.createdAt)) {
+    const previousTags = versions[versions.length - 1]?.tags ?? edit.previousTags ?? [];
+    versions.push({
+      editId: edit.id,
+      sentence: edit.newSentence || versions[versions.length - 1]?.sentence || '',
+      tags: edit.newTags ?? previousTags,
+      editorDid: edit.editorDid,
+      createdAt: edit.createdAt,
+      type: edit.type,
+      ...(edit.revertedTo ? { revertedTo: edit.revertedTo } : {}),
+    });
+  }
+
+  return versions;
+}
+
+function sameTags(a: string[] = [], b: string[] = []): boolean {
+  return [...a].sort().join('|') === [...b].sort().join('|');
+}
+
+/**
+ * Find edits by different DIDs that were made concurrently on the same version
+ *
+ * Two edits conflict if they start from the same sentence, lead to different
+ * results and no edit between them restored that sentence (which would make
+ * the later one a normal follow-up edit).
+ */
+export function findEditConflicts(edits: EditEntry[]): EditConflict[] {
+  const sorted = edits
+    .filter((edit) => edit.type === 'edit')
+    .sort((a, b) => a.createdAt - b.createdAt);
+  const conflicts: EditConflict[] = [];
+  const inConflict = new Set<string>();
+
+  for (let first = 0; first < sorted.length; first++) {
+    if (inConflict.has(sorted[first].id)) continue;
+    const base = sorted[first].previousSentence;
+    const group = [sorted[first]];
+
+    for (let next = first + 1; next < sorted.length; next++) {
+      const edit = sorted[next];
+      if (edit.previousSentence !== base) {
+        // Base restored in between: later edits on it are follow-ups
+        if (edit.newSentence === base) break;
+        continue;
+      }
+
+      const competes = group.every(
+        (other) =>
+          other.editorDid !== edit.editorDid &&
+          (other.newSentence !== edit.newSentence || !sameTags(other.newTags, edit.newTags))
+      );
+      if (competes) group.push(edit);
+    }
+
+    if (group.length > 1) {
+      group.forEach((edit) => inConflict.add(edit.id));
+      conflicts.push({ baseSentence: base, edits: group });
+    }
+  }
+
+  return conflicts;
+}
@@ -0,0 +1,353 @@
+/**
+ * Opinion clustering and consensus detection (Polis-style)
+ *
+ * Votes are turned into a voter × assumption matrix (agree = 1, pass = 0,
+ * disagree = -1, missing votes count as pass). Voters are grouped with
+ * k-means; the number of groups is chosen by silhouette score. Per group
+ * we then look for assumptions all groups agree on (consensus) and ones
+ * the groups disagree about (divisive).
+ */
+
+import type { Vote, VoteValue } from '../schema/opinion-graph';
+
+/**
+ * Numeric score of a vote value
+ */
+export const VOTE_SCORES: Record<VoteValue, number> = {
+  green: 1,
+  yellow: 0,
+  red: -1,
+};
+
+/**
+ * Voter × assumption matrix (null = voter did not vote on the assumption)
+ */
+export interface VoteMatrix {
+  voterDids: string[];
+  assumptionIds: string[];
+  rows: (number | null)[][];
+}
+
+/**
+ * Votes of one group on one assumption
+ */
+export interface ClusterVoteStats {
+  green: number;
+  yellow: number;
+  red: number;
+  total: number;
+}
+
+/**
+ * Group of voters with similar opinions
+ */
+export interface OpinionCluster {
+  id: number;
+  memberDids: string[];
+  /** Votes of the group per assumption */
+  stats: Record<string, ClusterVoteStats>;
+  /** Assumptions where the group differs most from everyone else */
+  representativeIds: string[];
+}
+
+/**
+ * Consensus or divisive assumption with the votes of each group
+ */
+export interface AssumptionInsight {
+  assumptionId: string;
+  /** Votes per group (same order as OpinionAnalysis.clusters) */
+  clusterStats: ClusterVoteStats[];
+  /** Consensus: direction all groups share */
+  direction?: 'agree' | 'disagree';
+  /** Consensus: lowest agreement ratio of a group; divisive: score spread between groups (0–2) */
+  strength: number;
+}
+
+export interface OpinionAnalysis {
+  clusters: OpinionCluster[];
+  consensus: AssumptionInsight[];
+  divisive: AssumptionInsight[];
+  voterCount: number;
+  assumptionCount: number;
+}
+
+export interface OpinionAnalysisOptions {
+  /** Maximum number of groups (default: 4) */
+  maxClusters?: number;
+  /** Minimum number of votes before an assumption is analyzed (default: 2) */
+  minVotes?: number;
+  /** Share of a group that must agree (or disagree) for consensus (default: 0.6) */
+  consensusThreshold?: number;
+  /** Minimum score spread between groups for divisive assumptions (default: 1) */
+  divisiveThreshold?: number;
+}
+
+/** Below this number of voters everyone forms one group */
+const MIN_VOTERS_FOR_CLUSTERING = 4;
+const MAX_KMEANS_ITERATIONS = 20;
+const REPRESENTATIVE_COUNT = 3;
+const REPRESENTATIVE_MIN_DIFFERENCE = 0.5;
+
+/**
+ * Build the voter × assumption matrix (latest vote per voter and assumption)
+ *
+ * @param assumptionIds - Columns of the matrix; votes on other assumptions are ignored
+ * @param votes - Votes to include (already filtered)
+ */
+export function buildVoteMatrix(assumptionIds: string[], votes: Vote[]): VoteMatrix {
+  const columns = new Map(assumptionIds.map((id, index) => [id, index]));
+  const latest = new Map<string, Map<string, Vote>>();
+
+  for (const vote of votes) {
+    if (!columns.has(vote.assumptionId)) continue;
+    const byAssumption = latest.get(vote.voterDid) ?? new Map<string, Vote>();
+    const existing = byAssumption.get(vote.assumptionId);
+    if (!existing || (vote.updatedAt ?? vote.createdAt) > (existing.updatedAt ?? existing.createdAt)) {
+      byAssumption.set(vote.assumptionId, vote);
+    }
+    latest.set(vote.voterDid, byAssumption);
+  }
+
+  const voterDids = Array.from(latest.keys()).sort();
+  const rows = voterDids.map((did) => {
+    const row: (number | null)[] = assumptionIds.map(() => null);
+    for (const vote of latest.get(did)!.values()) {
+      row[columns.get(vote.assumptionId)!] = VOTE_SCORES[vote.value];
+    }
+    return row;
+  });
+
+  return { voterDids, assumptionIds, rows };
+}
+
+function squaredDistance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += (a[i] - b[i]) ** 2;
+  }
+  return sum;
+}
+
+function centroidOf(points: number[][], dimensions: number): number[] {
+  const centroid = new Array<number>(dimensions).fill(0);
+  for (const point of points) {
+    for (let i = 0; i < dimensions; i++) centroid[i] += point[i] / points.length;
+  }
+  return centroid;
+}
+
+/**
+ * Deterministic k-means (farthest-point initialization)
+ *
+ * @returns Group index per point
+ */
+export function kMeans(points: number[][], k: number): number[] {
+  if (points.length === 0) return [];
+  const dimensions = points[0].length;
+
+  // First center: first point; each further center: point farthest from all centers
+  const centers: number[][] = [points[0]];
+  while (centers.length < Math.min(k, points.length)) {
+    let farthest = 0;
+    let farthestDistance = -1;
+    points.forEach((point, index) => {
+      const distance = Math.min(...centers.map((c) => squaredDistance(point, c)));
+      if (distance > farthestDistance) {
+        farthest = index;
+        farthestDistance = distance;
+      }
+    });
+    centers.push(points[farthest]);
+  }
+
+  let assignments = points.map(() => -1);
+  for (let iteration = 0; iteration < MAX_KMEANS_ITERATIONS; iteration++) {
+    const next = points.map((point) => {
+      let best = 0;
+      centers.forEach((center, index) => {
+        if (squaredDistance(point, center) < squaredDistance(point, centers[best])) best = index;
+      });
+      return best;
+    });
+
+    if (next.every((cluster, index) => cluster === assignments[index])) break;
+    assignments = next;
+
+    centers.forEach((_, index) => {
+      const members = points.filter((_, p) => assignments[p] === index);
+      if (members.length > 0) centers[index] = centroidOf(members, dimensions);
+    });
+  }
+
+  return assignments;
+}
+
+/**
+ * Mean silhouette score of a grouping (-1 to 1, higher = better separated)
+ */
+export function silhouetteScore(points: number[][], assignments: number[]): number {
+  if (points.length < 2) return 0;
+
+  const scores = points.map((point, index) => {
+    const distances = new Map<number, number[]>();
+    points.forEach((other, otherIndex) => {
+      if (otherIndex === index) return;
+      const list = distances.get(assignments[otherIndex]) ?? [];
+      list.push(Math.sqrt(squaredDistance(point, other)));
+      distances.set(assignments[otherIndex], list);
+    });
+
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+    const own = distances.get(assignments[index]);
+    if (!own) return 0; // Single member group
+
+    const a = mean(own);
+    const others = Array.from(distances.entries())
+      .filter(([cluster]) => cluster !== assignments[index])
+      .map(([, values]) => mean(values));
+    if (others.length === 0) return 0;
+
+    const b = Math.min(...others);
+    return Math.max(a, b) === 0 ? 0 : (b - a) / Math.max(a, b);
+  });
+
+  return scores.reduce((sum, s) => sum + s, 0) / scores.length;
+}
+
+function emptyStats(): ClusterVoteStats {
+  return { green: 0, yellow: 0, red: 0, total: 0 };
+}
+
+function addScore(stats: ClusterVoteStats, score: number | null): void {
+  if (score === null) return;
+  if (score > 0) stats.green++;
+  else if (score < 0) stats.red++;
+  else stats.yellow++;
+  stats.total++;
+}
+
+/** Mean score of a group on an assumption (-1 to 1) */
+function meanScore(stats: ClusterVoteStats): number {
+  return stats.total === 0 ? 0 : (stats.green - stats.red) / stats.total;
+}
+
+/**
+ * Cluster voters into opinion groups and find consensus and divisive assumptions
+ *
+ * @param assumptionIds - Assumptions to analyze
+ * @param votes - Votes to include (already filtered by hidden users and signatures)
+ * @param options - Thresholds and maximum number of groups
+ */
+export function analyzeOpinions(
+  assumptionIds: string[],
+  votes: Vote[],
+  options: OpinionAnalysisOptions = {}
+): OpinionAnalysis {
+  const {
+    maxClusters = 4,
+    minVotes = 2,
+    consensusThreshold = 0.6,
+    divisiveThreshold = 1,
+  } = options;
+
+  const matrix = buildVoteMatrix(assumptionIds, votes);
+  const points = matrix.rows.map((row) => row.map((score) => score ?? 0));
+
+  // Pick the number of groups with the best silhouette (one group if nothing separates)
+  let assignments = points.map(() => 0);
+  if (points.length >= MIN_VOTERS_FOR_CLUSTERING) {
+    let bestScore = 0;
+    const maxK = Math.min(maxClusters, Math.floor(points.length / 2));
+    for (let k = 2; k <= maxK; k++) {
+      const candidate = kMeans(points, k);
+      const score = silhouetteScore(points, candidate);
+      if (score > bestScore) {
+        bestScore = score;
+        assignments = candidate;
+      }
+    }
+  }
+
+  // Groups ordered by size (empty groups dropped)
+  const groups = Array.from(new Set(assignments))
+    .map((cluster) => matrix.voterDids.map((_, i) => i).filter((i) => assignments[i] === cluster))
+    .sort((a, b) => b.length - a.length || a[0] - b[0]);
+
+  const allStats: Record<string, ClusterVoteStats> = {};
+  matrix.assumptionIds.forEach((assumptionId, column) => {
+    allStats[assumptionId] = emptyStats();
+    matrix.rows.forEach((row) => addScore(allStats[assumptionId], row[column]));
+  });
+
+  const clusters: OpinionCluster[] = groups.map((memberIndexes, id) => {
+    const stats: Record<string, ClusterVoteStats> = {};
+    matrix.assumptionIds.forEach((assumptionId, column) => {
+      stats[assumptionId] = emptyStats();
+      memberIndexes.forEach((i) => addScore(stats[assumptionId], matrix.rows[i][column]));
+    });
+
+    // Compare with everyone outside the group
+    const representativeIds = matrix.assumptionIds
+      .map((assumptionId) => {
+        const own = stats[assumptionId];
+        const all = allStats[assumptionId];
+        const rest: ClusterVoteStats = {
+          green: all.green - own.green,
+          yellow: all.yellow - own.yellow,
+          red: all.red - own.red,
+          total: all.total - own.total,
+        };
+        const difference =
+          own.total === 0 || rest.total === 0 ? 0 : Math.abs(meanScore(own) - meanScore(rest));
+        return { assumptionId, difference };
+      })
+      .filter((entry) => entry.difference >= REPRESENTATIVE_MIN_DIFFERENCE)
+      .sort((a, b) => b.difference - a.difference)
+      .slice(0, REPRESENTATIVE_COUNT)
+      .map((entry) => entry.assumptionId);
+
+    return {
+      id,
+      memberDids: memberIndexes.map((i) => matrix.voterDids[i]),
+      stats,
+      representativeIds,
+    };
+  });
+
+  const consensus: AssumptionInsight[] = [];
+  const divisive: AssumptionInsight[] = [];
+
+  for (const assumptionId of matrix.assumptionIds) {
+    if (allStats[assumptionId].total < minVotes) continue;
+
+    const clusterStats = clusters.map((cluster) => cluster.stats[assumptionId]);
+    const voted = clusterStats.filter((stats) => stats.total > 0);
+
+    const agreeRatios = voted.map((stats) => stats.green / stats.total);
+    const disagreeRatios = voted.map((stats) => stats.red / stats.total);
+    if (Math.min(...agreeRatios) >= consensusThreshold) {
+      consensus.push({ assumptionId, clusterStats, direction: 'agree', strength: Math.min(...agreeRatios) });
+    } else if (Math.min(...disagreeRatios) >= consensusThreshold) {
+      consensus.push({ assumptionId, clusterStats, direction: 'disagree', strength: Math.min(...disagreeRatios) });
+    }
+
+    if (voted.length >= 2) {
+      const scores = voted.map(meanScore);
+      const spread = Math.max(...scores) - Math.min(...scores);
+      if (spread >= divisiveThreshold) {
+        divisive.push({ assumptionId, clusterStats, strength: spread });
+      }
+    }
+  }
+
+  consensus.sort((a, b) => b.strength - a.strength);
+  divisive.sort((a, b) => b.strength - a.strength);
+
+  return {
+    clusters,
+    consensus,
+    divisive,
+    voterCount: matrix.voterDids.length,
+    assumptionCount: matrix.assumptionIds.length,
+  };
+}
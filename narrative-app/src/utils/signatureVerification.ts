@@ -0,0 +1,167 @@
+/**
+ * Read-time signature verification for Opinion Graph entities
+ *
+ * Anyone with the document ID can write to the Automerge document, so
+ * entities are only trusted if their JWS signature matches the DID they
+ * claim to come from. Public keys are looked up in doc.identities; for
+ * real did:key DIDs the stored key must match the key encoded in the DID.
+ */
+
+import type { IdentityProfile } from 'narrative-ui';
+import {
+  verifyEntitySignature,
+  isValidDid,
+  extractPublicKeyFromDid,
+  base64Encode,
+} from 'narrative-ui';
+import type {
+  Assumption,
+  Vote,
+  Tag,
+  EditEntry,
+  AssumptionRelation,
+  OpinionGraphData,
+  EntitySignatureStatus,
+  SignatureStatusMap,
+} from '../schema/opinion-graph';
+import { ASSUMPTION_INDEX_FIELDS, createEmptySignatureStatusMap } from '../schema/opinion-graph';
+
+type VerifiableEntity = Assumption | Vote | Tag | EditEntry | AssumptionRelation;
+
+/**
+ * Verification cache keyed by signer key + entity content
+ * (content is part of the key, so tampered entities are re-verified)
+ */
+const verificationCache = new Map<string, EntitySignatureStatus>();
+
+/**
+ * Get the DID that is expected to have signed an entity
+ */
+export function getEntitySignerDid(entity: VerifiableEntity): string {
+  if ('voterDid' in entity) return entity.voterDid;
+  if ('editorDid' in entity) return entity.editorDid;
+  if ('sentence' in entity) return entity.updatedBy ?? entity.createdBy;
+  return entity.createdBy;
+}
+
+/**
+ * Resolve the public key for a signer DID
+ *
+ * @returns Base64 public key, or null if the stored key contradicts the DID
+ */
+export function resolveSignerPublicKey(
+  did: string,
+  identities: Record<string, IdentityProfile>
+): string | null | undefined {
+  const storedKey = identities[did]?.publicKey;
+
+  if (isValidDid(did)) {
+    const didKey = base64Encode(extractPublicKeyFromDid(did));
+    // A key written into doc.identities by someone else must not override the DID
+    if (storedKey && storedKey !== didKey) return null;
+    return didKey;
+  }
+
+  // Legacy (fake) DIDs: only the stored key is available
+  return storedKey;
+}
+
+/**
+ * Verify a single entity against its signer's public key
+ */
+export async function verifyOpinionGraphEntity(
+  entity: VerifiableEntity,
+  identities: Record<string, IdentityProfile>
+): Promise<EntitySignatureStatus> {
+  if (!entity.signature) return 'missing';
+
+  const publicKey = resolveSignerPublicKey(getEntitySignerDid(entity), identities);
+  if (!publicKey) return 'invalid';
+
+  const cacheKey = `${publicKey}|${JSON.stringify(entity)}`;
+  const cached = verificationCache.get(cacheKey);
+  if (cached) return cached;
+
+  const result = await verifyEntitySignature(
+    entity as unknown as Record<string, unknown>,
+    publicKey,
+    'sentence' in entity ? { ignoreFields: ASSUMPTION_INDEX_FIELDS } : {}
+  );
+  const status: EntitySignatureStatus = result.valid ? 'valid' : 'invalid';
+
+  verificationCache.set(cacheKey, status);
+  return status;
+}
+
+/**
+ * Verify all entities of an Opinion Graph
+ *
+ * @param data - Opinion graph data
+ * @param identities - Workspace identities (DID → profile with publicKey)
+ * @returns Status per entity, grouped by collection
+ */
+export async function verifyOpinionGraph(
+  data: OpinionGraphData,
+  identities: Record<string, IdentityProfile>
+): Promise<SignatureStatusMap> {
+  const statuses = createEmptySignatureStatusMap();
+
+  const verifyCollection = async <T extends VerifiableEntity>(
+    entities: Record<string, T> | undefined,
+    target: Record<string, EntitySignatureStatus>
+  ) => {
+    for (const [id, entity] of Object.entries(entities ?? {})) {
+      target[id] = await verifyOpinionGraphEntity(entity, identities);
+    }
+  };
+
+  await verifyCollection(data.assumptions, statuses.assumptions);
+  await verifyCollection(data.votes, statuses.votes);
+  await verifyCollection(data.tags, statuses.tags);
+  await verifyCollection(data.edits, statuses.edits);
+  await verifyCollection(data.relations, statuses.relations);
+
+  return statuses;
+}
+
+/**
+ * Mark entities whose signer lacks the required workspace role as unauthorized
+ *
+ * Invalid entities keep their status. Pending and unsigned entities are checked
+ * against the DID they claim to come from.
+ *
+ * @param statuses - Signature verification results
+ * @param data - Opinion graph data
+ * @param isAuthorized - Role check for a signer DID (e.g. can(did, 'member'))
+ * @returns New status map
+ */
+export function applyWorkspaceRoles(
+  statuses: SignatureStatusMap,
+  data: OpinionGraphData,
+  isAuthorized: (did: string) => boolean
+): SignatureStatusMap {
+  const result = createEmptySignatureStatusMap();
+
+  const applyCollection = <T extends VerifiableEntity>(
+    entities: Record<string, T> | undefined,
+    source: Record<string, EntitySignatureStatus>,
+    target: Record<string, EntitySignatureStatus>
+  ) => {
+    for (const [id, entity] of Object.entries(entities ?? {})) {
+      const status = source[id];
+      if (status !== 'invalid' && !isAuthorized(getEntitySignerDid(entity))) {
+        target[id] = 'unauthorized';
+      } else if (status) {
+        target[id] = status;
+      }
+    }
+  };
+
+  applyCollection(data.assumptions, statuses.assumptions, result.assumptions);
+  applyCollection(data.votes, statuses.votes, result.votes);
+  applyCollection(data.tags, statuses.tags, result.tags);
+  applyCollection(data.edits, statuses.edits, result.edits);
+  applyCollection(data.relations, statuses.relations, result.relations);
+
+  return result;
+}
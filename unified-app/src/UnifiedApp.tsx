@@ -7,18 +7,20 @@
 import { useState } from 'react';
 import type { DocHandle, AutomergeUrl, DocumentId } from '@automerge/automerge-repo';
 import { useDocHandle, useDocument } from '@automerge/automerge-repo-react-hooks';
-import { AppLayout, type AppContextValue, type UserDocument, type WorkspaceLoadingState, type ContentState } from 'narrative-ui';
+import { AppLayout, useWorkspaceEncryption, type AppContextValue, type UserDocument, type WorkspaceLoadingState, type ContentState, type PrivateKeySource } from 'narrative-ui';
 import { UnifiedDocument, AVAILABLE_MODULES, ModuleId } from './types';
 import { ModuleSwitcher } from './components/ModuleSwitcher';
 import { BottomNav } from './components/BottomNav';
 import { NarrativeModuleWrapper } from './components/NarrativeModuleWrapper';
 import { MarketModuleWrapper } from './components/MarketModuleWrapper';
 import { MapModuleWrapper } from './components/MapModuleWrapper';
+import { DankModuleWrapper } from './components/DankModuleWrapper';
+import { useVoucherReceiver } from 'dank-app/modules';
 
 export interface UnifiedAppProps {
   documentId: DocumentId | null;
   currentUserDid: string;
-  privateKey?: string;
+  privateKey?: PrivateKeySource;
   publicKey?: string;
   displayName?: string;
   onResetIdentity: () => void;
@@ -73,9 +75,23 @@ export function UnifiedApp({
   const [doc] = useDocument<UnifiedDocument>(documentId ?? undefined);
   const [userDoc] = useDocument<UserDocument>(userDocId as AutomergeUrl | undefined);
 
+  // End-to-end encryption: modules work on the decrypted view and change handle
+  const encryption = useWorkspaceEncryption<UnifiedDocument>({
+    doc,
+    docHandle,
+    workspaceId: documentId?.toString() ?? '',
+    currentUserDid,
+    privateKey,
+  });
+  const moduleDoc = encryption.doc;
+  const moduleHandle = encryption.handle;
+
   // App-specific UI state
   const [activeModule, setActiveModule] = useState<ModuleId>('narrative');
 
+  // Vouchers received via the QR scanner (Dank module)
+  const voucherReceiver = useVoucherReceiver();
+
   // Callback for updating identity in the document
   const handleUpdateIdentityInDoc = (updates: { displayName?: string; avatarUrl?: string }) => {
     if (!docHandle) return;
@@ -120,8 +136,17 @@ export function UnifiedApp({
       onGoToStart={onGoToStart}
       onSwitchWorkspace={onSwitchWorkspace}
       onImportIdentity={onImportIdentity}
+      workspaceEncryption={encryption}
+      qrCodeHandler={activeModule === 'dank' ? voucherReceiver.qrCodeHandler : undefined}
     >
-      {(ctx: AppContextValue) => (
+      {(ctx: AppContextValue) => {
+        // With an ACL, only the signed settings decide which modules are enabled
+        const enabledModules =
+          (ctx.workspaceAcl.isEnabled
+            ? ctx.workspaceAcl.settings?.enabledModules
+            : doc?.enabledModules) || { narrative: true };
+
+        return (
         <>
           {/* Module Content */}
           {activeModule === 'map' ? (
@@ -132,18 +157,19 @@ export function UnifiedApp({
                 <div className="hidden md:flex absolute top-4 left-1/2 -translate-x-1/2 z-500">
                   <ModuleSwitcher
                     modules={AVAILABLE_MODULES}
-                    enabledModules={doc.enabledModules || { narrative: true }}
+                    enabledModules={enabledModules}
                     activeModule={activeModule}
                     onModuleChange={setActiveModule}
                   />
                 </div>
               )}
-              {doc && docHandle && (
+              {moduleDoc && moduleHandle && (
                 <MapModuleWrapper
-                  doc={doc}
-                  docHandle={docHandle}
+                  doc={moduleDoc}
+                  docHandle={moduleHandle}
                   identity={{ did: currentUserDid }}
                   hiddenUserDids={ctx.hiddenUserDids}
+                  roles={ctx.workspaceAcl}
                 />
               )}
             </div>
@@ -155,29 +181,70 @@ export function UnifiedApp({
                 <div className="hidden md:flex justify-center py-4 sticky top-0 z-10 bg-base-200">
                   <ModuleSwitcher
                     modules={AVAILABLE_MODULES}
-                    enabledModules={doc.enabledModules || { narrative: true }}
+                    enabledModules={enabledModules}
                     activeModule={activeModule}
                     onModuleChange={setActiveModule}
                   />
                 </div>
               )}
               <div className="container mx-auto px-4 md:px-10 pt-6 md:pt-8 pb-24 md:pb-8 max-w-6xl w-full">
-                {activeModule === 'narrative' && doc?.data.narrative && docHandle && (
+                {encryption.status === 'decrypting' && (
+                  <div className="flex justify-center py-12">
+                    <span className="loading loading-spinner loading-lg text-primary"></span>
+                  </div>
+                )}
+
+                {encryption.concurrentEditLost && (
+                  <div role="alert" className="alert alert-warning text-sm mb-4">
+                    <span>
+                      Jemand hat gleichzeitig Änderungen gespeichert. Deine letzten Änderungen wurden
+                      dabei überschrieben - bitte prüfe sie und wiederhole sie gegebenenfalls.
+                    </span>
+                    <button className="btn btn-sm btn-ghost" onClick={encryption.dismissConcurrentEditWarning}>
+                      OK
+                    </button>
+                  </div>
+                )}
+
+                {activeModule === 'narrative' && moduleDoc?.data.narrative && moduleHandle && (
                   <NarrativeModuleWrapper
-                    doc={doc}
-                    docHandle={docHandle}
+                    doc={moduleDoc}
+                    docHandle={moduleHandle}
                     identity={{ did: currentUserDid, publicKey, displayName }}
                     privateKey={privateKey}
                     hiddenUserDids={ctx.hiddenUserDids}
+                    roles={ctx.workspaceAcl}
                   />
                 )}
 
-                {activeModule === 'market' && doc && docHandle && (
+                {activeModule === 'market' && moduleDoc && moduleHandle && (
                   <MarketModuleWrapper
-                    doc={doc}
-                    docHandle={docHandle}
+                    doc={moduleDoc}
+                    docHandle={moduleHandle}
                     identity={{ did: currentUserDid }}
                     hiddenUserDids={ctx.hiddenUserDids}
+                    roles={ctx.workspaceAcl}
+                    privateKey={privateKey}
+                    workspaceId={documentId?.toString()}
+                    paymentsEnabled={enabledModules.dank !== false}
+                  />
+                )}
+
+                {activeModule === 'dank' && moduleDoc && moduleHandle && (
+                  <DankModuleWrapper
+                    doc={moduleDoc}
+                    docHandle={moduleHandle}
+                    identity={{ did: currentUserDid }}
+                    privateKey={privateKey}
+                    workspaceId={documentId?.toString()}
+                    userDoc={userDoc}
+                    userDocHandle={userDocHandle}
+                    hiddenUserDids={ctx.hiddenUserDids}
+                    roles={ctx.workspaceAcl}
+                    receivedPackage={voucherReceiver.receivedPackage}
+                    receiveError={voucherReceiver.receiveError}
+                    onCloseReceive={voucherReceiver.closeReceive}
+                    showToast={ctx.showToast}
                   />
                 )}
               </div>
@@ -188,13 +255,14 @@ export function UnifiedApp({
           {doc && (
             <BottomNav
               modules={AVAILABLE_MODULES}
-              enabledModules={doc.enabledModules || { narrative: true }}
+              enabledModules={enabledModules}
               activeModule={activeModule}
               onModuleChange={setActiveModule}
             />
           )}
         </>
-      )}
+        );
+      }}
     </AppLayout>
   );
 }
@@ -0,0 +1,118 @@
+/**
+ * DankModuleWrapper - Connects DankModule to Automerge document
+ *
+ * This wrapper handles:
+ * - Converting UnifiedDocument to DankModule props
+ * - Running the wallet logic on the module's data (see useUnifiedDankWallet)
+ * - Managing the module-specific data within the unified document
+ * - Enforcing workspace roles (mutations need member)
+ *
+ * Vouchers are not filtered by role: their value rests on the issuer
+ * signature, not on the issuer's current workspace membership.
+ */
+
+import { DankModule, type VoucherTransferPackage } from 'dank-app/modules';
+import type {
+  PrivateKeySource,
+  UserDocument,
+  UserIdentity,
+  WorkspaceChangeHandle,
+  WorkspaceRoles,
+} from 'narrative-ui';
+import type { UnifiedDocument } from '../types';
+import { useUnifiedDankWallet } from '../hooks/useUnifiedDankWallet';
+
+interface DankModuleWrapperProps {
+  doc: UnifiedDocument;
+  docHandle: WorkspaceChangeHandle<UnifiedDocument>;
+  identity: UserIdentity;
+  privateKey?: PrivateKeySource;
+  /** Workspace document ID */
+  workspaceId?: string;
+  userDoc?: UserDocument | null;
+  /** Own UserDocument handle (personal vouchers across workspaces) */
+  userDocHandle?: WorkspaceChangeHandle<UserDocument>;
+  hiddenUserDids: Set<string>;
+  roles: WorkspaceRoles;
+  /** Voucher received via the QR scanner (see useVoucherReceiver) */
+  receivedPackage?: VoucherTransferPackage | null;
+  receiveError?: string | null;
+  onCloseReceive?: () => void;
+  /** Toast of the app (voucher expiry reminders) */
+  showToast?: (message: string) => void;
+}
+
+export function DankModuleWrapper({
+  doc,
+  docHandle,
+  identity,
+  privateKey,
+  workspaceId,
+  userDoc,
+  userDocHandle,
+  hiddenUserDids,
+  roles,
+  receivedPackage,
+  receiveError,
+  onCloseReceive,
+  showToast,
+}: DankModuleWrapperProps) {
+  const canEdit = roles.can(identity.did, 'member');
+
+  // Initialize dank data if missing (for existing documents)
+  if (!doc.data.dank && docHandle) {
+    docHandle.change((d) => {
+      if (!d.data.dank) {
+        d.data.dank = {
+          vouchers: {},
+        };
+        d.lastModified = Date.now();
+      }
+    });
+  }
+
+  const dankData = doc.data.dank;
+
+  const wallet = useUnifiedDankWallet({
+    doc,
+    docHandle,
+    currentUserDid: identity.did,
+    privateKey,
+    canEdit,
+    workspaceId,
+    userDoc,
+    userDocHandle,
+  });
+
+  if (!dankData) {
+    return (
+      <div className="card bg-base-100 shadow-xl">
+        <div className="card-body items-center text-center">
+          <h2 className="card-title">Dank Module</h2>
+          <p>No data available</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <DankModule
+      data={dankData}
+      onChange={() => {}} // Mutations go through the wallet operations
+      context={{
+        currentUserDid: identity.did,
+        identities: doc.identities,
+        userDoc,
+        trustGiven: userDoc?.trustGiven ?? {},
+        trustReceived: userDoc?.trustReceived ?? {},
+      }}
+      wallet={wallet}
+      hiddenUserDids={hiddenUserDids}
+      readOnly={!canEdit}
+      receivedPackage={receivedPackage}
+      receiveError={receiveError}
+      onCloseReceive={onCloseReceive}
+      showToast={showToast}
+    />
+  );
+}
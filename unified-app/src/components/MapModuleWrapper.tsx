@@ -5,21 +5,22 @@
  * - Converting UnifiedDocument to MapModule props
  * - Providing mutation callbacks that update the Automerge doc
  * - Managing the module-specific data within the unified document
+ * - Enforcing workspace roles (mutations need member, unauthorized authors are hidden)
  */
 
 import { useCallback, useMemo, useState } from 'react';
-import type { DocHandle } from '@automerge/automerge-repo';
 import { MapModule } from 'map-app/modules';
-import type { UserIdentity } from 'narrative-ui';
+import type { UserIdentity, WorkspaceChangeHandle, WorkspaceRoles } from 'narrative-ui';
 import { generateId } from 'narrative-ui';
 import type { UnifiedDocument } from '../types';
 import type { MapData, UserLocation } from 'map-app/schema';
 
 interface MapModuleWrapperProps {
   doc: UnifiedDocument;
-  docHandle: DocHandle<UnifiedDocument>;
+  docHandle: WorkspaceChangeHandle<UnifiedDocument>;
   identity: UserIdentity;
   hiddenUserDids: Set<string>;
+  roles: WorkspaceRoles;
   // TODO: profileActions should be passed from parent for unified profile handling
 }
 
@@ -28,7 +29,10 @@ export function MapModuleWrapper({
   docHandle,
   identity,
   hiddenUserDids,
+  roles,
 }: MapModuleWrapperProps) {
+  const canEdit = roles.can(identity.did, 'member');
+
   // State for placing marker mode
   const [isPlacingMarker, setIsPlacingMarker] = useState(false);
 
@@ -46,16 +50,18 @@ export function MapModuleWrapper({
 
   const mapData = doc.data.map;
 
-  // Get all locations as array
+  // Get all locations as array (unauthorized authors are ignored)
   const locations = useMemo((): UserLocation[] => {
     if (!mapData) return [];
-    return Object.values(mapData.locations) as UserLocation[];
-  }, [mapData]);
+    return (Object.values(mapData.locations) as UserLocation[]).filter((loc) =>
+      roles.can(loc.userDid, 'member')
+    );
+  }, [mapData, roles]);
 
   // Set or update current user's location
   const handleSetLocation = useCallback(
     (lat: number, lng: number, label?: string) => {
-      if (!docHandle) return;
+      if (!docHandle || !canEdit) return;
 
       docHandle.change((d) => {
         if (!d.data.map) return;
@@ -106,12 +112,12 @@ export function MapModuleWrapper({
         d.lastModified = now;
       });
     },
-    [docHandle, identity.did]
+    [docHandle, canEdit, identity.did]
   );
 
   // Remove current user's location
   const handleRemoveLocation = useCallback(() => {
-    if (!docHandle) return;
+    if (!docHandle || !canEdit) return;
 
     docHandle.change((d) => {
       if (!d.data.map) return;
@@ -127,7 +133,7 @@ export function MapModuleWrapper({
         d.lastModified = Date.now();
       }
     });
-  }, [docHandle, identity.did]);
+  }, [docHandle, canEdit, identity.did]);
 
   // Get current user's location
   const getMyLocation = useCallback((): UserLocation | null => {
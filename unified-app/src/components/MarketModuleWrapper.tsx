@@ -5,28 +5,44 @@
  * - Converting UnifiedDocument to MarketModule props
  * - Providing mutation callbacks that update the Automerge doc
  * - Managing the module-specific data within the unified document
+ * - Enforcing workspace roles (mutations need member, unauthorized authors are hidden)
+ * - Checkout of priced offers with vouchers of the Dank module (if enabled)
+ * - Verifying listing payments against the Dank vouchers (the payment record itself is unsigned)
  */
 
-import { useCallback, useMemo } from 'react';
-import type { DocHandle } from '@automerge/automerge-repo';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { MarketModule } from 'market-app/modules';
-import type { UserIdentity } from 'narrative-ui';
+import type {
+  PrivateKeySource,
+  UserIdentity,
+  WorkspaceChangeHandle,
+  WorkspaceRoles,
+} from 'narrative-ui';
 import { generateId } from 'narrative-ui';
 import type { UnifiedDocument } from '../types';
 import type {
   Listing,
   ListingType,
   ListingStatus,
+  ListingPrice,
   CategoryId,
   Reaction,
   MarketAppData,
 } from 'market-app/schema';
+import { verifyVoucherPayment } from 'dank-app/modules';
+import { useUnifiedDankWallet } from '../hooks/useUnifiedDankWallet';
 
 interface MarketModuleWrapperProps {
   doc: UnifiedDocument;
-  docHandle: DocHandle<UnifiedDocument>;
+  docHandle: WorkspaceChangeHandle<UnifiedDocument>;
   identity: UserIdentity;
   hiddenUserDids: Set<string>;
+  roles: WorkspaceRoles;
+  privateKey?: PrivateKeySource;
+  /** Workspace document ID */
+  workspaceId?: string;
+  /** The Dank module is enabled: priced offers can be paid with vouchers */
+  paymentsEnabled?: boolean;
 }
 
 export function MarketModuleWrapper({
@@ -34,7 +50,23 @@ export function MarketModuleWrapper({
   docHandle,
   identity,
   hiddenUserDids,
+  roles,
+  privateKey,
+  workspaceId,
+  paymentsEnabled = false,
 }: MarketModuleWrapperProps) {
+  const canEdit = roles.can(identity.did, 'member');
+
+  const wallet = useUnifiedDankWallet({
+    doc,
+    docHandle,
+    currentUserDid: identity.did,
+    privateKey,
+    canEdit,
+    workspaceId,
+  });
+  const canPay = paymentsEnabled && canEdit && !!privateKey && !!doc.data.dank;
+
   // Initialize market data if missing (for existing documents)
   if (!doc.data.market && docHandle) {
     docHandle.change((d) => {
@@ -50,13 +82,83 @@ export function MarketModuleWrapper({
 
   const marketData = doc.data.market;
 
-  // Get all listings as array, sorted by newest first
-  const listings = useMemo((): Listing[] => {
+  // Reactions from authors without write permission are ignored
+  const reactions = useMemo((): Reaction[] => {
     if (!marketData) return [];
-    return (Object.values(marketData.listings) as Listing[]).sort(
-      (a, b) => b.createdAt - a.createdAt
+    return (Object.values(marketData.reactions) as Reaction[]).filter((r) =>
+      roles.can(r.reactorDid, 'member')
     );
-  }, [marketData]);
+  }, [marketData, roles]);
+
+  // Get all listings as array, sorted by newest first (unauthorized authors are ignored)
+  const listings = useMemo((): Listing[] => {
+    if (!marketData) return [];
+    return (Object.values(marketData.listings) as Listing[])
+      .filter((l) => roles.can(l.createdBy, 'member'))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  }, [marketData, roles]);
+
+  // Listings whose payment is backed by transfers to their author, signed
+  // for this listing. A transfer claimed by several listings pays none of them.
+  const [verifiedPaymentIds, setVerifiedPaymentIds] = useState<Set<string>>(new Set());
+  const dankVouchers = doc.data.dank?.vouchers;
+  useEffect(() => {
+    const paidListings = listings.filter((l) => l.payment && l.price);
+    const claims = new Map<string, number>();
+    for (const listing of paidListings) {
+      for (const transferId of new Set(listing.payment!.transferIds)) {
+        claims.set(transferId, (claims.get(transferId) ?? 0) + 1);
+      }
+    }
+
+    const verifyPayments = async (): Promise<Set<string>> => {
+      const verified = new Set<string>();
+      for (const listing of paidListings) {
+        const payment = listing.payment!;
+        const price = listing.price!;
+        if (
+          payment.amount !== price.amount ||
+          payment.unit !== price.unit ||
+          payment.transferIds.some((id) => claims.get(id) !== 1)
+        ) {
+          continue;
+        }
+        const isPaid = await verifyVoucherPayment(
+          {
+            payerId: payment.payerDid,
+            payeeId: listing.createdBy,
+            amount: price.amount,
+            unit: price.unit,
+            transferIds: [...payment.transferIds],
+            reference: listing.id,
+            notBefore: listing.createdAt,
+          },
+          dankVouchers ?? {},
+          doc.identities
+        );
+        if (isPaid) verified.add(listing.id);
+      }
+      return verified;
+    };
+
+    let cancelled = false;
+    verifyPayments()
+      .then((verified) => {
+        if (!cancelled) setVerifiedPaymentIds(verified);
+      })
+      .catch((error) => {
+        console.error('[MarketModuleWrapper] Failed to verify payments:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [listings, dankVouchers, doc.identities]);
+
+  const isPaymentVerified = useCallback(
+    (listingId: string): boolean => verifiedPaymentIds.has(listingId),
+    [verifiedPaymentIds]
+  );
 
   // Create new listing
   const handleCreateListing = useCallback(
@@ -66,8 +168,9 @@ export function MarketModuleWrapper({
       description: string;
       categoryId: CategoryId;
       location?: string;
+      price?: ListingPrice;
     }) => {
-      if (!docHandle) return;
+      if (!docHandle || !canEdit) return;
 
       docHandle.change((d) => {
         if (!d.data.market) return;
@@ -94,18 +197,21 @@ export function MarketModuleWrapper({
         if (data.location) {
           listing.location = data.location;
         }
+        if (data.price) {
+          listing.price = { amount: data.price.amount, unit: data.price.unit };
+        }
 
         mkt.listings[id] = listing;
         d.lastModified = now;
       });
     },
-    [docHandle, identity.did]
+    [docHandle, canEdit, identity.did]
   );
 
   // Set listing status
   const handleSetListingStatus = useCallback(
     (id: string, status: ListingStatus) => {
-      if (!docHandle) return;
+      if (!docHandle || !canEdit) return;
 
       docHandle.change((d) => {
         if (!d.data.market) return;
@@ -119,13 +225,60 @@ export function MarketModuleWrapper({
         d.lastModified = Date.now();
       });
     },
-    [docHandle]
+    [docHandle, canEdit]
+  );
+
+  // Pay an offer with vouchers and reserve it for the payer
+  const handlePayListing = useCallback(
+    async (listingId: string) => {
+      const listing = marketData?.listings[listingId];
+      if (!listing?.price) {
+        throw new Error('Listing has no price');
+      }
+      // An unverified payment doesn't block the listing
+      if (listing.status !== 'active' || verifiedPaymentIds.has(listingId)) {
+        throw new Error('Listing is no longer available');
+      }
+
+      const transfers = await wallet.payWithVouchers(
+        listing.createdBy,
+        listing.price.amount,
+        listing.price.unit,
+        `Marktplatz: ${listing.title}`,
+        listingId
+      );
+
+      const price = listing.price;
+      docHandle.change((d) => {
+        const l = d.data.market?.listings[listingId];
+        if (!l) return;
+
+        const now = Date.now();
+        l.payment = {
+          payerDid: identity.did,
+          amount: price.amount,
+          unit: price.unit,
+          transferIds: transfers.map((t) => t.id),
+          paidAt: now,
+        };
+        l.status = 'reserved';
+        l.updatedAt = now;
+        d.lastModified = now;
+      });
+    },
+    [docHandle, marketData, wallet, identity.did, verifiedPaymentIds]
+  );
+
+  // Own voucher amount in a unit
+  const getAvailableAmount = useCallback(
+    (unit: string): number => wallet.balances.find((b) => b.unit === unit)?.totalAmount ?? 0,
+    [wallet.balances]
   );
 
   // Add reaction
   const handleAddReaction = useCallback(
     (listingId: string) => {
-      if (!docHandle) return;
+      if (!docHandle || !canEdit) return;
 
       docHandle.change((d) => {
         if (!d.data.market) return;
@@ -150,13 +303,13 @@ export function MarketModuleWrapper({
         d.lastModified = now;
       });
     },
-    [docHandle, identity.did]
+    [docHandle, canEdit, identity.did]
   );
 
   // Remove reaction
   const handleRemoveReaction = useCallback(
     (listingId: string) => {
-      if (!docHandle || !marketData) return;
+      if (!docHandle || !marketData || !canEdit) return;
 
       // Find user's reaction
       const reactions = Object.values(marketData.reactions) as Reaction[];
@@ -184,40 +337,26 @@ export function MarketModuleWrapper({
         d.lastModified = Date.now();
       });
     },
-    [docHandle, marketData, identity.did]
+    [docHandle, marketData, canEdit, identity.did]
   );
 
   // Get reaction count for a listing
   const getReactionCount = useCallback(
-    (listingId: string): number => {
-      if (!marketData) return 0;
-      return (Object.values(marketData.reactions) as Reaction[]).filter(
-        (r) => r.listingId === listingId
-      ).length;
-    },
-    [marketData]
+    (listingId: string): number => reactions.filter((r) => r.listingId === listingId).length,
+    [reactions]
   );
 
   // Check if user has reacted to a listing
   const hasUserReacted = useCallback(
-    (listingId: string): boolean => {
-      if (!marketData) return false;
-      return (Object.values(marketData.reactions) as Reaction[]).some(
-        (r) => r.listingId === listingId && r.reactorDid === identity.did
-      );
-    },
-    [marketData, identity.did]
+    (listingId: string): boolean =>
+      reactions.some((r) => r.listingId === listingId && r.reactorDid === identity.did),
+    [reactions, identity.did]
   );
 
   // Get reactions for a listing
   const getReactionsForListing = useCallback(
-    (listingId: string): Reaction[] => {
-      if (!marketData) return [];
-      return (Object.values(marketData.reactions) as Reaction[]).filter(
-        (r) => r.listingId === listingId
-      );
-    },
-    [marketData]
+    (listingId: string): Reaction[] => reactions.filter((r) => r.listingId === listingId),
+    [reactions]
   );
 
   if (!marketData) {
@@ -251,6 +390,9 @@ export function MarketModuleWrapper({
       getReactionsForListing={getReactionsForListing}
       listings={listings}
       hiddenUserDids={hiddenUserDids}
+      onPayListing={canPay ? handlePayListing : undefined}
+      getAvailableAmount={getAvailableAmount}
+      isPaymentVerified={isPaymentVerified}
       doc={{
         identities: doc.identities,
       }}
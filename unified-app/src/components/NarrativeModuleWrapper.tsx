@@ -5,22 +5,39 @@
  * - Converting UnifiedDocument to NarrativeModule props
  * - Providing mutation callbacks that update the Automerge doc
  * - Managing the module-specific data within the unified document
+ * - Enforcing workspace roles (mutations need member, strict mode needs admin)
  */
 
 import { useCallback, useEffect, useMemo } from 'react';
-import type { DocHandle } from '@automerge/automerge-repo';
-import { NarrativeModule } from 'narrative-app/modules';
-import type { UserIdentity } from 'narrative-ui';
-import { generateId, signEntity } from 'narrative-ui';
+import {
+  NarrativeModule,
+  useSignatureVerification,
+  applyWorkspaceRoles,
+  prepareBundleImport,
+  applyBundleImport,
+} from 'narrative-app/modules';
+import type { AssumptionBundle, BundleImportSummary, SignedAssumptionBundle } from 'narrative-app/modules';
+import type { PrivateKeySource, UserIdentity, WorkspaceChangeHandle, WorkspaceRoles } from 'narrative-ui';
+import { generateId, signEntity, signJws } from 'narrative-ui';
 import type { UnifiedDocument } from '../types';
-import type { Assumption, Vote, Tag, EditEntry, OpinionGraphData } from 'narrative-app/schema';
+import type {
+  Assumption,
+  AssumptionRelation,
+  Vote,
+  Tag,
+  EditEntry,
+  OpinionGraphData,
+  RelationType,
+} from 'narrative-app/schema';
+import { computeVoteSummary, findRelation } from 'narrative-app/schema';
 
 interface NarrativeModuleWrapperProps {
   doc: UnifiedDocument;
-  docHandle: DocHandle<UnifiedDocument>;
+  docHandle: WorkspaceChangeHandle<UnifiedDocument>;
   identity: UserIdentity;
-  privateKey?: string;
+  privateKey?: PrivateKeySource;
   hiddenUserDids: Set<string>;
+  roles: WorkspaceRoles;
 }
 
 export function NarrativeModuleWrapper({
@@ -29,8 +46,59 @@ export function NarrativeModuleWrapper({
   identity,
   privateKey,
   hiddenUserDids,
+  roles,
 }: NarrativeModuleWrapperProps) {
   const narrativeData = doc.data.narrative;
+  const verifiedStatuses = useSignatureVerification(narrativeData, doc.identities);
+  const requireSignatures = narrativeData?.requireSignatures ?? false;
+  const canEdit = roles.can(identity.did, 'member');
+  const canAdmin = roles.can(identity.did, 'admin');
+
+  // Entities from authors without write permission are treated like forged ones
+  const signatureStatuses = useMemo(
+    () =>
+      roles.isEnabled && narrativeData
+        ? applyWorkspaceRoles(verifiedStatuses, narrativeData, (did) => roles.can(did, 'member'))
+        : verifiedStatuses,
+    [roles, narrativeData, verifiedStatuses]
+  );
+
+  /**
+   * Resolve tag names to IDs, building (signed) tags for names that don't exist yet
+   * Signing is async, so this runs before the Automerge change callback.
+   */
+  const prepareTags = useCallback(
+    async (tagNames: string[], now: number) => {
+      const existingTags = Object.values(narrativeData?.tags ?? {}) as Tag[];
+      const tagIds: string[] = [];
+      const newTags: Tag[] = [];
+
+      for (const tagName of tagNames) {
+        const existing =
+          existingTags.find((t) => t.name.toLowerCase() === tagName.toLowerCase()) ??
+          newTags.find((t) => t.name.toLowerCase() === tagName.toLowerCase());
+        if (existing) {
+          if (!tagIds.includes(existing.id)) tagIds.push(existing.id);
+          continue;
+        }
+
+        const newTag: Tag = {
+          id: generateId(),
+          name: tagName,
+          createdBy: identity.did,
+          createdAt: now,
+        };
+        if (privateKey) {
+          newTag.signature = await signEntity(newTag as unknown as Record<string, unknown>, privateKey);
+        }
+        newTags.push(newTag);
+        tagIds.push(newTag.id);
+      }
+
+      return { tagIds, newTags };
+    },
+    [narrativeData, identity.did, privateKey]
+  );
 
   // Ensure current user's publicKey is stored in identities for signature verification
   useEffect(() => {
@@ -67,20 +135,21 @@ export function NarrativeModuleWrapper({
   // Create new assumption
   const handleCreateAssumption = useCallback(
     async (sentence: string, tagNames: string[]) => {
-      if (!docHandle) return;
+      if (!docHandle || !canEdit) return;
 
       const now = Date.now();
       const assumptionId = generateId();
       const editId = generateId();
+      const { tagIds, newTags } = await prepareTags(tagNames, now);
 
-      // Prepare data for signing (before change)
+      // Prepare complete data for signing (before change)
       const assumptionData: Assumption = {
         id: assumptionId,
         sentence,
         createdBy: identity.did,
         createdAt: now,
         updatedAt: now,
-        tagIds: [], // Will be filled in change
+        tagIds,
         voteIds: [],
         editLogIds: [editId],
       };
@@ -92,7 +161,8 @@ export function NarrativeModuleWrapper({
         type: 'create',
         previousSentence: '',
         newSentence: sentence,
-        newTags: [], // Will be filled in change
+        previousTags: [],
+        newTags: tagNames,
         createdAt: now,
       };
 
@@ -106,43 +176,22 @@ export function NarrativeModuleWrapper({
         if (!d.data.narrative) return;
         const data = d.data.narrative as OpinionGraphData;
 
-        // Create or find tags
-        const tagIds: string[] = [];
-        for (const tagName of tagNames) {
-          const existingTag = (Object.values(data.tags) as Tag[]).find(
-            (t: Tag) => t.name.toLowerCase() === tagName.toLowerCase()
-          );
-
-          if (existingTag) {
-            tagIds.push(existingTag.id);
-          } else {
-            const newTag: Tag = {
-              id: generateId(),
-              name: tagName,
-              createdBy: identity.did,
-              createdAt: now,
-            };
-            data.tags[newTag.id] = newTag;
-            tagIds.push(newTag.id);
-          }
+        // Store signed entities without modification
+        for (const tag of newTags) {
+          if (!data.tags[tag.id]) data.tags[tag.id] = tag;
         }
-
-        // Update tagIds in prepared data
-        assumptionData.tagIds = tagIds;
-        editData.newTags = tagIds;
-
         data.assumptions[assumptionId] = assumptionData;
         data.edits[editId] = editData;
         d.lastModified = now;
       });
     },
-    [docHandle, identity.did, privateKey]
+    [docHandle, canEdit, identity.did, privateKey, prepareTags]
   );
 
   // Vote on assumption
   const handleVote = useCallback(
     async (assumptionId: string, value: 'green' | 'yellow' | 'red') => {
-      if (!docHandle) return;
+      if (!docHandle || !canEdit) return;
 
       const now = Date.now();
 
@@ -157,8 +206,10 @@ export function NarrativeModuleWrapper({
         const existingVote = narrativeData?.votes[existingVoteId];
         if (!existingVote) return;
 
+        // The old signature covers the old value, so it isn't carried over
+        const { signature: _oldSignature, ...unsignedVote } = existingVote;
         const updatedVoteData: Vote = {
-          ...existingVote,
+          ...unsignedVote,
           value,
           updatedAt: now,
         };
@@ -176,6 +227,8 @@ export function NarrativeModuleWrapper({
             vote.updatedAt = now;
             if (updatedVoteData.signature) {
               vote.signature = updatedVoteData.signature;
+            } else {
+              delete vote.signature;
             }
           }
           d.lastModified = now;
@@ -209,19 +262,24 @@ export function NarrativeModuleWrapper({
         });
       }
     },
-    [docHandle, identity.did, privateKey, narrativeData]
+    [docHandle, canEdit, identity.did, privateKey, narrativeData]
   );
 
   // Update assumption
   const handleUpdateAssumption = useCallback(
-    async (id: string, sentence: string, tagNames: string[]) => {
-      if (!docHandle || !narrativeData) return;
+    async (id: string, sentence: string, tagNames: string[], revertedTo?: string) => {
+      if (!docHandle || !narrativeData || !canEdit) return;
 
       const existingAssumption = narrativeData.assumptions[id];
       if (!existingAssumption) return;
 
       const now = Date.now();
       const editId = generateId();
+      const { tagIds: newTagIds, newTags } = await prepareTags(tagNames, now);
+
+      const previousTagNames = existingAssumption.tagIds
+        .map((tid: string) => narrativeData.tags[tid]?.name)
+        .filter((name: string | undefined): name is string => Boolean(name));
 
       // Prepare edit entry for signing
       const editEntry: EditEntry = {
@@ -231,14 +289,31 @@ export function NarrativeModuleWrapper({
         type: 'edit',
         previousSentence: existingAssumption.sentence,
         newSentence: sentence,
-        previousTags: [...existingAssumption.tagIds],
-        newTags: [], // Will be filled in change
+        previousTags: previousTagNames,
+        newTags: tagNames,
         createdAt: now,
+        ...(revertedTo ? { revertedTo } : {}),
       };
 
-      // Sign edit entry
+      // Final tagIds order after granular update: kept tags first, then added ones
+      const finalTagIds = [
+        ...existingAssumption.tagIds.filter((tid: string) => newTagIds.includes(tid)),
+        ...newTagIds.filter((tid: string) => !existingAssumption.tagIds.includes(tid)),
+      ];
+
+      // Sign edit entry and the new assumption version (current user becomes updatedBy)
+      let assumptionSignature: string | undefined;
       if (privateKey) {
         editEntry.signature = await signEntity(editEntry as unknown as Record<string, unknown>, privateKey);
+
+        const nextVersion: Assumption = {
+          ...existingAssumption,
+          sentence,
+          tagIds: finalTagIds,
+          updatedAt: now,
+          updatedBy: identity.did,
+        };
+        assumptionSignature = await signEntity(nextVersion as unknown as Record<string, unknown>, privateKey);
       }
 
       docHandle.change((d) => {
@@ -248,36 +323,22 @@ export function NarrativeModuleWrapper({
         const assumption = data.assumptions[id];
         if (!assumption) return;
 
-        // Create or find tags
-        const newTagIds: string[] = [];
-        for (const tagName of tagNames) {
-          const existingTag = (Object.values(data.tags) as Tag[]).find(
-            (t: Tag) => t.name.toLowerCase() === tagName.toLowerCase()
-          );
-
-          if (existingTag) {
-            newTagIds.push(existingTag.id);
-          } else {
-            const newTag: Tag = {
-              id: generateId(),
-              name: tagName,
-              createdBy: identity.did,
-              createdAt: now,
-            };
-            data.tags[newTag.id] = newTag;
-            newTagIds.push(newTag.id);
-          }
+        for (const tag of newTags) {
+          if (!data.tags[tag.id]) data.tags[tag.id] = tag;
         }
 
-        // Update edit entry with tag IDs
-        editEntry.newTags = newTagIds;
-
         data.edits[editId] = editEntry;
         assumption.editLogIds.push(editId);
 
         // Update assumption - use granular operations for tags
         assumption.sentence = sentence;
         assumption.updatedAt = now;
+        assumption.updatedBy = identity.did;
+        if (assumptionSignature) {
+          assumption.signature = assumptionSignature;
+        } else {
+          delete assumption.signature;
+        }
 
         // Update tagIds granularly (Automerge best practice)
         const toRemove = assumption.tagIds.filter((tid: string) => !newTagIds.includes(tid));
@@ -292,7 +353,104 @@ export function NarrativeModuleWrapper({
         d.lastModified = now;
       });
     },
-    [docHandle, identity.did, privateKey, narrativeData]
+    [docHandle, canEdit, identity.did, privateKey, narrativeData, prepareTags]
+  );
+
+  // Add a signed relation between two assumptions
+  const handleAddRelation = useCallback(
+    async (sourceId: string, targetId: string, type: RelationType) => {
+      if (!docHandle || !narrativeData || !canEdit || sourceId === targetId) return;
+      if (!narrativeData.assumptions[sourceId] || !narrativeData.assumptions[targetId]) return;
+      if (findRelation(narrativeData.relations, sourceId, targetId, type)) return;
+
+      const now = Date.now();
+      const relation: AssumptionRelation = {
+        id: generateId(),
+        sourceId,
+        targetId,
+        type,
+        createdBy: identity.did,
+        createdAt: now,
+      };
+      if (privateKey) {
+        relation.signature = await signEntity(relation as unknown as Record<string, unknown>, privateKey);
+      }
+
+      docHandle.change((d) => {
+        if (!d.data.narrative) return;
+        const data = d.data.narrative as OpinionGraphData;
+        if (!data.relations) data.relations = {};
+        data.relations[relation.id] = relation;
+        d.lastModified = now;
+      });
+    },
+    [docHandle, canEdit, identity.did, privateKey, narrativeData]
+  );
+
+  // Remove an own relation
+  const handleRemoveRelation = useCallback(
+    (relationId: string) => {
+      if (!docHandle || !canEdit) return;
+
+      docHandle.change((d) => {
+        const relations = d.data.narrative?.relations;
+        if (!relations || relations[relationId]?.createdBy !== identity.did) return;
+
+        delete relations[relationId];
+        d.lastModified = Date.now();
+      });
+    },
+    [docHandle, canEdit, identity.did]
+  );
+
+  // Import a signed assumption bundle (signed entities are taken over unchanged)
+  const handleImportBundle = useCallback(
+    async (file: unknown): Promise<BundleImportSummary> => {
+      if (!docHandle || !narrativeData || !canEdit) {
+        throw new Error('Keine Schreibberechtigung in diesem Workspace');
+      }
+
+      const { selection, summary } = await prepareBundleImport(file, narrativeData);
+      if (summary.imported > 0) {
+        docHandle.change((d) => {
+          if (!d.data.narrative) return;
+          if (!d.identities) d.identities = {};
+          applyBundleImport(d.data.narrative as OpinionGraphData, d.identities, selection);
+          d.lastModified = Date.now();
+        });
+      }
+      return summary;
+    },
+    [docHandle, narrativeData, canEdit]
+  );
+
+  // Sign an assumption bundle for export
+  const handleSignBundle = useCallback(
+    async (bundle: AssumptionBundle): Promise<SignedAssumptionBundle> => {
+      if (!privateKey) {
+        throw new Error('Zum Signieren wird ein privater Schlüssel benötigt');
+      }
+      return { bundle, jws: await signJws(bundle, privateKey) };
+    },
+    [privateKey]
+  );
+
+  // Toggle strict signature mode for this workspace
+  const handleToggleRequireSignatures = useCallback(
+    (enabled: boolean) => {
+      if (!docHandle || !canAdmin) return;
+
+      docHandle.change((d) => {
+        if (!d.data.narrative) return;
+        if (enabled) {
+          d.data.narrative.requireSignatures = true;
+        } else {
+          delete d.data.narrative.requireSignatures;
+        }
+        d.lastModified = Date.now();
+      });
+    },
+    [docHandle, canAdmin]
   );
 
   // Get vote summary for an assumption
@@ -307,29 +465,17 @@ export function NarrativeModuleWrapper({
         return { green: 0, yellow: 0, red: 0, total: 0 };
       }
 
-      const summary = { green: 0, yellow: 0, red: 0, total: 0, userVote: undefined as 'green' | 'yellow' | 'red' | undefined };
+      // Skip hidden users and rejected signatures
+      const visibleVotes = Object.fromEntries(
+        Object.entries(narrativeData.votes).filter(([, vote]) => !hiddenUserDids.has(vote.voterDid))
+      );
 
-      for (const voteId of assumption.voteIds) {
-        const vote = narrativeData.votes[voteId];
-        if (!vote) continue;
-
-        // Skip hidden users
-        if (hiddenUserDids.has(vote.voterDid)) continue;
-
-        if (vote.value === 'green') summary.green++;
-        else if (vote.value === 'yellow') summary.yellow++;
-        else if (vote.value === 'red') summary.red++;
-
-        summary.total++;
-
-        if (vote.voterDid === identity.did) {
-          summary.userVote = vote.value;
-        }
-      }
-
-      return summary;
+      return computeVoteSummary(assumption, visibleVotes, identity.did, {
+        signatureStatuses: signatureStatuses.votes,
+        requireSignatures,
+      });
     },
-    [narrativeData, identity.did, hiddenUserDids]
+    [narrativeData, identity.did, hiddenUserDids, signatureStatuses, requireSignatures]
   );
 
   // Get votes for an assumption
@@ -395,6 +541,13 @@ export function NarrativeModuleWrapper({
       tags={tags}
       assumptions={assumptions}
       hiddenUserDids={hiddenUserDids}
+      signatureStatuses={signatureStatuses}
+      onToggleRequireSignatures={canAdmin ? handleToggleRequireSignatures : undefined}
+      canEdit={canEdit}
+      onAddRelation={handleAddRelation}
+      onRemoveRelation={handleRemoveRelation}
+      onImportBundle={handleImportBundle}
+      onSignBundle={privateKey ? handleSignBundle : undefined}
     />
   );
 }
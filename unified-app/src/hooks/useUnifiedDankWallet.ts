@@ -0,0 +1,74 @@
+/**
+ * useUnifiedDankWallet - Dank wallet on the dank data of a unified document
+ *
+ * Maps the unified document onto the wallet's document view, so the wallet
+ * logic works unchanged. Used by the Dank module and by the Marktplatz
+ * checkout. Without edit rights the wallet is read-only (no change handle).
+ * With the UserDocument, vouchers can be moved into the personal wallet.
+ */
+
+import { useMemo } from 'react';
+import { useDankWalletData, type DankWallet } from 'dank-app/modules';
+import type { DankWalletView } from 'dank-app/schema';
+import type { PrivateKeySource, UserDocument, WorkspaceChangeHandle } from 'narrative-ui';
+import type { UnifiedDocument } from '../types';
+
+interface UseUnifiedDankWalletOptions {
+  doc: UnifiedDocument;
+  docHandle: WorkspaceChangeHandle<UnifiedDocument>;
+  currentUserDid: string;
+  privateKey?: PrivateKeySource;
+  canEdit: boolean;
+  /** Workspace document ID */
+  workspaceId?: string;
+  userDoc?: UserDocument | null;
+  userDocHandle?: WorkspaceChangeHandle<UserDocument>;
+}
+
+export function useUnifiedDankWallet({
+  doc,
+  docHandle,
+  currentUserDid,
+  privateKey,
+  canEdit,
+  workspaceId,
+  userDoc,
+  userDocHandle,
+}: UseUnifiedDankWalletOptions): DankWallet {
+  const dankData = doc.data.dank;
+
+  // The wallet works on identities plus the module's data
+  const walletDoc = useMemo((): DankWalletView | undefined => {
+    if (!dankData) return undefined;
+    return { identities: doc.identities, data: dankData, lastModified: doc.lastModified };
+  }, [doc.identities, dankData, doc.lastModified]);
+
+  const walletHandle = useMemo((): WorkspaceChangeHandle<DankWalletView> | undefined => {
+    if (!canEdit) return undefined;
+
+    return {
+      change: (callback) => {
+        docHandle.change((d) => {
+          if (!d.data.dank) return;
+          const draft: DankWalletView = {
+            identities: d.identities,
+            data: d.data.dank,
+            lastModified: d.lastModified,
+          };
+          callback(draft);
+          d.lastModified = draft.lastModified;
+        });
+      },
+    };
+  }, [docHandle, canEdit]);
+
+  return useDankWalletData({
+    doc: walletDoc,
+    docHandle: walletHandle,
+    currentUserDid,
+    privateKey,
+    workspaceId,
+    userDoc,
+    userDocHandle,
+  });
+}
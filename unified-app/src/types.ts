@@ -9,7 +9,8 @@ import type { BaseDocument, UserIdentity } from 'narrative-ui';
 import type { OpinionGraphData } from 'narrative-app/schema';
 import type { MarketAppData } from 'market-app/schema';
 import type { MapData } from 'map-app/schema';
-import { NarrativeIcon, MapIcon, MarketIcon } from './moduleIcons';
+import type { DankWalletData } from 'dank-app/schema';
+import { NarrativeIcon, MapIcon, MarketIcon, DankIcon } from './moduleIcons';
 
 /**
  * Multi-module data structure
@@ -19,6 +20,7 @@ export interface UnifiedModuleData {
   narrative?: OpinionGraphData;
   market?: MarketAppData;
   map?: MapData;
+  dank?: DankWalletData;
 }
 
 /**
@@ -60,6 +62,7 @@ export function createEmptyUnifiedDoc(
       narrative: true,
       market: true,
       map: true,
+      dank: true,
     },
     identities: {
       [creatorIdentity.did]: identityProfile,
@@ -70,6 +73,7 @@ export function createEmptyUnifiedDoc(
         votes: {},
         tags: {},
         edits: {},
+        relations: {},
       },
       market: {
         listings: {},
@@ -78,6 +82,9 @@ export function createEmptyUnifiedDoc(
       map: {
         locations: {},
       },
+      dank: {
+        vouchers: {},
+      },
     },
   };
 }
@@ -85,7 +92,7 @@ export function createEmptyUnifiedDoc(
 /**
  * Available module IDs
  */
-export type ModuleId = 'narrative' | 'map' | 'market';
+export type ModuleId = 'narrative' | 'map' | 'market' | 'dank';
 
 /**
  * Module metadata for UI
@@ -123,4 +130,11 @@ export const AVAILABLE_MODULES: ModuleInfo[] = [
     description: 'Marketplace for offers and needs',
     available: true,
   },
+  {
+    id: 'dank',
+    name: 'Dank',
+    icon: DankIcon,
+    description: 'Signed vouchers for mutual help',
+    available: true,
+  },
 ];
\ No newline at end of file
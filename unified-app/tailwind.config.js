@@ -7,6 +7,7 @@ export default {
     '../narrative-app/src/**/*.{js,ts,jsx,tsx}',
     '../market-app/src/**/*.{js,ts,jsx,tsx}',
     '../map-app/src/**/*.{js,ts,jsx,tsx}',
+    '../dank-app/src/**/*.{js,ts,jsx,tsx}',
   ],
   theme: {
     extend: {},